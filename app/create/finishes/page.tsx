@@ -25,12 +25,17 @@ import {
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { RoomFinish, CameraPlacement, TemplateOption, TierOption } from "@/lib/api/client";
+import { estimateCost } from "@/lib/cost";
+import { CostEstimatePanel } from "@/components/cost-estimate";
 
 // Vibe images are now served from /public/vibes/
 
+// Default canvas scale (must match floor-plan-editor/hooks/use-canvas-config.ts)
+const DEFAULT_PIXELS_PER_FOOT = 800 / 36;
+
 export default function FinishesPage() {
   const router = useRouter();
-  const { floorPlan, blueprintId, projectName } = useWizard();
+  const { floorPlan, blueprintId, projectName, costSettings, setCostSettings } = useWizard();
 
   // Finishes hook
   const {
@@ -64,6 +69,26 @@ export default function FinishesPage() {
     }));
   }, [floorPlan]);
 
+  // Price the whole plan (every level) at each room's tier and vibe
+  const costEstimate = useMemo(() => {
+    if (!floorPlan) return null;
+    return estimateCost(
+      {
+        rooms: floorPlan.rooms,
+        doors: floorPlan.doors,
+        windows: floorPlan.windows,
+        furniture: floorPlan.furniture ?? [],
+        pixelsPerFoot: floorPlan.pixelsPerFoot ?? DEFAULT_PIXELS_PER_FOOT,
+        ceilingHeight: floorPlan.ceilingHeight,
+        levels: floorPlan.levels,
+        stairs: floorPlan.stairs,
+        sewerConnection: floorPlan.sewerConnection,
+      },
+      { globalTier: finishes?.globalTier, roomFinishes: finishes?.roomFinishes },
+      costSettings
+    );
+  }, [floorPlan, finishes, costSettings]);
+
   // Load finishes when blueprint ID is available
   useEffect(() => {
     if (blueprintId) {
@@ -537,6 +562,15 @@ export default function FinishesPage() {
           </Card>
         </div>
 
+        {/* Cost Estimate */}
+        {costEstimate && (
+          <CostEstimatePanel
+            estimate={costEstimate}
+            settings={costSettings}
+            onSettingsChange={setCostSettings}
+          />
+        )}
+
         {/* Navigation */}
         <div className="flex justify-between pt-4">
           <Button
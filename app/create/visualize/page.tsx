@@ -5,7 +5,7 @@ import { Card } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { useRouter } from "next/navigation"
 import { useWizard } from "@/lib/context/wizard-context"
-import { useFinishes } from "@/lib/api/hooks"
+import { useFinishes, useLot } from "@/lib/api/hooks"
 import {
   ArrowLeft,
   Download,
@@ -14,7 +14,7 @@ import {
   Maximize2,
   Minimize2,
 } from "lucide-react"
-import { FloorPlan3DViewer } from "@/components/floor-plan-3d"
+import { FloorPlan3DViewer, Title24Card } from "@/components/floor-plan-3d"
 import type { Furniture } from "@/components/floor-plan-editor/types"
 
 // Default canvas dimensions (must match floor-plan-editor/hooks/use-canvas-config.ts)
@@ -29,6 +29,9 @@ export default function VisualizePage() {
   // Load finishes for materials
   const { finishes, loading, loadFinishes } = useFinishes(blueprintId ?? undefined)
 
+  // Lot location and structures for the sun study
+  const { lot, loadLot } = useLot(blueprintId ?? undefined)
+
   // Load finishes when blueprint ID is available
   useEffect(() => {
     if (blueprintId) {
@@ -36,6 +39,12 @@ export default function VisualizePage() {
     }
   }, [blueprintId, loadFinishes])
 
+  useEffect(() => {
+    if (blueprintId) {
+      loadLot(blueprintId)
+    }
+  }, [blueprintId, loadLot])
+
   // Debug: Log the entire floorPlan object
   console.log("=== Visualize Page Debug ===")
   console.log("FloorPlan object:", floorPlan)
@@ -121,6 +130,11 @@ export default function VisualizePage() {
           pixelsPerFoot={ppf}
           canvasWidth={canvasWidth}
           canvasHeight={canvasHeight}
+          ceilingHeight={floorPlan.ceilingHeight}
+          levels={floorPlan.levels}
+          stairs={floorPlan.stairs}
+          projectName={projectName}
+          site={lot ?? undefined}
         />
       </div>
     )
@@ -160,6 +174,11 @@ export default function VisualizePage() {
               pixelsPerFoot={ppf}
               canvasWidth={canvasWidth}
               canvasHeight={canvasHeight}
+              ceilingHeight={floorPlan.ceilingHeight}
+              levels={floorPlan.levels}
+              stairs={floorPlan.stairs}
+              projectName={projectName}
+              site={lot ?? undefined}
             />
           </div>
         </Card>
@@ -212,6 +231,21 @@ export default function VisualizePage() {
           </Card>
         </div>
 
+        {/* Energy pre-check */}
+        <Title24Card
+          rooms={rooms}
+          doors={doors}
+          windows={windows}
+          pixelsPerFoot={ppf}
+          canvasWidth={canvasWidth}
+          canvasHeight={canvasHeight}
+          ceilingHeight={floorPlan.ceilingHeight}
+          levels={floorPlan.levels}
+          zipCode={lot?.zipCode}
+          northRotation={(lot?.geoRotation ?? 0) - (lot?.aduRotation ?? 0)}
+          projectName={projectName}
+        />
+
         {/* Navigation */}
         <div className="flex justify-between pt-4">
           <Button
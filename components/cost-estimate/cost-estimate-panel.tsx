@@ -0,0 +1,165 @@
+"use client";
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Calculator, Settings2, Sun, Cpu, Lightbulb, Droplets } from "lucide-react";
+import { ROOM_CONFIGS, LEVEL_CONFIGS } from "@/lib/constants";
+import { formatCurrency, type CostEstimate, type CostSettings, type CostOptionals } from "@/lib/cost";
+import { PriceBookDialog } from "./price-book-dialog";
+
+interface CostEstimatePanelProps {
+  estimate: CostEstimate;
+  settings: CostSettings;
+  onSettingsChange: (settings: CostSettings) => void;
+}
+
+const OPTIONAL_UPGRADES: Array<{ key: keyof CostOptionals; label: string; icon: typeof Sun }> = [
+  { key: "solarPanels", label: "Solar panels", icon: Sun },
+  { key: "smartHome", label: "Smart home", icon: Cpu },
+  { key: "customLighting", label: "Custom lighting", icon: Lightbulb },
+];
+
+export function CostEstimatePanel({ estimate, settings, onSettingsChange }: CostEstimatePanelProps) {
+  const [showPriceBook, setShowPriceBook] = useState(false);
+  const hasLevels = estimate.byRoom.some(room => room.levelId !== "ground");
+  const maxTradeTotal = Math.max(1, ...estimate.byTrade.map(trade => trade.total));
+  const { plumbing } = estimate;
+
+  return (
+    <Card className="p-6 space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <div className="flex items-center gap-2">
+            <Calculator className="h-5 w-5 text-muted-foreground" />
+            <Label className="text-lg font-semibold">Construction Cost Estimate</Label>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            {estimate.region} · {estimate.totalFloorArea} sq ft · includes {settings.priceBook.contingencyPercent}% contingency
+          </p>
+        </div>
+        <div className="text-right">
+          <p className="text-3xl font-bold text-foreground">{formatCurrency(estimate.total)}</p>
+          <p className="text-xs text-muted-foreground">{formatCurrency(estimate.costPerSqFt)} / sq ft</p>
+        </div>
+      </div>
+
+      {/* Optional upgrades */}
+      <div className="flex flex-wrap items-center gap-4 border-y py-3">
+        {OPTIONAL_UPGRADES.map(({ key, label, icon: Icon }) => (
+          <div key={key} className="flex items-center gap-2">
+            <Switch
+              id={`optional-${key}`}
+              checked={settings.optionals[key]}
+              onCheckedChange={(checked) =>
+                onSettingsChange({ ...settings, optionals: { ...settings.optionals, [key]: checked } })
+              }
+            />
+            <Label htmlFor={`optional-${key}`} className="text-xs flex items-center gap-1 cursor-pointer">
+              <Icon className="h-3 w-3" />
+              {label}
+            </Label>
+          </div>
+        ))}
+        <Button
+          variant="outline"
+          size="sm"
+          className="ml-auto text-xs gap-1"
+          onClick={() => setShowPriceBook(true)}
+        >
+          <Settings2 className="h-3.5 w-3.5" />
+          Edit Price Book
+        </Button>
+      </div>
+
+      <Tabs defaultValue="trade" className="w-full">
+        <TabsList className="grid w-full max-w-xs grid-cols-2">
+          <TabsTrigger value="trade" className="text-xs">By Trade</TabsTrigger>
+          <TabsTrigger value="room" className="text-xs">By Room</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="trade" className="mt-4 space-y-2">
+          {estimate.byTrade.map(trade => (
+            <div key={trade.trade} className="grid grid-cols-[160px_1fr_90px] items-center gap-3 text-sm">
+              <span className="truncate">{trade.label}</span>
+              <div className="h-2 rounded-full bg-muted overflow-hidden">
+                <div
+                  className="h-full rounded-full bg-primary/70"
+                  style={{ width: `${(trade.total / maxTradeTotal) * 100}%` }}
+                />
+              </div>
+              <span className="text-right font-mono text-xs">{formatCurrency(trade.total)}</span>
+            </div>
+          ))}
+        </TabsContent>
+
+        <TabsContent value="room" className="mt-4 space-y-1">
+          {estimate.byRoom.map(room => (
+            <div key={room.roomId} className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm hover:bg-muted/50">
+              <span className="flex-1 truncate">
+                {room.roomName}
+                <span className="text-xs text-muted-foreground">
+                  {" "}· {ROOM_CONFIGS[room.roomType]?.label ?? room.roomType} · {room.floorArea} sq ft
+                  {hasLevels && ` · ${LEVEL_CONFIGS[room.levelId].shortLabel}`}
+                </span>
+              </span>
+              <Badge variant="outline" className="text-[10px] capitalize">{room.tier}</Badge>
+              <span className="w-24 text-right font-mono text-xs">{formatCurrency(room.total)}</span>
+            </div>
+          ))}
+          {estimate.buildingTotal > 0 && (
+            <div className="flex items-center gap-2 rounded-md px-2 py-1.5 text-sm">
+              <span className="flex-1 text-muted-foreground">Foundation, roof & whole-house items</span>
+              <span className="w-24 text-right font-mono text-xs">{formatCurrency(estimate.buildingTotal)}</span>
+            </div>
+          )}
+        </TabsContent>
+      </Tabs>
+
+      {plumbing.fixtureCount > 0 && (
+        <div className="flex flex-wrap items-center gap-x-4 gap-y-1 rounded-md bg-muted/50 px-3 py-2 text-xs text-muted-foreground">
+          <span className="flex items-center gap-1 font-medium text-foreground">
+            <Droplets className="h-3.5 w-3.5" />
+            Plumbing
+          </span>
+          <span>{plumbing.fixtureCount} fixtures · {plumbing.totalDfu} DFU · {plumbing.buildingDrainSize} building drain</span>
+          <span>
+            {plumbing.stackCount} stack{plumbing.stackCount === 1 ? "" : "s"}
+            {plumbing.sharedWetWalls > 0 && ` · ${plumbing.sharedWetWalls} shared wet wall${plumbing.sharedWetWalls === 1 ? "" : "s"}`}
+          </span>
+          {plumbing.drainLength !== null ? (
+            <span>
+              {plumbing.drainLength} ft drain · {plumbing.supplyLength} ft supply · {plumbing.lateralLength} ft lateral
+            </span>
+          ) : (
+            <span className="italic">Place the sewer connection on the lot to price pipe runs</span>
+          )}
+        </div>
+      )}
+
+      <div className="flex justify-end gap-6 border-t pt-3 text-sm">
+        <span className="text-muted-foreground">
+          Subtotal <span className="font-mono text-foreground">{formatCurrency(estimate.subtotal)}</span>
+        </span>
+        <span className="text-muted-foreground">
+          Contingency <span className="font-mono text-foreground">{formatCurrency(estimate.contingency)}</span>
+        </span>
+      </div>
+
+      <p className="text-[10px] text-muted-foreground">
+        Planning-level estimate from plan quantities and the price book. Excludes permits, design fees and utility connection fees.
+      </p>
+
+      <PriceBookDialog
+        open={showPriceBook}
+        onOpenChange={setShowPriceBook}
+        priceBook={settings.priceBook}
+        onSave={(priceBook) => onSettingsChange({ ...settings, priceBook })}
+      />
+    </Card>
+  );
+}
@@ -0,0 +1,2 @@
+export { CostEstimatePanel } from "./cost-estimate-panel";
+export { PriceBookDialog } from "./price-book-dialog";
@@ -0,0 +1,184 @@
+"use client";
+
+import { useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { BookOpen, RotateCcw } from "lucide-react";
+import type { TierOption } from "@/lib/api/client";
+import { DEFAULT_PRICE_BOOK, TRADE_LABELS, type PriceBook, type PriceItemId } from "@/lib/cost";
+
+interface PriceBookDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  priceBook: PriceBook;
+  onSave: (priceBook: PriceBook) => void;
+}
+
+const TIERS: TierOption[] = ["budget", "standard", "premium"];
+
+const UNIT_LABELS = { sqft: "/ sq ft", lf: "/ lin ft", ea: "each", lump: "lump sum" } as const;
+
+export function PriceBookDialog({ open, onOpenChange, priceBook, onSave }: PriceBookDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookOpen className="h-5 w-5" />
+            Price Book
+          </DialogTitle>
+          <DialogDescription>
+            Unit prices per quality tier. Set them to your local contractor pricing.
+          </DialogDescription>
+        </DialogHeader>
+        {/* Mounted only while open, so every edit session starts from the saved price book */}
+        <PriceBookForm
+          priceBook={priceBook}
+          onCancel={() => onOpenChange(false)}
+          onSave={(updated) => {
+            onSave(updated);
+            onOpenChange(false);
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface PriceBookFormProps {
+  priceBook: PriceBook;
+  onCancel: () => void;
+  onSave: (priceBook: PriceBook) => void;
+}
+
+function PriceBookForm({ priceBook, onCancel, onSave }: PriceBookFormProps) {
+  const [draft, setDraft] = useState<PriceBook>(priceBook);
+
+  const updatePrice = (itemId: PriceItemId, tier: TierOption, value: number) => {
+    setDraft(prev => ({
+      ...prev,
+      items: {
+        ...prev.items,
+        [itemId]: { ...prev.items[itemId], prices: { ...prev.items[itemId].prices, [tier]: value } },
+      },
+    }));
+  };
+
+  const numberValue = (value: string) => {
+    const parsed = parseFloat(value);
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : 0;
+  };
+
+  const itemIds = Object.keys(draft.items) as PriceItemId[];
+
+  return (
+    <>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        <div className="col-span-2 space-y-1">
+          <Label className="text-xs">Region</Label>
+          <Input
+            value={draft.region}
+            onChange={(e) => setDraft(prev => ({ ...prev, region: e.target.value }))}
+            className="h-8 text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Location factor</Label>
+          <Input
+            type="number"
+            min={0.5}
+            max={2}
+            step={0.05}
+            value={draft.locationFactor}
+            onChange={(e) => setDraft(prev => ({ ...prev, locationFactor: numberValue(e.target.value) }))}
+            className="h-8 text-sm"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Contingency %</Label>
+          <Input
+            type="number"
+            min={0}
+            max={50}
+            step={1}
+            value={draft.contingencyPercent}
+            onChange={(e) => setDraft(prev => ({ ...prev, contingencyPercent: numberValue(e.target.value) }))}
+            className="h-8 text-sm"
+          />
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1 min-h-0 -mx-6 px-6">
+        <table className="w-full text-sm">
+          <thead>
+            <tr className="text-xs text-muted-foreground">
+              <th className="text-left font-medium py-2">Item</th>
+              <th className="text-left font-medium py-2">Unit</th>
+              {TIERS.map(tier => (
+                <th key={tier} className="text-right font-medium py-2 capitalize">{tier}</th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {itemIds.map(itemId => {
+              const item = draft.items[itemId];
+              return (
+                <tr key={itemId} className="border-t">
+                  <td className="py-1.5 pr-2">
+                    <p>{item.label}</p>
+                    <p className="text-[10px] text-muted-foreground">{TRADE_LABELS[item.trade]}</p>
+                  </td>
+                  <td className="py-1.5 pr-2 text-xs text-muted-foreground whitespace-nowrap">
+                    {UNIT_LABELS[item.unit]}
+                  </td>
+                  {TIERS.map(tier => (
+                    <td key={tier} className="py-1.5 pl-2">
+                      <Input
+                        type="number"
+                        min={0}
+                        step={item.unit === "sqft" ? 0.5 : 50}
+                        value={item.prices[tier]}
+                        onChange={(e) => updatePrice(itemId, tier, numberValue(e.target.value))}
+                        className="h-7 w-24 ml-auto text-right text-xs"
+                      />
+                    </td>
+                  ))}
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      </ScrollArea>
+
+      <DialogFooter className="gap-2 sm:justify-between">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="gap-1"
+          onClick={() => setDraft(structuredClone(DEFAULT_PRICE_BOOK))}
+        >
+          <RotateCcw className="h-3.5 w-3.5" />
+          Reset to Defaults
+        </Button>
+        <div className="flex gap-2">
+          <Button variant="outline" size="sm" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button size="sm" onClick={() => onSave(draft)}>
+            Save Price Book
+          </Button>
+        </div>
+      </DialogFooter>
+    </>
+  );
+}
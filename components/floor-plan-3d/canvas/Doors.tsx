@@ -10,6 +10,8 @@ import * as THREE from "three"
 import type { Door3D } from "../types"
 import { createDoorMaterial, createDoorFrameMaterial } from "../materials"
 import { DIMENSIONS, DOOR_TYPES } from "../constants"
+import { exportTag } from "../export"
+import { DOOR_TYPE_LABELS } from "@/components/floor-plan-editor/export/constants"
 
 interface DoorsProps {
   doors: Door3D[]
@@ -55,7 +57,12 @@ function DoorMesh({ door }: { door: Door3D }) {
   }
 
   return (
-    <group position={position} rotation={rotation} name={`door-${door.id}`}>
+    <group
+      position={position}
+      rotation={rotation}
+      name={`door-${door.id}`}
+      userData={exportTag("door", door.id, DOOR_TYPE_LABELS[door.type] || door.type)}
+    >
       {/* Door Frame - Top */}
       <mesh
         position={[0, door.height + frameWidth / 2, 0]}
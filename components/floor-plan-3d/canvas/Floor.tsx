@@ -10,6 +10,7 @@ import * as THREE from "three"
 import type { Room3D } from "../types"
 import { createRoomMaterials } from "../materials"
 import { DIMENSIONS } from "../constants"
+import { exportTag } from "../export"
 
 interface FloorProps {
   rooms: Room3D[]
@@ -59,6 +60,7 @@ function RoomFloor({ room }: { room: Room3D }) {
       material={material}
       receiveShadow
       name={`floor-${room.id}`}
+      userData={exportTag("room", room.id, room.name)}
     >
       <planeGeometry args={[width, depth]} />
     </mesh>
@@ -107,6 +109,7 @@ export function PolygonFloor({ room }: { room: Room3D }) {
       position={[0, DIMENSIONS.FLOOR_THICKNESS / 2, 0]}
       receiveShadow
       name={`floor-${room.id}`}
+      userData={exportTag("room", room.id, room.name)}
     />
   )
 }
@@ -9,6 +9,8 @@ import { useMemo } from "react"
 import * as THREE from "three"
 import type { Furniture3D } from "../types"
 import { createFurnitureMaterial } from "../materials"
+import { exportTag } from "../export"
+import { FURNITURE_TYPE_LABELS } from "@/components/floor-plan-editor/export/constants"
 
 interface FurnitureProps {
   furniture: Furniture3D[]
@@ -38,7 +40,12 @@ function FurnitureItem({ item }: { item: Furniture3D }) {
 
   // Use different shapes for different furniture types
   return (
-    <group position={position} rotation={rotation} name={`furniture-${item.id}`}>
+    <group
+      position={position}
+      rotation={rotation}
+      name={`furniture-${item.id}`}
+      userData={exportTag("furniture", item.id, FURNITURE_TYPE_LABELS[item.type] || item.type)}
+    >
       <FurnitureGeometry item={item} material={material} />
     </group>
   )
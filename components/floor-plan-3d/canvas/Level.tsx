@@ -0,0 +1,51 @@
+"use client"
+
+/**
+ * Level rendering component
+ * Renders one additional building level (second story, garage below)
+ * raised to its elevation in the stacked model
+ */
+
+import type { StackedLevel, CoordinateConfig, RoomFinish, Furniture as FurnitureItem } from "../types"
+import { useFloorPlanGeometry } from "../hooks"
+import { Floor } from "./Floor"
+import { Walls } from "./Walls"
+import { Doors } from "./Doors"
+import { Windows } from "./Windows"
+import { Furniture } from "./Furniture"
+import { exportTag } from "../export"
+
+interface LevelProps {
+  stacked: StackedLevel & { level: NonNullable<StackedLevel["level"]> }
+  config: CoordinateConfig
+  roomFinishes?: RoomFinish[]
+  visible?: boolean
+}
+
+export function Level({ stacked, config, roomFinishes, visible = true }: LevelProps) {
+  const { level } = stacked
+  // EditorFurniture from the saved plan is compatible with the editor Furniture type
+  const { rooms3D, wallEdges, doors3D, windows3D, furniture3D } = useFloorPlanGeometry(
+    level.rooms,
+    level.doors,
+    level.windows,
+    (level.furniture ?? []) as FurnitureItem[],
+    config,
+    roomFinishes
+  )
+
+  return (
+    <group
+      name={`level-${level.id}`}
+      position={[0, stacked.elevation, 0]}
+      visible={visible}
+      userData={exportTag("level", level.id, stacked.name)}
+    >
+      <Floor rooms={rooms3D} />
+      <Walls wallEdges={wallEdges} rooms={rooms3D} height={stacked.ceilingHeight} />
+      <Doors doors={doors3D} />
+      <Windows windows={windows3D} />
+      <Furniture furniture={furniture3D} />
+    </group>
+  )
+}
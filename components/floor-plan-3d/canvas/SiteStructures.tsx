@@ -0,0 +1,86 @@
+"use client"
+
+/**
+ * Existing lot structures for the sun study - simple massing that casts and receives shadows
+ * Buildings are extruded footprints, trees a trunk and canopy, pools a flat surface.
+ */
+
+import { useMemo } from "react"
+import * as THREE from "three"
+import type { Structure3D } from "../types"
+import { SITE_STRUCTURES } from "../constants"
+
+interface SiteStructuresProps {
+  structures: Structure3D[]
+}
+
+export function SiteStructures({ structures }: SiteStructuresProps) {
+  return (
+    <group name="site-structures">
+      {structures.map((structure) => {
+        if (structure.type === "tree") return <Tree key={structure.id} structure={structure} />
+        if (structure.height <= 0) return <FlatFeature key={structure.id} structure={structure} />
+        return <Building key={structure.id} structure={structure} />
+      })}
+    </group>
+  )
+}
+
+// Footprint as a shape in the XY plane; rotating -90° about X lays it on the ground (shape y = -z)
+function footprintShape(footprint: Structure3D["footprint"]): THREE.Shape {
+  return new THREE.Shape(footprint.map((p) => new THREE.Vector2(p.x, -p.z)))
+}
+
+function Building({ structure }: { structure: Structure3D }) {
+  const geometry = useMemo(
+    () => new THREE.ExtrudeGeometry(footprintShape(structure.footprint), { depth: structure.height, bevelEnabled: false }),
+    [structure.footprint, structure.height]
+  )
+
+  return (
+    <mesh name={structure.name} geometry={geometry} rotation={[-Math.PI / 2, 0, 0]} castShadow receiveShadow>
+      <meshStandardMaterial color={SITE_STRUCTURES.BUILDING_COLOR} roughness={0.9} />
+    </mesh>
+  )
+}
+
+function FlatFeature({ structure }: { structure: Structure3D }) {
+  const geometry = useMemo(() => new THREE.ShapeGeometry(footprintShape(structure.footprint)), [structure.footprint])
+
+  return (
+    <mesh name={structure.name} geometry={geometry} rotation={[-Math.PI / 2, 0, 0]} position={[0, 0.02, 0]} receiveShadow>
+      <meshStandardMaterial color={SITE_STRUCTURES.POOL_COLOR} roughness={0.2} />
+    </mesh>
+  )
+}
+
+function Tree({ structure }: { structure: Structure3D }) {
+  const { center, radius } = useMemo(() => {
+    const { footprint } = structure
+    const cx = footprint.reduce((sum, p) => sum + p.x, 0) / footprint.length
+    const cz = footprint.reduce((sum, p) => sum + p.z, 0) / footprint.length
+    const r = footprint.reduce((sum, p) => sum + Math.hypot(p.x - cx, p.z - cz), 0) / footprint.length
+    return { center: { x: cx, z: cz }, radius: r }
+  }, [structure])
+
+  const trunkHeight = SITE_STRUCTURES.TREE_TRUNK_HEIGHT
+  const canopyHalfHeight = (structure.height - trunkHeight) / 2
+
+  return (
+    <group name={structure.name} position={[center.x, 0, center.z]}>
+      <mesh position={[0, trunkHeight / 2, 0]} castShadow>
+        <cylinderGeometry args={[SITE_STRUCTURES.TREE_TRUNK_RADIUS, SITE_STRUCTURES.TREE_TRUNK_RADIUS, trunkHeight, 8]} />
+        <meshStandardMaterial color={SITE_STRUCTURES.TRUNK_COLOR} roughness={1} />
+      </mesh>
+      <mesh
+        position={[0, trunkHeight + canopyHalfHeight, 0]}
+        scale={[radius, canopyHalfHeight, radius]}
+        castShadow
+        receiveShadow
+      >
+        <sphereGeometry args={[1, 16, 12]} />
+        <meshStandardMaterial color={SITE_STRUCTURES.TREE_COLOR} roughness={1} />
+      </mesh>
+    </group>
+  )
+}
@@ -0,0 +1,87 @@
+"use client"
+
+/**
+ * Stair rendering component
+ * Renders each stair as a solid flight of steps rising from the
+ * floor of its lower level to the floor of its upper level
+ */
+
+import type { Stair, StackedLevel } from "../types"
+import type { CoordinateConverter } from "../hooks"
+import { STAIR_CONFIG } from "@/lib/constants"
+import { exportTag } from "../export"
+
+interface StairsProps {
+  stairs: Stair[]
+  levels: StackedLevel[]
+  converter: CoordinateConverter
+  visibleLevelIds?: Set<string> // stairs are hidden once their lower level is cut away
+}
+
+export function Stairs({ stairs, levels, converter, visibleLevelIds }: StairsProps) {
+  return (
+    <group name="stairs">
+      {stairs.map((stair) => {
+        const lower = levels.find((l) => l.id === stair.fromLevel)
+        const upper = levels.find((l) => l.id === stair.toLevel)
+        if (!lower || !upper || upper.elevation <= lower.elevation) return null
+
+        return (
+          <StairFlight
+            key={stair.id}
+            stair={stair}
+            label={`${lower.name} to ${upper.name}`}
+            visible={!visibleLevelIds || visibleLevelIds.has(lower.id)}
+            baseElevation={lower.elevation}
+            rise={upper.elevation - lower.elevation}
+            converter={converter}
+          />
+        )
+      })}
+    </group>
+  )
+}
+
+interface StairFlightProps {
+  stair: Stair
+  label: string
+  visible: boolean
+  baseElevation: number
+  rise: number
+  converter: CoordinateConverter
+}
+
+function StairFlight({ stair, label, visible, baseElevation, rise, converter }: StairFlightProps) {
+  const center = converter.canvasToThree(stair.position, baseElevation)
+  const stepCount = Math.ceil(rise / STAIR_CONFIG.MAX_RISER)
+  const riser = rise / stepCount
+  const tread = stair.length / stepCount
+
+  // Local +X is the direction of travel going up (canvas rotation, with canvas Y flipped to -Z)
+  const rotationY = (stair.rotation * Math.PI) / 180
+
+  return (
+    <group
+      name={`stair-${stair.id}`}
+      position={[center.x, center.y, center.z]}
+      rotation={[0, rotationY, 0]}
+      visible={visible}
+      userData={exportTag("stair", stair.id, label)}
+    >
+      {Array.from({ length: stepCount }, (_, i) => {
+        const height = riser * (i + 1)
+        return (
+          <mesh
+            key={i}
+            position={[-stair.length / 2 + tread * (i + 0.5), height / 2, 0]}
+            castShadow
+            receiveShadow
+          >
+            <boxGeometry args={[tread, height, stair.width]} />
+            <meshStandardMaterial name="stair-wood" color="#B08968" roughness={0.7} />
+          </mesh>
+        )
+      })}
+    </group>
+  )
+}
@@ -10,13 +10,15 @@ import * as THREE from "three"
 import type { WallEdge, Room3D } from "../types"
 import { createRoomMaterials } from "../materials"
 import { DIMENSIONS, DEFAULT_VIBE } from "../constants"
+import { exportTag } from "../export"
 
 interface WallsProps {
   wallEdges: WallEdge[]
   rooms: Room3D[]
+  height?: number // floor-to-ceiling height of this level in feet
 }
 
-export function Walls({ wallEdges, rooms }: WallsProps) {
+export function Walls({ wallEdges, rooms, height = DIMENSIONS.CEILING_HEIGHT }: WallsProps) {
   // Debug log
   console.log("Walls component rendering", wallEdges.length, "edges")
   if (wallEdges.length > 0) {
@@ -39,6 +41,7 @@ export function Walls({ wallEdges, rooms }: WallsProps) {
         <SimpleWall
           key={edge.id}
           edge={edge}
+          height={height}
           material={
             roomMaterialsMap.get(edge.roomIds[0]) ||
             createRoomMaterials(DEFAULT_VIBE, "standard").wall
@@ -49,15 +52,20 @@ export function Walls({ wallEdges, rooms }: WallsProps) {
   )
 }
 
+function wallLabel(edge: WallEdge): string {
+  return edge.isExterior ? "Exterior" : "Interior"
+}
+
 interface SimpleWallProps {
   edge: WallEdge
   material: THREE.MeshStandardMaterial
+  height: number
 }
 
 /**
  * Simple wall - just a box positioned along the edge
  */
-function SimpleWall({ edge, material }: SimpleWallProps) {
+function SimpleWall({ edge, material, height }: SimpleWallProps) {
   // Calculate wall center and rotation
   const midX = (edge.start.x + edge.end.x) / 2
   const midZ = (edge.start.z + edge.end.z) / 2
@@ -80,13 +88,15 @@ function SimpleWall({ edge, material }: SimpleWallProps) {
 
   return (
     <mesh
-      position={[midX, DIMENSIONS.CEILING_HEIGHT / 2, midZ]}
+      position={[midX, height / 2, midZ]}
       rotation={[0, -angle, 0]}
       material={material}
       castShadow
       receiveShadow
+      name={`wall-${edge.id}`}
+      userData={exportTag("wall", edge.id, wallLabel(edge))}
     >
-      <boxGeometry args={[length, DIMENSIONS.CEILING_HEIGHT, DIMENSIONS.WALL_THICKNESS]} />
+      <boxGeometry args={[length, height, edge.thickness]} />
     </mesh>
   )
 }
@@ -94,7 +104,7 @@ function SimpleWall({ edge, material }: SimpleWallProps) {
 /**
  * Wall with openings (use after basic rendering works)
  */
-export function WallWithOpenings({ edge, material }: SimpleWallProps) {
+export function WallWithOpenings({ edge, material, height: wallHeight }: SimpleWallProps) {
   // Sort openings by position along the wall
   const sortedOpenings = useMemo(() => {
     return [...edge.openings].sort((a, b) => a.position - b.position)
@@ -114,7 +124,7 @@ export function WallWithOpenings({ edge, material }: SimpleWallProps) {
         startPos: 0,
         length: edge.length,
         bottomHeight: 0,
-        topHeight: DIMENSIONS.CEILING_HEIGHT,
+        topHeight: wallHeight,
       })
       return segments
     }
@@ -131,18 +141,18 @@ export function WallWithOpenings({ edge, material }: SimpleWallProps) {
           startPos: currentPos,
           length: openingStart - currentPos,
           bottomHeight: 0,
-          topHeight: DIMENSIONS.CEILING_HEIGHT,
+          topHeight: wallHeight,
         })
       }
 
       // Wall section above the opening
       const openingTop = opening.bottomOffset + opening.height
-      if (openingTop < DIMENSIONS.CEILING_HEIGHT - 0.1) {
+      if (openingTop < wallHeight - 0.1) {
         segments.push({
           startPos: openingStart,
           length: opening.width,
           bottomHeight: openingTop,
-          topHeight: DIMENSIONS.CEILING_HEIGHT,
+          topHeight: wallHeight,
         })
       }
 
@@ -165,12 +175,12 @@ export function WallWithOpenings({ edge, material }: SimpleWallProps) {
         startPos: currentPos,
         length: edge.length - currentPos,
         bottomHeight: 0,
-        topHeight: DIMENSIONS.CEILING_HEIGHT,
+        topHeight: wallHeight,
       })
     }
 
     return segments
-  }, [edge, sortedOpenings])
+  }, [edge, sortedOpenings, wallHeight])
 
   // Direction vector
   const dx = edge.end.x - edge.start.x
@@ -184,7 +194,7 @@ export function WallWithOpenings({ edge, material }: SimpleWallProps) {
   const angle = Math.atan2(dz, dx)
 
   return (
-    <group name={`wall-${edge.id}`}>
+    <group name={`wall-${edge.id}`} userData={exportTag("wall", edge.id, wallLabel(edge))}>
       {wallSegments.map((segment, index) => {
         const height = segment.topHeight - segment.bottomHeight
         if (segment.length < 0.1 || height < 0.1) return null
@@ -203,7 +213,7 @@ export function WallWithOpenings({ edge, material }: SimpleWallProps) {
             castShadow
             receiveShadow
           >
-            <boxGeometry args={[segment.length, height, DIMENSIONS.WALL_THICKNESS]} />
+            <boxGeometry args={[segment.length, height, edge.thickness]} />
           </mesh>
         )
       })}
@@ -10,6 +10,8 @@ import * as THREE from "three"
 import type { Window3D } from "../types"
 import { createWindowFrameMaterial, createWindowGlassMaterial } from "../materials"
 import { DIMENSIONS } from "../constants"
+import { exportTag } from "../export"
+import { WINDOW_TYPE_LABELS } from "@/components/floor-plan-editor/export/constants"
 
 interface WindowsProps {
   windows: Window3D[]
@@ -50,7 +52,12 @@ function WindowMesh({ window }: { window: Window3D }) {
   )
 
   return (
-    <group position={position} rotation={rotation} name={`window-${window.id}`}>
+    <group
+      position={position}
+      rotation={rotation}
+      name={`window-${window.id}`}
+      userData={exportTag("window", window.id, WINDOW_TYPE_LABELS[window.type] || window.type)}
+    >
       {/* Window Frame - Top */}
       <mesh
         position={[0, window.height / 2 + frameWidth / 2, 0]}
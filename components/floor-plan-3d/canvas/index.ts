@@ -3,3 +3,6 @@ export { Walls } from "./Walls"
 export { Doors } from "./Doors"
 export { Windows } from "./Windows"
 export { Furniture } from "./Furniture"
+export { Level } from "./Level"
+export { Stairs } from "./Stairs"
+export { SiteStructures } from "./SiteStructures"
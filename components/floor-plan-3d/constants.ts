@@ -29,6 +29,19 @@ export const CAMERA = {
   DEFAULT_FOV: 60,
 } as const
 
+// Existing structures on the lot (sun study), in feet
+export const SITE_STRUCTURES = {
+  STORY_HEIGHT: 10,
+  SHED_HEIGHT: 8,
+  TREE_HEIGHT: 20,
+  TREE_TRUNK_HEIGHT: 7,
+  TREE_TRUNK_RADIUS: 0.5,
+  BUILDING_COLOR: "#D6D3D1",
+  POOL_COLOR: "#7DD3FC",
+  TREE_COLOR: "#4D7C0F",
+  TRUNK_COLOR: "#78350F",
+} as const
+
 // Vibe color palettes for materials
 export const VIBE_PALETTES: Record<VibeOption, VibePalette> = {
   modern_minimal: {
@@ -127,6 +140,7 @@ export const FURNITURE_3D: Record<
   stove: { height: 3.0, color: "#333333" },
   refrigerator: { height: 6.0, color: "#C0C0C0" },
   dishwasher: { height: 3.0, color: "#C0C0C0" },
+  washer: { height: 3.2, color: "#F0F0F0" },
   desk: { height: 2.5, color: "#A0522D" },
   chair: { height: 3.0, color: "#666666" },
 }
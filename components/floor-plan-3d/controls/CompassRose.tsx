@@ -0,0 +1,113 @@
+"use client"
+
+/**
+ * Compass rose for the 3D viewer, matching the editor's Compass overlay
+ *
+ * CompassTracker runs inside the canvas and reports where north and east point on screen
+ * for the current camera; CompassRose draws the rose from those angles.
+ */
+
+import { useRef } from "react"
+import { useFrame } from "@react-three/fiber"
+import * as THREE from "three"
+import { getCompassVectors } from "../lighting/sun-direction"
+
+// Screen angles in degrees, clockwise from screen up
+export interface CompassAngles {
+  north: number
+  east: number
+}
+
+interface CompassTrackerProps {
+  northRotation: number
+  onChange: (angles: CompassAngles) => void
+}
+
+// Only report changes above this (degrees) to avoid re-rendering every frame
+const ANGLE_THRESHOLD = 0.5
+
+const up = new THREE.Vector3()
+const forward = new THREE.Vector3()
+const right = new THREE.Vector3()
+
+export function CompassTracker({ northRotation, onChange }: CompassTrackerProps) {
+  const lastRef = useRef<CompassAngles | null>(null)
+
+  useFrame(({ camera }) => {
+    // Ground direction at the top of the screen: the camera's up vector when looking straight
+    // down, its forward vector when looking at the horizon, and both agree in between
+    up.set(0, 1, 0).applyQuaternion(camera.quaternion)
+    forward.set(0, 0, -1).applyQuaternion(camera.quaternion)
+    right.set(1, 0, 0).applyQuaternion(camera.quaternion)
+    const screenUp = new THREE.Vector2(up.x + forward.x, up.z + forward.z).normalize()
+    const screenRight = new THREE.Vector2(right.x, right.z).normalize()
+
+    const { north, east } = getCompassVectors(northRotation)
+    const angleOf = (v: { x: number; z: number }) =>
+      (Math.atan2(v.x * screenRight.x + v.z * screenRight.y, v.x * screenUp.x + v.z * screenUp.y) * 180) / Math.PI
+    const angles = { north: angleOf(north), east: angleOf(east) }
+
+    const last = lastRef.current
+    if (
+      !last ||
+      Math.abs(last.north - angles.north) > ANGLE_THRESHOLD ||
+      Math.abs(last.east - angles.east) > ANGLE_THRESHOLD
+    ) {
+      lastRef.current = angles
+      onChange(angles)
+    }
+  })
+
+  return null
+}
+
+// Point on the rose at a screen angle (40x40 viewBox, centered)
+function polar(angle: number, radius: number) {
+  const rad = (angle * Math.PI) / 180
+  return { x: 20 + Math.sin(rad) * radius, y: 20 - Math.cos(rad) * radius }
+}
+
+export function CompassRose({ angles }: { angles: CompassAngles }) {
+  const labels = [
+    { text: "N", angle: angles.north },
+    { text: "S", angle: angles.north + 180 },
+    { text: "E", angle: angles.east },
+    { text: "W", angle: angles.east + 180 },
+  ]
+
+  return (
+    <div className="bg-white/90 backdrop-blur-sm p-2 rounded-lg shadow-md border border-gray-200">
+      <svg width="40" height="40" viewBox="0 0 40 40" className="text-gray-600">
+        {/* Compass circle */}
+        <circle cx="20" cy="20" r="18" fill="none" stroke="currentColor" strokeWidth="1.5" />
+
+        <g transform={`rotate(${angles.north} 20 20)`}>
+          {/* North arrow (red) */}
+          <polygon points="20,4 16,20 20,16 24,20" fill="#dc2626" />
+
+          {/* South arrow (gray) */}
+          <polygon points="20,36 16,20 20,24 24,20" fill="currentColor" opacity="0.5" />
+        </g>
+
+        {/* Cardinal direction labels (placed individually so they stay upright) */}
+        {labels.map(({ text, angle }) => {
+          const { x, y } = polar(angle, text === "N" ? 11 : 14)
+          return (
+            <text
+              key={text}
+              x={x}
+              y={y + 2.5}
+              textAnchor="middle"
+              fontSize={text === "N" ? 8 : 6}
+              fontWeight={text === "N" ? "bold" : undefined}
+              fill={text === "N" ? "#dc2626" : "currentColor"}
+              opacity={text === "N" ? 1 : 0.5}
+            >
+              {text}
+            </text>
+          )
+        })}
+      </svg>
+    </div>
+  )
+}
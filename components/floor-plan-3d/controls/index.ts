@@ -1,2 +1,3 @@
 export { TopDownCamera } from "./TopDownCamera"
 export { FirstPersonCamera, FirstPersonInstructions } from "./FirstPersonCamera"
+export { CompassTracker, CompassRose, type CompassAngles } from "./CompassRose"
@@ -0,0 +1,215 @@
+"use client"
+
+/**
+ * Title 24 pre-check - envelope takeoff per facing and the climate zone's prescriptive glazing limits.
+ * Covers every level, each with its own ceiling height.
+ */
+
+import { useMemo, useState } from "react"
+import { Card } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { CheckCircle2, XCircle, ClipboardCheck, Download, Zap } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { ORIENTATIONS } from "@/lib/daylight"
+import {
+  CLIMATE_ZONES,
+  buildTitle24SummaryCsv,
+  climateZoneForZip,
+  measureEnvelope,
+  precheckTitle24,
+  type ClimateZone,
+  type PrecheckStatus,
+} from "@/lib/energy"
+import type { Room, Door, Window, FloorLevel } from "../types"
+import { buildRooms3D, buildWallEdges, useCoordinateConversion, useLevelStack } from "../hooks"
+import { DIMENSIONS } from "../constants"
+
+interface Title24CardProps {
+  rooms: Room[]
+  doors: Door[]
+  windows: Window[]
+  pixelsPerFoot: number
+  canvasWidth: number
+  canvasHeight: number
+  ceilingHeight?: number // ground level
+  levels?: FloorLevel[] // other levels (second story, garage below)
+  zipCode?: string
+  northRotation?: number // degrees clockwise from plan-up to true north
+  projectName?: string
+}
+
+const STATUS_STYLES: Record<PrecheckStatus, { icon: typeof CheckCircle2; className: string }> = {
+  pass: { icon: CheckCircle2, className: "text-green-600" },
+  fail: { icon: XCircle, className: "text-red-600" },
+  verify: { icon: ClipboardCheck, className: "text-muted-foreground" },
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 1000) / 10}%`
+
+export function Title24Card({
+  rooms,
+  doors,
+  windows,
+  pixelsPerFoot,
+  canvasWidth,
+  canvasHeight,
+  ceilingHeight = DIMENSIONS.CEILING_HEIGHT,
+  levels,
+  zipCode,
+  northRotation = 0,
+  projectName = "",
+}: Title24CardProps) {
+  // null = use the zone estimated from the ZIP code
+  const [zoneOverride, setZoneOverride] = useState<ClimateZone | null>(null)
+
+  const converter = useCoordinateConversion({ pixelsPerFoot, canvasWidth, canvasHeight })
+  const levelStack = useLevelStack(ceilingHeight, levels)
+
+  // Bottom to top; the ground level's plan comes from the top-level props
+  const storeys = useMemo(
+    () =>
+      levelStack.map((stacked) => {
+        const plan = stacked.level ?? { rooms, doors, windows }
+        return {
+          geometry: {
+            rooms3D: buildRooms3D(plan.rooms, converter),
+            wallEdges: buildWallEdges(plan.rooms, plan.doors, plan.windows, converter),
+          },
+          ceilingHeight: stacked.ceilingHeight,
+        }
+      }),
+    [levelStack, rooms, doors, windows, converter]
+  )
+
+  const precheck = useMemo(
+    () =>
+      precheckTitle24({
+        envelope: measureEnvelope(storeys, northRotation),
+        zipCode,
+        climateZone: zoneOverride,
+      }),
+    [storeys, northRotation, zipCode, zoneOverride]
+  )
+  const { envelope } = precheck
+  const estimatedZone = climateZoneForZip(zipCode)
+
+  const handleDownload = () => {
+    const blob = new Blob([buildTitle24SummaryCsv(precheck, projectName)], { type: "text/csv" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.download = `${(projectName || "ADU").replace(/[^a-zA-Z0-9]+/g, "_")}_Title24_Precheck.csv`
+    link.href = url
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  return (
+    <Card className="p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <h3 className="font-semibold flex items-center gap-2">
+            <Zap className="h-4 w-4 text-amber-500" />
+            Title 24 Pre-check
+          </h3>
+          <p className="text-xs text-muted-foreground">
+            Prescriptive envelope screen - confirm with an energy consultant before permitting
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <Select
+            value={zoneOverride ? `${zoneOverride}` : "auto"}
+            onValueChange={(value) => setZoneOverride(value === "auto" ? null : (Number(value) as ClimateZone))}
+          >
+            <SelectTrigger className="h-8 w-[190px] text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="auto" className="text-xs">
+                {estimatedZone ? `Zone ${estimatedZone} (from ZIP ${zipCode})` : "Zone from ZIP (unknown)"}
+              </SelectItem>
+              {CLIMATE_ZONES.map((zone) => (
+                <SelectItem key={zone} value={`${zone}`} className="text-xs">
+                  Climate Zone {zone}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" size="sm" onClick={handleDownload} className="gap-2">
+            <Download className="h-4 w-4" />
+            Summary
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-2 text-sm">
+        <div>
+          <p className="text-xs text-muted-foreground">Conditioned floor</p>
+          <p className="font-medium">{envelope.conditionedFloorArea} sq ft</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Exterior wall</p>
+          <p className="font-medium">{envelope.totals.grossWallArea} sq ft</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Windows</p>
+          <p className="font-medium">{envelope.totals.windowArea} sq ft</p>
+        </div>
+        <div>
+          <p className="text-xs text-muted-foreground">Window-to-wall</p>
+          <p className="font-medium">{percent(envelope.totals.windowToWallRatio)}</p>
+        </div>
+      </div>
+
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-muted-foreground text-left">
+            <th className="font-medium py-1">Facing</th>
+            <th className="font-medium py-1 text-right">Wall (sq ft)</th>
+            <th className="font-medium py-1 text-right">Windows (sq ft)</th>
+            <th className="font-medium py-1 text-right">Window-to-wall</th>
+            <th className="font-medium py-1 text-right">% of floor</th>
+          </tr>
+        </thead>
+        <tbody>
+          {ORIENTATIONS.map((orientation) => {
+            const facade = envelope.facades[orientation]
+            const westCap = orientation === "W" ? precheck.limits?.maxWestFenestrationToFloor : null
+            const overCap = westCap != null && facade.windowToFloorRatio > westCap
+            return (
+              <tr key={orientation} className="border-t">
+                <td className="py-1 font-medium">{orientation}</td>
+                <td className="py-1 text-right">{facade.grossWallArea}</td>
+                <td className="py-1 text-right">{facade.windowArea}</td>
+                <td className="py-1 text-right">{percent(facade.windowToWallRatio)}</td>
+                <td className={cn("py-1 text-right", overCap && "text-red-600 font-medium")}>
+                  {percent(facade.windowToFloorRatio)}
+                </td>
+              </tr>
+            )
+          })}
+        </tbody>
+      </table>
+
+      {precheck.climateZone === null ? (
+        <p className="text-xs text-muted-foreground">
+          Add a California ZIP code to the lot, or pick a climate zone, to compare against prescriptive limits.
+        </p>
+      ) : (
+        <ul className="space-y-1.5">
+          {precheck.items.map((item) => {
+            const { icon: Icon, className } = STATUS_STYLES[item.status]
+            return (
+              <li key={item.id} className="flex items-start gap-2 text-xs">
+                <Icon className={cn("h-3.5 w-3.5 flex-shrink-0 mt-0.5", className)} />
+                <span>
+                  <span className="font-medium">{item.label}:</span> {item.message}
+                </span>
+              </li>
+            )
+          })}
+        </ul>
+      )}
+    </Card>
+  )
+}
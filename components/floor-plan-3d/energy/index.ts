@@ -0,0 +1 @@
+export { Title24Card } from "./Title24Card"
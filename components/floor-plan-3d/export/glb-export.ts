@@ -0,0 +1,96 @@
+/**
+ * GLB export of the 3D model
+ *
+ * Exports the rendered model group (levels, rooms, walls, doors, windows,
+ * furniture and stairs) as a binary glTF for Blender, SketchUp and other
+ * DCC tools. Lights, cameras and the ground plane live outside the model
+ * group and are not exported.
+ */
+
+import * as THREE from "three"
+import { GLTFExporter } from "three/examples/jsm/exporters/GLTFExporter.js"
+
+// The scene is modelled in feet; glTF is defined in meters
+const FEET_TO_METERS = 0.3048
+
+// Entity kinds tagged on scene nodes via userData.entity
+export type ExportEntity = "level" | "room" | "wall" | "door" | "window" | "furniture" | "stair"
+
+export interface ExportUserData {
+  entity: ExportEntity
+  id: string
+  label: string
+}
+
+const ENTITY_PREFIXES: Record<ExportEntity, string> = {
+  level: "Level",
+  room: "Room",
+  wall: "Wall",
+  door: "Door",
+  window: "Window",
+  furniture: "Furniture",
+  stair: "Stair",
+}
+
+/**
+ * Build the userData that names a node in the exported file
+ */
+export function exportTag(entity: ExportEntity, id: string, label: string): ExportUserData {
+  return { entity, id, label }
+}
+
+function isTagged(userData: Record<string, unknown>): userData is Record<string, unknown> & ExportUserData {
+  return typeof userData.entity === "string" && userData.entity in ENTITY_PREFIXES
+}
+
+/**
+ * Give every tagged node a readable, unique name ("Room - Kitchen",
+ * "Wall - Exterior 2"). The entity id stays in userData, which the
+ * exporter writes to the node's glTF extras.
+ */
+function nameNodes(root: THREE.Object3D): void {
+  const used = new Map<string, number>()
+
+  root.traverse((node) => {
+    if (!isTagged(node.userData)) return
+
+    const base = `${ENTITY_PREFIXES[node.userData.entity]} - ${node.userData.label}`
+    const count = (used.get(base) ?? 0) + 1
+    used.set(base, count)
+    node.name = count > 1 ? `${base} ${count}` : base
+  })
+}
+
+/**
+ * Export the model to a binary GLB
+ */
+export async function exportModelToGLB(model: THREE.Object3D): Promise<ArrayBuffer> {
+  // Clone so renaming and scaling never touch the live scene (geometry and materials are shared)
+  const root = model.clone(true)
+  root.name = model.name || "ADU"
+  root.position.set(0, 0, 0)
+  root.scale.setScalar(FEET_TO_METERS)
+  nameNodes(root)
+
+  // Levels hidden by the cutaway are still part of the building
+  const exporter = new GLTFExporter()
+  const result = await exporter.parseAsync(root, { binary: true, onlyVisible: false })
+  if (!(result instanceof ArrayBuffer)) {
+    throw new Error("GLTFExporter did not return binary output")
+  }
+  return result
+}
+
+/**
+ * Export the model and download it as a .glb file
+ */
+export async function downloadModelGLB(model: THREE.Object3D, filename: string): Promise<void> {
+  const buffer = await exportModelToGLB(model)
+  const blob = new Blob([buffer], { type: "model/gltf-binary" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.download = filename.endsWith(".glb") ? filename : `${filename}.glb`
+  link.href = url
+  link.click()
+  URL.revokeObjectURL(url)
+}
@@ -0,0 +1,7 @@
+export {
+  exportModelToGLB,
+  downloadModelGLB,
+  exportTag,
+  type ExportEntity,
+  type ExportUserData,
+} from "./glb-export"
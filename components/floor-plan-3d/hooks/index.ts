@@ -1,2 +1,4 @@
 export { useCoordinateConversion, type CoordinateConverter } from "./use-coordinate-conversion"
-export { useFloorPlanGeometry, type FloorPlanGeometry } from "./use-floor-plan-geometry"
+export { useFloorPlanGeometry, buildRooms3D, buildWallEdges, type FloorPlanGeometry } from "./use-floor-plan-geometry"
+export { useLevelStack } from "./use-level-stack"
+export { useSiteStructures } from "./use-site-structures"
@@ -21,31 +21,13 @@ import type {
 } from "../types"
 import type { Furniture } from "@/components/floor-plan-editor/types"
 import type { RoomFinish } from "@/lib/api/client"
-import { useCoordinateConversion } from "./use-coordinate-conversion"
+import { useCoordinateConversion, type CoordinateConverter } from "./use-coordinate-conversion"
 import { DIMENSIONS, FURNITURE_3D, DEFAULT_VIBE } from "../constants"
+import { buildWallGraph } from "@/lib/wall-graph"
 
 // Tolerance for comparing floating point coordinates
 const TOLERANCE = 0.1 // feet
 
-/**
- * Create a normalized key for a wall edge (for deduplication)
- * Ensures the same edge from two rooms gets the same key
- */
-function createEdgeKey(
-  start: { x: number; z: number },
-  end: { x: number; z: number }
-): string {
-  // Round to avoid floating point issues
-  const s = { x: Math.round(start.x * 100), z: Math.round(start.z * 100) }
-  const e = { x: Math.round(end.x * 100), z: Math.round(end.z * 100) }
-
-  // Always order by smaller point first
-  if (s.x < e.x || (s.x === e.x && s.z < e.z)) {
-    return `${s.x},${s.z}-${e.x},${e.z}`
-  }
-  return `${e.x},${e.z}-${s.x},${s.z}`
-}
-
 /**
  * Calculate the distance between two points
  */
@@ -135,181 +117,184 @@ function rotationMatchesWall(
   return diff < 45 || diff > 135 // Perpendicular to wall is also valid
 }
 
-export function useFloorPlanGeometry(
+/**
+ * Rooms in Three.js coordinates (feet), with their finishes
+ */
+export function buildRooms3D(
   rooms: Room[],
-  doors: Door[],
-  windows: Window[],
-  furniture: Furniture[],
-  config: CoordinateConfig,
+  converter: CoordinateConverter,
   roomFinishes?: RoomFinish[]
-) {
-  const converter = useCoordinateConversion(config)
+): Room3D[] {
+  return rooms.map((room) => {
+    const vertices3D = converter.canvasPolygonToThree(room.vertices)
+    const center = converter.calculateCentroid(vertices3D)
+    const boundingBox = converter.calculateBoundingBox(vertices3D)
 
-  // Process rooms into 3D data
-  const rooms3D = useMemo((): Room3D[] => {
-    return rooms.map((room) => {
-      const vertices3D = converter.canvasPolygonToThree(room.vertices)
-      const center = converter.calculateCentroid(vertices3D)
-      const boundingBox = converter.calculateBoundingBox(vertices3D)
+    // Find finish for this room
+    const finish = roomFinishes?.find((rf) => rf.roomId === room.id)
 
-      // Find finish for this room
-      const finish = roomFinishes?.find((rf) => rf.roomId === room.id)
+    return {
+      id: room.id,
+      name: room.name,
+      type: room.type,
+      vertices: vertices3D,
+      center,
+      boundingBox,
+      area: room.area,
+      color: room.color,
+      vibe: finish?.vibe || DEFAULT_VIBE,
+      tier: finish?.tier || "standard",
+    }
+  })
+}
 
-      return {
-        id: room.id,
-        name: room.name,
-        type: room.type,
-        vertices: vertices3D,
-        center,
-        boundingBox,
-        area: room.area,
-        color: room.color,
-        vibe: finish?.vibe || DEFAULT_VIBE,
-        tier: finish?.tier || "standard",
-      }
-    })
-  }, [rooms, roomFinishes, converter])
+/**
+ * Wall edges from the shared wall graph (merged, exterior/interior aware), with doors and windows placed on them
+ */
+export function buildWallEdges(
+  rooms: Room[],
+  doors: Door[],
+  windows: Window[],
+  converter: CoordinateConverter
+): WallEdge[] {
+  // Step 1: Convert wall graph segments (canvas pixels) to Three.js coords
+  const edges: WallEdge[] = buildWallGraph(rooms).map((wall) => {
+    const start3D = converter.canvasToThree(wall.start, 0)
+    const end3D = converter.canvasToThree(wall.end, 0)
+    const start = { x: start3D.x, z: start3D.z }
+    const end = { x: end3D.x, z: end3D.z }
 
-  // Generate wall edges from room vertices
-  const wallEdges = useMemo((): WallEdge[] => {
-    const edgeMap = new Map<string, WallEdge>()
+    return {
+      id: wall.id,
+      start,
+      end,
+      roomIds: wall.roomIds ?? [],
+      openings: [],
+      length: distance(start, end),
+      angle: lineAngle(start, end),
+      isExterior: wall.kind !== "interior",
+      thickness: wall.thickness / 12, // inches to feet
+    }
+  })
 
-    // Step 1: Extract all edges from room vertices
-    for (const room of rooms3D) {
-      const vertices = room.vertices
-      for (let i = 0; i < vertices.length; i++) {
-        const start = vertices[i]
-        const end = vertices[(i + 1) % vertices.length]
-
-        const edgeKey = createEdgeKey(
-          { x: start.x, z: start.z },
-          { x: end.x, z: end.z }
-        )
+  // Step 2: Place doors on walls
+  for (const door of doors) {
+    const doorPos3D = converter.canvasToThree(door.position, 0)
+    const doorPos2D = { x: doorPos3D.x, z: doorPos3D.z }
 
-        if (edgeMap.has(edgeKey)) {
-          // Shared wall - add this room ID
-          const existing = edgeMap.get(edgeKey)!
-          if (!existing.roomIds.includes(room.id)) {
-            existing.roomIds.push(room.id)
-          }
-        } else {
-          edgeMap.set(edgeKey, {
-            id: edgeKey,
-            start: { x: start.x, z: start.z },
-            end: { x: end.x, z: end.z },
-            roomIds: [room.id],
-            openings: [],
-            length: distance(
-              { x: start.x, z: start.z },
-              { x: end.x, z: end.z }
-            ),
-            angle: lineAngle(
-              { x: start.x, z: start.z },
-              { x: end.x, z: end.z }
-            ),
-          })
-        }
-      }
-    }
+    // Find the wall this door belongs to
+    let bestWall: WallEdge | null = null
+    let bestDistance = Infinity
 
-    const edges = Array.from(edgeMap.values())
-
-    // Step 2: Place doors on walls
-    for (const door of doors) {
-      const doorPos3D = converter.canvasToThree(door.position, 0)
-      const doorPos2D = { x: doorPos3D.x, z: doorPos3D.z }
-
-      // Find the wall this door belongs to
-      let bestWall: WallEdge | null = null
-      let bestDistance = Infinity
-
-      for (const edge of edges) {
-        if (
-          isPointNearLine(doorPos2D, edge.start, edge.end, 2.0) &&
-          rotationMatchesWall(door.rotation, edge.angle)
-        ) {
-          const proj = projectPointOntoLine(doorPos2D, edge.start, edge.end)
-          const nearestX =
-            edge.start.x + (proj / edge.length) * (edge.end.x - edge.start.x)
-          const nearestZ =
-            edge.start.z + (proj / edge.length) * (edge.end.z - edge.start.z)
-          const dist = distance(doorPos2D, { x: nearestX, z: nearestZ })
-
-          if (dist < bestDistance) {
-            bestDistance = dist
-            bestWall = edge
-          }
+    for (const edge of edges) {
+      if (
+        isPointNearLine(doorPos2D, edge.start, edge.end, 2.0) &&
+        rotationMatchesWall(door.rotation, edge.angle)
+      ) {
+        const proj = projectPointOntoLine(doorPos2D, edge.start, edge.end)
+        const nearestX =
+          edge.start.x + (proj / edge.length) * (edge.end.x - edge.start.x)
+        const nearestZ =
+          edge.start.z + (proj / edge.length) * (edge.end.z - edge.start.z)
+        const dist = distance(doorPos2D, { x: nearestX, z: nearestZ })
+
+        if (dist < bestDistance) {
+          bestDistance = dist
+          bestWall = edge
         }
       }
+    }
 
-      if (bestWall) {
-        const position = projectPointOntoLine(
-          doorPos2D,
-          bestWall.start,
-          bestWall.end
-        )
-        bestWall.openings.push({
-          type: "door",
-          position,
-          width: door.width,
-          height: DIMENSIONS.DOOR_HEIGHT,
-          bottomOffset: 0,
-          itemId: door.id,
-        })
-      }
+    if (bestWall) {
+      const position = projectPointOntoLine(
+        doorPos2D,
+        bestWall.start,
+        bestWall.end
+      )
+      bestWall.openings.push({
+        type: "door",
+        position,
+        width: door.width,
+        height: DIMENSIONS.DOOR_HEIGHT,
+        bottomOffset: 0,
+        itemId: door.id,
+      })
     }
+  }
 
-    // Step 3: Place windows on walls
-    for (const window of windows) {
-      const windowPos3D = converter.canvasToThree(window.position, 0)
-      const windowPos2D = { x: windowPos3D.x, z: windowPos3D.z }
-
-      let bestWall: WallEdge | null = null
-      let bestDistance = Infinity
-
-      for (const edge of edges) {
-        if (
-          isPointNearLine(windowPos2D, edge.start, edge.end, 2.0) &&
-          rotationMatchesWall(window.rotation, edge.angle)
-        ) {
-          const proj = projectPointOntoLine(windowPos2D, edge.start, edge.end)
-          const nearestX =
-            edge.start.x + (proj / edge.length) * (edge.end.x - edge.start.x)
-          const nearestZ =
-            edge.start.z + (proj / edge.length) * (edge.end.z - edge.start.z)
-          const dist = distance(windowPos2D, { x: nearestX, z: nearestZ })
-
-          if (dist < bestDistance) {
-            bestDistance = dist
-            bestWall = edge
-          }
-        }
-      }
+  // Step 3: Place windows on walls
+  for (const window of windows) {
+    const windowPos3D = converter.canvasToThree(window.position, 0)
+    const windowPos2D = { x: windowPos3D.x, z: windowPos3D.z }
 
-      if (bestWall) {
-        const position = projectPointOntoLine(
-          windowPos2D,
-          bestWall.start,
-          bestWall.end
-        )
-        bestWall.openings.push({
-          type: "window",
-          position,
-          width: window.width,
-          height: window.height,
-          bottomOffset: DIMENSIONS.WINDOW_SILL_HEIGHT,
-          itemId: window.id,
-        })
+    let bestWall: WallEdge | null = null
+    let bestDistance = Infinity
+
+    for (const edge of edges) {
+      if (
+        isPointNearLine(windowPos2D, edge.start, edge.end, 2.0) &&
+        rotationMatchesWall(window.rotation, edge.angle)
+      ) {
+        const proj = projectPointOntoLine(windowPos2D, edge.start, edge.end)
+        const nearestX =
+          edge.start.x + (proj / edge.length) * (edge.end.x - edge.start.x)
+        const nearestZ =
+          edge.start.z + (proj / edge.length) * (edge.end.z - edge.start.z)
+        const dist = distance(windowPos2D, { x: nearestX, z: nearestZ })
+
+        if (dist < bestDistance) {
+          bestDistance = dist
+          bestWall = edge
+        }
       }
     }
 
-    // Sort openings by position on each wall
-    for (const edge of edges) {
-      edge.openings.sort((a, b) => a.position - b.position)
+    if (bestWall) {
+      const position = projectPointOntoLine(
+        windowPos2D,
+        bestWall.start,
+        bestWall.end
+      )
+      bestWall.openings.push({
+        type: "window",
+        position,
+        width: window.width,
+        height: window.height,
+        bottomOffset: DIMENSIONS.WINDOW_SILL_HEIGHT,
+        itemId: window.id,
+      })
     }
+  }
 
-    return edges
-  }, [rooms3D, doors, windows, converter])
+  // Sort openings by position on each wall
+  for (const edge of edges) {
+    edge.openings.sort((a, b) => a.position - b.position)
+  }
+
+  return edges
+}
+
+export function useFloorPlanGeometry(
+  rooms: Room[],
+  doors: Door[],
+  windows: Window[],
+  furniture: Furniture[],
+  config: CoordinateConfig,
+  roomFinishes?: RoomFinish[]
+) {
+  const converter = useCoordinateConversion(config)
+
+  // Process rooms into 3D data
+  const rooms3D = useMemo(
+    () => buildRooms3D(rooms, converter, roomFinishes),
+    [rooms, roomFinishes, converter]
+  )
+
+  // Generate wall edges from the shared wall graph (merged, exterior/interior aware)
+  const wallEdges = useMemo(
+    () => buildWallEdges(rooms, doors, windows, converter),
+    [rooms, doors, windows, converter]
+  )
 
   // Process doors into 3D data
   const doors3D = useMemo((): Door3D[] => {
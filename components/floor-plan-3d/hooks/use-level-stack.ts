@@ -0,0 +1,44 @@
+/**
+ * Hook to stack building levels vertically
+ *
+ * Each level sits on top of the one below it: its floor elevation is the
+ * elevation of the level below plus that level's ceiling height and the
+ * floor structure between them. The lowest level sits at grade (y = 0).
+ */
+
+import { useMemo } from "react"
+import type { FloorLevel, StackedLevel } from "../types"
+import { LEVEL_CONFIGS, STAIR_CONFIG } from "@/lib/constants"
+import { DIMENSIONS } from "../constants"
+
+export function useLevelStack(
+  groundCeilingHeight: number = DIMENSIONS.CEILING_HEIGHT,
+  levels: FloorLevel[] = []
+): StackedLevel[] {
+  return useMemo(() => {
+    const unsorted: Omit<StackedLevel, "elevation">[] = [
+      {
+        id: "ground",
+        name: LEVEL_CONFIGS.ground.label,
+        ceilingHeight: groundCeilingHeight,
+      },
+      ...levels
+        .filter((level) => level.id !== "ground")
+        .map((level) => ({
+          id: level.id,
+          name: level.name,
+          ceilingHeight: level.ceilingHeight,
+          level,
+        })),
+    ]
+    const sorted = unsorted.sort((a, b) => LEVEL_CONFIGS[a.id].order - LEVEL_CONFIGS[b.id].order)
+
+    const stacked: StackedLevel[] = []
+    for (const level of sorted) {
+      const below = stacked[stacked.length - 1]
+      const elevation = below ? below.elevation + below.ceilingHeight + STAIR_CONFIG.FLOOR_DEPTH : 0
+      stacked.push({ ...level, elevation })
+    }
+    return stacked
+  }, [groundCeilingHeight, levels])
+}
@@ -0,0 +1,59 @@
+/**
+ * Hook to place the lot's existing structures (house, garage, trees...) around the ADU model
+ *
+ * Structures are stored in feet from the lot center on the lot canvas. The ADU is offset and
+ * rotated on the lot, so each footprint is mapped into ADU-local canvas pixels first and then
+ * into Three.js coordinates like the rest of the floor plan.
+ */
+
+import { useMemo } from "react"
+import type { CoordinateConfig, SiteContext, Structure3D } from "../types"
+import { useCoordinateConversion } from "./use-coordinate-conversion"
+import { worldToAduLocal } from "@/components/floor-plan-editor/lot/lot-geometry"
+import { getStructureLabel, structureToPixels } from "@/components/floor-plan-editor/lot/existing-structures"
+import { SITE_STRUCTURES } from "../constants"
+import type { ExistingStructure } from "@/lib/api/client"
+
+function structureHeight(structure: ExistingStructure): number {
+  switch (structure.type) {
+    case "tree":
+      return SITE_STRUCTURES.TREE_HEIGHT
+    case "pool":
+      return 0
+    case "shed":
+      return SITE_STRUCTURES.SHED_HEIGHT * (structure.stories ?? 1)
+    default:
+      return SITE_STRUCTURES.STORY_HEIGHT * (structure.stories ?? 1)
+  }
+}
+
+export function useSiteStructures(site: SiteContext | undefined, config: CoordinateConfig): Structure3D[] {
+  const { canvasToThree } = useCoordinateConversion(config)
+
+  return useMemo(() => {
+    if (!site?.existingStructures?.length) return []
+
+    // The lot sits at the center of the editor canvas
+    const canvasCenter = { x: config.canvasWidth / 2, y: config.canvasHeight / 2 }
+    const transform = {
+      offsetX: site.aduOffsetX ?? 0,
+      offsetY: site.aduOffsetY ?? 0,
+      rotation: site.aduRotation ?? 0,
+      canvasCenter,
+      pixelsPerFoot: config.pixelsPerFoot,
+    }
+
+    return site.existingStructures
+      .filter((s) => s.vertices.length >= 3)
+      .map((structure) => ({
+        id: structure.id,
+        type: structure.type,
+        name: getStructureLabel(structure),
+        footprint: structureToPixels(structure, config.pixelsPerFoot, canvasCenter).map((p) => {
+          const local = canvasToThree(worldToAduLocal(p, transform), 0)
+          return { x: local.x, z: local.z }
+        }),
+        height: structureHeight(structure),
+      }))
+  }, [site, config.canvasWidth, config.canvasHeight, config.pixelsPerFoot, canvasToThree])
+}
@@ -8,22 +8,30 @@
  * - Walls with door/window openings
  * - Furniture placement
  * - Materials based on vibe selections
+ * - Stacked levels with per-level ceiling heights and stairs
  * - Top-down and first-person camera modes
+ * - GLB export of the model for Blender, SketchUp and proposals
+ * - Sun study: solar position for the site by date/time, with shadows from the lot's structures
  */
 
-import { Suspense, useState, useCallback, useRef } from "react"
+import { Suspense, useState, useCallback, useRef, useMemo } from "react"
 import { Canvas } from "@react-three/fiber"
 import * as THREE from "three"
 import { Button } from "@/components/ui/button"
-import { Eye, Compass } from "lucide-react"
+import { Eye, Compass, Layers, Download, Loader2, Sun } from "lucide-react"
+import { toast } from "sonner"
 
-import type { FloorPlan3DViewerProps, CameraMode } from "./types"
-import { useFloorPlanGeometry } from "./hooks"
-import { Floor, Walls, Doors, Windows, Furniture } from "./canvas"
+import type { FloorPlan3DViewerProps, CameraMode, LevelId } from "./types"
+import { useFloorPlanGeometry, useLevelStack, useSiteStructures } from "./hooks"
+import { Floor, Walls, Doors, Windows, Furniture, Level, Stairs, SiteStructures } from "./canvas"
 import { TopDownCamera } from "./controls/TopDownCamera"
 import { FirstPersonCamera, FirstPersonInstructions } from "./controls/FirstPersonCamera"
-import { SceneLighting } from "./lighting"
+import { CompassTracker, CompassRose, type CompassAngles } from "./controls/CompassRose"
+import { SceneLighting, SunStudyPanel, getSunDirection } from "./lighting"
+import { getSunPosition, getSiteDate, getDayOfYear } from "@/lib/solar"
 import { CAMERA } from "./constants"
+import { downloadModelGLB, exportTag } from "./export"
+import { sanitizeFilename } from "@/components/floor-plan-editor/export/utils"
 
 export function FloorPlan3DViewer({
   rooms,
@@ -38,10 +46,25 @@ export function FloorPlan3DViewer({
   canvasHeight,
   initialCameraMode = "topdown",
   onCameraModeChange,
+  ceilingHeight,
+  levels,
+  stairs,
+  projectName,
+  site,
 }: FloorPlan3DViewerProps) {
   const [cameraMode, setCameraMode] = useState<CameraMode>(initialCameraMode)
+  // Highest level shown - lower it to look inside the levels beneath (null = all levels)
+  const [topVisibleLevel, setTopVisibleLevel] = useState<LevelId | null>(null)
   const [isPointerLocked, setIsPointerLocked] = useState(false)
+  const [isExporting, setIsExporting] = useState(false)
   const canvasRef = useRef<HTMLCanvasElement>(null)
+  const modelRef = useRef<THREE.Group>(null)
+  // Sun study - date and site standard time
+  const [showSunStudy, setShowSunStudy] = useState(false)
+  const [sunYear] = useState(() => new Date().getFullYear())
+  const [sunDay, setSunDay] = useState(() => getDayOfYear(new Date()))
+  const [sunMinutes, setSunMinutes] = useState(15 * 60)
+  const [compassAngles, setCompassAngles] = useState<CompassAngles>({ north: 0, east: 90 })
 
   // Debug: Log input data
   console.log("=== 3D Viewer Debug ===")
@@ -75,6 +98,29 @@ export function FloorPlan3DViewer({
     roomFinishes
   )
 
+  // Stack levels bottom to top using each level's ceiling height
+  const levelStack = useLevelStack(ceilingHeight, levels)
+  const groundLevel = levelStack.find((l) => l.id === "ground") ?? levelStack[0]
+  const topVisibleIndex = topVisibleLevel
+    ? levelStack.findIndex((l) => l.id === topVisibleLevel)
+    : levelStack.length - 1
+  const visibleLevels = levelStack.slice(0, topVisibleIndex + 1)
+  const visibleLevelIds = new Set(visibleLevels.map((l) => l.id))
+
+  // True north relative to the plan: the lot's north less the ADU's rotation on the lot
+  const northRotation = site ? (site.geoRotation ?? 0) - (site.aduRotation ?? 0) : 0
+  const siteStructures = useSiteStructures(site, { pixelsPerFoot, canvasWidth, canvasHeight })
+
+  const sunPosition = useMemo(() => {
+    if (!site || !showSunStudy) return null
+    return getSunPosition(getSiteDate(sunYear, sunDay, sunMinutes, site.geoLng), site.geoLat, site.geoLng)
+  }, [site, showSunStudy, sunYear, sunDay, sunMinutes])
+
+  const sunLight = useMemo(
+    () => sunPosition && { direction: getSunDirection(sunPosition, northRotation), altitude: sunPosition.altitude },
+    [sunPosition, northRotation]
+  )
+
   // Debug: Log processed data
   console.log("Processed rooms3D:", rooms3D.length, rooms3D.slice(0, 2).map(r => ({ id: r.id, vertices: r.vertices.slice(0, 2), vibe: r.vibe })))
   console.log("Processed wallEdges:", wallEdges.length)
@@ -102,6 +148,21 @@ export function FloorPlan3DViewer({
     }
   }, [])
 
+  // Export the whole model (including levels hidden by the cutaway) as GLB
+  const handleExport3D = useCallback(async () => {
+    if (!modelRef.current) return
+    setIsExporting(true)
+    try {
+      await downloadModelGLB(modelRef.current, `${sanitizeFilename(projectName || "ADU")}_Model.glb`)
+      toast.success("3D model exported")
+    } catch (error) {
+      console.error("[FloorPlan3DViewer] GLB export failed:", error)
+      toast.error("Failed to export 3D model")
+    } finally {
+      setIsExporting(false)
+    }
+  }, [projectName])
+
   // Calculate first-person camera initial position
   const firstPersonPosition = cameraPlacement
     ? converter.canvasToThree(cameraPlacement.position, 0)
@@ -149,8 +210,48 @@ export function FloorPlan3DViewer({
           <Compass className="w-4 h-4" />
           First-Person
         </Button>
+        <Button
+          variant={showSunStudy ? "default" : "outline"}
+          size="sm"
+          onClick={() => setShowSunStudy((show) => !show)}
+          disabled={!site}
+          className="gap-2"
+          title={site ? "Sun position and shadows for a date and time" : "Add the lot address in the editor to study sun and shadows"}
+        >
+          <Sun className="w-4 h-4" />
+          Sun
+        </Button>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={handleExport3D}
+          disabled={isExporting}
+          className="gap-2"
+          title="Download a GLB model for Blender, SketchUp and other 3D tools"
+        >
+          {isExporting ? <Loader2 className="w-4 h-4 animate-spin" /> : <Download className="w-4 h-4" />}
+          Export 3D
+        </Button>
       </div>
 
+      {/* Level cutaway - show levels up to the selected one */}
+      {levelStack.length > 1 && (
+        <div className="absolute top-4 left-4 z-10 flex items-center gap-1 bg-white/90 dark:bg-gray-900/90 rounded-lg p-1 shadow">
+          <Layers className="w-4 h-4 mx-1 text-gray-500" />
+          {levelStack.map((level, index) => (
+            <Button
+              key={level.id}
+              variant={index === topVisibleIndex ? "default" : "ghost"}
+              size="sm"
+              className="h-7 text-xs"
+              onClick={() => setTopVisibleLevel(index === levelStack.length - 1 ? null : level.id)}
+            >
+              {level.name}
+            </Button>
+          ))}
+        </div>
+      )}
+
       {/* Camera Info */}
       {cameraMode === "topdown" && (
         <div className="absolute bottom-4 left-4 z-10 bg-black/60 text-white px-3 py-2 rounded-lg text-sm">
@@ -158,6 +259,21 @@ export function FloorPlan3DViewer({
         </div>
       )}
 
+      {/* Compass rose (north from the lot) and sun study controls */}
+      <div className="absolute bottom-4 right-4 z-10 flex items-end gap-2">
+        {sunPosition && (
+          <SunStudyPanel
+            year={sunYear}
+            dayOfYear={sunDay}
+            minutes={sunMinutes}
+            sun={sunPosition}
+            onDayChange={setSunDay}
+            onMinutesChange={setSunMinutes}
+          />
+        )}
+        <CompassRose angles={compassAngles} />
+      </div>
+
       {/* Three.js Canvas */}
       <Canvas
         ref={canvasRef}
@@ -171,9 +287,10 @@ export function FloorPlan3DViewer({
       >
         <Suspense fallback={null}>
           {/* Lighting */}
-          <SceneLighting mode={cameraMode} />
+          <SceneLighting mode={cameraMode} sun={sunLight} />
+          <CompassTracker northRotation={northRotation} onChange={setCompassAngles} />
 
-          {/* Camera */}
+          {/* Camera (the first-person camera is placed on the ground level) */}
           {cameraMode === "topdown" ? (
             <TopDownCamera bounds={bounds} />
           ) : (
@@ -181,31 +298,68 @@ export function FloorPlan3DViewer({
               initialPosition={
                 new THREE.Vector3(
                   firstPersonPosition.x,
-                  cameraPlacement?.height || CAMERA.DEFAULT_EYE_HEIGHT,
+                  groundLevel.elevation + (cameraPlacement?.height || CAMERA.DEFAULT_EYE_HEIGHT),
                   firstPersonPosition.z
                 )
               }
               initialRotation={cameraPlacement?.rotation || 0}
               fov={cameraPlacement?.fov || CAMERA.DEFAULT_FOV}
-              eyeHeight={cameraPlacement?.height || CAMERA.DEFAULT_EYE_HEIGHT}
+              eyeHeight={groundLevel.elevation + (cameraPlacement?.height || CAMERA.DEFAULT_EYE_HEIGHT)}
               onLockChange={handlePointerLockChange}
             />
           )}
 
-          {/* Floor */}
-          <Floor rooms={rooms3D} />
+          {/* Building model - everything in this group is exported to GLB */}
+          <group name="ADU" ref={modelRef}>
+            {/* Ground level */}
+            <group
+              name="level-ground"
+              position={[0, groundLevel.elevation, 0]}
+              visible={visibleLevelIds.has("ground")}
+              userData={exportTag("level", "ground", groundLevel.name)}
+            >
+              {/* Floor */}
+              <Floor rooms={rooms3D} />
+
+              {/* Walls */}
+              <Walls wallEdges={wallEdges} rooms={rooms3D} height={groundLevel.ceilingHeight} />
+
+              {/* Doors */}
+              <Doors doors={doors3D} />
+
+              {/* Windows */}
+              <Windows windows={windows3D} />
 
-          {/* Walls */}
-          <Walls wallEdges={wallEdges} rooms={rooms3D} />
+              {/* Furniture */}
+              <Furniture furniture={furniture3D} />
+            </group>
 
-          {/* Doors */}
-          <Doors doors={doors3D} />
+            {/* Other levels (second story, garage below) */}
+            {levelStack.map((stacked) =>
+              stacked.level ? (
+                <Level
+                  key={stacked.id}
+                  stacked={{ ...stacked, level: stacked.level }}
+                  config={{ pixelsPerFoot, canvasWidth, canvasHeight }}
+                  roomFinishes={roomFinishes}
+                  visible={visibleLevelIds.has(stacked.id)}
+                />
+              ) : null
+            )}
 
-          {/* Windows */}
-          <Windows windows={windows3D} />
+            {/* Stairs between levels */}
+            {stairs && stairs.length > 0 && (
+              <Stairs
+                stairs={stairs}
+                levels={levelStack}
+                converter={converter}
+                visibleLevelIds={visibleLevelIds}
+              />
+            )}
+          </group>
 
-          {/* Furniture */}
-          <Furniture furniture={furniture3D} />
+          {/* Existing lot structures (sun study only, not part of the exported model) */}
+          {showSunStudy && siteStructures.length > 0 && <SiteStructures structures={siteStructures} />}
 
           {/* Ground plane (extends beyond floor plan) */}
           <mesh
@@ -231,4 +385,5 @@ export function FloorPlan3DViewer({
 }
 
 // Re-export types
-export type { FloorPlan3DViewerProps, CameraMode } from "./types"
+export { Title24Card } from "./energy"
+export type { FloorPlan3DViewerProps, CameraMode, SiteContext } from "./types"
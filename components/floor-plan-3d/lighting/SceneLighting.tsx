@@ -2,38 +2,54 @@
 
 /**
  * Scene lighting setup for the 3D viewer
+ * With a sun study the main light follows the solar position for the site and date/time.
  */
 
-import type { CameraMode } from "../types"
+import type { CameraMode, Point3D } from "../types"
 
 interface SceneLightingProps {
   mode: CameraMode
+  // Unit vector toward the sun and its altitude (degrees); null/undefined keeps the fixed sun
+  sun?: { direction: Point3D; altitude: number } | null
 }
 
-export function SceneLighting({ mode }: SceneLightingProps) {
+// Distance of the sun light from the scene center (feet)
+const SUN_DISTANCE = 150
+
+export function SceneLighting({ mode, sun }: SceneLightingProps) {
+  const isNight = !!sun && sun.altitude <= 0
+  const sunPosition: [number, number, number] = sun
+    ? [sun.direction.x * SUN_DISTANCE, sun.direction.y * SUN_DISTANCE, sun.direction.z * SUN_DISTANCE]
+    : [10, 20, 10]
+  // Low sun is weaker; below the horizon only the ambient/sky light remains
+  const sunIntensity = sun ? (isNight ? 0 : 0.4 + Math.sin((sun.altitude * Math.PI) / 180)) : 1.0
+  // Sun studies include the structures around the ADU, so the shadow camera covers the whole lot
+  const shadowExtent = sun ? 100 : 30
+
   return (
     <>
       {/* Ambient light for base illumination */}
-      <ambientLight intensity={0.5} color="#ffffff" />
+      <ambientLight intensity={isNight ? 0.2 : sun ? 0.35 : 0.5} color="#ffffff" />
 
       {/* Main directional light (sun) */}
       <directionalLight
-        position={[10, 20, 10]}
-        intensity={1.0}
-        castShadow
-        shadow-mapSize-width={2048}
-        shadow-mapSize-height={2048}
-        shadow-camera-far={50}
-        shadow-camera-left={-30}
-        shadow-camera-right={30}
-        shadow-camera-top={30}
-        shadow-camera-bottom={-30}
+        position={sunPosition}
+        intensity={sunIntensity}
+        castShadow={!isNight}
+        shadow-mapSize-width={sun ? 4096 : 2048}
+        shadow-mapSize-height={sun ? 4096 : 2048}
+        shadow-camera-far={sun ? SUN_DISTANCE * 2 : 50}
+        shadow-camera-left={-shadowExtent}
+        shadow-camera-right={shadowExtent}
+        shadow-camera-top={shadowExtent}
+        shadow-camera-bottom={-shadowExtent}
+        shadow-bias={sun ? -0.0005 : 0}
       />
 
       {/* Fill light from opposite side */}
       <directionalLight
         position={[-10, 15, -10]}
-        intensity={0.3}
+        intensity={sun ? 0.15 : 0.3}
         color="#f0f0ff"
       />
 
@@ -0,0 +1,99 @@
+"use client"
+
+/**
+ * Sun study controls - date and time of day for the solar position at the project site
+ */
+
+import { Button } from "@/components/ui/button"
+import { Slider } from "@/components/ui/slider"
+import { Sun, Moon } from "lucide-react"
+import type { SunPosition } from "@/lib/solar"
+
+interface SunStudyPanelProps {
+  year: number
+  dayOfYear: number
+  minutes: number // site standard time, minutes after midnight
+  sun: SunPosition
+  onDayChange: (dayOfYear: number) => void
+  onMinutesChange: (minutes: number) => void
+}
+
+// Solstices and equinox (day of year) - the usual shadow study dates
+const PRESETS = [
+  { label: "Mar 20", day: 79 },
+  { label: "Jun 21", day: 172 },
+  { label: "Dec 21", day: 355 },
+]
+
+const COMPASS_POINTS = ["N", "NE", "E", "SE", "S", "SW", "W", "NW"]
+
+function formatDay(year: number, dayOfYear: number): string {
+  return new Date(Date.UTC(year, 0, dayOfYear)).toLocaleDateString("en-US", {
+    month: "short",
+    day: "numeric",
+    timeZone: "UTC",
+  })
+}
+
+function formatTime(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const mins = minutes % 60
+  const suffix = hours >= 12 ? "PM" : "AM"
+  return `${hours % 12 || 12}:${mins.toString().padStart(2, "0")} ${suffix}`
+}
+
+export function SunStudyPanel({
+  year,
+  dayOfYear,
+  minutes,
+  sun,
+  onDayChange,
+  onMinutesChange,
+}: SunStudyPanelProps) {
+  const isUp = sun.altitude > 0
+
+  return (
+    <div className="w-64 space-y-3 rounded-lg bg-white/95 p-3 shadow-md dark:bg-gray-900/95">
+      <div className="flex items-center justify-between">
+        <span className="flex items-center gap-1.5 text-sm font-semibold">
+          {isUp ? <Sun className="h-4 w-4 text-amber-500" /> : <Moon className="h-4 w-4 text-gray-500" />}
+          Sun Study
+        </span>
+        <span className="text-xs text-muted-foreground">
+          {isUp
+            ? `${sun.altitude.toFixed(0)}° up · ${COMPASS_POINTS[Math.round(sun.azimuth / 45) % 8]}`
+            : "Below horizon"}
+        </span>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs">
+          <span className="text-muted-foreground">Date</span>
+          <span className="font-medium">{formatDay(year, dayOfYear)}</span>
+        </div>
+        <Slider value={[dayOfYear]} min={1} max={365} step={1} onValueChange={([v]) => onDayChange(v)} />
+        <div className="flex gap-1">
+          {PRESETS.map((preset) => (
+            <Button
+              key={preset.day}
+              variant={preset.day === dayOfYear ? "default" : "outline"}
+              size="sm"
+              className="h-6 flex-1 px-1 text-[10px]"
+              onClick={() => onDayChange(preset.day)}
+            >
+              {preset.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      <div className="space-y-1">
+        <div className="flex justify-between text-xs">
+          <span className="text-muted-foreground">Time (standard)</span>
+          <span className="font-medium">{formatTime(minutes)}</span>
+        </div>
+        <Slider value={[minutes]} min={5 * 60} max={20 * 60} step={15} onValueChange={([v]) => onMinutesChange(v)} />
+      </div>
+    </div>
+  )
+}
@@ -1 +1,3 @@
 export { SceneLighting } from "./SceneLighting"
+export { SunStudyPanel } from "./SunStudyPanel"
+export { getCompassVectors, getSunDirection } from "./sun-direction"
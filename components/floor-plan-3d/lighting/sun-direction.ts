@@ -0,0 +1,33 @@
+/**
+ * Compass directions in the 3D scene
+ *
+ * The model follows the editor canvas: plan "up" is +Z and plan "right" is +X. True north is
+ * `northRotation` degrees clockwise from plan up (the lot's geoRotation less the ADU's rotation).
+ */
+
+import type { SunPosition } from "@/lib/solar"
+import type { Point3D } from "../types"
+
+const RAD = Math.PI / 180
+
+// Unit vectors pointing north and east on the ground
+export function getCompassVectors(northRotation: number): { north: Point3D; east: Point3D } {
+  const angle = northRotation * RAD
+  return {
+    north: { x: Math.sin(angle), y: 0, z: Math.cos(angle) },
+    east: { x: Math.cos(angle), y: 0, z: -Math.sin(angle) },
+  }
+}
+
+// Unit vector from the scene toward the sun
+export function getSunDirection(sun: SunPosition, northRotation: number): Point3D {
+  const { north, east } = getCompassVectors(northRotation)
+  const azimuth = sun.azimuth * RAD
+  const altitude = sun.altitude * RAD
+  const horizontal = Math.cos(altitude)
+  return {
+    x: (north.x * Math.cos(azimuth) + east.x * Math.sin(azimuth)) * horizontal,
+    y: Math.sin(altitude),
+    z: (north.z * Math.cos(azimuth) + east.z * Math.sin(azimuth)) * horizontal,
+  }
+}
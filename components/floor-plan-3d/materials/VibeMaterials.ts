@@ -22,27 +22,33 @@ export function createRoomMaterials(
 ): RoomMaterials {
   const palette = VIBE_PALETTES[vibe] || VIBE_PALETTES[DEFAULT_VIBE]
   const tierMod = TIER_MODIFIERS[tier] || TIER_MODIFIERS.standard
+  // Material names carry through to exported GLB files
+  const prefix = `${VIBE_PALETTES[vibe] ? vibe : DEFAULT_VIBE}-${TIER_MODIFIERS[tier] ? tier : "standard"}`
 
   return {
     wall: new THREE.MeshStandardMaterial({
+      name: `${prefix}-wall`,
       color: palette.wall,
       roughness: Math.min(1, palette.roughness * tierMod.roughnessMultiplier),
       metalness: Math.min(1, palette.metalness * tierMod.metalnessMultiplier),
       side: THREE.DoubleSide,
     }),
     floor: new THREE.MeshStandardMaterial({
+      name: `${prefix}-floor`,
       color: palette.floor,
       roughness: Math.min(1, palette.roughness * tierMod.roughnessMultiplier),
       metalness: 0,
       side: THREE.FrontSide,
     }),
     ceiling: new THREE.MeshStandardMaterial({
+      name: `${prefix}-ceiling`,
       color: palette.ceiling,
       roughness: 0.9,
       metalness: 0,
       side: THREE.FrontSide,
     }),
     trim: new THREE.MeshStandardMaterial({
+      name: `${prefix}-trim`,
       color: palette.trim,
       roughness: 0.6,
       metalness: vibe === "luxury" ? 0.3 : 0,
@@ -56,6 +62,7 @@ export function createRoomMaterials(
  */
 export function createDoorMaterial(hasGlass: boolean = false): THREE.MeshStandardMaterial {
   return new THREE.MeshStandardMaterial({
+    name: hasGlass ? "door-glass" : "door-wood",
     color: hasGlass ? "#FFFFFF" : "#8B5A2B", // Wood color for solid doors
     roughness: hasGlass ? 0.1 : 0.7,
     metalness: 0,
@@ -70,6 +77,7 @@ export function createDoorMaterial(hasGlass: boolean = false): THREE.MeshStandar
  */
 export function createDoorFrameMaterial(): THREE.MeshStandardMaterial {
   return new THREE.MeshStandardMaterial({
+    name: "door-frame",
     color: "#5D4037", // Dark wood
     roughness: 0.8,
     metalness: 0,
@@ -82,6 +90,7 @@ export function createDoorFrameMaterial(): THREE.MeshStandardMaterial {
  */
 export function createWindowFrameMaterial(): THREE.MeshStandardMaterial {
   return new THREE.MeshStandardMaterial({
+    name: "window-frame",
     color: "#FFFFFF",
     roughness: 0.8,
     metalness: 0,
@@ -94,6 +103,7 @@ export function createWindowFrameMaterial(): THREE.MeshStandardMaterial {
  */
 export function createWindowGlassMaterial(): THREE.MeshStandardMaterial {
   return new THREE.MeshStandardMaterial({
+    name: "window-glass",
     color: "#87CEEB", // Light blue tint
     transparent: true,
     opacity: 0.3,
@@ -108,6 +118,7 @@ export function createWindowGlassMaterial(): THREE.MeshStandardMaterial {
  */
 export function createFurnitureMaterial(color: string): THREE.MeshStandardMaterial {
   return new THREE.MeshStandardMaterial({
+    name: `furniture-${color.replace("#", "").toLowerCase()}`,
     color,
     roughness: 0.8,
     metalness: 0,
@@ -2,9 +2,9 @@
  * Types for 3D Floor Plan Viewer
  */
 
-import type { Point, Room, Door, Window, RoomType, DoorType, WindowType } from "@/lib/types"
+import type { Point, Room, Door, Window, RoomType, DoorType, WindowType, FloorLevel, LevelId, Stair } from "@/lib/types"
 import type { Furniture, FurnitureType, CanvasConfig } from "@/components/floor-plan-editor/types"
-import type { VibeOption, CameraPlacement, RoomFinish } from "@/lib/api/client"
+import type { VibeOption, CameraPlacement, RoomFinish, Lot, ExistingStructureType } from "@/lib/api/client"
 
 // Camera modes for the viewer
 export type CameraMode = "topdown" | "firstperson"
@@ -23,7 +23,7 @@ export interface Point3D {
   z: number
 }
 
-// Wall edge derived from room vertices
+// Wall edge derived from the shared wall graph (lib/wall-graph)
 export interface WallEdge {
   id: string
   start: { x: number; z: number } // in feet (Three.js coords)
@@ -32,6 +32,8 @@ export interface WallEdge {
   openings: WallOpening[]
   length: number // in feet
   angle: number // radians
+  isExterior: boolean
+  thickness: number // in feet
 }
 
 // Opening (door or window) in a wall
@@ -125,9 +127,40 @@ export interface FloorPlan3DViewerProps {
   canvasHeight: number
   initialCameraMode?: CameraMode
   onCameraModeChange?: (mode: CameraMode) => void
+  // Multi-story: the props above are the ground level
+  ceilingHeight?: number
+  levels?: FloorLevel[]
+  stairs?: Stair[]
+  projectName?: string // used for export filenames
+  // Lot location, true north and ADU placement - enables the sun study and site structures
+  site?: SiteContext
+}
+
+// The parts of the lot the viewer needs (geoRotation: true north, clockwise from up on the lot canvas)
+export type SiteContext = Pick<
+  Lot,
+  "geoLat" | "geoLng" | "geoRotation" | "aduOffsetX" | "aduOffsetY" | "aduRotation" | "existingStructures"
+>
+
+// Existing lot structure placed around the ADU model
+export interface Structure3D {
+  id: string
+  type: ExistingStructureType
+  name: string
+  footprint: { x: number; z: number }[] // feet (Three.js coords)
+  height: number // feet, 0 for flat features (pools)
+}
+
+// A level positioned in the stacked 3D model
+export interface StackedLevel {
+  id: LevelId
+  name: string
+  ceilingHeight: number // feet
+  elevation: number // height of the finished floor above grade, feet
+  level?: FloorLevel // undefined for the ground level (comes from the top-level props)
 }
 
 // Re-export common types
-export type { Point, Room, Door, Window, RoomType, DoorType, WindowType }
+export type { Point, Room, Door, Window, RoomType, DoorType, WindowType, FloorLevel, LevelId, Stair }
 export type { Furniture, FurnitureType, CanvasConfig }
 export type { VibeOption, CameraPlacement, RoomFinish }
@@ -31,11 +31,25 @@ import { Card } from "@/components/ui/card";
 import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
-import { Undo2, Redo2, Cloud, CloudOff, Loader2, AlertTriangle, Save } from "lucide-react";
-import type { FloorPlan, Point, RoomType, DoorType, WindowType } from "@/lib/types";
-import { DOOR_CONFIGS, WINDOW_CONFIGS } from "@/lib/constants";
+import { Undo2, Redo2, Cloud, CloudOff, Loader2, AlertTriangle, Save, LayoutTemplate, BookmarkPlus, FileUp, EyeOff, History, RefreshCw } from "lucide-react";
+import type { FloorPlan, FloorLevel, LevelId, Point, Room, RoomType, DoorType, WindowType, ADUTemplate, ElectricalDeviceType } from "@/lib/types";
+import { DOOR_CONFIGS, WINDOW_CONFIGS, ELECTRICAL_CONFIGS, STORAGE_KEYS } from "@/lib/constants";
 import { useWizard } from "@/lib/context/wizard-context";
 import { useActionLogger } from "@/lib/hooks/use-action-logger";
+import { useCollaboration } from "@/lib/hooks/use-collaboration";
+import {
+  lockedByOthers,
+  diffPlanOps,
+  applyPlanOps,
+  BOUNDARY_ID,
+  type CollabEntityRef,
+  type CollabEntityType,
+  type CollabOpDraft,
+  type CollabPlan,
+} from "@/lib/collab";
+import { usePendingSync } from "@/lib/hooks/use-pending-sync";
+import { buildWallGraph, snapOpeningToWall, findNearestWall, moveOpeningsWithRoom, openingRoomIds } from "@/lib/wall-graph";
+import type { ComplianceIssue } from "@/lib/compliance";
 
 // Import modular components
 import {
@@ -48,11 +62,17 @@ import {
   useVersionHistory,
   useLotBoundaryDrawing,
   useEditorSettings,
+  useCustomTemplates,
+  useCompliance,
+  useImageUnderlay,
+  useLevels,
+  useElectrical,
 } from "./floor-plan-editor/hooks";
 import {
   Grid,
   ADUBoundary,
   Rooms,
+  Walls,
   Doors,
   Windows,
   Furniture,
@@ -60,10 +80,35 @@ import {
   MarqueeSelection,
   getBoundingBox,
   rectsIntersect,
+  ReferenceUnderlay,
+  ImageUnderlay,
+  CalibrationLine,
+  LevelGhost,
+  Stairs,
+  Electrical,
+  Plumbing,
+  RemotePresence,
 } from "./floor-plan-editor/canvas";
-import { LotOverlay, LotBoundaryDrawing } from "./floor-plan-editor/lot";
+import {
+  LotOverlay,
+  LotBoundaryDrawing,
+  getLotBoundaryPixels,
+  getSetbackBoundaryPixels,
+  aduLocalToWorld,
+  worldToAduLocal,
+  checkAduFit,
+  calculateLotCoverage,
+  createExistingStructure,
+  findAduPlacements,
+} from "./floor-plan-editor/lot";
+import type { AduPlacementCandidate } from "./floor-plan-editor/lot";
 import * as api from "@/lib/api/client";
-import type { AddressResult } from "@/lib/api/client";
+import type { AddressResult, Finishes, ExistingStructure, ExistingStructureType } from "@/lib/api/client";
+import { estimateCost, summarizeEstimate } from "@/lib/cost";
+import { analyzeDaylight, analyzeBuildingDaylight } from "@/lib/daylight";
+import { suggestReceptacles } from "@/lib/electrical";
+import { analyzePlumbing } from "@/lib/plumbing";
+import { getZoningProfile, resolveZoningProfile, getAduLimits, zoningRuleSetId } from "@/lib/zoning";
 import { useLot } from "@/lib/api/hooks";
 import {
   ModeSelector,
@@ -73,6 +118,11 @@ import {
   FurnitureSelector,
   LotSelector,
   DraggablePanelContainer,
+  ImageUnderlayPanel,
+  LevelPanel,
+  ExistingStructuresPanel,
+  ElectricalSelector,
+  PlumbingPanel,
 } from "./floor-plan-editor/sidebar";
 import {
   ADUAreaIndicator,
@@ -86,12 +136,27 @@ import {
   WindowList,
   FurnitureList,
   ADUSummary,
+  ComplianceIssuesPanel,
 } from "./floor-plan-editor/lists";
 import { ExportDialog } from "./floor-plan-editor/export";
+import { ImportDialog, type ReferenceUnderlayShape } from "./floor-plan-editor/import";
+import { SessionReplayDialog } from "./floor-plan-editor/replay";
+import { VersionCompareDialog, type ComparePlan, type EntityDiff } from "./floor-plan-editor/compare";
+import { AlternativeSwitcher, AlternativesCompareDialog } from "./floor-plan-editor/alternatives";
+import { CollaborationMenu } from "./floor-plan-editor/collaboration";
+import { nextAlternativeName, alternativeLotPlacement, latestBlueprintId, type AlternativePlan } from "@/lib/alternatives";
+import {
+  TemplateGallery,
+  SaveTemplateDialog,
+  instantiateTemplate,
+  createTemplateFromPlan,
+} from "./floor-plan-editor/templates";
 import type {
   Furniture as FurnitureItem,
   FurnitureType,
   PlacementMode,
+  SavedImageUnderlay,
+  EditorLevel,
 } from "./floor-plan-editor/types";
 import { FURNITURE_CONFIG, MAX_HISTORY } from "./floor-plan-editor/constants";
 
@@ -105,7 +170,22 @@ interface FloorPlanEditorProps {
 
 export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
   // Wizard context for cloud save
-  const { isSaving, saveError, lastSavedAt, projectId, blueprintId, saveToCloud } = useWizard();
+  const {
+    isSaving,
+    saveError,
+    lastSavedAt,
+    projectId,
+    blueprintId,
+    saveToCloud,
+    costSettings,
+    alternatives,
+    activeAlternativeId,
+    addAlternative,
+    switchAlternative,
+    renameAlternative,
+    deleteAlternative,
+    setAlternativeLotPlacement,
+  } = useWizard();
 
   // Editor settings persistence (localStorage)
   const {
@@ -119,7 +199,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
 
   // Lot overlay hook
   const {
-    lot,
+    lot: blueprintLot,
     loading: lotLoading,
     error: lotError,
     addressResults,
@@ -131,10 +211,34 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     updateSetbacks,
     updateLotDimensions,
     updateLotCustomBoundary,
+    updateExistingStructures,
+    updateSewerConnection,
+    updateZoningProfile,
+    updateGeoProvider,
     removeLot,
     clearAddressResults,
+    // Geocoding/parcel provider saved on the lot
+    geoProvider,
   } = useLot(blueprintId ?? undefined);
 
+  // The lot with the active alternative's own ADU placement - alternatives can share a lot record
+  const alternativePlacement = useMemo(() => {
+    const active = alternatives.find(a => a.id === activeAlternativeId);
+    return active ? alternativeLotPlacement(active) : null;
+  }, [alternatives, activeAlternativeId]);
+  const lot = useMemo(
+    () => (blueprintLot && alternativePlacement ? { ...blueprintLot, ...alternativePlacement } : blueprintLot),
+    [blueprintLot, alternativePlacement]
+  );
+
+  // Move the ADU on the lot, keeping the placement on the active alternative too
+  const handleUpdateAduPosition = useCallback((offsetX: number, offsetY: number, rotation?: number) => {
+    if (lot) {
+      setAlternativeLotPlacement({ aduOffsetX: offsetX, aduOffsetY: offsetY, aduRotation: rotation ?? lot.aduRotation });
+    }
+    return updateAduPosition(offsetX, offsetY, rotation);
+  }, [lot, setAlternativeLotPlacement, updateAduPosition]);
+
   // Lot overlay visibility (from persisted settings)
   const showLotOverlay = editorSettings.showLotOverlay;
   const showSatelliteView = editorSettings.showSatelliteView;
@@ -145,6 +249,13 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
   const [previewOffsetY, setPreviewOffsetY] = useState<number | null>(null);
   const [previewRotation, setPreviewRotation] = useState<number | null>(null);
 
+  // Existing structures on the lot (main house, garage, pool, trees)
+  const [isEditingStructures, setIsEditingStructures] = useState(false);
+  const [selectedStructureId, setSelectedStructureId] = useState<string | null>(null);
+
+  // Plumbing mode - the next canvas click places the sewer lateral connection
+  const [isPlacingSewerConnection, setIsPlacingSewerConnection] = useState(false);
+
   // Ref to hold setCamera function (from useZoomPan) for use in handleRestoreSnapshot
   // This is needed because handleRestoreSnapshot is defined before useZoomPan is called
   const setCameraRef = useRef<((zoom: number, panX: number, panY: number) => void) | null>(null);
@@ -164,13 +275,50 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     }
   }, [blueprintId, loadLot, setShowLotOverlay]);
 
+  // Blueprint lineage of the alternative being switched to, whose lot is loaded once its
+  // blueprint is the active one - switching itself never writes lot data
+  const pendingLotLineageRef = useRef<string[] | null>(null);
+  useEffect(() => {
+    const lineage = pendingLotLineageRef.current;
+    if (!blueprintId || !lineage || lineage[lineage.length - 1] !== blueprintId) return;
+    pendingLotLineageRef.current = null;
+    let cancelled = false;
+    // Saves make new blueprints without a lot, so take the newest one in the lineage that has one
+    (async () => {
+      for (const id of [...lineage].reverse()) {
+        if (cancelled || await loadLot(id)) return;
+      }
+    })();
+    return () => { cancelled = true; };
+  }, [blueprintId, loadLot]);
+
   // Action logger for tracking all editor changes
-  const { logMove, logResize, logCreate, logDelete, logVertexMove } = useActionLogger({
+  const { logEditorAction, logMove, logResize, logCreate, logDelete, logVertexMove } = useActionLogger({
     projectId,
     blueprintId,
+    alternativeId: activeAlternativeId,
     enabled: !!projectId,
   });
 
+  // Log a door, window or furniture change with its full state, so session replay can redo it
+  const logPlacedChange = useCallback((
+    verb: "move" | "rotate" | "resize",
+    entityType: "door" | "window" | "furniture",
+    previous: FloorPlan["doors"][number] | FloorPlan["windows"][number] | FurnitureItem,
+    next: FloorPlan["doors"][number] | FloorPlan["windows"][number] | FurnitureItem
+  ) => {
+    logEditorAction(`${entityType}.${verb}`, entityType, next.id, {
+      previousState: { ...previous },
+      newState: { ...next },
+      positionX: Math.round(next.position.x),
+      positionY: Math.round(next.position.y),
+      rotation: next.rotation,
+    });
+  }, [logEditorAction]);
+
+  // Changes queued in the outbox while the backend was unreachable
+  const { pendingCount, retryNow } = usePendingSync();
+
   // Canvas configuration
   const config = useCanvasConfig();
   const { pixelsPerFoot, gridSize, displaySize, extendedCanvasSize } = config;
@@ -178,6 +326,25 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
   // Load furniture images
   const furnitureImages = useFurnitureImages();
 
+  // Raster tracing underlay (saved with snapshots)
+  const {
+    underlay: imageUnderlay,
+    restoreUnderlay: restoreImageUnderlay,
+    loadImage: loadUnderlayImage,
+    pdfPage: underlayPdfPage,
+    selectPdfPage: selectUnderlayPdfPage,
+    updateUnderlay: updateImageUnderlay,
+    removeUnderlay: removeImageUnderlay,
+    isCalibrating: isCalibratingUnderlay,
+    calibrationPoints: underlayCalibrationPoints,
+    calibrationPreview: underlayCalibrationPreview,
+    startCalibration: startUnderlayCalibration,
+    cancelCalibration: cancelUnderlayCalibration,
+    handleCalibrationClick: handleUnderlayCalibrationClick,
+    handleCalibrationMouseMove: handleUnderlayCalibrationMouseMove,
+    applyCalibration: applyUnderlayCalibration,
+  } = useImageUnderlay({ pixelsPerFoot });
+
   // Calculate default boundary position
   const defaultBoundarySize = Math.sqrt(600) * pixelsPerFoot;
   const defaultOffset = (extendedCanvasSize - defaultBoundarySize) / 2;
@@ -194,6 +361,62 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     { x: defaultOffset, y: defaultOffset + defaultBoundarySize },
   ]);
 
+  // Multi-story levels - the core state above always holds the active level
+  const {
+    levels,
+    activeLevelId,
+    levelBelow,
+    levelAbove,
+    levelBelowContent,
+    stairs,
+    activeStairs,
+    showLevelBelow,
+    setShowLevelBelow,
+    switchLevel,
+    addLevel,
+    removeLevel,
+    updateLevel,
+    addStair,
+    updateStair,
+    removeStair,
+    collectLevels,
+    restoreLevels,
+  } = useLevels();
+  const [selectedStairId, setSelectedStairId] = useState<string | null>(null);
+
+  // Electrical layer - devices for every level, each tagged with its level
+  const {
+    devices: electricalDevices,
+    addDevice: addElectricalDevice,
+    addDevices: addElectricalDevices,
+    updateDevice: updateElectricalDevice,
+    removeDevice: removeElectricalDevice,
+    toggleControl: toggleElectricalControl,
+    removeLevelDevices,
+    restoreDevices: restoreElectricalDevices,
+  } = useElectrical();
+  const [selectedDeviceId, setSelectedDeviceId] = useState<string | null>(null);
+  const activeDevices = useMemo(
+    () => electricalDevices.filter(d => d.level === activeLevelId),
+    [electricalDevices, activeLevelId]
+  );
+
+  // Ground level (top-level blueprint fields) plus the other levels, for saving and snapshots
+  const levelData = useMemo(
+    () => collectLevels({ rooms, doors, windows, furniture }),
+    [collectLevels, rooms, doors, windows, furniture]
+  );
+  // Every level with its content, bottom to top - for whole-building totals and exports
+  const buildingLevels = useMemo(
+    () => levels.map(({ id, name }) => ({
+      id,
+      name,
+      ...(id === "ground" ? levelData.ground : levelData.levels.find(l => l.id === id) ?? levelData.ground),
+    })),
+    [levels, levelData]
+  );
+  const buildingRooms = useMemo(() => buildingLevels.flatMap(level => level.rooms), [buildingLevels]);
+
   // Selection state (single selection)
   const [selectedRoomId, setSelectedRoomId] = useState<string | null>(null);
   const [selectedDoorId, setSelectedDoorId] = useState<string | null>(null);
@@ -228,6 +451,33 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
   const [isCanvasLocked, setIsCanvasLocked] = useState(false);
   const [furnitureSnapMode, setFurnitureSnapMode] = useState<"grid" | "half" | "free">("half");
   const [showExportDialog, setShowExportDialog] = useState(false);
+  const [exportFinishes, setExportFinishes] = useState<Finishes | null>(null);
+  const [showTemplateGallery, setShowTemplateGallery] = useState(false);
+
+  // Room tiers and vibes from the finishes step, fetched when the export dialog opens
+  const handleOpenExport = useCallback(async () => {
+    setShowExportDialog(true);
+    if (!blueprintId) return;
+    try {
+      const response = await api.getFinishes(blueprintId);
+      setExportFinishes(response.data.finish);
+    } catch {
+      // No finishes saved yet - the estimate uses the standard tier throughout
+      setExportFinishes(null);
+    }
+  }, [blueprintId]);
+
+  const [showSaveTemplateDialog, setShowSaveTemplateDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [showSessionReplay, setShowSessionReplay] = useState(false);
+  const [showVersionCompare, setShowVersionCompare] = useState(false);
+  const [showAlternativesCompare, setShowAlternativesCompare] = useState(false);
+
+  // Locked tracing reference left over from an imported DXF/SVG plan
+  const [referenceUnderlay, setReferenceUnderlay] = useState<ReferenceUnderlayShape[]>([]);
+
+  // User-saved templates (localStorage)
+  const { customTemplates, saveCustomTemplate, deleteCustomTemplate } = useCustomTemplates();
 
   // Delete confirmation dialog (supports single and batch delete)
   const [deleteDialog, setDeleteDialog] = useState<{
@@ -243,11 +493,12 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
 
   // Auto-save hook
   const { autoSaveEnabled, setAutoSaveEnabled, saveNow } = useAutoSave({
-    rooms,
-    doors,
-    windows,
-    furniture,
+    ...levelData.ground,
     aduBoundary,
+    ceilingHeight: levelData.ceilingHeight,
+    levels: levelData.levels,
+    stairs,
+    electrical: electricalDevices,
     config,
     isSaving,
     saveToCloud,
@@ -268,6 +519,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       zoom: number;
       panOffsetX: number;
       panOffsetY: number;
+      imageUnderlay?: SavedImageUnderlay | null;
     };
     lotData?: {
       parcelNumber?: string;
@@ -289,17 +541,35 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       setbackBackFeet: number;
       setbackLeftFeet: number;
       setbackRightFeet: number;
+      existingStructures?: ExistingStructure[];
+      zoningProfileId?: string;
+      geoProviderId?: string;
+      sewerConnection?: { x: number; y: number };
       dataSource?: string;
     };
+    ceilingHeight?: number;
+    levels?: EditorLevel[];
+    stairs?: FloorPlan["stairs"];
+    electrical?: FloorPlan["electrical"];
   }) => {
     console.log("[FloorPlanEditor] Restoring snapshot, lotData:", data.lotData ? "present" : "missing", data.lotData);
     console.log("[FloorPlanEditor] Restoring snapshot, editorSettings:", data.editorSettings);
 
+    // Snapshots hold the ground level at the top level; older ones have no other levels
+    restoreLevels({
+      ground: { rooms: data.rooms, doors: data.doors, windows: data.windows, furniture: data.furniture },
+      ceilingHeight: data.ceilingHeight,
+      levels: data.levels,
+      stairs: data.stairs,
+    });
     setRooms(data.rooms);
     setDoors(data.doors);
     setWindows(data.windows);
     setFurniture(data.furniture);
     setAduBoundary(data.aduBoundary);
+    restoreElectricalDevices(data.electrical ?? []);
+    setSelectedStairId(null);
+    setSelectedDeviceId(null);
     // Restore editor settings if present in snapshot
     if (data.editorSettings) {
       setShowLotOverlay(data.editorSettings.showLotOverlay);
@@ -320,6 +590,10 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
           data.editorSettings.panOffsetY
         );
       }
+      // Older snapshots have no underlay field - keep the current image in that case
+      if (data.editorSettings.imageUnderlay !== undefined) {
+        void restoreImageUnderlay(data.editorSettings.imageUnderlay);
+      }
     }
     // Restore lot data if present in snapshot
     if (data.lotData) {
@@ -345,10 +619,19 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
           setbackBackFeet: data.lotData.setbackBackFeet,
           setbackLeftFeet: data.lotData.setbackLeftFeet,
           setbackRightFeet: data.lotData.setbackRightFeet,
+          existingStructures: data.lotData.existingStructures ?? [],
+          zoningProfileId: data.lotData.zoningProfileId,
+          geoProviderId: data.lotData.geoProviderId,
+          sewerConnection: data.lotData.sewerConnection,
           parcelNumber: data.lotData.parcelNumber,
           dataSource: data.lotData.dataSource as "orange_county_gis" | "manual" | "nominatim" | undefined,
         });
         console.log("[FloorPlanEditor] Lot data restored successfully:", restoredLot);
+        setAlternativeLotPlacement({
+          aduOffsetX: data.lotData.aduOffsetX,
+          aduOffsetY: data.lotData.aduOffsetY,
+          aduRotation: data.lotData.aduRotation,
+        });
         // Clear preview states
         setPreviewOffsetX(null);
         setPreviewOffsetY(null);
@@ -364,7 +647,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     setSelectedDoorId(null);
     setSelectedWindowId(null);
     setSelectedFurnitureId(null);
-  }, [setShowLotOverlay, setShowSatelliteView, setShowLotBoundary, saveShowGrid, setCameraSettings, saveLot]);
+  }, [restoreLevels, restoreElectricalDevices, setShowLotOverlay, setShowSatelliteView, setShowLotBoundary, saveShowGrid, setCameraSettings, restoreImageUnderlay, saveLot, setAlternativeLotPlacement]);
 
   const {
     autoSaves,
@@ -375,14 +658,19 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     deleteSnapshot,
     formatTimestamp,
     getTimeAgo,
+    createSnapshotData,
   } = useVersionHistory({
     projectId: projectId ?? undefined,
     blueprintId: blueprintId ?? undefined,
-    rooms,
-    doors,
-    windows,
-    furniture,
+    alternativeId: activeAlternativeId ?? undefined,
+    // Snapshots from before alternatives existed stay with the project's first alternative
+    ownsUntaggedSnapshots: alternatives.length === 0 || alternatives[0].id === activeAlternativeId,
+    ...levelData.ground,
     aduBoundary,
+    ceilingHeight: levelData.ceilingHeight,
+    levels: levelData.levels,
+    stairs,
+    electrical: electricalDevices,
     editorSettings: {
       showLotOverlay: editorSettings.showLotOverlay,
       showSatelliteView: editorSettings.showSatelliteView,
@@ -391,6 +679,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       zoom: editorSettings.zoom,
       panOffsetX: editorSettings.panOffsetX,
       panOffsetY: editorSettings.panOffsetY,
+      imageUnderlay,
     },
     // Include lot data in snapshots (only if lot exists)
     lotData: lot ? {
@@ -413,6 +702,10 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       setbackBackFeet: lot.setbackBackFeet,
       setbackLeftFeet: lot.setbackLeftFeet,
       setbackRightFeet: lot.setbackRightFeet,
+      existingStructures: lot.existingStructures,
+      zoningProfileId: lot.zoningProfileId,
+      geoProviderId: lot.geoProviderId,
+      sewerConnection: lot.sewerConnection ?? undefined,
       dataSource: lot.dataSource,
     } : undefined,
     onRestore: handleRestoreSnapshot,
@@ -493,10 +786,21 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       lotDepthFeet = 100;
     }
 
+    // Zoning profile (and its setbacks) from the resolved address
+    const city = address.addressComponents?.city ?? address.displayName.split(",")[1]?.trim();
+    const zoningProfile = resolveZoningProfile({ city, displayName: address.displayName });
+
     // Save lot with address and parcel data (if available)
     await saveLot({
       address: address.displayName.split(",")[0],
-      city: address.displayName.split(",")[1]?.trim(),
+      city,
+      state: address.addressComponents?.state,
+      zipCode: address.addressComponents?.postcode,
+      zoningProfileId: zoningProfile.id,
+      setbackFrontFeet: zoningProfile.setbacks.front,
+      setbackBackFeet: zoningProfile.setbacks.rear,
+      setbackLeftFeet: zoningProfile.setbacks.side,
+      setbackRightFeet: zoningProfile.setbacks.side,
       geoLat: address.lat,
       geoLng: address.lng,
       lotWidthFeet,
@@ -505,16 +809,13 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         parcelNumber: parcel.parcelNumber,
         boundaryVertices: parcel.boundaryVertices,
         lotAreaSqFt: parcel.areaSqFt,
-        dataSource: "orange_county_gis",
-      }),
-      ...(!parcel && {
-        dataSource: "nominatim",
       }),
+      dataSource: parcel ? geoProvider.dataSource.parcel : geoProvider.dataSource.address,
     });
 
     // Show overlay after selecting address
     setShowLotOverlay(true);
-  }, [fetchParcelData, saveLot, setShowLotOverlay]);
+  }, [fetchParcelData, saveLot, setShowLotOverlay, geoProvider]);
 
   // Calculate zoom focus point - always zoom centered on the ADU (accounting for offset when lot is loaded)
   const zoomFocusPoint = useMemo(() => {
@@ -615,6 +916,98 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     return area / (pixelsPerFoot * pixelsPerFoot);
   }, [pixelsPerFoot]);
 
+  // Wall graph derived from room edges (shared with the 3D viewer)
+  const walls = useMemo(() => buildWallGraph(rooms), [rooms]);
+
+  // Glazing vs. floor area per room, oriented by the lot's true north
+  const northRotation = (lot?.geoRotation ?? 0) - (lot?.aduRotation ?? 0);
+  const daylight = useMemo(
+    () => analyzeDaylight({ rooms, windows, pixelsPerFoot, northRotation }),
+    [rooms, windows, pixelsPerFoot, northRotation]
+  );
+  // The exports report every level
+  const exportDaylight = useMemo(
+    () => showExportDialog ? analyzeBuildingDaylight({ levels: buildingLevels, pixelsPerFoot, northRotation }) : null,
+    [showExportDialog, buildingLevels, pixelsPerFoot, northRotation]
+  );
+
+  // Zoning profile for the lot's jurisdiction (an explicit choice wins over the address)
+  const zoningProfile = useMemo(() => {
+    if (lot?.zoningProfileId) return getZoningProfile(lot.zoningProfileId);
+    return lot ? resolveZoningProfile({ city: lot.city, displayName: lot.address }) : getZoningProfile();
+  }, [lot]);
+
+  // ADU limits for this plan on this lot (size follows the bedroom count and lot area)
+  const aduLimits = useMemo(() => {
+    const allRooms = [...levelData.ground.rooms, ...levelData.levels.flatMap(l => l.rooms)];
+    const hasSecondStory = levelData.levels.some(l => l.id === "second" && l.rooms.length > 0);
+    return getAduLimits(zoningProfile, {
+      bedrooms: allRooms.filter(r => r.type === "bedroom").length,
+      stories: hasSecondStory ? 2 : 1,
+      lotAreaSqFt: lot?.lotAreaSqFt,
+    });
+  }, [zoningProfile, levelData, lot?.lotAreaSqFt]);
+
+  const handleChangeGeoProvider = useCallback((id: string) => {
+    updateGeoProvider(id).catch((err) => {
+      console.error("[FloorPlanEditor] Error changing geo provider:", err);
+    });
+  }, [updateGeoProvider]);
+
+  const handleChangeZoningProfile = useCallback((id: string) => {
+    const profile = getZoningProfile(id);
+    updateZoningProfile(profile.id, {
+      front: profile.setbacks.front,
+      back: profile.setbacks.rear,
+      left: profile.setbacks.side,
+      right: profile.setbacks.side,
+    }).catch((err) => {
+      console.error("[FloorPlanEditor] Error changing zoning profile:", err);
+    });
+  }, [updateZoningProfile]);
+
+  // Live code-compliance check of the whole plan, every level
+  const compliance = useCompliance(
+    { ...levelData.ground, levels: levelData.levels, aduBoundary, pixelsPerFoot, lotAreaSqFt: lot?.lotAreaSqFt },
+    zoningRuleSetId(zoningProfile)
+  );
+
+  // Snap a door/window onto the nearest wall (within 2 ft), aligning rotation and recording its wall/room
+  const snapOpening = useCallback(<T extends FloorPlan["doors"][number] | FloorPlan["windows"][number]>(opening: T): T => {
+    const snap = snapOpeningToWall(
+      { position: opening.position, rotation: opening.rotation, width: opening.width * pixelsPerFoot },
+      walls,
+      pixelsPerFoot * 2
+    );
+    if (!snap) {
+      return { ...opening, wallId: undefined, roomId: undefined, roomIds: undefined };
+    }
+    return { ...opening, ...snap };
+  }, [walls, pixelsPerFoot]);
+
+  // Move doors/windows attached to a room after it is moved, resized or vertex-edited.
+  // Openings on a wall shared with another room stay put; re-reading the wall graph then
+  // drops the moved room from them if it no longer borders that wall.
+  const moveAttachedOpenings = useCallback((previousRoom: FloorPlan["rooms"][number], nextRooms: FloorPlan["rooms"]) => {
+    const nextRoom = nextRooms.find(r => r.id === previousRoom.id);
+    if (!nextRoom) return;
+    const nextWalls = buildWallGraph(nextRooms);
+    const refreshWall = <T extends FloorPlan["doors"][number] | FloorPlan["windows"][number]>(opening: T): T => {
+      const previousRoomIds = openingRoomIds(opening);
+      if (!previousRoomIds.includes(nextRoom.id)) return opening;
+      const wall = findNearestWall(opening.position, nextWalls, 1)?.wall;
+      const roomIds = wall?.roomIds ?? previousRoomIds;
+      return {
+        ...opening,
+        wallId: wall?.id,
+        roomIds,
+        roomId: opening.roomId && roomIds.includes(opening.roomId) ? opening.roomId : roomIds[0],
+      };
+    };
+    setDoors(prev => moveOpeningsWithRoom(prev, previousRoom, nextRoom).map(refreshWall));
+    setWindows(prev => moveOpeningsWithRoom(prev, previousRoom, nextRoom).map(refreshWall));
+  }, []);
+
   // Add furniture handler
   const handleAddFurniture = useCallback((type: FurnitureType, position: Point) => {
     const furnitureConfig = FURNITURE_CONFIG[type];
@@ -628,41 +1021,264 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     };
     setFurniture(prev => [...prev, newFurniture]);
     setSelectedFurnitureId(newFurniture.id);
-    logCreate("furniture", newFurniture.id, { type, position });
+    logCreate("furniture", newFurniture.id, { ...newFurniture });
   }, [logCreate]);
 
   // Add door handler
   const handleAddDoor = useCallback((position: Point, doorType: DoorType) => {
     const doorWidth = DOOR_CONFIGS[doorType].width;
-    const newDoor = {
+    const newDoor = snapOpening<FloorPlan["doors"][number]>({
       id: crypto.randomUUID(),
       type: doorType,
       position,
       rotation: 0,
       width: doorWidth,
-    };
+    });
     setDoors(prev => [...prev, newDoor]);
-    logCreate("door", newDoor.id, { type: doorType, position });
-  }, [logCreate]);
+    logCreate("door", newDoor.id, { ...newDoor });
+  }, [logCreate, snapOpening]);
 
   // Add window handler
   const handleAddWindow = useCallback((position: Point, windowType: WindowType) => {
     const windowConfig = WINDOW_CONFIGS[windowType];
-    const newWindow = {
+    const newWindow = snapOpening<FloorPlan["windows"][number]>({
       id: crypto.randomUUID(),
       type: windowType,
       position,
       rotation: 0,
       width: windowConfig.width,
       height: windowConfig.height,
-    };
+    });
     setWindows(prev => [...prev, newWindow]);
-    logCreate("window", newWindow.id, { type: windowType, position });
+    logCreate("window", newWindow.id, { ...newWindow });
+  }, [logCreate, snapOpening]);
+
+  // Replace the current plan with a fresh copy of a template
+  const handleApplyTemplate = useCallback((template: ADUTemplate) => {
+    const plan = instantiateTemplate(template, config);
+    // Attach template openings to the walls of the new rooms
+    const templateWalls = buildWallGraph(plan.rooms);
+    const attach = <T extends FloorPlan["doors"][number] | FloorPlan["windows"][number]>(opening: T): T => {
+      const snap = snapOpeningToWall(
+        { position: opening.position, rotation: opening.rotation, width: opening.width * pixelsPerFoot },
+        templateWalls,
+        1
+      );
+      return snap ? { ...opening, wallId: snap.wallId, roomId: opening.roomId ?? snap.roomId, roomIds: snap.roomIds } : opening;
+    };
+    const planDoors = plan.doors.map(attach);
+    const planWindows = plan.windows.map(attach);
+    // Log what the template replaces, then what it adds, so replay ends up with the template's plan
+    rooms.forEach(room => logDelete("room", room.id, { ...room }));
+    doors.forEach(door => logDelete("door", door.id, { ...door }));
+    windows.forEach(w => logDelete("window", w.id, { ...w }));
+    furniture.forEach(f => logDelete("furniture", f.id, { ...f }));
+    setRooms(plan.rooms);
+    setDoors(planDoors);
+    setWindows(planWindows);
+    setFurniture(plan.furniture);
+    setAduBoundary(plan.aduBoundary);
+    setRoomDescriptions(new Map(
+      plan.rooms.filter(r => r.description).map(r => [r.id, r.description as string])
+    ));
+    setSelectedRoomId(null);
+    setSelectedDoorId(null);
+    setSelectedWindowId(null);
+    setSelectedFurnitureId(null);
+    plan.rooms.forEach(room => logCreate("room", room.id, { ...room, template: template.id }));
+    planDoors.forEach(door => logCreate("door", door.id, { ...door }));
+    planWindows.forEach(w => logCreate("window", w.id, { ...w }));
+    plan.furniture.forEach(f => logCreate("furniture", f.id, { ...f }));
+  }, [config, pixelsPerFoot, rooms, doors, windows, furniture, logCreate, logDelete]);
+
+  // Applying a template replaces the level being edited, so ask first when it has anything on it
+  const [pendingTemplate, setPendingTemplate] = useState<ADUTemplate | null>(null);
+  const handleSelectTemplate = useCallback((template: ADUTemplate) => {
+    if (rooms.length + doors.length + windows.length + furniture.length === 0) {
+      handleApplyTemplate(template);
+    } else {
+      setPendingTemplate(template);
+    }
+  }, [rooms.length, doors.length, windows.length, furniture.length, handleApplyTemplate]);
+
+  // Add rooms traced from an imported DXF/SVG plan
+  const handleImportPlan = useCallback((result: { rooms: Room[]; underlay: ReferenceUnderlayShape[] }) => {
+    setRooms(prev => [...prev, ...result.rooms]);
+    setReferenceUnderlay(result.underlay);
+    result.rooms.forEach(room => logCreate("room", room.id, { ...room, source: "import" }));
   }, [logCreate]);
 
-  // ADU transform for coordinate conversion when lot is loaded with rotation
-  const aduTransform = useMemo(() => {
-    if (!lot || !showLotOverlay) return undefined;
+  // The level being edited, as the "current plan" side of the version compare view
+  const compareCurrentPlan = useMemo<ComparePlan>(
+    () => ({ rooms, doors, windows, furniture, aduBoundary }),
+    [rooms, doors, windows, furniture, aduBoundary]
+  );
+
+  // Bring one entity back from an older version
+  const handleCherryPick = useCallback((plan: ComparePlan, entry: EntityDiff) => {
+    setRooms(plan.rooms);
+    setDoors(plan.doors);
+    setWindows(plan.windows);
+    setFurniture(plan.furniture);
+    if (entry.status === "removed" && entry.before) {
+      logCreate(entry.kind, entry.before.id, { ...entry.before, source: "version-compare" });
+    }
+  }, [logCreate]);
+
+  // The active alternative with every level, for the alternatives comparison sheet
+  const alternativeCurrentPlan = useMemo<AlternativePlan>(() => ({
+    ...levelData.ground,
+    aduBoundary,
+    ceilingHeight: levelData.ceilingHeight,
+    levels: levelData.levels,
+    stairs,
+  }), [levelData, aduBoundary, stairs]);
+
+  // Leave the current alternative (its plan is kept on it) and load another one's plan and lot placement
+  const handleSwitchAlternative = useCallback(async (id: string) => {
+    const target = switchAlternative(id, createSnapshotData());
+    if (!target) return;
+    // Restoring the plan's lot now would still write to the lot of the alternative being left
+    const targetBlueprintId = latestBlueprintId(target);
+    if (targetBlueprintId && targetBlueprintId !== blueprintId) {
+      pendingLotLineageRef.current = target.blueprintIds;
+    }
+    if (target.working) {
+      await handleRestoreSnapshot({ ...target.working, lotData: undefined });
+    }
+  }, [switchAlternative, createSnapshotData, handleRestoreSnapshot, blueprintId]);
+
+  const handleCreateAlternative = useCallback(async (name: string, mode: "duplicate" | "blank") => {
+    const alternative = addAlternative(name, createSnapshotData(), mode);
+    // A duplicate already matches the editor; a blank one clears the plan
+    if (mode === "blank" && alternative.working) {
+      await handleRestoreSnapshot({ ...alternative.working, lotData: undefined });
+    }
+  }, [addAlternative, createSnapshotData, handleRestoreSnapshot]);
+
+  // Switch the level being edited - the current level is parked in useLevels
+  const handleSwitchLevel = useCallback((id: LevelId) => {
+    const next = switchLevel(id, { rooms, doors, windows, furniture });
+    if (!next) return;
+    setRooms(next.rooms);
+    setDoors(next.doors);
+    setWindows(next.windows);
+    setFurniture(next.furniture);
+    setSelectedRoomId(null);
+    setSelectedDoorId(null);
+    setSelectedWindowId(null);
+    setSelectedFurnitureId(null);
+    setSelectedRoomIds(new Set());
+    setSelectedDoorIds(new Set());
+    setSelectedWindowIds(new Set());
+    setSelectedFurnitureIds(new Set());
+    setSelectedStairId(null);
+    setSelectedDeviceId(null);
+  }, [switchLevel, rooms, doors, windows, furniture]);
+
+  // Select the entity an issue points at (rooms, doors, windows, furniture) or open boundary editing,
+  // switching to the entity's level first
+  const handleSelectComplianceIssue = useCallback((issue: ComplianceIssue) => {
+    if (issue.levelId && issue.levelId !== activeLevelId) handleSwitchLevel(issue.levelId);
+    setPlacementMode("select");
+    setSelectedRoomIds(new Set());
+    setSelectedDoorIds(new Set());
+    setSelectedWindowIds(new Set());
+    setSelectedFurnitureIds(new Set());
+    setSelectedRoomId(issue.entityType === "room" ? issue.entityId ?? null : null);
+    setSelectedDoorId(issue.entityType === "door" ? issue.entityId ?? null : null);
+    setSelectedWindowId(issue.entityType === "window" ? issue.entityId ?? null : null);
+    setSelectedFurnitureId(issue.entityType === "furniture" ? issue.entityId ?? null : null);
+    if (issue.entityType === "boundary") setEditBoundaryMode(true);
+  }, [activeLevelId, handleSwitchLevel]);
+
+  // New stairs start in the middle of the ADU, aligned to the grid
+  const handleAddStair = useCallback(() => {
+    const stair = addStair({ x: snapToGrid(aduCenter.x), y: snapToGrid(aduCenter.y) });
+    if (stair) setSelectedStairId(stair.id);
+  }, [addStair, aduCenter, snapToGrid]);
+
+  const handleRotateStair = useCallback((id: string) => {
+    const stair = stairs.find(s => s.id === id);
+    if (stair) updateStair(id, { rotation: (stair.rotation + 90) % 360 });
+  }, [stairs, updateStair]);
+
+  const handleRemoveStair = useCallback((id: string) => {
+    removeStair(id);
+    setSelectedStairId(prev => (prev === id ? null : prev));
+  }, [removeStair]);
+
+  // Removing a level also drops its electrical devices
+  const handleRemoveLevel = useCallback((id: LevelId) => {
+    if (removeLevel(id)) removeLevelDevices(id);
+  }, [removeLevel, removeLevelDevices]);
+
+  // Electrical devices are dropped on the active level; wall devices start facing up
+  const handleAddElectricalDevice = useCallback((type: ElectricalDeviceType, position: Point) => {
+    const device = addElectricalDevice(type, position, activeLevelId);
+    setSelectedDeviceId(device.id);
+  }, [addElectricalDevice, activeLevelId]);
+
+  const handleRotateDevice = useCallback((id: string) => {
+    const device = electricalDevices.find(d => d.id === id);
+    if (device) updateElectricalDevice(id, { rotation: (device.rotation + 90) % 360 });
+  }, [electricalDevices, updateElectricalDevice]);
+
+  const handleRemoveDevice = useCallback((id: string) => {
+    removeElectricalDevice(id);
+    setSelectedDeviceId(prev => (prev === id ? null : prev));
+  }, [removeElectricalDevice]);
+
+  // Receptacles still needed on the active level to meet the wall spacing rule
+  const receptacleSuggestions = useMemo(
+    () => placementMode === "electrical"
+      ? suggestReceptacles({ rooms, doors, devices: activeDevices, pixelsPerFoot: config.pixelsPerFoot })
+      : [],
+    [placementMode, rooms, doors, activeDevices, config.pixelsPerFoot]
+  );
+
+  const handleAcceptSuggestions = useCallback(() => {
+    addElectricalDevices(receptacleSuggestions.map(({ type, position, rotation }) => ({
+      type,
+      position,
+      rotation,
+      level: activeLevelId,
+    })));
+  }, [addElectricalDevices, receptacleSuggestions, activeLevelId]);
+
+  // Save the current plan as a reusable custom template
+  const handleSaveAsTemplate = useCallback((details: { name: string; description?: string }) => {
+    const roomsWithDescriptions = rooms.map(room => ({
+      ...room,
+      description: room.type === "other" ? roomDescriptions.get(room.id) : undefined,
+    }));
+    const template = createTemplateFromPlan(
+      { rooms: roomsWithDescriptions, doors, windows, furniture, aduBoundary },
+      details,
+      pixelsPerFoot
+    );
+    saveCustomTemplate(template);
+  }, [rooms, roomDescriptions, doors, windows, furniture, aduBoundary, pixelsPerFoot, saveCustomTemplate]);
+
+  // Offer the template gallery when the editor opens on a brand-new project
+  const hasPromptedTemplatesRef = useRef(false);
+  useEffect(() => {
+    if (hasPromptedTemplatesRef.current) return;
+    hasPromptedTemplatesRef.current = true;
+    // Use setTimeout so the wizard context has restored any saved project first
+    const timeoutId = setTimeout(() => {
+      const hasSavedProject = !!localStorage.getItem("aduvisualizer:blueprintId")
+        || !!localStorage.getItem(STORAGE_KEYS.FLOOR_PLAN);
+      if (!hasSavedProject) {
+        setShowTemplateGallery(true);
+      }
+    }, 0);
+    return () => clearTimeout(timeoutId);
+  }, []);
+
+  // ADU placement on the lot (follows the position sliders live while they are dragged)
+  const aduPlacement = useMemo(() => {
+    if (!lot) return undefined;
     return {
       offsetX: previewOffsetX ?? lot.aduOffsetX ?? 0,
       offsetY: previewOffsetY ?? lot.aduOffsetY ?? 0,
@@ -670,7 +1286,261 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       canvasCenter,
       pixelsPerFoot,
     };
-  }, [lot, showLotOverlay, canvasCenter, pixelsPerFoot, previewOffsetX, previewOffsetY, previewRotation]);
+  }, [lot, canvasCenter, pixelsPerFoot, previewOffsetX, previewOffsetY, previewRotation]);
+
+  // ADU transform for coordinate conversion when lot is loaded with rotation
+  const aduTransform = showLotOverlay ? aduPlacement : undefined;
+
+  // Sewer lateral connection in plan coordinates (stored on the lot in feet from the lot center)
+  const sewerConnection = useMemo(() => {
+    if (!lot?.sewerConnection || !aduPlacement) return null;
+    return worldToAduLocal({
+      x: canvasCenter.x + lot.sewerConnection.x * pixelsPerFoot,
+      y: canvasCenter.y + lot.sewerConnection.y * pixelsPerFoot,
+    }, aduPlacement);
+  }, [lot?.sewerConnection, aduPlacement, canvasCenter, pixelsPerFoot]);
+
+  const handleSewerConnectionChange = useCallback((position: Point | null) => {
+    setIsPlacingSewerConnection(false);
+    if (!aduPlacement) return;
+    const world = position ? aduLocalToWorld(position, aduPlacement) : null;
+    updateSewerConnection(world && {
+      x: Math.round(((world.x - canvasCenter.x) / pixelsPerFoot) * 10) / 10,
+      y: Math.round(((world.y - canvasCenter.y) / pixelsPerFoot) * 10) / 10,
+    }).catch((err) => {
+      console.error("[FloorPlanEditor] Failed to save sewer connection:", err);
+    });
+  }, [aduPlacement, canvasCenter, pixelsPerFoot, updateSewerConnection]);
+
+  // Live co-editing - everyone on the same project alternative edits one shared plan
+  const [collabEnabled, setCollabEnabled] = useState(false);
+  const [collabName, setCollabName] = useState("");
+
+  useEffect(() => {
+    const loadCollabName = () => {
+      try {
+        const saved = localStorage.getItem(STORAGE_KEYS.COLLAB_NAME);
+        setCollabName(saved || `Guest ${Math.floor(1000 + Math.random() * 9000)}`);
+      } catch (error) {
+        console.error("[Collab] Error loading name from localStorage:", error);
+      }
+    };
+    loadCollabName();
+  }, []);
+
+  const handleCollabNameChange = useCallback((name: string) => {
+    setCollabName(name);
+    try {
+      localStorage.setItem(STORAGE_KEYS.COLLAB_NAME, name);
+    } catch (error) {
+      console.error("[Collab] Error saving name to localStorage:", error);
+    }
+  }, []);
+
+  const collabPlan = useMemo<CollabPlan>(
+    () => ({ rooms, doors, windows, furniture, aduBoundary }),
+    [rooms, doors, windows, furniture, aduBoundary]
+  );
+
+  const collabSelection = useMemo(() => {
+    const refs = (entityType: CollabEntityType, ids: Iterable<string>, id: string | null) =>
+      [...new Set([...ids, ...(id ? [id] : [])])].map(entityId => ({ entityType, entityId }));
+    const selection: CollabEntityRef[] = [
+      ...refs("room", selectedRoomIds, selectedRoomId),
+      ...refs("door", selectedDoorIds, selectedDoorId),
+      ...refs("window", selectedWindowIds, selectedWindowId),
+      ...refs("furniture", selectedFurnitureIds, selectedFurnitureId),
+    ];
+    if (editBoundaryMode) selection.push({ entityType: "boundary", entityId: BOUNDARY_ID });
+    return selection;
+  }, [selectedRoomIds, selectedRoomId, selectedDoorIds, selectedDoorId, selectedWindowIds, selectedWindowId, selectedFurnitureIds, selectedFurnitureId, editBoundaryMode]);
+
+  // Collaborators' edits not yet carried into the undo history
+  const remoteOpsRef = useRef<CollabOpDraft[]>([]);
+
+  const handleRemotePlan = useCallback((plan: CollabPlan) => {
+    remoteOpsRef.current.push(...diffPlanOps(collabPlan, plan, activeLevelId));
+    setRooms(plan.rooms);
+    setDoors(plan.doors);
+    setWindows(plan.windows);
+    setFurniture(plan.furniture);
+    setAduBoundary(plan.aduBoundary);
+  }, [collabPlan, activeLevelId]);
+
+  const {
+    status: collabStatus,
+    clientId: collabClientId,
+    peers: collabPeers,
+    locks: collabLocks,
+    updateCursor: updateCollabCursor,
+    setDragging: setCollabDragging,
+  } = useCollaboration({
+    room: projectId ? `${projectId}:${activeAlternativeId ?? "default"}` : null,
+    enabled: collabEnabled,
+    name: collabName.trim() || "Guest",
+    levelId: activeLevelId,
+    plan: collabPlan,
+    selection: collabSelection,
+    onRemotePlan: handleRemotePlan,
+  });
+
+  // Entities someone else is dragging right now can't be picked up
+  const collabLockedIds = useMemo(() => {
+    const ids = (entityType: CollabEntityType) =>
+      new Set(lockedByOthers(collabLocks, collabPeers, collabClientId, entityType).keys());
+    return { room: ids("room"), door: ids("door"), window: ids("window"), furniture: ids("furniture"), boundary: ids("boundary") };
+  }, [collabLocks, collabPeers, collabClientId]);
+
+  const handleCollabDragLock = useCallback(
+    (entityType: CollabEntityType) => (entityId: string, dragging: boolean) =>
+      setCollabDragging({ entityType, entityId }, dragging),
+    [setCollabDragging]
+  );
+
+  const levelNames = useMemo(() => Object.fromEntries(levels.map(l => [l.id, l.name])), [levels]);
+
+  // Fixture units, wet walls and run lengths across every level
+  const plumbingReport = useMemo(
+    () => placementMode === "plumbing" || showExportDialog
+      ? analyzePlumbing({
+        ...levelData.ground,
+        pixelsPerFoot: config.pixelsPerFoot,
+        ceilingHeight: levelData.ceilingHeight,
+        levels: levelData.levels,
+        sewerConnection,
+      })
+      : null,
+    [placementMode, showExportDialog, levelData, config.pixelsPerFoot, sewerConnection]
+  );
+
+  // Cost summary for the exports, covering every level
+  const costEstimate = useMemo(() => {
+    if (!showExportDialog) return null;
+    const estimate = estimateCost(
+      {
+        ...levelData.ground,
+        pixelsPerFoot: config.pixelsPerFoot,
+        ceilingHeight: levelData.ceilingHeight,
+        levels: levelData.levels,
+        stairs,
+        sewerConnection,
+      },
+      { globalTier: exportFinishes?.globalTier, roomFinishes: exportFinishes?.roomFinishes },
+      costSettings
+    );
+    return summarizeEstimate(estimate, costSettings);
+  }, [showExportDialog, levelData, config.pixelsPerFoot, stairs, sewerConnection, exportFinishes, costSettings]);
+
+  // Lot, setback and placed ADU outlines in lot canvas pixels
+  const lotPlacement = useMemo(() => {
+    if (!lot || !aduPlacement) return null;
+    const lotBoundary = getLotBoundaryPixels(lot, pixelsPerFoot, canvasCenter);
+    return {
+      lotBoundary,
+      setbackBoundary: getSetbackBoundaryPixels(lot, lotBoundary, pixelsPerFoot),
+      aduWorldBoundary: aduBoundary.map(p => aduLocalToWorld(p, aduPlacement)),
+    };
+  }, [lot, aduPlacement, aduBoundary, pixelsPerFoot, canvasCenter]);
+
+  // Setback and structure separation check for the current ADU placement
+  const aduFit = useMemo(() => {
+    if (!lot || !lotPlacement) return null;
+    return checkAduFit(
+      lotPlacement.aduWorldBoundary,
+      lotPlacement.setbackBoundary,
+      lot.existingStructures ?? [],
+      pixelsPerFoot,
+      canvasCenter
+    );
+  }, [lot, lotPlacement, pixelsPerFoot, canvasCenter]);
+
+  // Lot coverage and FAR with the ADU where it is placed now
+  const lotCoverage = useMemo(() => {
+    if (!lot || !lotPlacement) return null;
+    const upperFloorArea = levelData.levels.flatMap(l => l.rooms).reduce((sum, room) => sum + room.area, 0);
+    return calculateLotCoverage({
+      lotAreaSqFt: lot.lotAreaSqFt,
+      ...lotPlacement,
+      aduFloorAreaSqFt: calculatePolygonArea(aduBoundary) + upperFloorArea,
+      structures: lot.existingStructures ?? [],
+      pixelsPerFoot,
+      canvasCenter,
+      maxLotCoverage: aduLimits.maxLotCoverage,
+      maxFloorAreaRatio: aduLimits.maxFloorAreaRatio,
+    });
+  }, [lot, lotPlacement, levelData, aduBoundary, calculatePolygonArea, pixelsPerFoot, canvasCenter, aduLimits]);
+
+  const existingStructures = useMemo(() => lot?.existingStructures ?? [], [lot?.existingStructures]);
+
+  const handleAddStructure = useCallback((type: ExistingStructureType) => {
+    const structure = createExistingStructure(type);
+    updateExistingStructures([...existingStructures, structure]).catch((err) => {
+      console.error("[FloorPlanEditor] Error adding structure:", err);
+    });
+    setSelectedStructureId(structure.id);
+    setIsEditingStructures(true);
+  }, [existingStructures, updateExistingStructures]);
+
+  const handleUpdateStructure = useCallback((id: string, updates: Partial<Omit<ExistingStructure, "id">>) => {
+    updateExistingStructures(existingStructures.map(s => (s.id === id ? { ...s, ...updates } : s))).catch((err) => {
+      console.error("[FloorPlanEditor] Error updating structure:", err);
+    });
+  }, [existingStructures, updateExistingStructures]);
+
+  const handleRemoveStructure = useCallback((id: string) => {
+    updateExistingStructures(existingStructures.filter(s => s.id !== id)).catch((err) => {
+      console.error("[FloorPlanEditor] Error removing structure:", err);
+    });
+    setSelectedStructureId(prev => (prev === id ? null : prev));
+  }, [existingStructures, updateExistingStructures]);
+
+  // Auto-fit: ranked placements for the ADU outline and structures they were searched with
+  const [placementSearch, setPlacementSearch] = useState<{
+    aduBoundary: Point[];
+    structures: ExistingStructure[];
+    candidates: AduPlacementCandidate[];
+  } | null>(null);
+  const [activeCandidateIndex, setActiveCandidateIndex] = useState<number | null>(null);
+
+  // Suggestions go stale once the ADU outline or the structures change
+  const placementCandidates = placementSearch &&
+    placementSearch.aduBoundary === aduBoundary &&
+    placementSearch.structures === existingStructures
+    ? placementSearch.candidates
+    : null;
+
+  const handleAutoFit = useCallback(() => {
+    if (!lotPlacement) return;
+    const candidates = findAduPlacements({
+      aduBoundary,
+      lotBoundary: lotPlacement.lotBoundary,
+      setbackBoundary: lotPlacement.setbackBoundary,
+      structures: existingStructures,
+      pixelsPerFoot,
+      canvasCenter,
+    });
+    setPlacementSearch({ aduBoundary, structures: existingStructures, candidates });
+    setActiveCandidateIndex(candidates.length > 0 ? 0 : null);
+    setShowLotOverlay(true);
+  }, [lotPlacement, aduBoundary, existingStructures, pixelsPerFoot, canvasCenter, setShowLotOverlay]);
+
+  const handleApplyCandidate = useCallback((index: number) => {
+    const candidate = placementCandidates?.[index];
+    if (!candidate) return;
+    setPreviewOffsetX(null);
+    setPreviewOffsetY(null);
+    setPreviewRotation(null);
+    handleUpdateAduPosition(candidate.offsetX, candidate.offsetY, candidate.rotation).catch((err) => {
+      console.error("[FloorPlanEditor] Error applying placement:", err);
+    });
+    setPlacementSearch(null);
+    setActiveCandidateIndex(null);
+  }, [placementCandidates, handleUpdateAduPosition]);
+
+  const handleClearCandidates = useCallback(() => {
+    setPlacementSearch(null);
+    setActiveCandidateIndex(null);
+  }, []);
 
   // Drag and drop
   const {
@@ -686,6 +1556,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     onPlaceFurniture: handleAddFurniture,
     onPlaceDoor: handleAddDoor,
     onPlaceWindow: handleAddWindow,
+    onPlaceElectrical: handleAddElectricalDevice,
   });
 
   // Drawing
@@ -720,6 +1591,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     windows: typeof windows;
     furniture: FurnitureItem[];
     aduBoundary: Point[];
+    levelId: LevelId; // history never crosses a level switch
   }
   const [history, setHistory] = useState<HistoryState[]>([]);
   const [historyIndex, setHistoryIndex] = useState(-1);
@@ -731,25 +1603,48 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
   const saveToHistory = useCallback(() => {
     if (isUndoingOrRedoing.current) return;
 
+    // Collaborators' edits go into every version of the level rather than becoming
+    // an undo step, so undo only ever reverts our own edits
+    const remoteOps = remoteOpsRef.current;
+    remoteOpsRef.current = [];
+    const baseHistory = remoteOps.length === 0
+      ? history
+      : history.map(entry => ({ ...entry, ...applyPlanOps(entry, remoteOps, entry.levelId) }));
+
     const newState: HistoryState = {
       rooms: JSON.parse(JSON.stringify(rooms)),
       doors: JSON.parse(JSON.stringify(doors)),
       windows: JSON.parse(JSON.stringify(windows)),
       furniture: JSON.parse(JSON.stringify(furniture)),
       aduBoundary: JSON.parse(JSON.stringify(aduBoundary)),
+      levelId: activeLevelId,
     };
 
-    // Skip if state is identical to the last history entry (prevents duplicate entries)
-    if (historyIndex >= 0 && history[historyIndex]) {
-      const lastState = history[historyIndex];
-      const newStateStr = JSON.stringify(newState);
-      const lastStateStr = JSON.stringify(lastState);
-      if (newStateStr === lastStateStr) {
+    // Start a fresh history after switching levels (or restoring a snapshot)
+    if (historyIndex >= 0 && history[historyIndex] && history[historyIndex].levelId !== activeLevelId) {
+      setHistory([newState]);
+      setHistoryIndex(0);
+      return;
+    }
+
+    // Skip if state is identical to the last history entry (prevents duplicate entries).
+    // Entities are compared by id, as remote edits can come back in a different order.
+    if (historyIndex >= 0 && baseHistory[historyIndex]) {
+      const lastState = baseHistory[historyIndex];
+      const sortedStr = (state: HistoryState) => JSON.stringify({
+        ...state,
+        rooms: [...state.rooms].sort((a, b) => a.id.localeCompare(b.id)),
+        doors: [...state.doors].sort((a, b) => a.id.localeCompare(b.id)),
+        windows: [...state.windows].sort((a, b) => a.id.localeCompare(b.id)),
+        furniture: [...state.furniture].sort((a, b) => a.id.localeCompare(b.id)),
+      });
+      if (sortedStr(newState) === sortedStr(lastState)) {
+        if (remoteOps.length > 0) setHistory(baseHistory.map((entry, i) => (i === historyIndex ? newState : entry)));
         return; // State hasn't changed, skip saving
       }
     }
 
-    const newHistory = history.slice(0, historyIndex + 1);
+    const newHistory = baseHistory.slice(0, historyIndex + 1);
     newHistory.push(newState);
 
     if (newHistory.length > MAX_HISTORY) {
@@ -758,11 +1653,11 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
 
     setHistory(newHistory);
     setHistoryIndex(newHistory.length - 1);
-  }, [rooms, doors, windows, furniture, aduBoundary, history, historyIndex]);
+  }, [rooms, doors, windows, furniture, aduBoundary, activeLevelId, history, historyIndex]);
 
   // Undo
   const undo = useCallback(() => {
-    if (historyIndex > 0) {
+    if (historyIndex > 0 && history[historyIndex - 1].levelId === activeLevelId) {
       isUndoingOrRedoing.current = true;
       const previousState = history[historyIndex - 1];
       setRooms(JSON.parse(JSON.stringify(previousState.rooms)));
@@ -777,11 +1672,11 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       setSelectedFurnitureId(null);
       setTimeout(() => { isUndoingOrRedoing.current = false; }, 100);
     }
-  }, [historyIndex, history]);
+  }, [historyIndex, history, activeLevelId]);
 
   // Redo
   const redo = useCallback(() => {
-    if (historyIndex < history.length - 1) {
+    if (historyIndex < history.length - 1 && history[historyIndex + 1].levelId === activeLevelId) {
       isUndoingOrRedoing.current = true;
       const nextState = history[historyIndex + 1];
       setRooms(JSON.parse(JSON.stringify(nextState.rooms)));
@@ -796,7 +1691,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       setSelectedFurnitureId(null);
       setTimeout(() => { isUndoingOrRedoing.current = false; }, 100);
     }
-  }, [historyIndex, history]);
+  }, [historyIndex, history, activeLevelId]);
 
   // Initialize history on mount
   useEffect(() => {
@@ -815,6 +1710,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
             { x: defaultOffset + defaultBoundarySize, y: defaultOffset + defaultBoundarySize },
             { x: defaultOffset, y: defaultOffset + defaultBoundarySize },
           ],
+          levelId: "ground",
         };
         setHistory([initialState]);
         setHistoryIndex(0);
@@ -829,8 +1725,8 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     return () => clearTimeout(timeoutId);
   }, [rooms, doors, windows, furniture, aduBoundary, saveToHistory]);
 
-  // Calculate total area
-  const totalArea = rooms.reduce((sum, room) => sum + room.area, 0);
+  // Calculate total area (every level)
+  const totalArea = buildingRooms.reduce((sum, room) => sum + room.area, 0);
 
   // Attach transformer to selected room
   useEffect(() => {
@@ -884,25 +1780,47 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
 
 
   // Update parent with floor plan (including room descriptions for "other" type)
+  // The top-level fields are the ground level; other levels are listed alongside it
   useEffect(() => {
-    const roomsWithDescriptions = rooms.map(room => ({
+    const withDescriptions = (levelRooms: Room[]) => levelRooms.map(room => ({
       ...room,
       description: room.type === "other" ? roomDescriptions.get(room.id) : undefined,
     }));
+    const groundRooms = withDescriptions(levelData.ground.rooms);
 
     const floorPlan: FloorPlan = {
       id: crypto.randomUUID(),
-      rooms: roomsWithDescriptions,
-      walls: [],
-      doors,
-      windows,
-      totalArea,
+      rooms: groundRooms,
+      walls: activeLevelId === "ground" ? walls : buildWallGraph(groundRooms),
+      doors: levelData.ground.doors,
+      windows: levelData.ground.windows,
+      totalArea: groundRooms.reduce((sum, room) => sum + room.area, 0),
       gridSize: 1,
       createdAt: new Date().toISOString(),
       updatedAt: new Date().toISOString(),
+      ceilingHeight: levelData.ceilingHeight,
+      ...(levelData.levels.length > 0 && {
+        levels: levelData.levels.map((level): FloorLevel => {
+          const levelRooms = withDescriptions(level.rooms);
+          return {
+            id: level.id,
+            name: level.name,
+            ceilingHeight: level.ceilingHeight,
+            rooms: levelRooms,
+            walls: level.id === activeLevelId ? walls : buildWallGraph(levelRooms),
+            doors: level.doors,
+            windows: level.windows,
+            furniture: level.furniture,
+            totalArea: levelRooms.reduce((sum, room) => sum + room.area, 0),
+          };
+        }),
+        stairs,
+      }),
+      ...(electricalDevices.length > 0 && { electrical: electricalDevices }),
+      ...(sewerConnection && { sewerConnection }),
     };
     onPlanChange(floorPlan);
-  }, [rooms, doors, windows, totalArea, roomDescriptions, onPlanChange]);
+  }, [levelData, activeLevelId, walls, stairs, electricalDevices, sewerConnection, roomDescriptions, onPlanChange]);
 
   // Handle mouse events on canvas
   const handleMouseDown = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
@@ -912,6 +1830,16 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     const isClickCatcher = target.name?.() === "click-catcher";
     const clickedOnEmpty = isStage || isClickCatcher;
 
+    // Placing the sewer connection takes the click wherever it lands
+    if (placementMode === "plumbing" && isPlacingSewerConnection) {
+      const pos = target.getStage()?.getPointerPosition();
+      if (pos) {
+        const canvasPos = { x: (pos.x - panOffset.x) / zoom, y: (pos.y - panOffset.y) / zoom };
+        handleSewerConnectionChange(aduTransform ? worldToAduLocal(canvasPos, aduTransform) : canvasPos);
+      }
+      return;
+    }
+
     if (clickedOnEmpty) {
       // Clear single selections
       setSelectedRoomId(null);
@@ -919,6 +1847,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       setSelectedWindowId(null);
       setSelectedBoundaryPointIndex(null);
       setSelectedFurnitureId(null);
+      setSelectedDeviceId(null);
 
       // Start marquee selection in select mode
       if (placementMode === "select") {
@@ -945,7 +1874,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         drawingMouseDown(e);
       }
     }
-  }, [placementMode, selectedRoomType, drawingMouseDown, zoom, panOffset]);
+  }, [placementMode, selectedRoomType, drawingMouseDown, zoom, panOffset, isPlacingSewerConnection, handleSewerConnectionChange, aduTransform]);
 
   // Handle marquee selection move
   const handleMarqueeMove = useCallback((e: Konva.KonvaEventObject<MouseEvent>) => {
@@ -1165,9 +2094,20 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       }));
     }
 
+    // Log each moved entity where it ended up, as the single-item drags do
+    const movedPosition = (position: Point) => ({ x: snapToGrid(position.x + delta.x), y: snapToGrid(position.y + delta.y) });
+    rooms.filter(r => selectedRoomIds.has(r.id))
+      .forEach(r => logMove("room", r.id, r.vertices[0], movedPosition(r.vertices[0])));
+    doors.filter(d => selectedDoorIds.has(d.id))
+      .forEach(d => logPlacedChange("move", "door", d, { ...d, position: movedPosition(d.position) }));
+    windows.filter(w => selectedWindowIds.has(w.id))
+      .forEach(w => logPlacedChange("move", "window", w, { ...w, position: movedPosition(w.position) }));
+    furniture.filter(f => selectedFurnitureIds.has(f.id))
+      .forEach(f => logPlacedChange("move", "furniture", f, { ...f, position: movedPosition(f.position) }));
+
     isDraggingOrResizing.current = false;
     setTimeout(() => saveToHistory(), 50);
-  }, [selectedRoomIds, selectedDoorIds, selectedWindowIds, selectedFurnitureIds, snapToGrid, saveToHistory]);
+  }, [selectedRoomIds, selectedDoorIds, selectedWindowIds, selectedFurnitureIds, rooms, doors, windows, furniture, snapToGrid, saveToHistory, logMove, logPlacedChange]);
 
   // Handle room drag start
   const handleRoomDragStart = useCallback(() => {
@@ -1188,7 +2128,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       const width = room.vertices[1].x - room.vertices[0].x;
       const height = room.vertices[2].y - room.vertices[0].y;
 
-      setRooms(rooms.map((r) => {
+      const nextRooms = rooms.map((r) => {
         if (r.id === roomId) {
           return {
             ...r,
@@ -1201,7 +2141,9 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
           };
         }
         return r;
-      }));
+      });
+      setRooms(nextRooms);
+      moveAttachedOpenings(room, nextRooms);
 
       node.position({ x, y });
       logMove("room", roomId, previousPosition, { x, y });
@@ -1210,7 +2152,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     // End drag and save history
     isDraggingOrResizing.current = false;
     setTimeout(() => saveToHistory(), 50);
-  }, [rooms, snapToGrid, logMove, saveToHistory]);
+  }, [rooms, snapToGrid, logMove, saveToHistory, moveAttachedOpenings]);
 
   // Handle room transform
   const handleRoomTransform = useCallback((roomId: string, e: Konva.KonvaEventObject<Event>) => {
@@ -1231,7 +2173,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     const heightFeet = newHeight / pixelsPerFoot;
     const area = widthFeet * heightFeet;
 
-    setRooms(rooms.map((r) => {
+    const nextRooms = rooms.map((r) => {
       if (r.id === roomId) {
         return {
           ...r,
@@ -1245,7 +2187,9 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         };
       }
       return r;
-    }));
+    });
+    setRooms(nextRooms);
+    if (room) moveAttachedOpenings(room, nextRooms);
 
     node.scaleX(1);
     node.scaleY(1);
@@ -1258,7 +2202,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     // End resize and save history
     isDraggingOrResizing.current = false;
     setTimeout(() => saveToHistory(), 50);
-  }, [rooms, snapToGrid, pixelsPerFoot, logResize, saveToHistory]);
+  }, [rooms, snapToGrid, pixelsPerFoot, logResize, saveToHistory, moveAttachedOpenings]);
 
   // Handle vertex drag (vertexIndex === -1 means move all vertices by delta)
   const handleVertexDrag = useCallback((roomId: string, vertexIndex: number, newPos: Point) => {
@@ -1269,7 +2213,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     if (vertexIndex === -1) {
       const delta = newPos; // newPos contains the delta {x, y}
       const previousPos = room.vertices[0];
-      setRooms(rooms.map(r => {
+      const nextRooms = rooms.map(r => {
         if (r.id === roomId) {
           const newVertices = r.vertices.map(v => ({
             x: v.x + delta.x,
@@ -1278,7 +2222,9 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
           return { ...r, vertices: newVertices };
         }
         return r;
-      }));
+      });
+      setRooms(nextRooms);
+      moveAttachedOpenings(room, nextRooms);
       logMove("room", roomId, previousPos, { x: previousPos.x + delta.x, y: previousPos.y + delta.y });
       // Save history after polygon move
       isDraggingOrResizing.current = false;
@@ -1288,7 +2234,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
 
     const previousPos = room.vertices[vertexIndex] || { x: 0, y: 0 };
 
-    setRooms(rooms.map(r => {
+    const nextRooms = rooms.map(r => {
       if (r.id === roomId) {
         const newVertices = [...r.vertices];
         newVertices[vertexIndex] = newPos;
@@ -1296,12 +2242,14 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         return { ...r, vertices: newVertices, area: Math.round(newArea) };
       }
       return r;
-    }));
+    });
+    setRooms(nextRooms);
+    moveAttachedOpenings(room, nextRooms);
     logVertexMove(roomId, vertexIndex, previousPos, newPos);
     // Save history after vertex move
     isDraggingOrResizing.current = false;
     setTimeout(() => saveToHistory(), 50);
-  }, [rooms, calculatePolygonArea, logVertexMove, logMove, saveToHistory]);
+  }, [rooms, calculatePolygonArea, logVertexMove, logMove, saveToHistory, moveAttachedOpenings]);
 
   // Handle vertex remove
   const handleVertexRemove = useCallback((roomId: string, vertexIndex: number) => {
@@ -1366,19 +2314,19 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
       // Update local state
       if (roomIds.length > 0) {
         setRooms(rooms.filter(r => !roomIds.includes(r.id)));
-        roomIds.forEach(id => logDelete("room", id, {}));
+        rooms.filter(r => roomIds.includes(r.id)).forEach(r => logDelete("room", r.id, { ...r }));
       }
       if (doorIds.length > 0) {
         setDoors(doors.filter(d => !doorIds.includes(d.id)));
-        doorIds.forEach(id => logDelete("door", id, {}));
+        doors.filter(d => doorIds.includes(d.id)).forEach(d => logDelete("door", d.id, { ...d }));
       }
       if (windowIds.length > 0) {
         setWindows(windows.filter(w => !windowIds.includes(w.id)));
-        windowIds.forEach(id => logDelete("window", id, {}));
+        windows.filter(w => windowIds.includes(w.id)).forEach(w => logDelete("window", w.id, { ...w }));
       }
       if (furnitureIds.length > 0) {
         setFurniture(furniture.filter(f => !furnitureIds.includes(f.id)));
-        furnitureIds.forEach(id => logDelete("furniture", id, {}));
+        furniture.filter(f => furnitureIds.includes(f.id)).forEach(f => logDelete("furniture", f.id, { ...f }));
       }
 
       // Clear selections
@@ -1405,7 +2353,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         if (selectedRoomId === deleteDialog.id) setSelectedRoomId(null);
         selectedRoomIds.delete(deleteDialog.id);
         setSelectedRoomIds(new Set(selectedRoomIds));
-        logDelete("room", deleteDialog.id, {});
+        logDelete("room", deleteDialog.id, { ...rooms.find(r => r.id === deleteDialog.id) });
         break;
       case "door":
         if (blueprintId) api.deleteDoor(deleteDialog.id).catch(console.error);
@@ -1413,7 +2361,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         if (selectedDoorId === deleteDialog.id) setSelectedDoorId(null);
         selectedDoorIds.delete(deleteDialog.id);
         setSelectedDoorIds(new Set(selectedDoorIds));
-        logDelete("door", deleteDialog.id, {});
+        logDelete("door", deleteDialog.id, { ...doors.find(d => d.id === deleteDialog.id) });
         break;
       case "window":
         if (blueprintId) api.deleteWindow(deleteDialog.id).catch(console.error);
@@ -1421,7 +2369,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         if (selectedWindowId === deleteDialog.id) setSelectedWindowId(null);
         selectedWindowIds.delete(deleteDialog.id);
         setSelectedWindowIds(new Set(selectedWindowIds));
-        logDelete("window", deleteDialog.id, {});
+        logDelete("window", deleteDialog.id, { ...windows.find(w => w.id === deleteDialog.id) });
         break;
       case "furniture":
         if (blueprintId) api.deleteFurniture(deleteDialog.id).catch(console.error);
@@ -1429,7 +2377,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         if (selectedFurnitureId === deleteDialog.id) setSelectedFurnitureId(null);
         selectedFurnitureIds.delete(deleteDialog.id);
         setSelectedFurnitureIds(new Set(selectedFurnitureIds));
-        logDelete("furniture", deleteDialog.id, {});
+        logDelete("furniture", deleteDialog.id, { ...furniture.find(f => f.id === deleteDialog.id) });
         break;
     }
     setDeleteDialog({ open: false, type: null, id: null, name: "" });
@@ -1437,69 +2385,75 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
 
   // Rotate handlers - supports both rectangles and polygons
   const rotateSelectedRoom = useCallback(() => {
-    if (!selectedRoomId) return;
-    setRooms(rooms.map((room) => {
-      if (room.id !== selectedRoomId) return room;
-
-      // Calculate centroid
-      const centerX = room.vertices.reduce((sum, v) => sum + v.x, 0) / room.vertices.length;
-      const centerY = room.vertices.reduce((sum, v) => sum + v.y, 0) / room.vertices.length;
-
-      // Rotate all vertices 90 degrees clockwise around centroid
-      const rotatedVertices = room.vertices.map(v => {
-        // Translate to origin
-        const dx = v.x - centerX;
-        const dy = v.y - centerY;
-        // Rotate 90 degrees clockwise: (x, y) -> (y, -x)
-        const rotatedX = dy;
-        const rotatedY = -dx;
-        // Translate back and snap to grid
-        return {
-          x: snapToGrid(centerX + rotatedX),
-          y: snapToGrid(centerY + rotatedY),
-        };
-      });
+    const room = rooms.find(r => r.id === selectedRoomId);
+    if (!room) return;
 
-      // For rectangles, normalize vertex order to: top-left, top-right, bottom-right, bottom-left
-      // This ensures consistent rendering and prevents negative width/height after rotation
-      let newVertices = rotatedVertices;
-      if (room.vertices.length === 4) {
-        const minX = Math.min(...rotatedVertices.map(v => v.x));
-        const minY = Math.min(...rotatedVertices.map(v => v.y));
-        const maxX = Math.max(...rotatedVertices.map(v => v.x));
-        const maxY = Math.max(...rotatedVertices.map(v => v.y));
-        newVertices = [
-          { x: minX, y: minY }, // top-left
-          { x: maxX, y: minY }, // top-right
-          { x: maxX, y: maxY }, // bottom-right
-          { x: minX, y: maxY }, // bottom-left
-        ];
-      }
+    // Calculate centroid
+    const centerX = room.vertices.reduce((sum, v) => sum + v.x, 0) / room.vertices.length;
+    const centerY = room.vertices.reduce((sum, v) => sum + v.y, 0) / room.vertices.length;
+
+    // Rotate all vertices 90 degrees clockwise around centroid
+    const rotatedVertices = room.vertices.map(v => {
+      // Translate to origin
+      const dx = v.x - centerX;
+      const dy = v.y - centerY;
+      // Rotate 90 degrees clockwise: (x, y) -> (y, -x)
+      const rotatedX = dy;
+      const rotatedY = -dx;
+      // Translate back and snap to grid
+      return {
+        x: snapToGrid(centerX + rotatedX),
+        y: snapToGrid(centerY + rotatedY),
+      };
+    });
 
-      return { ...room, vertices: newVertices };
-    }));
-  }, [selectedRoomId, rooms, snapToGrid]);
+    // For rectangles, normalize vertex order to: top-left, top-right, bottom-right, bottom-left
+    // This ensures consistent rendering and prevents negative width/height after rotation
+    let newVertices = rotatedVertices;
+    if (room.vertices.length === 4) {
+      const minX = Math.min(...rotatedVertices.map(v => v.x));
+      const minY = Math.min(...rotatedVertices.map(v => v.y));
+      const maxX = Math.max(...rotatedVertices.map(v => v.x));
+      const maxY = Math.max(...rotatedVertices.map(v => v.y));
+      newVertices = [
+        { x: minX, y: minY }, // top-left
+        { x: maxX, y: minY }, // top-right
+        { x: maxX, y: maxY }, // bottom-right
+        { x: minX, y: maxY }, // bottom-left
+      ];
+    }
+
+    const rotatedRoom = { ...room, vertices: newVertices };
+    setRooms(rooms.map(r => (r.id === rotatedRoom.id ? rotatedRoom : r)));
+    logEditorAction("room.rotate", "room", rotatedRoom.id, {
+      previousState: { ...room },
+      newState: { ...rotatedRoom },
+    });
+  }, [selectedRoomId, rooms, snapToGrid, logEditorAction]);
 
   const rotateSelectedDoor = useCallback(() => {
-    if (!selectedDoorId) return;
-    setDoors(doors.map(d =>
-      d.id === selectedDoorId ? { ...d, rotation: (d.rotation + 90) % 360 } : d
-    ));
-  }, [selectedDoorId, doors]);
+    const door = doors.find(d => d.id === selectedDoorId);
+    if (!door) return;
+    const rotated = { ...door, rotation: (door.rotation + 90) % 360 };
+    setDoors(doors.map(d => (d.id === door.id ? rotated : d)));
+    logPlacedChange("rotate", "door", door, rotated);
+  }, [selectedDoorId, doors, logPlacedChange]);
 
   const rotateSelectedWindow = useCallback(() => {
-    if (!selectedWindowId) return;
-    setWindows(windows.map(w =>
-      w.id === selectedWindowId ? { ...w, rotation: (w.rotation + 90) % 360 } : w
-    ));
-  }, [selectedWindowId, windows]);
+    const win = windows.find(w => w.id === selectedWindowId);
+    if (!win) return;
+    const rotated = { ...win, rotation: (win.rotation + 90) % 360 };
+    setWindows(windows.map(w => (w.id === win.id ? rotated : w)));
+    logPlacedChange("rotate", "window", win, rotated);
+  }, [selectedWindowId, windows, logPlacedChange]);
 
   const rotateSelectedFurniture = useCallback(() => {
-    if (!selectedFurnitureId) return;
-    setFurniture(furniture.map(f =>
-      f.id === selectedFurnitureId ? { ...f, rotation: (f.rotation + 90) % 360 } : f
-    ));
-  }, [selectedFurnitureId, furniture]);
+    const item = furniture.find(f => f.id === selectedFurnitureId);
+    if (!item) return;
+    const rotated = { ...item, rotation: (item.rotation + 90) % 360 };
+    setFurniture(furniture.map(f => (f.id === item.id ? rotated : f)));
+    logPlacedChange("rotate", "furniture", item, rotated);
+  }, [selectedFurnitureId, furniture, logPlacedChange]);
 
   // ADU size slider handler - snaps to grid while maintaining center
   const handleAduSizeChange = useCallback((sqFt: number) => {
@@ -1586,6 +2540,8 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         } else if (selectedFurnitureId) {
           const furn = furniture.find(f => f.id === selectedFurnitureId);
           if (furn) setDeleteDialog({ open: true, type: "furniture", id: selectedFurnitureId, name: FURNITURE_CONFIG[furn.type].name });
+        } else if (selectedDeviceId) {
+          handleRemoveDevice(selectedDeviceId);
         }
         return;
       }
@@ -1598,17 +2554,20 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         setSelectedWindowId(null);
         setSelectedFurnitureId(null);
         setSelectedBoundaryPointIndex(null);
+        setSelectedDeviceId(null);
+        setIsPlacingSewerConnection(false);
         if (isDrawing) cancelPolygon();
         return;
       }
 
-      // R: Rotate selected (rooms, doors, windows, furniture)
+      // R: Rotate selected (rooms, doors, windows, furniture, electrical devices)
       if (key === 'r' && !e.ctrlKey && !e.metaKey) {
         e.preventDefault();
         if (selectedRoomId) rotateSelectedRoom();
         else if (selectedDoorId) rotateSelectedDoor();
         else if (selectedWindowId) rotateSelectedWindow();
         else if (selectedFurnitureId) rotateSelectedFurniture();
+        else if (selectedDeviceId) handleRotateDevice(selectedDeviceId);
         return;
       }
 
@@ -1626,6 +2585,8 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         if (key === 'd') { e.preventDefault(); setPlacementMode("door"); }
         if (key === 'w') { e.preventDefault(); setPlacementMode("window"); }
         if (key === 'f') { e.preventDefault(); setPlacementMode("furniture"); }
+        if (key === 'e') { e.preventDefault(); setPlacementMode("electrical"); }
+        if (key === 'p') { e.preventDefault(); setPlacementMode("plumbing"); }
       }
 
       // Arrow keys: Nudge
@@ -1671,7 +2632,8 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
     undo, redo, rooms, doors, windows, furniture, selectedRoomId, selectedDoorId,
     selectedWindowId, selectedFurnitureId, selectedRoomIds, selectedDoorIds,
     selectedWindowIds, selectedFurnitureIds, isDrawing, cancelPolygon, rotateSelectedRoom,
-    rotateSelectedDoor, rotateSelectedWindow, rotateSelectedFurniture, showGrid, gridSize
+    rotateSelectedDoor, rotateSelectedWindow, rotateSelectedFurniture, showGrid, gridSize,
+    selectedDeviceId, handleRemoveDevice, handleRotateDevice
   ]);
 
   return (
@@ -1686,7 +2648,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
               <Slider
                 value={[Math.round(aduArea)]}
                 min={200}
-                max={1200}
+                max={aduLimits.maxArea}
                 step={50}
                 onValueChange={([value]) => handleAduSizeChange(value)}
                 className="flex-1"
@@ -1732,6 +2694,89 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
             {/* Divider */}
             <div className="h-8 w-px bg-border hidden sm:block" />
 
+            {/* Templates */}
+            <div className="flex items-center gap-1">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowTemplateGallery(true)}
+                className="h-8 w-8 p-0"
+                title="Start from a template"
+              >
+                <LayoutTemplate className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSaveTemplateDialog(true)}
+                disabled={rooms.length === 0}
+                className="h-8 w-8 p-0"
+                title="Save as template"
+              >
+                <BookmarkPlus className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowImportDialog(true)}
+                className="h-8 w-8 p-0"
+                title="Import DXF/SVG plan"
+              >
+                <FileUp className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setShowSessionReplay(true)}
+                disabled={!projectId}
+                className="h-8 w-8 p-0"
+                title="Replay editing sessions"
+              >
+                <History className="h-4 w-4" />
+              </Button>
+              {referenceUnderlay.length > 0 && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setReferenceUnderlay([])}
+                  className="h-8 w-8 p-0"
+                  title="Remove reference underlay"
+                >
+                  <EyeOff className="h-4 w-4" />
+                </Button>
+              )}
+            </div>
+
+            {/* Divider */}
+            <div className="h-8 w-px bg-border hidden sm:block" />
+
+            {/* Design Alternatives */}
+            <AlternativeSwitcher
+              alternatives={alternatives}
+              activeId={activeAlternativeId}
+              suggestedName={nextAlternativeName(alternatives)}
+              onSwitch={handleSwitchAlternative}
+              onCreate={handleCreateAlternative}
+              onRename={renameAlternative}
+              onDelete={deleteAlternative}
+              onCompare={() => setShowAlternativesCompare(true)}
+            />
+
+            {/* Live co-editing */}
+            <CollaborationMenu
+              enabled={collabEnabled}
+              status={collabStatus}
+              peers={collabPeers}
+              name={collabName}
+              disabled={!projectId}
+              levelNames={levelNames}
+              onEnabledChange={setCollabEnabled}
+              onNameChange={handleCollabNameChange}
+            />
+
+            {/* Divider */}
+            <div className="h-8 w-px bg-border hidden sm:block" />
+
             {/* Save & Cloud Status */}
             <div className="flex items-center gap-2">
               <Button
@@ -1757,6 +2802,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                 onRestore={restoreSnapshot}
                 onSaveManual={saveManualSnapshot}
                 onDelete={deleteSnapshot}
+                onCompare={() => setShowVersionCompare(true)}
                 formatTimestamp={formatTimestamp}
                 getTimeAgo={getTimeAgo}
               />
@@ -1772,6 +2818,17 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                   {isSaving ? "Saving..." : lastSavedAt ? `Saved ${new Date(lastSavedAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : "Not saved"}
                 </span>
               </div>
+              {pendingCount > 0 && (
+                <button
+                  type="button"
+                  onClick={() => retryNow()}
+                  className="flex items-center gap-1 rounded-full border border-amber-300 bg-amber-50 px-2 py-0.5 text-xs text-amber-800 hover:bg-amber-100"
+                  title="Saved on this device - click to retry syncing now"
+                >
+                  <RefreshCw className="h-3 w-3" />
+                  {pendingCount} {pendingCount === 1 ? "change" : "changes"} pending sync
+                </button>
+              )}
               <div className="flex items-center gap-1.5">
                 <Label className="text-xs">Auto</Label>
                 <Switch
@@ -1788,7 +2845,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
           {/* Left Column - Tools/Controls */}
           <DraggablePanelContainer
           storageKey="floor-plan-left-sidebar-order"
-          panelIds={["mode", "tool", "lot"]}
+          panelIds={["mode", "tool", "levels", "lot", "structures", "underlay"]}
           className="space-y-3"
         >
           {/* Mode Selector */}
@@ -1839,6 +2896,59 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                 onDragEnd={handleDragEnd}
               />
             )}
+
+            {/* Electrical Mode Controls */}
+            {placementMode === "electrical" && (
+              <ElectricalSelector
+                onDragStart={handleDragStart}
+                onDragEnd={handleDragEnd}
+                selectedDevice={activeDevices.find(d => d.id === selectedDeviceId) ?? null}
+                lights={activeDevices.filter(d => ELECTRICAL_CONFIGS[d.type].category === "light")}
+                suggestionCount={receptacleSuggestions.length}
+                onAcceptSuggestions={handleAcceptSuggestions}
+                onRotateDevice={handleRotateDevice}
+                onRemoveDevice={handleRemoveDevice}
+                onCircuitChange={(id, circuit) => updateElectricalDevice(id, { circuit: circuit || undefined })}
+                onToggleControl={toggleElectricalControl}
+              />
+            )}
+
+            {/* Plumbing Mode Controls */}
+            {placementMode === "plumbing" && plumbingReport && (
+              <PlumbingPanel
+                report={plumbingReport}
+                hasLot={!!aduPlacement}
+                hasSewerConnection={!!sewerConnection}
+                isPlacingSewerConnection={isPlacingSewerConnection}
+                onPlaceSewerConnection={() => setIsPlacingSewerConnection(prev => !prev)}
+                onClearSewerConnection={() => handleSewerConnectionChange(null)}
+              />
+            )}
+          </div>
+
+          {/* Levels - multi-story switcher and stairs */}
+          <div key="levels">
+            <LevelPanel
+              levels={levels}
+              activeLevelId={activeLevelId}
+              roomCounts={Object.fromEntries([
+                ["ground", levelData.ground.rooms.length],
+                ...levelData.levels.map(l => [l.id, l.rooms.length]),
+              ])}
+              stairs={stairs}
+              selectedStairId={selectedStairId}
+              canAddStair={!!(levelAbove || levelBelow)}
+              showLevelBelow={showLevelBelow}
+              onSwitchLevel={handleSwitchLevel}
+              onAddLevel={addLevel}
+              onRemoveLevel={handleRemoveLevel}
+              onUpdateLevel={updateLevel}
+              onShowLevelBelowChange={setShowLevelBelow}
+              onAddStair={handleAddStair}
+              onSelectStair={setSelectedStairId}
+              onRotateStair={handleRotateStair}
+              onRemoveStair={handleRemoveStair}
+            />
           </div>
 
           {/* Lot Selector - Always visible */}
@@ -1862,7 +2972,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                 setPreviewOffsetX(null);
                 setPreviewOffsetY(null);
                 if (r !== undefined) setPreviewRotation(null);
-                updateAduPosition(x, y, r);
+                handleUpdateAduPosition(x, y, r);
               }}
               onUpdateSetbacks={updateSetbacks}
               onUpdateLotDimensions={updateLotDimensions}
@@ -1876,6 +2986,54 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
               isDrawingLotBoundary={isDrawingLotBoundary}
               onStartDrawingLotBoundary={startLotBoundaryDrawing}
               onCancelDrawingLotBoundary={cancelLotBoundaryDrawing}
+              zoningProfile={zoningProfile}
+              aduLimits={aduLimits}
+              lotCoverage={lotCoverage}
+              onChangeZoningProfile={handleChangeZoningProfile}
+              geoProviderId={geoProvider.id}
+              onChangeGeoProvider={handleChangeGeoProvider}
+              placementCandidates={placementCandidates}
+              activeCandidateIndex={activeCandidateIndex}
+              onAutoFit={handleAutoFit}
+              onPreviewCandidate={setActiveCandidateIndex}
+              onApplyCandidate={handleApplyCandidate}
+              onClearCandidates={handleClearCandidates}
+            />
+          </div>
+
+          {/* Existing structures on the lot - separation from the ADU */}
+          {lot && (
+            <div key="structures">
+              <ExistingStructuresPanel
+                structures={existingStructures}
+                separations={aduFit?.separations ?? []}
+                selectedStructureId={selectedStructureId}
+                isEditing={isEditingStructures}
+                onEditingChange={setIsEditingStructures}
+                onAddStructure={handleAddStructure}
+                onSelectStructure={setSelectedStructureId}
+                onRenameStructure={(id, label) => handleUpdateStructure(id, { label })}
+                onChangeStories={(id, stories) => handleUpdateStructure(id, { stories })}
+                onRemoveStructure={handleRemoveStructure}
+              />
+            </div>
+          )}
+
+          {/* Image Underlay - trace over a photo or scan */}
+          <div key="underlay">
+            <ImageUnderlayPanel
+              underlay={imageUnderlay}
+              pixelsPerFoot={pixelsPerFoot}
+              isCalibrating={isCalibratingUnderlay}
+              calibrationPointCount={underlayCalibrationPoints.length}
+              onUpload={(file) => loadUnderlayImage(file, aduCenter)}
+              pdfPage={underlayPdfPage}
+              onSelectPdfPage={selectUnderlayPdfPage}
+              onUpdate={updateImageUnderlay}
+              onRemove={removeImageUnderlay}
+              onStartCalibration={startUnderlayCalibration}
+              onCancelCalibration={cancelUnderlayCalibration}
+              onApplyCalibration={applyUnderlayCalibration}
             />
           </div>
         </DraggablePanelContainer>
@@ -1891,8 +3049,15 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
           onContextMenu={(e) => e.preventDefault()}
         >
           {/* Floating overlays */}
-          <ADUAreaIndicator config={config} boundary={aduBoundary} />
-          <Compass />
+          <ADUAreaIndicator
+            config={config}
+            boundary={aduBoundary}
+            otherLevelsArea={levelData.levels.flatMap(l => l.rooms).reduce((sum, room) => sum + room.area, 0)}
+            minArea={aduLimits.minArea}
+            maxArea={aduLimits.maxArea}
+            profileName={zoningProfile.name}
+          />
+          <Compass northRotation={lot?.geoRotation ?? 0} />
           <CanvasControls
             zoom={zoom}
             showGrid={showGrid}
@@ -1902,7 +3067,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
             onResetView={resetView}
             onToggleGrid={setShowGrid}
             onToggleLock={setIsCanvasLocked}
-            onExport={() => setShowExportDialog(true)}
+            onExport={handleOpenExport}
           />
 
           {/* Konva Stage */}
@@ -1917,6 +3082,8 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
             onMouseDown={(e) => {
               if (isDrawingLotBoundary) {
                 handleLotBoundaryClick(e, zoom, panOffset);
+              } else if (isCalibratingUnderlay) {
+                handleUnderlayCalibrationClick(e, zoom, panOffset, aduTransform);
               } else {
                 handlePanStart(e);
                 handleMouseDown(e);
@@ -1925,12 +3092,22 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
             onMouseMove={(e) => {
               if (isDrawingLotBoundary) {
                 handleLotBoundaryMouseMove(e, zoom, panOffset);
+              } else if (isCalibratingUnderlay) {
+                handleUnderlayCalibrationMouseMove(e, zoom, panOffset, aduTransform);
               } else {
                 handlePanMove(e);
                 handleMarqueeMove(e);
                 drawingMouseMove(e);
               }
+              if (collabEnabled) {
+                const pos = e.target.getStage()?.getPointerPosition();
+                if (pos) {
+                  const canvasPos = { x: (pos.x - panOffset.x) / zoom, y: (pos.y - panOffset.y) / zoom };
+                  updateCollabCursor(aduTransform ? worldToAduLocal(canvasPos, aduTransform) : canvasPos);
+                }
+              }
             }}
+            onMouseLeave={() => collabEnabled && updateCollabCursor(null)}
             onMouseUp={() => {
               if (!isDrawingLotBoundary) {
                 handlePanEnd();
@@ -1962,10 +3139,17 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                   config={config}
                   lot={lot}
                   aduBoundary={aduBoundary}
+                  aduTransform={aduTransform}
                   canvasCenter={canvasCenter}
                   visible={showLotOverlay}
                   showSatellite={showSatelliteView}
                   showLotBoundary={showLotBoundary}
+                  editStructures={isEditingStructures}
+                  selectedStructureId={selectedStructureId}
+                  onSelectStructure={setSelectedStructureId}
+                  onStructureChange={(id, vertices) => handleUpdateStructure(id, { vertices })}
+                  placementCandidates={placementCandidates ?? []}
+                  activeCandidateIndex={activeCandidateIndex}
                 />
               )}
 
@@ -1991,6 +3175,27 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                 offsetX={lot ? canvasCenter.x : 0}
                 offsetY={lot ? canvasCenter.y : 0}
               >
+                {/* Image underlay (photo/scan to trace) */}
+                {imageUnderlay && imageUnderlay.src !== "" && (
+                  <ImageUnderlay
+                    underlay={imageUnderlay}
+                    draggable={!imageUnderlay.locked && !isCalibratingUnderlay}
+                    onMove={(position) => updateImageUnderlay(position)}
+                  />
+                )}
+
+                {/* Imported plan reference (locked) */}
+                <ReferenceUnderlay shapes={referenceUnderlay} />
+
+                {/* Ghosted level below (multi-story) */}
+                {showLevelBelow && levelBelow && levelBelowContent && (
+                  <LevelGhost
+                    content={levelBelowContent}
+                    pixelsPerFoot={pixelsPerFoot}
+                    label={levelBelow.name}
+                  />
+                )}
+
                 {/* ADU Boundary */}
                 <ADUBoundary
                   config={config}
@@ -2001,6 +3206,8 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                   onPointSelect={setSelectedBoundaryPointIndex}
                   onAddPoint={handleAddBoundaryPoint}
                   onRemovePoint={handleRemoveBoundaryPoint}
+                  locked={collabLockedIds.boundary.size > 0}
+                  onDragLock={(dragging) => setCollabDragging({ entityType: "boundary", entityId: BOUNDARY_ID }, dragging)}
                 />
 
                 {/* Rooms */}
@@ -2065,7 +3272,17 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                 transformerRef={transformerRef}
                 roomRefs={roomRefs}
                 zoom={zoom}
-              />
+                lockedIds={collabLockedIds.room}
+                onDragLock={handleCollabDragLock("room")}
+              >
+                {/* Walls (derived from room edges), over the room fills */}
+                <Walls
+                  config={config}
+                  walls={walls}
+                  doors={doors}
+                  windows={windows}
+                />
+              </Rooms>
 
               {/* Doors */}
               <Doors
@@ -2104,12 +3321,22 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                   }
                 }}
                 onDoorDragEnd={(id, pos) => {
-                  setDoors(doors.map(d => d.id === id ? { ...d, position: pos } : d));
+                  const door = doors.find(d => d.id === id);
+                  if (door) {
+                    const moved = snapOpening({ ...door, position: pos });
+                    setDoors(doors.map(d => d.id === id ? moved : d));
+                    logPlacedChange("move", "door", door, moved);
+                  }
                   isDraggingOrResizing.current = false;
                   setTimeout(() => saveToHistory(), 50);
                 }}
                 onOpeningTransform={(id, newWidth, newPosition) => {
-                  setDoors(doors.map(d => d.id === id ? { ...d, width: newWidth, position: newPosition } : d));
+                  const door = doors.find(d => d.id === id);
+                  if (door) {
+                    const resized = { ...door, width: newWidth, position: newPosition };
+                    setDoors(doors.map(d => d.id === id ? resized : d));
+                    logPlacedChange("resize", "door", door, resized);
+                  }
                   isDraggingOrResizing.current = false;
                   setTimeout(() => saveToHistory(), 50);
                 }}
@@ -2120,6 +3347,8 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                 openingTransformerRef={openingTransformerRef}
                 openingRefs={openingRefs}
                 zoom={zoom}
+                lockedIds={collabLockedIds.door}
+                onDragLock={handleCollabDragLock("door")}
               />
 
               {/* Windows */}
@@ -2159,12 +3388,22 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                   }
                 }}
                 onWindowDragEnd={(id, pos) => {
-                  setWindows(windows.map(w => w.id === id ? { ...w, position: pos } : w));
+                  const win = windows.find(w => w.id === id);
+                  if (win) {
+                    const moved = snapOpening({ ...win, position: pos });
+                    setWindows(windows.map(w => w.id === id ? moved : w));
+                    logPlacedChange("move", "window", win, moved);
+                  }
                   isDraggingOrResizing.current = false;
                   setTimeout(() => saveToHistory(), 50);
                 }}
                 onWindowTransform={(id, width, pos) => {
-                  setWindows(windows.map(w => w.id === id ? { ...w, width, ...(pos && { position: pos }) } : w));
+                  const win = windows.find(w => w.id === id);
+                  if (win) {
+                    const resized = { ...win, width, ...(pos && { position: pos }) };
+                    setWindows(windows.map(w => w.id === id ? resized : w));
+                    logPlacedChange("resize", "window", win, resized);
+                  }
                   isDraggingOrResizing.current = false;
                   setTimeout(() => saveToHistory(), 50);
                 }}
@@ -2175,6 +3414,20 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                 transformerRef={windowTransformerRef}
                 windowRefs={windowRefs}
                 zoom={zoom}
+                lockedIds={collabLockedIds.window}
+                onDragLock={handleCollabDragLock("window")}
+              />
+
+              {/* Stairs shared with the adjacent level */}
+              <Stairs
+                stairs={activeStairs}
+                activeLevelId={activeLevelId}
+                pixelsPerFoot={pixelsPerFoot}
+                gridSize={gridSize}
+                selectedStairId={selectedStairId}
+                draggable={placementMode === "select"}
+                onStairClick={setSelectedStairId}
+                onStairDragEnd={(id, position) => updateStair(id, { position })}
               />
 
               {/* Furniture */}
@@ -2216,7 +3469,12 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                   }
                 }}
                 onFurnitureDragEnd={(id, pos) => {
-                  setFurniture(furniture.map(f => f.id === id ? { ...f, position: pos } : f));
+                  const item = furniture.find(f => f.id === id);
+                  if (item) {
+                    const moved = { ...item, position: pos };
+                    setFurniture(furniture.map(f => f.id === id ? moved : f));
+                    logPlacedChange("move", "furniture", item, moved);
+                  }
                   isDraggingOrResizing.current = false;
                   setTimeout(() => saveToHistory(), 50);
                 }}
@@ -2225,8 +3483,37 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                 onMultiDragMove={handleMultiDragMove}
                 onMultiDragEnd={handleMultiDragEnd}
                 zoom={zoom}
+                lockedIds={collabLockedIds.furniture}
+                onDragLock={handleCollabDragLock("furniture")}
+              />
+
+              {/* Electrical devices and switch legs on this level */}
+              <Electrical
+                devices={activeDevices}
+                pixelsPerFoot={pixelsPerFoot}
+                gridSize={gridSize}
+                selectedDeviceId={selectedDeviceId}
+                suggestions={receptacleSuggestions}
+                draggable={placementMode === "electrical"}
+                onDeviceClick={(id) => {
+                  if (placementMode === "room" && drawMode === "polygon") return;
+                  setSelectedDeviceId(id);
+                }}
+                onDeviceDragEnd={(id, position) => updateElectricalDevice(id, { position })}
               />
 
+              {/* Wet walls, fixture units and pipe runs */}
+              {placementMode === "plumbing" && plumbingReport && (
+                <Plumbing
+                  report={plumbingReport}
+                  levelId={activeLevelId}
+                  pixelsPerFoot={pixelsPerFoot}
+                  sewerConnection={sewerConnection}
+                  draggable={!isPlacingSewerConnection}
+                  onSewerConnectionDragEnd={handleSewerConnectionChange}
+                />
+              )}
+
                 {/* Drawing Preview */}
                 <DrawingPreview
                   config={config}
@@ -2236,6 +3523,31 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                   currentRect={currentRect}
                   polygonPoints={polygonPoints}
                 />
+
+                {/* Collaborators' cursors, selections and drag locks */}
+                {collabEnabled && (
+                  <RemotePresence
+                    peers={collabPeers}
+                    locks={collabLocks}
+                    levelId={activeLevelId}
+                    rooms={rooms}
+                    doors={doors}
+                    windows={windows}
+                    furniture={furniture}
+                    aduBoundary={aduBoundary}
+                    pixelsPerFoot={pixelsPerFoot}
+                    zoom={zoom}
+                  />
+                )}
+
+                {/* Underlay scale calibration */}
+                {isCalibratingUnderlay && (
+                  <CalibrationLine
+                    points={underlayCalibrationPoints}
+                    previewPoint={underlayCalibrationPreview}
+                    pixelsPerFoot={pixelsPerFoot}
+                  />
+                )}
               </Group>
 
               {/* Marquee Selection */}
@@ -2305,17 +3617,30 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
           {/* Draggable panel container for right sidebar lists */}
           <DraggablePanelContainer
             storageKey={`editor-right-sidebar-order-${blueprintId ?? 'default'}`}
-            panelIds={['adu-summary', 'room-list', 'door-list', 'window-list', 'furniture-list']}
+            panelIds={['adu-summary', 'compliance', 'room-list', 'door-list', 'window-list', 'furniture-list']}
             className="space-y-3"
           >
             {/* ADU Summary */}
             <div key="adu-summary">
               <ADUSummary
-                rooms={rooms}
-                doors={doors}
-                windows={windows}
+                rooms={buildingRooms}
+                doors={buildingLevels.flatMap(level => level.doors)}
+                windows={buildingLevels.flatMap(level => level.windows)}
                 totalArea={totalArea}
                 aduBoundaryArea={aduArea}
+                minArea={aduLimits.minArea}
+                maxArea={aduLimits.maxArea}
+              />
+            </div>
+
+            {/* Code Compliance Issues */}
+            <div key="compliance">
+              <ComplianceIssuesPanel
+                issues={compliance.issues}
+                errorCount={compliance.errorCount}
+                warningCount={compliance.warningCount}
+                ruleSetName={compliance.ruleSetName}
+                onSelectIssue={handleSelectComplianceIssue}
               />
             </div>
 
@@ -2351,6 +3676,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
                   newDescriptions.set(roomId, description);
                   setRoomDescriptions(newDescriptions);
                 }}
+                daylight={daylight}
               />
             </div>
 
@@ -2482,18 +3808,104 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         open={showExportDialog}
         onOpenChange={setShowExportDialog}
         stageRef={stageRef}
-        rooms={rooms}
-        doors={doors}
-        windows={windows}
-        furniture={furniture}
+        levels={buildingLevels}
         aduBoundary={aduBoundary}
         config={config}
         lot={lot}
+        costEstimate={costEstimate}
+        daylight={exportDaylight}
+        electrical={electricalDevices}
+        plumbing={plumbingReport}
         blueprintId={blueprintId ?? undefined}
         projectName="ADU Floor Plan"
         address={lot?.address}
       />
 
+      {/* Session Replay */}
+      <SessionReplayDialog
+        open={showSessionReplay}
+        onOpenChange={setShowSessionReplay}
+        projectId={projectId ?? undefined}
+        pixelsPerFoot={pixelsPerFoot}
+        alternatives={alternatives}
+      />
+
+      <VersionCompareDialog
+        open={showVersionCompare}
+        onOpenChange={setShowVersionCompare}
+        projectId={projectId ?? undefined}
+        autoSaves={autoSaves}
+        manualSaves={manualSaves}
+        current={compareCurrentPlan}
+        levelId={activeLevelId}
+        pixelsPerFoot={pixelsPerFoot}
+        formatTimestamp={formatTimestamp}
+        onCherryPick={handleCherryPick}
+      />
+
+      {/* Design Alternatives Comparison */}
+      <AlternativesCompareDialog
+        open={showAlternativesCompare}
+        onOpenChange={setShowAlternativesCompare}
+        alternatives={alternatives}
+        activeId={activeAlternativeId}
+        currentPlan={alternativeCurrentPlan}
+        pixelsPerFoot={pixelsPerFoot}
+        costSettings={costSettings}
+        ruleSetId={zoningRuleSetId(zoningProfile)}
+        lotAreaSqFt={lot?.lotAreaSqFt}
+        sewerConnection={sewerConnection}
+        onSwitch={handleSwitchAlternative}
+      />
+
+      {/* Template Gallery */}
+      <TemplateGallery
+        open={showTemplateGallery}
+        onOpenChange={setShowTemplateGallery}
+        customTemplates={customTemplates}
+        onSelectTemplate={handleSelectTemplate}
+        onDeleteCustomTemplate={deleteCustomTemplate}
+      />
+      <AlertDialog open={!!pendingTemplate} onOpenChange={(open) => !open && setPendingTemplate(null)}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle className="flex items-center gap-2">
+              <AlertTriangle className="h-5 w-5 text-destructive" />
+              Replace current plan?
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              Starting from &quot;{pendingTemplate?.name}&quot; replaces the rooms, doors, windows, furniture and ADU boundary
+              on this level. You can undo it afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                if (pendingTemplate) handleApplyTemplate(pendingTemplate);
+                setPendingTemplate(null);
+              }}
+            >
+              Replace Plan
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <SaveTemplateDialog
+        open={showSaveTemplateDialog}
+        onOpenChange={setShowSaveTemplateDialog}
+        onSave={handleSaveAsTemplate}
+      />
+
+      {/* DXF/SVG Import */}
+      <ImportDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        pixelsPerFoot={pixelsPerFoot}
+        target={aduCenter}
+        onImport={handleImportPlan}
+      />
+
     </div>
   );
 }
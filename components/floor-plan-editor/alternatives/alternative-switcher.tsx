@@ -0,0 +1,226 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Check, ChevronDown, Copy, FilePlus, Layers, Pencil, Table2, Trash2 } from "lucide-react";
+import type { DesignAlternative } from "@/lib/alternatives";
+
+type NameDialog =
+  | { mode: "duplicate" | "blank"; name: string }
+  | { mode: "rename"; id: string; name: string };
+
+interface AlternativeSwitcherProps {
+  alternatives: DesignAlternative[];
+  activeId: string | null;
+  suggestedName: string; // next free "Option X"
+  onSwitch: (id: string) => void;
+  onCreate: (name: string, mode: "duplicate" | "blank") => void;
+  onRename: (id: string, name: string) => void;
+  onDelete: (id: string) => void;
+  onCompare: () => void;
+}
+
+// Header dropdown for moving between a project's design alternatives
+export function AlternativeSwitcher({
+  alternatives,
+  activeId,
+  suggestedName,
+  onSwitch,
+  onCreate,
+  onRename,
+  onDelete,
+  onCompare,
+}: AlternativeSwitcherProps) {
+  const [nameDialog, setNameDialog] = useState<NameDialog | null>(null);
+  const [deleteTarget, setDeleteTarget] = useState<DesignAlternative | null>(null);
+
+  const active = alternatives.find(a => a.id === activeId);
+
+  const handleConfirmName = () => {
+    if (!nameDialog || !nameDialog.name.trim()) return;
+    if (nameDialog.mode === "rename") {
+      onRename(nameDialog.id, nameDialog.name);
+    } else {
+      onCreate(nameDialog.name.trim(), nameDialog.mode);
+    }
+    setNameDialog(null);
+  };
+
+  const handleConfirmDelete = () => {
+    if (deleteTarget) onDelete(deleteTarget.id);
+    setDeleteTarget(null);
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="outline" size="sm" className="gap-2 max-w-[200px]" title="Design alternatives">
+            <Layers className="h-4 w-4 shrink-0" />
+            <span className="hidden sm:inline truncate">{active?.name ?? "Alternatives"}</span>
+            <ChevronDown className="h-3 w-3 shrink-0 text-muted-foreground" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-72">
+          <DropdownMenuLabel>Design Alternatives</DropdownMenuLabel>
+          <DropdownMenuSeparator />
+          <div className="max-h-64 overflow-y-auto space-y-1">
+            {alternatives.map((alternative) => {
+              const isActive = alternative.id === activeId;
+              return (
+                <DropdownMenuItem
+                  key={alternative.id}
+                  className="flex items-center justify-between cursor-pointer group"
+                  onClick={() => !isActive && onSwitch(alternative.id)}
+                >
+                  <div className="flex items-center gap-2 min-w-0">
+                    <Check className={`h-4 w-4 shrink-0 ${isActive ? "text-primary" : "invisible"}`} />
+                    <div className="flex flex-col min-w-0">
+                      <span className="text-sm truncate">{alternative.name}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {alternative.blueprintIds.length > 0
+                          ? `${alternative.blueprintIds.length} saved version${alternative.blueprintIds.length > 1 ? "s" : ""}`
+                          : "Not saved yet"}
+                      </span>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                      title="Rename"
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        setNameDialog({ mode: "rename", id: alternative.id, name: alternative.name });
+                      }}
+                    >
+                      <Pencil className="h-3 w-3" />
+                    </Button>
+                    {!isActive && (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0 opacity-0 group-hover:opacity-100"
+                        title="Delete"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setDeleteTarget(alternative);
+                        }}
+                      >
+                        <Trash2 className="h-3 w-3 text-destructive" />
+                      </Button>
+                    )}
+                  </div>
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="cursor-pointer gap-2 text-sm"
+            onClick={() => setNameDialog({ mode: "duplicate", name: suggestedName })}
+          >
+            <Copy className="h-4 w-4" />
+            Duplicate as new alternative...
+          </DropdownMenuItem>
+          <DropdownMenuItem
+            className="cursor-pointer gap-2 text-sm"
+            onClick={() => setNameDialog({ mode: "blank", name: suggestedName })}
+          >
+            <FilePlus className="h-4 w-4" />
+            New blank alternative...
+          </DropdownMenuItem>
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            className="cursor-pointer gap-2 text-sm"
+            onClick={onCompare}
+            disabled={alternatives.length < 2}
+          >
+            <Table2 className="h-4 w-4" />
+            Compare alternatives...
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      {/* Name Dialog (new alternative or rename) */}
+      <Dialog open={!!nameDialog} onOpenChange={(open) => !open && setNameDialog(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>
+              {nameDialog?.mode === "rename" ? "Rename Alternative" : "New Alternative"}
+            </DialogTitle>
+            <DialogDescription>
+              {nameDialog?.mode === "duplicate"
+                ? "Starts as a copy of the current design, lot placement and finishes."
+                : nameDialog?.mode === "blank"
+                  ? "Starts with an empty plan on the same lot and ADU boundary."
+                  : "Give this alternative a name clients will recognize."}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid gap-2 py-4">
+            <Label htmlFor="alternative-name">Name</Label>
+            <Input
+              id="alternative-name"
+              placeholder="e.g., Option B: 1BR + office"
+              value={nameDialog?.name ?? ""}
+              onChange={(e) => nameDialog && setNameDialog({ ...nameDialog, name: e.target.value })}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  handleConfirmName();
+                }
+              }}
+            />
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setNameDialog(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleConfirmName} disabled={!nameDialog?.name.trim()}>
+              {nameDialog?.mode === "rename" ? "Rename" : "Create"}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Delete Confirmation Dialog */}
+      <Dialog open={!!deleteTarget} onOpenChange={(open) => !open && setDeleteTarget(null)}>
+        <DialogContent className="sm:max-w-md">
+          <DialogHeader>
+            <DialogTitle>Delete Alternative</DialogTitle>
+            <DialogDescription>
+              Remove &ldquo;{deleteTarget?.name}&rdquo; from this project? Its saved blueprint versions stay in the version list.
+            </DialogDescription>
+          </DialogHeader>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setDeleteTarget(null)}>
+              Cancel
+            </Button>
+            <Button variant="destructive" onClick={handleConfirmDelete}>
+              <Trash2 className="h-4 w-4 mr-2" />
+              Delete
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,192 @@
+"use client";
+
+import React, { useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Point } from "@/lib/types";
+import * as api from "@/lib/api/client";
+import { formatCurrency, type CostSettings } from "@/lib/cost";
+import { latestBlueprintId, type AlternativePlan, type DesignAlternative } from "@/lib/alternatives";
+import { summarizeAlternative, type AlternativeComplianceStatus, type AlternativeSummary } from "./utils";
+
+interface AlternativesCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  alternatives: DesignAlternative[];
+  activeId: string | null;
+  currentPlan: AlternativePlan; // the active alternative as it is in the editor right now
+  pixelsPerFoot: number;
+  costSettings: CostSettings;
+  ruleSetId?: string;
+  lotAreaSqFt?: number;
+  sewerConnection?: Point | null;
+  onSwitch: (id: string) => void;
+}
+
+const COMPLIANCE_BADGES: Record<AlternativeComplianceStatus, { label: string; className: string }> = {
+  passes: { label: "Passes", className: "border-green-500 text-green-700" },
+  warnings: { label: "Warnings", className: "border-amber-500 text-amber-700" },
+  fails: { label: "Issues", className: "border-destructive text-destructive" },
+};
+
+const ROWS: Array<{ label: string; render: (summary: AlternativeSummary) => React.ReactNode }> = [
+  { label: "Floor area", render: (s) => `${s.areaSqFt.toLocaleString()} sf` },
+  { label: "Levels", render: (s) => s.levelCount },
+  { label: "Bedrooms", render: (s) => s.bedrooms },
+  { label: "Bathrooms", render: (s) => s.bathrooms },
+  { label: "Cost estimate", render: (s) => formatCurrency(s.costTotal) },
+  { label: "Cost per sf", render: (s) => (s.costPerSqFt > 0 ? formatCurrency(s.costPerSqFt) : "-") },
+  {
+    label: "Compliance",
+    render: (s) => (
+      <div className="flex flex-col items-end gap-0.5">
+        <Badge variant="outline" className={cn("text-[10px]", COMPLIANCE_BADGES[s.complianceStatus].className)}>
+          {COMPLIANCE_BADGES[s.complianceStatus].label}
+        </Badge>
+        {(s.errorCount > 0 || s.warningCount > 0) && (
+          <span className="text-[10px] text-muted-foreground">
+            {s.errorCount} error{s.errorCount === 1 ? "" : "s"}, {s.warningCount} warning{s.warningCount === 1 ? "" : "s"}
+          </span>
+        )}
+      </div>
+    ),
+  },
+];
+
+// Side-by-side sheet of the project's alternatives: size, rooms, cost and code compliance
+export function AlternativesCompareDialog({
+  open,
+  onOpenChange,
+  alternatives,
+  activeId,
+  currentPlan,
+  pixelsPerFoot,
+  costSettings,
+  ruleSetId,
+  lotAreaSqFt,
+  sewerConnection,
+  onSwitch,
+}: AlternativesCompareDialogProps) {
+  // Finishes are saved per blueprint, so each alternative's come from its latest version
+  const [finishesByBlueprint, setFinishesByBlueprint] = useState<Record<string, api.Finishes | null>>({});
+
+  useEffect(() => {
+    if (!open) return;
+    const blueprintIds = alternatives
+      .map(latestBlueprintId)
+      .filter((id): id is string => !!id && !(id in finishesByBlueprint));
+    if (blueprintIds.length === 0) return;
+
+    const loadFinishes = async () => {
+      const loaded = await Promise.all(blueprintIds.map(async (id) => {
+        try {
+          const response = await api.getFinishes(id);
+          return [id, response.data.finish] as const;
+        } catch (error) {
+          // No finishes saved yet - that alternative is priced at the standard tier
+          console.error("[AlternativesCompare] Failed to load finishes:", error);
+          return [id, null] as const;
+        }
+      }));
+      setFinishesByBlueprint(prev => ({ ...prev, ...Object.fromEntries(loaded) }));
+    };
+    loadFinishes();
+  }, [open, alternatives, finishesByBlueprint]);
+
+  const summaries = useMemo(() => {
+    if (!open) return [];
+    return alternatives.map((alternative) => {
+      const plan = alternative.id === activeId ? currentPlan : alternative.working;
+      const blueprintId = latestBlueprintId(alternative);
+      return {
+        alternative,
+        summary: plan
+          ? summarizeAlternative(plan, {
+            pixelsPerFoot,
+            costSettings,
+            finishes: blueprintId ? finishesByBlueprint[blueprintId] ?? null : null,
+            ruleSetId,
+            lotAreaSqFt,
+            sewerConnection,
+          })
+          : null,
+      };
+    });
+  }, [open, alternatives, activeId, currentPlan, pixelsPerFoot, costSettings, finishesByBlueprint, ruleSetId, lotAreaSqFt, sewerConnection]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Table2 className="h-5 w-5" />
+            Compare Alternatives
+          </DialogTitle>
+          <DialogDescription>
+            Every design alternative on this lot side by side. Costs use each alternative{"'"}s saved finishes and
+            compliance is checked against the lot{"'"}s zoning rules.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="overflow-x-auto">
+          <table className="w-full text-sm">
+            <thead>
+              <tr>
+                <th className="text-left font-normal text-muted-foreground py-2"></th>
+                {summaries.map(({ alternative }) => (
+                  <th key={alternative.id} className="text-right font-medium py-2 px-2 align-bottom">
+                    <div className="flex flex-col items-end gap-1">
+                      <span>{alternative.name}</span>
+                      {alternative.id === activeId ? (
+                        <Badge variant="secondary" className="text-[10px]">Editing</Badge>
+                      ) : (
+                        <Button
+                          variant="link"
+                          size="sm"
+                          className="h-auto p-0 text-xs"
+                          onClick={() => {
+                            onSwitch(alternative.id);
+                            onOpenChange(false);
+                          }}
+                        >
+                          Open
+                        </Button>
+                      )}
+                    </div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {ROWS.map((row) => (
+                <tr key={row.label} className="border-t">
+                  <td className="py-2 text-muted-foreground">{row.label}</td>
+                  {summaries.map(({ alternative, summary }) => (
+                    <td
+                      key={alternative.id}
+                      className={cn("text-right px-2", alternative.id === activeId && "bg-primary/5")}
+                    >
+                      {summary ? row.render(summary) : <span className="text-xs text-muted-foreground">-</span>}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <p className="text-xs text-muted-foreground">
+          Estimates are for comparison only and use the price book from the cost estimate settings.
+        </p>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,4 @@
+export { AlternativeSwitcher } from "./alternative-switcher";
+export { AlternativesCompareDialog } from "./alternatives-compare-dialog";
+export { summarizeAlternative } from "./utils";
+export type { AlternativeSummary, AlternativeSummaryContext, AlternativeComplianceStatus } from "./utils";
@@ -0,0 +1,81 @@
+import type { Point } from "@/lib/types";
+import type { Finishes } from "@/lib/api/client";
+import type { AlternativePlan } from "@/lib/alternatives";
+import { estimateCost, summarizeEstimate, type CostSettings } from "@/lib/cost";
+import { evaluateCompliance, getRuleSet } from "@/lib/compliance";
+
+export type AlternativeComplianceStatus = "passes" | "warnings" | "fails";
+
+export interface AlternativeSummary {
+  areaSqFt: number; // rooms on every level
+  bedrooms: number;
+  bathrooms: number; // half baths count as 0.5
+  levelCount: number;
+  costTotal: number;
+  costPerSqFt: number;
+  errorCount: number;
+  warningCount: number;
+  complianceStatus: AlternativeComplianceStatus;
+}
+
+export interface AlternativeSummaryContext {
+  pixelsPerFoot: number;
+  costSettings: CostSettings;
+  finishes: Finishes | null;
+  ruleSetId?: string;
+  lotAreaSqFt?: number;
+  sewerConnection?: Point | null;
+}
+
+/**
+ * Headline numbers for one alternative - what a client weighs options on
+ */
+export function summarizeAlternative(plan: AlternativePlan, context: AlternativeSummaryContext): AlternativeSummary {
+  const levels = [plan, ...(plan.levels ?? [])];
+  const rooms = levels.flatMap(level => level.rooms);
+
+  const estimate = summarizeEstimate(
+    estimateCost(
+      {
+        rooms: plan.rooms,
+        doors: plan.doors,
+        windows: plan.windows,
+        furniture: plan.furniture,
+        pixelsPerFoot: context.pixelsPerFoot,
+        ceilingHeight: plan.ceilingHeight,
+        levels: plan.levels,
+        stairs: plan.stairs,
+        sewerConnection: context.sewerConnection,
+      },
+      { globalTier: context.finishes?.globalTier, roomFinishes: context.finishes?.roomFinishes },
+      context.costSettings
+    ),
+    context.costSettings
+  );
+
+  const { errorCount, warningCount } = evaluateCompliance(
+    {
+      rooms: plan.rooms,
+      doors: plan.doors,
+      windows: plan.windows,
+      furniture: plan.furniture,
+      levels: plan.levels,
+      aduBoundary: plan.aduBoundary,
+      pixelsPerFoot: context.pixelsPerFoot,
+      lotAreaSqFt: context.lotAreaSqFt,
+    },
+    getRuleSet(context.ruleSetId)
+  );
+
+  return {
+    areaSqFt: Math.round(rooms.reduce((sum, room) => sum + room.area, 0)),
+    bedrooms: rooms.filter(room => room.type === "bedroom").length,
+    bathrooms: rooms.reduce((sum, room) => sum + (room.type === "bathroom" ? 1 : room.type === "half_bath" ? 0.5 : 0), 0),
+    levelCount: levels.filter((level, index) => index === 0 || level.rooms.length > 0).length,
+    costTotal: estimate.total,
+    costPerSqFt: estimate.costPerSqFt,
+    errorCount,
+    warningCount,
+    complianceStatus: errorCount > 0 ? "fails" : warningCount > 0 ? "warnings" : "passes",
+  };
+}
@@ -15,6 +15,8 @@ interface ADUBoundaryProps {
   onPointSelect: (index: number | null) => void;
   onAddPoint?: (afterIndex: number, point: Point) => void;
   onRemovePoint?: (index: number) => void;
+  locked?: boolean; // Being dragged by someone else in a live session
+  onDragLock?: (dragging: boolean) => void;
 }
 
 export function ADUBoundary({
@@ -26,6 +28,8 @@ export function ADUBoundary({
   onPointSelect,
   onAddPoint,
   onRemovePoint,
+  locked = false,
+  onDragLock,
 }: ADUBoundaryProps) {
   const { gridSize, pixelsPerFoot } = config;
 
@@ -145,11 +149,12 @@ export function ADUBoundary({
           fill={selectedPointIndex === index ? "#dc2626" : "#ef4444"}
           stroke="#ffffff"
           strokeWidth={2}
-          draggable
+          draggable={!locked}
           onClick={() => onPointSelect(index)}
           onTap={() => onPointSelect(index)}
           onDblClick={() => onRemovePoint?.(index)}
           onDblTap={() => onRemovePoint?.(index)}
+          onDragStart={() => onDragLock?.(true)}
           onDragMove={(e) => {
             const pos = e.target.position();
             const snapped = {
@@ -161,6 +166,7 @@ export function ADUBoundary({
             onPointDrag(index, snapped);
           }}
           onDragEnd={(e) => {
+            onDragLock?.(false);
             const pos = e.target.position();
             onPointDrag(index, { x: snapToGrid(pos.x), y: snapToGrid(pos.y) });
           }}
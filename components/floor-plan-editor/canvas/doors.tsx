@@ -21,6 +21,8 @@ interface DoorsProps {
   openingTransformerRef: React.RefObject<Konva.Transformer | null>;
   openingRefs: React.MutableRefObject<Map<string, Konva.Rect>>;
   zoom?: number;
+  lockedIds?: Set<string>; // Being dragged by someone else in a live session
+  onDragLock?: (doorId: string, dragging: boolean) => void;
 }
 
 export function Doors({
@@ -38,6 +40,8 @@ export function Doors({
   openingTransformerRef,
   openingRefs,
   zoom = 1,
+  lockedIds,
+  onDragLock,
 }: DoorsProps) {
   const { gridSize, pixelsPerFoot, extendedCanvasSize } = config;
 
@@ -97,8 +101,9 @@ export function Doors({
             x={door.position.x + previewOffset.x}
             y={door.position.y + previewOffset.y}
             rotation={door.rotation}
-            draggable
+            draggable={!lockedIds?.has(door.id)}
             onDragStart={(e) => {
+              onDragLock?.(door.id, true);
               // Track start position for multi-drag
               if (isMultiSelected && onMultiDragEnd) {
                 const group = e.target;
@@ -135,6 +140,7 @@ export function Doors({
               }
             }}
             onDragEnd={(e) => {
+              onDragLock?.(door.id, false);
               const group = e.target;
               const doorWidth = door.width * pixelsPerFoot;
               const isVert = door.rotation % 180 === 90;
@@ -339,7 +345,8 @@ export function Doors({
               stroke={isSelected ? "#961818" : "#999"}
               strokeWidth={isSelected ? 2 / zoom : 1 / zoom}
               dash={[6 / zoom, 4 / zoom]}
-              draggable
+              draggable={!lockedIds?.has(opening.id)}
+              onDragStart={() => onDragLock?.(opening.id, true)}
               dragBoundFunc={(pos) => {
                 if (isVertical) {
                   // For vertical: snap top edge to grid (leading edge of width)
@@ -358,6 +365,7 @@ export function Doors({
                 }
               }}
               onDragEnd={(e) => {
+                onDragLock?.(opening.id, false);
                 const node = e.target;
                 let newCenterX: number, newCenterY: number;
 
@@ -0,0 +1,204 @@
+"use client";
+
+import React from "react";
+import { Group, Circle, Rect, Line, Arc, Text } from "react-konva";
+import type { Point, ElectricalDevice } from "@/lib/types";
+import type { ReceptacleSuggestion } from "@/lib/electrical";
+import { ELECTRICAL_CONFIG, ELECTRICAL_CONFIGS } from "@/lib/constants";
+
+interface ElectricalProps {
+  devices: ElectricalDevice[];
+  pixelsPerFoot: number;
+  gridSize: number;
+  selectedDeviceId: string | null;
+  suggestions?: ReceptacleSuggestion[];
+  draggable: boolean;
+  onDeviceClick: (deviceId: string) => void;
+  onDeviceDragEnd: (deviceId: string, position: Point) => void;
+}
+
+const SYMBOL_COLOR = "#0f172a";
+const SELECTED_COLOR = "#2563eb";
+const LINK_COLOR = "#d97706";
+
+// Plan symbol drawn around the origin, with the wall above (-y) for wall-mounted devices
+function DeviceSymbol({ device, size, color, dashed }: {
+  device: Pick<ElectricalDevice, "type">;
+  size: number;
+  color: string;
+  dashed?: boolean;
+}) {
+  const r = size / 2;
+  const dash = dashed ? [3, 3] : undefined;
+  const stroke = { stroke: color, strokeWidth: 1.5, dash, listening: false };
+
+  switch (device.type) {
+    case "receptacle":
+    case "gfci-receptacle":
+      return (
+        <>
+          <Circle radius={r} fill="white" {...stroke} />
+          <Line points={[-r * 0.35, -r * 0.6, -r * 0.35, r * 0.6]} {...stroke} />
+          <Line points={[r * 0.35, -r * 0.6, r * 0.35, r * 0.6]} {...stroke} />
+          <Line points={[0, -r, 0, -r * 1.6]} {...stroke} />
+        </>
+      );
+    case "ceiling-light":
+      return (
+        <>
+          <Circle radius={r} fill="white" {...stroke} />
+          <Line points={[-r * 0.7, -r * 0.7, r * 0.7, r * 0.7]} {...stroke} />
+          <Line points={[-r * 0.7, r * 0.7, r * 0.7, -r * 0.7]} {...stroke} />
+        </>
+      );
+    case "recessed-light":
+      return (
+        <>
+          <Circle radius={r * 0.8} fill="white" {...stroke} />
+          <Circle radius={r * 0.35} fill={color} {...stroke} />
+        </>
+      );
+    case "wall-sconce":
+      return (
+        <>
+          <Arc innerRadius={0} outerRadius={r} angle={180} fill="white" {...stroke} />
+          <Line points={[-r, 0, r, 0]} {...stroke} />
+        </>
+      );
+    case "thermostat":
+    case "panel":
+      return (
+        <Rect
+          x={-r * (device.type === "panel" ? 1.4 : 1)}
+          y={-r * 0.8}
+          width={r * (device.type === "panel" ? 2.8 : 2)}
+          height={r * 1.6}
+          fill={device.type === "panel" ? "#e2e8f0" : "white"}
+          {...stroke}
+        />
+      );
+    case "switch":
+    case "three-way-switch":
+      return <Line points={[0, -r, 0, -r * 1.6]} {...stroke} />;
+    default:
+      return <Circle radius={r} fill="white" {...stroke} />;
+  }
+}
+
+// Receptacles, switches, lights, smart devices and the panel on the active level,
+// with dashed arcs from each switch to the lights it controls.
+export function Electrical({
+  devices,
+  pixelsPerFoot,
+  gridSize,
+  selectedDeviceId,
+  suggestions = [],
+  draggable,
+  onDeviceClick,
+  onDeviceDragEnd,
+}: ElectricalProps) {
+  const snap = (value: number) => Math.round(value / (gridSize / 4)) * (gridSize / 4);
+  const size = ELECTRICAL_CONFIG.SYMBOL_SIZE * pixelsPerFoot;
+  const byId = new Map(devices.map(d => [d.id, d]));
+
+  return (
+    <Group>
+      {/* Switch legs - curved like the home-run arcs on an electrical sheet */}
+      {devices.flatMap((device) =>
+        (device.controls ?? []).map((lightId) => {
+          const light = byId.get(lightId);
+          if (!light) return null;
+          const from = device.position;
+          const to = light.position;
+          const dx = to.x - from.x;
+          const dy = to.y - from.y;
+          const control = { x: (from.x + to.x) / 2 - dy * 0.25, y: (from.y + to.y) / 2 + dx * 0.25 };
+          return (
+            <Line
+              key={`${device.id}-${lightId}`}
+              points={[from.x, from.y, control.x, control.y, control.x, control.y, to.x, to.y]}
+              bezier
+              stroke={LINK_COLOR}
+              strokeWidth={device.id === selectedDeviceId ? 2 : 1.25}
+              dash={[6, 4]}
+              listening={false}
+            />
+          );
+        })
+      )}
+
+      {/* Suggested receptacles */}
+      {suggestions.map((suggestion, i) => (
+        <Group
+          key={`suggestion-${i}`}
+          x={suggestion.position.x}
+          y={suggestion.position.y}
+          rotation={suggestion.rotation}
+          opacity={0.6}
+          listening={false}
+        >
+          <DeviceSymbol device={suggestion} size={size} color={LINK_COLOR} dashed />
+        </Group>
+      ))}
+
+      {devices.map((device) => {
+        const isSelected = device.id === selectedDeviceId;
+        const color = isSelected ? SELECTED_COLOR : SYMBOL_COLOR;
+        const { tag } = ELECTRICAL_CONFIGS[device.type];
+
+        return (
+          <Group
+            key={device.id}
+            x={device.position.x}
+            y={device.position.y}
+            draggable={draggable}
+            onClick={() => onDeviceClick(device.id)}
+            onTap={() => onDeviceClick(device.id)}
+            onDragEnd={(e) => {
+              const position = { x: snap(e.target.x()), y: snap(e.target.y()) };
+              e.target.position(position);
+              onDeviceDragEnd(device.id, position);
+            }}
+            onMouseEnter={(e) => {
+              const container = e.target.getStage()?.container();
+              if (container && draggable) container.style.cursor = "move";
+            }}
+            onMouseLeave={(e) => {
+              const container = e.target.getStage()?.container();
+              if (container) container.style.cursor = "default";
+            }}
+          >
+            {/* Hit area so small symbols are easy to grab */}
+            <Circle radius={size * 0.75} fill="transparent" />
+            <Group rotation={device.rotation}>
+              <DeviceSymbol device={device} size={size} color={color} />
+            </Group>
+            {tag && (
+              <Text
+                x={-size}
+                y={-size * 0.3}
+                width={size * 2}
+                text={tag}
+                align="center"
+                fontSize={Math.max(7, size * 0.5)}
+                fontStyle="bold"
+                fill={color}
+                listening={false}
+              />
+            )}
+            {device.circuit && (
+              <Text
+                x={size * 0.6}
+                y={size * 0.4}
+                text={device.circuit}
+                fontSize={Math.max(6, size * 0.4)}
+                fill="#64748b"
+                listening={false}
+              />
+            )}
+          </Group>
+        );
+      })}
+    </Group>
+  );
+}
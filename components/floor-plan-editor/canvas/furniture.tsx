@@ -20,6 +20,8 @@ interface FurnitureProps {
   onMultiDragMove?: (delta: Point) => void;
   onMultiDragEnd?: (delta: Point) => void;
   zoom?: number;
+  lockedIds?: Set<string>; // Being dragged by someone else in a live session
+  onDragLock?: (furnitureId: string, dragging: boolean) => void;
 }
 
 export function Furniture({
@@ -36,6 +38,8 @@ export function Furniture({
   onMultiDragMove,
   onMultiDragEnd,
   zoom = 1,
+  lockedIds,
+  onDragLock,
 }: FurnitureProps) {
   const { gridSize, pixelsPerFoot } = config;
 
@@ -80,8 +84,9 @@ export function Furniture({
             key={item.id}
             x={item.position.x + previewOffset.x}
             y={item.position.y + previewOffset.y}
-            draggable
+            draggable={!lockedIds?.has(item.id)}
             onDragStart={(e) => {
+              onDragLock?.(item.id, true);
               // Track start position for multi-drag
               if (isMultiSelected && onMultiDragEnd) {
                 const group = e.target;
@@ -105,6 +110,7 @@ export function Furniture({
               }
             }}
             onDragEnd={(e) => {
+              onDragLock?.(item.id, false);
               const node = e.target;
               const newPos = { x: node.x(), y: node.y() };
 
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useEffect, useState } from "react";
+import { Image as KonvaImage, Group, Line, Circle, Text } from "react-konva";
+import type { Point } from "@/lib/types";
+import type { ImageUnderlaySettings } from "../types";
+
+interface ImageUnderlayProps {
+  underlay: ImageUnderlaySettings;
+  // Dragging is disabled while locked or while calibrating
+  draggable: boolean;
+  onMove: (position: Point) => void;
+}
+
+// Photo or scan used as a tracing reference beneath the plan
+export function ImageUnderlay({ underlay, draggable, onMove }: ImageUnderlayProps) {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    const img = new window.Image();
+    img.onload = () => {
+      if (!cancelled) setImage(img);
+    };
+    img.src = underlay.src;
+    return () => {
+      cancelled = true;
+    };
+  }, [underlay.src]);
+
+  if (!image || !underlay.visible) return null;
+
+  return (
+    <KonvaImage
+      image={image}
+      x={underlay.x}
+      y={underlay.y}
+      width={underlay.imageWidth}
+      height={underlay.imageHeight}
+      offsetX={underlay.imageWidth / 2}
+      offsetY={underlay.imageHeight / 2}
+      scaleX={underlay.scale}
+      scaleY={underlay.scale}
+      rotation={underlay.rotation}
+      opacity={underlay.opacity}
+      draggable={draggable}
+      listening={draggable}
+      onDragEnd={(e) => onMove({ x: e.target.x(), y: e.target.y() })}
+      onMouseEnter={(e) => {
+        const container = e.target.getStage()?.container();
+        if (container) container.style.cursor = "move";
+      }}
+      onMouseLeave={(e) => {
+        const container = e.target.getStage()?.container();
+        if (container) container.style.cursor = "default";
+      }}
+    />
+  );
+}
+
+interface CalibrationLineProps {
+  points: Point[];
+  previewPoint: Point | null;
+  pixelsPerFoot: number;
+}
+
+// Measuring line shown while picking the two calibration points
+export function CalibrationLine({ points, previewPoint, pixelsPerFoot }: CalibrationLineProps) {
+  if (points.length === 0) return null;
+
+  const end = points[1] ?? previewPoint;
+  const lengthFeet = end ? Math.hypot(end.x - points[0].x, end.y - points[0].y) / pixelsPerFoot : 0;
+
+  return (
+    <Group listening={false}>
+      {end && (
+        <>
+          <Line
+            points={[points[0].x, points[0].y, end.x, end.y]}
+            stroke="#f97316"
+            strokeWidth={2}
+            dash={points[1] ? undefined : [6, 4]}
+          />
+          <Text
+            x={(points[0].x + end.x) / 2 + 6}
+            y={(points[0].y + end.y) / 2 + 6}
+            text={`${lengthFeet.toFixed(1)}' (current scale)`}
+            fontSize={11}
+            fill="#c2410c"
+          />
+        </>
+      )}
+      {points.map((point, i) => (
+        <Circle key={i} x={point.x} y={point.y} radius={4} fill="#f97316" stroke="white" strokeWidth={1} />
+      ))}
+    </Group>
+  );
+}
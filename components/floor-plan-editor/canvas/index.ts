@@ -1,9 +1,17 @@
 export { Grid } from "./grid";
 export { ADUBoundary } from "./adu-boundary";
 export { Rooms } from "./rooms";
+export { Walls } from "./walls";
 export { Doors } from "./doors";
 export { Windows } from "./windows";
 export { Furniture } from "./furniture";
 export { DrawingPreview } from "./drawing-preview";
 export { MarqueeSelection, getBoundingBox, rectsIntersect } from "./marquee-selection";
 export { CameraMarker } from "./camera-marker";
+export { ReferenceUnderlay } from "./reference-underlay";
+export { ImageUnderlay, CalibrationLine } from "./image-underlay";
+export { LevelGhost } from "./level-ghost";
+export { Stairs } from "./stairs";
+export { Electrical } from "./electrical";
+export { Plumbing } from "./plumbing";
+export { RemotePresence } from "./remote-presence";
@@ -0,0 +1,72 @@
+"use client";
+
+import React from "react";
+import { Group, Line, Text } from "react-konva";
+import type { LevelContent } from "../types";
+
+interface LevelGhostProps {
+  content: LevelContent;
+  pixelsPerFoot: number;
+  label: string;
+}
+
+// Faded, non-interactive view of the level below the one being edited
+export function LevelGhost({ content, pixelsPerFoot, label }: LevelGhostProps) {
+  if (content.rooms.length === 0) return null;
+
+  return (
+    <Group listening={false} opacity={0.35}>
+      {content.rooms.map((room) => {
+        const xs = room.vertices.map((v) => v.x);
+        const ys = room.vertices.map((v) => v.y);
+        const centerX = (Math.min(...xs) + Math.max(...xs)) / 2;
+        const centerY = (Math.min(...ys) + Math.max(...ys)) / 2;
+
+        return (
+          <Group key={room.id}>
+            <Line
+              points={room.vertices.flatMap((v) => [v.x, v.y])}
+              closed
+              fill="#cbd5e1"
+              stroke="#475569"
+              strokeWidth={1.5}
+              dash={[6, 4]}
+              perfectDrawEnabled={false}
+            />
+            <Text
+              x={centerX - 60}
+              y={centerY - 6}
+              width={120}
+              align="center"
+              text={room.name}
+              fontSize={11}
+              fill="#334155"
+            />
+          </Group>
+        );
+      })}
+      {content.doors.map((door) => {
+        const half = (door.width * pixelsPerFoot) / 2;
+        return (
+          <Line
+            key={door.id}
+            x={door.position.x}
+            y={door.position.y}
+            rotation={door.rotation}
+            points={[-half, 0, half, 0]}
+            stroke="#f8fafc"
+            strokeWidth={4}
+          />
+        );
+      })}
+      <Text
+        x={Math.min(...content.rooms.flatMap((r) => r.vertices.map((v) => v.x)))}
+        y={Math.min(...content.rooms.flatMap((r) => r.vertices.map((v) => v.y))) - 16}
+        text={`${label} (below)`}
+        fontSize={11}
+        fontStyle="italic"
+        fill="#475569"
+      />
+    </Group>
+  );
+}
@@ -0,0 +1,145 @@
+"use client";
+
+import React from "react";
+import { Group, Circle, Rect, Line, Text } from "react-konva";
+import type { Point, LevelId } from "@/lib/types";
+import type { PlumbingReport } from "@/lib/plumbing";
+
+interface PlumbingProps {
+  report: PlumbingReport;
+  levelId: LevelId;
+  pixelsPerFoot: number;
+  sewerConnection: Point | null;
+  draggable: boolean;
+  onSewerConnectionDragEnd: (position: Point) => void;
+}
+
+const WET_WALL_COLOR = "#38bdf8";
+const SHARED_WET_WALL_COLOR = "#0891b2";
+const DRAIN_COLOR = "#1e3a8a";
+const LATERAL_COLOR = "#15803d";
+
+// Pipes run square to the building, so routes are drawn as an L
+const elbow = (from: Point, to: Point) => [from.x, from.y, to.x, from.y, to.x, to.y];
+
+// Wet walls, fixture units and the estimated drain routes on the active level,
+// plus the lateral out to the sewer connection.
+export function Plumbing({
+  report,
+  levelId,
+  pixelsPerFoot,
+  sewerConnection,
+  draggable,
+  onSewerConnectionDragEnd,
+}: PlumbingProps) {
+  const markerSize = pixelsPerFoot * 0.9;
+  const fontSize = Math.max(7, pixelsPerFoot * 0.35);
+
+  return (
+    <Group>
+      {/* Wet walls - shared ones (fixtures on both sides) stand out */}
+      {report.wetWalls.filter(w => w.levelId === levelId).map((wall) => (
+        <Line
+          key={wall.id}
+          points={[wall.start.x, wall.start.y, wall.end.x, wall.end.y]}
+          stroke={wall.shared ? SHARED_WET_WALL_COLOR : WET_WALL_COLOR}
+          strokeWidth={pixelsPerFoot * 0.5}
+          opacity={0.45}
+          lineCap="round"
+          listening={false}
+        />
+      ))}
+
+      {/* Estimated drain routes */}
+      {report.route.filter(s => s.levelId === levelId && s.kind !== "lateral").map((segment, i) => (
+        <Line
+          key={`route-${i}`}
+          points={elbow(segment.from, segment.to)}
+          stroke={DRAIN_COLOR}
+          strokeWidth={segment.kind === "main" ? 2 : 1}
+          dash={segment.kind === "main" ? [8, 4] : [4, 3]}
+          listening={false}
+        />
+      ))}
+      {report.route.filter(s => s.kind === "lateral").map((segment, i) => (
+        <Line
+          key={`lateral-${i}`}
+          points={[segment.from.x, segment.from.y, segment.to.x, segment.to.y]}
+          stroke={LATERAL_COLOR}
+          strokeWidth={2.5}
+          dash={[10, 5]}
+          listening={false}
+        />
+      ))}
+
+      {/* Fixture units */}
+      {report.fixtures.filter(f => f.levelId === levelId).map((fixture) => (
+        <Group key={fixture.id} x={fixture.position.x} y={fixture.position.y} listening={false}>
+          <Rect
+            x={-fontSize * 1.8}
+            y={-fontSize * 0.7}
+            width={fontSize * 3.6}
+            height={fontSize * 1.4}
+            cornerRadius={fontSize * 0.3}
+            fill="white"
+            stroke={DRAIN_COLOR}
+            strokeWidth={0.75}
+            opacity={0.9}
+          />
+          <Text
+            x={-fontSize * 1.8}
+            y={-fontSize * 0.5}
+            width={fontSize * 3.6}
+            text={`${fixture.dfu} DFU`}
+            align="center"
+            fontSize={fontSize}
+            fontStyle="bold"
+            fill={DRAIN_COLOR}
+          />
+        </Group>
+      ))}
+
+      {report.buildingExit && (
+        <Rect
+          x={report.buildingExit.x - markerSize / 4}
+          y={report.buildingExit.y - markerSize / 4}
+          width={markerSize / 2}
+          height={markerSize / 2}
+          fill={DRAIN_COLOR}
+          listening={false}
+        />
+      )}
+
+      {/* Sewer lateral connection */}
+      {sewerConnection && (
+        <Group
+          x={sewerConnection.x}
+          y={sewerConnection.y}
+          draggable={draggable}
+          onDragEnd={(e) => onSewerConnectionDragEnd({ x: e.target.x(), y: e.target.y() })}
+          onMouseEnter={(e) => {
+            const container = e.target.getStage()?.container();
+            if (container && draggable) container.style.cursor = "move";
+          }}
+          onMouseLeave={(e) => {
+            const container = e.target.getStage()?.container();
+            if (container) container.style.cursor = "default";
+          }}
+        >
+          <Circle radius={markerSize / 2} fill="white" stroke={LATERAL_COLOR} strokeWidth={2} />
+          <Text
+            x={-markerSize / 2}
+            y={-fontSize / 2}
+            width={markerSize}
+            text="S"
+            align="center"
+            fontSize={fontSize}
+            fontStyle="bold"
+            fill={LATERAL_COLOR}
+            listening={false}
+          />
+        </Group>
+      )}
+    </Group>
+  );
+}
@@ -0,0 +1,31 @@
+"use client";
+
+import React from "react";
+import { Group, Line } from "react-konva";
+import type { ReferenceUnderlayShape } from "../import/types";
+
+interface ReferenceUnderlayProps {
+  shapes: ReferenceUnderlayShape[];
+  opacity?: number;
+}
+
+// Locked tracing reference from an imported plan - drawn beneath rooms and never interactive
+export function ReferenceUnderlay({ shapes, opacity = 0.6 }: ReferenceUnderlayProps) {
+  if (shapes.length === 0) return null;
+
+  return (
+    <Group listening={false} opacity={opacity}>
+      {shapes.map((shape) => (
+        <Line
+          key={shape.id}
+          points={shape.points.flatMap((p) => [p.x, p.y])}
+          closed={shape.closed}
+          stroke="#64748b"
+          strokeWidth={1}
+          dash={[4, 3]}
+          perfectDrawEnabled={false}
+        />
+      ))}
+    </Group>
+  );
+}
@@ -0,0 +1,134 @@
+"use client";
+
+import React from "react";
+import { Group, Line, Rect, Text } from "react-konva";
+import type { Door, Window, Point, Room, LevelId } from "@/lib/types";
+import type { CollabEntityRef, CollabLock, CollabPeer } from "@/lib/collab";
+import type { Furniture } from "../types";
+
+interface RemotePresenceProps {
+  peers: CollabPeer[];
+  locks: CollabLock[];
+  levelId: LevelId;
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: Furniture[];
+  aduBoundary: Point[];
+  pixelsPerFoot: number;
+  zoom: number;
+}
+
+const flat = (points: Point[]) => points.flatMap((p) => [p.x, p.y]);
+
+// Outline of one entity in a collaborator's color - dashed while selected, solid while they drag it
+function EntityOutline({
+  entity,
+  props,
+  color,
+  locked,
+  pixelsPerFoot,
+  zoom,
+}: {
+  entity: CollabEntityRef;
+  props: Omit<RemotePresenceProps, "peers" | "locks" | "levelId" | "zoom" | "pixelsPerFoot">;
+  color: string;
+  locked: boolean;
+  pixelsPerFoot: number;
+  zoom: number;
+}) {
+  const stroke = {
+    stroke: color,
+    strokeWidth: (locked ? 3 : 2) / zoom,
+    dash: locked ? undefined : [8 / zoom, 4 / zoom],
+    listening: false,
+  };
+
+  switch (entity.entityType) {
+    case "room": {
+      const room = props.rooms.find((r) => r.id === entity.entityId);
+      return room ? <Line points={flat(room.vertices)} closed {...stroke} /> : null;
+    }
+    case "boundary":
+      return props.aduBoundary.length > 2 ? <Line points={flat(props.aduBoundary)} closed {...stroke} /> : null;
+    case "furniture": {
+      const item = props.furniture.find((f) => f.id === entity.entityId);
+      if (!item) return null;
+      const isRotated = item.rotation % 180 === 90;
+      const width = (isRotated ? item.height : item.width) * pixelsPerFoot + 8 / zoom;
+      const height = (isRotated ? item.width : item.height) * pixelsPerFoot + 8 / zoom;
+      return <Rect x={item.position.x - width / 2} y={item.position.y - height / 2} width={width} height={height} {...stroke} />;
+    }
+    case "door":
+    case "window": {
+      const list: (Door | Window)[] = entity.entityType === "door" ? props.doors : props.windows;
+      const opening = list.find((o) => o.id === entity.entityId);
+      if (!opening) return null;
+      const half = (opening.width * pixelsPerFoot) / 2;
+      return (
+        <Group x={opening.position.x} y={opening.position.y} rotation={opening.rotation} listening={false}>
+          <Rect x={-half - 4 / zoom} y={-8 / zoom} width={half * 2 + 8 / zoom} height={16 / zoom} {...stroke} />
+        </Group>
+      );
+    }
+    default:
+      return null;
+  }
+}
+
+// Cursors, selections and drag locks of everyone else editing the same level
+export function RemotePresence({ peers, locks, levelId, pixelsPerFoot, zoom, ...content }: RemotePresenceProps) {
+  const onLevel = peers.filter((peer) => peer.levelId === levelId);
+  if (onLevel.length === 0) return null;
+
+  return (
+    <Group listening={false}>
+      {onLevel.map((peer) => {
+        const held = locks.filter((lock) => lock.clientId === peer.clientId);
+        const selected = peer.selection.filter(
+          (ref) => !held.some((lock) => lock.entityType === ref.entityType && lock.entityId === ref.entityId)
+        );
+
+        return (
+          <Group key={peer.clientId}>
+            {selected.map((ref) => (
+              <EntityOutline
+                key={`sel-${ref.entityType}-${ref.entityId}`}
+                entity={ref}
+                props={content}
+                color={peer.color}
+                locked={false}
+                pixelsPerFoot={pixelsPerFoot}
+                zoom={zoom}
+              />
+            ))}
+            {held.map((lock) => (
+              <EntityOutline
+                key={`lock-${lock.entityType}-${lock.entityId}`}
+                entity={lock}
+                props={content}
+                color={peer.color}
+                locked
+                pixelsPerFoot={pixelsPerFoot}
+                zoom={zoom}
+              />
+            ))}
+            {peer.cursor && (
+              <Group x={peer.cursor.x} y={peer.cursor.y} scaleX={1 / zoom} scaleY={1 / zoom}>
+                <Line
+                  points={[0, 0, 0, 16, 4.5, 12, 8, 19, 10.5, 18, 7, 11, 12, 11]}
+                  closed
+                  fill={peer.color}
+                  stroke="#ffffff"
+                  strokeWidth={1}
+                />
+                <Rect x={10} y={18} width={peer.name.length * 6.5 + 10} height={18} cornerRadius={4} fill={peer.color} />
+                <Text x={15} y={22} text={peer.name} fontSize={11} fill="#ffffff" />
+              </Group>
+            )}
+          </Group>
+        );
+      })}
+    </Group>
+  );
+}
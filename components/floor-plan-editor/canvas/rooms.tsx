@@ -59,6 +59,9 @@ interface RoomsProps {
   transformerRef: React.RefObject<Konva.Transformer | null>;
   roomRefs: React.MutableRefObject<Map<string, Konva.Rect>>;
   zoom?: number;
+  lockedIds?: Set<string>; // Being dragged by someone else in a live session
+  onDragLock?: (roomId: string, dragging: boolean) => void;
+  children?: React.ReactNode; // The wall layer - drawn over the room fills, under the editing handles
 }
 
 export function Rooms({
@@ -82,6 +85,9 @@ export function Rooms({
   transformerRef,
   roomRefs,
   zoom = 1,
+  lockedIds,
+  onDragLock,
+  children,
 }: RoomsProps) {
   const { gridSize, pixelsPerFoot, extendedCanvasSize } = config;
 
@@ -335,112 +341,6 @@ export function Rooms({
     return segments;
   }, [doors, windows, pixelsPerFoot, isOpeningOnWall]);
 
-  // Get wall segments excluding openings (for room outlines)
-  const getWallSegmentsExcludingOpenings = useCallback((roomVertices: Point[], openPassages: Door[]) => {
-    const segments: { start: Point; end: Point }[] = [];
-    const tolerance = gridSize / 4;
-
-    for (let i = 0; i < roomVertices.length; i++) {
-      const start = roomVertices[i];
-      const end = roomVertices[(i + 1) % roomVertices.length];
-
-      const isHorizontalEdge = Math.abs(start.y - end.y) < tolerance;
-      const isVerticalEdge = Math.abs(start.x - end.x) < tolerance;
-
-      const edgeOpenings: { cutStart: number; cutEnd: number }[] = [];
-
-      for (const opening of openPassages) {
-        const openingCenterX = opening.position.x;
-        const openingCenterY = opening.position.y;
-        const isOpeningVertical = opening.rotation % 180 === 90;
-        const openingHalfWidth = (opening.width * pixelsPerFoot) / 2;
-
-        if (isHorizontalEdge && !isOpeningVertical) {
-          const edgeY = (start.y + end.y) / 2;
-          if (Math.abs(openingCenterY - edgeY) < tolerance) {
-            const minX = Math.min(start.x, end.x);
-            const maxX = Math.max(start.x, end.x);
-            if (openingCenterX >= minX - tolerance && openingCenterX <= maxX + tolerance) {
-              edgeOpenings.push({
-                cutStart: openingCenterX - openingHalfWidth,
-                cutEnd: openingCenterX + openingHalfWidth,
-              });
-            }
-          }
-        } else if (isVerticalEdge && isOpeningVertical) {
-          const edgeX = (start.x + end.x) / 2;
-          if (Math.abs(openingCenterX - edgeX) < tolerance) {
-            const minY = Math.min(start.y, end.y);
-            const maxY = Math.max(start.y, end.y);
-            if (openingCenterY >= minY - tolerance && openingCenterY <= maxY + tolerance) {
-              edgeOpenings.push({
-                cutStart: openingCenterY - openingHalfWidth,
-                cutEnd: openingCenterY + openingHalfWidth,
-              });
-            }
-          }
-        }
-      }
-
-      if (edgeOpenings.length === 0) {
-        segments.push({ start, end });
-      } else {
-        edgeOpenings.sort((a, b) => a.cutStart - b.cutStart);
-
-        if (isHorizontalEdge) {
-          const edgeStart = Math.min(start.x, end.x);
-          const edgeEnd = Math.max(start.x, end.x);
-          const y = start.y;
-
-          let currentPos = edgeStart;
-          for (const opening of edgeOpenings) {
-            if (opening.cutStart > currentPos) {
-              segments.push({
-                start: { x: currentPos, y },
-                end: { x: Math.min(opening.cutStart, edgeEnd), y },
-              });
-            }
-            currentPos = Math.max(currentPos, opening.cutEnd);
-          }
-          if (currentPos < edgeEnd) {
-            segments.push({
-              start: { x: currentPos, y },
-              end: { x: edgeEnd, y },
-            });
-          }
-        } else if (isVerticalEdge) {
-          const edgeStart = Math.min(start.y, end.y);
-          const edgeEnd = Math.max(start.y, end.y);
-          const x = start.x;
-
-          let currentPos = edgeStart;
-          for (const opening of edgeOpenings) {
-            if (opening.cutStart > currentPos) {
-              segments.push({
-                start: { x, y: currentPos },
-                end: { x, y: Math.min(opening.cutStart, edgeEnd) },
-              });
-            }
-            currentPos = Math.max(currentPos, opening.cutEnd);
-          }
-          if (currentPos < edgeEnd) {
-            segments.push({
-              start: { x, y: currentPos },
-              end: { x, y: edgeEnd },
-            });
-          }
-        } else {
-          segments.push({ start, end });
-        }
-      }
-    }
-
-    return segments;
-  }, [gridSize, pixelsPerFoot]);
-
-  // Get open passages (doors with type "opening")
-  const openPassages = doors.filter(d => d.type === "opening");
-
   return (
     <Group>
       {rooms.map((room) => {
@@ -459,8 +359,6 @@ export function Rooms({
           ? room.vertices.map(v => ({ x: v.x + previewOffset.x, y: v.y + previewOffset.y }))
           : room.vertices;
 
-        const wallSegments = getWallSegmentsExcludingOpenings(renderVertices, openPassages);
-
         // Calculate label position (always inside the shape)
         const labelPos = findLabelPosition(renderVertices);
         const centerX = labelPos.x;
@@ -505,13 +403,14 @@ export function Rooms({
                 height={height}
                 fill={room.color}
                 opacity={0.6}
-                stroke={isSelected ? darkenColor(room.color, 0.6) : isMultiSelected ? "#3b82f6" : darkenColor(room.color, 0.3)}
+                stroke={isSelected ? darkenColor(room.color, 0.6) : isMultiSelected ? "#3b82f6" : undefined}
                 strokeWidth={isSelected || isMultiSelected ? 3 : 2}
-                draggable
+                draggable={!lockedIds?.has(room.id)}
                 onClick={(e) => onRoomClick(room.id, e)}
                 onTap={(e) => onRoomClick(room.id, e)}
                 onDragStart={(e) => {
                   onDragStart?.();
+                  onDragLock?.(room.id, true);
                   // Track start position for multi-drag
                   if (isMultiSelected && onMultiDragEnd) {
                     const node = e.target;
@@ -562,6 +461,7 @@ export function Rooms({
                 }}
                 onDragEnd={(e) => {
                   setLivePreview(null);
+                  onDragLock?.(room.id, false);
                   // Handle multi-drag
                   if (isMultiSelected && onMultiDragEnd && multiDragStartRef.current) {
                     const node = e.target;
@@ -583,6 +483,7 @@ export function Rooms({
                   // Disable transform during multi-selection
                   if (hasMultiSelection) return;
                   onDragStart?.();
+                  onDragLock?.(room.id, true);
                 }}
                 onTransform={(e) => {
                   // Disable transform during multi-selection
@@ -612,22 +513,11 @@ export function Rooms({
                   // Disable transform during multi-selection
                   if (hasMultiSelection) return;
                   setLivePreview(null);
+                  onDragLock?.(room.id, false);
                   onRoomTransform(room.id, e);
                 }}
               />
 
-              {/* Wall lines (excluding openings) - darker shade of room color */}
-              {wallSegments.map((segment, i) => (
-                <Line
-                  key={`wall-${room.id}-${i}`}
-                  points={[segment.start.x, segment.start.y, segment.end.x, segment.end.y]}
-                  stroke={darkenColor(room.color, 0.5)}
-                  strokeWidth={4}
-                  lineCap="round"
-                  listening={false}
-                />
-              ))}
-
               {/* Room label */}
               {(() => {
                 const dynamicFontSize = calculateDynamicFontSize(width, height, room.name.length);
@@ -684,9 +574,10 @@ export function Rooms({
               )}
               {/* Draggable group for the polygon shape (fill, walls, label only) */}
               <Group
-                draggable
+                draggable={!lockedIds?.has(room.id)}
                 onDragStart={(e) => {
                   onDragStart?.();
+                  onDragLock?.(room.id, true);
                   // Track start position for multi-drag
                   if (isMultiSelected && onMultiDragEnd) {
                     const group = e.target;
@@ -740,6 +631,7 @@ export function Rooms({
                 }}
                 onDragEnd={(e) => {
                   setLivePreview(null);
+                  onDragLock?.(room.id, false);
                   const group = e.target;
                   const deltaX = snapToGrid(group.x());
                   const deltaY = snapToGrid(group.y());
@@ -773,24 +665,12 @@ export function Rooms({
                   closed
                   fill={room.color}
                   opacity={0.6}
-                  stroke={isSelected ? darkenColor(room.color, 0.6) : isMultiSelected ? "#3b82f6" : darkenColor(room.color, 0.3)}
+                  stroke={isSelected ? darkenColor(room.color, 0.6) : isMultiSelected ? "#3b82f6" : undefined}
                   strokeWidth={isSelected || isMultiSelected ? 3 : 2}
                   onClick={(e) => onRoomClick(room.id, e)}
                   onTap={(e) => onRoomClick(room.id, e)}
                 />
 
-                {/* Wall lines (excluding openings) - darker shade of room color */}
-                {wallSegments.map((segment, i) => (
-                  <Line
-                    key={`wall-${room.id}-${i}`}
-                    points={[segment.start.x, segment.start.y, segment.end.x, segment.end.y]}
-                    stroke={darkenColor(room.color, 0.5)}
-                    strokeWidth={4}
-                    lineCap="round"
-                    listening={false}
-                  />
-                ))}
-
                 {/* Room label */}
                 {(() => {
                   const dynamicFontSize = calculateDynamicFontSize(polyWidth, polyHeight, room.name.length);
@@ -814,151 +694,167 @@ export function Rooms({
                   );
                 })()}
               </Group>
+            </React.Fragment>
+          );
+        }
+      })}
 
-              {/* Vertex handles OUTSIDE the draggable group - world coordinates */}
-              {/* Hidden during multi-selection to prevent shape editing */}
-              {isSelected && !hasMultiSelection && room.vertices.map((vertex, index) => (
+      {/* Walls, drawn over the room fills */}
+      {children}
+
+      {/* Polygon editing handles, kept above the walls */}
+      {rooms.map((room) => {
+        if (room.vertices.length === 4) return null;
+        const isSelected = selectedRoomId === room.id;
+        return (
+          <React.Fragment key={`handles-${room.id}`}>
+            {/* Vertex handles OUTSIDE the draggable group - world coordinates */}
+            {/* Hidden during multi-selection to prevent shape editing */}
+            {isSelected && !hasMultiSelection && room.vertices.map((vertex, index) => (
+              <Circle
+                key={`vertex-${room.id}-${index}`}
+                x={vertex.x}
+                y={vertex.y}
+                radius={8 / zoom}
+                fill="#3b82f6"
+                stroke="#ffffff"
+                strokeWidth={2 / zoom}
+                draggable={!lockedIds?.has(room.id)}
+                onDragStart={() => {
+                  onDragStart?.();
+                  onDragLock?.(room.id, true);
+                  // Initialize preview with current vertices
+                  setPolygonPreview({
+                    roomId: room.id,
+                    vertexIndex: index,
+                    originalVertices: [...room.vertices],
+                    previewVertices: [...room.vertices],
+                    previewArea: room.area,
+                  });
+                }}
+                onDragMove={(e) => {
+                  const pos = e.target.position();
+                  const snappedPos = { x: snapToGrid(pos.x), y: snapToGrid(pos.y) };
+                  polygonDragBufferRef.current = {
+                    roomId: room.id,
+                    vertexIndex: index,
+                    pos: snappedPos,
+                  };
+                  e.target.position(snappedPos);
+
+                  // Update preview vertices
+                  const newVertices = [...room.vertices];
+                  newVertices[index] = snappedPos;
+                  const newArea = calculatePolygonArea(newVertices);
+                  setPolygonPreview({
+                    roomId: room.id,
+                    vertexIndex: index,
+                    originalVertices: room.vertices,
+                    previewVertices: newVertices,
+                    previewArea: Math.round(newArea),
+                  });
+                }}
+                onDragEnd={() => {
+                  setPolygonPreview(null);
+                  onDragLock?.(room.id, false);
+                  if (polygonDragBufferRef.current) {
+                    const { roomId, vertexIndex, pos } = polygonDragBufferRef.current;
+                    onVertexDrag(roomId, vertexIndex, pos);
+                    polygonDragBufferRef.current = null;
+                  }
+                }}
+                onDblClick={() => onVertexRemove(room.id, index)}
+                onDblTap={() => onVertexRemove(room.id, index)}
+                style={{ cursor: "move" }}
+              />
+            ))}
+
+            {/* Midpoint handles OUTSIDE the draggable group - world coordinates */}
+            {/* Hidden during multi-selection to prevent shape editing */}
+            {isSelected && !hasMultiSelection && onAddVertex && room.vertices.map((vertex, vIndex) => {
+              const nextVertex = room.vertices[(vIndex + 1) % room.vertices.length];
+              const midpoint = {
+                x: (vertex.x + nextVertex.x) / 2,
+                y: (vertex.y + nextVertex.y) / 2,
+              };
+
+              return (
                 <Circle
-                  key={`vertex-${room.id}-${index}`}
-                  x={vertex.x}
-                  y={vertex.y}
-                  radius={8 / zoom}
-                  fill="#3b82f6"
-                  stroke="#ffffff"
+                  key={`midpoint-${room.id}-${vIndex}`}
+                  x={midpoint.x}
+                  y={midpoint.y}
+                  radius={6 / zoom}
+                  fill="#ffffff"
+                  stroke="#961818"
                   strokeWidth={2 / zoom}
-                  draggable
+                  draggable={!lockedIds?.has(room.id)}
                   onDragStart={() => {
                     onDragStart?.();
-                    // Initialize preview with current vertices
+                    onDragLock?.(room.id, true);
+                    // Create preview with new vertex inserted at the midpoint position
+                    const newVertices = [
+                      ...room.vertices.slice(0, vIndex + 1),
+                      { ...midpoint }, // New vertex starts at midpoint
+                      ...room.vertices.slice(vIndex + 1),
+                    ];
+                    const newArea = calculatePolygonArea(newVertices);
                     setPolygonPreview({
                       roomId: room.id,
-                      vertexIndex: index,
+                      vertexIndex: vIndex + 1, // The new vertex index
                       originalVertices: [...room.vertices],
-                      previewVertices: [...room.vertices],
-                      previewArea: room.area,
+                      previewVertices: newVertices,
+                      previewArea: Math.round(newArea),
+                      isMidpointDrag: true,
+                      insertAfterIndex: vIndex,
                     });
                   }}
                   onDragMove={(e) => {
                     const pos = e.target.position();
-                    const snappedPos = { x: snapToGrid(pos.x), y: snapToGrid(pos.y) };
-                    polygonDragBufferRef.current = {
-                      roomId: room.id,
-                      vertexIndex: index,
-                      pos: snappedPos,
-                    };
-                    e.target.position(snappedPos);
-
-                    // Update preview vertices
-                    const newVertices = [...room.vertices];
-                    newVertices[index] = snappedPos;
+                    const snapped = { x: snapToGrid(pos.x), y: snapToGrid(pos.y) };
+                    const constrained = constrainToCanvas(snapped);
+                    e.target.position(constrained);
+
+                    // Update preview with the new vertex position
+                    const newVertices = [
+                      ...room.vertices.slice(0, vIndex + 1),
+                      constrained, // New vertex at dragged position
+                      ...room.vertices.slice(vIndex + 1),
+                    ];
                     const newArea = calculatePolygonArea(newVertices);
                     setPolygonPreview({
                       roomId: room.id,
-                      vertexIndex: index,
+                      vertexIndex: vIndex + 1,
                       originalVertices: room.vertices,
                       previewVertices: newVertices,
                       previewArea: Math.round(newArea),
+                      isMidpointDrag: true,
+                      insertAfterIndex: vIndex,
                     });
                   }}
-                  onDragEnd={() => {
+                  onDragEnd={(e) => {
                     setPolygonPreview(null);
-                    if (polygonDragBufferRef.current) {
-                      const { roomId, vertexIndex, pos } = polygonDragBufferRef.current;
-                      onVertexDrag(roomId, vertexIndex, pos);
-                      polygonDragBufferRef.current = null;
+                    onDragLock?.(room.id, false);
+                    const newPos = { x: snapToGrid(e.target.x()), y: snapToGrid(e.target.y()) };
+
+                    // Only insert if actually moved from midpoint
+                    const dist = Math.sqrt(
+                      Math.pow(newPos.x - midpoint.x, 2) +
+                      Math.pow(newPos.y - midpoint.y, 2)
+                    );
+
+                    if (dist > gridSize / 2) {
+                      onAddVertex(room.id, vIndex, newPos);
                     }
+
+                    // Reset the circle position (it will re-render at the new midpoint)
+                    e.target.x(midpoint.x);
+                    e.target.y(midpoint.y);
                   }}
-                  onDblClick={() => onVertexRemove(room.id, index)}
-                  onDblTap={() => onVertexRemove(room.id, index)}
-                  style={{ cursor: "move" }}
                 />
-              ))}
-
-              {/* Midpoint handles OUTSIDE the draggable group - world coordinates */}
-              {/* Hidden during multi-selection to prevent shape editing */}
-              {isSelected && !hasMultiSelection && onAddVertex && room.vertices.map((vertex, vIndex) => {
-                const nextVertex = room.vertices[(vIndex + 1) % room.vertices.length];
-                const midpoint = {
-                  x: (vertex.x + nextVertex.x) / 2,
-                  y: (vertex.y + nextVertex.y) / 2,
-                };
-
-                return (
-                  <Circle
-                    key={`midpoint-${room.id}-${vIndex}`}
-                    x={midpoint.x}
-                    y={midpoint.y}
-                    radius={6 / zoom}
-                    fill="#ffffff"
-                    stroke="#961818"
-                    strokeWidth={2 / zoom}
-                    draggable
-                    onDragStart={() => {
-                      onDragStart?.();
-                      // Create preview with new vertex inserted at the midpoint position
-                      const newVertices = [
-                        ...room.vertices.slice(0, vIndex + 1),
-                        { ...midpoint }, // New vertex starts at midpoint
-                        ...room.vertices.slice(vIndex + 1),
-                      ];
-                      const newArea = calculatePolygonArea(newVertices);
-                      setPolygonPreview({
-                        roomId: room.id,
-                        vertexIndex: vIndex + 1, // The new vertex index
-                        originalVertices: [...room.vertices],
-                        previewVertices: newVertices,
-                        previewArea: Math.round(newArea),
-                        isMidpointDrag: true,
-                        insertAfterIndex: vIndex,
-                      });
-                    }}
-                    onDragMove={(e) => {
-                      const pos = e.target.position();
-                      const snapped = { x: snapToGrid(pos.x), y: snapToGrid(pos.y) };
-                      const constrained = constrainToCanvas(snapped);
-                      e.target.position(constrained);
-
-                      // Update preview with the new vertex position
-                      const newVertices = [
-                        ...room.vertices.slice(0, vIndex + 1),
-                        constrained, // New vertex at dragged position
-                        ...room.vertices.slice(vIndex + 1),
-                      ];
-                      const newArea = calculatePolygonArea(newVertices);
-                      setPolygonPreview({
-                        roomId: room.id,
-                        vertexIndex: vIndex + 1,
-                        originalVertices: room.vertices,
-                        previewVertices: newVertices,
-                        previewArea: Math.round(newArea),
-                        isMidpointDrag: true,
-                        insertAfterIndex: vIndex,
-                      });
-                    }}
-                    onDragEnd={(e) => {
-                      setPolygonPreview(null);
-                      const newPos = { x: snapToGrid(e.target.x()), y: snapToGrid(e.target.y()) };
-
-                      // Only insert if actually moved from midpoint
-                      const dist = Math.sqrt(
-                        Math.pow(newPos.x - midpoint.x, 2) +
-                        Math.pow(newPos.y - midpoint.y, 2)
-                      );
-
-                      if (dist > gridSize / 2) {
-                        onAddVertex(room.id, vIndex, newPos);
-                      }
-
-                      // Reset the circle position (it will re-render at the new midpoint)
-                      e.target.x(midpoint.x);
-                      e.target.y(midpoint.y);
-                    }}
-                  />
-                );
-              })}
-            </React.Fragment>
-          );
-        }
+              );
+            })}
+          </React.Fragment>
+        );
       })}
 
       {/* Wall Length Measurements */}
@@ -0,0 +1,121 @@
+"use client";
+
+import React from "react";
+import { Group, Rect, Line, Arrow, Text } from "react-konva";
+import type { Point, LevelId, Stair } from "@/lib/types";
+import { STAIR_CONFIG } from "@/lib/constants";
+
+interface StairsProps {
+  stairs: Stair[];
+  activeLevelId: LevelId;
+  pixelsPerFoot: number;
+  gridSize: number;
+  selectedStairId: string | null;
+  draggable: boolean;
+  onStairClick: (stairId: string) => void;
+  onStairDragEnd: (stairId: string, position: Point) => void;
+}
+
+// Stair runs on the lower level and stairwell openings on the upper level.
+// Both levels share the same footprint, so moving a stair on either level moves it on both.
+export function Stairs({
+  stairs,
+  activeLevelId,
+  pixelsPerFoot,
+  gridSize,
+  selectedStairId,
+  draggable,
+  onStairClick,
+  onStairDragEnd,
+}: StairsProps) {
+  const snap = (value: number) => Math.round(value / (gridSize / 2)) * (gridSize / 2);
+
+  return (
+    <Group>
+      {stairs.map((stair) => {
+        const isSelected = stair.id === selectedStairId;
+        const isUpperLevel = stair.toLevel === activeLevelId;
+        const run = stair.length * pixelsPerFoot;
+        const width = stair.width * pixelsPerFoot;
+        const treadCount = Math.max(1, Math.round(stair.length / STAIR_CONFIG.TREAD_DEPTH));
+        const tread = run / treadCount;
+
+        return (
+          <Group
+            key={stair.id}
+            x={stair.position.x}
+            y={stair.position.y}
+            rotation={stair.rotation}
+            draggable={draggable}
+            onClick={() => onStairClick(stair.id)}
+            onTap={() => onStairClick(stair.id)}
+            onDragEnd={(e) => {
+              const position = { x: snap(e.target.x()), y: snap(e.target.y()) };
+              e.target.position(position);
+              onStairDragEnd(stair.id, position);
+            }}
+            onMouseEnter={(e) => {
+              const container = e.target.getStage()?.container();
+              if (container && draggable) container.style.cursor = "move";
+            }}
+            onMouseLeave={(e) => {
+              const container = e.target.getStage()?.container();
+              if (container) container.style.cursor = "default";
+            }}
+          >
+            <Rect
+              x={-run / 2}
+              y={-width / 2}
+              width={run}
+              height={width}
+              fill={isUpperLevel ? "rgba(241, 245, 249, 0.6)" : "#f8fafc"}
+              stroke={isSelected ? "#2563eb" : "#334155"}
+              strokeWidth={isSelected ? 2.5 : 1.5}
+              dash={isUpperLevel ? [6, 4] : undefined}
+            />
+            {/* Treads */}
+            {Array.from({ length: treadCount - 1 }, (_, i) => (
+              <Line
+                key={i}
+                points={[-run / 2 + tread * (i + 1), -width / 2, -run / 2 + tread * (i + 1), width / 2]}
+                stroke="#64748b"
+                strokeWidth={1}
+                opacity={isUpperLevel ? 0.5 : 1}
+                listening={false}
+              />
+            ))}
+            {/* Break line where the stair passes through the floor above */}
+            {!isUpperLevel && (
+              <Line
+                points={[run * 0.1, width / 2, run * 0.2, -width / 2]}
+                stroke="#334155"
+                strokeWidth={1.5}
+                listening={false}
+              />
+            )}
+            <Arrow
+              points={isUpperLevel
+                ? [run / 2 - tread / 2, 0, -run / 2 + tread / 2, 0]
+                : [-run / 2 + tread / 2, 0, run / 2 - tread / 2, 0]}
+              stroke="#0f172a"
+              fill="#0f172a"
+              strokeWidth={1.5}
+              pointerLength={8}
+              pointerWidth={8}
+              listening={false}
+            />
+            <Text
+              x={isUpperLevel ? run / 2 - 28 : -run / 2 + 4}
+              y={-width / 2 + 3}
+              text={isUpperLevel ? "DN" : "UP"}
+              fontSize={10}
+              fontStyle="bold"
+              fill="#0f172a"
+              listening={false}
+            />
+          </Group>
+        );
+      })}
+    </Group>
+  );
+}
@@ -0,0 +1,98 @@
+"use client";
+
+import React, { useMemo } from "react";
+import { Group, Line } from "react-konva";
+import type { Wall, Door, Window } from "@/lib/types";
+import type { CanvasConfig } from "../types";
+import { projectOntoWall, wallAngle } from "@/lib/wall-graph";
+
+interface WallsProps {
+  config: CanvasConfig;
+  walls: Wall[];
+  doors: Door[];
+  windows: Window[];
+}
+
+const WALL_COLORS = {
+  exterior: "#374151",
+  interior: "#6b7280",
+};
+
+/**
+ * Renders the wall graph as thick wall lines, leaving gaps where doors and windows sit
+ */
+export function Walls({ config, walls, doors, windows }: WallsProps) {
+  const { pixelsPerFoot } = config;
+
+  const wallSegments = useMemo(() => {
+    const openings = [
+      ...doors.map(d => ({ position: d.position, rotation: d.rotation, width: d.width })),
+      ...windows.map(w => ({ position: w.position, rotation: w.rotation, width: w.width })),
+    ];
+
+    return walls.map((wall) => {
+      const thicknessPx = (wall.thickness / 12) * pixelsPerFoot;
+      const angle = wallAngle(wall);
+      const { length } = projectOntoWall(wall.start, wall);
+
+      // Collect opening intervals (distance along the wall) for openings sitting on this wall
+      const gaps = openings
+        .filter(o => {
+          const rotation = ((o.rotation % 180) + 180) % 180;
+          const diff = Math.abs(rotation - angle);
+          return Math.min(diff, 180 - diff) < 1;
+        })
+        .map(o => ({ projection: projectOntoWall(o.position, wall), halfWidth: (o.width * pixelsPerFoot) / 2 }))
+        .filter(({ projection }) => projection.distance <= thicknessPx)
+        .map(({ projection, halfWidth }) => ({
+          start: Math.max(0, projection.along - halfWidth),
+          end: Math.min(length, projection.along + halfWidth),
+        }))
+        .sort((a, b) => a.start - b.start);
+
+      // Solid pieces between the gaps
+      const pieces: Array<{ start: number; end: number }> = [];
+      let cursor = 0;
+      for (const gap of gaps) {
+        if (gap.start > cursor) pieces.push({ start: cursor, end: gap.start });
+        cursor = Math.max(cursor, gap.end);
+      }
+      if (cursor < length) pieces.push({ start: cursor, end: length });
+
+      const ux = length > 0 ? (wall.end.x - wall.start.x) / length : 0;
+      const uy = length > 0 ? (wall.end.y - wall.start.y) / length : 0;
+
+      return {
+        wall,
+        thicknessPx,
+        points: pieces.map(piece => {
+          // Extend pieces at the wall ends by half the thickness so corners close cleanly
+          const start = piece.start === 0 ? -thicknessPx / 2 : piece.start;
+          const end = piece.end === length ? length + thicknessPx / 2 : piece.end;
+          return [
+            wall.start.x + ux * start,
+            wall.start.y + uy * start,
+            wall.start.x + ux * end,
+            wall.start.y + uy * end,
+          ];
+        }),
+      };
+    });
+  }, [walls, doors, windows, pixelsPerFoot]);
+
+  return (
+    <Group listening={false}>
+      {wallSegments.map(({ wall, thicknessPx, points }) =>
+        points.map((linePoints, index) => (
+          <Line
+            key={`${wall.id}-${index}`}
+            points={linePoints}
+            stroke={WALL_COLORS[wall.kind ?? "exterior"]}
+            strokeWidth={thicknessPx}
+            lineCap="butt"
+          />
+        ))
+      )}
+    </Group>
+  );
+}
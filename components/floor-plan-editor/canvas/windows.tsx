@@ -21,6 +21,8 @@ interface WindowsProps {
   transformerRef: React.RefObject<Konva.Transformer | null>;
   windowRefs: React.MutableRefObject<Map<string, Konva.Rect>>;
   zoom?: number;
+  lockedIds?: Set<string>; // Being dragged by someone else in a live session
+  onDragLock?: (windowId: string, dragging: boolean) => void;
 }
 
 export function Windows({
@@ -38,6 +40,8 @@ export function Windows({
   transformerRef,
   windowRefs,
   zoom = 1,
+  lockedIds,
+  onDragLock,
 }: WindowsProps) {
   const { gridSize, pixelsPerFoot, extendedCanvasSize } = config;
 
@@ -116,8 +120,9 @@ export function Windows({
               fill={isSelected ? "#961818" : isMultiSelected ? "#3b82f6" : "#4682B4"}
               stroke={isSelected ? "#961818" : isMultiSelected ? "#3b82f6" : "#2C5282"}
               strokeWidth={isSelected || isMultiSelected ? 2 / zoom : 1 / zoom}
-              draggable
+              draggable={!lockedIds?.has(window.id)}
               onDragStart={() => {
+                onDragLock?.(window.id, true);
                 // Track start position for multi-drag
                 if (isMultiSelected && onMultiDragEnd) {
                   multiDragStartRef.current = { x: window.position.x, y: window.position.y };
@@ -162,6 +167,7 @@ export function Windows({
                 }
               }}
               onDragEnd={(e) => {
+                onDragLock?.(window.id, false);
                 const node = e.target;
                 let newCenterX: number, newCenterY: number;
 
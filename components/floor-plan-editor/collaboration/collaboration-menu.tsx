@@ -0,0 +1,126 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Users } from "lucide-react";
+import { peerInitials, type CollabPeer, type CollabStatus } from "@/lib/collab";
+
+interface CollaborationMenuProps {
+  enabled: boolean;
+  status: CollabStatus;
+  peers: CollabPeer[];
+  name: string;
+  disabled?: boolean; // live editing needs a saved project to share
+  levelNames: Record<string, string>;
+  onEnabledChange: (enabled: boolean) => void;
+  onNameChange: (name: string) => void;
+}
+
+const STATUS_LABELS: Record<CollabStatus, string> = {
+  off: "Off",
+  connecting: "Connecting...",
+  live: "Live",
+  offline: "Reconnecting...",
+};
+
+const STATUS_DOT: Record<CollabStatus, string> = {
+  off: "bg-muted-foreground/40",
+  connecting: "bg-amber-500",
+  live: "bg-green-500",
+  offline: "bg-amber-500",
+};
+
+// Header control for live co-editing - who else is in the plan, and the name they see you as
+export function CollaborationMenu({
+  enabled,
+  status,
+  peers,
+  name,
+  disabled = false,
+  levelNames,
+  onEnabledChange,
+  onNameChange,
+}: CollaborationMenuProps) {
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          size="sm"
+          className="gap-2"
+          disabled={disabled}
+          title={disabled ? "Save the project to edit it live with others" : "Live co-editing"}
+        >
+          <span className={`h-2 w-2 rounded-full ${STATUS_DOT[status]}`} />
+          <Users className="h-4 w-4" />
+          <span className="hidden sm:inline">{enabled ? STATUS_LABELS[status] : "Live"}</span>
+          {peers.length > 0 && (
+            <span className="flex -space-x-1.5">
+              {peers.slice(0, 3).map((peer) => (
+                <span
+                  key={peer.clientId}
+                  className="h-5 w-5 rounded-full border-2 border-background text-[9px] font-semibold text-white flex items-center justify-center"
+                  style={{ backgroundColor: peer.color }}
+                  title={peer.name}
+                >
+                  {peerInitials(peer.name)}
+                </span>
+              ))}
+              {peers.length > 3 && (
+                <span className="h-5 w-5 rounded-full border-2 border-background bg-muted text-[9px] flex items-center justify-center">
+                  +{peers.length - 3}
+                </span>
+              )}
+            </span>
+          )}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-72 space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <p className="text-sm font-medium">Live co-editing</p>
+            <p className="text-xs text-muted-foreground">Edit this alternative together in real time</p>
+          </div>
+          <Switch checked={enabled} onCheckedChange={onEnabledChange} />
+        </div>
+
+        <div className="grid gap-2">
+          <Label htmlFor="collab-name" className="text-xs">Your name</Label>
+          <Input
+            id="collab-name"
+            value={name}
+            maxLength={32}
+            onChange={(e) => onNameChange(e.target.value)}
+            className="h-8"
+          />
+        </div>
+
+        {enabled && (
+          <div className="space-y-2">
+            <p className="text-xs font-medium text-muted-foreground">
+              {status === "live"
+                ? peers.length > 0 ? `${peers.length + 1} people editing` : "Nobody else is here yet"
+                : STATUS_LABELS[status]}
+            </p>
+            {peers.map((peer) => (
+              <div key={peer.clientId} className="flex items-center gap-2 text-sm">
+                <span
+                  className="h-6 w-6 rounded-full text-[10px] font-semibold text-white flex items-center justify-center shrink-0"
+                  style={{ backgroundColor: peer.color }}
+                >
+                  {peerInitials(peer.name)}
+                </span>
+                <span className="truncate flex-1">{peer.name}</span>
+                <span className="text-xs text-muted-foreground">{levelNames[peer.levelId] ?? peer.levelId}</span>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
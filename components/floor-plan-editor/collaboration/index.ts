@@ -0,0 +1 @@
+export { CollaborationMenu } from "./collaboration-menu";
@@ -0,0 +1,198 @@
+"use client";
+
+import React from "react";
+import { Stage, Layer, Group, Line, Rect } from "react-konva";
+import type { Point, Room, Door, Window } from "@/lib/types";
+import type { Furniture } from "../types";
+import { COMPARE_STATUS_COLORS, type ComparePlan, type EntityDiff } from "./utils";
+
+export interface CompareBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface CompareStageProps {
+  diff: EntityDiff[];
+  before: ComparePlan;
+  after: ComparePlan;
+  width: number;
+  height: number;
+  pixelsPerFoot: number;
+  selectedKey?: string | null;
+  onSelect?: (key: string) => void;
+}
+
+const PADDING = 24;
+
+interface ShapeStyle {
+  stroke: string;
+  fill?: string;
+  dash?: number[];
+  strokeWidth: number;
+  opacity?: number;
+}
+
+/**
+ * Everything both plans cover, so the two versions share one frame
+ */
+export function compareBounds(plans: ComparePlan[]): CompareBounds | null {
+  const points: Point[] = plans.flatMap(plan => [
+    ...plan.aduBoundary,
+    ...plan.rooms.flatMap(r => r.vertices),
+    ...plan.doors.map(d => d.position),
+    ...plan.windows.map(w => w.position),
+    ...plan.furniture.map(f => f.position),
+  ]);
+  if (points.length === 0) return null;
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxX: Math.max(...points.map(p => p.x)),
+    maxY: Math.max(...points.map(p => p.y)),
+  };
+}
+
+const flat = (points: Point[]) => points.flatMap(p => [p.x, p.y]);
+
+function EntityShape({
+  entry,
+  entity,
+  style,
+  pixelsPerFoot,
+  onSelect,
+}: {
+  entry: EntityDiff;
+  entity: NonNullable<EntityDiff["before"]>;
+  style: ShapeStyle;
+  pixelsPerFoot: number;
+  onSelect?: (key: string) => void;
+}) {
+  const handleClick = onSelect ? () => onSelect(entry.key) : undefined;
+
+  if (entry.kind === "room") {
+    return (
+      <Line
+        points={flat((entity as Room).vertices)}
+        closed
+        {...style}
+        onClick={handleClick}
+        onTap={handleClick}
+      />
+    );
+  }
+
+  if (entry.kind === "furniture") {
+    const item = entity as Furniture;
+    return (
+      <Rect
+        x={item.position.x}
+        y={item.position.y}
+        width={item.width * pixelsPerFoot}
+        height={item.height * pixelsPerFoot}
+        offsetX={(item.width * pixelsPerFoot) / 2}
+        offsetY={(item.height * pixelsPerFoot) / 2}
+        rotation={item.rotation}
+        {...style}
+        onClick={handleClick}
+        onTap={handleClick}
+      />
+    );
+  }
+
+  // Doors and windows are drawn as a thick segment along their wall
+  const opening = entity as Door | Window;
+  const half = (opening.width * pixelsPerFoot) / 2;
+  return (
+    <Group x={opening.position.x} y={opening.position.y} rotation={opening.rotation} onClick={handleClick} onTap={handleClick}>
+      <Line
+        points={[-half, 0, half, 0]}
+        stroke={style.stroke}
+        strokeWidth={style.strokeWidth * 3}
+        dash={style.dash}
+        opacity={style.opacity}
+        lineCap="butt"
+        hitStrokeWidth={12}
+      />
+    </Group>
+  );
+}
+
+// Read-only overlay of two plan versions, color-coded by what happened to each entity
+export function CompareStage({
+  diff,
+  before,
+  after,
+  width,
+  height,
+  pixelsPerFoot,
+  selectedKey,
+  onSelect,
+}: CompareStageProps) {
+  const bounds = compareBounds([before, after]);
+  if (!bounds) return null;
+
+  const scale = Math.min(
+    (width - PADDING * 2) / Math.max(1, bounds.maxX - bounds.minX),
+    (height - PADDING * 2) / Math.max(1, bounds.maxY - bounds.minY)
+  );
+  const offsetX = (width - (bounds.maxX - bounds.minX) * scale) / 2 - bounds.minX * scale;
+  const offsetY = (height - (bounds.maxY - bounds.minY) * scale) / 2 - bounds.minY * scale;
+  const hairline = 1 / scale;
+  const ghostDash = [6 / scale, 4 / scale];
+
+  // Unchanged entities first so the changes draw on top
+  const ordered = [...diff].sort((a, b) => Number(a.status !== "unchanged") - Number(b.status !== "unchanged"));
+
+  return (
+    <Stage width={width} height={height}>
+      <Layer>
+        <Rect width={width} height={height} fill="#f8fafc" listening={false} />
+        <Group x={offsetX} y={offsetY} scaleX={scale} scaleY={scale}>
+          {before.aduBoundary.length >= 3 && (
+            <Line points={flat(before.aduBoundary)} closed stroke="#fca5a5" strokeWidth={hairline} dash={ghostDash} listening={false} />
+          )}
+          {after.aduBoundary.length >= 3 && (
+            <Line points={flat(after.aduBoundary)} closed stroke="#64748b" strokeWidth={hairline * 1.5} dash={[8 / scale, 4 / scale]} listening={false} />
+          )}
+
+          {ordered.map((entry) => {
+            const color = COMPARE_STATUS_COLORS[entry.status];
+            const isSelected = entry.key === selectedKey;
+            const weight = hairline * (isSelected ? 3 : 1.5);
+            const solid: ShapeStyle = entry.status === "unchanged"
+              ? { stroke: color, fill: entry.kind === "room" ? "#e2e8f0" : "white", strokeWidth: weight, opacity: 0.7 }
+              : { stroke: color, fill: `${color}33`, strokeWidth: weight };
+
+            return (
+              <Group key={entry.key}>
+                {/* Where a moved or resized entity used to be */}
+                {entry.before && entry.after && entry.status !== "unchanged" && (
+                  <EntityShape
+                    entry={entry}
+                    entity={entry.before}
+                    style={{ stroke: color, strokeWidth: hairline, dash: ghostDash, opacity: 0.6 }}
+                    pixelsPerFoot={pixelsPerFoot}
+                    onSelect={onSelect}
+                  />
+                )}
+                {entry.status === "removed" && entry.before ? (
+                  <EntityShape
+                    entry={entry}
+                    entity={entry.before}
+                    style={{ ...solid, dash: ghostDash }}
+                    pixelsPerFoot={pixelsPerFoot}
+                    onSelect={onSelect}
+                  />
+                ) : entry.after ? (
+                  <EntityShape entry={entry} entity={entry.after} style={solid} pixelsPerFoot={pixelsPerFoot} onSelect={onSelect} />
+                ) : null}
+              </Group>
+            );
+          })}
+        </Group>
+      </Layer>
+    </Stage>
+  );
+}
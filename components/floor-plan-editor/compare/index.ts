@@ -0,0 +1,14 @@
+export { VersionCompareDialog } from "./version-compare-dialog";
+export { CompareStage, compareBounds } from "./compare-stage";
+export type { CompareBounds } from "./compare-stage";
+export {
+  blueprintPlan,
+  cherryPickEntity,
+  describeEntity,
+  diffPlans,
+  snapshotPlan,
+  COMPARE_KINDS,
+  COMPARE_STATUS_COLORS,
+  EMPTY_COMPARE_PLAN,
+} from "./utils";
+export type { ComparePlan, CompareEntityKind, CompareStatus, EntityDiff, PlanDiff } from "./utils";
@@ -0,0 +1,286 @@
+import type { Room, Door, Window, Point, LevelId, DoorType, WindowType, RoomType } from "@/lib/types";
+import type { Blueprint } from "@/lib/api/client";
+import { convertApiBlueprintToEditor } from "@/lib/api/floor-plan-converter";
+import { DOOR_CONFIGS, WINDOW_CONFIGS } from "@/lib/constants";
+import { FURNITURE_CONFIG } from "../constants";
+import type { Furniture, FurnitureType, LevelContent } from "../types";
+import type { EditorSnapshot } from "../hooks/use-version-history";
+
+export interface ComparePlan extends LevelContent {
+  aduBoundary: Point[];
+}
+
+export type CompareEntityKind = "room" | "door" | "window" | "furniture";
+export type CompareStatus = "added" | "removed" | "moved" | "resized" | "unchanged";
+
+type CompareEntity = Room | Door | Window | Furniture;
+
+export interface EntityDiff {
+  key: string;
+  kind: CompareEntityKind;
+  status: CompareStatus;
+  label: string;
+  before?: CompareEntity; // in the older plan
+  after?: CompareEntity; // in the newer plan
+  rotated: boolean;
+  areaDelta: number; // sq ft, rooms only
+}
+
+export interface PlanDiff {
+  entities: EntityDiff[];
+  counts: Record<CompareEntityKind, { before: number; after: number }>;
+  roomArea: { before: number; after: number };
+  boundaryArea: { before: number; after: number };
+}
+
+export const EMPTY_COMPARE_PLAN: ComparePlan = { rooms: [], doors: [], windows: [], furniture: [], aduBoundary: [] };
+
+export const COMPARE_KINDS: CompareEntityKind[] = ["room", "door", "window", "furniture"];
+
+export const COMPARE_STATUS_COLORS: Record<CompareStatus, string> = {
+  added: "#16a34a",
+  removed: "#dc2626",
+  moved: "#2563eb",
+  resized: "#d97706",
+  unchanged: "#94a3b8",
+};
+
+// Blueprint versions get fresh ids from the server, so entities are also paired by type and distance
+const MATCH_DISTANCE_FT = 6;
+const POSITION_TOLERANCE_PX = 1;
+const SIZE_TOLERANCE_FT = 0.05;
+
+const PLAN_KEYS: Record<CompareEntityKind, keyof LevelContent> = {
+  room: "rooms",
+  door: "doors",
+  window: "windows",
+  furniture: "furniture",
+};
+
+function polygonAreaPx(vertices: Point[]): number {
+  let twice = 0;
+  vertices.forEach((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    twice += a.x * b.y - b.x * a.y;
+  });
+  return Math.abs(twice) / 2;
+}
+
+const centroid = (vertices: Point[]): Point => ({
+  x: vertices.reduce((sum, v) => sum + v.x, 0) / Math.max(1, vertices.length),
+  y: vertices.reduce((sum, v) => sum + v.y, 0) / Math.max(1, vertices.length),
+});
+
+const entityCenter = (entity: CompareEntity): Point =>
+  "vertices" in entity ? centroid(entity.vertices) : entity.position;
+
+/**
+ * Plan for one level of a snapshot - the ground level lives at the top level of the data
+ */
+export function snapshotPlan(data: EditorSnapshot["data"], levelId: LevelId): ComparePlan {
+  const level = levelId === "ground" ? data : data.levels?.find(l => l.id === levelId);
+  return {
+    rooms: level?.rooms ?? [],
+    doors: level?.doors ?? [],
+    windows: level?.windows ?? [],
+    furniture: level?.furniture ?? [],
+    aduBoundary: data.aduBoundary ?? [],
+  };
+}
+
+/**
+ * Plan for a saved blueprint version (ground level only - the API returns levels separately)
+ */
+export function blueprintPlan(details: {
+  blueprint: Blueprint;
+  rooms: unknown[];
+  doors: unknown[];
+  windows: unknown[];
+  furniture: unknown[];
+}): ComparePlan {
+  const editor = convertApiBlueprintToEditor(
+    details.blueprint,
+    details.rooms as Parameters<typeof convertApiBlueprintToEditor>[1],
+    details.doors as Parameters<typeof convertApiBlueprintToEditor>[2],
+    details.windows as Parameters<typeof convertApiBlueprintToEditor>[3],
+    details.furniture as Parameters<typeof convertApiBlueprintToEditor>[4]
+  );
+  return {
+    rooms: editor.rooms.map(r => ({
+      id: r.id,
+      type: r.type as RoomType,
+      name: r.name,
+      vertices: r.vertices,
+      area: r.area,
+      color: r.color,
+    })),
+    doors: editor.doors.map(d => ({
+      id: d.id,
+      type: d.type as DoorType,
+      position: { x: d.x, y: d.y },
+      rotation: d.rotation ?? 0,
+      width: d.width,
+    })),
+    windows: editor.windows.map(w => ({
+      id: w.id,
+      type: w.type as WindowType,
+      position: { x: w.x, y: w.y },
+      rotation: w.rotation ?? 0,
+      width: w.width,
+      height: w.height,
+    })),
+    furniture: editor.furniture.map(f => ({
+      id: f.id,
+      type: f.type as FurnitureType,
+      position: { x: f.x, y: f.y },
+      rotation: f.rotation ?? 0,
+      width: f.width,
+      height: f.height,
+    })),
+    aduBoundary: editor.aduBoundary,
+  };
+}
+
+export function describeEntity(kind: CompareEntityKind, entity: CompareEntity): string {
+  switch (kind) {
+    case "room":
+      return (entity as Room).name;
+    case "door":
+      return DOOR_CONFIGS[(entity as Door).type]?.label ?? "Door";
+    case "window":
+      return WINDOW_CONFIGS[(entity as Window).type]?.label ?? "Window";
+    case "furniture":
+      return FURNITURE_CONFIG[(entity as Furniture).type]?.name ?? "Furniture";
+  }
+}
+
+// Vertices, or width/height for placed entities, differ beyond a pure translation
+function isResized(kind: CompareEntityKind, before: CompareEntity, after: CompareEntity): boolean {
+  if (kind === "room") {
+    const a = (before as Room).vertices;
+    const b = (after as Room).vertices;
+    if (a.length !== b.length) return true;
+    const ca = centroid(a);
+    const cb = centroid(b);
+    return a.some((v, i) =>
+      Math.abs(v.x - ca.x - (b[i].x - cb.x)) > POSITION_TOLERANCE_PX ||
+      Math.abs(v.y - ca.y - (b[i].y - cb.y)) > POSITION_TOLERANCE_PX
+    );
+  }
+  const sizeA = before as Door | Window | Furniture;
+  const sizeB = after as Door | Window | Furniture;
+  const heightA = "height" in sizeA ? sizeA.height : 0;
+  const heightB = "height" in sizeB ? sizeB.height : 0;
+  return Math.abs(sizeA.width - sizeB.width) > SIZE_TOLERANCE_FT || Math.abs(heightA - heightB) > SIZE_TOLERANCE_FT;
+}
+
+function compareKind(
+  kind: CompareEntityKind,
+  before: CompareEntity[],
+  after: CompareEntity[],
+  pixelsPerFoot: number
+): EntityDiff[] {
+  const pairs: Array<[CompareEntity, CompareEntity]> = [];
+  const unmatchedBefore = new Set(before);
+  const unmatchedAfter = new Set(after);
+
+  // Same id first
+  const afterById = new Map(after.map(e => [e.id, e]));
+  for (const entity of before) {
+    const match = afterById.get(entity.id);
+    if (match && unmatchedAfter.has(match)) {
+      pairs.push([entity, match]);
+      unmatchedBefore.delete(entity);
+      unmatchedAfter.delete(match);
+    }
+  }
+
+  // Then the closest remaining entity of the same type, nearest pairs first
+  const candidates: Array<{ a: CompareEntity; b: CompareEntity; distance: number }> = [];
+  for (const a of unmatchedBefore) {
+    for (const b of unmatchedAfter) {
+      if (a.type !== b.type) continue;
+      const ca = entityCenter(a);
+      const cb = entityCenter(b);
+      const distance = Math.hypot(ca.x - cb.x, ca.y - cb.y);
+      if (distance <= MATCH_DISTANCE_FT * pixelsPerFoot) candidates.push({ a, b, distance });
+    }
+  }
+  candidates.sort((x, y) => x.distance - y.distance);
+  for (const { a, b } of candidates) {
+    if (!unmatchedBefore.has(a) || !unmatchedAfter.has(b)) continue;
+    pairs.push([a, b]);
+    unmatchedBefore.delete(a);
+    unmatchedAfter.delete(b);
+  }
+
+  const roomArea = (entity?: CompareEntity) => (kind === "room" && entity ? (entity as Room).area : 0);
+
+  const diffs: EntityDiff[] = pairs.map(([a, b]) => {
+    const ca = entityCenter(a);
+    const cb = entityCenter(b);
+    const shifted = Math.hypot(ca.x - cb.x, ca.y - cb.y) > POSITION_TOLERANCE_PX;
+    const rotated = "rotation" in a && "rotation" in b && a.rotation !== b.rotation;
+    const status: CompareStatus = isResized(kind, a, b) ? "resized" : shifted || rotated ? "moved" : "unchanged";
+    return {
+      key: `${kind}:${a.id}:${b.id}`,
+      kind,
+      status,
+      label: describeEntity(kind, b),
+      before: a,
+      after: b,
+      rotated,
+      areaDelta: roomArea(b) - roomArea(a),
+    };
+  });
+  for (const a of unmatchedBefore) {
+    diffs.push({ key: `${kind}:${a.id}:`, kind, status: "removed", label: describeEntity(kind, a), before: a, rotated: false, areaDelta: -roomArea(a) });
+  }
+  for (const b of unmatchedAfter) {
+    diffs.push({ key: `${kind}::${b.id}`, kind, status: "added", label: describeEntity(kind, b), after: b, rotated: false, areaDelta: roomArea(b) });
+  }
+  return diffs;
+}
+
+/**
+ * Pair up the entities of two plans and classify each pair as added, removed,
+ * moved (translated or rotated), resized or unchanged
+ */
+export function diffPlans(before: ComparePlan, after: ComparePlan, pixelsPerFoot: number): PlanDiff {
+  const entities = COMPARE_KINDS.flatMap(kind =>
+    compareKind(kind, before[PLAN_KEYS[kind]] as CompareEntity[], after[PLAN_KEYS[kind]] as CompareEntity[], pixelsPerFoot)
+  );
+  const counts = Object.fromEntries(
+    COMPARE_KINDS.map(kind => [kind, { before: before[PLAN_KEYS[kind]].length, after: after[PLAN_KEYS[kind]].length }])
+  ) as PlanDiff["counts"];
+  const sqFt = (vertices: Point[]) =>
+    vertices.length >= 3 ? Math.round(polygonAreaPx(vertices) / (pixelsPerFoot * pixelsPerFoot)) : 0;
+  return {
+    entities,
+    counts,
+    roomArea: {
+      before: before.rooms.reduce((sum, r) => sum + r.area, 0),
+      after: after.rooms.reduce((sum, r) => sum + r.area, 0),
+    },
+    boundaryArea: { before: sqFt(before.aduBoundary), after: sqFt(after.aduBoundary) },
+  };
+}
+
+/**
+ * Copy an entity's older state into the current plan. Replaces the entity it was
+ * paired with (by either id) or adds it back if it is gone. Returns null when the
+ * diff has no older state to take.
+ */
+export function cherryPickEntity(current: ComparePlan, diff: EntityDiff): ComparePlan | null {
+  const older = diff.before;
+  if (!older) return null;
+  const key = PLAN_KEYS[diff.kind];
+  const items = current[key] as CompareEntity[];
+  const target = items.find(e => e.id === older.id) ?? (diff.after && items.find(e => e.id === diff.after!.id));
+
+  if (target) {
+    // Keep the current id so references (e.g. switch links, selections) stay valid
+    return { ...current, [key]: items.map(e => (e === target ? { ...older, id: target.id } : e)) };
+  }
+  return { ...current, [key]: [...items, { ...older }] };
+}
@@ -0,0 +1,340 @@
+"use client";
+
+import React, { useCallback, useEffect, useMemo, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectGroup,
+  SelectItem,
+  SelectLabel,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { GitCompare, Loader2, RotateCcw, Undo2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { LevelId } from "@/lib/types";
+import { LEVEL_CONFIGS } from "@/lib/constants";
+import type { EditorSnapshot } from "../hooks/use-version-history";
+import { useVersionCompare } from "../hooks/use-version-compare";
+import { CompareStage } from "./compare-stage";
+import {
+  cherryPickEntity,
+  diffPlans,
+  snapshotPlan,
+  COMPARE_KINDS,
+  COMPARE_STATUS_COLORS,
+  type ComparePlan,
+  type CompareStatus,
+  type EntityDiff,
+} from "./utils";
+
+interface VersionCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId?: string;
+  autoSaves: EditorSnapshot[];
+  manualSaves: EditorSnapshot[];
+  current: ComparePlan; // the level being edited
+  levelId: LevelId;
+  pixelsPerFoot: number;
+  formatTimestamp: (timestamp: string) => string;
+  onCherryPick: (plan: ComparePlan, entry: EntityDiff) => void;
+}
+
+const STAGE_WIDTH = 620;
+const STAGE_HEIGHT = 440;
+
+const CURRENT_SOURCE = "current";
+
+const STATUS_LABELS: Record<CompareStatus, string> = {
+  added: "Added",
+  removed: "Removed",
+  moved: "Moved",
+  resized: "Resized",
+  unchanged: "Unchanged",
+};
+
+const KIND_LABELS = { room: "Rooms", door: "Doors", window: "Windows", furniture: "Furniture" };
+
+const formatDelta = (delta: number, unit = "") =>
+  delta === 0 ? "—" : `${delta > 0 ? "+" : ""}${delta.toLocaleString()}${unit}`;
+
+export function VersionCompareDialog({
+  open,
+  onOpenChange,
+  projectId,
+  autoSaves,
+  manualSaves,
+  current,
+  levelId,
+  pixelsPerFoot,
+  formatTimestamp,
+  onCherryPick,
+}: VersionCompareDialogProps) {
+  const { versions, plans, isLoading, error, loadVersions, loadVersion } = useVersionCompare(projectId);
+  const [olderSource, setOlderSource] = useState("");
+  const [newerSource, setNewerSource] = useState(CURRENT_SOURCE);
+  const [selectedKey, setSelectedKey] = useState<string | null>(null);
+  const [showUnchanged, setShowUnchanged] = useState(false);
+
+  // Refresh the saved versions each time the dialog opens
+  useEffect(() => {
+    if (open) loadVersions();
+  }, [open, loadVersions]);
+
+  const snapshots = useMemo(
+    () => [...manualSaves, ...autoSaves].sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp)),
+    [autoSaves, manualSaves]
+  );
+
+  // Until something is picked, compare the latest snapshot against the current plan
+  const older = olderSource || (snapshots[0] ? `snapshot:${snapshots[0].id}` : "");
+
+  const resolvePlan = useCallback((source: string): ComparePlan | null => {
+    if (source === CURRENT_SOURCE) return current;
+    const [type, id] = source.split(":");
+    if (type === "snapshot") {
+      const snapshot = snapshots.find(s => s.id === id);
+      return snapshot ? snapshotPlan(snapshot.data, levelId) : null;
+    }
+    if (type === "blueprint") return plans[id] ?? null;
+    return null;
+  }, [current, snapshots, plans, levelId]);
+  const olderPlan = useMemo(() => resolvePlan(older), [resolvePlan, older]);
+  const newerPlan = useMemo(() => resolvePlan(newerSource), [resolvePlan, newerSource]);
+
+  const diff = useMemo(
+    () => (olderPlan && newerPlan ? diffPlans(olderPlan, newerPlan, pixelsPerFoot) : null),
+    [olderPlan, newerPlan, pixelsPerFoot]
+  );
+  const statusCounts = useMemo(() => {
+    const counts: Record<CompareStatus, number> = { added: 0, removed: 0, moved: 0, resized: 0, unchanged: 0 };
+    diff?.entities.forEach(e => counts[e.status]++);
+    return counts;
+  }, [diff]);
+  const changes = diff?.entities.filter(e => showUnchanged || e.status !== "unchanged") ?? [];
+
+  const handleSourceChange = (side: "older" | "newer", value: string) => {
+    if (value.startsWith("blueprint:")) loadVersion(value.slice("blueprint:".length));
+    setSelectedKey(null);
+    if (side === "older") setOlderSource(value);
+    else setNewerSource(value);
+  };
+
+  const handleCherryPick = (entry: EntityDiff) => {
+    const next = cherryPickEntity(current, entry);
+    if (next) onCherryPick(next, entry);
+  };
+
+  const snapshotLabel = (snapshot: EditorSnapshot) =>
+    `${snapshot.label || (snapshot.type === "auto" ? "Auto-save" : "Saved version")} · ${formatTimestamp(snapshot.timestamp)}`;
+
+  const renderSourceSelect = (side: "older" | "newer", value: string) => (
+    <Select value={value} onValueChange={(v) => handleSourceChange(side, v)}>
+      <SelectTrigger className="h-8 text-xs">
+        <SelectValue placeholder="Pick a version" />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={CURRENT_SOURCE} className="text-xs">Current plan</SelectItem>
+        {snapshots.length > 0 && (
+          <SelectGroup>
+            <SelectLabel className="text-xs">Snapshots</SelectLabel>
+            {snapshots.map((s) => (
+              <SelectItem key={s.id} value={`snapshot:${s.id}`} className="text-xs">{snapshotLabel(s)}</SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+        {versions.length > 0 && (
+          <SelectGroup>
+            <SelectLabel className="text-xs">Saved blueprints</SelectLabel>
+            {versions.map((v) => (
+              <SelectItem key={v.id} value={`blueprint:${v.id}`} className="text-xs" disabled={levelId !== "ground"}>
+                Version {v.version} · {formatTimestamp(v.createdAt)}
+              </SelectItem>
+            ))}
+          </SelectGroup>
+        )}
+      </SelectContent>
+    </Select>
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-6xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            Compare Versions
+          </DialogTitle>
+          <DialogDescription>
+            See what changed between two versions of the {LEVEL_CONFIGS[levelId].label.toLowerCase()}, and bring individual
+            rooms, doors, windows or furniture back from the older one.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 gap-3">
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Older</Label>
+            {renderSourceSelect("older", older)}
+          </div>
+          <div className="space-y-1">
+            <Label className="text-xs text-muted-foreground">Newer</Label>
+            {renderSourceSelect("newer", newerSource)}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 lg:grid-cols-[1fr_320px] gap-4">
+          {/* Overlay */}
+          <div className="space-y-2">
+            <div
+              className="relative rounded-lg border overflow-hidden bg-muted/30 flex items-center justify-center"
+              style={{ height: STAGE_HEIGHT }}
+            >
+              {isLoading && !diff && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+              {!isLoading && error && !diff && <p className="text-sm text-destructive">{error}</p>}
+              {!isLoading && !error && !diff && (
+                <p className="text-sm text-muted-foreground">
+                  {snapshots.length === 0 && versions.length === 0 ? "No saved versions to compare yet" : "Pick two versions to compare"}
+                </p>
+              )}
+              {diff && olderPlan && newerPlan && (
+                <CompareStage
+                  diff={diff.entities}
+                  before={olderPlan}
+                  after={newerPlan}
+                  width={STAGE_WIDTH}
+                  height={STAGE_HEIGHT}
+                  pixelsPerFoot={pixelsPerFoot}
+                  selectedKey={selectedKey}
+                  onSelect={setSelectedKey}
+                />
+              )}
+            </div>
+            <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+              {(Object.keys(STATUS_LABELS) as CompareStatus[]).map((status) => (
+                <span key={status} className="flex items-center gap-1">
+                  <span className="h-2.5 w-2.5 rounded-sm" style={{ backgroundColor: COMPARE_STATUS_COLORS[status] }} />
+                  {STATUS_LABELS[status]}
+                </span>
+              ))}
+              <span>Dashed outlines show where an entity was in the older version.</span>
+            </div>
+          </div>
+
+          {/* Deltas and changes */}
+          <div className="space-y-3">
+            {diff && (
+              <>
+                <table className="w-full text-xs">
+                  <thead>
+                    <tr className="text-muted-foreground">
+                      <th className="text-left font-normal py-1"></th>
+                      <th className="text-right font-normal">Older</th>
+                      <th className="text-right font-normal">Newer</th>
+                      <th className="text-right font-normal">Change</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {COMPARE_KINDS.map((kind) => (
+                      <tr key={kind} className="border-t">
+                        <td className="py-1">{KIND_LABELS[kind]}</td>
+                        <td className="text-right">{diff.counts[kind].before}</td>
+                        <td className="text-right">{diff.counts[kind].after}</td>
+                        <td className="text-right font-medium">{formatDelta(diff.counts[kind].after - diff.counts[kind].before)}</td>
+                      </tr>
+                    ))}
+                    <tr className="border-t">
+                      <td className="py-1">Room area</td>
+                      <td className="text-right">{diff.roomArea.before.toLocaleString()}</td>
+                      <td className="text-right">{diff.roomArea.after.toLocaleString()}</td>
+                      <td className="text-right font-medium">{formatDelta(diff.roomArea.after - diff.roomArea.before, " sf")}</td>
+                    </tr>
+                    <tr className="border-t">
+                      <td className="py-1">ADU footprint</td>
+                      <td className="text-right">{diff.boundaryArea.before.toLocaleString()}</td>
+                      <td className="text-right">{diff.boundaryArea.after.toLocaleString()}</td>
+                      <td className="text-right font-medium">{formatDelta(diff.boundaryArea.after - diff.boundaryArea.before, " sf")}</td>
+                    </tr>
+                  </tbody>
+                </table>
+
+                <div className="flex flex-wrap gap-1">
+                  {(["added", "removed", "moved", "resized"] as CompareStatus[]).map((status) => (
+                    <Badge key={status} variant="outline" className="text-[10px]" style={{ borderColor: COMPARE_STATUS_COLORS[status], color: COMPARE_STATUS_COLORS[status] }}>
+                      {statusCounts[status]} {STATUS_LABELS[status].toLowerCase()}
+                    </Badge>
+                  ))}
+                </div>
+
+                <div className="flex items-center justify-between">
+                  <Label htmlFor="compare-unchanged" className="text-xs">Show unchanged</Label>
+                  <Switch id="compare-unchanged" checked={showUnchanged} onCheckedChange={setShowUnchanged} />
+                </div>
+
+                <div className="space-y-1 max-h-[260px] overflow-y-auto pr-1">
+                  {changes.length === 0 && (
+                    <p className="text-xs text-muted-foreground">No differences on this level.</p>
+                  )}
+                  {changes.map((entry) => (
+                    <div
+                      key={entry.key}
+                      role="button"
+                      tabIndex={0}
+                      onClick={() => setSelectedKey(entry.key)}
+                      onKeyDown={(e) => e.key === "Enter" && setSelectedKey(entry.key)}
+                      className={cn(
+                        "flex items-center gap-2 rounded-md border px-2 py-1.5 text-xs cursor-pointer hover:bg-muted/50",
+                        selectedKey === entry.key && "border-primary bg-primary/5"
+                      )}
+                    >
+                      <span className="h-2.5 w-2.5 shrink-0 rounded-sm" style={{ backgroundColor: COMPARE_STATUS_COLORS[entry.status] }} />
+                      <div className="flex-1 min-w-0">
+                        <p className="font-medium truncate">{entry.label}</p>
+                        <p className="text-muted-foreground">
+                          {STATUS_LABELS[entry.status]}
+                          {entry.rotated && entry.status !== "unchanged" && " · rotated"}
+                          {entry.kind === "room" && entry.areaDelta !== 0 && ` · ${formatDelta(entry.areaDelta, " sf")}`}
+                        </p>
+                      </div>
+                      {entry.before && entry.status !== "unchanged" && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-6 px-2 text-[10px] gap-1"
+                          title="Copy the older version of this into the current plan"
+                          onClick={(e) => {
+                            e.stopPropagation();
+                            handleCherryPick(entry);
+                          }}
+                        >
+                          {entry.status === "removed" ? <RotateCcw className="h-3 w-3" /> : <Undo2 className="h-3 w-3" />}
+                          {entry.status === "removed" ? "Restore" : "Use older"}
+                        </Button>
+                      )}
+                    </div>
+                  ))}
+                </div>
+                {newerSource !== CURRENT_SOURCE && (
+                  <p className="text-[10px] text-muted-foreground">
+                    Restored entities go into the current plan, replacing the matching entity if it is still there.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -25,6 +25,9 @@ export const FURNITURE_CONFIG: Record<FurnitureType, FurnitureConfig> = {
   "refrigerator": { name: "Refrigerator", width: 3, height: 2.5, category: "kitchen", icon: Square },
   "dishwasher": { name: "Dishwasher", width: 2, height: 2, category: "kitchen", icon: Square },
 
+  // Laundry
+  "washer": { name: "Washer", width: 2.5, height: 2.5, category: "laundry", icon: Square },
+
   // Office
   "desk": { name: "Desk", width: 5, height: 2.5, category: "office", icon: Square },
   "chair": { name: "Chair", width: 2, height: 2, category: "office", icon: Armchair },
@@ -34,7 +37,7 @@ export const FURNITURE_CONFIG: Record<FurnitureType, FurnitureConfig> = {
 export const FURNITURE_TYPES: FurnitureType[] = [
   "bed-double", "bed-single", "sofa-3seat", "sofa-2seat", "armchair",
   "table-dining", "table-coffee", "toilet", "sink", "shower", "bathtub",
-  "stove", "refrigerator", "dishwasher", "desk", "chair"
+  "stove", "refrigerator", "dishwasher", "washer", "desk", "chair"
 ];
 
 // Canvas configuration factory
@@ -67,6 +70,7 @@ export const FURNITURE_CATEGORIES = [
   { id: "bedroom", label: "Bedroom", icon: "🛏️" },
   { id: "bathroom", label: "Bathroom", icon: "🚿" },
   { id: "kitchen", label: "Kitchen", icon: "🍳" },
+  { id: "laundry", label: "Laundry", icon: "🧺" },
   { id: "living", label: "Living Room", icon: "🛋️" },
   { id: "office", label: "Office", icon: "💼" },
 ] as const;
@@ -128,6 +128,10 @@ export const DEFAULT_EXPORT_SETTINGS: ExportSettings = {
   includeTitleBlock: true,
   includeLotOverlay: false,
   includeSatellite: false,
+  includeCostEstimate: true,
+  includeDaylight: true,
+  includeElectrical: true,
+  includePlumbing: true,
   projectName: "ADU Floor Plan",
   preparedBy: "",
   address: "",
@@ -193,6 +197,35 @@ export const FURNITURE_TYPE_LABELS: Record<string, string> = {
   stove: "Stove",
   refrigerator: "Refrigerator",
   dishwasher: "Dishwasher",
+  washer: "Washer",
   desk: "Desk",
   chair: "Chair",
 }
+
+/**
+ * DXF layers (AIA CAD layer naming)
+ * Color is an AutoCAD Color Index (ACI) value
+ */
+export interface DxfLayerConfig {
+  name: string
+  color: number
+  lineType: "CONTINUOUS" | "DASHED"
+  description: string
+}
+
+export const DXF_LAYERS = {
+  rooms: { name: "A-AREA", color: 8, lineType: "CONTINUOUS", description: "Room outlines" },
+  walls: { name: "A-WALL", color: 7, lineType: "CONTINUOUS", description: "Walls" },
+  doors: { name: "A-DOOR", color: 3, lineType: "CONTINUOUS", description: "Doors and swing arcs" },
+  windows: { name: "A-GLAZ", color: 4, lineType: "CONTINUOUS", description: "Windows" },
+  furniture: { name: "A-FURN", color: 9, lineType: "CONTINUOUS", description: "Furniture and fixtures" },
+  electrical: { name: "E-DEVC", color: 30, lineType: "CONTINUOUS", description: "Electrical devices and switch legs" },
+  plumbing: { name: "P-SANR", color: 150, lineType: "DASHED", description: "Wet walls and sanitary lateral" },
+  aduBoundary: { name: "A-ADU-BNDY", color: 5, lineType: "DASHED", description: "ADU boundary" },
+  dimensions: { name: "A-ANNO-DIMS", color: 2, lineType: "CONTINUOUS", description: "Dimensions" },
+  labels: { name: "A-ANNO-TEXT", color: 7, lineType: "CONTINUOUS", description: "Room labels" },
+  lot: { name: "C-PROP-LINE", color: 1, lineType: "CONTINUOUS", description: "Lot boundary" },
+  setbacks: { name: "C-PROP-SETB", color: 6, lineType: "DASHED", description: "Setback lines" },
+} satisfies Record<string, DxfLayerConfig>
+
+export type DxfLayerKey = keyof typeof DXF_LAYERS
@@ -0,0 +1,488 @@
+/**
+ * DXF Export
+ *
+ * Writes the floor plan as an AutoCAD R12 ASCII DXF, which every CAD package can open.
+ * Drawing units are inches with architectural (feet-inches) display, Y pointing up,
+ * and the origin at the bottom-left corner of the ADU boundary. Multi-story plans draw
+ * each level beside the one below it, bottom level first.
+ */
+
+import type { BlueprintExportData, ExportSettings } from "./types"
+import { DXF_LAYERS, type DxfLayerKey, ROOM_TYPE_LABELS } from "./constants"
+import { formatFeetInches, sanitizeFilename } from "./utils"
+import { buildWallGraph, projectOntoWall, wallAngle } from "@/lib/wall-graph"
+import { ELECTRICAL_CONFIG, ELECTRICAL_CONFIGS } from "@/lib/constants"
+import type { ElectricalDeviceType } from "@/lib/types"
+
+type Vec = { x: number; y: number }
+
+const LABEL_TEXT_HEIGHT = 6 // inches
+const DIMENSION_TEXT_HEIGHT = 4.5 // inches
+const DIMENSION_OFFSET = 24 // inches outside the ADU boundary
+const LEVEL_SPACING = 120 // inches between the plans of neighbouring levels
+
+/**
+ * Minimal DXF entity writer (group code / value pairs)
+ */
+class DxfWriter {
+  private lines: string[] = []
+
+  pair(code: number, value: string | number) {
+    this.lines.push(String(code), typeof value === "number" ? formatNumber(value) : value)
+  }
+
+  line(layer: DxfLayerKey, a: Vec, b: Vec) {
+    this.pair(0, "LINE")
+    this.pair(8, DXF_LAYERS[layer].name)
+    this.pair(10, a.x)
+    this.pair(20, a.y)
+    this.pair(30, 0)
+    this.pair(11, b.x)
+    this.pair(21, b.y)
+    this.pair(31, 0)
+  }
+
+  polyline(layer: DxfLayerKey, points: Vec[], closed = true) {
+    if (points.length < 2) return
+    this.pair(0, "POLYLINE")
+    this.pair(8, DXF_LAYERS[layer].name)
+    this.pair(66, 1)
+    this.pair(10, 0)
+    this.pair(20, 0)
+    this.pair(30, 0)
+    this.pair(70, closed ? 1 : 0)
+    for (const p of points) {
+      this.pair(0, "VERTEX")
+      this.pair(8, DXF_LAYERS[layer].name)
+      this.pair(10, p.x)
+      this.pair(20, p.y)
+      this.pair(30, 0)
+    }
+    this.pair(0, "SEQEND")
+    this.pair(8, DXF_LAYERS[layer].name)
+  }
+
+  // Angles in degrees, counter-clockwise from +X
+  arc(layer: DxfLayerKey, center: Vec, radius: number, startAngle: number, endAngle: number) {
+    this.pair(0, "ARC")
+    this.pair(8, DXF_LAYERS[layer].name)
+    this.pair(10, center.x)
+    this.pair(20, center.y)
+    this.pair(30, 0)
+    this.pair(40, radius)
+    this.pair(50, normalizeAngle(startAngle))
+    this.pair(51, normalizeAngle(endAngle))
+  }
+
+  circle(layer: DxfLayerKey, center: Vec, radius: number) {
+    this.pair(0, "CIRCLE")
+    this.pair(8, DXF_LAYERS[layer].name)
+    this.pair(10, center.x)
+    this.pair(20, center.y)
+    this.pair(30, 0)
+    this.pair(40, radius)
+  }
+
+  // Text centered on the given point
+  text(layer: DxfLayerKey, at: Vec, height: number, value: string, rotation = 0) {
+    this.pair(0, "TEXT")
+    this.pair(8, DXF_LAYERS[layer].name)
+    this.pair(10, at.x)
+    this.pair(20, at.y)
+    this.pair(30, 0)
+    this.pair(40, height)
+    this.pair(1, value)
+    if (rotation !== 0) this.pair(50, normalizeAngle(rotation))
+    this.pair(72, 1) // horizontal: center
+    this.pair(73, 2) // vertical: middle
+    this.pair(11, at.x)
+    this.pair(21, at.y)
+    this.pair(31, 0)
+  }
+
+  toString() {
+    return this.lines.join("\n")
+  }
+}
+
+function formatNumber(value: number): string {
+  return Number.isInteger(value) ? String(value) : value.toFixed(4).replace(/\.?0+$/, "")
+}
+
+function normalizeAngle(degrees: number): number {
+  return ((degrees % 360) + 360) % 360
+}
+
+const add = (a: Vec, b: Vec): Vec => ({ x: a.x + b.x, y: a.y + b.y })
+const scale = (v: Vec, s: number): Vec => ({ x: v.x * s, y: v.y * s })
+const fromAngle = (degrees: number): Vec => ({
+  x: Math.cos((degrees * Math.PI) / 180),
+  y: Math.sin((degrees * Math.PI) / 180),
+})
+
+/**
+ * Build the DXF file contents from export data
+ */
+export function buildDXF(data: BlueprintExportData, settings: ExportSettings): string {
+  const { pixelsPerFoot } = data
+  const pixelsPerInch = pixelsPerFoot / 12
+
+  // Origin at the bottom-left of the ADU boundary (canvas Y grows down, DXF Y grows up)
+  const boundaryXs = data.aduBoundary.map((p) => p.x)
+  const boundaryYs = data.aduBoundary.map((p) => p.y)
+  const originX = boundaryXs.length ? Math.min(...boundaryXs) : 0
+  const originY = boundaryYs.length ? Math.max(...boundaryYs) : 0
+
+  // Each level is drawn beside the one below it, left to right
+  const levelSpacing = (boundaryXs.length ? Math.max(...boundaryXs) - originX : 0) / pixelsPerInch + LEVEL_SPACING
+  const levels = data.levels.length > 0
+    ? data.levels
+    : [{ id: "ground" as const, name: "Ground Floor", totalArea: data.totalArea }]
+
+  // Canvas rotation (clockwise on screen) to a DXF direction angle (counter-clockwise)
+  const toDxfAngle = (canvasDegrees: number) => -canvasDegrees
+
+  const entities = new DxfWriter()
+
+  levels.forEach((level, levelIndex) => {
+    const toDxf = (p: Vec): Vec => ({
+      x: (p.x - originX) / pixelsPerInch + levelIndex * levelSpacing,
+      y: (originY - p.y) / pixelsPerInch,
+    })
+    const onLevel = (item: { levelId: string }) => item.levelId === level.id
+    const rooms = data.rooms.filter(onLevel)
+    const doors = data.doors.filter(onLevel)
+    const windows = data.windows.filter(onLevel)
+    const furniture = data.furniture.filter(onLevel)
+
+    // Level title above the plan (a single-level plan needs none)
+    if (levels.length > 1 && data.aduBoundary.length > 0) {
+      const top = Math.max(...data.aduBoundary.map((p) => toDxf(p).y))
+      const left = Math.min(...data.aduBoundary.map((p) => toDxf(p).x))
+      const right = Math.max(...data.aduBoundary.map((p) => toDxf(p).x))
+      entities.text(
+        "labels",
+        { x: (left + right) / 2, y: top + DIMENSION_OFFSET + LABEL_TEXT_HEIGHT * 3 },
+        LABEL_TEXT_HEIGHT * 1.5,
+        `${level.name.toUpperCase()} (${Math.round(level.totalArea)} SF)`
+      )
+    }
+
+    // ADU boundary
+    entities.polyline("aduBoundary", data.aduBoundary.map(toDxf))
+
+    // Rooms and their labels
+    for (const room of rooms) {
+      const points = room.vertices.map(toDxf)
+      entities.polyline("rooms", points)
+
+      const xs = points.map((p) => p.x)
+      const ys = points.map((p) => p.y)
+      const center = {
+        x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+        y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+      }
+      const widthFeet = (Math.max(...xs) - Math.min(...xs)) / 12
+      const depthFeet = (Math.max(...ys) - Math.min(...ys)) / 12
+
+      entities.text("labels", add(center, { x: 0, y: LABEL_TEXT_HEIGHT * 1.5 }), LABEL_TEXT_HEIGHT, room.name.toUpperCase())
+      entities.text("labels", center, LABEL_TEXT_HEIGHT * 0.75, ROOM_TYPE_LABELS[room.type] || room.type)
+      entities.text(
+        "labels",
+        add(center, { x: 0, y: -LABEL_TEXT_HEIGHT * 1.5 }),
+        LABEL_TEXT_HEIGHT * 0.75,
+        `${formatFeetInches(widthFeet)} x ${formatFeetInches(depthFeet)} (${Math.round(room.area)} SF)`
+      )
+    }
+
+    // Walls - drawn as double lines with gaps at doors and windows
+    const openings = [...doors, ...windows]
+    for (const wall of buildWallGraph(rooms)) {
+      const { length } = projectOntoWall(wall.start, wall)
+      if (length === 0) continue
+      const thicknessPx = wall.thickness * pixelsPerInch
+      const angle = wallAngle(wall)
+
+      const gaps = openings
+        .filter((o) => {
+          const rotation = ((o.rotation % 180) + 180) % 180
+          const diff = Math.abs(rotation - angle)
+          return Math.min(diff, 180 - diff) < 1
+        })
+        .map((o) => ({ projection: projectOntoWall(o.position, wall), halfWidth: (o.width * pixelsPerFoot) / 2 }))
+        .filter(({ projection }) => projection.distance <= thicknessPx)
+        .map(({ projection, halfWidth }) => ({
+          start: Math.max(0, projection.along - halfWidth),
+          end: Math.min(length, projection.along + halfWidth),
+        }))
+        .sort((a, b) => a.start - b.start)
+
+      const pieces: Array<{ start: number; end: number }> = []
+      let cursor = 0
+      for (const gap of gaps) {
+        if (gap.start > cursor) pieces.push({ start: cursor, end: gap.start })
+        cursor = Math.max(cursor, gap.end)
+      }
+      if (cursor < length) pieces.push({ start: cursor, end: length })
+
+      const direction = { x: (wall.end.x - wall.start.x) / length, y: (wall.end.y - wall.start.y) / length }
+      const normal = { x: -direction.y, y: direction.x }
+      const half = thicknessPx / 2
+
+      for (const piece of pieces) {
+        // Extend pieces at the wall ends by half the thickness so corners close
+        const start = piece.start === 0 ? -half : piece.start
+        const end = piece.end === length ? length + half : piece.end
+        const a = add(wall.start, scale(direction, start))
+        const b = add(wall.start, scale(direction, end))
+        entities.polyline("walls", [
+          add(a, scale(normal, half)),
+          add(b, scale(normal, half)),
+          add(b, scale(normal, -half)),
+          add(a, scale(normal, -half)),
+        ].map(toDxf))
+      }
+    }
+
+    // Doors - leaves and swing arcs (hinge on the local left, swinging toward local +Y like the editor)
+    for (const door of doors) {
+      const widthIn = door.width * 12
+      const center = toDxf(door.position)
+      const angle = toDxfAngle(door.rotation)
+      const along = fromAngle(angle)
+      const swing = fromAngle(angle - 90) // canvas local +Y
+      const left = add(center, scale(along, -widthIn / 2))
+      const right = add(center, scale(along, widthIn / 2))
+
+      switch (door.type) {
+        case "single":
+          entities.line("doors", left, add(left, scale(swing, widthIn)))
+          entities.arc("doors", left, widthIn, angle - 90, angle)
+          break
+        case "double":
+        case "french":
+          entities.line("doors", left, add(left, scale(swing, widthIn / 2)))
+          entities.line("doors", right, add(right, scale(swing, widthIn / 2)))
+          entities.arc("doors", left, widthIn / 2, angle - 90, angle)
+          entities.arc("doors", right, widthIn / 2, angle + 180, angle + 270)
+          break
+        case "sliding": {
+          // Two overlapping panels offset to either side of the wall line
+          const offset = scale(swing, 1)
+          entities.line("doors", add(left, offset), add(center, add(offset, scale(along, 3))))
+          entities.line("doors", add(center, add(scale(offset, -1), scale(along, -3))), add(right, scale(offset, -1)))
+          break
+        }
+        default:
+          // Cased opening: mark the jambs only
+          entities.line("doors", add(left, scale(swing, 3)), add(left, scale(swing, -3)))
+          entities.line("doors", add(right, scale(swing, 3)), add(right, scale(swing, -3)))
+      }
+    }
+
+    // Windows - frame outline across the wall thickness plus a glass line
+    for (const window of windows) {
+      const widthIn = window.width * 12
+      const center = toDxf(window.position)
+      const along = fromAngle(toDxfAngle(window.rotation))
+      const across = { x: -along.y, y: along.x }
+      const halfDepth = 3 // inches (half of a 6" wall)
+      const a = add(center, scale(along, -widthIn / 2))
+      const b = add(center, scale(along, widthIn / 2))
+      entities.polyline("windows", [
+        add(a, scale(across, halfDepth)),
+        add(b, scale(across, halfDepth)),
+        add(b, scale(across, -halfDepth)),
+        add(a, scale(across, -halfDepth)),
+      ])
+      entities.line("windows", a, b)
+    }
+
+    // Furniture footprints (position is the item center)
+    for (const item of furniture) {
+      const center = toDxf(item.position)
+      const isRotated = item.rotation === 90 || item.rotation === 270
+      const halfW = ((isRotated ? item.height : item.width) * 12) / 2
+      const halfH = ((isRotated ? item.width : item.height) * 12) / 2
+      entities.polyline("furniture", [
+        { x: center.x - halfW, y: center.y - halfH },
+        { x: center.x + halfW, y: center.y - halfH },
+        { x: center.x + halfW, y: center.y + halfH },
+        { x: center.x - halfW, y: center.y + halfH },
+      ])
+    }
+
+    // Electrical devices - a circle with the symbol tag, and a line from each switch to its lights
+    if (data.electrical) {
+      const radius = (ELECTRICAL_CONFIG.SYMBOL_SIZE * 12) / 2
+      const byId = new Map(data.electrical.devices.map((d) => [d.id, d]))
+      for (const device of data.electrical.devices.filter(onLevel)) {
+        const center = toDxf(device.position)
+        entities.circle("electrical", center, radius)
+        const tag = ELECTRICAL_CONFIGS[device.type as ElectricalDeviceType]?.tag
+        if (tag) entities.text("electrical", center, radius * 0.8, tag)
+        for (const lightId of device.controls ?? []) {
+          const light = byId.get(lightId)
+          if (light) entities.line("electrical", center, toDxf(light.position))
+        }
+      }
+    }
+
+    // Wet walls holding this level's fixtures, and from the ground level the lateral out to the sewer connection
+    if (data.plumbing) {
+      const fixtureIds = new Set(furniture.map((f) => f.id))
+      for (const wall of data.plumbing.wetWalls) {
+        if (wall.fixtureIds.some((id) => fixtureIds.has(id))) {
+          entities.line("plumbing", toDxf(wall.start), toDxf(wall.end))
+        }
+      }
+      for (const segment of data.plumbing.route) {
+        if (segment.kind === "lateral" && level.id === "ground") {
+          entities.line("plumbing", toDxf(segment.from), toDxf(segment.to))
+        }
+      }
+    }
+
+    // Dimensions along each ADU boundary edge, offset outside the boundary
+    if (settings.includeDimensions && data.aduBoundary.length >= 3) {
+      const points = data.aduBoundary.map(toDxf)
+      const signedArea = points.reduce((sum, p, i) => {
+        const q = points[(i + 1) % points.length]
+        return sum + (p.x * q.y - q.x * p.y)
+      }, 0)
+
+      points.forEach((a, i) => {
+        const b = points[(i + 1) % points.length]
+        const dx = b.x - a.x
+        const dy = b.y - a.y
+        const lengthIn = Math.hypot(dx, dy)
+        if (lengthIn < 12) return
+
+        const direction = { x: dx / lengthIn, y: dy / lengthIn }
+        // Outward normal: right of travel for counter-clockwise polygons
+        const outward = signedArea > 0 ? { x: direction.y, y: -direction.x } : { x: -direction.y, y: direction.x }
+        const dimA = add(a, scale(outward, DIMENSION_OFFSET))
+        const dimB = add(b, scale(outward, DIMENSION_OFFSET))
+
+        entities.line("dimensions", add(a, scale(outward, 6)), add(dimA, scale(outward, 3)))
+        entities.line("dimensions", add(b, scale(outward, 6)), add(dimB, scale(outward, 3)))
+        entities.line("dimensions", dimA, dimB)
+
+        // Architectural tick marks
+        const tick = scale(add(direction, outward), 2)
+        entities.line("dimensions", add(dimA, scale(tick, -1)), add(dimA, tick))
+        entities.line("dimensions", add(dimB, scale(tick, -1)), add(dimB, tick))
+
+        // Keep the text readable (never upside down)
+        let textAngle = (Math.atan2(dy, dx) * 180) / Math.PI
+        if (textAngle > 90 || textAngle <= -90) textAngle += 180
+        const mid = scale(add(dimA, dimB), 0.5)
+        entities.text(
+          "dimensions",
+          add(mid, scale(outward, DIMENSION_TEXT_HEIGHT)),
+          DIMENSION_TEXT_HEIGHT,
+          formatFeetInches(lengthIn / 12),
+          textAngle
+        )
+      })
+    }
+
+    // Lot boundary and setbacks
+    if (settings.includeLotOverlay && data.lotData && level.id === "ground") {
+      if (data.lotData.boundary && data.lotData.boundary.length >= 3) {
+        entities.polyline("lot", data.lotData.boundary.map(toDxf))
+      }
+      if (data.lotData.setbackBoundary && data.lotData.setbackBoundary.length >= 3) {
+        entities.polyline("setbacks", data.lotData.setbackBoundary.map(toDxf))
+      }
+    }
+
+  })
+
+  return [
+    buildHeaderSection(settings),
+    buildTablesSection(),
+    "0\nSECTION\n2\nENTITIES",
+    entities.toString(),
+    "0\nENDSEC\n0\nEOF",
+  ].join("\n")
+}
+
+// Only R12 header variables - $INSUNITS, $MEASUREMENT and $PROJECTNAME came later and strict
+// R12 readers reject them, so the units and project go in 999 comments instead
+function buildHeaderSection(settings: ExportSettings): string {
+  const header = new DxfWriter()
+  header.pair(999, settings.projectName.replace(/[\r\n]+/g, " "))
+  header.pair(999, "Units: inches (architectural feet-inches display)")
+  header.pair(0, "SECTION")
+  header.pair(2, "HEADER")
+  header.pair(9, "$ACADVER")
+  header.pair(1, "AC1009")
+  header.pair(9, "$LUNITS")
+  header.pair(70, 4) // architectural (feet-inches)
+  header.pair(9, "$LUPREC")
+  header.pair(70, 4) // 1/16"
+  header.pair(0, "ENDSEC")
+  return header.toString()
+}
+
+function buildTablesSection(): string {
+  const tables = new DxfWriter()
+  tables.pair(0, "SECTION")
+  tables.pair(2, "TABLES")
+
+  // Line types
+  tables.pair(0, "TABLE")
+  tables.pair(2, "LTYPE")
+  tables.pair(70, 2)
+  tables.pair(0, "LTYPE")
+  tables.pair(2, "CONTINUOUS")
+  tables.pair(70, 0)
+  tables.pair(3, "Solid line")
+  tables.pair(72, 65)
+  tables.pair(73, 0)
+  tables.pair(40, 0)
+  tables.pair(0, "LTYPE")
+  tables.pair(2, "DASHED")
+  tables.pair(70, 0)
+  tables.pair(3, "Dashed __ __ __")
+  tables.pair(72, 65)
+  tables.pair(73, 2)
+  tables.pair(40, 18)
+  tables.pair(49, 12)
+  tables.pair(49, -6)
+  tables.pair(0, "ENDTAB")
+
+  // Layers
+  const layers = Object.values(DXF_LAYERS)
+  tables.pair(0, "TABLE")
+  tables.pair(2, "LAYER")
+  tables.pair(70, layers.length)
+  for (const layer of layers) {
+    tables.pair(0, "LAYER")
+    tables.pair(2, layer.name)
+    tables.pair(70, 0)
+    tables.pair(62, layer.color)
+    tables.pair(6, layer.lineType)
+  }
+  tables.pair(0, "ENDTAB")
+
+  tables.pair(0, "ENDSEC")
+  return tables.toString()
+}
+
+/**
+ * Export as DXF (client-side)
+ */
+export function exportDXF(
+  data: BlueprintExportData,
+  settings: ExportSettings
+): void {
+  const blob = new Blob([buildDXF(data, settings)], { type: "application/dxf" })
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement("a")
+  link.download = `${sanitizeFilename(settings.projectName)}_FloorPlan.dxf`
+  link.href = url
+  link.click()
+  URL.revokeObjectURL(url)
+}
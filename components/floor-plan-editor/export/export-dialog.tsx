@@ -32,6 +32,7 @@ import {
   FileText,
   Image,
   FileJson,
+  PenTool,
   Download,
   Loader2,
   ChevronDown,
@@ -45,15 +46,20 @@ import type {
   SheetSize,
   Scale,
   BlueprintExportData,
+  ExportLevel,
 } from "./types"
-import type { Room, Door, Window } from "@/lib/types"
-import type { Furniture, CanvasConfig } from "../types"
+import type { ElectricalDevice } from "@/lib/types"
+import type { CanvasConfig } from "../types"
 import type { Lot } from "@/lib/api/client"
+import { formatCurrency, type CostEstimateSummary } from "@/lib/cost"
+import type { DaylightReport } from "@/lib/daylight"
+import type { PlumbingReport } from "@/lib/plumbing"
 import {
   SHEET_CONFIGS,
   SCALE_OPTIONS,
   DPI_OPTIONS,
   DEFAULT_EXPORT_SETTINGS,
+  DXF_LAYERS,
 } from "./constants"
 import {
   buildExportData,
@@ -62,18 +68,20 @@ import {
   exportJSON,
   sanitizeFilename,
 } from "./utils"
+import { exportDXF } from "./dxf"
 
 interface ExportDialogProps {
   open: boolean
   onOpenChange: (open: boolean) => void
   stageRef: React.RefObject<Konva.Stage | null>
-  rooms: Room[]
-  doors: Door[]
-  windows: Window[]
-  furniture: Furniture[]
+  levels: ExportLevel[] // every level, bottom to top
   aduBoundary: Array<{ x: number; y: number }>
   config: CanvasConfig
   lot?: Lot | null
+  costEstimate?: CostEstimateSummary | null
+  daylight?: DaylightReport | null
+  electrical?: ElectricalDevice[]
+  plumbing?: PlumbingReport | null
   blueprintId?: string
   projectName?: string
   address?: string
@@ -83,13 +91,14 @@ export function ExportDialog({
   open,
   onOpenChange,
   stageRef,
-  rooms,
-  doors,
-  windows,
-  furniture,
+  levels,
   aduBoundary,
   config,
   lot,
+  costEstimate,
+  daylight,
+  electrical,
+  plumbing,
   blueprintId,
   projectName = "ADU Floor Plan",
   address = "",
@@ -103,8 +112,31 @@ export function ExportDialog({
 
   // Build export data from current state
   const exportData = useMemo<BlueprintExportData>(
-    () => buildExportData(rooms, doors, windows, furniture, aduBoundary, config, lot),
-    [rooms, doors, windows, furniture, aduBoundary, config, lot]
+    () =>
+      buildExportData(
+        levels,
+        aduBoundary,
+        config,
+        lot,
+        settings.includeCostEstimate ? costEstimate : null,
+        settings.includeDaylight ? daylight : null,
+        settings.includeElectrical ? electrical : null,
+        settings.includePlumbing ? plumbing : null
+      ),
+    [
+      levels,
+      aduBoundary,
+      config,
+      lot,
+      costEstimate,
+      daylight,
+      electrical,
+      plumbing,
+      settings.includeCostEstimate,
+      settings.includeDaylight,
+      settings.includeElectrical,
+      settings.includePlumbing,
+    ]
   )
 
   // Update setting helper
@@ -150,6 +182,21 @@ export function ExportDialog({
     }
   }, [exportData, settings, onOpenChange])
 
+  // Handle DXF export
+  const handleDxfExport = useCallback(() => {
+    setIsExporting(true)
+    try {
+      exportDXF(exportData, settings)
+      toast.success("DXF exported successfully!")
+      onOpenChange(false)
+    } catch (error) {
+      console.error("DXF export error:", error)
+      toast.error("Failed to export DXF")
+    } finally {
+      setIsExporting(false)
+    }
+  }, [exportData, settings, onOpenChange])
+
   // Handle PDF export (server-side)
   const handlePdfExport = useCallback(async () => {
     if (!blueprintId) {
@@ -226,8 +273,11 @@ export function ExportDialog({
       case "json":
         handleJsonExport()
         break
+      case "dxf":
+        handleDxfExport()
+        break
     }
-  }, [settings.format, handlePdfExport, handlePngExport, handleJsonExport])
+  }, [settings.format, handlePdfExport, handlePngExport, handleJsonExport, handleDxfExport])
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -247,7 +297,7 @@ export function ExportDialog({
           onValueChange={(v) => handleFormatChange(v as ExportFormat)}
           className="flex-1 flex flex-col overflow-hidden"
         >
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="pdf" className="gap-2">
               <FileText className="h-4 w-4" />
               PDF
@@ -260,6 +310,10 @@ export function ExportDialog({
               <FileJson className="h-4 w-4" />
               JSON
             </TabsTrigger>
+            <TabsTrigger value="dxf" className="gap-2">
+              <PenTool className="h-4 w-4" />
+              DXF
+            </TabsTrigger>
           </TabsList>
 
           <ScrollArea className="flex-1 mt-4 pr-4">
@@ -279,6 +333,14 @@ export function ExportDialog({
             <TabsContent value="json" className="mt-0 space-y-4">
               <JsonInfo exportData={exportData} settings={settings} />
             </TabsContent>
+
+            <TabsContent value="dxf" className="mt-0 space-y-4">
+              <DxfSettings
+                settings={settings}
+                updateSetting={updateSetting}
+                hasLot={!!lot}
+              />
+            </TabsContent>
           </ScrollArea>
         </Tabs>
 
@@ -501,6 +563,78 @@ function PdfSettings({
               </p>
             </div>
           )}
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="includeCostEstimate" className="cursor-pointer">
+                Cost Estimate
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {exportData.costEstimate
+                  ? `Trade and room summary (${formatCurrency(exportData.costEstimate.total)})`
+                  : "Trade and room cost summary"}
+              </p>
+            </div>
+            <Switch
+              id="includeCostEstimate"
+              checked={settings.includeCostEstimate}
+              onCheckedChange={(v) => updateSetting("includeCostEstimate", v)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="includeDaylight" className="cursor-pointer">
+                Daylight &amp; Ventilation
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {exportData.daylight && exportData.daylight.shortfalls > 0
+                  ? `Glazing per room (${exportData.daylight.shortfalls} below the 8% / 4% minimums)`
+                  : "Glazing per room against the 8% / 4% minimums"}
+              </p>
+            </div>
+            <Switch
+              id="includeDaylight"
+              checked={settings.includeDaylight}
+              onCheckedChange={(v) => updateSetting("includeDaylight", v)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="includeElectrical" className="cursor-pointer">
+                Electrical Plan &amp; Legend
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {exportData.electrical
+                  ? `${exportData.electrical.devices.length} devices, ${exportData.electrical.legend.length} symbols in the legend`
+                  : "Device symbols with their own legend"}
+              </p>
+            </div>
+            <Switch
+              id="includeElectrical"
+              checked={settings.includeElectrical}
+              onCheckedChange={(v) => updateSetting("includeElectrical", v)}
+            />
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="includePlumbing" className="cursor-pointer">
+                Plumbing Summary
+              </Label>
+              <p className="text-xs text-muted-foreground">
+                {exportData.plumbing
+                  ? `${exportData.plumbing.fixtures.length} fixtures, ${exportData.plumbing.totalDfu} DFU, ${exportData.plumbing.wetWalls.length} wet walls`
+                  : "Fixture units, wet walls and pipe runs"}
+              </p>
+            </div>
+            <Switch
+              id="includePlumbing"
+              checked={settings.includePlumbing}
+              onCheckedChange={(v) => updateSetting("includePlumbing", v)}
+            />
+          </div>
         </CollapsibleContent>
       </Collapsible>
 
@@ -660,6 +794,18 @@ function JsonInfo({ exportData, settings }: JsonInfoProps) {
           <div>Furniture: {exportData.furniture.length}</div>
           <div>Total Area: {exportData.totalArea.toFixed(0)} SF</div>
           <div>ADU Boundary: {exportData.aduBoundaryArea.toFixed(0)} SF</div>
+          {exportData.costEstimate && (
+            <div>Estimated Cost: {formatCurrency(exportData.costEstimate.total)}</div>
+          )}
+          {exportData.daylight && (
+            <div>Glazing: {exportData.daylight.glazingPercent}% of floor</div>
+          )}
+          {exportData.electrical && (
+            <div>Electrical Devices: {exportData.electrical.devices.length}</div>
+          )}
+          {exportData.plumbing && (
+            <div>Plumbing: {exportData.plumbing.totalDfu} DFU</div>
+          )}
         </div>
       </div>
 
@@ -673,3 +819,80 @@ function JsonInfo({ exportData, settings }: JsonInfoProps) {
     </div>
   )
 }
+
+// DXF Settings Section
+interface DxfSettingsProps {
+  settings: ExportSettings
+  updateSetting: <K extends keyof ExportSettings>(
+    key: K,
+    value: ExportSettings[K]
+  ) => void
+  hasLot: boolean
+}
+
+function DxfSettings({ settings, updateSetting, hasLot }: DxfSettingsProps) {
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label>File Name</Label>
+        <Input
+          value={settings.projectName}
+          onChange={(e) => updateSetting("projectName", e.target.value)}
+          placeholder="ADU Floor Plan"
+        />
+        <p className="text-xs text-muted-foreground">
+          File will be saved as: {sanitizeFilename(settings.projectName)}_FloorPlan.dxf
+        </p>
+      </div>
+
+      <div className="flex items-center justify-between">
+        <Label htmlFor="dxfIncludeDimensions" className="cursor-pointer">
+          Include Dimensions
+        </Label>
+        <Switch
+          id="dxfIncludeDimensions"
+          checked={settings.includeDimensions}
+          onCheckedChange={(v) => updateSetting("includeDimensions", v)}
+        />
+      </div>
+
+      {hasLot && (
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="dxfIncludeLot" className="cursor-pointer">
+              Lot Boundary & Setbacks
+            </Label>
+            <p className="text-xs text-muted-foreground">
+              Positioned relative to the ADU placement on the lot
+            </p>
+          </div>
+          <Switch
+            id="dxfIncludeLot"
+            checked={settings.includeLotOverlay}
+            onCheckedChange={(v) => updateSetting("includeLotOverlay", v)}
+          />
+        </div>
+      )}
+
+      <div className="bg-muted/50 border rounded-lg p-3 text-sm space-y-2">
+        <p className="font-medium">Layers</p>
+        <div className="grid grid-cols-2 gap-x-4 gap-y-1 text-xs text-muted-foreground">
+          {Object.values(DXF_LAYERS).map((layer) => (
+            <div key={layer.name}>
+              <span className="font-mono text-foreground">{layer.name}</span> {layer.description}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="bg-muted/50 border rounded-lg p-3 text-sm">
+        <p className="font-medium mb-1">DXF Export</p>
+        <p className="text-muted-foreground">
+          Exports a CAD drawing in real-world units (inches, shown as feet-inches)
+          for architects and permit drafters. Opens in AutoCAD, Revit, LibreCAD
+          and most other CAD tools.
+        </p>
+      </div>
+    </div>
+  )
+}
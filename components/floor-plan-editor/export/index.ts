@@ -2,3 +2,4 @@ export { ExportDialog } from "./export-dialog"
 export * from "./types"
 export * from "./constants"
 export * from "./utils"
+export { buildDXF, exportDXF } from "./dxf"
@@ -2,7 +2,14 @@
  * Export Feature Types
  */
 
-export type ExportFormat = "pdf" | "png" | "json"
+import type { LevelId } from "@/lib/types"
+import type { CostEstimateSummary } from "@/lib/cost"
+import type { DaylightReport } from "@/lib/daylight"
+import type { ElectricalLegendEntry } from "@/lib/electrical"
+import type { PlumbingReport } from "@/lib/plumbing"
+import type { LevelContent } from "../types"
+
+export type ExportFormat = "pdf" | "png" | "json" | "dxf"
 
 export type SheetSize = "ARCH_D" | "ARCH_C" | "LETTER" | "A4"
 
@@ -20,6 +27,10 @@ export interface ExportSettings {
   includeTitleBlock: boolean
   includeLotOverlay: boolean
   includeSatellite: boolean
+  includeCostEstimate: boolean
+  includeDaylight: boolean
+  includeElectrical: boolean
+  includePlumbing: boolean
   projectName: string
   preparedBy: string
   address: string
@@ -27,6 +38,7 @@ export interface ExportSettings {
 
 export interface RoomScheduleItem {
   id: string
+  levelId: LevelId
   name: string
   type: string
   area: number
@@ -35,6 +47,7 @@ export interface RoomScheduleItem {
 
 export interface DoorScheduleItem {
   id: string
+  levelId: LevelId
   type: string
   position: { x: number; y: number }
   rotation: number
@@ -43,6 +56,7 @@ export interface DoorScheduleItem {
 
 export interface WindowScheduleItem {
   id: string
+  levelId: LevelId
   type: string
   position: { x: number; y: number }
   rotation: number
@@ -52,6 +66,7 @@ export interface WindowScheduleItem {
 
 export interface FurnitureScheduleItem {
   id: string
+  levelId: LevelId
   type: string
   position: { x: number; y: number }
   rotation: number
@@ -59,22 +74,60 @@ export interface FurnitureScheduleItem {
   height: number
 }
 
+export interface ElectricalScheduleItem {
+  id: string
+  levelId: LevelId
+  type: string
+  position: { x: number; y: number }
+  rotation: number
+  circuit?: string
+  controls?: string[] // switches: ids of the lights they control
+}
+
+// Electrical sheet - device symbols plus the legend of the symbols used
+export interface ElectricalExportData {
+  devices: ElectricalScheduleItem[]
+  legend: ElectricalLegendEntry[]
+}
+
 export interface LotScheduleData {
   address: string
   dimensions: string
   area: number
   setbacks: string
+  // Lot and setback outlines in the same canvas coordinates as the plan (ADU-local)
+  boundary?: Array<{ x: number; y: number }>
+  setbackBoundary?: Array<{ x: number; y: number }>
+}
+
+// A building level and what is on it - exports cover every level
+export interface ExportLevel extends LevelContent {
+  id: LevelId
+  name: string
+}
+
+// Levels in the export, bottom to top; schedule items point at one by levelId
+export interface LevelScheduleItem {
+  id: LevelId
+  name: string
+  totalArea: number // sq ft of rooms on this level
 }
 
 export interface BlueprintExportData {
+  levels: LevelScheduleItem[]
   rooms: RoomScheduleItem[]
   doors: DoorScheduleItem[]
   windows: WindowScheduleItem[]
   furniture: FurnitureScheduleItem[]
   aduBoundary: Array<{ x: number; y: number }>
-  totalArea: number
+  totalArea: number // every level
   aduBoundaryArea: number
+  pixelsPerFoot: number // positions and vertices are canvas pixels
   lotData?: LotScheduleData
+  costEstimate?: CostEstimateSummary
+  daylight?: DaylightReport
+  electrical?: ElectricalExportData
+  plumbing?: PlumbingReport
 }
 
 export interface ExportRecord {
@@ -10,10 +10,20 @@ import type {
   DoorScheduleItem,
   WindowScheduleItem,
   FurnitureScheduleItem,
+  ExportLevel,
 } from "./types"
-import type { Room, Door, Window } from "@/lib/types"
+import type { Room, Door, Window, ElectricalDevice, LevelId } from "@/lib/types"
 import type { Furniture, CanvasConfig } from "../types"
 import type { Lot } from "@/lib/api/client"
+import type { CostEstimateSummary } from "@/lib/cost"
+import type { DaylightReport } from "@/lib/daylight"
+import { electricalLegend } from "@/lib/electrical"
+import type { PlumbingReport } from "@/lib/plumbing"
+import {
+  getLotBoundaryPixels,
+  getSetbackBoundaryPixels,
+  worldToAduLocal,
+} from "../lot/lot-geometry"
 import {
   ROOM_TYPE_LABELS,
   DOOR_TYPE_LABELS,
@@ -51,7 +61,8 @@ export function pixelsToSqFeet(pixels: number, pixelsPerFoot: number): number {
  */
 export function roomsToSchedule(
   rooms: Room[],
-  pixelsPerFoot: number
+  pixelsPerFoot: number,
+  levelId: LevelId = "ground"
 ): RoomScheduleItem[] {
   return rooms.map((room) => {
     // Calculate area from vertices
@@ -60,6 +71,7 @@ export function roomsToSchedule(
 
     return {
       id: room.id,
+      levelId,
       name: room.name,
       type: room.type,
       area: Math.round(areaSqFt * 100) / 100,
@@ -71,33 +83,29 @@ export function roomsToSchedule(
 /**
  * Convert doors to export schedule format
  */
-export function doorsToSchedule(
-  doors: Door[],
-  pixelsPerFoot: number
-): DoorScheduleItem[] {
+export function doorsToSchedule(doors: Door[], levelId: LevelId = "ground"): DoorScheduleItem[] {
   return doors.map((door) => ({
     id: door.id,
+    levelId,
     type: door.type,
     position: { x: door.position.x, y: door.position.y },
     rotation: door.rotation,
-    width: door.width / pixelsPerFoot,
+    width: door.width, // already in feet
   }))
 }
 
 /**
  * Convert windows to export schedule format
  */
-export function windowsToSchedule(
-  windows: Window[],
-  pixelsPerFoot: number
-): WindowScheduleItem[] {
+export function windowsToSchedule(windows: Window[], levelId: LevelId = "ground"): WindowScheduleItem[] {
   return windows.map((window) => ({
     id: window.id,
+    levelId,
     type: window.type,
     position: { x: window.position.x, y: window.position.y },
     rotation: window.rotation,
-    width: window.width / pixelsPerFoot,
-    height: window.height / pixelsPerFoot,
+    width: window.width, // already in feet
+    height: window.height,
   }))
 }
 
@@ -106,10 +114,12 @@ export function windowsToSchedule(
  */
 export function furnitureToSchedule(
   furniture: Furniture[],
-  pixelsPerFoot: number
+  pixelsPerFoot: number,
+  levelId: LevelId = "ground"
 ): FurnitureScheduleItem[] {
   return furniture.map((f) => ({
     id: f.id,
+    levelId,
     type: f.type,
     position: { x: f.position.x, y: f.position.y },
     rotation: f.rotation,
@@ -119,29 +129,54 @@ export function furnitureToSchedule(
 }
 
 /**
- * Build complete blueprint export data from editor state
+ * Build complete blueprint export data from editor state (levels bottom to top)
  */
 export function buildExportData(
-  rooms: Room[],
-  doors: Door[],
-  windows: Window[],
-  furniture: Furniture[],
+  levels: ExportLevel[],
   aduBoundary: Array<{ x: number; y: number }>,
   config: CanvasConfig,
-  lot?: Lot | null
+  lot?: Lot | null,
+  costEstimate?: CostEstimateSummary | null,
+  daylight?: DaylightReport | null,
+  electrical?: ElectricalDevice[] | null,
+  plumbing?: PlumbingReport | null
 ): BlueprintExportData {
-  const roomSchedule = roomsToSchedule(rooms, config.pixelsPerFoot)
-  const doorSchedule = doorsToSchedule(doors, config.pixelsPerFoot)
-  const windowSchedule = windowsToSchedule(windows, config.pixelsPerFoot)
-  const furnitureSchedule = furnitureToSchedule(furniture, config.pixelsPerFoot)
+  const roomSchedule = levels.flatMap((level) => roomsToSchedule(level.rooms, config.pixelsPerFoot, level.id))
+  const doorSchedule = levels.flatMap((level) => doorsToSchedule(level.doors, level.id))
+  const windowSchedule = levels.flatMap((level) => windowsToSchedule(level.windows, level.id))
+  const furnitureSchedule = levels.flatMap((level) =>
+    furnitureToSchedule(level.furniture, config.pixelsPerFoot, level.id)
+  )
 
-  // Calculate total room area
+  // Room area per level and for the whole building
+  const levelSchedule = levels.map(({ id, name }) => ({
+    id,
+    name,
+    totalArea: Math.round(
+      roomSchedule.filter((room) => room.levelId === id).reduce((sum, room) => sum + room.area, 0) * 100
+    ) / 100,
+  }))
   const totalArea = roomSchedule.reduce((sum, room) => sum + room.area, 0)
 
   // Calculate ADU boundary area
   const aduAreaPixels = calculatePolygonArea(aduBoundary)
   const aduBoundaryArea = pixelsToSqFeet(aduAreaPixels, config.pixelsPerFoot)
 
+  // Lot and setback outlines, mapped into the plan's coordinates using the saved ADU placement
+  const canvasCenter = {
+    x: config.extendedCanvasSize / 2,
+    y: config.extendedCanvasSize / 2,
+  }
+  const lotBoundary = lot ? getLotBoundaryPixels(lot, config.pixelsPerFoot, canvasCenter) : []
+  const setbackBoundary = lot ? getSetbackBoundaryPixels(lot, lotBoundary, config.pixelsPerFoot) : []
+  const aduTransform = {
+    offsetX: lot?.aduOffsetX ?? 0,
+    offsetY: lot?.aduOffsetY ?? 0,
+    rotation: lot?.aduRotation ?? 0,
+    canvasCenter,
+    pixelsPerFoot: config.pixelsPerFoot,
+  }
+
   // Build lot data if available
   const lotData = lot
     ? {
@@ -151,10 +186,13 @@ export function buildExportData(
           : "N/A",
         area: lot.lotAreaSqFt || 0,
         setbacks: `F: ${lot.setbackFrontFeet}' | B: ${lot.setbackBackFeet}' | L: ${lot.setbackLeftFeet}' | R: ${lot.setbackRightFeet}'`,
+        boundary: lotBoundary.map((p) => worldToAduLocal(p, aduTransform)),
+        setbackBoundary: setbackBoundary.map((p) => worldToAduLocal(p, aduTransform)),
       }
     : undefined
 
   return {
+    levels: levelSchedule,
     rooms: roomSchedule,
     doors: doorSchedule,
     windows: windowSchedule,
@@ -162,7 +200,25 @@ export function buildExportData(
     aduBoundary,
     totalArea: Math.round(totalArea * 100) / 100,
     aduBoundaryArea: Math.round(aduBoundaryArea * 100) / 100,
+    pixelsPerFoot: config.pixelsPerFoot,
     lotData,
+    ...(costEstimate && { costEstimate }),
+    ...(daylight && { daylight }),
+    ...(electrical && electrical.length > 0 && {
+      electrical: {
+        devices: electrical.map(({ id, level, type, position, rotation, circuit, controls }) => ({
+          id,
+          levelId: level,
+          type,
+          position,
+          rotation,
+          ...(circuit && { circuit }),
+          ...(controls?.length && { controls }),
+        })),
+        legend: electricalLegend(electrical),
+      },
+    }),
+    ...(plumbing && plumbing.fixtures.length > 0 && { plumbing }),
   }
 }
 
@@ -216,6 +272,7 @@ export function exportJSON(
     units: "feet",
     totalArea: data.totalArea,
     aduBoundaryArea: data.aduBoundaryArea,
+    levels: data.levels,
     rooms: data.rooms.map((room) => ({
       ...room,
       typeLabel: ROOM_TYPE_LABELS[room.type] || room.type,
@@ -234,6 +291,10 @@ export function exportJSON(
     })),
     aduBoundary: data.aduBoundary,
     lot: data.lotData,
+    costEstimate: data.costEstimate,
+    daylight: data.daylight,
+    electrical: data.electrical,
+    plumbing: data.plumbing,
   }
 
   const blob = new Blob([JSON.stringify(exportData, null, 2)], {
@@ -268,8 +329,10 @@ export function formatArea(sqFt: number): string {
  * Format dimensions in feet and inches
  */
 export function formatFeetInches(feet: number): string {
-  const wholeFeet = Math.floor(feet)
-  const inches = Math.round((feet - wholeFeet) * 12)
+  // Round to whole inches first so 13.999' reads 14'-0" rather than 13'-12"
+  const totalInches = Math.round(feet * 12)
+  const wholeFeet = Math.floor(totalInches / 12)
+  const inches = totalInches % 12
   if (inches === 0) {
     return `${wholeFeet}'-0"`
   }
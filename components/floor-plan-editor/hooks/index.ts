@@ -11,3 +11,10 @@ export { useVersionHistory } from "./use-version-history";
 export type { EditorSnapshot, EditorViewSettings } from "./use-version-history";
 export { useLotBoundaryDrawing } from "./use-lot-boundary-drawing";
 export { useEditorSettings } from "./use-editor-settings";
+export { useCustomTemplates } from "./use-custom-templates";
+export { useCompliance } from "./use-compliance";
+export { useImageUnderlay } from "./use-image-underlay";
+export { useLevels, sortLevels } from "./use-levels";
+export { useElectrical } from "./use-electrical";
+export { useSessionReplay, REPLAY_SPEEDS } from "./use-session-replay";
+export { useVersionCompare } from "./use-version-compare";
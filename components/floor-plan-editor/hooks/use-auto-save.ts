@@ -1,6 +1,6 @@
 import { useState, useCallback, useRef, useEffect } from "react";
-import type { Room, Door, Window, Point } from "@/lib/types";
-import type { Furniture, CanvasConfig } from "../types";
+import type { Room, Door, Window, Point, Stair, ElectricalDevice } from "@/lib/types";
+import type { Furniture, CanvasConfig, EditorLevel } from "../types";
 
 interface EditorData {
   rooms: Room[];
@@ -11,6 +11,10 @@ interface EditorData {
   pixelsPerFoot: number;
   canvasWidth: number;
   canvasHeight: number;
+  ceilingHeight?: number;
+  levels?: EditorLevel[];
+  stairs?: Stair[];
+  electrical?: ElectricalDevice[];
 }
 
 interface UseAutoSaveOptions {
@@ -19,6 +23,11 @@ interface UseAutoSaveOptions {
   windows: Window[];
   furniture: Furniture[];
   aduBoundary: Point[];
+  // Multi-story: rooms/doors/windows/furniture above are the ground level
+  ceilingHeight?: number;
+  levels?: EditorLevel[];
+  stairs?: Stair[];
+  electrical?: ElectricalDevice[];
   config: CanvasConfig;
   isSaving: boolean;
   saveToCloud: (data: EditorData) => Promise<boolean>;
@@ -31,6 +40,10 @@ export function useAutoSave({
   windows,
   furniture,
   aduBoundary,
+  ceilingHeight,
+  levels,
+  stairs,
+  electrical,
   config,
   isSaving,
   saveToCloud,
@@ -51,8 +64,12 @@ export function useAutoSave({
       windows: windows.map(w => ({ id: w.id, position: w.position, width: w.width, rotation: w.rotation })),
       furniture: furniture.map(f => ({ id: f.id, position: f.position, width: f.width, height: f.height, rotation: f.rotation })),
       boundary: aduBoundary,
+      ceilingHeight,
+      levels,
+      stairs,
+      electrical,
     });
-  }, [rooms, doors, windows, furniture, aduBoundary]);
+  }, [rooms, doors, windows, furniture, aduBoundary, ceilingHeight, levels, stairs, electrical]);
 
   // Manual save function
   const saveNow = useCallback(async () => {
@@ -65,13 +82,17 @@ export function useAutoSave({
       pixelsPerFoot,
       canvasWidth: displaySize,
       canvasHeight: displaySize,
+      ceilingHeight,
+      levels,
+      stairs,
+      electrical,
     };
     const success = await saveToCloud(editorData);
     if (success) {
       lastSaveHashRef.current = getStateHash();
     }
     return success;
-  }, [rooms, doors, windows, furniture, aduBoundary, pixelsPerFoot, displaySize, saveToCloud, getStateHash]);
+  }, [rooms, doors, windows, furniture, aduBoundary, ceilingHeight, levels, stairs, electrical, pixelsPerFoot, displaySize, saveToCloud, getStateHash]);
 
   // Debounced auto-save effect
   useEffect(() => {
@@ -106,6 +127,10 @@ export function useAutoSave({
         pixelsPerFoot,
         canvasWidth: displaySize,
         canvasHeight: displaySize,
+        ceilingHeight,
+        levels,
+        stairs,
+        electrical,
       });
       if (success) {
         lastSaveHashRef.current = currentHash;
@@ -119,7 +144,7 @@ export function useAutoSave({
         clearTimeout(autoSaveTimerRef.current);
       }
     };
-  }, [rooms, doors, windows, furniture, aduBoundary, autoSaveEnabled, isSaving, saveToCloud, pixelsPerFoot, displaySize, getStateHash, debounceMs]);
+  }, [rooms, doors, windows, furniture, aduBoundary, ceilingHeight, levels, stairs, electrical, autoSaveEnabled, isSaving, saveToCloud, pixelsPerFoot, displaySize, getStateHash, debounceMs]);
 
   return {
     autoSaveEnabled,
@@ -0,0 +1,21 @@
+import { useMemo } from "react";
+import { evaluateCompliance, getRuleSet } from "@/lib/compliance";
+import type { CompliancePlan, ComplianceResult } from "@/lib/compliance";
+
+/**
+ * Live compliance check of the current plan (every level) against a jurisdiction's rule set
+ */
+export function useCompliance(
+  plan: CompliancePlan,
+  ruleSetId?: string
+): ComplianceResult & { ruleSetName: string } {
+  const { rooms, doors, windows, furniture, aduBoundary, pixelsPerFoot, lotAreaSqFt, levels } = plan;
+
+  return useMemo(() => {
+    const ruleSet = getRuleSet(ruleSetId);
+    return {
+      ...evaluateCompliance({ rooms, doors, windows, furniture, aduBoundary, pixelsPerFoot, lotAreaSqFt, levels }, ruleSet),
+      ruleSetName: ruleSet.name,
+    };
+  }, [rooms, doors, windows, furniture, aduBoundary, pixelsPerFoot, lotAreaSqFt, levels, ruleSetId]);
+}
@@ -0,0 +1,57 @@
+import { useState, useCallback, useEffect } from "react";
+import type { ADUTemplate } from "@/lib/types";
+
+const LOCAL_STORAGE_KEY = "aduvisualizer:customTemplates";
+
+/**
+ * Hook to manage user-saved ADU templates
+ * Custom templates are stored in localStorage so they are available across projects
+ */
+export function useCustomTemplates() {
+  const [customTemplates, setCustomTemplates] = useState<ADUTemplate[]>([]);
+
+  // Load saved templates on mount
+  useEffect(() => {
+    const loadTemplates = () => {
+      try {
+        const saved = localStorage.getItem(LOCAL_STORAGE_KEY);
+        if (saved) {
+          setCustomTemplates(JSON.parse(saved) as ADUTemplate[]);
+        }
+      } catch (error) {
+        console.error("[CustomTemplates] Error loading from localStorage:", error);
+      }
+    };
+    loadTemplates();
+  }, []);
+
+  const persist = useCallback((templates: ADUTemplate[]) => {
+    try {
+      localStorage.setItem(LOCAL_STORAGE_KEY, JSON.stringify(templates));
+    } catch (error) {
+      console.error("[CustomTemplates] Error saving to localStorage:", error);
+    }
+  }, []);
+
+  const saveCustomTemplate = useCallback((template: ADUTemplate) => {
+    setCustomTemplates(prev => {
+      const updated = [template, ...prev];
+      persist(updated);
+      return updated;
+    });
+  }, [persist]);
+
+  const deleteCustomTemplate = useCallback((templateId: string) => {
+    setCustomTemplates(prev => {
+      const updated = prev.filter(t => t.id !== templateId);
+      persist(updated);
+      return updated;
+    });
+  }, [persist]);
+
+  return {
+    customTemplates,
+    saveCustomTemplate,
+    deleteCustomTemplate,
+  };
+}
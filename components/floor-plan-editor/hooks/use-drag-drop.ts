@@ -1,11 +1,11 @@
 import { useState, useCallback, useRef } from "react";
 import type Konva from "konva";
-import type { Point, DoorType, WindowType } from "@/lib/types";
+import type { Point, DoorType, WindowType, ElectricalDeviceType } from "@/lib/types";
 import type { FurnitureType } from "../types";
 
 interface DraggedItem {
-  type: "furniture" | "door" | "window";
-  subType: FurnitureType | DoorType | WindowType;
+  type: "furniture" | "door" | "window" | "electrical";
+  subType: FurnitureType | DoorType | WindowType | ElectricalDeviceType;
 }
 
 interface AduTransform {
@@ -23,6 +23,7 @@ interface UseDragDropOptions {
   onPlaceFurniture: (type: FurnitureType, position: Point) => void;
   onPlaceDoor: (position: Point, type: DoorType) => void;
   onPlaceWindow: (position: Point, type: WindowType) => void;
+  onPlaceElectrical?: (type: ElectricalDeviceType, position: Point) => void;
 }
 
 export function useDragDrop({
@@ -32,6 +33,7 @@ export function useDragDrop({
   onPlaceFurniture,
   onPlaceDoor,
   onPlaceWindow,
+  onPlaceElectrical,
 }: UseDragDropOptions) {
   const [draggedItem, setDraggedItem] = useState<DraggedItem | null>(null);
   const canvasContainerRef = useRef<HTMLDivElement | null>(null);
@@ -91,8 +93,8 @@ export function useDragDrop({
   // Handle drag start from sidebar
   const handleDragStart = useCallback((
     e: React.DragEvent,
-    type: "furniture" | "door" | "window",
-    subType: FurnitureType | DoorType | WindowType
+    type: DraggedItem["type"],
+    subType: DraggedItem["subType"]
   ) => {
     setDraggedItem({ type, subType });
     e.dataTransfer.setData("application/json", JSON.stringify({ type, subType }));
@@ -153,10 +155,12 @@ export function useDragDrop({
       onPlaceDoor({ x, y }, subType as DoorType);
     } else if (type === "window") {
       onPlaceWindow({ x, y }, subType as WindowType);
+    } else if (type === "electrical") {
+      onPlaceElectrical?.(subType as ElectricalDeviceType, { x, y });
     }
 
     setDraggedItem(null);
-  }, [stageRef, aduTransform, worldToAduLocal, snapToGrid, onPlaceFurniture, onPlaceDoor, onPlaceWindow]);
+  }, [stageRef, aduTransform, worldToAduLocal, snapToGrid, onPlaceFurniture, onPlaceDoor, onPlaceWindow, onPlaceElectrical]);
 
   return {
     draggedItem,
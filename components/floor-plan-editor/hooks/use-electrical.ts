@@ -0,0 +1,77 @@
+"use client";
+
+import { useState, useCallback } from "react";
+import type { Point, LevelId, ElectricalDevice, ElectricalDeviceType } from "@/lib/types";
+
+/**
+ * Hook for the electrical layer.
+ * Devices for every level live here (each carries its level id); switches keep
+ * the ids of the lights they control, so removing a light also unlinks it.
+ */
+export function useElectrical() {
+  const [devices, setDevices] = useState<ElectricalDevice[]>([]);
+
+  const addDevice = useCallback((type: ElectricalDeviceType, position: Point, level: LevelId, rotation = 0) => {
+    const device: ElectricalDevice = {
+      id: crypto.randomUUID(),
+      type,
+      position,
+      rotation,
+      level,
+    };
+    setDevices(prev => [...prev, device]);
+    return device;
+  }, []);
+
+  const addDevices = useCallback((items: Array<Omit<ElectricalDevice, "id">>) => {
+    setDevices(prev => [...prev, ...items.map(item => ({ ...item, id: crypto.randomUUID() }))]);
+  }, []);
+
+  const updateDevice = useCallback((id: string, updates: Partial<Omit<ElectricalDevice, "id">>) => {
+    setDevices(prev => prev.map(d => (d.id === id ? { ...d, ...updates } : d)));
+  }, []);
+
+  const removeDevice = useCallback((id: string) => {
+    setDevices(prev => prev
+      .filter(d => d.id !== id)
+      .map(d => (d.controls?.includes(id) ? { ...d, controls: d.controls.filter(c => c !== id) } : d)));
+  }, []);
+
+  // Link or unlink a light from a switch
+  const toggleControl = useCallback((switchId: string, lightId: string) => {
+    setDevices(prev => prev.map(d => {
+      if (d.id !== switchId) return d;
+      const controls = d.controls ?? [];
+      return {
+        ...d,
+        controls: controls.includes(lightId) ? controls.filter(c => c !== lightId) : [...controls, lightId],
+      };
+    }));
+  }, []);
+
+  // Drop the devices of a removed level
+  const removeLevelDevices = useCallback((level: LevelId) => {
+    setDevices(prev => {
+      const removed = new Set(prev.filter(d => d.level === level).map(d => d.id));
+      return prev
+        .filter(d => !removed.has(d.id))
+        .map(d => (d.controls?.some(c => removed.has(c)) ? { ...d, controls: d.controls.filter(c => !removed.has(c)) } : d));
+    });
+  }, []);
+
+  // Replace every device (snapshot restore)
+  const restoreDevices = useCallback((saved: ElectricalDevice[]) => {
+    setDevices(saved);
+  }, []);
+
+  return {
+    devices,
+    addDevice,
+    addDevices,
+    updateDevice,
+    removeDevice,
+    toggleControl,
+    removeLevelDevices,
+    restoreDevices,
+  };
+}
@@ -18,6 +18,7 @@ export function useFurnitureImages() {
     "stove": null,
     "refrigerator": null,
     "dishwasher": null,
+    "washer": null,
     "desk": null,
     "chair": null,
   });
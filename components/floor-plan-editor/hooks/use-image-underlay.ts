@@ -0,0 +1,271 @@
+"use client";
+
+import { useState, useCallback, useRef } from "react";
+import type Konva from "konva";
+import type { Point } from "@/lib/types";
+import { storeUnderlayImage, loadUnderlayImage } from "@/lib/underlay-images";
+import type { ImageUnderlaySettings, SavedImageUnderlay } from "../types";
+import { worldToAduLocal, type ADUTransform } from "../lot/lot-geometry";
+
+// Longest side of the stored image (and of rendered PDF pages)
+const MAX_IMAGE_SIZE = 2048;
+// Initial width of a new underlay before it is calibrated
+const INITIAL_WIDTH_FEET = 30;
+
+interface UseImageUnderlayOptions {
+  pixelsPerFoot: number;
+}
+
+// Read an image file and downscale it to a data URL
+async function loadImageFile(file: File): Promise<{ src: string; width: number; height: number }> {
+  const dataUrl = await new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error("Failed to read image file"));
+    reader.readAsDataURL(file);
+  });
+
+  const image = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const img = new window.Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Unsupported image format"));
+    img.src = dataUrl;
+  });
+
+  const ratio = Math.min(1, MAX_IMAGE_SIZE / Math.max(image.naturalWidth, image.naturalHeight));
+  const width = Math.round(image.naturalWidth * ratio);
+  const height = Math.round(image.naturalHeight * ratio);
+  if (ratio === 1 && file.size < 1024 * 1024) {
+    return { src: dataUrl, width, height };
+  }
+
+  const canvas = document.createElement("canvas");
+  canvas.width = width;
+  canvas.height = height;
+  canvas.getContext("2d")?.drawImage(image, 0, 0, width, height);
+  // PNG keeps line drawings crisp and transparent; photos compress far better as JPEG
+  const type = file.type === "image/png" ? "image/png" : "image/jpeg";
+  return { src: canvas.toDataURL(type, 0.85), width, height };
+}
+
+// Render one page of a PDF (1-based) to a data URL
+async function renderPdfPage(
+  file: File,
+  pageNumber: number
+): Promise<{ src: string; width: number; height: number; pageCount: number }> {
+  const pdfjs = await import("pdfjs-dist");
+  pdfjs.GlobalWorkerOptions.workerSrc = new URL("pdfjs-dist/build/pdf.worker.min.mjs", import.meta.url).toString();
+
+  let pdf;
+  try {
+    pdf = await pdfjs.getDocument({ data: new Uint8Array(await file.arrayBuffer()) }).promise;
+  } catch (err) {
+    console.error("[ImageUnderlay] Failed to open PDF:", err);
+    throw new Error("Could not read this PDF");
+  }
+
+  try {
+    const page = await pdf.getPage(Math.min(Math.max(1, pageNumber), pdf.numPages));
+    const pageSize = page.getViewport({ scale: 1 });
+    const viewport = page.getViewport({ scale: MAX_IMAGE_SIZE / Math.max(pageSize.width, pageSize.height) });
+    const canvas = document.createElement("canvas");
+    canvas.width = Math.round(viewport.width);
+    canvas.height = Math.round(viewport.height);
+    await page.render({ canvas, viewport }).promise;
+    // PNG keeps the linework of drawing sets crisp
+    return { src: canvas.toDataURL("image/png"), width: canvas.width, height: canvas.height, pageCount: pdf.numPages };
+  } finally {
+    await pdf.destroy();
+  }
+}
+
+const isPdfFile = (file: File) => file.type === "application/pdf" || file.name.toLowerCase().endsWith(".pdf");
+
+/**
+ * Hook for the raster tracing underlay and its two-point scale calibration.
+ * Positions are in ADU canvas pixels so the image moves with the ADU on a lot.
+ */
+export function useImageUnderlay({ pixelsPerFoot }: UseImageUnderlayOptions) {
+  const [underlay, setUnderlay] = useState<ImageUnderlaySettings | null>(null);
+  const [isCalibrating, setIsCalibrating] = useState(false);
+  const [calibrationPoints, setCalibrationPoints] = useState<Point[]>([]);
+  const [calibrationPreview, setCalibrationPreview] = useState<Point | null>(null);
+  // PDF the underlay was rendered from, so another page can be picked
+  const [pdfSource, setPdfSource] = useState<{ file: File; page: number; pageCount: number } | null>(null);
+  // Ignores a slow restore that a newer restore or upload has overtaken
+  const restoreRequestRef = useRef(0);
+
+  // Convert the pointer position to ADU canvas coordinates
+  // (aduTransform is present when the ADU content group is offset/rotated on a lot)
+  const pointerToLocal = useCallback((
+    e: Konva.KonvaEventObject<MouseEvent>,
+    zoom: number,
+    panOffset: Point,
+    aduTransform?: ADUTransform
+  ): Point | null => {
+    const pointer = e.target.getStage()?.getPointerPosition();
+    if (!pointer) return null;
+    const world = {
+      x: (pointer.x - panOffset.x) / zoom,
+      y: (pointer.y - panOffset.y) / zoom,
+    };
+    return aduTransform ? worldToAduLocal(world, aduTransform) : world;
+  }, []);
+
+  // Load a new image (or the first page of a PDF) centered on the given point
+  const loadImage = useCallback(async (file: File, center: Point) => {
+    const isPdf = isPdfFile(file);
+    const { src, width, height, pageCount } = isPdf
+      ? await renderPdfPage(file, 1)
+      : { ...(await loadImageFile(file)), pageCount: 0 };
+    const imageId = await storeUnderlayImage(src);
+    restoreRequestRef.current++;
+
+    setPdfSource(isPdf ? { file, page: 1, pageCount } : null);
+    setUnderlay(prev => {
+      // A restored underlay whose picture isn't stored in this browser keeps its placement
+      // and real-world size when the picture is uploaded again
+      if (prev && !prev.src) {
+        return {
+          ...prev,
+          imageId,
+          src,
+          imageWidth: width,
+          imageHeight: height,
+          scale: (prev.scale * prev.imageWidth) / width,
+        };
+      }
+      return {
+        imageId,
+        src,
+        imageWidth: width,
+        imageHeight: height,
+        x: center.x,
+        y: center.y,
+        scale: (INITIAL_WIDTH_FEET * pixelsPerFoot) / Math.max(width, height),
+        rotation: 0,
+        opacity: 0.5,
+        locked: false,
+        visible: true,
+      };
+    });
+    setIsCalibrating(false);
+    setCalibrationPoints([]);
+  }, [pixelsPerFoot]);
+
+  // Show another page of the PDF in place - sheets of a drawing set share a size, so
+  // position and calibration carry over
+  const selectPdfPage = useCallback(async (page: number) => {
+    if (!pdfSource || page === pdfSource.page) return;
+    const { src, width, height } = await renderPdfPage(pdfSource.file, page);
+    const imageId = await storeUnderlayImage(src);
+    setPdfSource({ ...pdfSource, page });
+    setUnderlay(prev => (prev ? { ...prev, imageId, src, imageWidth: width, imageHeight: height } : prev));
+  }, [pdfSource]);
+
+  // Apply an underlay saved with a snapshot, loading its picture from the image store.
+  // Snapshots from before the store carry the data URL itself, which is moved into the store.
+  const restoreUnderlay = useCallback(async (saved: SavedImageUnderlay | null) => {
+    const request = ++restoreRequestRef.current;
+    setPdfSource(null);
+    setIsCalibrating(false);
+    setCalibrationPoints([]);
+    setCalibrationPreview(null);
+    if (!saved || (!saved.imageId && !saved.src)) {
+      setUnderlay(null);
+      return;
+    }
+
+    const imageId = saved.imageId ?? await storeUnderlayImage(saved.src!);
+    const src = saved.src ?? await loadUnderlayImage(imageId);
+    if (request !== restoreRequestRef.current) return;
+    if (!src) {
+      console.warn("[ImageUnderlay] Underlay image is not stored in this browser:", imageId);
+    }
+    setUnderlay({ ...saved, imageId, src: src ?? "" });
+  }, []);
+
+  const updateUnderlay = useCallback((updates: Partial<ImageUnderlaySettings>) => {
+    setUnderlay(prev => (prev ? { ...prev, ...updates } : prev));
+  }, []);
+
+  const removeUnderlay = useCallback(() => {
+    restoreRequestRef.current++;
+    setUnderlay(null);
+    setPdfSource(null);
+    setIsCalibrating(false);
+    setCalibrationPoints([]);
+    setCalibrationPreview(null);
+  }, []);
+
+  const startCalibration = useCallback(() => {
+    setIsCalibrating(true);
+    setCalibrationPoints([]);
+    setCalibrationPreview(null);
+  }, []);
+
+  const cancelCalibration = useCallback(() => {
+    setIsCalibrating(false);
+    setCalibrationPoints([]);
+    setCalibrationPreview(null);
+  }, []);
+
+  // Pick the two ends of the known distance; a third click starts over
+  const handleCalibrationClick = useCallback((
+    e: Konva.KonvaEventObject<MouseEvent>,
+    zoom: number,
+    panOffset: Point,
+    aduTransform?: ADUTransform
+  ) => {
+    if (!isCalibrating) return;
+    const point = pointerToLocal(e, zoom, panOffset, aduTransform);
+    if (!point) return;
+    setCalibrationPoints(prev => (prev.length >= 2 ? [point] : [...prev, point]));
+  }, [isCalibrating, pointerToLocal]);
+
+  const handleCalibrationMouseMove = useCallback((
+    e: Konva.KonvaEventObject<MouseEvent>,
+    zoom: number,
+    panOffset: Point,
+    aduTransform?: ADUTransform
+  ) => {
+    if (!isCalibrating || calibrationPoints.length !== 1) return;
+    setCalibrationPreview(pointerToLocal(e, zoom, panOffset, aduTransform));
+  }, [isCalibrating, calibrationPoints.length, pointerToLocal]);
+
+  // Rescale the image about the first point so the measured distance equals lengthFeet
+  const applyCalibration = useCallback((lengthFeet: number) => {
+    if (calibrationPoints.length !== 2 || lengthFeet <= 0) return false;
+    const [a, b] = calibrationPoints;
+    const measured = Math.hypot(b.x - a.x, b.y - a.y);
+    if (measured === 0) return false;
+
+    const factor = (lengthFeet * pixelsPerFoot) / measured;
+    setUnderlay(prev => prev ? {
+      ...prev,
+      x: a.x + (prev.x - a.x) * factor,
+      y: a.y + (prev.y - a.y) * factor,
+      scale: prev.scale * factor,
+    } : prev);
+    cancelCalibration();
+    return true;
+  }, [calibrationPoints, pixelsPerFoot, cancelCalibration]);
+
+  return {
+    underlay,
+    restoreUnderlay,
+    loadImage,
+    pdfPage: pdfSource && { page: pdfSource.page, pageCount: pdfSource.pageCount },
+    selectPdfPage,
+    updateUnderlay,
+    removeUnderlay,
+    isCalibrating,
+    calibrationPoints,
+    calibrationPreview,
+    startCalibration,
+    cancelCalibration,
+    handleCalibrationClick,
+    handleCalibrationMouseMove,
+    applyCalibration,
+  };
+}
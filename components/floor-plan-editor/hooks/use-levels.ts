@@ -0,0 +1,177 @@
+"use client";
+
+import { useState, useCallback, useMemo } from "react";
+import type { Point, LevelId, Stair } from "@/lib/types";
+import { LEVEL_CONFIGS, STAIR_CONFIG } from "@/lib/constants";
+import type { LevelContent, LevelSettings, EditorLevel } from "../types";
+
+const emptyLevel = (): LevelContent => ({ rooms: [], doors: [], windows: [], furniture: [] });
+
+function createLevelSettings(id: LevelId): LevelSettings {
+  return {
+    id,
+    name: LEVEL_CONFIGS[id].label,
+    ceilingHeight: LEVEL_CONFIGS[id].defaultCeilingHeight,
+  };
+}
+
+// Sort levels bottom to top
+export function sortLevels<T extends { id: LevelId }>(levels: T[]): T[] {
+  return [...levels].sort((a, b) => LEVEL_CONFIGS[a.id].order - LEVEL_CONFIGS[b.id].order);
+}
+
+/**
+ * Hook for multi-story editing.
+ * The editor's rooms/doors/windows/furniture state always holds the active level;
+ * the other levels are parked here until they are switched to. Stairs span two
+ * adjacent levels and are shared by both.
+ */
+export function useLevels() {
+  const [levels, setLevels] = useState<LevelSettings[]>([createLevelSettings("ground")]);
+  const [activeLevelId, setActiveLevelId] = useState<LevelId>("ground");
+  const [parkedContent, setParkedContent] = useState<Partial<Record<LevelId, LevelContent>>>({});
+  const [stairs, setStairs] = useState<Stair[]>([]);
+  const [showLevelBelow, setShowLevelBelow] = useState(true);
+
+  const activeIndex = Math.max(0, levels.findIndex(l => l.id === activeLevelId));
+  const activeLevel = levels[activeIndex];
+  const levelBelow = activeIndex > 0 ? levels[activeIndex - 1] : null;
+  const levelAbove = activeIndex < levels.length - 1 ? levels[activeIndex + 1] : null;
+  const levelBelowContent = levelBelow ? parkedContent[levelBelow.id] ?? emptyLevel() : null;
+
+  // Stairs drawn on the active level (as a run on the lower level, a stairwell on the upper one)
+  const activeStairs = useMemo(
+    () => stairs.filter(s => s.fromLevel === activeLevelId || s.toLevel === activeLevelId),
+    [stairs, activeLevelId]
+  );
+
+  // Park the current content and return the content of the level being switched to
+  const switchLevel = useCallback((id: LevelId, current: LevelContent): LevelContent | null => {
+    if (id === activeLevelId || !levels.some(l => l.id === id)) return null;
+    const next = parkedContent[id] ?? emptyLevel();
+    setParkedContent(prev => {
+      const updated = { ...prev, [activeLevelId]: current };
+      delete updated[id];
+      return updated;
+    });
+    setActiveLevelId(id);
+    return next;
+  }, [activeLevelId, levels, parkedContent]);
+
+  const addLevel = useCallback((id: LevelId) => {
+    setLevels(prev => (prev.some(l => l.id === id) ? prev : sortLevels([...prev, createLevelSettings(id)])));
+  }, []);
+
+  // The ground level and the level being edited cannot be removed
+  const removeLevel = useCallback((id: LevelId) => {
+    if (id === "ground" || id === activeLevelId) return false;
+    setLevels(prev => prev.filter(l => l.id !== id));
+    setParkedContent(prev => {
+      const updated = { ...prev };
+      delete updated[id];
+      return updated;
+    });
+    setStairs(prev => prev.filter(s => s.fromLevel !== id && s.toLevel !== id));
+    return true;
+  }, [activeLevelId]);
+
+  const updateLevel = useCallback((id: LevelId, updates: Partial<Omit<LevelSettings, "id">>) => {
+    setLevels(prev => prev.map(l => (l.id === id ? { ...l, ...updates } : l)));
+  }, []);
+
+  // Add a stair from the active level up to the next level (or down when on the top level)
+  const addStair = useCallback((position: Point) => {
+    const lower = levelAbove ? activeLevel : levelBelow;
+    const upper = levelAbove ? levelAbove : activeLevel;
+    if (!lower || !upper || lower.id === upper.id) return null;
+
+    const stair: Stair = {
+      id: crypto.randomUUID(),
+      position,
+      rotation: 0,
+      width: STAIR_CONFIG.WIDTH,
+      length: STAIR_CONFIG.LENGTH,
+      fromLevel: lower.id,
+      toLevel: upper.id,
+    };
+    setStairs(prev => [...prev, stair]);
+    return stair;
+  }, [activeLevel, levelAbove, levelBelow]);
+
+  const updateStair = useCallback((id: string, updates: Partial<Omit<Stair, "id">>) => {
+    setStairs(prev => prev.map(s => (s.id === id ? { ...s, ...updates } : s)));
+  }, []);
+
+  const removeStair = useCallback((id: string) => {
+    setStairs(prev => prev.filter(s => s.id !== id));
+  }, []);
+
+  // Split all levels into the ground level (top-level blueprint fields) and the rest
+  const collectLevels = useCallback((current: LevelContent) => {
+    const contentFor = (id: LevelId) => (id === activeLevelId ? current : parkedContent[id] ?? emptyLevel());
+    const ground = levels.find(l => l.id === "ground") ?? createLevelSettings("ground");
+    const otherLevels: EditorLevel[] = levels
+      .filter(l => l.id !== "ground")
+      .map(l => ({ ...l, ...contentFor(l.id) }));
+
+    return {
+      ground: contentFor("ground"),
+      ceilingHeight: ground.ceilingHeight,
+      levels: otherLevels,
+    };
+  }, [levels, activeLevelId, parkedContent]);
+
+  // Replace every level (snapshot restore). Returns the ground content, which becomes active.
+  const restoreLevels = useCallback((saved: {
+    ground: LevelContent;
+    ceilingHeight?: number;
+    levels?: EditorLevel[];
+    stairs?: Stair[];
+  }) => {
+    const ground = {
+      ...createLevelSettings("ground"),
+      ...(saved.ceilingHeight !== undefined && { ceilingHeight: saved.ceilingHeight }),
+    };
+    const otherLevels = (saved.levels ?? []).filter(l => l.id !== "ground");
+    const parked: Partial<Record<LevelId, LevelContent>> = {};
+    for (const level of otherLevels) {
+      parked[level.id] = {
+        rooms: level.rooms ?? [],
+        doors: level.doors ?? [],
+        windows: level.windows ?? [],
+        furniture: level.furniture ?? [],
+      };
+    }
+
+    setLevels(sortLevels([
+      ground,
+      ...otherLevels.map(l => ({ id: l.id, name: l.name, ceilingHeight: l.ceilingHeight })),
+    ]));
+    setParkedContent(parked);
+    setStairs(saved.stairs ?? []);
+    setActiveLevelId("ground");
+    return saved.ground;
+  }, []);
+
+  return {
+    levels,
+    activeLevelId,
+    activeLevel,
+    levelBelow,
+    levelAbove,
+    levelBelowContent,
+    stairs,
+    activeStairs,
+    showLevelBelow,
+    setShowLevelBelow,
+    switchLevel,
+    addLevel,
+    removeLevel,
+    updateLevel,
+    addStair,
+    updateStair,
+    removeStair,
+    collectLevels,
+    restoreLevels,
+  };
+}
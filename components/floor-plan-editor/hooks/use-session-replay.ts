@@ -0,0 +1,163 @@
+import { useState, useCallback, useEffect } from "react";
+import * as api from "@/lib/api/client";
+import { alternativeForBlueprint, type DesignAlternative } from "@/lib/alternatives";
+import {
+  buildReplayFrames,
+  pickStartingSnapshot,
+  EMPTY_REPLAY_PLAN,
+  type ReplayFrame,
+  type ReplayPlan,
+} from "../replay/utils";
+
+export type ReplaySessionSummary = Awaited<ReturnType<typeof api.listProjectSessions>>["data"][number];
+
+export const REPLAY_SPEEDS = [0.5, 1, 2, 4, 8];
+
+// Real gaps between actions are kept, but long pauses are shortened and bursts spread out
+const MIN_STEP_MS = 120;
+const MAX_STEP_MS = 1500;
+
+/**
+ * Hook for replaying an editor session from the action log.
+ * Loads the session's actions and the last snapshot saved before it started,
+ * rebuilds the plan after every action, and plays the frames back with
+ * play/pause, scrubbing and speed control.
+ */
+export function useSessionReplay(
+  projectId: string | undefined,
+  pixelsPerFoot: number,
+  alternatives: DesignAlternative[]
+) {
+  const [sessions, setSessions] = useState<ReplaySessionSummary[]>([]);
+  const [session, setSession] = useState<api.SessionDetails["session"] | null>(null);
+  const [frames, setFrames] = useState<ReplayFrame[]>([]);
+  const [startingPoint, setStartingPoint] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [speed, setSpeed] = useState(1);
+
+  const loadSessions = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.listProjectSessions(projectId);
+      setSessions([...response.data].sort((a, b) => Date.parse(b.startedAt) - Date.parse(a.startedAt)));
+    } catch (e) {
+      console.error("[SessionReplay] Failed to list sessions:", e);
+      setError((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  const loadSession = useCallback(async (sessionId: string) => {
+    setIsLoading(true);
+    setIsPlaying(false);
+    setError(null);
+    try {
+      const response = await api.getEditorSession(sessionId);
+      const details = response.data;
+
+      // Start from the plan as it was saved just before the session began
+      let start: ReplayPlan = EMPTY_REPLAY_PLAN;
+      let label: string | null = null;
+      if (projectId) {
+        try {
+          const snapshots = await api.listSnapshots(projectId);
+          // Sessions from before they recorded their alternative are matched by blueprint lineage
+          const { blueprintId } = details.session;
+          const alternativeId = details.session.alternativeId
+            ?? (blueprintId ? alternativeForBlueprint(alternatives, blueprintId)?.id : undefined);
+          const snapshot = pickStartingSnapshot(
+            [...snapshots.data.autoSaves, ...snapshots.data.manualSaves],
+            details.session.startedAt,
+            { blueprintId, alternativeId, ownsUntagged: !alternativeId || alternatives[0]?.id === alternativeId }
+          );
+          if (snapshot) {
+            // Snapshot data has the editor's runtime shape (see useVersionHistory)
+            const data = snapshot.data as unknown as ReplayPlan;
+            start = {
+              rooms: data.rooms ?? [],
+              doors: data.doors ?? [],
+              windows: data.windows ?? [],
+              furniture: data.furniture ?? [],
+              aduBoundary: data.aduBoundary ?? [],
+            };
+            label = snapshot.label || `${snapshot.type === "auto" ? "Auto-save" : "Snapshot"} ${new Date(snapshot.createdAt).toLocaleString()}`;
+          }
+        } catch (e) {
+          console.error("[SessionReplay] Failed to load the starting snapshot:", e);
+        }
+      }
+
+      setSession(details.session);
+      setFrames(buildReplayFrames(start, details.actions, pixelsPerFoot));
+      setStartingPoint(label);
+      setFrameIndex(0);
+    } catch (e) {
+      console.error("[SessionReplay] Failed to load session:", e);
+      setError((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId, pixelsPerFoot, alternatives]);
+
+  // Advance one frame at a time while playing
+  useEffect(() => {
+    if (!isPlaying || frameIndex >= frames.length - 1) return;
+    const gap = frames[frameIndex + 1].at - frames[frameIndex].at;
+    const delay = Math.min(MAX_STEP_MS, Math.max(MIN_STEP_MS, gap)) / speed;
+    const timer = setTimeout(() => {
+      const next = frameIndex + 1;
+      setFrameIndex(next);
+      if (next >= frames.length - 1) setIsPlaying(false);
+    }, delay);
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, frames, speed]);
+
+  const play = useCallback(() => {
+    if (frames.length < 2) return;
+    // Playing from the last frame starts over
+    setFrameIndex(prev => (prev >= frames.length - 1 ? 0 : prev));
+    setIsPlaying(true);
+  }, [frames.length]);
+
+  const pause = useCallback(() => setIsPlaying(false), []);
+
+  // Scrubbing or stepping pauses playback
+  const seek = useCallback((index: number) => {
+    setIsPlaying(false);
+    setFrameIndex(Math.max(0, Math.min(frames.length - 1, index)));
+  }, [frames.length]);
+
+  const close = useCallback(() => {
+    setIsPlaying(false);
+    setSession(null);
+    setFrames([]);
+    setFrameIndex(0);
+  }, []);
+
+  return {
+    sessions,
+    session,
+    frames,
+    frame: frames[frameIndex] ?? null,
+    frameIndex,
+    startingPoint,
+    isLoading,
+    error,
+    isPlaying,
+    speed,
+    loadSessions,
+    loadSession,
+    play,
+    pause,
+    seek,
+    setSpeed,
+    close,
+  };
+}
@@ -0,0 +1,57 @@
+import { useState, useCallback, useRef } from "react";
+import * as api from "@/lib/api/client";
+import { blueprintPlan, type ComparePlan } from "../compare/utils";
+
+/**
+ * Hook for the saved blueprint versions offered by the compare view.
+ * Lists the project's versions and loads each one's plan on demand, keeping
+ * the ones already loaded so switching back and forth does not refetch.
+ */
+export function useVersionCompare(projectId: string | undefined) {
+  const [versions, setVersions] = useState<api.Blueprint[]>([]);
+  const [plans, setPlans] = useState<Record<string, ComparePlan>>({});
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const requestedRef = useRef(new Set<string>());
+
+  const loadVersions = useCallback(async () => {
+    if (!projectId) return;
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.listBlueprintsForProject(projectId);
+      setVersions([...response.data].sort((a, b) => b.version - a.version));
+    } catch (e) {
+      console.error("[VersionCompare] Failed to list blueprint versions:", e);
+      setError((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, [projectId]);
+
+  const loadVersion = useCallback(async (blueprintId: string) => {
+    if (requestedRef.current.has(blueprintId)) return;
+    requestedRef.current.add(blueprintId);
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await api.getBlueprint(blueprintId);
+      setPlans(prev => ({ ...prev, [blueprintId]: blueprintPlan(response.data) }));
+    } catch (e) {
+      console.error("[VersionCompare] Failed to load blueprint version:", e);
+      requestedRef.current.delete(blueprintId);
+      setError((e as Error).message);
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  return {
+    versions,
+    plans,
+    isLoading,
+    error,
+    loadVersions,
+    loadVersion,
+  };
+}
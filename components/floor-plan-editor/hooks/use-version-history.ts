@@ -1,64 +1,27 @@
-import { useState, useCallback, useEffect, useRef } from "react";
-import type { Room, Door, Window, Point } from "@/lib/types";
-import type { Furniture } from "../types";
+import { useState, useCallback, useEffect, useMemo, useRef } from "react";
+import type {
+  Room,
+  Door,
+  Window,
+  Point,
+  Stair,
+  ElectricalDevice,
+  Furniture,
+  SavedImageUnderlay,
+  EditorLevel,
+  EditorViewSettings,
+  EditorSnapshotData,
+  LotSnapshotData,
+} from "@/lib/types";
 import * as api from "@/lib/api/client";
-
-// Editor view settings that get saved with snapshots
-interface EditorViewSettings {
-  showLotOverlay: boolean;
-  showSatelliteView: boolean;
-  showLotBoundary: boolean;
-  showGrid: boolean;
-  zoom: number;
-  panOffsetX: number;
-  panOffsetY: number;
-}
-
-// Lot data that gets saved with snapshots (excluding server-managed fields)
-interface GeoVertex {
-  lat: number;
-  lng: number;
-}
-
-interface LotSnapshotData {
-  parcelNumber?: string;
-  address?: string;
-  city?: string;
-  state?: string;
-  zipCode?: string;
-  geoLat: number;
-  geoLng: number;
-  geoRotation: number;
-  boundaryVertices?: GeoVertex[];
-  lotWidthFeet?: number;
-  lotDepthFeet?: number;
-  lotAreaSqFt?: number;
-  aduOffsetX: number;
-  aduOffsetY: number;
-  aduRotation: number;
-  setbackFrontFeet: number;
-  setbackBackFeet: number;
-  setbackLeftFeet: number;
-  setbackRightFeet: number;
-  dataSource?: string;
-}
+import { sendViaOutbox } from "@/lib/api/outbox";
 
 interface EditorSnapshot {
   id: string;
   timestamp: string;
   type: "auto" | "manual";
   label?: string;
-  data: {
-    rooms: Room[];
-    doors: Door[];
-    windows: Window[];
-    furniture: Furniture[];
-    aduBoundary: Point[];
-    // Editor view settings (optional for backward compatibility with old snapshots)
-    editorSettings?: EditorViewSettings;
-    // Lot data (optional for backward compatibility with old snapshots)
-    lotData?: LotSnapshotData;
-  };
+  data: EditorSnapshotData;
 }
 
 interface VersionHistoryState {
@@ -71,6 +34,32 @@ const MAX_AUTO_SAVES = 6; // Keep last 6 auto-saves (1 hour at 10-min intervals)
 const MAX_MANUAL_SAVES = 10; // Keep last 10 manual saves
 const AUTO_SAVE_INTERVAL_MS = 10 * 60 * 1000; // 10 minutes
 
+// Snapshots without an alternative predate alternatives and go with the project's first one
+function belongsTo(snapshot: EditorSnapshot, alternativeId: string | undefined, ownsUntagged: boolean): boolean {
+  return snapshot.data.alternativeId ? snapshot.data.alternativeId === alternativeId : ownsUntagged;
+}
+
+// Add a snapshot, trimming only the current alternative's list to the limit
+function addSnapshot(
+  list: EditorSnapshot[],
+  snapshot: EditorSnapshot,
+  max: number,
+  alternativeId: string | undefined,
+  ownsUntagged: boolean
+): EditorSnapshot[] {
+  const own = list.filter(s => belongsTo(s, alternativeId, ownsUntagged));
+  const others = list.filter(s => !belongsTo(s, alternativeId, ownsUntagged));
+  return [snapshot, ...own].slice(0, max).concat(others);
+}
+
+// Snapshots reference the underlay picture by id - the data URL stays in the underlay image store
+function withoutImageData(underlay: SavedImageUnderlay | null | undefined): SavedImageUnderlay | null | undefined {
+  if (!underlay) return underlay;
+  const saved = { ...underlay };
+  delete saved.src;
+  return saved;
+}
+
 interface UseVersionHistoryOptions {
   projectId?: string;
   blueprintId?: string;
@@ -83,6 +72,16 @@ interface UseVersionHistoryOptions {
   editorSettings?: EditorViewSettings;
   // Current lot data for saving with snapshots
   lotData?: LotSnapshotData;
+  // Ground level ceiling, upper/lower levels and stairs
+  ceilingHeight?: number;
+  levels?: EditorLevel[];
+  stairs?: Stair[];
+  // Electrical devices on every level
+  electrical?: ElectricalDevice[];
+  // Design alternative being edited - history is listed and saved per alternative
+  alternativeId?: string;
+  // Whether snapshots from before alternatives are shown with this one
+  ownsUntaggedSnapshots?: boolean;
   // onRestore can be async (e.g., to restore lot data)
   onRestore: (snapshot: EditorSnapshot["data"]) => void | Promise<void>;
 }
@@ -97,6 +96,12 @@ export function useVersionHistory({
   aduBoundary,
   editorSettings,
   lotData,
+  ceilingHeight,
+  levels,
+  stairs,
+  electrical,
+  alternativeId,
+  ownsUntaggedSnapshots = true,
   onRestore,
 }: UseVersionHistoryOptions) {
   const [history, setHistory] = useState<VersionHistoryState>({
@@ -201,14 +206,21 @@ export function useVersionHistory({
       furniture: JSON.parse(JSON.stringify(furniture)),
       aduBoundary: JSON.parse(JSON.stringify(aduBoundary)),
       // Include editor settings if available
-      ...(editorSettings && { editorSettings: { ...editorSettings } }),
+      ...(editorSettings && {
+        editorSettings: { ...editorSettings, imageUnderlay: withoutImageData(editorSettings.imageUnderlay) },
+      }),
       // Include lot data if available
       ...(lotData && { lotData: { ...lotData } }),
+      ...(ceilingHeight !== undefined && { ceilingHeight }),
+      ...(levels && levels.length > 0 && { levels: JSON.parse(JSON.stringify(levels)) }),
+      ...(stairs && stairs.length > 0 && { stairs: JSON.parse(JSON.stringify(stairs)) }),
+      ...(electrical && electrical.length > 0 && { electrical: JSON.parse(JSON.stringify(electrical)) }),
+      ...(alternativeId && { alternativeId }),
     };
     console.log("[VersionHistory] Creating snapshot with lotData:", lotData ? "present" : "missing", lotData);
     console.log("[VersionHistory] Creating snapshot with editorSettings:", editorSettings);
     return data;
-  }, [rooms, doors, windows, furniture, aduBoundary, editorSettings, lotData]);
+  }, [rooms, doors, windows, furniture, aduBoundary, editorSettings, lotData, ceilingHeight, levels, stairs, electrical, alternativeId]);
 
   // Save an auto-save snapshot (called every 10 minutes)
   const saveAutoSnapshot = useCallback(async () => {
@@ -224,14 +236,16 @@ export function useVersionHistory({
     // Try to save to backend API
     if (projectId) {
       try {
-        const response = await api.createSnapshot({
+        // Queued in the outbox if the API is unreachable - the local copy below covers the meantime
+        const result = await sendViaOutbox("snapshot", {
           projectId,
           blueprintId,
           type: "auto",
           data: snapshotData as unknown as api.SnapshotData,
         });
 
-        if (response.status === "success") {
+        if (result.status === "sent" && result.response.status === "success") {
+          const response = result.response;
           const newSnapshot: EditorSnapshot = {
             id: response.data.snapshot.id,
             timestamp: response.data.snapshot.createdAt,
@@ -239,7 +253,7 @@ export function useVersionHistory({
             data: snapshotData,
           };
 
-          const newAutoSaves = [newSnapshot, ...history.autoSaves].slice(0, MAX_AUTO_SAVES);
+          const newAutoSaves = addSnapshot(history.autoSaves, newSnapshot, MAX_AUTO_SAVES, alternativeId, ownsUntaggedSnapshots);
           const newHistory = { ...history, autoSaves: newAutoSaves };
 
           setHistory(newHistory);
@@ -262,7 +276,7 @@ export function useVersionHistory({
       data: snapshotData,
     };
 
-    const newAutoSaves = [localSnapshot, ...history.autoSaves].slice(0, MAX_AUTO_SAVES);
+    const newAutoSaves = addSnapshot(history.autoSaves, localSnapshot, MAX_AUTO_SAVES, alternativeId, ownsUntaggedSnapshots);
     const newHistory = { ...history, autoSaves: newAutoSaves };
 
     setHistory(newHistory);
@@ -271,7 +285,7 @@ export function useVersionHistory({
 
     console.log("[VersionHistory] Auto-save snapshot created (localStorage):", localSnapshot.timestamp);
     return true;
-  }, [createSnapshotData, history, lastAutoSaveTime, projectId, blueprintId, cacheToLocalStorage]);
+  }, [createSnapshotData, history, lastAutoSaveTime, projectId, blueprintId, alternativeId, ownsUntaggedSnapshots, cacheToLocalStorage]);
 
   // Save a manual snapshot
   const saveManualSnapshot = useCallback(async (label?: string) => {
@@ -280,7 +294,7 @@ export function useVersionHistory({
     // Try to save to backend API
     if (projectId) {
       try {
-        const response = await api.createSnapshot({
+        const result = await sendViaOutbox("snapshot", {
           projectId,
           blueprintId,
           type: "manual",
@@ -288,7 +302,8 @@ export function useVersionHistory({
           data: snapshotData as unknown as api.SnapshotData,
         });
 
-        if (response.status === "success") {
+        if (result.status === "sent" && result.response.status === "success") {
+          const response = result.response;
           const newSnapshot: EditorSnapshot = {
             id: response.data.snapshot.id,
             timestamp: response.data.snapshot.createdAt,
@@ -297,7 +312,7 @@ export function useVersionHistory({
             data: snapshotData,
           };
 
-          const newManualSaves = [newSnapshot, ...history.manualSaves].slice(0, MAX_MANUAL_SAVES);
+          const newManualSaves = addSnapshot(history.manualSaves, newSnapshot, MAX_MANUAL_SAVES, alternativeId, ownsUntaggedSnapshots);
           const newHistory = { ...history, manualSaves: newManualSaves };
 
           setHistory(newHistory);
@@ -320,7 +335,7 @@ export function useVersionHistory({
       data: snapshotData,
     };
 
-    const newManualSaves = [localSnapshot, ...history.manualSaves].slice(0, MAX_MANUAL_SAVES);
+    const newManualSaves = addSnapshot(history.manualSaves, localSnapshot, MAX_MANUAL_SAVES, alternativeId, ownsUntaggedSnapshots);
     const newHistory = { ...history, manualSaves: newManualSaves };
 
     setHistory(newHistory);
@@ -328,7 +343,7 @@ export function useVersionHistory({
 
     console.log("[VersionHistory] Manual save snapshot created (localStorage):", localSnapshot.timestamp, label);
     return localSnapshot;
-  }, [createSnapshotData, history, projectId, blueprintId, cacheToLocalStorage]);
+  }, [createSnapshotData, history, projectId, blueprintId, alternativeId, ownsUntaggedSnapshots, cacheToLocalStorage]);
 
   // Restore from a snapshot
   const restoreSnapshot = useCallback(async (snapshotId: string) => {
@@ -429,10 +444,21 @@ export function useVersionHistory({
     return `${diffDays} day${diffDays > 1 ? 's' : ''} ago`;
   }, []);
 
+  // Only the alternative being edited
+  const autoSaves = useMemo(
+    () => history.autoSaves.filter(s => belongsTo(s, alternativeId, ownsUntaggedSnapshots)),
+    [history.autoSaves, alternativeId, ownsUntaggedSnapshots]
+  );
+  const manualSaves = useMemo(
+    () => history.manualSaves.filter(s => belongsTo(s, alternativeId, ownsUntaggedSnapshots)),
+    [history.manualSaves, alternativeId, ownsUntaggedSnapshots]
+  );
+
   return {
-    autoSaves: history.autoSaves,
-    manualSaves: history.manualSaves,
+    autoSaves,
+    manualSaves,
     isLoading,
+    createSnapshotData,
     saveAutoSnapshot,
     saveManualSnapshot,
     restoreSnapshot,
@@ -0,0 +1,453 @@
+"use client"
+
+import { useState, useMemo, useRef } from "react"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+} from "@/components/ui/dialog"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Checkbox } from "@/components/ui/checkbox"
+import { ScrollArea } from "@/components/ui/scroll-area"
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select"
+import { FileUp, Ruler, Loader2, ArrowLeft } from "lucide-react"
+import { toast } from "sonner"
+import type { Point, Room, RoomType } from "@/lib/types"
+import { ROOM_CONFIGS } from "@/lib/constants"
+import type { ImportedDrawing, ImportedShape, RoomCandidate, ReferenceUnderlayShape } from "./types"
+import {
+  computeBounds,
+  unitsPerFoot,
+  findClosedRegions,
+  drawingLayers,
+  guessRoomLayer,
+  detectRoomCandidates,
+  buildImportedPlan,
+} from "./utils"
+import { parseDXF } from "./parse-dxf"
+import { parseSVG } from "./parse-svg"
+
+interface ImportDialogProps {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  pixelsPerFoot: number
+  // Canvas point (pixels) the imported plan is centered on
+  target: Point
+  onImport: (result: { rooms: Room[]; underlay: ReferenceUnderlayShape[] }) => void
+}
+
+type ImportStep = "upload" | "calibrate" | "review"
+
+// Common drawing units, as drawing units per foot
+const UNIT_PRESETS = [
+  { label: "Inches", unitsPerFoot: 12 },
+  { label: "Feet", unitsPerFoot: 1 },
+  { label: "Millimeters", unitsPerFoot: 304.8 },
+]
+
+// Select value for reading rooms from closed outlines on any layer
+const OUTLINES_SOURCE = "__outlines__"
+
+// Screen distance (px) within which a click snaps to a drawing vertex
+const SNAP_DISTANCE = 12
+
+async function readImportFile(file: File): Promise<ImportedDrawing> {
+  const content = await file.text()
+  const extension = file.name.split(".").pop()?.toLowerCase()
+  if (extension === "dxf") return parseDXF(content, file.name)
+  if (extension === "svg") return parseSVG(content, file.name)
+  throw new Error("Unsupported file type. Please choose a .dxf or .svg file.")
+}
+
+export function ImportDialog({
+  open,
+  onOpenChange,
+  pixelsPerFoot,
+  target,
+  onImport,
+}: ImportDialogProps) {
+  const [step, setStep] = useState<ImportStep>("upload")
+  const [isLoading, setIsLoading] = useState(false)
+  const [drawing, setDrawing] = useState<ImportedDrawing | null>(null)
+  const [regions, setRegions] = useState<ImportedShape[]>([])
+  const [tolerance, setTolerance] = useState(0)
+  const [roomLayer, setRoomLayer] = useState<string | null>(null)
+  const [calibrationPoints, setCalibrationPoints] = useState<Point[]>([])
+  const [lengthFeet, setLengthFeet] = useState("")
+  const [scale, setScale] = useState<number | null>(null)
+  const [candidates, setCandidates] = useState<RoomCandidate[]>([])
+  const [includeUnderlay, setIncludeUnderlay] = useState(true)
+
+  const reset = () => {
+    setStep("upload")
+    setDrawing(null)
+    setRegions([])
+    setRoomLayer(null)
+    setCalibrationPoints([])
+    setLengthFeet("")
+    setScale(null)
+    setCandidates([])
+    setIncludeUnderlay(true)
+  }
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) reset()
+    onOpenChange(nextOpen)
+  }
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0]
+    event.target.value = ""
+    if (!file) return
+
+    setIsLoading(true)
+    try {
+      const parsed = await readImportFile(file)
+      const { minX, minY, maxX, maxY } = parsed.bounds
+      // Endpoints closer than 0.1% of the drawing size are treated as the same point
+      const joinTolerance = Math.max(maxX - minX, maxY - minY) * 0.001
+      const layer = guessRoomLayer(drawingLayers(parsed))
+      setDrawing(parsed)
+      setTolerance(joinTolerance)
+      setRoomLayer(layer)
+      setRegions(findClosedRegions(parsed.shapes, joinTolerance, layer))
+      setStep("calibrate")
+    } catch (error) {
+      console.error("[Import] Failed to read file:", error)
+      toast.error(error instanceof Error ? error.message : "Failed to read file")
+    } finally {
+      setIsLoading(false)
+    }
+  }
+
+  const calibratedScale = useMemo(() => {
+    const feet = parseFloat(lengthFeet)
+    if (calibrationPoints.length !== 2 || !(feet > 0)) return null
+    const value = unitsPerFoot({ pointA: calibrationPoints[0], pointB: calibrationPoints[1], lengthFeet: feet })
+    return value > 0 ? value : null
+  }, [calibrationPoints, lengthFeet])
+
+  const goToReview = (drawingUnitsPerFoot: number) => {
+    if (!drawing) return
+    setScale(drawingUnitsPerFoot)
+    setCandidates(detectRoomCandidates(drawing, regions, drawingUnitsPerFoot))
+    setStep("review")
+  }
+
+  const handleRoomSourceChange = (value: string) => {
+    if (!drawing || !scale) return
+    const layer = value === OUTLINES_SOURCE ? null : value
+    const nextRegions = findClosedRegions(drawing.shapes, tolerance, layer)
+    setRoomLayer(layer)
+    setRegions(nextRegions)
+    setCandidates(detectRoomCandidates(drawing, nextRegions, scale))
+  }
+
+  const handleCandidateChange = (shapeId: string, updates: Partial<RoomCandidate>) => {
+    setCandidates((prev) => prev.map((c) => (c.shapeId === shapeId ? { ...c, ...updates } : c)))
+  }
+
+  const handleImport = () => {
+    if (!drawing || !scale) return
+    const result = buildImportedPlan(drawing, regions, candidates, {
+      drawingUnitsPerFoot: scale,
+      pixelsPerFoot,
+      target,
+      includeUnderlay,
+      tolerance,
+    })
+    onImport(result)
+    toast.success(
+      `Imported ${result.rooms.length} room${result.rooms.length === 1 ? "" : "s"}` +
+        (result.underlay.length > 0 ? ` and ${result.underlay.length} reference shapes` : "")
+    )
+    handleOpenChange(false)
+  }
+
+  const selectedCount = candidates.filter((c) => c.selected).length
+  const layers = useMemo(() => (drawing ? drawingLayers(drawing) : []), [drawing])
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileUp className="h-5 w-5" />
+            Import Existing Plan
+          </DialogTitle>
+          <DialogDescription>
+            {step === "upload" && "Trace an existing floor plan from a DXF or SVG file."}
+            {step === "calibrate" && "Click two points on the drawing and enter the real distance between them."}
+            {step === "review" && "Choose which closed shapes become rooms. Everything else can be kept as a locked tracing reference."}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "upload" && (
+          <label className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg p-10 cursor-pointer hover:bg-muted/50 transition-colors">
+            {isLoading ? (
+              <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+            ) : (
+              <FileUp className="h-8 w-8 text-muted-foreground" />
+            )}
+            <span className="text-sm font-medium">Choose a .dxf or .svg file</span>
+            <span className="text-xs text-muted-foreground">
+              Block references and hatches are ignored
+            </span>
+            <input
+              type="file"
+              accept=".dxf,.svg,image/svg+xml"
+              className="hidden"
+              disabled={isLoading}
+              onChange={handleFileChange}
+            />
+          </label>
+        )}
+
+        {step === "calibrate" && drawing && (
+          <div className="space-y-3">
+            <DrawingPreview
+              shapes={drawing.shapes}
+              points={calibrationPoints}
+              onPick={(point) =>
+                setCalibrationPoints((prev) => (prev.length >= 2 ? [point] : [...prev, point]))
+              }
+            />
+
+            <div className="flex items-end gap-3">
+              <div className="space-y-1.5">
+                <Label htmlFor="import-length" className="text-xs">
+                  Distance between points (ft)
+                </Label>
+                <Input
+                  id="import-length"
+                  type="number"
+                  min={0}
+                  step={0.5}
+                  value={lengthFeet}
+                  onChange={(e) => setLengthFeet(e.target.value)}
+                  placeholder="e.g. 12"
+                  className="w-40"
+                  disabled={calibrationPoints.length !== 2}
+                />
+              </div>
+              <p className="text-xs text-muted-foreground pb-2">
+                {calibrationPoints.length < 2
+                  ? `Pick point ${calibrationPoints.length === 0 ? "A" : "B"} (clicks snap to nearby corners)`
+                  : calibratedScale
+                    ? `1 ft = ${Math.round(calibratedScale * 1000) / 1000} drawing units`
+                    : "Enter the real-world length"}
+              </p>
+            </div>
+
+            <div className="flex items-center gap-2 text-xs text-muted-foreground">
+              <span>Or use the file units:</span>
+              {UNIT_PRESETS.map((preset) => (
+                <Button
+                  key={preset.label}
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  onClick={() => goToReview(preset.unitsPerFoot)}
+                >
+                  {preset.label}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {step === "review" && (
+          <div className="space-y-3">
+            <div className="flex items-center justify-between gap-3">
+              <Label className="text-sm">Rooms from</Label>
+              <Select value={roomLayer ?? OUTLINES_SOURCE} onValueChange={handleRoomSourceChange}>
+                <SelectTrigger className="h-8 w-64">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={OUTLINES_SOURCE}>Closed outlines (any layer)</SelectItem>
+                  {layers.map((layer) => (
+                    <SelectItem key={layer} value={layer}>
+                      Layer: {layer}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {candidates.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-6">
+                No closed shapes of room size were found at this scale. Try another room source.
+              </p>
+            ) : (
+              <ScrollArea className="h-[300px] border rounded-lg">
+                <div className="p-2 space-y-1">
+                  {candidates.map((candidate) => (
+                    <div
+                      key={candidate.shapeId}
+                      className="flex items-center gap-3 p-2 rounded hover:bg-muted/50"
+                    >
+                      <Checkbox
+                        checked={candidate.selected}
+                        onCheckedChange={(checked) =>
+                          handleCandidateChange(candidate.shapeId, { selected: checked === true })
+                        }
+                      />
+                      <Input
+                        value={candidate.name}
+                        onChange={(e) => handleCandidateChange(candidate.shapeId, { name: e.target.value })}
+                        className="h-8 flex-1"
+                      />
+                      <Select
+                        value={candidate.type}
+                        onValueChange={(value) =>
+                          handleCandidateChange(candidate.shapeId, { type: value as RoomType })
+                        }
+                      >
+                        <SelectTrigger className="h-8 w-36">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {(Object.keys(ROOM_CONFIGS) as RoomType[]).map((type) => (
+                            <SelectItem key={type} value={type}>
+                              {ROOM_CONFIGS[type].label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <span className="text-xs text-muted-foreground w-20 text-right">
+                        {candidate.areaSqFt} sq ft
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              </ScrollArea>
+            )}
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="import-underlay" className="text-sm">
+                Keep other geometry as a reference underlay
+              </Label>
+              <Switch
+                id="import-underlay"
+                checked={includeUnderlay}
+                onCheckedChange={setIncludeUnderlay}
+              />
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          {step !== "upload" && (
+            <Button
+              variant="outline"
+              onClick={() => setStep(step === "review" ? "calibrate" : "upload")}
+            >
+              <ArrowLeft className="h-4 w-4 mr-2" />
+              Back
+            </Button>
+          )}
+          {step === "calibrate" && (
+            <Button disabled={!calibratedScale} onClick={() => calibratedScale && goToReview(calibratedScale)}>
+              <Ruler className="h-4 w-4 mr-2" />
+              Apply Scale
+            </Button>
+          )}
+          {step === "review" && (
+            <Button disabled={selectedCount === 0 && !includeUnderlay} onClick={handleImport}>
+              Import {selectedCount} Room{selectedCount === 1 ? "" : "s"}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+/**
+ * SVG preview of the imported drawing; clicks report drawing coordinates snapped to the nearest vertex
+ */
+function DrawingPreview({
+  shapes,
+  points,
+  onPick,
+}: {
+  shapes: ImportedShape[]
+  points: Point[]
+  onPick: (point: Point) => void
+}) {
+  const svgRef = useRef<SVGSVGElement>(null)
+  const bounds = useMemo(() => computeBounds(shapes), [shapes])
+  const width = Math.max(bounds.maxX - bounds.minX, 1)
+  const height = Math.max(bounds.maxY - bounds.minY, 1)
+  const padding = Math.max(width, height) * 0.03
+  const markerRadius = Math.max(width, height) * 0.008
+
+  const handleClick = (event: React.MouseEvent<SVGSVGElement>) => {
+    const svg = svgRef.current
+    const matrix = svg?.getScreenCTM()
+    if (!svg || !matrix) return
+
+    const inverse = matrix.inverse()
+    const clicked = new DOMPoint(event.clientX, event.clientY).matrixTransform(inverse)
+    const snapDistance = SNAP_DISTANCE / matrix.a
+
+    let best: Point = { x: clicked.x, y: clicked.y }
+    let bestDistance = snapDistance
+    for (const shape of shapes) {
+      for (const p of shape.points) {
+        const distance = Math.hypot(p.x - clicked.x, p.y - clicked.y)
+        if (distance < bestDistance) {
+          best = p
+          bestDistance = distance
+        }
+      }
+    }
+    onPick(best)
+  }
+
+  return (
+    <svg
+      ref={svgRef}
+      viewBox={`${bounds.minX - padding} ${bounds.minY - padding} ${width + padding * 2} ${height + padding * 2}`}
+      className="w-full h-[360px] border rounded-lg bg-white cursor-crosshair"
+      onClick={handleClick}
+    >
+      {shapes.map((shape) => {
+        const pointList = shape.points.map((p) => `${p.x},${p.y}`).join(" ")
+        return shape.closed ? (
+          <polygon key={shape.id} points={pointList} fill="none" stroke="#475569" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        ) : (
+          <polyline key={shape.id} points={pointList} fill="none" stroke="#94a3b8" strokeWidth={1} vectorEffect="non-scaling-stroke" />
+        )
+      })}
+      {points.length === 2 && (
+        <line
+          x1={points[0].x}
+          y1={points[0].y}
+          x2={points[1].x}
+          y2={points[1].y}
+          stroke="#2563eb"
+          strokeWidth={2}
+          strokeDasharray="6 4"
+          vectorEffect="non-scaling-stroke"
+        />
+      )}
+      {points.map((p, i) => (
+        <circle key={i} cx={p.x} cy={p.y} r={markerRadius} fill="#2563eb" />
+      ))}
+    </svg>
+  )
+}
@@ -0,0 +1,5 @@
+export { ImportDialog } from "./import-dialog"
+export * from "./types"
+export * from "./utils"
+export { parseDXF } from "./parse-dxf"
+export { parseSVG } from "./parse-svg"
@@ -0,0 +1,227 @@
+/**
+ * DXF Parser
+ *
+ * Reads the geometry of an ASCII DXF file: lines, (LW)polylines with bulges, arcs,
+ * circles, splines (by control points) and text. Block references (INSERT) are not expanded.
+ * Y is flipped so the result matches canvas orientation.
+ */
+
+import type { Point } from "@/lib/types"
+import type { ImportedDrawing, ImportedShape, ImportedLabel } from "./types"
+import { computeBounds } from "./utils"
+
+type Pair = { code: number; value: string }
+
+interface EntityRecord {
+  type: string
+  pairs: Pair[]
+}
+
+const ARC_SEGMENTS_PER_90 = 6
+
+function readPairs(content: string): Pair[] {
+  const lines = content.split(/\r?\n/)
+  const pairs: Pair[] = []
+  for (let i = 0; i + 1 < lines.length; i += 2) {
+    const code = parseInt(lines[i].trim(), 10)
+    if (Number.isNaN(code)) {
+      throw new Error(`Invalid DXF group code on line ${i + 1}`)
+    }
+    pairs.push({ code, value: lines[i + 1].trim() })
+  }
+  return pairs
+}
+
+// Group the ENTITIES section into records, one per entity
+function readEntities(pairs: Pair[]): EntityRecord[] {
+  const entities: EntityRecord[] = []
+  let inEntities = false
+  let current: EntityRecord | null = null
+
+  for (let i = 0; i < pairs.length; i++) {
+    const { code, value } = pairs[i]
+    if (code === 0 && value === "SECTION") {
+      inEntities = pairs[i + 1]?.code === 2 && pairs[i + 1].value === "ENTITIES"
+      continue
+    }
+    if (!inEntities) continue
+    if (code === 0) {
+      if (value === "ENDSEC") {
+        inEntities = false
+        current = null
+        continue
+      }
+      current = { type: value, pairs: [] }
+      entities.push(current)
+    } else if (current) {
+      current.pairs.push({ code, value })
+    }
+  }
+  return entities
+}
+
+const num = (record: EntityRecord, code: number, fallback = 0) => {
+  const pair = record.pairs.find((p) => p.code === code)
+  return pair ? parseFloat(pair.value) : fallback
+}
+
+const str = (record: EntityRecord, code: number) =>
+  record.pairs.find((p) => p.code === code)?.value ?? ""
+
+// Points of an arc, angles in degrees counter-clockwise (DXF convention, Y up)
+function arcPoints(center: Point, radius: number, startDeg: number, endDeg: number): Point[] {
+  let sweep = endDeg - startDeg
+  if (sweep <= 0) sweep += 360
+  const segments = Math.max(2, Math.ceil((sweep / 90) * ARC_SEGMENTS_PER_90))
+  const points: Point[] = []
+  for (let i = 0; i <= segments; i++) {
+    const angle = ((startDeg + (sweep * i) / segments) * Math.PI) / 180
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) })
+  }
+  return points
+}
+
+// Intermediate points for a polyline segment with a bulge (bulge = tan(sweep / 4))
+function bulgePoints(a: Point, b: Point, bulge: number): Point[] {
+  if (Math.abs(bulge) < 1e-9) return []
+  const chord = Math.hypot(b.x - a.x, b.y - a.y)
+  if (chord === 0) return []
+  const sweep = 4 * Math.atan(bulge)
+  const radius = chord / (2 * Math.sin(Math.abs(sweep) / 2))
+  const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+  const sagittaOffset = Math.sqrt(Math.max(0, radius * radius - (chord / 2) ** 2))
+  const direction = Math.sign(bulge) * (Math.abs(sweep) > Math.PI ? -1 : 1)
+  const normal = { x: -(b.y - a.y) / chord, y: (b.x - a.x) / chord }
+  const center = {
+    x: mid.x + normal.x * sagittaOffset * direction,
+    y: mid.y + normal.y * sagittaOffset * direction,
+  }
+  const startAngle = Math.atan2(a.y - center.y, a.x - center.x)
+  const segments = Math.max(2, Math.ceil((Math.abs(sweep) / (Math.PI / 2)) * ARC_SEGMENTS_PER_90))
+  const points: Point[] = []
+  for (let i = 1; i < segments; i++) {
+    const angle = startAngle + (sweep * i) / segments
+    points.push({ x: center.x + radius * Math.cos(angle), y: center.y + radius * Math.sin(angle) })
+  }
+  return points
+}
+
+// Expand vertices with bulges into a plain point list
+function withBulges(vertices: Array<Point & { bulge: number }>, closed: boolean): Point[] {
+  const points: Point[] = []
+  vertices.forEach((vertex, i) => {
+    points.push({ x: vertex.x, y: vertex.y })
+    const next = vertices[i + 1] ?? (closed ? vertices[0] : undefined)
+    if (next) points.push(...bulgePoints(vertex, next, vertex.bulge))
+  })
+  return points
+}
+
+// Strip MTEXT inline formatting ({\fArial|b0;...}, \P paragraph breaks, etc.)
+function cleanMText(value: string): string {
+  return value
+    .replace(/\\P/g, " ")
+    .replace(/\\[A-Za-z][^;\\{}]*;/g, "")
+    .replace(/[{}]/g, "")
+    .trim()
+}
+
+export function parseDXF(content: string, fileName: string): ImportedDrawing {
+  const entities = readEntities(readPairs(content))
+  const shapes: ImportedShape[] = []
+  const labels: ImportedLabel[] = []
+  const flip = (p: Point): Point => ({ x: p.x, y: -p.y })
+
+  const addShape = (points: Point[], closed: boolean, layer: string) => {
+    if (points.length < 2) return
+    shapes.push({ id: `dxf-${shapes.length}`, points: points.map(flip), closed, layer })
+  }
+
+  for (let i = 0; i < entities.length; i++) {
+    const entity = entities[i]
+    const layer = str(entity, 8)
+
+    switch (entity.type) {
+      case "LINE":
+        addShape(
+          [
+            { x: num(entity, 10), y: num(entity, 20) },
+            { x: num(entity, 11), y: num(entity, 21) },
+          ],
+          false,
+          layer
+        )
+        break
+
+      case "LWPOLYLINE": {
+        const closed = (num(entity, 70) & 1) === 1
+        const vertices: Array<Point & { bulge: number }> = []
+        for (const pair of entity.pairs) {
+          if (pair.code === 10) vertices.push({ x: parseFloat(pair.value), y: 0, bulge: 0 })
+          else if (pair.code === 20 && vertices.length) vertices[vertices.length - 1].y = parseFloat(pair.value)
+          else if (pair.code === 42 && vertices.length) vertices[vertices.length - 1].bulge = parseFloat(pair.value)
+        }
+        addShape(withBulges(vertices, closed), closed, layer)
+        break
+      }
+
+      case "POLYLINE": {
+        const closed = (num(entity, 70) & 1) === 1
+        const vertices: Array<Point & { bulge: number }> = []
+        while (entities[i + 1]?.type === "VERTEX") {
+          i++
+          const vertex = entities[i]
+          vertices.push({ x: num(vertex, 10), y: num(vertex, 20), bulge: num(vertex, 42) })
+        }
+        if (entities[i + 1]?.type === "SEQEND") i++
+        addShape(withBulges(vertices, closed), closed, layer)
+        break
+      }
+
+      case "CIRCLE": {
+        const points = arcPoints({ x: num(entity, 10), y: num(entity, 20) }, num(entity, 40), 0, 360)
+        addShape(points.slice(0, -1), true, layer)
+        break
+      }
+
+      case "ARC":
+        addShape(
+          arcPoints({ x: num(entity, 10), y: num(entity, 20) }, num(entity, 40), num(entity, 50), num(entity, 51)),
+          false,
+          layer
+        )
+        break
+
+      case "SPLINE": {
+        const points: Point[] = []
+        for (const pair of entity.pairs) {
+          if (pair.code === 10) points.push({ x: parseFloat(pair.value), y: 0 })
+          else if (pair.code === 20 && points.length) points[points.length - 1].y = parseFloat(pair.value)
+        }
+        addShape(points, (num(entity, 70) & 1) === 1, layer)
+        break
+      }
+
+      case "TEXT":
+      case "MTEXT": {
+        const text = entity.type === "MTEXT"
+          ? cleanMText(entity.pairs.filter((p) => p.code === 3 || p.code === 1).map((p) => p.value).join(""))
+          : str(entity, 1)
+        if (text) labels.push({ text, position: flip({ x: num(entity, 10), y: num(entity, 20) }) })
+        break
+      }
+    }
+  }
+
+  if (shapes.length === 0) {
+    throw new Error("No drawable geometry found in the DXF file")
+  }
+
+  return {
+    format: "dxf",
+    fileName,
+    shapes,
+    labels,
+    bounds: computeBounds(shapes),
+  }
+}
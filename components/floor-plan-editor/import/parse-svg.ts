@@ -0,0 +1,395 @@
+/**
+ * SVG Parser
+ *
+ * Reads path, polygon, polyline, rect, line, circle, ellipse and text elements,
+ * applying element and group transforms. Curves are flattened into short line segments.
+ * Runs in the browser (uses DOMParser).
+ */
+
+import type { Point } from "@/lib/types"
+import type { ImportedDrawing, ImportedShape, ImportedLabel } from "./types"
+import { computeBounds } from "./utils"
+
+// Affine transform [a, b, c, d, e, f] as in SVG matrix()
+type Matrix = [number, number, number, number, number, number]
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+const CURVE_SEGMENTS = 8
+
+function multiply(m: Matrix, n: Matrix): Matrix {
+  return [
+    m[0] * n[0] + m[2] * n[1],
+    m[1] * n[0] + m[3] * n[1],
+    m[0] * n[2] + m[2] * n[3],
+    m[1] * n[2] + m[3] * n[3],
+    m[0] * n[4] + m[2] * n[5] + m[4],
+    m[1] * n[4] + m[3] * n[5] + m[5],
+  ]
+}
+
+function apply(m: Matrix, p: Point): Point {
+  return { x: m[0] * p.x + m[2] * p.y + m[4], y: m[1] * p.x + m[3] * p.y + m[5] }
+}
+
+function parseNumbers(value: string): number[] {
+  return (value.match(/-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []).map(Number)
+}
+
+function parseTransform(value: string | null): Matrix {
+  if (!value) return IDENTITY
+  let result = IDENTITY
+  const pattern = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g
+  let match: RegExpExecArray | null
+  while ((match = pattern.exec(value))) {
+    const args = parseNumbers(match[2])
+    let m: Matrix = IDENTITY
+    switch (match[1]) {
+      case "matrix":
+        if (args.length === 6) m = args as Matrix
+        break
+      case "translate":
+        m = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0]
+        break
+      case "scale":
+        m = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0]
+        break
+      case "rotate": {
+        const angle = ((args[0] ?? 0) * Math.PI) / 180
+        const cos = Math.cos(angle)
+        const sin = Math.sin(angle)
+        const [cx, cy] = [args[1] ?? 0, args[2] ?? 0]
+        m = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy])
+        break
+      }
+      case "skewX":
+        m = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0]
+        break
+      case "skewY":
+        m = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0]
+        break
+    }
+    result = multiply(result, m)
+  }
+  return result
+}
+
+// Combined transform of an element and all of its ancestors
+function elementTransform(element: Element): Matrix {
+  const chain: Matrix[] = []
+  let node: Element | null = element
+  while (node) {
+    chain.unshift(parseTransform(node.getAttribute("transform")))
+    node = node.parentElement
+  }
+  return chain.reduce(multiply, IDENTITY)
+}
+
+function cubic(p0: Point, p1: Point, p2: Point, p3: Point): Point[] {
+  const points: Point[] = []
+  for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+    const t = i / CURVE_SEGMENTS
+    const u = 1 - t
+    points.push({
+      x: u * u * u * p0.x + 3 * u * u * t * p1.x + 3 * u * t * t * p2.x + t * t * t * p3.x,
+      y: u * u * u * p0.y + 3 * u * u * t * p1.y + 3 * u * t * t * p2.y + t * t * t * p3.y,
+    })
+  }
+  return points
+}
+
+function quadratic(p0: Point, p1: Point, p2: Point): Point[] {
+  const points: Point[] = []
+  for (let i = 1; i <= CURVE_SEGMENTS; i++) {
+    const t = i / CURVE_SEGMENTS
+    const u = 1 - t
+    points.push({
+      x: u * u * p0.x + 2 * u * t * p1.x + t * t * p2.x,
+      y: u * u * p0.y + 2 * u * t * p1.y + t * t * p2.y,
+    })
+  }
+  return points
+}
+
+// SVG elliptical arc (endpoint parameterization) flattened into points, excluding the start point
+function ellipticalArc(
+  from: Point,
+  rx: number,
+  ry: number,
+  xAxisRotation: number,
+  largeArc: boolean,
+  sweep: boolean,
+  to: Point
+): Point[] {
+  if (rx === 0 || ry === 0) return [to]
+  const phi = (xAxisRotation * Math.PI) / 180
+  const cos = Math.cos(phi)
+  const sin = Math.sin(phi)
+  const dx = (from.x - to.x) / 2
+  const dy = (from.y - to.y) / 2
+  const x1 = cos * dx + sin * dy
+  const y1 = -sin * dx + cos * dy
+
+  let rX = Math.abs(rx)
+  let rY = Math.abs(ry)
+  const lambda = (x1 * x1) / (rX * rX) + (y1 * y1) / (rY * rY)
+  if (lambda > 1) {
+    rX *= Math.sqrt(lambda)
+    rY *= Math.sqrt(lambda)
+  }
+
+  const numerator = rX * rX * rY * rY - rX * rX * y1 * y1 - rY * rY * x1 * x1
+  const denominator = rX * rX * y1 * y1 + rY * rY * x1 * x1
+  const factor = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, numerator / denominator))
+  const cx1 = (factor * rX * y1) / rY
+  const cy1 = (-factor * rY * x1) / rX
+  const cx = cos * cx1 - sin * cy1 + (from.x + to.x) / 2
+  const cy = sin * cx1 + cos * cy1 + (from.y + to.y) / 2
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) =>
+    Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy)
+  const theta1 = angle(1, 0, (x1 - cx1) / rX, (y1 - cy1) / rY)
+  let delta = angle((x1 - cx1) / rX, (y1 - cy1) / rY, (-x1 - cx1) / rX, (-y1 - cy1) / rY)
+  if (!sweep && delta > 0) delta -= 2 * Math.PI
+  if (sweep && delta < 0) delta += 2 * Math.PI
+
+  const segments = Math.max(2, Math.ceil((Math.abs(delta) / (Math.PI / 2)) * (CURVE_SEGMENTS / 2)))
+  const points: Point[] = []
+  for (let i = 1; i <= segments; i++) {
+    const t = theta1 + (delta * i) / segments
+    points.push({
+      x: cx + rX * Math.cos(t) * cos - rY * Math.sin(t) * sin,
+      y: cy + rX * Math.cos(t) * sin + rY * Math.sin(t) * cos,
+    })
+  }
+  return points
+}
+
+/**
+ * Parse SVG path data into subpaths
+ */
+export function parsePathData(d: string): Array<{ points: Point[]; closed: boolean }> {
+  const tokens = d.match(/[MmLlHhVvCcSsQqTtAaZz]|-?(?:\d+\.?\d*|\.\d+)(?:[eE][-+]?\d+)?/g) ?? []
+  const subpaths: Array<{ points: Point[]; closed: boolean }> = []
+  let current: { points: Point[]; closed: boolean } | null = null
+  let position: Point = { x: 0, y: 0 }
+  let start: Point = { x: 0, y: 0 }
+  let lastControl: Point | null = null
+  let lastCommand = ""
+  let command = ""
+  let i = 0
+
+  const next = () => parseFloat(tokens[i++])
+  const isNumber = (token: string | undefined) => token !== undefined && !/[a-zA-Z]/.test(token)
+
+  while (i < tokens.length) {
+    if (!isNumber(tokens[i])) {
+      command = tokens[i++]
+    } else if (command.toUpperCase() === "Z" || command === "") {
+      // Stray number with no command to consume it
+      i++
+      continue
+    } else if (command === "M") {
+      command = "L" // Implicit lineto after moveto
+    } else if (command === "m") {
+      command = "l"
+    }
+
+    const relative = command === command.toLowerCase()
+    const base = relative ? position : { x: 0, y: 0 }
+    const upper = command.toUpperCase()
+
+    if (upper === "Z") {
+      if (current) current.closed = true
+      position = start
+      current = null
+      lastCommand = upper
+      continue
+    }
+
+    if (!isNumber(tokens[i])) {
+      // Command with missing arguments: skip it
+      continue
+    }
+
+    if (!current || upper === "M") {
+      if (upper === "M") {
+        position = { x: base.x + next(), y: base.y + next() }
+        start = position
+        current = { points: [position], closed: false }
+        subpaths.push(current)
+        lastCommand = upper
+        lastControl = null
+        continue
+      }
+      current = { points: [position], closed: false }
+      subpaths.push(current)
+    }
+
+    switch (upper) {
+      case "L":
+        position = { x: base.x + next(), y: base.y + next() }
+        current.points.push(position)
+        lastControl = null
+        break
+      case "H":
+        position = { x: base.x + next(), y: position.y }
+        current.points.push(position)
+        lastControl = null
+        break
+      case "V":
+        position = { x: position.x, y: (relative ? position.y : 0) + next() }
+        current.points.push(position)
+        lastControl = null
+        break
+      case "C": {
+        const c1 = { x: base.x + next(), y: base.y + next() }
+        const c2 = { x: base.x + next(), y: base.y + next() }
+        const end = { x: base.x + next(), y: base.y + next() }
+        current.points.push(...cubic(position, c1, c2, end))
+        lastControl = c2
+        position = end
+        break
+      }
+      case "S": {
+        const c1 = lastControl && (lastCommand === "C" || lastCommand === "S")
+          ? { x: 2 * position.x - lastControl.x, y: 2 * position.y - lastControl.y }
+          : position
+        const c2 = { x: base.x + next(), y: base.y + next() }
+        const end = { x: base.x + next(), y: base.y + next() }
+        current.points.push(...cubic(position, c1, c2, end))
+        lastControl = c2
+        position = end
+        break
+      }
+      case "Q": {
+        const c = { x: base.x + next(), y: base.y + next() }
+        const end = { x: base.x + next(), y: base.y + next() }
+        current.points.push(...quadratic(position, c, end))
+        lastControl = c
+        position = end
+        break
+      }
+      case "T": {
+        const c: Point = lastControl && (lastCommand === "Q" || lastCommand === "T")
+          ? { x: 2 * position.x - lastControl.x, y: 2 * position.y - lastControl.y }
+          : position
+        const end = { x: base.x + next(), y: base.y + next() }
+        current.points.push(...quadratic(position, c, end))
+        lastControl = c
+        position = end
+        break
+      }
+      case "A": {
+        const rx = next()
+        const ry = next()
+        const rotation = next()
+        const largeArc = next() !== 0
+        const sweep = next() !== 0
+        const end = { x: base.x + next(), y: base.y + next() }
+        current.points.push(...ellipticalArc(position, rx, ry, rotation, largeArc, sweep, end))
+        lastControl = null
+        position = end
+        break
+      }
+      default:
+        // Unknown command: skip its number
+        i++
+    }
+    lastCommand = upper
+  }
+
+  return subpaths
+}
+
+function ellipsePoints(cx: number, cy: number, rx: number, ry: number): Point[] {
+  const points: Point[] = []
+  const segments = CURVE_SEGMENTS * 4
+  for (let i = 0; i < segments; i++) {
+    const angle = (2 * Math.PI * i) / segments
+    points.push({ x: cx + rx * Math.cos(angle), y: cy + ry * Math.sin(angle) })
+  }
+  return points
+}
+
+// Name of the group (layer) an element sits in; Inkscape keeps the layer name in inkscape:label
+function layerOf(el: Element): string | undefined {
+  for (let parent = el.parentElement; parent && parent.nodeName !== "svg"; parent = parent.parentElement) {
+    if (parent.nodeName !== "g") continue
+    const name = parent.getAttribute("inkscape:label") ?? parent.getAttribute("id")
+    if (name) return name
+  }
+  return undefined
+}
+
+export function parseSVG(content: string, fileName: string): ImportedDrawing {
+  const doc = new DOMParser().parseFromString(content, "image/svg+xml")
+  if (doc.querySelector("parsererror") || !doc.documentElement || doc.documentElement.nodeName !== "svg") {
+    throw new Error("The file is not a valid SVG document")
+  }
+
+  const shapes: ImportedShape[] = []
+  const labels: ImportedLabel[] = []
+  const attr = (el: Element, name: string) => parseFloat(el.getAttribute(name) ?? "0") || 0
+
+  const addShape = (el: Element, points: Point[], closed: boolean) => {
+    if (points.length < 2) return
+    const matrix = elementTransform(el)
+    shapes.push({
+      id: `svg-${shapes.length}`,
+      points: points.map((p) => apply(matrix, p)),
+      closed,
+      layer: layerOf(el),
+    })
+  }
+
+  doc.querySelectorAll("path").forEach((el) => {
+    for (const subpath of parsePathData(el.getAttribute("d") ?? "")) {
+      addShape(el, subpath.points, subpath.closed)
+    }
+  })
+
+  doc.querySelectorAll("polygon, polyline").forEach((el) => {
+    const numbers = parseNumbers(el.getAttribute("points") ?? "")
+    const points: Point[] = []
+    for (let i = 0; i + 1 < numbers.length; i += 2) points.push({ x: numbers[i], y: numbers[i + 1] })
+    addShape(el, points, el.nodeName === "polygon")
+  })
+
+  doc.querySelectorAll("rect").forEach((el) => {
+    const [x, y, w, h] = [attr(el, "x"), attr(el, "y"), attr(el, "width"), attr(el, "height")]
+    if (w <= 0 || h <= 0) return
+    addShape(el, [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }], true)
+  })
+
+  doc.querySelectorAll("line").forEach((el) => {
+    addShape(el, [
+      { x: attr(el, "x1"), y: attr(el, "y1") },
+      { x: attr(el, "x2"), y: attr(el, "y2") },
+    ], false)
+  })
+
+  doc.querySelectorAll("circle, ellipse").forEach((el) => {
+    const rx = el.nodeName === "circle" ? attr(el, "r") : attr(el, "rx")
+    const ry = el.nodeName === "circle" ? attr(el, "r") : attr(el, "ry")
+    if (rx <= 0 || ry <= 0) return
+    addShape(el, ellipsePoints(attr(el, "cx"), attr(el, "cy"), rx, ry), true)
+  })
+
+  doc.querySelectorAll("text").forEach((el) => {
+    const text = el.textContent?.trim()
+    if (!text) return
+    labels.push({ text, position: apply(elementTransform(el), { x: attr(el, "x"), y: attr(el, "y") }) })
+  })
+
+  if (shapes.length === 0) {
+    throw new Error("No drawable geometry found in the SVG file")
+  }
+
+  return {
+    format: "svg",
+    fileName,
+    shapes,
+    labels,
+    bounds: computeBounds(shapes),
+  }
+}
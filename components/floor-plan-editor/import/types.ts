@@ -0,0 +1,52 @@
+/**
+ * Import Feature Types
+ */
+
+import type { Point, RoomType } from "@/lib/types"
+
+export type ImportFormat = "dxf" | "svg"
+
+// A piece of geometry read from the file, in file units with Y pointing down (like the canvas)
+export interface ImportedShape {
+  id: string
+  points: Point[]
+  closed: boolean
+  layer?: string
+}
+
+// A text label read from the file (used to guess room names and types)
+export interface ImportedLabel {
+  text: string
+  position: Point
+}
+
+export interface ImportedDrawing {
+  format: ImportFormat
+  fileName: string
+  shapes: ImportedShape[]
+  labels: ImportedLabel[]
+  bounds: { minX: number; minY: number; maxX: number; maxY: number }
+}
+
+// Two-point scale calibration: the distance between the points equals `lengthFeet`
+export interface ImportCalibration {
+  pointA: Point
+  pointB: Point
+  lengthFeet: number
+}
+
+// A closed shape that could become a room
+export interface RoomCandidate {
+  shapeId: string
+  name: string
+  type: RoomType
+  areaSqFt: number
+  selected: boolean
+}
+
+// Geometry kept as a locked, non-editable tracing reference (canvas pixels)
+export interface ReferenceUnderlayShape {
+  id: string
+  points: Point[]
+  closed: boolean
+}
@@ -0,0 +1,383 @@
+/**
+ * Import Utility Functions
+ */
+
+import type { Point, Room, RoomType } from "@/lib/types"
+import { ADU_LIMITS, ROOM_CONFIGS } from "@/lib/constants"
+import { polygonArea, minimumWidth, isPointInPolygon, distanceToSegment } from "@/lib/compliance"
+import type {
+  ImportedDrawing,
+  ImportedShape,
+  ImportCalibration,
+  RoomCandidate,
+  ReferenceUnderlayShape,
+} from "./types"
+
+// Smallest region (sq ft) considered a room - roughly a small closet
+const MIN_ROOM_AREA = 15
+
+// Narrower regions (ft) are wall cavities between double lines, not rooms
+const MIN_ROOM_WIDTH = 2
+
+// Layer names that usually hold room outlines (e.g. A-AREA, A-AREA-IDEN, ROOMS)
+const ROOM_LAYER_PATTERN = /area|room|space/i
+
+// Keywords found in room labels, checked in order
+const ROOM_KEYWORDS: Array<{ pattern: RegExp; type: RoomType }> = [
+  { pattern: /powder|half\s*bath|1\/2\s*bath/i, type: "half_bath" },
+  { pattern: /bath|\bba\b|shower|toilet|\bwc\b/i, type: "bathroom" },
+  { pattern: /bed|\bbr\b|sleep/i, type: "bedroom" },
+  { pattern: /kitchen|\bkit\b/i, type: "kitchen" },
+  { pattern: /dining|\bdin\b/i, type: "dining" },
+  { pattern: /living|great|family|lounge/i, type: "living" },
+  { pattern: /closet|\bclo\b|\bwic\b|wardrobe/i, type: "closet" },
+  { pattern: /laundry|\blndry\b|washer/i, type: "laundry" },
+  { pattern: /storage|\bstor\b|pantry/i, type: "storage" },
+  { pattern: /utility|mech|\butil\b/i, type: "utility" },
+  { pattern: /entry|foyer|vestibule/i, type: "entry" },
+  { pattern: /hall|corridor/i, type: "corridor" },
+  { pattern: /office|den|study|flex/i, type: "flex" },
+]
+
+/**
+ * Bounding box of all shape points
+ */
+export function computeBounds(shapes: ImportedShape[]): ImportedDrawing["bounds"] {
+  let minX = Infinity, minY = Infinity, maxX = -Infinity, maxY = -Infinity
+  for (const shape of shapes) {
+    for (const p of shape.points) {
+      if (p.x < minX) minX = p.x
+      if (p.y < minY) minY = p.y
+      if (p.x > maxX) maxX = p.x
+      if (p.y > maxY) maxY = p.y
+    }
+  }
+  return { minX, minY, maxX, maxY }
+}
+
+/**
+ * Drawing units per real-world foot from a two-point calibration
+ */
+export function unitsPerFoot(calibration: ImportCalibration): number {
+  const distance = Math.hypot(
+    calibration.pointB.x - calibration.pointA.x,
+    calibration.pointB.y - calibration.pointA.y
+  )
+  return calibration.lengthFeet > 0 ? distance / calibration.lengthFeet : 0
+}
+
+type Segment = [Point, Point]
+
+function shapeSegments(shape: ImportedShape): Segment[] {
+  const segments: Segment[] = []
+  const { points } = shape
+  for (let i = 0; i < points.length - 1; i++) segments.push([points[i], points[i + 1]])
+  if (shape.closed && points.length > 2) segments.push([points[points.length - 1], points[0]])
+  return segments
+}
+
+// Split segments wherever they cross or another segment ends on them (T-junctions)
+function splitSegments(segments: Segment[], tolerance: number): Segment[] {
+  const cuts: number[][] = segments.map(() => [0, 1])
+  const minX = segments.map(([a, b]) => Math.min(a.x, b.x))
+  const maxX = segments.map(([a, b]) => Math.max(a.x, b.x))
+  const order = segments.map((_, i) => i).sort((i, j) => minX[i] - minX[j])
+
+  const project = (point: Point, [a, b]: Segment) => {
+    const dx = b.x - a.x
+    const dy = b.y - a.y
+    return ((point.x - a.x) * dx + (point.y - a.y) * dy) / (dx * dx + dy * dy)
+  }
+
+  for (let oi = 0; oi < order.length; oi++) {
+    const i = order[oi]
+    const [p, p2] = segments[i]
+    for (let oj = oi + 1; oj < order.length; oj++) {
+      const j = order[oj]
+      if (minX[j] > maxX[i] + tolerance) break
+      const [q, q2] = segments[j]
+      if (Math.min(q.y, q2.y) > Math.max(p.y, p2.y) + tolerance) continue
+      if (Math.max(q.y, q2.y) < Math.min(p.y, p2.y) - tolerance) continue
+
+      const r = { x: p2.x - p.x, y: p2.y - p.y }
+      const s = { x: q2.x - q.x, y: q2.y - q.y }
+      const denominator = r.x * s.y - r.y * s.x
+      if (Math.abs(denominator) > 1e-12) {
+        const t = ((q.x - p.x) * s.y - (q.y - p.y) * s.x) / denominator
+        const u = ((q.x - p.x) * r.y - (q.y - p.y) * r.x) / denominator
+        if (t > 0 && t < 1 && u > 0 && u < 1) {
+          cuts[i].push(t)
+          cuts[j].push(u)
+        }
+      }
+
+      // Endpoints that land on (or just short of) the other segment
+      for (const end of [q, q2]) {
+        if (distanceToSegment(end, p, p2) <= tolerance) cuts[i].push(project(end, segments[i]))
+      }
+      for (const end of [p, p2]) {
+        if (distanceToSegment(end, q, q2) <= tolerance) cuts[j].push(project(end, segments[j]))
+      }
+    }
+  }
+
+  const result: Segment[] = []
+  segments.forEach(([a, b], i) => {
+    const params = [...new Set(cuts[i].map((t) => Math.min(1, Math.max(0, t))))].sort((x, y) => x - y)
+    for (let k = 0; k < params.length - 1; k++) {
+      const from = { x: a.x + (b.x - a.x) * params[k], y: a.y + (b.y - a.y) * params[k] }
+      const to = { x: a.x + (b.x - a.x) * params[k + 1], y: a.y + (b.y - a.y) * params[k + 1] }
+      if (Math.hypot(to.x - from.x, to.y - from.y) > tolerance) result.push([from, to])
+    }
+  })
+  return result
+}
+
+// Remove vertices that sit on a straight line between their neighbours
+function removeCollinear(points: Point[]): Point[] {
+  return points.filter((point, i) => {
+    const prev = points[(i - 1 + points.length) % points.length]
+    const next = points[(i + 1) % points.length]
+    const cross = (point.x - prev.x) * (next.y - point.y) - (point.y - prev.y) * (next.x - point.x)
+    const length = Math.hypot(point.x - prev.x, point.y - prev.y) * Math.hypot(next.x - point.x, next.y - point.y)
+    return length === 0 || Math.abs(cross) / length > 1e-3
+  })
+}
+
+/**
+ * Layer names used in the drawing, sorted
+ */
+export function drawingLayers(drawing: ImportedDrawing): string[] {
+  const layers = new Set(drawing.shapes.flatMap((s) => (s.layer ? [s.layer] : [])))
+  return [...layers].sort((a, b) => a.localeCompare(b))
+}
+
+/**
+ * The layer that most likely holds the room outlines, if the drawing has one
+ */
+export function guessRoomLayer(layers: string[]): string | null {
+  return layers.find((layer) => ROOM_LAYER_PATTERN.test(layer)) ?? null
+}
+
+/**
+ * Find the regions that could become rooms.
+ * With a room layer, all of that layer's linework is traced, since CAD plans often draw rooms as
+ * loose LINE segments that share walls. Without one only closed outlines count: tracing every layer
+ * would let door swings, furniture and dimensions cut the rooms into pieces.
+ */
+export function findClosedRegions(
+  shapes: ImportedShape[],
+  tolerance: number,
+  roomLayer: string | null
+): ImportedShape[] {
+  if (roomLayer !== null) return traceRegions(shapes.filter((s) => s.layer === roomLayer), tolerance)
+  return shapes
+    .filter((s) => s.closed && s.points.length >= 3)
+    .map((s, i) => ({ id: `region-${i}`, points: removeCollinear(s.points), closed: true, layer: s.layer }))
+}
+
+// Enclosed regions of the linework, traced as the faces of the planar graph
+function traceRegions(shapes: ImportedShape[], tolerance: number): ImportedShape[] {
+  const segments = splitSegments(shapes.flatMap(shapeSegments), tolerance)
+
+  // Merge endpoints within tolerance into shared nodes
+  const nodes: Point[] = []
+  const grid = new Map<string, number[]>()
+  const cellKey = (x: number, y: number) => `${x},${y}`
+  const nodeFor = (point: Point): number => {
+    const cx = Math.round(point.x / tolerance)
+    const cy = Math.round(point.y / tolerance)
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        for (const index of grid.get(cellKey(cx + dx, cy + dy)) ?? []) {
+          if (Math.hypot(nodes[index].x - point.x, nodes[index].y - point.y) <= tolerance) return index
+        }
+      }
+    }
+    nodes.push(point)
+    const key = cellKey(cx, cy)
+    grid.set(key, [...(grid.get(key) ?? []), nodes.length - 1])
+    return nodes.length - 1
+  }
+
+  const adjacency = new Map<number, Set<number>>()
+  const link = (a: number, b: number) => {
+    if (!adjacency.has(a)) adjacency.set(a, new Set())
+    adjacency.get(a)!.add(b)
+  }
+  for (const [a, b] of segments) {
+    const from = nodeFor(a)
+    const to = nodeFor(b)
+    if (from === to) continue
+    link(from, to)
+    link(to, from)
+  }
+
+  // Dangling linework (door swings, dimension ticks) can't enclose anything
+  const pending = [...adjacency.keys()].filter((n) => adjacency.get(n)!.size < 2)
+  while (pending.length > 0) {
+    const node = pending.pop()!
+    const neighbors = adjacency.get(node)
+    if (!neighbors || neighbors.size >= 2) continue
+    adjacency.delete(node)
+    for (const neighbor of neighbors) {
+      const rest = adjacency.get(neighbor)
+      rest?.delete(node)
+      if (rest && rest.size < 2) pending.push(neighbor)
+    }
+  }
+
+  // Neighbours of each node sorted by angle
+  const sorted = new Map<number, number[]>()
+  for (const [node, neighbors] of adjacency) {
+    const origin = nodes[node]
+    sorted.set(node, [...neighbors].sort((a, b) =>
+      Math.atan2(nodes[a].y - origin.y, nodes[a].x - origin.x) -
+      Math.atan2(nodes[b].y - origin.y, nodes[b].x - origin.x)
+    ))
+  }
+
+  // Walk each directed edge, always taking the next edge clockwise, to trace every face once
+  const visited = new Set<string>()
+  const regions: ImportedShape[] = []
+  for (const [start, neighbors] of sorted) {
+    for (const first of neighbors) {
+      if (visited.has(`${start}>${first}`)) continue
+      const face: number[] = []
+      let from = start
+      let to = first
+      while (!visited.has(`${from}>${to}`) && face.length <= segments.length) {
+        visited.add(`${from}>${to}`)
+        face.push(from)
+        const around = sorted.get(to)!
+        const next = around[(around.indexOf(from) - 1 + around.length) % around.length]
+        from = to
+        to = next
+      }
+
+      const points = face.map((n) => nodes[n])
+      // Enclosed faces wind one way; the outside of each connected piece winds the other
+      if (points.length < 3 || signedArea(points) <= 0) continue
+      regions.push({ id: `region-${regions.length}`, points: removeCollinear(points), closed: true })
+    }
+  }
+  return regions
+}
+
+function signedArea(points: Point[]): number {
+  let area = 0
+  for (let i = 0; i < points.length; i++) {
+    const a = points[i]
+    const b = points[(i + 1) % points.length]
+    area += a.x * b.y - b.x * a.y
+  }
+  return area / 2
+}
+
+function guessRoom(shape: ImportedShape, drawing: ImportedDrawing): { name?: string; type: RoomType } {
+  const label = drawing.labels.find((l) => isPointInPolygon(l.position, shape.points, 0))
+  if (!label) return { type: "other" }
+  const match = ROOM_KEYWORDS.find((k) => k.pattern.test(label.text))
+  const name = label.text
+    .toLowerCase()
+    .replace(/\b\w/g, (c) => c.toUpperCase())
+    .slice(0, 40)
+  return { name, type: match?.type ?? "other" }
+}
+
+/**
+ * Pick the regions that could be rooms once the scale is known.
+ * Regions that enclose two or more other candidates (e.g. a courtyard outline) start unselected.
+ */
+export function detectRoomCandidates(
+  drawing: ImportedDrawing,
+  regions: ImportedShape[],
+  drawingUnitsPerFoot: number
+): RoomCandidate[] {
+  const unitsSq = drawingUnitsPerFoot * drawingUnitsPerFoot
+  const closed = regions
+    .filter((s) => s.closed && s.points.length >= 3)
+    .map((shape) => ({ shape, areaSqFt: polygonArea(shape.points) / unitsSq }))
+    .filter(({ areaSqFt }) => areaSqFt >= MIN_ROOM_AREA && areaSqFt <= ADU_LIMITS.MAX_AREA * 2)
+    .filter(({ shape }) => minimumWidth(shape.points) / drawingUnitsPerFoot >= MIN_ROOM_WIDTH)
+
+  const centroid = (points: Point[]) => ({
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  })
+
+  const counts: Partial<Record<RoomType, number>> = {}
+  return closed.map(({ shape, areaSqFt }) => {
+    const enclosed = closed.filter(
+      (other) => other.shape !== shape && isPointInPolygon(centroid(other.shape.points), shape.points, 0)
+    ).length
+    const guess = guessRoom(shape, drawing)
+    counts[guess.type] = (counts[guess.type] ?? 0) + 1
+
+    return {
+      shapeId: shape.id,
+      name: guess.name ?? `${ROOM_CONFIGS[guess.type].label} ${counts[guess.type]}`,
+      type: guess.type,
+      areaSqFt: Math.round(areaSqFt * 10) / 10,
+      selected: enclosed < 2,
+    }
+  })
+}
+
+/**
+ * Convert the selected candidates to editor rooms and the drawing's remaining linework to a reference underlay.
+ * The imported geometry is centered on `target` (canvas pixels) at the editor's pixelsPerFoot.
+ */
+export function buildImportedPlan(
+  drawing: ImportedDrawing,
+  regions: ImportedShape[],
+  candidates: RoomCandidate[],
+  options: {
+    drawingUnitsPerFoot: number
+    pixelsPerFoot: number
+    target: Point
+    includeUnderlay: boolean
+    tolerance: number
+  }
+): { rooms: Room[]; underlay: ReferenceUnderlayShape[] } {
+  const { drawingUnitsPerFoot, pixelsPerFoot, target, includeUnderlay, tolerance } = options
+  const selected = new Map(candidates.filter((c) => c.selected).map((c) => [c.shapeId, c]))
+  const roomShapes = regions.filter((s) => selected.has(s.id))
+
+  // Center on the rooms when there are any, otherwise on the whole drawing
+  const bounds = roomShapes.length > 0 ? computeBounds(roomShapes) : drawing.bounds
+  const center = { x: (bounds.minX + bounds.maxX) / 2, y: (bounds.minY + bounds.maxY) / 2 }
+  const scale = pixelsPerFoot / drawingUnitsPerFoot
+  const toCanvas = (p: Point): Point => ({
+    x: Math.round((target.x + (p.x - center.x) * scale) * 100) / 100,
+    y: Math.round((target.y + (p.y - center.y) * scale) * 100) / 100,
+  })
+
+  const rooms: Room[] = roomShapes.map((shape) => {
+    const candidate = selected.get(shape.id)!
+    const vertices = shape.points.map(toCanvas)
+    return {
+      id: crypto.randomUUID(),
+      type: candidate.type,
+      name: candidate.name,
+      vertices,
+      area: Math.round(polygonArea(vertices) / (pixelsPerFoot * pixelsPerFoot)),
+      color: ROOM_CONFIGS[candidate.type].color,
+    }
+  })
+
+  // Linework already traced by an imported room edge is left out of the underlay
+  const roomEdges = roomShapes.flatMap(shapeSegments)
+  const isTraced = ([a, b]: Segment) => {
+    const mid = { x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 }
+    return roomEdges.some(([p, q]) => distanceToSegment(mid, p, q) <= tolerance)
+  }
+
+  const underlay: ReferenceUnderlayShape[] = includeUnderlay
+    ? drawing.shapes
+        .filter((s) => !shapeSegments(s).every(isTraced))
+        .map((s) => ({ id: s.id, points: s.points.map(toCanvas), closed: s.closed }))
+    : []
+
+  return { rooms, underlay }
+}
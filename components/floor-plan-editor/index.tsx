@@ -19,7 +19,7 @@ import { Slider } from "@/components/ui/slider";
 import { Label } from "@/components/ui/label";
 import { Undo2, Redo2, Cloud, CloudOff, Loader2, RotateCcw, History } from "lucide-react";
 import type { FloorPlan, Point, RoomType, DoorType, WindowType } from "@/lib/types";
-import { DOOR_CONFIGS, WINDOW_CONFIGS } from "@/lib/constants";
+import { DOOR_CONFIGS, WINDOW_CONFIGS, LEVEL_CONFIGS } from "@/lib/constants";
 import { useWizard } from "@/lib/context/wizard-context";
 import { useActionLogger } from "@/lib/hooks/use-action-logger";
 
@@ -990,10 +990,7 @@ export function FloorPlanEditor({ onPlanChange }: FloorPlanEditorProps) {
         open={showExportDialog}
         onOpenChange={setShowExportDialog}
         stageRef={stageRef}
-        rooms={rooms}
-        doors={doors}
-        windows={windows}
-        furniture={furniture}
+        levels={[{ id: "ground", name: LEVEL_CONFIGS.ground.label, rooms, doors, windows, furniture }]}
         aduBoundary={aduBoundary}
         config={config}
         blueprintId={blueprintId ?? undefined}
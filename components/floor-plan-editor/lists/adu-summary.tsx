@@ -14,6 +14,9 @@ interface ADUSummaryProps {
   windows: Window[];
   totalArea: number;
   aduBoundaryArea: number;
+  // Size limits from the active zoning profile
+  minArea?: number;
+  maxArea?: number;
 }
 
 export function ADUSummary({
@@ -22,6 +25,8 @@ export function ADUSummary({
   windows,
   totalArea,
   aduBoundaryArea,
+  minArea = ADU_LIMITS.MIN_AREA,
+  maxArea = ADU_LIMITS.MAX_AREA,
 }: ADUSummaryProps) {
   // Validation helpers
   const hasBathroom = rooms.some((room) => room.type === "bathroom");
@@ -55,14 +60,14 @@ export function ADUSummary({
           <span
             className={cn(
               "text-sm font-bold px-2 py-1 rounded-lg",
-              totalArea >= ADU_LIMITS.MIN_AREA && totalArea <= ADU_LIMITS.MAX_AREA
+              totalArea >= minArea && totalArea <= maxArea
                 ? "text-green-700 bg-green-50 border border-green-200"
                 : totalArea > 0
                 ? "text-destructive bg-red-50 border border-red-200"
                 : "text-muted-foreground bg-secondary"
             )}
           >
-            {totalArea > 0 && (totalArea >= ADU_LIMITS.MIN_AREA && totalArea <= ADU_LIMITS.MAX_AREA ? "✓ " : "⚠ ")}
+            {totalArea > 0 && (totalArea >= minArea && totalArea <= maxArea ? "✓ " : "⚠ ")}
             {totalArea} sq ft
           </span>
         </div>
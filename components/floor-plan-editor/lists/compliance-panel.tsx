@@ -0,0 +1,99 @@
+"use client";
+
+import { useState } from "react";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ShieldCheck, AlertCircle, AlertTriangle, Info, ChevronDown, CheckCircle2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ComplianceIssue, ComplianceSeverity } from "@/lib/compliance";
+
+interface ComplianceIssuesPanelProps {
+  issues: ComplianceIssue[];
+  errorCount: number;
+  warningCount: number;
+  ruleSetName: string;
+  onSelectIssue: (issue: ComplianceIssue) => void;
+}
+
+const SEVERITY_STYLES: Record<ComplianceSeverity, { icon: typeof Info; className: string }> = {
+  error: { icon: AlertCircle, className: "bg-red-50 border-red-200 text-red-800 hover:bg-red-100" },
+  warning: { icon: AlertTriangle, className: "bg-amber-50 border-amber-200 text-amber-800 hover:bg-amber-100" },
+  info: { icon: Info, className: "bg-blue-50 border-blue-200 text-blue-800 hover:bg-blue-100" },
+};
+
+export function ComplianceIssuesPanel({
+  issues,
+  errorCount,
+  warningCount,
+  ruleSetName,
+  onSelectIssue,
+}: ComplianceIssuesPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+
+  return (
+    <Card className="shadow-md transition-shadow hover:shadow-lg overflow-hidden">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <div className="flex items-center justify-between p-3 cursor-pointer hover:bg-secondary/50 transition-colors">
+            <div className="flex items-center gap-2">
+              <ShieldCheck className="h-4 w-4 text-muted-foreground" />
+              <Label className="text-sm font-semibold text-foreground cursor-pointer">Code Compliance</Label>
+            </div>
+            <div className="flex items-center gap-1.5">
+              {errorCount > 0 && (
+                <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-red-100 text-red-700">
+                  {errorCount}
+                </span>
+              )}
+              {warningCount > 0 && (
+                <span className="text-[10px] font-semibold px-1.5 py-0.5 rounded bg-amber-100 text-amber-700">
+                  {warningCount}
+                </span>
+              )}
+              <ChevronDown className={cn(
+                "h-4 w-4 text-muted-foreground transition-transform duration-200",
+                isOpen && "rotate-180"
+              )} />
+            </div>
+          </div>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent>
+          <div className="px-3 pb-3 space-y-2">
+            <p className="text-[10px] text-muted-foreground">Checked against: {ruleSetName}</p>
+            {issues.length === 0 ? (
+              <div className="flex items-center gap-2 text-xs text-green-700 bg-green-50 border border-green-200 rounded-lg p-2">
+                <CheckCircle2 className="h-4 w-4 flex-shrink-0" />
+                No issues found
+              </div>
+            ) : (
+              <div className="space-y-1.5 max-h-[220px] overflow-y-auto">
+                {issues.map((issue) => {
+                  const { icon: Icon, className } = SEVERITY_STYLES[issue.severity];
+                  const isSelectable = !!issue.entityType;
+
+                  return (
+                    <div
+                      key={issue.id}
+                      onClick={() => isSelectable && onSelectIssue(issue)}
+                      className={cn(
+                        "flex items-start gap-2 p-2 rounded-lg border text-xs transition-colors",
+                        className,
+                        isSelectable ? "cursor-pointer" : "cursor-default"
+                      )}
+                      title={isSelectable ? "Select on canvas" : undefined}
+                    >
+                      <Icon className="h-3.5 w-3.5 mt-0.5 flex-shrink-0" />
+                      <span>{issue.message}</span>
+                    </div>
+                  );
+                })}
+              </div>
+            )}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
@@ -3,3 +3,4 @@ export { DoorList } from "./door-list";
 export { WindowList } from "./window-list";
 export { FurnitureList } from "./furniture-list";
 export { ADUSummary } from "./adu-summary";
+export { ComplianceIssuesPanel } from "./compliance-panel";
@@ -6,9 +6,10 @@ import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Input } from "@/components/ui/input";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
-import { Trash2, RotateCw, AlertTriangle, ChevronDown, Home } from "lucide-react";
+import { Trash2, RotateCw, AlertTriangle, ChevronDown, Home, Sun } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ROOM_SIZE_HINTS } from "@/lib/constants";
+import { ORIENTATIONS, type DaylightReport, type RoomDaylight } from "@/lib/daylight";
 import type { Room } from "@/lib/types";
 
 interface RoomListProps {
@@ -20,6 +21,12 @@ interface RoomListProps {
   onRotateRoom: () => void;
   roomDescriptions?: Map<string, string>;
   onRoomDescriptionChange?: (roomId: string, description: string) => void;
+  daylight?: DaylightReport | null;
+}
+
+// "N 12 · W 6" - glazing sq ft per facing, skipping empty ones
+function formatOrientations(glazing: RoomDaylight["glazingByOrientation"]): string {
+  return ORIENTATIONS.filter(o => glazing[o] > 0).map(o => `${o} ${glazing[o]}`).join(" · ");
 }
 
 export function RoomList({
@@ -31,8 +38,12 @@ export function RoomList({
   onRotateRoom,
   roomDescriptions,
   onRoomDescriptionChange,
+  daylight,
 }: RoomListProps) {
   const [isOpen, setIsOpen] = useState(true);
+  const daylightByRoom = new Map(daylight?.rooms.map(r => [r.roomId, r]));
+  const lightRequired = Math.round((daylight?.requirements.lightRatio ?? 0) * 100);
+  const ventilationRequired = Math.round((daylight?.requirements.ventilationRatio ?? 0) * 100);
 
   // Check for undersized rooms
   const isUndersized = (room: Room) => {
@@ -110,6 +121,7 @@ export function RoomList({
                     const undersized = isUndersized(room);
                     const isSelected = selectedRoomId === room.id;
                     const isMultiSelected = selectedRoomIds.has(room.id);
+                    const light = daylightByRoom.get(room.id);
 
                     return (
                       <div
@@ -137,7 +149,35 @@ export function RoomList({
                                 Small
                               </span>
                             )}
+                            {light && (light.habitable || light.glazingArea > 0) && (
+                              <span
+                                className={cn(
+                                  "flex items-center gap-0.5 text-[10px]",
+                                  light.meetsLight ? "text-muted-foreground" : "text-amber-600"
+                                )}
+                                title={`${light.glazingArea} sq ft glazing, ${light.operableArea} sq ft openable${
+                                  light.glazingArea > 0 ? ` (${formatOrientations(light.glazingByOrientation)})` : ""
+                                }`}
+                              >
+                                <Sun className="h-2.5 w-2.5" />
+                                {light.glazingPercent}%
+                              </span>
+                            )}
                           </div>
+                          {light && (!light.meetsLight || !light.meetsVentilation) && (
+                            <div className="flex items-center gap-1 mt-0.5">
+                              {!light.meetsLight && (
+                                <span className="text-[9px] text-amber-600 bg-amber-100 px-1 rounded">
+                                  Light {light.glazingPercent}% / {lightRequired}%
+                                </span>
+                              )}
+                              {!light.meetsVentilation && (
+                                <span className="text-[9px] text-amber-600 bg-amber-100 px-1 rounded">
+                                  Vent {light.ventilationPercent}% / {ventilationRequired}%
+                                </span>
+                              )}
+                            </div>
+                          )}
                           {/* Description input for "other" room type */}
                           {room.type === "other" && onRoomDescriptionChange && (
                             <Input
@@ -165,6 +205,17 @@ export function RoomList({
                     );
                   })}
                 </div>
+
+                {/* Daylight summary */}
+                {daylight && daylight.totalGlazingArea > 0 && (
+                  <div className="flex items-center gap-1.5 text-[10px] text-muted-foreground">
+                    <Sun className="h-3 w-3 flex-shrink-0" />
+                    <span>
+                      {daylight.totalGlazingArea} sq ft glazing ({daylight.glazingPercent}% of floor) ·{" "}
+                      {formatOrientations(daylight.glazingByOrientation)}
+                    </span>
+                  </div>
+                )}
               </>
             )}
           </div>
@@ -0,0 +1,159 @@
+// Auto-placement - searches ADU positions and rotations inside the setbacks and ranks the ones that fit
+import type { Point } from "@/lib/types";
+import type { ExistingStructure } from "@/lib/api/client";
+import { aduLocalToWorld, checkAduFit } from "./lot-geometry";
+import type { ADUTransform } from "./lot-geometry";
+
+export interface AduPlacementCandidate {
+  offsetX: number; // ft
+  offsetY: number; // ft
+  rotation: number; // degrees
+  boundary: Point[]; // placed ADU outline (lot canvas pixels)
+  score: number; // 0-1, higher is better
+  rearDistanceFeet: number;
+  minClearanceFeet: number | null; // clearance beyond the required separation, null without structures
+  alignment: number; // 1 = ADU long side parallel to the lot's long axis
+}
+
+// How much each criterion counts toward the score
+export const PLACEMENT_WEIGHTS = {
+  rear: 0.4, // closer to the rear property line is better (keeps the front yard open)
+  clearance: 0.35, // more room around existing structures is better
+  alignment: 0.25, // long sides parallel to the lot's long axis
+} as const;
+
+// Clearance beyond the required separation that earns the full clearance score
+const FULL_CLEARANCE_FEET = 20;
+// Target number of grid steps across the setback area (keeps the search fast on large lots)
+const GRID_STEPS = 60;
+
+interface AutoPlacementOptions {
+  aduBoundary: Point[]; // ADU-local canvas pixels
+  lotBoundary: Point[];
+  setbackBoundary: Point[];
+  structures: ExistingStructure[];
+  pixelsPerFoot: number;
+  canvasCenter: Point;
+  maxResults?: number;
+  minSpacingFeet?: number; // candidates closer than this to a better one are dropped
+}
+
+// Direction of a polygon's longest edge (degrees, 0-180)
+function longAxisAngle(points: Point[]): number {
+  let best = { length: 0, angle: 0 };
+  points.forEach((a, i) => {
+    const b = points[(i + 1) % points.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length > best.length) {
+      best = { length, angle: (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI };
+    }
+  });
+  return ((best.angle % 180) + 180) % 180;
+}
+
+const normalizeRotation = (degrees: number) => Math.round(((degrees % 360) + 360) % 360);
+
+// Pixel offset range converted to feet and snapped inward to the half-foot grid
+function offsetRange(minPx: number, maxPx: number, pixelsPerFoot: number): [number, number] | null {
+  const min = Math.ceil((minPx / pixelsPerFoot) * 2) / 2;
+  const max = Math.floor((maxPx / pixelsPerFoot) * 2) / 2;
+  return min <= max ? [min, max] : null;
+}
+
+// Evenly spaced values across a range, always including both ends (flush against a setback line)
+function gridSteps([min, max]: [number, number], step: number): number[] {
+  const values: number[] = [];
+  for (let value = min; value < max; value += step) values.push(value);
+  values.push(max);
+  return values;
+}
+
+/**
+ * Ranked ADU placements that keep the ADU inside the setbacks and clear of existing structures.
+ * The rear property line is the top of the lot (canvas minY), matching the setback boundary.
+ */
+export function findAduPlacements({
+  aduBoundary,
+  lotBoundary,
+  setbackBoundary,
+  structures,
+  pixelsPerFoot,
+  canvasCenter,
+  maxResults = 5,
+  minSpacingFeet = 5,
+}: AutoPlacementOptions): AduPlacementCandidate[] {
+  if (aduBoundary.length < 3 || lotBoundary.length < 3 || setbackBoundary.length < 3) return [];
+
+  const lotMinY = Math.min(...lotBoundary.map(p => p.y));
+  const lotDepth = Math.max(...lotBoundary.map(p => p.y)) - lotMinY;
+  const lotAxis = longAxisAngle(lotBoundary);
+  const aduAxis = longAxisAngle(aduBoundary);
+
+  const rotations = Array.from(new Set(
+    [0, lotAxis - aduAxis].flatMap(base => [0, 90, 180, 270].map(r => normalizeRotation(base + r)))
+  ));
+
+  const minX = Math.min(...setbackBoundary.map(p => p.x));
+  const maxX = Math.max(...setbackBoundary.map(p => p.x));
+  const minY = Math.min(...setbackBoundary.map(p => p.y));
+  const maxY = Math.max(...setbackBoundary.map(p => p.y));
+  const stepFeet = Math.max(1, Math.ceil(Math.max(maxX - minX, maxY - minY) / pixelsPerFoot / GRID_STEPS));
+
+  const candidates: AduPlacementCandidate[] = [];
+
+  for (const rotation of rotations) {
+    // Offsets (ft, on a half-foot grid) that keep the rotated ADU's bounding box inside the setbacks
+    const placed = aduBoundary.map(p => aduLocalToWorld(p, {
+      offsetX: 0, offsetY: 0, rotation, canvasCenter, pixelsPerFoot,
+    }));
+    const rangeX = offsetRange(minX - Math.min(...placed.map(p => p.x)), maxX - Math.max(...placed.map(p => p.x)), pixelsPerFoot);
+    const rangeY = offsetRange(minY - Math.min(...placed.map(p => p.y)), maxY - Math.max(...placed.map(p => p.y)), pixelsPerFoot);
+    if (!rangeX || !rangeY) continue;
+
+    const angleDiff = ((aduAxis + rotation - lotAxis) * Math.PI) / 180;
+    const alignment = Math.abs(Math.cos(angleDiff));
+
+    for (const offsetX of gridSteps(rangeX, stepFeet)) {
+      for (const offsetY of gridSteps(rangeY, stepFeet)) {
+        const transform: ADUTransform = { offsetX, offsetY, rotation, canvasCenter, pixelsPerFoot };
+        const boundary = aduBoundary.map(p => aduLocalToWorld(p, transform));
+        const fit = checkAduFit(boundary, setbackBoundary, structures, pixelsPerFoot, canvasCenter);
+        if (!fit.fits) continue;
+
+        const rearDistanceFeet = (Math.min(...boundary.map(p => p.y)) - lotMinY) / pixelsPerFoot;
+        const minClearanceFeet = fit.separations.length > 0
+          ? Math.min(...fit.separations.map(s => s.distanceFeet - s.requiredFeet))
+          : null;
+
+        const rearScore = lotDepth > 0 ? 1 - Math.min(1, (rearDistanceFeet * pixelsPerFoot) / lotDepth) : 1;
+        const clearanceScore = minClearanceFeet === null ? 1 : Math.min(1, minClearanceFeet / FULL_CLEARANCE_FEET);
+        const score = PLACEMENT_WEIGHTS.rear * rearScore +
+          PLACEMENT_WEIGHTS.clearance * clearanceScore +
+          PLACEMENT_WEIGHTS.alignment * alignment;
+
+        candidates.push({
+          offsetX: transform.offsetX,
+          offsetY: transform.offsetY,
+          rotation,
+          boundary,
+          score,
+          rearDistanceFeet,
+          minClearanceFeet,
+          alignment,
+        });
+      }
+    }
+  }
+
+  // Best first, skipping near-duplicates of a better spot
+  candidates.sort((a, b) => b.score - a.score);
+  const ranked: AduPlacementCandidate[] = [];
+  for (const candidate of candidates) {
+    const tooClose = ranked.some(r =>
+      Math.hypot(r.offsetX - candidate.offsetX, r.offsetY - candidate.offsetY) < minSpacingFeet
+    );
+    if (!tooClose) ranked.push(candidate);
+    if (ranked.length >= maxResults) break;
+  }
+  return ranked;
+}
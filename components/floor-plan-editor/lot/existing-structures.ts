@@ -0,0 +1,128 @@
+// Existing structures on the lot (main house, garage, pool, trees) and the
+// separation the ADU has to keep from each of them.
+import type { Point } from "@/lib/types";
+import type { ExistingStructure, ExistingStructureType } from "@/lib/api/client";
+
+interface StructureConfig {
+  label: string;
+  fill: string;
+  stroke: string;
+  // Required clear distance between the ADU and this structure (feet)
+  minSeparationFeet: number;
+  // Roofed buildings count toward lot coverage and floor area; pools and trees don't
+  isBuilding: boolean;
+  // Default footprint when added (feet)
+  width: number;
+  depth: number;
+}
+
+export const STRUCTURE_CONFIGS: Record<ExistingStructureType, StructureConfig> = {
+  primary_dwelling: {
+    label: "Main House",
+    fill: "rgba(100, 116, 139, 0.35)",
+    stroke: "#475569",
+    minSeparationFeet: 6,
+    isBuilding: true,
+    width: 40,
+    depth: 30,
+  },
+  garage: {
+    label: "Garage",
+    fill: "rgba(120, 113, 108, 0.3)",
+    stroke: "#57534e",
+    minSeparationFeet: 6,
+    isBuilding: true,
+    width: 20,
+    depth: 20,
+  },
+  shed: {
+    label: "Shed",
+    fill: "rgba(161, 98, 7, 0.25)",
+    stroke: "#a16207",
+    minSeparationFeet: 3,
+    isBuilding: true,
+    width: 10,
+    depth: 8,
+  },
+  pool: {
+    label: "Pool",
+    fill: "rgba(14, 165, 233, 0.35)",
+    stroke: "#0284c7",
+    minSeparationFeet: 5,
+    isBuilding: false,
+    width: 15,
+    depth: 30,
+  },
+  // Tree footprints are the canopy (drip line); the ADU only has to stay outside it
+  tree: {
+    label: "Tree",
+    fill: "rgba(34, 197, 94, 0.3)",
+    stroke: "#15803d",
+    minSeparationFeet: 0,
+    isBuilding: false,
+    width: 16,
+    depth: 16,
+  },
+};
+
+export const STRUCTURE_TYPES = Object.keys(STRUCTURE_CONFIGS) as ExistingStructureType[];
+
+const TREE_CANOPY_SEGMENTS = 12;
+
+/**
+ * New structure centered on a point (feet from the lot center) with the default footprint for its type
+ */
+export function createExistingStructure(
+  type: ExistingStructureType,
+  center: Point = { x: 0, y: 0 }
+): ExistingStructure {
+  const { width, depth } = STRUCTURE_CONFIGS[type];
+  const halfW = width / 2;
+  const halfD = depth / 2;
+
+  const vertices = type === "tree"
+    ? Array.from({ length: TREE_CANOPY_SEGMENTS }, (_, i) => {
+        const angle = (i / TREE_CANOPY_SEGMENTS) * Math.PI * 2;
+        return { x: center.x + Math.cos(angle) * halfW, y: center.y + Math.sin(angle) * halfD };
+      })
+    : [
+        { x: center.x - halfW, y: center.y - halfD },
+        { x: center.x + halfW, y: center.y - halfD },
+        { x: center.x + halfW, y: center.y + halfD },
+        { x: center.x - halfW, y: center.y + halfD },
+      ];
+
+  return { id: crypto.randomUUID(), type, vertices };
+}
+
+export function getStructureLabel(structure: ExistingStructure): string {
+  return structure.label || STRUCTURE_CONFIGS[structure.type].label;
+}
+
+/**
+ * Structure footprint in canvas pixels (structures stay fixed with the lot)
+ */
+export function structureToPixels(
+  structure: ExistingStructure,
+  pixelsPerFoot: number,
+  canvasCenter: Point
+): Point[] {
+  return structure.vertices.map(v => ({
+    x: canvasCenter.x + v.x * pixelsPerFoot,
+    y: canvasCenter.y + v.y * pixelsPerFoot,
+  }));
+}
+
+/**
+ * Canvas pixels back to feet from the lot center (for saving edited footprints)
+ */
+export function pixelsToStructureFeet(
+  points: Point[],
+  pixelsPerFoot: number,
+  canvasCenter: Point
+): Point[] {
+  return points.map(p => ({
+    x: Math.round(((p.x - canvasCenter.x) / pixelsPerFoot) * 10) / 10,
+    y: Math.round(((p.y - canvasCenter.y) / pixelsPerFoot) * 10) / 10,
+  }));
+}
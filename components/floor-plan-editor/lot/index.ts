@@ -1,3 +1,23 @@
 export { LotOverlay } from "./lot-overlay";
 export { LotMapView } from "./lot-map-view";
 export { LotBoundaryDrawing } from "./lot-boundary-drawing";
+export {
+  getLotBoundaryPixels,
+  getSetbackBoundaryPixels,
+  aduLocalToWorld,
+  worldToAduLocal,
+  checkAduFit,
+  polygonDistance,
+} from "./lot-geometry";
+export type { ADUTransform, AduFitResult, StructureSeparation } from "./lot-geometry";
+export { calculateLotCoverage } from "./lot-coverage";
+export type { LotCoverage } from "./lot-coverage";
+export { findAduPlacements } from "./auto-placement";
+export type { AduPlacementCandidate } from "./auto-placement";
+export {
+  STRUCTURE_CONFIGS,
+  STRUCTURE_TYPES,
+  createExistingStructure,
+  getStructureLabel,
+  structureToPixels,
+} from "./existing-structures";
@@ -0,0 +1,79 @@
+// Lot coverage and floor-area ratio for the placed ADU and the existing buildings on the lot
+import type { Point } from "@/lib/types";
+import type { ExistingStructure } from "@/lib/api/client";
+import { polygonArea, intersectionArea } from "@/lib/compliance";
+import { STRUCTURE_CONFIGS, structureToPixels } from "./existing-structures";
+
+export interface LotCoverage {
+  lotAreaSqFt: number;
+  aduFootprintSqFt: number;
+  aduFloorAreaSqFt: number;
+  existingFootprintSqFt: number; // roofed buildings only
+  existingFloorAreaSqFt: number;
+  coverage: number; // building footprints / lot area (0-1)
+  floorAreaRatio: number; // total floor area / lot area
+  buildableAreaSqFt: number; // setback (buildable) area
+  remainingBuildableSqFt: number; // buildable area not yet covered by a building
+  maxLotCoverage?: number;
+  maxFloorAreaRatio?: number;
+  exceedsCoverage: boolean;
+  exceedsFloorAreaRatio: boolean;
+}
+
+/**
+ * Coverage and FAR for the current ADU placement. All geometry is in lot (world) canvas pixels.
+ * The lot area comes from the parcel record when present, otherwise from the boundary polygon.
+ */
+export function calculateLotCoverage(options: {
+  lotAreaSqFt?: number;
+  lotBoundary: Point[];
+  setbackBoundary: Point[];
+  aduWorldBoundary: Point[];
+  aduFloorAreaSqFt: number; // every level of the ADU
+  structures: ExistingStructure[];
+  pixelsPerFoot: number;
+  canvasCenter: Point;
+  maxLotCoverage?: number;
+  maxFloorAreaRatio?: number;
+}): LotCoverage | null {
+  const { setbackBoundary, aduWorldBoundary, pixelsPerFoot, canvasCenter } = options;
+  const toSqFt = (areaPx: number) => areaPx / (pixelsPerFoot * pixelsPerFoot);
+
+  const lotAreaSqFt = options.lotAreaSqFt || toSqFt(polygonArea(options.lotBoundary));
+  if (!lotAreaSqFt) return null;
+
+  const buildings = options.structures
+    .filter(s => STRUCTURE_CONFIGS[s.type].isBuilding && s.vertices.length >= 3)
+    .map(s => ({ footprint: structureToPixels(s, pixelsPerFoot, canvasCenter), stories: s.stories ?? 1 }));
+
+  const aduFootprintSqFt = toSqFt(polygonArea(aduWorldBoundary));
+  const existingFootprintSqFt = buildings.reduce((sum, b) => sum + toSqFt(polygonArea(b.footprint)), 0);
+  const existingFloorAreaSqFt = buildings.reduce((sum, b) => sum + toSqFt(polygonArea(b.footprint)) * b.stories, 0);
+
+  // Buildable area left inside the setbacks (the setback polygon is a rectangle, so clipping is exact)
+  const buildableAreaSqFt = toSqFt(polygonArea(setbackBoundary));
+  const usedBuildableSqFt = setbackBoundary.length >= 3
+    ? [aduWorldBoundary, ...buildings.map(b => b.footprint)]
+        .filter(footprint => footprint.length >= 3)
+        .reduce((sum, footprint) => sum + toSqFt(intersectionArea(footprint, setbackBoundary)), 0)
+    : 0;
+
+  const coverage = (aduFootprintSqFt + existingFootprintSqFt) / lotAreaSqFt;
+  const floorAreaRatio = (options.aduFloorAreaSqFt + existingFloorAreaSqFt) / lotAreaSqFt;
+
+  return {
+    lotAreaSqFt,
+    aduFootprintSqFt,
+    aduFloorAreaSqFt: options.aduFloorAreaSqFt,
+    existingFootprintSqFt,
+    existingFloorAreaSqFt,
+    coverage,
+    floorAreaRatio,
+    buildableAreaSqFt,
+    remainingBuildableSqFt: Math.max(0, buildableAreaSqFt - usedBuildableSqFt),
+    maxLotCoverage: options.maxLotCoverage,
+    maxFloorAreaRatio: options.maxFloorAreaRatio,
+    exceedsCoverage: options.maxLotCoverage !== undefined && coverage > options.maxLotCoverage,
+    exceedsFloorAreaRatio: options.maxFloorAreaRatio !== undefined && floorAreaRatio > options.maxFloorAreaRatio,
+  };
+}
@@ -0,0 +1,355 @@
+// Lot geometry - converts lot data (geo boundary, setbacks, ADU placement) into canvas pixels.
+// Shared by the lot overlay and anything else that needs the lot in editor coordinates.
+import type { Point } from "@/lib/types";
+import type { ExistingStructure, GeoVertex, Lot } from "@/lib/api/client";
+import { isPointInPolygon } from "@/lib/compliance";
+import { STRUCTURE_CONFIGS, structureToPixels } from "./existing-structures";
+
+// ADU placement on the lot: the ADU content group is offset (in feet) and rotated around the canvas center
+export interface ADUTransform {
+  offsetX: number;
+  offsetY: number;
+  rotation: number; // degrees
+  canvasCenter: Point;
+  pixelsPerFoot: number;
+}
+
+// Clear distance between the placed ADU and one existing structure
+export interface StructureSeparation {
+  structureId: string;
+  distanceFeet: number;
+  requiredFeet: number;
+  overlaps: boolean;
+  violated: boolean;
+  // Closest points on the ADU and the structure (canvas pixels), for the dimension line
+  aduPoint: Point;
+  structurePoint: Point;
+}
+
+export interface AduFitResult {
+  fits: boolean;
+  withinSetbacks: boolean;
+  overlapArea: number;
+  separations: StructureSeparation[];
+}
+
+/**
+ * Convert lot boundary from geo coordinates to canvas pixels
+ *
+ * This uses a simplified conversion that assumes:
+ * 1. The lot is small enough that Earth curvature is negligible
+ * 2. We're using the lot center as the reference point
+ *
+ * The conversion uses the Haversine-derived feet-per-degree approximations:
+ * - 1 degree latitude ≈ 364,000 feet (varies slightly by latitude)
+ * - 1 degree longitude ≈ 364,000 * cos(latitude) feet
+ *
+ * NOTE: The lot boundary stays FIXED at canvas center.
+ * The ADU position offset is applied to the ADU rendering, not the lot.
+ */
+export function geoToCanvasPixels(
+  geoVertices: GeoVertex[],
+  lotCenter: { lat: number; lng: number },
+  lotRotation: number,
+  pixelsPerFoot: number,
+  canvasCenter: Point
+): Point[] {
+  // Approximate feet per degree at this latitude
+  const feetPerDegreeLat = 364000;
+  const feetPerDegreeLng = 364000 * Math.cos((lotCenter.lat * Math.PI) / 180);
+
+  // Convert lot rotation to radians
+  const lotRotRad = (lotRotation * Math.PI) / 180;
+
+  return geoVertices.map((vertex) => {
+    // Convert geo offset from lot center to feet
+    const deltaLat = vertex.lat - lotCenter.lat;
+    const deltaLng = vertex.lng - lotCenter.lng;
+
+    let feetX = deltaLng * feetPerDegreeLng;
+    let feetY = -deltaLat * feetPerDegreeLat; // Negative because canvas Y increases downward
+
+    // Apply lot rotation around lot center
+    if (lotRotation !== 0) {
+      const cos = Math.cos(lotRotRad);
+      const sin = Math.sin(lotRotRad);
+      const rotatedX = feetX * cos - feetY * sin;
+      const rotatedY = feetX * sin + feetY * cos;
+      feetX = rotatedX;
+      feetY = rotatedY;
+    }
+
+    // Convert feet to pixels - lot is centered on canvas
+    const pixelX = canvasCenter.x + feetX * pixelsPerFoot;
+    const pixelY = canvasCenter.y + feetY * pixelsPerFoot;
+
+    return { x: pixelX, y: pixelY };
+  });
+}
+
+/**
+ * Calculate setback boundary (inset polygon)
+ * This creates a simplified rectangular setback area
+ *
+ * Canvas coordinates: Y increases downward
+ * - minY = top of lot (back/rear)
+ * - maxY = bottom of lot (front/street-facing)
+ */
+export function calculateSetbackBoundary(
+  lotBoundary: Point[],
+  setbacks: {
+    front: number;
+    back: number;
+    left: number;
+    right: number;
+  },
+  pixelsPerFoot: number
+): Point[] {
+  if (lotBoundary.length < 3) return [];
+
+  // Find bounding box of lot
+  let minX = Infinity, maxX = -Infinity;
+  let minY = Infinity, maxY = -Infinity;
+
+  for (const p of lotBoundary) {
+    if (p.x < minX) minX = p.x;
+    if (p.x > maxX) maxX = p.x;
+    if (p.y < minY) minY = p.y;
+    if (p.y > maxY) maxY = p.y;
+  }
+
+  // Check for valid bounding box
+  if (!isFinite(minX) || !isFinite(maxX) || !isFinite(minY) || !isFinite(maxY)) {
+    return [];
+  }
+
+  // Apply setbacks (convert feet to pixels)
+  const frontPx = (setbacks.front || 0) * pixelsPerFoot;
+  const backPx = (setbacks.back || 0) * pixelsPerFoot;
+  const leftPx = (setbacks.left || 0) * pixelsPerFoot;
+  const rightPx = (setbacks.right || 0) * pixelsPerFoot;
+
+  // Create inset rectangle
+  // In canvas coords: minY is top (back), maxY is bottom (front/street)
+  const insetMinX = minX + leftPx;
+  const insetMaxX = maxX - rightPx;
+  const insetMinY = minY + backPx;   // Back setback from top
+  const insetMaxY = maxY - frontPx;  // Front setback from bottom
+
+  // Ensure valid rectangle (setbacks don't exceed lot size)
+  if (insetMinX >= insetMaxX || insetMinY >= insetMaxY) {
+    return [];
+  }
+
+  return [
+    { x: insetMinX, y: insetMinY },  // top-left
+    { x: insetMaxX, y: insetMinY },  // top-right
+    { x: insetMaxX, y: insetMaxY },  // bottom-right
+    { x: insetMinX, y: insetMaxY },  // bottom-left
+  ];
+}
+
+/**
+ * Lot boundary in canvas pixels (the lot stays fixed at the canvas center).
+ * Falls back to a rectangle from the lot dimensions when there is no parcel boundary.
+ */
+export function getLotBoundaryPixels(lot: Lot, pixelsPerFoot: number, canvasCenter: Point): Point[] {
+  if (!lot.boundaryVertices || lot.boundaryVertices.length < 3) {
+    if (lot.lotWidthFeet && lot.lotDepthFeet) {
+      const halfWidth = (lot.lotWidthFeet / 2) * pixelsPerFoot;
+      const halfDepth = (lot.lotDepthFeet / 2) * pixelsPerFoot;
+
+      return [
+        { x: canvasCenter.x - halfWidth, y: canvasCenter.y - halfDepth },
+        { x: canvasCenter.x + halfWidth, y: canvasCenter.y - halfDepth },
+        { x: canvasCenter.x + halfWidth, y: canvasCenter.y + halfDepth },
+        { x: canvasCenter.x - halfWidth, y: canvasCenter.y + halfDepth },
+      ];
+    }
+    return [];
+  }
+
+  return geoToCanvasPixels(
+    lot.boundaryVertices,
+    { lat: lot.geoLat, lng: lot.geoLng },
+    lot.geoRotation,
+    pixelsPerFoot,
+    canvasCenter
+  );
+}
+
+/**
+ * Setback (buildable) boundary for a lot, using the default 4 ft side/rear setbacks when unset
+ */
+export function getSetbackBoundaryPixels(lot: Lot, lotBoundary: Point[], pixelsPerFoot: number): Point[] {
+  if (lotBoundary.length < 3) return [];
+
+  return calculateSetbackBoundary(
+    lotBoundary,
+    {
+      front: lot.setbackFrontFeet ?? 0,
+      back: lot.setbackBackFeet ?? 4,
+      left: lot.setbackLeftFeet ?? 4,
+      right: lot.setbackRightFeet ?? 4,
+    },
+    pixelsPerFoot
+  );
+}
+
+/**
+ * Convert a point from ADU-local canvas coordinates to lot (world) canvas coordinates
+ */
+export function aduLocalToWorld(point: Point, transform: ADUTransform): Point {
+  const { canvasCenter, rotation, offsetX, offsetY, pixelsPerFoot } = transform;
+  const angleRad = (rotation * Math.PI) / 180;
+  const cos = Math.cos(angleRad);
+  const sin = Math.sin(angleRad);
+  const tx = point.x - canvasCenter.x;
+  const ty = point.y - canvasCenter.y;
+  return {
+    x: tx * cos - ty * sin + canvasCenter.x + offsetX * pixelsPerFoot,
+    y: tx * sin + ty * cos + canvasCenter.y + offsetY * pixelsPerFoot,
+  };
+}
+
+/**
+ * Convert a point from lot (world) canvas coordinates to ADU-local canvas coordinates
+ */
+export function worldToAduLocal(point: Point, transform: ADUTransform): Point {
+  const { canvasCenter, rotation, offsetX, offsetY, pixelsPerFoot } = transform;
+  const angleRad = (-rotation * Math.PI) / 180;
+  const cos = Math.cos(angleRad);
+  const sin = Math.sin(angleRad);
+  const tx = point.x - canvasCenter.x - offsetX * pixelsPerFoot;
+  const ty = point.y - canvasCenter.y - offsetY * pixelsPerFoot;
+  return {
+    x: tx * cos - ty * sin + canvasCenter.x,
+    y: tx * sin + ty * cos + canvasCenter.y,
+  };
+}
+
+function closestPointOnSegment(point: Point, a: Point, b: Point): Point {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return a;
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+  return { x: a.x + t * dx, y: a.y + t * dy };
+}
+
+function segmentsCross(a: Point, b: Point, c: Point, d: Point): boolean {
+  const cross = (p: Point, q: Point, r: Point) => (q.x - p.x) * (r.y - p.y) - (q.y - p.y) * (r.x - p.x);
+  const d1 = cross(c, d, a);
+  const d2 = cross(c, d, b);
+  const d3 = cross(a, b, c);
+  const d4 = cross(a, b, d);
+  return ((d1 > 0 && d2 < 0) || (d1 < 0 && d2 > 0)) && ((d3 > 0 && d4 < 0) || (d3 < 0 && d4 > 0));
+}
+
+/**
+ * Shortest distance between two polygons and the closest pair of points.
+ * Overlapping polygons (crossing edges or one inside the other) have distance 0.
+ */
+export function polygonDistance(a: Point[], b: Point[]): { distance: number; pointA: Point; pointB: Point; overlaps: boolean } {
+  let best = { distance: Infinity, pointA: a[0], pointB: b[0] };
+
+  const measure = (from: Point[], to: Point[], swap: boolean) => {
+    for (const p of from) {
+      for (let i = 0; i < to.length; i++) {
+        const q = closestPointOnSegment(p, to[i], to[(i + 1) % to.length]);
+        const distance = Math.hypot(p.x - q.x, p.y - q.y);
+        if (distance < best.distance) {
+          best = swap ? { distance, pointA: q, pointB: p } : { distance, pointA: p, pointB: q };
+        }
+      }
+    }
+  };
+  measure(a, b, false);
+  measure(b, a, true);
+
+  let overlaps = isPointInPolygon(a[0], b, 0) || isPointInPolygon(b[0], a, 0);
+  for (let i = 0; i < a.length && !overlaps; i++) {
+    for (let j = 0; j < b.length && !overlaps; j++) {
+      overlaps = segmentsCross(a[i], a[(i + 1) % a.length], b[j], b[(j + 1) % b.length]);
+    }
+  }
+
+  return { ...best, distance: overlaps ? 0 : best.distance, overlaps };
+}
+
+/**
+ * Check the placed ADU (boundary in lot/world pixels) against the setback boundary
+ * and the required separation from every existing structure on the lot
+ */
+export function checkAduFit(
+  aduWorldBoundary: Point[],
+  setbackBoundary: Point[],
+  structures: ExistingStructure[],
+  pixelsPerFoot: number,
+  canvasCenter: Point
+): AduFitResult {
+  if (aduWorldBoundary.length < 3) {
+    return { fits: true, withinSetbacks: true, overlapArea: 0, separations: [] };
+  }
+
+  let withinSetbacks = true;
+  let overlapArea = 0;
+
+  if (setbackBoundary.length >= 3) {
+    // Find bounding boxes
+    let aduMinX = Infinity, aduMaxX = -Infinity;
+    let aduMinY = Infinity, aduMaxY = -Infinity;
+    let setbackMinX = Infinity, setbackMaxX = -Infinity;
+    let setbackMinY = Infinity, setbackMaxY = -Infinity;
+
+    for (const p of aduWorldBoundary) {
+      if (p.x < aduMinX) aduMinX = p.x;
+      if (p.x > aduMaxX) aduMaxX = p.x;
+      if (p.y < aduMinY) aduMinY = p.y;
+      if (p.y > aduMaxY) aduMaxY = p.y;
+    }
+
+    for (const p of setbackBoundary) {
+      if (p.x < setbackMinX) setbackMinX = p.x;
+      if (p.x > setbackMaxX) setbackMaxX = p.x;
+      if (p.y < setbackMinY) setbackMinY = p.y;
+      if (p.y > setbackMaxY) setbackMaxY = p.y;
+    }
+
+    // Check if ADU is fully inside setback boundary
+    withinSetbacks = aduMinX >= setbackMinX &&
+                     aduMaxX <= setbackMaxX &&
+                     aduMinY >= setbackMinY &&
+                     aduMaxY <= setbackMaxY;
+
+    // Calculate overlap area (simplified)
+    const overlapX = Math.max(0, Math.min(aduMaxX, setbackMaxX) - Math.max(aduMinX, setbackMinX));
+    const overlapY = Math.max(0, Math.min(aduMaxY, setbackMaxY) - Math.max(aduMinY, setbackMinY));
+    overlapArea = withinSetbacks ? 0 : Math.max(0, (aduMaxX - aduMinX) * (aduMaxY - aduMinY) - overlapX * overlapY);
+  }
+
+  const separations: StructureSeparation[] = structures
+    .filter(s => s.vertices.length >= 3)
+    .map(structure => {
+      const footprint = structureToPixels(structure, pixelsPerFoot, canvasCenter);
+      const { distance, pointA, pointB, overlaps } = polygonDistance(aduWorldBoundary, footprint);
+      const distanceFeet = distance / pixelsPerFoot;
+      const requiredFeet = STRUCTURE_CONFIGS[structure.type].minSeparationFeet;
+      return {
+        structureId: structure.id,
+        distanceFeet,
+        requiredFeet,
+        overlaps,
+        violated: overlaps || distanceFeet < requiredFeet,
+        aduPoint: pointA,
+        structurePoint: pointB,
+      };
+    });
+
+  return {
+    fits: withinSetbacks && separations.every(s => !s.violated),
+    withinSetbacks,
+    overlapArea,
+    separations,
+  };
+}
@@ -1,21 +1,43 @@
 "use client";
 
 import React, { useMemo, useEffect, useState, useRef } from "react";
-import { Line, Group, Text, Rect, Image as KonvaImage } from "react-konva";
+import type Konva from "konva";
+import { Line, Group, Text, Rect, Circle, Image as KonvaImage } from "react-konva";
 import type { Point } from "@/lib/types";
-import type { GeoVertex, Lot } from "@/lib/api/client";
+import type { ExistingStructure, Lot } from "@/lib/api/client";
 import type { CanvasConfig } from "../types";
+import { getLotBoundaryPixels, getSetbackBoundaryPixels, aduLocalToWorld, checkAduFit } from "./lot-geometry";
+import type { ADUTransform, StructureSeparation } from "./lot-geometry";
+import {
+  STRUCTURE_CONFIGS,
+  getStructureLabel,
+  structureToPixels,
+  pixelsToStructureFeet,
+} from "./existing-structures";
+import type { AduPlacementCandidate } from "./auto-placement";
 
 interface LotOverlayProps {
   config: CanvasConfig;
   lot: Lot;
   aduBoundary: Point[];
+  aduTransform?: ADUTransform;
   canvasCenter: Point;
   visible: boolean;
   showSatellite?: boolean;
   showLotBoundary?: boolean;
+  // Existing structures can be moved and reshaped on the canvas while editing
+  editStructures?: boolean;
+  selectedStructureId?: string | null;
+  onSelectStructure?: (id: string | null) => void;
+  onStructureChange?: (id: string, vertices: Point[]) => void;
+  // Auto-fit results drawn as ghost outlines; the active one is previewed in full
+  placementCandidates?: AduPlacementCandidate[];
+  activeCandidateIndex?: number | null;
 }
 
+const VIOLATION_COLOR = "#dc2626";
+const CANDIDATE_COLOR = "#16a34a";
+
 // ESRI World Imagery tile server
 const SATELLITE_TILE_URL = "https://server.arcgisonline.com/ArcGIS/rest/services/World_Imagery/MapServer/tile";
 
@@ -59,167 +81,6 @@ function getMetersPerPixel(lat: number, zoom: number): number {
   return metersPerPixel;
 }
 
-/**
- * Convert lot boundary from geo coordinates to canvas pixels
- *
- * This uses a simplified conversion that assumes:
- * 1. The lot is small enough that Earth curvature is negligible
- * 2. We're using the lot center as the reference point
- *
- * The conversion uses the Haversine-derived feet-per-degree approximations:
- * - 1 degree latitude ≈ 364,000 feet (varies slightly by latitude)
- * - 1 degree longitude ≈ 364,000 * cos(latitude) feet
- *
- * NOTE: The lot boundary stays FIXED at canvas center.
- * The ADU position offset is applied to the ADU rendering, not the lot.
- */
-function geoToCanvasPixels(
-  geoVertices: GeoVertex[],
-  lotCenter: { lat: number; lng: number },
-  lotRotation: number,
-  pixelsPerFoot: number,
-  canvasCenter: Point
-): Point[] {
-  // Approximate feet per degree at this latitude
-  const feetPerDegreeLat = 364000;
-  const feetPerDegreeLng = 364000 * Math.cos((lotCenter.lat * Math.PI) / 180);
-
-  // Convert lot rotation to radians
-  const lotRotRad = (lotRotation * Math.PI) / 180;
-
-  return geoVertices.map((vertex) => {
-    // Convert geo offset from lot center to feet
-    const deltaLat = vertex.lat - lotCenter.lat;
-    const deltaLng = vertex.lng - lotCenter.lng;
-
-    let feetX = deltaLng * feetPerDegreeLng;
-    let feetY = -deltaLat * feetPerDegreeLat; // Negative because canvas Y increases downward
-
-    // Apply lot rotation around lot center
-    if (lotRotation !== 0) {
-      const cos = Math.cos(lotRotRad);
-      const sin = Math.sin(lotRotRad);
-      const rotatedX = feetX * cos - feetY * sin;
-      const rotatedY = feetX * sin + feetY * cos;
-      feetX = rotatedX;
-      feetY = rotatedY;
-    }
-
-    // Convert feet to pixels - lot is centered on canvas
-    const pixelX = canvasCenter.x + feetX * pixelsPerFoot;
-    const pixelY = canvasCenter.y + feetY * pixelsPerFoot;
-
-    return { x: pixelX, y: pixelY };
-  });
-}
-
-/**
- * Calculate setback boundary (inset polygon)
- * This creates a simplified rectangular setback area
- *
- * Canvas coordinates: Y increases downward
- * - minY = top of lot (back/rear)
- * - maxY = bottom of lot (front/street-facing)
- */
-function calculateSetbackBoundary(
-  lotBoundary: Point[],
-  setbacks: {
-    front: number;
-    back: number;
-    left: number;
-    right: number;
-  },
-  pixelsPerFoot: number
-): Point[] {
-  if (lotBoundary.length < 3) return [];
-
-  // Find bounding box of lot
-  let minX = Infinity, maxX = -Infinity;
-  let minY = Infinity, maxY = -Infinity;
-
-  for (const p of lotBoundary) {
-    if (p.x < minX) minX = p.x;
-    if (p.x > maxX) maxX = p.x;
-    if (p.y < minY) minY = p.y;
-    if (p.y > maxY) maxY = p.y;
-  }
-
-  // Check for valid bounding box
-  if (!isFinite(minX) || !isFinite(maxX) || !isFinite(minY) || !isFinite(maxY)) {
-    return [];
-  }
-
-  // Apply setbacks (convert feet to pixels)
-  const frontPx = (setbacks.front || 0) * pixelsPerFoot;
-  const backPx = (setbacks.back || 0) * pixelsPerFoot;
-  const leftPx = (setbacks.left || 0) * pixelsPerFoot;
-  const rightPx = (setbacks.right || 0) * pixelsPerFoot;
-
-  // Create inset rectangle
-  // In canvas coords: minY is top (back), maxY is bottom (front/street)
-  const insetMinX = minX + leftPx;
-  const insetMaxX = maxX - rightPx;
-  const insetMinY = minY + backPx;   // Back setback from top
-  const insetMaxY = maxY - frontPx;  // Front setback from bottom
-
-  // Ensure valid rectangle (setbacks don't exceed lot size)
-  if (insetMinX >= insetMaxX || insetMinY >= insetMaxY) {
-    return [];
-  }
-
-  return [
-    { x: insetMinX, y: insetMinY },  // top-left
-    { x: insetMaxX, y: insetMinY },  // top-right
-    { x: insetMaxX, y: insetMaxY },  // bottom-right
-    { x: insetMinX, y: insetMaxY },  // bottom-left
-  ];
-}
-
-/**
- * Check if ADU fits within setback boundary
- */
-function checkAduFit(
-  aduBoundary: Point[],
-  setbackBoundary: Point[]
-): { fits: boolean; overlapArea: number } {
-  if (aduBoundary.length < 3 || setbackBoundary.length < 3) {
-    return { fits: true, overlapArea: 0 };
-  }
-
-  // Find bounding boxes
-  let aduMinX = Infinity, aduMaxX = -Infinity;
-  let aduMinY = Infinity, aduMaxY = -Infinity;
-  let setbackMinX = Infinity, setbackMaxX = -Infinity;
-  let setbackMinY = Infinity, setbackMaxY = -Infinity;
-
-  for (const p of aduBoundary) {
-    if (p.x < aduMinX) aduMinX = p.x;
-    if (p.x > aduMaxX) aduMaxX = p.x;
-    if (p.y < aduMinY) aduMinY = p.y;
-    if (p.y > aduMaxY) aduMaxY = p.y;
-  }
-
-  for (const p of setbackBoundary) {
-    if (p.x < setbackMinX) setbackMinX = p.x;
-    if (p.x > setbackMaxX) setbackMaxX = p.x;
-    if (p.y < setbackMinY) setbackMinY = p.y;
-    if (p.y > setbackMaxY) setbackMaxY = p.y;
-  }
-
-  // Check if ADU is fully inside setback boundary
-  const fits = aduMinX >= setbackMinX &&
-               aduMaxX <= setbackMaxX &&
-               aduMinY >= setbackMinY &&
-               aduMaxY <= setbackMaxY;
-
-  // Calculate overlap area (simplified)
-  const overlapX = Math.max(0, Math.min(aduMaxX, setbackMaxX) - Math.max(aduMinX, setbackMinX));
-  const overlapY = Math.max(0, Math.min(aduMaxY, setbackMaxY) - Math.max(aduMinY, setbackMinY));
-  const overlapArea = fits ? 0 : Math.max(0, (aduMaxX - aduMinX) * (aduMaxY - aduMinY) - overlapX * overlapY);
-
-  return { fits, overlapArea };
-}
-
 /**
  * Component to load and render satellite tiles
  */
@@ -382,66 +243,252 @@ function SatelliteTileLayer({
   );
 }
 
+/**
+ * Footprint of an existing structure, with draggable vertices when selected for editing
+ */
+function ExistingStructureShape({
+  structure,
+  pixelsPerFoot,
+  canvasCenter,
+  editable,
+  selected,
+  violated,
+  onSelect,
+  onChange,
+}: {
+  structure: ExistingStructure;
+  pixelsPerFoot: number;
+  canvasCenter: Point;
+  editable: boolean;
+  selected: boolean;
+  violated: boolean;
+  onSelect?: (id: string) => void;
+  onChange?: (id: string, vertices: Point[]) => void;
+}) {
+  // Vertices being dragged (pixels) - committed on drag end
+  const [draft, setDraft] = useState<Point[] | null>(null);
+  const [isMoving, setIsMoving] = useState(false);
+  const styleConfig = STRUCTURE_CONFIGS[structure.type];
+
+  const points = draft ?? structureToPixels(structure, pixelsPerFoot, canvasCenter);
+  if (points.length < 3) return null;
+
+  const labelPosition = {
+    x: points.reduce((sum, p) => sum + p.x, 0) / points.length,
+    y: points.reduce((sum, p) => sum + p.y, 0) / points.length,
+  };
+
+  const commit = (pixels: Point[]) => {
+    onChange?.(structure.id, pixelsToStructureFeet(pixels, pixelsPerFoot, canvasCenter));
+  };
+
+  const setCursor = (e: Konva.KonvaEventObject<MouseEvent>, cursor: string) => {
+    const container = e.target.getStage()?.container();
+    if (container) container.style.cursor = cursor;
+  };
+
+  return (
+    <>
+      <Group
+        draggable={editable && selected}
+        listening={editable}
+        onClick={() => onSelect?.(structure.id)}
+        onTap={() => onSelect?.(structure.id)}
+        onDragStart={() => setIsMoving(true)}
+        onDragEnd={(e) => {
+          const dx = e.target.x();
+          const dy = e.target.y();
+          e.target.position({ x: 0, y: 0 });
+          setIsMoving(false);
+          commit(points.map(p => ({ x: p.x + dx, y: p.y + dy })));
+        }}
+        onMouseEnter={(e) => setCursor(e, selected ? "move" : "pointer")}
+        onMouseLeave={(e) => setCursor(e, "default")}
+      >
+        <Line
+          points={points.flatMap(p => [p.x, p.y])}
+          closed
+          fill={styleConfig.fill}
+          stroke={violated ? VIOLATION_COLOR : styleConfig.stroke}
+          strokeWidth={selected ? 2.5 : violated ? 2 : 1.5}
+          dash={structure.type === "tree" ? [4, 4] : undefined}
+        />
+        <Text
+          x={labelPosition.x - 60}
+          y={labelPosition.y - 6}
+          width={120}
+          align="center"
+          text={getStructureLabel(structure).toUpperCase()}
+          fontSize={10}
+          fontStyle="bold"
+          fill={violated ? VIOLATION_COLOR : styleConfig.stroke}
+          listening={false}
+        />
+      </Group>
+
+      {/* Vertex handles */}
+      {editable && selected && !isMoving && points.map((p, index) => (
+        <Circle
+          key={index}
+          x={p.x}
+          y={p.y}
+          radius={5}
+          fill="#ffffff"
+          stroke={styleConfig.stroke}
+          strokeWidth={2}
+          draggable
+          onDragMove={(e) => {
+            const next = [...points];
+            next[index] = { x: e.target.x(), y: e.target.y() };
+            setDraft(next);
+          }}
+          onDragEnd={(e) => {
+            const next = [...points];
+            next[index] = { x: e.target.x(), y: e.target.y() };
+            setDraft(null);
+            commit(next);
+          }}
+          onMouseEnter={(e) => setCursor(e, "crosshair")}
+          onMouseLeave={(e) => setCursor(e, "default")}
+        />
+      ))}
+    </>
+  );
+}
+
+/**
+ * Dimension line between the ADU and a structure it is too close to
+ */
+function SeparationMarker({ separation, label }: { separation: StructureSeparation; label: string }) {
+  const { aduPoint, structurePoint, distanceFeet, requiredFeet, overlaps } = separation;
+  const midX = (aduPoint.x + structurePoint.x) / 2;
+  const midY = (aduPoint.y + structurePoint.y) / 2;
+  const text = overlaps
+    ? `Overlaps ${label}`
+    : `${distanceFeet.toFixed(1)}' (min ${requiredFeet}')`;
+
+  return (
+    <Group listening={false}>
+      {!overlaps && (
+        <Line
+          points={[aduPoint.x, aduPoint.y, structurePoint.x, structurePoint.y]}
+          stroke={VIOLATION_COLOR}
+          strokeWidth={1.5}
+          dash={[4, 3]}
+        />
+      )}
+      <Rect
+        x={midX - 50}
+        y={midY - 9}
+        width={100}
+        height={18}
+        fill="rgba(220, 38, 38, 0.9)"
+        cornerRadius={3}
+      />
+      <Text
+        x={midX - 50}
+        y={midY - 4}
+        width={100}
+        align="center"
+        text={text}
+        fontSize={10}
+        fontStyle="bold"
+        fill="#ffffff"
+      />
+    </Group>
+  );
+}
+
+/**
+ * Outline of a suggested ADU placement with its rank at the center
+ */
+function PlacementCandidateOutline({
+  candidate,
+  rank,
+  active,
+}: {
+  candidate: AduPlacementCandidate;
+  rank: number;
+  active: boolean;
+}) {
+  const { boundary } = candidate;
+  const centerX = boundary.reduce((sum, p) => sum + p.x, 0) / boundary.length;
+  const centerY = boundary.reduce((sum, p) => sum + p.y, 0) / boundary.length;
+
+  return (
+    <Group listening={false} opacity={active ? 1 : 0.45}>
+      <Line
+        points={boundary.flatMap(p => [p.x, p.y])}
+        closed
+        stroke={CANDIDATE_COLOR}
+        strokeWidth={active ? 3 : 1.5}
+        dash={active ? undefined : [6, 4]}
+        fill={active ? "rgba(22, 163, 74, 0.12)" : undefined}
+      />
+      <Circle x={centerX} y={centerY} radius={11} fill={CANDIDATE_COLOR} />
+      <Text
+        x={centerX - 11}
+        y={centerY - 6}
+        width={22}
+        align="center"
+        text={`${rank}`}
+        fontSize={12}
+        fontStyle="bold"
+        fill="#ffffff"
+      />
+    </Group>
+  );
+}
+
 export function LotOverlay({
   config,
   lot,
   aduBoundary,
+  aduTransform,
   canvasCenter,
   visible,
   showSatellite = false,
   showLotBoundary = true,
+  editStructures = false,
+  selectedStructureId = null,
+  onSelectStructure,
+  onStructureChange,
+  placementCandidates = [],
+  activeCandidateIndex = null,
 }: LotOverlayProps) {
   const { pixelsPerFoot } = config;
+  const structures = useMemo(() => lot.existingStructures ?? [], [lot.existingStructures]);
 
   // Convert lot boundary to canvas pixels (LOT STAYS FIXED at canvas center)
-  const lotBoundaryPixels = useMemo(() => {
-    if (!lot.boundaryVertices || lot.boundaryVertices.length < 3) {
-      // If no boundary vertices, create a rectangle from dimensions
-      if (lot.lotWidthFeet && lot.lotDepthFeet) {
-        const halfWidth = (lot.lotWidthFeet / 2) * pixelsPerFoot;
-        const halfDepth = (lot.lotDepthFeet / 2) * pixelsPerFoot;
-
-        // Lot is centered on canvas (no offset applied here)
-        return [
-          { x: canvasCenter.x - halfWidth, y: canvasCenter.y - halfDepth },
-          { x: canvasCenter.x + halfWidth, y: canvasCenter.y - halfDepth },
-          { x: canvasCenter.x + halfWidth, y: canvasCenter.y + halfDepth },
-          { x: canvasCenter.x - halfWidth, y: canvasCenter.y + halfDepth },
-        ];
-      }
-      return [];
-    }
+  const lotBoundaryPixels = useMemo(
+    () => getLotBoundaryPixels(lot, pixelsPerFoot, canvasCenter),
+    [lot, pixelsPerFoot, canvasCenter]
+  );
 
-    return geoToCanvasPixels(
-      lot.boundaryVertices,
-      { lat: lot.geoLat, lng: lot.geoLng },
-      lot.geoRotation,
+  // Calculate setback boundary
+  const setbackBoundaryPixels = useMemo(
+    () => getSetbackBoundaryPixels(lot, lotBoundaryPixels, pixelsPerFoot),
+    [lot, lotBoundaryPixels, pixelsPerFoot]
+  );
+
+  // ADU boundary placed on the lot (offset and rotated like the ADU content group)
+  const aduWorldBoundary = useMemo(() => {
+    const transform = aduTransform ?? {
+      offsetX: lot.aduOffsetX ?? 0,
+      offsetY: lot.aduOffsetY ?? 0,
+      rotation: lot.aduRotation ?? 0,
+      canvasCenter,
       pixelsPerFoot,
-      canvasCenter
-    );
-  }, [lot.boundaryVertices, lot.geoLat, lot.geoLng, lot.geoRotation, pixelsPerFoot, canvasCenter]);
+    };
+    return aduBoundary.map(p => aduLocalToWorld(p, transform));
+  }, [aduBoundary, aduTransform, lot.aduOffsetX, lot.aduOffsetY, lot.aduRotation, canvasCenter, pixelsPerFoot]);
 
-  // Calculate setback boundary
-  const setbackBoundaryPixels = useMemo(() => {
-    if (lotBoundaryPixels.length < 3) return [];
-
-    return calculateSetbackBoundary(
-      lotBoundaryPixels,
-      {
-        front: lot.setbackFrontFeet ?? 0,
-        back: lot.setbackBackFeet ?? 4,
-        left: lot.setbackLeftFeet ?? 4,
-        right: lot.setbackRightFeet ?? 4,
-      },
-      pixelsPerFoot
-    );
-  }, [lotBoundaryPixels, lot.setbackFrontFeet, lot.setbackBackFeet, lot.setbackLeftFeet, lot.setbackRightFeet, pixelsPerFoot]);
-
-  // Check if ADU fits
-  const { fits: aduFits } = useMemo(() => {
-    return checkAduFit(aduBoundary, setbackBoundaryPixels);
-  }, [aduBoundary, setbackBoundaryPixels]);
+  // Check if ADU fits (setbacks and separation from existing structures)
+  const { fits: aduFits, separations } = useMemo(() => {
+    return checkAduFit(aduWorldBoundary, setbackBoundaryPixels, structures, pixelsPerFoot, canvasCenter);
+  }, [aduWorldBoundary, setbackBoundaryPixels, structures, pixelsPerFoot, canvasCenter]);
 
+  const violations = separations.filter(s => s.violated);
   // Calculate lot dimensions label position
   const lotLabelPosition = useMemo(() => {
     if (lotBoundaryPixels.length < 1) return { x: 0, y: 0 };
@@ -519,6 +566,58 @@ export function LotOverlay({
       )}
 
 
+      {/* Existing structures on the lot */}
+      {structures.map(structure => (
+        <ExistingStructureShape
+          key={structure.id}
+          structure={structure}
+          pixelsPerFoot={pixelsPerFoot}
+          canvasCenter={canvasCenter}
+          editable={editStructures}
+          selected={structure.id === selectedStructureId}
+          violated={violations.some(v => v.structureId === structure.id)}
+          onSelect={onSelectStructure}
+          onChange={onStructureChange}
+        />
+      ))}
+
+      {/* ADU placement that breaks a setback or separation requirement */}
+      {!aduFits && aduWorldBoundary.length >= 3 && (
+        <Line
+          points={aduWorldBoundary.flatMap(p => [p.x, p.y])}
+          closed
+          stroke={VIOLATION_COLOR}
+          strokeWidth={3}
+          dash={[10, 6]}
+          fill="rgba(220, 38, 38, 0.06)"
+          listening={false}
+        />
+      )}
+
+      {/* Auto-fit suggestions (active one drawn last so it sits on top) */}
+      {placementCandidates
+        .map((candidate, index) => ({ candidate, index }))
+        .sort((a, b) => Number(a.index === activeCandidateIndex) - Number(b.index === activeCandidateIndex))
+        .map(({ candidate, index }) => (
+          <PlacementCandidateOutline
+            key={index}
+            candidate={candidate}
+            rank={index + 1}
+            active={index === activeCandidateIndex}
+          />
+        ))}
+
+      {violations.map(violation => {
+        const structure = structures.find(s => s.id === violation.structureId);
+        return structure ? (
+          <SeparationMarker
+            key={violation.structureId}
+            separation={violation}
+            label={getStructureLabel(structure)}
+          />
+        ) : null;
+      })}
+
       {/* Lot dimensions */}
       {lot.lotWidthFeet && lot.lotDepthFeet && (
         <Text
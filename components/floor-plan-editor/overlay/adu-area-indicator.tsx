@@ -2,14 +2,29 @@
 
 import React from "react";
 import type { Point } from "@/lib/types";
+import { ADU_LIMITS } from "@/lib/constants";
+import { cn } from "@/lib/utils";
 import type { CanvasConfig } from "../types";
 
 interface ADUAreaIndicatorProps {
   config: CanvasConfig;
   boundary: Point[];
+  // Room area on the levels other than the ground level - the ADU size counts every floor
+  otherLevelsArea?: number;
+  // Size limits from the active zoning profile
+  minArea?: number;
+  maxArea?: number;
+  profileName?: string;
 }
 
-export function ADUAreaIndicator({ config, boundary }: ADUAreaIndicatorProps) {
+export function ADUAreaIndicator({
+  config,
+  boundary,
+  otherLevelsArea = 0,
+  minArea = ADU_LIMITS.MIN_AREA,
+  maxArea = ADU_LIMITS.MAX_AREA,
+  profileName,
+}: ADUAreaIndicatorProps) {
   const { pixelsPerFoot } = config;
 
   // Calculate area using shoelace formula
@@ -27,7 +42,9 @@ export function ADUAreaIndicator({ config, boundary }: ADUAreaIndicatorProps) {
     return area / (pixelsPerFoot * pixelsPerFoot);
   };
 
-  const aduArea = Math.round(calculateArea(boundary));
+  const footprintArea = Math.round(calculateArea(boundary));
+  const aduArea = footprintArea + Math.round(otherLevelsArea);
+  const withinLimits = aduArea >= minArea && aduArea <= maxArea;
 
   return (
     <div className="absolute top-4 left-4 z-10 bg-white/90 backdrop-blur-sm px-3 py-2 rounded-lg shadow-md border border-gray-200">
@@ -37,6 +54,14 @@ export function ADUAreaIndicator({ config, boundary }: ADUAreaIndicatorProps) {
           ADU Area: <span className="text-red-600">{aduArea}</span> sq ft
         </span>
       </div>
+      <div className={cn("text-[10px] mt-0.5", withinLimits ? "text-gray-500" : "text-red-600 font-medium")}>
+        {withinLimits ? "" : "⚠ "}Allowed {minArea}–{maxArea} sq ft{profileName && ` · ${profileName}`}
+      </div>
+      {otherLevelsArea > 0 && (
+        <div className="text-[10px] text-gray-500">
+          {footprintArea} sq ft footprint + {Math.round(otherLevelsArea)} sq ft on other levels
+        </div>
+      )}
     </div>
   );
 }
@@ -2,10 +2,21 @@
 
 import React from "react";
 
-export function Compass() {
+interface CompassProps {
+  // True north, degrees clockwise from canvas up (the lot's geoRotation)
+  northRotation?: number;
+}
+
+export function Compass({ northRotation = 0 }: CompassProps) {
   return (
     <div className="absolute top-4 right-4 z-10 bg-white/90 backdrop-blur-sm p-2 rounded-lg shadow-md border border-gray-200">
-      <svg width="40" height="40" viewBox="0 0 40 40" className="text-gray-600">
+      <svg
+        width="40"
+        height="40"
+        viewBox="0 0 40 40"
+        className="text-gray-600"
+        style={northRotation ? { transform: `rotate(${northRotation}deg)` } : undefined}
+      >
         {/* Compass circle */}
         <circle cx="20" cy="20" r="18" fill="none" stroke="currentColor" strokeWidth="1.5" />
 
@@ -21,7 +21,7 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { History, Clock, Save, Trash2, RotateCcw } from "lucide-react";
+import { History, Clock, Save, Trash2, RotateCcw, GitCompare } from "lucide-react";
 import type { EditorSnapshot } from "../hooks/use-version-history";
 
 interface RestoreDropdownProps {
@@ -30,6 +30,7 @@ interface RestoreDropdownProps {
   onRestore: (snapshotId: string) => void;
   onSaveManual: (label?: string) => void;
   onDelete?: (snapshotId: string) => void;
+  onCompare?: () => void; // opens the version compare view
   formatTimestamp: (timestamp: string) => string;
   getTimeAgo: (timestamp: string) => string;
 }
@@ -40,6 +41,7 @@ export function RestoreDropdown({
   onRestore,
   onSaveManual,
   onDelete,
+  onCompare,
   formatTimestamp,
   getTimeAgo,
 }: RestoreDropdownProps) {
@@ -192,6 +194,15 @@ export function RestoreDropdown({
           </Tabs>
 
           <DropdownMenuSeparator />
+          {onCompare && (
+            <>
+              <DropdownMenuItem className="cursor-pointer gap-2 text-sm" onClick={onCompare}>
+                <GitCompare className="h-4 w-4" />
+                Compare versions...
+              </DropdownMenuItem>
+              <DropdownMenuSeparator />
+            </>
+          )}
           <div className="px-2 py-1.5 text-xs text-muted-foreground">
             Auto-saves are kept for 1 hour (every 10 min)
           </div>
@@ -0,0 +1,11 @@
+export { SessionReplayDialog } from "./session-replay-dialog";
+export { ReplayStage, replayBounds } from "./replay-stage";
+export type { ReplayBounds } from "./replay-stage";
+export {
+  applyReplayAction,
+  buildReplayFrames,
+  describeReplayAction,
+  pickStartingSnapshot,
+  EMPTY_REPLAY_PLAN,
+} from "./utils";
+export type { ReplayAction, ReplayFrame, ReplayPlan } from "./utils";
@@ -0,0 +1,134 @@
+"use client";
+
+import React from "react";
+import { Stage, Layer, Group, Line, Rect, Text } from "react-konva";
+import type { Point } from "@/lib/types";
+import type { ReplayPlan } from "./utils";
+
+export interface ReplayBounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+interface ReplayStageProps {
+  plan: ReplayPlan;
+  bounds: ReplayBounds;
+  width: number;
+  height: number;
+  pixelsPerFoot: number;
+  highlightId?: string; // entity touched by the current action
+}
+
+const HIGHLIGHT_COLOR = "#f59e0b";
+const PADDING = 24;
+
+/**
+ * Everything a set of plans covers, so the replay camera stays put while entities move
+ */
+export function replayBounds(plans: ReplayPlan[]): ReplayBounds | null {
+  const points: Point[] = plans.flatMap(plan => [
+    ...plan.aduBoundary,
+    ...plan.rooms.flatMap(r => r.vertices),
+    ...plan.doors.map(d => d.position),
+    ...plan.windows.map(w => w.position),
+    ...plan.furniture.map(f => f.position),
+  ]);
+  if (points.length === 0) return null;
+  return {
+    minX: Math.min(...points.map(p => p.x)),
+    minY: Math.min(...points.map(p => p.y)),
+    maxX: Math.max(...points.map(p => p.x)),
+    maxY: Math.max(...points.map(p => p.y)),
+  };
+}
+
+// Read-only plan view used by the session replay - no selection, dragging or panning
+export function ReplayStage({ plan, bounds, width, height, pixelsPerFoot, highlightId }: ReplayStageProps) {
+  const scale = Math.min(
+    (width - PADDING * 2) / Math.max(1, bounds.maxX - bounds.minX),
+    (height - PADDING * 2) / Math.max(1, bounds.maxY - bounds.minY)
+  );
+  const offsetX = (width - (bounds.maxX - bounds.minX) * scale) / 2 - bounds.minX * scale;
+  const offsetY = (height - (bounds.maxY - bounds.minY) * scale) / 2 - bounds.minY * scale;
+  const flat = (points: Point[]) => points.flatMap(p => [p.x, p.y]);
+  const hairline = 1 / scale;
+
+  return (
+    <Stage width={width} height={height} listening={false}>
+      <Layer listening={false}>
+        <Rect width={width} height={height} fill="#f8fafc" />
+        <Group x={offsetX} y={offsetY} scaleX={scale} scaleY={scale}>
+          {plan.aduBoundary.length >= 3 && (
+            <Line points={flat(plan.aduBoundary)} closed stroke="#94a3b8" strokeWidth={hairline * 1.5} dash={[8 / scale, 4 / scale]} />
+          )}
+
+          {plan.rooms.map((room) => {
+            const center = {
+              x: room.vertices.reduce((sum, v) => sum + v.x, 0) / room.vertices.length,
+              y: room.vertices.reduce((sum, v) => sum + v.y, 0) / room.vertices.length,
+            };
+            const isHighlighted = room.id === highlightId;
+            return (
+              <Group key={room.id}>
+                <Line
+                  points={flat(room.vertices)}
+                  closed
+                  fill={room.color}
+                  opacity={0.85}
+                  stroke={isHighlighted ? HIGHLIGHT_COLOR : "#334155"}
+                  strokeWidth={hairline * (isHighlighted ? 3 : 1.5)}
+                />
+                <Text
+                  x={center.x - 60 / scale}
+                  y={center.y - 6 / scale}
+                  width={120 / scale}
+                  text={`${room.name}\n${room.area} sq ft`}
+                  align="center"
+                  fontSize={10 / scale}
+                  fill="#1e293b"
+                />
+              </Group>
+            );
+          })}
+
+          {plan.furniture.map((item) => {
+            const isHighlighted = item.id === highlightId;
+            return (
+              <Rect
+                key={item.id}
+                x={item.position.x}
+                y={item.position.y}
+                width={item.width * pixelsPerFoot}
+                height={item.height * pixelsPerFoot}
+                offsetX={(item.width * pixelsPerFoot) / 2}
+                offsetY={(item.height * pixelsPerFoot) / 2}
+                rotation={item.rotation}
+                fill="white"
+                stroke={isHighlighted ? HIGHLIGHT_COLOR : "#64748b"}
+                strokeWidth={hairline * (isHighlighted ? 3 : 1)}
+              />
+            );
+          })}
+
+          {[...plan.doors, ...plan.windows].map((opening) => {
+            const isHighlighted = opening.id === highlightId;
+            const isWindow = "height" in opening;
+            const half = (opening.width * pixelsPerFoot) / 2;
+            return (
+              <Group key={opening.id} x={opening.position.x} y={opening.position.y} rotation={opening.rotation}>
+                <Line
+                  points={[-half, 0, half, 0]}
+                  stroke={isHighlighted ? HIGHLIGHT_COLOR : isWindow ? "#0ea5e9" : "#92400e"}
+                  strokeWidth={hairline * (isWindow ? 4 : 5)}
+                  lineCap="butt"
+                />
+              </Group>
+            );
+          })}
+        </Group>
+      </Layer>
+    </Stage>
+  );
+}
@@ -0,0 +1,202 @@
+"use client";
+
+import React, { useEffect, useMemo } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Slider } from "@/components/ui/slider";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { History, Loader2, Pause, Play, SkipBack, StepBack, StepForward } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { useSessionReplay, REPLAY_SPEEDS } from "../hooks/use-session-replay";
+import { ReplayStage, replayBounds } from "./replay-stage";
+import { describeReplayAction } from "./utils";
+import type { DesignAlternative } from "@/lib/alternatives";
+
+interface SessionReplayDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  projectId?: string;
+  pixelsPerFoot: number;
+  alternatives: DesignAlternative[];
+}
+
+const STAGE_WIDTH = 640;
+const STAGE_HEIGHT = 420;
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.floor(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, "0")}`;
+};
+
+export function SessionReplayDialog({ open, onOpenChange, projectId, pixelsPerFoot, alternatives }: SessionReplayDialogProps) {
+  const {
+    sessions,
+    session,
+    frames,
+    frame,
+    frameIndex,
+    startingPoint,
+    isLoading,
+    error,
+    isPlaying,
+    speed,
+    loadSessions,
+    loadSession,
+    play,
+    pause,
+    seek,
+    setSpeed,
+    close,
+  } = useSessionReplay(projectId, pixelsPerFoot, alternatives);
+
+  // Refresh the session list each time the dialog opens
+  useEffect(() => {
+    if (open) loadSessions();
+  }, [open, loadSessions]);
+
+  const bounds = useMemo(() => replayBounds(frames.map(f => f.plan)), [frames]);
+  const lastFrame = frames[frames.length - 1];
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next) close();
+    onOpenChange(next);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="sm:max-w-5xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="h-5 w-5" />
+            Session Replay
+          </DialogTitle>
+          <DialogDescription>
+            Play back an editing session action by action, starting from the last version saved before it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-1 md:grid-cols-[220px_1fr] gap-4">
+          {/* Sessions */}
+          <div className="space-y-1 max-h-[460px] overflow-y-auto pr-1">
+            {!projectId && (
+              <p className="text-xs text-muted-foreground">Save the project to record editing sessions.</p>
+            )}
+            {projectId && sessions.length === 0 && !isLoading && (
+              <p className="text-xs text-muted-foreground">No sessions recorded yet.</p>
+            )}
+            {sessions.map((s) => (
+              <button
+                key={s.id}
+                type="button"
+                onClick={() => loadSession(s.id)}
+                className={cn(
+                  "w-full text-left rounded-md border px-2 py-1.5 text-xs transition-colors hover:bg-muted/50",
+                  session?.id === s.id && "border-primary bg-primary/5"
+                )}
+              >
+                <p className="font-medium">{new Date(s.startedAt).toLocaleString()}</p>
+                <p className="text-muted-foreground">
+                  {s.actionCount} action{s.actionCount === 1 ? "" : "s"} · {s.status}
+                </p>
+              </button>
+            ))}
+          </div>
+
+          {/* Player */}
+          <div className="space-y-3">
+            <div
+              className="relative rounded-lg border overflow-hidden bg-muted/30 flex items-center justify-center"
+              style={{ height: STAGE_HEIGHT }}
+            >
+              {isLoading && <Loader2 className="h-6 w-6 animate-spin text-muted-foreground" />}
+              {!isLoading && error && <p className="text-sm text-destructive">{error}</p>}
+              {!isLoading && !error && !session && (
+                <p className="text-sm text-muted-foreground">Pick a session to replay</p>
+              )}
+              {!isLoading && session && frame && bounds && (
+                <ReplayStage
+                  plan={frame.plan}
+                  bounds={bounds}
+                  width={STAGE_WIDTH}
+                  height={STAGE_HEIGHT}
+                  pixelsPerFoot={pixelsPerFoot}
+                  highlightId={frame.action?.entityId}
+                />
+              )}
+              {!isLoading && session && !bounds && (
+                <p className="text-sm text-muted-foreground">Nothing to show for this session</p>
+              )}
+            </div>
+
+            {session && frames.length > 0 && (
+              <>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" size="sm" className="h-8 w-8 p-0" title="Back to start" onClick={() => seek(0)}>
+                    <SkipBack className="h-4 w-4" />
+                  </Button>
+                  <Button variant="outline" size="sm" className="h-8 w-8 p-0" title="Previous action" onClick={() => seek(frameIndex - 1)}>
+                    <StepBack className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    className="h-8 w-8 p-0"
+                    title={isPlaying ? "Pause" : "Play"}
+                    disabled={frames.length < 2}
+                    onClick={isPlaying ? pause : play}
+                  >
+                    {isPlaying ? <Pause className="h-4 w-4" /> : <Play className="h-4 w-4" />}
+                  </Button>
+                  <Button variant="outline" size="sm" className="h-8 w-8 p-0" title="Next action" onClick={() => seek(frameIndex + 1)}>
+                    <StepForward className="h-4 w-4" />
+                  </Button>
+                  <Slider
+                    className="flex-1 mx-2"
+                    min={0}
+                    max={Math.max(0, frames.length - 1)}
+                    step={1}
+                    value={[frameIndex]}
+                    onValueChange={([value]) => seek(value)}
+                  />
+                  <Select value={String(speed)} onValueChange={(v) => setSpeed(Number(v))}>
+                    <SelectTrigger className="h-8 w-20 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {REPLAY_SPEEDS.map((s) => (
+                        <SelectItem key={s} value={String(s)} className="text-xs">{s}×</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="flex items-center justify-between gap-2 text-xs text-muted-foreground">
+                  <span className="flex items-center gap-2">
+                    <span className="font-medium text-foreground">
+                      {frame?.action ? describeReplayAction(frame.action) : startingPoint ?? "Empty plan"}
+                    </span>
+                    {frame && !frame.applied && <Badge variant="outline" className="text-[10px]">Not enough data to replay</Badge>}
+                  </span>
+                  <span className="font-mono">
+                    {frameIndex} / {frames.length - 1} · {formatElapsed(frame?.at ?? 0)} / {formatElapsed(lastFrame?.at ?? 0)}
+                  </span>
+                </div>
+                {!startingPoint && (
+                  <p className="text-[10px] text-muted-foreground">
+                    No version was saved before this session, so the replay starts from an empty plan.
+                  </p>
+                )}
+              </>
+            )}
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
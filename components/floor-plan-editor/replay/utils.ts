@@ -0,0 +1,262 @@
+import type { Room, Door, Window, Point, DoorType, WindowType, RoomType } from "@/lib/types";
+import type { SessionDetails } from "@/lib/api/client";
+import { DOOR_CONFIGS, ROOM_CONFIGS, WINDOW_CONFIGS } from "@/lib/constants";
+import { FURNITURE_CONFIG } from "../constants";
+import type { Furniture, FurnitureType } from "../types";
+
+export type ReplayAction = SessionDetails["actions"][number];
+
+export interface ReplayPlan {
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: Furniture[];
+  aduBoundary: Point[];
+}
+
+export interface ReplayFrame {
+  plan: ReplayPlan;
+  action?: ReplayAction; // the action that produced this frame (none for the starting plan)
+  applied: boolean; // false when the log did not carry enough state to redo the action
+  at: number; // ms since the first action
+}
+
+export const EMPTY_REPLAY_PLAN: ReplayPlan = { rooms: [], doors: [], windows: [], furniture: [], aduBoundary: [] };
+
+const ACTION_VERBS: Record<string, string> = {
+  create: "Added",
+  delete: "Deleted",
+  move: "Moved",
+  resize: "Resized",
+  rotate: "Rotated",
+};
+
+const isPoint = (value: unknown): value is Point =>
+  typeof value === "object" && value !== null &&
+  typeof (value as Point).x === "number" && typeof (value as Point).y === "number";
+
+const num = (value: unknown): number | undefined => (typeof value === "number" ? value : undefined);
+
+const translate = (vertices: Point[], dx: number, dy: number) => vertices.map(v => ({ x: v.x + dx, y: v.y + dy }));
+
+const pointsOf = (value: unknown): Point[] => (Array.isArray(value) ? value.filter(isPoint) : []);
+
+// Placement fields of a door, window or furniture logged with its full state
+function placedFields(state: Record<string, unknown>) {
+  return {
+    ...(isPoint(state.position) && { position: { x: state.position.x, y: state.position.y } }),
+    ...(num(state.rotation) !== undefined && { rotation: num(state.rotation) as number }),
+    ...(num(state.width) !== undefined && { width: num(state.width) as number }),
+    ...(num(state.height) !== undefined && { height: num(state.height) as number }),
+    ...(typeof state.wallId === "string" && { wallId: state.wallId }),
+    ...(typeof state.roomId === "string" && { roomId: state.roomId }),
+    ...(Array.isArray(state.roomIds) && { roomIds: state.roomIds.filter((id): id is string => typeof id === "string") }),
+  };
+}
+
+function polygonAreaSqFt(vertices: Point[], pixelsPerFoot: number): number {
+  let twice = 0;
+  vertices.forEach((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    twice += a.x * b.y - b.x * a.y;
+  });
+  return Math.round(Math.abs(twice) / 2 / (pixelsPerFoot * pixelsPerFoot));
+}
+
+/**
+ * Human-readable label for a logged action, e.g. "Moved room" or "Moved room corner"
+ */
+export function describeReplayAction(action: ReplayAction): string {
+  const parts = action.action.split(".");
+  const verb = parts[parts.length - 1];
+  const label = `${ACTION_VERBS[verb] ?? verb} ${action.entityType}`;
+  return parts.includes("vertex") ? `${label} corner` : label;
+}
+
+// Move, resize or rotate a positioned entity (door, window, furniture)
+function updatePlaced<T extends { id: string; position: Point; rotation: number }>(
+  items: T[],
+  action: ReplayAction,
+  verb: string
+): T[] | null {
+  const item = items.find(i => i.id === action.entityId);
+  const state = action.newState ?? {};
+  if (!item) return null;
+  // Newer logs carry the item's full state after the change
+  if (isPoint(state.position) && ["move", "rotate", "resize"].includes(verb)) {
+    return items.map(i => (i === item ? { ...i, ...placedFields(state) } : i));
+  }
+  switch (verb) {
+    case "move":
+      return isPoint(state) ? items.map(i => (i === item ? { ...i, position: { x: state.x, y: state.y } } : i)) : null;
+    case "rotate": {
+      const rotation = num(state.rotation) ?? action.rotation;
+      return rotation === undefined ? null : items.map(i => (i === item ? { ...i, rotation } : i));
+    }
+    case "resize": {
+      const width = num(state.width);
+      const height = num(state.height);
+      if (width === undefined && height === undefined) return null;
+      return items.map(i => (i === item ? { ...i, ...(width !== undefined && { width }), ...(height !== undefined && { height }) } : i));
+    }
+    default:
+      return null;
+  }
+}
+
+function applyRoomAction(rooms: Room[], action: ReplayAction, verb: string, pixelsPerFoot: number): Room[] | null {
+  const state = action.newState ?? {};
+  if (verb === "create") {
+    const vertices = pointsOf(state.vertices);
+    if (!action.entityId || vertices.length < 3 || rooms.some(r => r.id === action.entityId)) return null;
+    const type = (typeof state.type === "string" ? state.type : "other") as RoomType;
+    return [...rooms, {
+      id: action.entityId,
+      type,
+      name: typeof state.name === "string" ? state.name : ROOM_CONFIGS[type]?.label ?? "Room",
+      vertices,
+      area: num(state.area) ?? polygonAreaSqFt(vertices, pixelsPerFoot),
+      color: typeof state.color === "string" ? state.color : ROOM_CONFIGS[type]?.color ?? "#e5e7eb",
+      ...(typeof state.description === "string" && { description: state.description }),
+    }];
+  }
+
+  const room = rooms.find(r => r.id === action.entityId);
+  if (!room) return null;
+  const replace = (vertices: Point[]) =>
+    rooms.map(r => (r === room ? { ...r, vertices, area: polygonAreaSqFt(vertices, pixelsPerFoot) } : r));
+
+  if (action.action === "room.vertex.move") {
+    const index = num(state.vertexIndex);
+    if (index === undefined || !isPoint(state) || !room.vertices[index]) return null;
+    return replace(room.vertices.map((v, i) => (i === index ? { x: state.x, y: state.y } : v)));
+  }
+  if (verb === "rotate") {
+    // Rooms rotate by their corners, logged as the room's full state
+    const vertices = pointsOf(state.vertices);
+    return vertices.length >= 3 ? replace(vertices) : null;
+  }
+  if (verb === "move") {
+    // The logged position is the room's first corner
+    if (!isPoint(state)) return null;
+    return replace(translate(room.vertices, state.x - room.vertices[0].x, state.y - room.vertices[0].y));
+  }
+  if (verb === "resize") {
+    // Only rectangles can be resized; the log carries the new size and top-left corner
+    const width = num(state.width);
+    const height = num(state.height);
+    if (width === undefined || height === undefined) return null;
+    const x = action.positionX ?? room.vertices[0].x;
+    const y = action.positionY ?? room.vertices[0].y;
+    return replace([{ x, y }, { x: x + width, y }, { x: x + width, y: y + height }, { x, y: y + height }]);
+  }
+  return null;
+}
+
+/**
+ * Apply one logged action to a plan. Returns null when the action cannot be replayed
+ * (unknown entity, or a log entry without the state needed to redo it).
+ */
+export function applyReplayAction(plan: ReplayPlan, action: ReplayAction, pixelsPerFoot: number): ReplayPlan | null {
+  const verb = action.action.split(".").pop() ?? "";
+  const state = action.newState ?? {};
+
+  if (verb === "delete") {
+    const id = action.entityId;
+    switch (action.entityType) {
+      case "room": return plan.rooms.some(r => r.id === id) ? { ...plan, rooms: plan.rooms.filter(r => r.id !== id) } : null;
+      case "door": return plan.doors.some(d => d.id === id) ? { ...plan, doors: plan.doors.filter(d => d.id !== id) } : null;
+      case "window": return plan.windows.some(w => w.id === id) ? { ...plan, windows: plan.windows.filter(w => w.id !== id) } : null;
+      case "furniture": return plan.furniture.some(f => f.id === id) ? { ...plan, furniture: plan.furniture.filter(f => f.id !== id) } : null;
+      default: return null;
+    }
+  }
+
+  if (action.entityType === "room") {
+    const rooms = applyRoomAction(plan.rooms, action, verb, pixelsPerFoot);
+    return rooms && { ...plan, rooms };
+  }
+
+  if (verb === "create") {
+    if (!action.entityId || !isPoint(state.position) || typeof state.type !== "string") return null;
+    const base = { id: action.entityId, position: state.position, rotation: 0 };
+    const placed = placedFields(state);
+    switch (action.entityType) {
+      case "door": {
+        const config = DOOR_CONFIGS[state.type as DoorType];
+        return config ? { ...plan, doors: [...plan.doors, { ...base, type: state.type as DoorType, width: config.width, ...placed }] } : null;
+      }
+      case "window": {
+        const config = WINDOW_CONFIGS[state.type as WindowType];
+        return config
+          ? { ...plan, windows: [...plan.windows, { ...base, type: state.type as WindowType, width: config.width, height: config.height, ...placed }] }
+          : null;
+      }
+      case "furniture": {
+        const config = FURNITURE_CONFIG[state.type as FurnitureType];
+        return config
+          ? { ...plan, furniture: [...plan.furniture, { ...base, type: state.type as FurnitureType, width: config.width, height: config.height, ...placed }] }
+          : null;
+      }
+      default:
+        return null;
+    }
+  }
+
+  switch (action.entityType) {
+    case "door": {
+      const doors = updatePlaced(plan.doors, action, verb);
+      return doors && { ...plan, doors };
+    }
+    case "window": {
+      const windows = updatePlaced(plan.windows, action, verb);
+      return windows && { ...plan, windows };
+    }
+    case "furniture": {
+      const furniture = updatePlaced(plan.furniture, action, verb);
+      return furniture && { ...plan, furniture };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Rebuild the plan after every action of a session, starting from the plan saved before it.
+ * Frames share unchanged entities with the frame before, so long sessions stay cheap to hold.
+ */
+export function buildReplayFrames(start: ReplayPlan, actions: ReplayAction[], pixelsPerFoot: number): ReplayFrame[] {
+  const sorted = [...actions].sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt));
+  const origin = sorted.length > 0 ? Date.parse(sorted[0].createdAt) : 0;
+  const frames: ReplayFrame[] = [{ plan: start, applied: true, at: 0 }];
+  let plan = start;
+  for (const action of sorted) {
+    const next = applyReplayAction(plan, action, pixelsPerFoot);
+    if (next) plan = next;
+    frames.push({ plan, action, applied: next !== null, at: Date.parse(action.createdAt) - origin });
+  }
+  return frames;
+}
+
+/**
+ * Latest snapshot of the session's alternative saved at or before the session started, for the
+ * replay's starting plan. Snapshots without an alternative predate alternatives and only go with
+ * the project's first one (or a session whose alternative isn't known). Null when none match,
+ * so a session is never replayed on top of another alternative's plan.
+ */
+export function pickStartingSnapshot<
+  T extends { createdAt: string; blueprintId?: string; data: { alternativeId?: string } }
+>(
+  snapshots: T[],
+  startedAt: string,
+  session: { blueprintId?: string; alternativeId?: string; ownsUntagged: boolean }
+): T | null {
+  const start = Date.parse(startedAt);
+  const { blueprintId, alternativeId, ownsUntagged } = session;
+  const sameAlternative = (s: T) =>
+    s.data.alternativeId ? s.data.alternativeId === alternativeId : !alternativeId || ownsUntagged;
+  return snapshots
+    .filter(s => (!blueprintId || !s.blueprintId || s.blueprintId === blueprintId) && sameAlternative(s))
+    .filter(s => Date.parse(s.createdAt) <= start)
+    .sort((a, b) => Date.parse(b.createdAt) - Date.parse(a.createdAt))[0] ?? null;
+}
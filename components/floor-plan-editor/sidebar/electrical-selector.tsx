@@ -0,0 +1,153 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Plug, ToggleLeft, Lightbulb, Wifi, Server, RotateCw, Trash2, Sparkles } from "lucide-react";
+import type { LucideIcon } from "lucide-react";
+import { ELECTRICAL_CONFIGS } from "@/lib/constants";
+import type { ElectricalDevice, ElectricalDeviceType } from "@/lib/types";
+
+type ElectricalCategory = (typeof ELECTRICAL_CONFIGS)[ElectricalDeviceType]["category"];
+
+const CATEGORY_LABELS: Record<ElectricalCategory, { label: string; icon: LucideIcon }> = {
+  power: { label: "Receptacles", icon: Plug },
+  switch: { label: "Switches", icon: ToggleLeft },
+  light: { label: "Lighting", icon: Lightbulb },
+  smart: { label: "Smart Home & Safety", icon: Wifi },
+  panel: { label: "Panel", icon: Server },
+};
+
+interface ElectricalSelectorProps {
+  onDragStart: (e: React.DragEvent, type: "electrical", subType: ElectricalDeviceType) => void;
+  onDragEnd: () => void;
+  selectedDevice: ElectricalDevice | null;
+  lights: ElectricalDevice[]; // light fixtures on the active level
+  suggestionCount: number;
+  onAcceptSuggestions: () => void;
+  onRotateDevice: (id: string) => void;
+  onRemoveDevice: (id: string) => void;
+  onCircuitChange: (id: string, circuit: string) => void;
+  onToggleControl: (switchId: string, lightId: string) => void;
+}
+
+export function ElectricalSelector({
+  onDragStart,
+  onDragEnd,
+  selectedDevice,
+  lights,
+  suggestionCount,
+  onAcceptSuggestions,
+  onRotateDevice,
+  onRemoveDevice,
+  onCircuitChange,
+  onToggleControl,
+}: ElectricalSelectorProps) {
+  const deviceTypes = Object.keys(ELECTRICAL_CONFIGS) as ElectricalDeviceType[];
+  const categories = Object.keys(CATEGORY_LABELS) as ElectricalCategory[];
+  const selectedConfig = selectedDevice ? ELECTRICAL_CONFIGS[selectedDevice.type] : null;
+
+  return (
+    <Card className="p-3 space-y-3 shadow-md transition-shadow hover:shadow-lg">
+      <Label className="text-sm font-semibold text-foreground">Drag a device to canvas:</Label>
+      {categories.map((category) => {
+        const { label, icon: Icon } = CATEGORY_LABELS[category];
+        return (
+          <div key={category} className="space-y-1.5">
+            <p className="text-[10px] font-medium uppercase tracking-wide text-muted-foreground">{label}</p>
+            <div className="grid grid-cols-2 gap-1.5">
+              {deviceTypes.filter(type => ELECTRICAL_CONFIGS[type].category === category).map((type) => (
+                <div
+                  key={type}
+                  draggable
+                  onDragStart={(e) => onDragStart(e, "electrical", type)}
+                  onDragEnd={onDragEnd}
+                  className="flex items-center gap-1.5 p-1.5 bg-secondary rounded-lg border border-border cursor-grab hover:bg-secondary/80 hover:border-primary/30 transition-colors active:cursor-grabbing"
+                >
+                  <Icon className="h-3.5 w-3.5 text-muted-foreground flex-shrink-0" />
+                  <p className="text-[10px] font-medium leading-tight">{ELECTRICAL_CONFIGS[type].label}</p>
+                </div>
+              ))}
+            </div>
+          </div>
+        );
+      })}
+
+      <Button
+        variant="outline"
+        size="sm"
+        className="w-full h-7 text-xs"
+        disabled={suggestionCount === 0}
+        onClick={onAcceptSuggestions}
+      >
+        <Sparkles className="h-3 w-3 mr-1.5" />
+        {suggestionCount > 0
+          ? `Add ${suggestionCount} suggested receptacle${suggestionCount === 1 ? "" : "s"}`
+          : "Receptacle spacing OK"}
+      </Button>
+
+      {selectedDevice && selectedConfig && (
+        <div className="space-y-2 pt-2 border-t">
+          <div className="flex items-center gap-1">
+            <span className="flex-1 text-xs font-medium">{selectedConfig.label}</span>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0"
+              title="Rotate 90°"
+              onClick={() => onRotateDevice(selectedDevice.id)}
+            >
+              <RotateCw className="h-3 w-3" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-6 w-6 p-0 text-destructive hover:text-destructive"
+              title="Delete device"
+              onClick={() => onRemoveDevice(selectedDevice.id)}
+            >
+              <Trash2 className="h-3 w-3" />
+            </Button>
+          </div>
+          <div className="flex items-center gap-2">
+            <Label className="text-[10px] text-muted-foreground">Circuit</Label>
+            <Input
+              value={selectedDevice.circuit ?? ""}
+              onChange={(e) => onCircuitChange(selectedDevice.id, e.target.value)}
+              placeholder="e.g. A3"
+              className="h-6 text-xs"
+            />
+          </div>
+          {selectedConfig.category === "switch" && (
+            <div className="space-y-1">
+              <p className="text-[10px] text-muted-foreground">Controls</p>
+              {lights.length === 0 ? (
+                <p className="text-[10px] text-muted-foreground italic">No lights on this level yet</p>
+              ) : (
+                lights.map((light, i) => (
+                  <label key={light.id} className="flex items-center gap-2 text-xs cursor-pointer">
+                    <Checkbox
+                      checked={selectedDevice.controls?.includes(light.id) ?? false}
+                      onCheckedChange={() => onToggleControl(selectedDevice.id, light.id)}
+                    />
+                    {ELECTRICAL_CONFIGS[light.type].label} {i + 1}
+                    {light.circuit && <span className="text-muted-foreground">({light.circuit})</span>}
+                  </label>
+                ))
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      <div className="p-2.5 bg-blue-50 rounded-lg border border-blue-200">
+        <p className="text-xs text-blue-800 leading-relaxed">
+          Dashed receptacles show where the 12 ft wall spacing rule needs one. Select a switch to link the lights it controls.
+        </p>
+      </div>
+    </Card>
+  );
+}
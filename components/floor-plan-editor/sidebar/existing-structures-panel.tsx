@@ -0,0 +1,173 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Home, Plus, Trash2, ChevronDown, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ExistingStructure, ExistingStructureType } from "@/lib/api/client";
+import { STRUCTURE_CONFIGS, STRUCTURE_TYPES } from "../lot";
+import type { StructureSeparation } from "../lot";
+
+interface ExistingStructuresPanelProps {
+  structures: ExistingStructure[];
+  separations: StructureSeparation[];
+  selectedStructureId: string | null;
+  isEditing: boolean;
+  onEditingChange: (editing: boolean) => void;
+  onAddStructure: (type: ExistingStructureType) => void;
+  onSelectStructure: (id: string | null) => void;
+  onRenameStructure: (id: string, label: string) => void;
+  onChangeStories: (id: string, stories: number) => void;
+  onRemoveStructure: (id: string) => void;
+}
+
+export function ExistingStructuresPanel({
+  structures,
+  separations,
+  selectedStructureId,
+  isEditing,
+  onEditingChange,
+  onAddStructure,
+  onSelectStructure,
+  onRenameStructure,
+  onChangeStories,
+  onRemoveStructure,
+}: ExistingStructuresPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const violationCount = separations.filter(s => s.violated).length;
+
+  return (
+    <Card className="shadow-md transition-shadow hover:shadow-lg overflow-hidden">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <div className="flex items-center justify-between p-3 cursor-pointer hover:bg-secondary/50 transition-colors">
+            <div className="flex items-center gap-2">
+              <Home className="h-4 w-4 text-muted-foreground" />
+              <Label className="text-sm font-semibold text-foreground cursor-pointer">
+                Existing Structures
+              </Label>
+              {violationCount > 0 && (
+                <span className="text-[10px] px-1.5 py-0.5 rounded bg-red-100 text-red-700">
+                  {violationCount} too close
+                </span>
+              )}
+            </div>
+            <ChevronDown className={cn(
+              "h-4 w-4 text-muted-foreground transition-transform duration-200",
+              isOpen && "rotate-180"
+            )} />
+          </div>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent>
+          <div className="px-3 pb-3 space-y-3">
+            {/* Add structure by type */}
+            <div className="grid grid-cols-2 gap-1.5">
+              {STRUCTURE_TYPES.map(type => (
+                <Button
+                  key={type}
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs justify-start"
+                  onClick={() => onAddStructure(type)}
+                >
+                  <Plus className="h-3 w-3 mr-1" />
+                  {STRUCTURE_CONFIGS[type].label}
+                </Button>
+              ))}
+            </div>
+
+            {structures.length > 0 && (
+              <div className="flex items-center justify-between">
+                <span className="text-xs text-muted-foreground">Edit on canvas</span>
+                <Switch checked={isEditing} onCheckedChange={onEditingChange} />
+              </div>
+            )}
+
+            {structures.map(structure => {
+              const config = STRUCTURE_CONFIGS[structure.type];
+              const separation = separations.find(s => s.structureId === structure.id);
+              const isSelected = structure.id === selectedStructureId;
+
+              return (
+                <div
+                  key={structure.id}
+                  className={cn(
+                    "rounded-md border px-2 py-1.5 space-y-1 cursor-pointer transition-colors",
+                    isSelected ? "border-primary bg-primary/10" : "border-border hover:bg-secondary/50"
+                  )}
+                  onClick={() => onSelectStructure(structure.id)}
+                >
+                  <div className="flex items-center gap-1.5">
+                    <span
+                      className="h-3 w-3 rounded-sm border flex-shrink-0"
+                      style={{ backgroundColor: config.fill, borderColor: config.stroke }}
+                    />
+                    <Input
+                      value={structure.label ?? ""}
+                      placeholder={config.label}
+                      onChange={(e) => onRenameStructure(structure.id, e.target.value)}
+                      onClick={(e) => e.stopPropagation()}
+                      className="h-6 flex-1 text-xs px-1.5"
+                    />
+                    {config.isBuilding && (
+                      <Input
+                        type="number"
+                        min={1}
+                        max={4}
+                        title="Stories"
+                        value={structure.stories ?? 1}
+                        onChange={(e) => {
+                          const stories = parseInt(e.target.value, 10);
+                          if (stories > 0) onChangeStories(structure.id, stories);
+                        }}
+                        onClick={(e) => e.stopPropagation()}
+                        className="h-6 w-11 text-xs px-1.5"
+                      />
+                    )}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className="h-5 w-5 p-0 text-destructive hover:text-destructive"
+                      title={`Remove ${structure.label || config.label}`}
+                      onClick={(e) => {
+                        e.stopPropagation();
+                        onRemoveStructure(structure.id);
+                      }}
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                  {separation && (
+                    <div className={cn(
+                      "flex items-center gap-1 text-[10px]",
+                      separation.violated ? "text-red-600" : "text-green-700"
+                    )}>
+                      {separation.violated
+                        ? <AlertTriangle className="h-3 w-3" />
+                        : <CheckCircle2 className="h-3 w-3" />}
+                      {separation.overlaps
+                        ? "ADU overlaps this structure"
+                        : `${separation.distanceFeet.toFixed(1)} ft from ADU (min ${separation.requiredFeet} ft)`}
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+
+            {structures.length === 0 && (
+              <p className="text-[10px] text-muted-foreground">
+                Add the main house, garage, pool or trees to check the ADU keeps its required separation.
+              </p>
+            )}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
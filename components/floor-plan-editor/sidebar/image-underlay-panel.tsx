@@ -0,0 +1,329 @@
+"use client";
+
+import { useState, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { ImageIcon, Upload, Trash2, Lock, Unlock, Ruler, X, ChevronDown, ChevronLeft, ChevronRight, Loader2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { ImageUnderlaySettings } from "../types";
+
+interface ImageUnderlayPanelProps {
+  underlay: ImageUnderlaySettings | null;
+  pixelsPerFoot: number;
+  isCalibrating: boolean;
+  calibrationPointCount: number;
+  onUpload: (file: File) => Promise<void>;
+  // Set while the underlay is a page of an uploaded PDF
+  pdfPage: { page: number; pageCount: number } | null;
+  onSelectPdfPage: (page: number) => Promise<void>;
+  onUpdate: (updates: Partial<ImageUnderlaySettings>) => void;
+  onRemove: () => void;
+  onStartCalibration: () => void;
+  onCancelCalibration: () => void;
+  onApplyCalibration: (lengthFeet: number) => boolean;
+}
+
+export function ImageUnderlayPanel({
+  underlay,
+  pixelsPerFoot,
+  isCalibrating,
+  calibrationPointCount,
+  onUpload,
+  pdfPage,
+  onSelectPdfPage,
+  onUpdate,
+  onRemove,
+  onStartCalibration,
+  onCancelCalibration,
+  onApplyCalibration,
+}: ImageUnderlayPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [calibrationFeet, setCalibrationFeet] = useState("");
+  const [calibrationInches, setCalibrationInches] = useState("");
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      await onUpload(file);
+    } catch (err) {
+      console.error("[ImageUnderlay] Failed to load image:", err);
+      setError(err instanceof Error ? err.message : "Failed to load image");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleSelectPage = async (page: number) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+      await onSelectPdfPage(page);
+    } catch (err) {
+      console.error("[ImageUnderlay] Failed to render PDF page:", err);
+      setError(err instanceof Error ? err.message : "Failed to render page");
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const calibrationLength = (parseFloat(calibrationFeet) || 0) + (parseFloat(calibrationInches) || 0) / 12;
+
+  const handleApplyCalibration = () => {
+    if (onApplyCalibration(calibrationLength)) {
+      setCalibrationFeet("");
+      setCalibrationInches("");
+    }
+  };
+
+  // Real-world size of the image at its current scale
+  const widthFeet = underlay ? (underlay.imageWidth * underlay.scale) / pixelsPerFoot : 0;
+  const heightFeet = underlay ? (underlay.imageHeight * underlay.scale) / pixelsPerFoot : 0;
+
+  return (
+    <Card className="shadow-md transition-shadow hover:shadow-lg overflow-hidden">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <div className="flex items-center justify-between p-3 cursor-pointer hover:bg-secondary/50 transition-colors">
+            <div className="flex items-center gap-2">
+              <ImageIcon className="h-4 w-4 text-muted-foreground" />
+              <Label className="text-sm font-semibold text-foreground cursor-pointer">
+                Image Underlay
+              </Label>
+              {underlay?.locked && <Lock className="h-3 w-3 text-muted-foreground" />}
+            </div>
+            <div className="flex items-center gap-1">
+              <div onClick={(e) => e.stopPropagation()}>
+                <Switch
+                  checked={underlay?.visible ?? false}
+                  onCheckedChange={(visible) => onUpdate({ visible })}
+                  disabled={!underlay}
+                />
+              </div>
+              <ChevronDown className={cn(
+                "h-4 w-4 text-muted-foreground transition-transform duration-200",
+                isOpen && "rotate-180"
+              )} />
+            </div>
+          </div>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent>
+          <div className="px-3 pb-3 space-y-3">
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept="image/png,image/jpeg,image/webp,image/gif,application/pdf"
+              className="hidden"
+              onChange={handleFileChange}
+            />
+
+            {!underlay ? (
+              <div className="space-y-2">
+                <p className="text-xs text-muted-foreground">
+                  Trace over a photo, scan or PDF of a sketch or existing plan.
+                </p>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="w-full"
+                  disabled={isLoading}
+                  onClick={() => fileInputRef.current?.click()}
+                >
+                  {isLoading ? (
+                    <Loader2 className="h-3.5 w-3.5 mr-2 animate-spin" />
+                  ) : (
+                    <Upload className="h-3.5 w-3.5 mr-2" />
+                  )}
+                  Upload Image
+                </Button>
+              </div>
+            ) : (
+              <>
+                {!underlay.src && (
+                  <p className="text-xs text-amber-600">
+                    This image isn&apos;t stored in this browser. Upload it again to keep its position and scale.
+                  </p>
+                )}
+
+                {pdfPage && pdfPage.pageCount > 1 && (
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-muted-foreground">PDF page:</span>
+                    <div className="flex items-center gap-1">
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        disabled={isLoading || pdfPage.page <= 1}
+                        onClick={() => handleSelectPage(pdfPage.page - 1)}
+                      >
+                        <ChevronLeft className="h-3.5 w-3.5" />
+                      </Button>
+                      <span className="text-[10px] font-medium">
+                        {pdfPage.page} of {pdfPage.pageCount}
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-6 w-6 p-0"
+                        disabled={isLoading || pdfPage.page >= pdfPage.pageCount}
+                        onClick={() => handleSelectPage(pdfPage.page + 1)}
+                      >
+                        <ChevronRight className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  </div>
+                )}
+
+                <div className="flex items-center justify-between text-[10px] text-muted-foreground">
+                  <span>Size on plan:</span>
+                  <span className="font-medium text-foreground">
+                    {widthFeet.toFixed(1)} × {heightFeet.toFixed(1)} ft
+                  </span>
+                </div>
+
+                {/* Opacity */}
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-muted-foreground">Opacity:</span>
+                    <span className="text-[10px] font-medium">{Math.round(underlay.opacity * 100)}%</span>
+                  </div>
+                  <Slider
+                    value={[underlay.opacity * 100]}
+                    min={10}
+                    max={100}
+                    step={5}
+                    onValueChange={([v]) => onUpdate({ opacity: v / 100 })}
+                    className="h-1"
+                  />
+                </div>
+
+                {/* Rotation */}
+                <div className="space-y-1">
+                  <div className="flex items-center justify-between">
+                    <span className="text-[10px] text-muted-foreground">Rotation:</span>
+                    <span className="text-[10px] font-medium">{underlay.rotation.toFixed(1)}°</span>
+                  </div>
+                  <Slider
+                    value={[underlay.rotation]}
+                    min={-180}
+                    max={180}
+                    step={0.5}
+                    disabled={underlay.locked}
+                    onValueChange={([v]) => onUpdate({ rotation: v })}
+                    className="h-1"
+                  />
+                </div>
+
+                {/* Lock */}
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground flex items-center gap-1.5">
+                    {underlay.locked ? <Lock className="h-3 w-3" /> : <Unlock className="h-3 w-3" />}
+                    Lock position
+                  </span>
+                  <Switch
+                    checked={underlay.locked}
+                    onCheckedChange={(locked) => onUpdate({ locked })}
+                  />
+                </div>
+
+                {/* Calibration */}
+                <div className="space-y-2 pt-2 border-t">
+                  {!isCalibrating ? (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="w-full"
+                      disabled={underlay.locked}
+                      onClick={onStartCalibration}
+                    >
+                      <Ruler className="h-3.5 w-3.5 mr-2" />
+                      Calibrate Scale
+                    </Button>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <Label className="text-xs text-muted-foreground">
+                          {calibrationPointCount < 2
+                            ? `Click point ${calibrationPointCount === 0 ? "A" : "B"} of a known length`
+                            : "Real length between the points"}
+                        </Label>
+                        <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={onCancelCalibration}>
+                          <X className="h-3.5 w-3.5" />
+                        </Button>
+                      </div>
+                      <div className="flex items-center gap-1.5">
+                        <Input
+                          type="number"
+                          min={0}
+                          value={calibrationFeet}
+                          onChange={(e) => setCalibrationFeet(e.target.value)}
+                          placeholder="ft"
+                          className="h-7 text-xs"
+                          disabled={calibrationPointCount < 2}
+                        />
+                        <Input
+                          type="number"
+                          min={0}
+                          max={11}
+                          value={calibrationInches}
+                          onChange={(e) => setCalibrationInches(e.target.value)}
+                          placeholder="in"
+                          className="h-7 text-xs"
+                          disabled={calibrationPointCount < 2}
+                        />
+                        <Button
+                          size="sm"
+                          className="h-7"
+                          disabled={calibrationPointCount < 2 || calibrationLength <= 0}
+                          onClick={handleApplyCalibration}
+                        >
+                          Apply
+                        </Button>
+                      </div>
+                    </div>
+                  )}
+                </div>
+
+                <div className="flex gap-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 h-7 text-xs"
+                    disabled={isLoading}
+                    onClick={() => fileInputRef.current?.click()}
+                  >
+                    <Upload className="h-3 w-3 mr-1.5" />
+                    Replace
+                  </Button>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="h-7 text-xs text-destructive hover:text-destructive"
+                    onClick={onRemove}
+                  >
+                    <Trash2 className="h-3 w-3" />
+                  </Button>
+                </div>
+              </>
+            )}
+
+            {error && <p className="text-xs text-destructive">{error}</p>}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
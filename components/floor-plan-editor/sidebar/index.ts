@@ -6,3 +6,8 @@ export { FurnitureSelector } from "./furniture-selector";
 export { LotSelector } from "./lot-selector";
 export { DraggablePanelContainer } from "./draggable-panel-container";
 export { FinishesPanel } from "./finishes-panel";
+export { ImageUnderlayPanel } from "./image-underlay-panel";
+export { LevelPanel } from "./level-panel";
+export { ExistingStructuresPanel } from "./existing-structures-panel";
+export { ElectricalSelector } from "./electrical-selector";
+export { PlumbingPanel } from "./plumbing-panel";
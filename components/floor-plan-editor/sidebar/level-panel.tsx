@@ -0,0 +1,240 @@
+"use client";
+
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
+import { Layers, Plus, Trash2, RotateCw, ChevronDown, Footprints } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { LevelId, Stair } from "@/lib/types";
+import { LEVEL_CONFIGS } from "@/lib/constants";
+import type { LevelSettings } from "../types";
+
+interface LevelPanelProps {
+  levels: LevelSettings[];
+  activeLevelId: LevelId;
+  roomCounts: Partial<Record<LevelId, number>>;
+  stairs: Stair[];
+  selectedStairId: string | null;
+  canAddStair: boolean;
+  showLevelBelow: boolean;
+  onSwitchLevel: (id: LevelId) => void;
+  onAddLevel: (id: LevelId) => void;
+  onRemoveLevel: (id: LevelId) => void;
+  onUpdateLevel: (id: LevelId, updates: Partial<Omit<LevelSettings, "id">>) => void;
+  onShowLevelBelowChange: (show: boolean) => void;
+  onAddStair: () => void;
+  onSelectStair: (id: string) => void;
+  onRotateStair: (id: string) => void;
+  onRemoveStair: (id: string) => void;
+}
+
+const OPTIONAL_LEVELS: LevelId[] = ["second", "garage-below"];
+
+export function LevelPanel({
+  levels,
+  activeLevelId,
+  roomCounts,
+  stairs,
+  selectedStairId,
+  canAddStair,
+  showLevelBelow,
+  onSwitchLevel,
+  onAddLevel,
+  onRemoveLevel,
+  onUpdateLevel,
+  onShowLevelBelowChange,
+  onAddStair,
+  onSelectStair,
+  onRotateStair,
+  onRemoveStair,
+}: LevelPanelProps) {
+  const [isOpen, setIsOpen] = useState(true);
+  // Removing a level discards its rooms, so it takes a second click
+  const [pendingRemoval, setPendingRemoval] = useState<LevelId | null>(null);
+
+  const activeLevel = levels.find(l => l.id === activeLevelId);
+  const missingLevels = OPTIONAL_LEVELS.filter(id => !levels.some(l => l.id === id));
+  const levelName = (id: LevelId) => levels.find(l => l.id === id)?.name ?? LEVEL_CONFIGS[id].label;
+
+  return (
+    <Card className="shadow-md transition-shadow hover:shadow-lg overflow-hidden">
+      <Collapsible open={isOpen} onOpenChange={setIsOpen}>
+        <CollapsibleTrigger asChild>
+          <div className="flex items-center justify-between p-3 cursor-pointer hover:bg-secondary/50 transition-colors">
+            <div className="flex items-center gap-2">
+              <Layers className="h-4 w-4 text-muted-foreground" />
+              <Label className="text-sm font-semibold text-foreground cursor-pointer">
+                Levels
+              </Label>
+              {levels.length > 1 && (
+                <span className="text-[10px] text-muted-foreground">{activeLevel?.name}</span>
+              )}
+            </div>
+            <ChevronDown className={cn(
+              "h-4 w-4 text-muted-foreground transition-transform duration-200",
+              isOpen && "rotate-180"
+            )} />
+          </div>
+        </CollapsibleTrigger>
+
+        <CollapsibleContent>
+          <div className="px-3 pb-3 space-y-3">
+            {/* Level switcher - top level first, like a building section */}
+            <div className="space-y-1">
+              {[...levels].reverse().map(level => (
+                <div
+                  key={level.id}
+                  className={cn(
+                    "flex items-center gap-2 rounded-md border px-2 py-1.5 cursor-pointer transition-colors",
+                    level.id === activeLevelId
+                      ? "border-primary bg-primary/10"
+                      : "border-border hover:bg-secondary/50"
+                  )}
+                  onClick={() => onSwitchLevel(level.id)}
+                >
+                  <span className="flex h-5 w-5 items-center justify-center rounded bg-secondary text-[10px] font-bold">
+                    {LEVEL_CONFIGS[level.id].shortLabel}
+                  </span>
+                  <span className="flex-1 text-xs font-medium">{level.name}</span>
+                  <span className="text-[10px] text-muted-foreground">
+                    {roomCounts[level.id] ?? 0} rooms
+                  </span>
+                  {level.id !== "ground" && level.id !== activeLevelId && (
+                    pendingRemoval === level.id ? (
+                      <Button
+                        variant="destructive"
+                        size="sm"
+                        className="h-5 px-1.5 text-[10px]"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setPendingRemoval(null);
+                          onRemoveLevel(level.id);
+                        }}
+                      >
+                        Remove
+                      </Button>
+                    ) : (
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0 text-destructive hover:text-destructive"
+                        title={`Remove ${level.name}`}
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          setPendingRemoval(level.id);
+                        }}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {missingLevels.length > 0 && (
+              <div className="flex gap-2">
+                {missingLevels.map(id => (
+                  <Button
+                    key={id}
+                    variant="outline"
+                    size="sm"
+                    className="flex-1 h-7 text-xs"
+                    onClick={() => onAddLevel(id)}
+                  >
+                    <Plus className="h-3 w-3 mr-1" />
+                    {LEVEL_CONFIGS[id].label}
+                  </Button>
+                ))}
+              </div>
+            )}
+
+            {activeLevel && (
+              <div className="flex items-center justify-between gap-2">
+                <span className="text-[10px] text-muted-foreground">Ceiling height (ft):</span>
+                <Input
+                  type="number"
+                  min={7}
+                  max={20}
+                  step={0.25}
+                  value={activeLevel.ceilingHeight}
+                  onChange={(e) => {
+                    const value = parseFloat(e.target.value);
+                    if (value > 0) onUpdateLevel(activeLevel.id, { ceilingHeight: value });
+                  }}
+                  className="h-7 w-20 text-xs"
+                />
+              </div>
+            )}
+
+            {levels.length > 1 && (
+              <>
+                <div className="flex items-center justify-between">
+                  <span className="text-xs text-muted-foreground">Show level below</span>
+                  <Switch checked={showLevelBelow} onCheckedChange={onShowLevelBelowChange} />
+                </div>
+
+                {/* Stairs */}
+                <div className="space-y-2 pt-2 border-t">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full h-7 text-xs"
+                    disabled={!canAddStair}
+                    onClick={onAddStair}
+                  >
+                    <Footprints className="h-3 w-3 mr-1.5" />
+                    Add Stair
+                  </Button>
+                  {stairs.map(stair => (
+                    <div
+                      key={stair.id}
+                      className={cn(
+                        "flex items-center gap-1 rounded-md px-2 py-1 text-[10px] cursor-pointer",
+                        stair.id === selectedStairId ? "bg-primary/10" : "hover:bg-secondary/50"
+                      )}
+                      onClick={() => onSelectStair(stair.id)}
+                    >
+                      <span className="flex-1">
+                        {levelName(stair.fromLevel)} → {levelName(stair.toLevel)}
+                        <span className="text-muted-foreground"> · {stair.width}×{stair.length} ft</span>
+                      </span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0"
+                        title="Rotate 90°"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRotateStair(stair.id);
+                        }}
+                      >
+                        <RotateCw className="h-3 w-3" />
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        className="h-5 w-5 p-0 text-destructive hover:text-destructive"
+                        title="Delete stair"
+                        onClick={(e) => {
+                          e.stopPropagation();
+                          onRemoveStair(stair.id);
+                        }}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+        </CollapsibleContent>
+      </Collapsible>
+    </Card>
+  );
+}
@@ -9,9 +9,14 @@ import { Slider } from "@/components/ui/slider";
 import { Switch } from "@/components/ui/switch";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from "@/components/ui/tooltip";
-import { MapPin, Search, Trash2, RotateCcw, Move, Loader2, X, AlertCircle, Map, Square, Pencil, PenTool, ChevronDown, LandPlot } from "lucide-react";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { MapPin, Search, Trash2, RotateCcw, Move, Loader2, X, AlertCircle, Map, Square, Pencil, PenTool, ChevronDown, LandPlot, Landmark, Wand2, Check } from "lucide-react";
 import { cn } from "@/lib/utils";
 import type { AddressResult, Lot, ParcelData } from "@/lib/api/client";
+import { listZoningProfiles } from "@/lib/zoning";
+import { DEFAULT_GEO_PROVIDER_ID, listGeoProviders } from "@/lib/geo";
+import type { AduLimits, ZoningProfile } from "@/lib/zoning";
+import type { AduPlacementCandidate, LotCoverage } from "../lot";
 
 interface LotSelectorProps {
   lot: Lot | null;
@@ -39,6 +44,22 @@ interface LotSelectorProps {
   isDrawingLotBoundary?: boolean;
   onStartDrawingLotBoundary?: () => void;
   onCancelDrawingLotBoundary?: () => void;
+  // Jurisdiction zoning profile (resolved from the address unless changed here)
+  zoningProfile?: ZoningProfile;
+  aduLimits?: AduLimits;
+  onChangeZoningProfile?: (id: string) => void;
+  // Coverage/FAR for the current (live) ADU placement
+  lotCoverage?: LotCoverage | null;
+  // Geocoding/parcel provider used for address search, saved on the lot
+  geoProviderId?: string;
+  onChangeGeoProvider?: (id: string) => void;
+  // Auto-fit: ranked placements inside the setbacks (null until a search has run)
+  placementCandidates?: AduPlacementCandidate[] | null;
+  activeCandidateIndex?: number | null;
+  onAutoFit?: () => void;
+  onPreviewCandidate?: (index: number) => void;
+  onApplyCandidate?: (index: number) => void;
+  onClearCandidates?: () => void;
 }
 
 export function LotSelector({
@@ -65,6 +86,18 @@ export function LotSelector({
   isDrawingLotBoundary = false,
   onStartDrawingLotBoundary,
   onCancelDrawingLotBoundary,
+  zoningProfile,
+  aduLimits,
+  onChangeZoningProfile,
+  lotCoverage,
+  geoProviderId = DEFAULT_GEO_PROVIDER_ID,
+  onChangeGeoProvider,
+  placementCandidates = null,
+  activeCandidateIndex = null,
+  onAutoFit,
+  onPreviewCandidate,
+  onApplyCandidate,
+  onClearCandidates,
 }: LotSelectorProps) {
   const [isOpen, setIsOpen] = useState(true);
   const [searchQuery, setSearchQuery] = useState("");
@@ -248,13 +281,39 @@ export function LotSelector({
             <div className="px-3 pb-3 space-y-3">
               {/* Address Search */}
               <div className="space-y-2">
-                <Label className="text-xs text-muted-foreground">Property Address</Label>
+                <div className="flex items-center justify-between gap-2">
+                  <Label className="text-xs text-muted-foreground">Property Address</Label>
+                  {onChangeGeoProvider && (
+                    <Select
+                      value={geoProviderId}
+                      onValueChange={(id) => {
+                        setSearchQuery("");
+                        setShowResults(false);
+                        onClearAddressResults();
+                        onChangeGeoProvider(id);
+                      }}
+                    >
+                      <SelectTrigger className="h-6 w-auto max-w-[150px] text-[10px] px-2" title="Address and parcel data source">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {listGeoProviders().map(provider => (
+                          <SelectItem key={provider.id} value={provider.id} className="text-xs">
+                            {provider.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+                </div>
                 <div className="relative">
                   <Search className="absolute left-2.5 top-1/2 -translate-y-1/2 h-3.5 w-3.5 text-muted-foreground" />
                   <Input
                     ref={inputRef}
                     type="text"
-                    placeholder="Search address in Orange County..."
+                    placeholder={geoProviderId === DEFAULT_GEO_PROVIDER_ID
+                      ? "Search address in Orange County..."
+                      : "Search addresses in the parcel file..."}
                     value={searchQuery}
                     onChange={(e) => handleSearchChange(e.target.value)}
                     onFocus={() => addressResults.length > 0 && setShowResults(true)}
@@ -505,21 +564,108 @@ export function LotSelector({
                         <Move className="h-3.5 w-3.5" />
                         ADU Position
                       </Label>
-                      <Tooltip>
-                        <TooltipTrigger asChild>
+                      <div className="flex items-center">
+                        {onAutoFit && (
+                          <Tooltip>
+                            <TooltipTrigger asChild>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={onAutoFit}
+                                className="h-6 px-2 text-[10px]"
+                              >
+                                <Wand2 className="h-3 w-3 mr-1" />
+                                Auto-fit
+                              </Button>
+                            </TooltipTrigger>
+                            <TooltipContent>Find placements that fit inside the setbacks</TooltipContent>
+                          </Tooltip>
+                        )}
+                        <Tooltip>
+                          <TooltipTrigger asChild>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={handleResetPosition}
+                              className="h-6 px-2 text-[10px]"
+                            >
+                              <RotateCcw className="h-3 w-3 mr-1" />
+                              Reset
+                            </Button>
+                          </TooltipTrigger>
+                          <TooltipContent>Reset ADU to center of lot</TooltipContent>
+                        </Tooltip>
+                      </div>
+                    </div>
+
+                    {/* Auto-fit suggestions - click to preview on the lot, then apply */}
+                    {placementCandidates && (
+                      <div className="space-y-1.5 rounded-md border border-green-200 bg-green-50/50 p-2">
+                        <div className="flex items-center justify-between">
+                          <span className="text-[10px] font-medium text-green-800">
+                            {placementCandidates.length > 0
+                              ? `${placementCandidates.length} suggested placements`
+                              : "No placement fits"}
+                          </span>
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={handleResetPosition}
-                            className="h-6 px-2 text-[10px]"
+                            className="h-5 w-5 p-0"
+                            title="Dismiss suggestions"
+                            onClick={onClearCandidates}
                           >
-                            <RotateCcw className="h-3 w-3 mr-1" />
-                            Reset
+                            <X className="h-3 w-3" />
                           </Button>
-                        </TooltipTrigger>
-                        <TooltipContent>Reset ADU to center of lot</TooltipContent>
-                      </Tooltip>
-                    </div>
+                        </div>
+                        {placementCandidates.length === 0 && (
+                          <p className="text-[10px] text-muted-foreground">
+                            The ADU does not fit inside the setbacks clear of the existing structures at any position or rotation.
+                          </p>
+                        )}
+                        {placementCandidates.map((candidate, index) => {
+                          const isActive = index === activeCandidateIndex;
+                          return (
+                            <div
+                              key={index}
+                              className={cn(
+                                "flex items-center gap-2 rounded px-1.5 py-1 cursor-pointer transition-colors",
+                                isActive ? "bg-green-100" : "hover:bg-green-100/60"
+                              )}
+                              onClick={() => onPreviewCandidate?.(index)}
+                            >
+                              <span className="flex h-4 w-4 flex-shrink-0 items-center justify-center rounded-full bg-green-600 text-[9px] font-bold text-white">
+                                {index + 1}
+                              </span>
+                              <div className="flex-1 min-w-0">
+                                <div className="text-[10px] font-medium">
+                                  {`${candidate.offsetX.toFixed(1)}, ${candidate.offsetY.toFixed(1)} ft · ${candidate.rotation}°`}
+                                </div>
+                                <div className="text-[9px] text-muted-foreground truncate">
+                                  {`${candidate.rearDistanceFeet.toFixed(1)} ft from rear`}
+                                  {candidate.minClearanceFeet !== null && ` · ${candidate.minClearanceFeet.toFixed(1)} ft spare clearance`}
+                                </div>
+                              </div>
+                              <span className="text-[10px] font-semibold text-green-800">
+                                {Math.round(candidate.score * 100)}
+                              </span>
+                              {isActive && (
+                                <Button
+                                  size="sm"
+                                  className="h-5 px-1.5 text-[10px]"
+                                  onClick={(e) => {
+                                    e.stopPropagation();
+                                    onApplyCandidate?.(index);
+                                  }}
+                                >
+                                  <Check className="h-3 w-3 mr-0.5" />
+                                  Apply
+                                </Button>
+                              )}
+                            </div>
+                          );
+                        })}
+                      </div>
+                    )}
 
                     {/* X Offset */}
                     <div className="space-y-1">
@@ -570,9 +716,129 @@ export function LotSelector({
                     </div>
                   </div>
 
+                  {/* Lot coverage and floor-area ratio */}
+                  {lotCoverage && (
+                    <div className="space-y-2 pt-2 border-t">
+                      <Label className="text-xs text-muted-foreground">Lot Coverage & FAR</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <div className={cn(
+                          "p-2 rounded-lg border text-center",
+                          lotCoverage.exceedsCoverage ? "bg-red-50 border-red-200" : "bg-secondary border-transparent"
+                        )}>
+                          <div className={cn("text-sm font-bold", lotCoverage.exceedsCoverage && "text-destructive")}>
+                            {(lotCoverage.coverage * 100).toFixed(1)}%
+                          </div>
+                          <div className="text-[10px] text-muted-foreground">
+                            Coverage{lotCoverage.maxLotCoverage !== undefined && ` (max ${Math.round(lotCoverage.maxLotCoverage * 100)}%)`}
+                          </div>
+                        </div>
+                        <div className={cn(
+                          "p-2 rounded-lg border text-center",
+                          lotCoverage.exceedsFloorAreaRatio ? "bg-red-50 border-red-200" : "bg-secondary border-transparent"
+                        )}>
+                          <div className={cn("text-sm font-bold", lotCoverage.exceedsFloorAreaRatio && "text-destructive")}>
+                            {lotCoverage.floorAreaRatio.toFixed(2)}
+                          </div>
+                          <div className="text-[10px] text-muted-foreground">
+                            FAR{lotCoverage.maxFloorAreaRatio !== undefined && ` (max ${lotCoverage.maxFloorAreaRatio})`}
+                          </div>
+                        </div>
+                      </div>
+                      <div className="space-y-1 text-[10px]">
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Lot area:</span>
+                          <span className="font-medium">{Math.round(lotCoverage.lotAreaSqFt).toLocaleString()} sq ft</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">ADU footprint / floor area:</span>
+                          <span className="font-medium">
+                            {Math.round(lotCoverage.aduFootprintSqFt).toLocaleString()} / {Math.round(lotCoverage.aduFloorAreaSqFt).toLocaleString()} sq ft
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Existing buildings:</span>
+                          <span className="font-medium">
+                            {Math.round(lotCoverage.existingFootprintSqFt).toLocaleString()} / {Math.round(lotCoverage.existingFloorAreaSqFt).toLocaleString()} sq ft
+                          </span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Buildable area left:</span>
+                          <span className="font-medium">
+                            {Math.round(lotCoverage.remainingBuildableSqFt).toLocaleString()} of {Math.round(lotCoverage.buildableAreaSqFt).toLocaleString()} sq ft
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
+                  {/* Zoning profile */}
+                  {zoningProfile && (
+                    <div className="space-y-2 pt-2 border-t">
+                      <Label className="text-xs text-muted-foreground flex items-center gap-1.5">
+                        <Landmark className="h-3.5 w-3.5" />
+                        Zoning Profile
+                      </Label>
+                      <Select
+                        value={zoningProfile.id}
+                        onValueChange={(id) => onChangeZoningProfile?.(id)}
+                        disabled={!onChangeZoningProfile}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {listZoningProfiles().map(profile => (
+                            <SelectItem key={profile.id} value={profile.id} className="text-xs">
+                              {profile.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <div className="p-2.5 bg-secondary rounded-lg space-y-1 text-[10px]">
+                        {aduLimits && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Max ADU size:</span>
+                            <span className="font-medium">{aduLimits.maxArea.toLocaleString()} sq ft</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Max bedrooms:</span>
+                          <span className="font-medium">{zoningProfile.maxBedrooms}</span>
+                        </div>
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">Height:</span>
+                          <span className="font-medium">
+                            {`${zoningProfile.height.singleStory} ft (1 story)`}
+                            {zoningProfile.height.twoStory ? ` · ${zoningProfile.height.twoStory} ft (2 story)` : " · 1 story only"}
+                          </span>
+                        </div>
+                        {zoningProfile.maxLotCoverage !== undefined && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Lot coverage:</span>
+                            <span className="font-medium">{Math.round(zoningProfile.maxLotCoverage * 100)}% max</span>
+                          </div>
+                        )}
+                        {zoningProfile.maxFloorAreaRatio !== undefined && (
+                          <div className="flex justify-between">
+                            <span className="text-muted-foreground">Floor area ratio:</span>
+                            <span className="font-medium">{zoningProfile.maxFloorAreaRatio} max</span>
+                          </div>
+                        )}
+                        <div className="flex justify-between">
+                          <span className="text-muted-foreground">JADU:</span>
+                          <span className="font-medium">
+                            {zoningProfile.jadu.allowed
+                              ? `${zoningProfile.jadu.maxArea} sq ft${zoningProfile.jadu.ownerOccupancyRequired ? ", owner-occupied" : ""}`
+                              : "Not allowed"}
+                          </span>
+                        </div>
+                      </div>
+                    </div>
+                  )}
+
                   {/* Setbacks */}
                   <div className="space-y-2 pt-2 border-t">
-                    <Label className="text-xs text-muted-foreground">LA ADU Setbacks (ft)</Label>
+                    <Label className="text-xs text-muted-foreground">ADU Setbacks (ft)</Label>
                     <div className="grid grid-cols-2 gap-2">
                       <div className="space-y-1">
                         <span className="text-[10px] text-muted-foreground">Front</span>
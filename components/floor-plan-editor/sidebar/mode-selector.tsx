@@ -5,7 +5,7 @@ import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
 import { Label } from "@/components/ui/label";
 import { Tooltip, TooltipTrigger, TooltipContent, TooltipProvider } from "@/components/ui/tooltip";
-import { MousePointer2, Square, DoorOpen, RectangleHorizontal, Armchair, Paintbrush } from "lucide-react";
+import { MousePointer2, Square, DoorOpen, RectangleHorizontal, Armchair, Zap, Droplets, Paintbrush } from "lucide-react";
 import type { PlacementMode } from "../types";
 
 const MODE_TOOLTIPS: Record<PlacementMode, string> = {
@@ -14,6 +14,8 @@ const MODE_TOOLTIPS: Record<PlacementMode, string> = {
   door: "Drag and drop doors onto walls to create entryways between rooms",
   window: "Drag and drop windows onto exterior walls for natural lighting",
   furniture: "Drag and drop furniture items to furnish your rooms",
+  electrical: "Lay out receptacles, switches, lights and smart devices, and link switches to the lights they control",
+  plumbing: "Check fixture units and wet walls, and place the sewer connection to estimate pipe runs",
   finishes: "Choose vibes, styles, and generate 3D renders of your floor plan",
 };
 
@@ -120,6 +122,38 @@ export function ModeSelector({
               {MODE_TOOLTIPS.furniture}
             </TooltipContent>
           </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={placementMode === "electrical" ? "default" : "outline"}
+                onClick={() => handleModeChange("electrical")}
+                className="text-xs w-full justify-start transition-all hover:scale-[1.02] h-auto py-2 px-2 [&:not([data-state='active'])]:hover:text-foreground"
+              >
+                <Zap className="h-4 w-4 mr-1.5 flex-shrink-0" />
+                <span className="truncate">Electrical</span>
+                <span className="ml-auto text-[10px] text-muted-foreground flex-shrink-0">E</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="right" sideOffset={8}>
+              {MODE_TOOLTIPS.electrical}
+            </TooltipContent>
+          </Tooltip>
+          <Tooltip>
+            <TooltipTrigger asChild>
+              <Button
+                variant={placementMode === "plumbing" ? "default" : "outline"}
+                onClick={() => handleModeChange("plumbing")}
+                className="text-xs w-full justify-start transition-all hover:scale-[1.02] h-auto py-2 px-2 [&:not([data-state='active'])]:hover:text-foreground"
+              >
+                <Droplets className="h-4 w-4 mr-1.5 flex-shrink-0" />
+                <span className="truncate">Plumbing</span>
+                <span className="ml-auto text-[10px] text-muted-foreground flex-shrink-0">P</span>
+              </Button>
+            </TooltipTrigger>
+            <TooltipContent side="right" sideOffset={8}>
+              {MODE_TOOLTIPS.plumbing}
+            </TooltipContent>
+          </Tooltip>
           <div className="border-t pt-2 mt-1">
             <Tooltip>
               <TooltipTrigger asChild>
@@ -0,0 +1,130 @@
+"use client";
+
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { MapPin, Trash2 } from "lucide-react";
+import type { PlumbingReport } from "@/lib/plumbing";
+
+interface PlumbingPanelProps {
+  report: PlumbingReport;
+  hasLot: boolean;
+  hasSewerConnection: boolean;
+  isPlacingSewerConnection: boolean;
+  onPlaceSewerConnection: () => void;
+  onClearSewerConnection: () => void;
+}
+
+export function PlumbingPanel({
+  report,
+  hasLot,
+  hasSewerConnection,
+  isPlacingSewerConnection,
+  onPlaceSewerConnection,
+  onClearSewerConnection,
+}: PlumbingPanelProps) {
+  const stats = [
+    { label: "Fixtures", value: report.fixtures.length },
+    { label: "Drainage units", value: `${report.totalDfu} DFU` },
+    { label: "Supply units", value: `${report.totalWsfu} WSFU` },
+    { label: "Building drain", value: report.buildingDrainSize },
+  ];
+
+  return (
+    <Card className="p-3 space-y-3 shadow-md transition-shadow hover:shadow-lg">
+      <Label className="text-sm font-semibold text-foreground">Plumbing</Label>
+
+      <div className="grid grid-cols-2 gap-1.5">
+        {stats.map(({ label, value }) => (
+          <div key={label} className="p-1.5 bg-secondary rounded-lg border border-border">
+            <p className="text-[10px] text-muted-foreground">{label}</p>
+            <p className="text-xs font-semibold">{value}</p>
+          </div>
+        ))}
+      </div>
+
+      <div className="space-y-1 text-xs">
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground">Wet walls</span>
+          <span>
+            {report.wetWalls.length}
+            {report.sharedWetWalls > 0 && (
+              <Badge variant="secondary" className="ml-1.5 text-[10px]">{report.sharedWetWalls} shared</Badge>
+            )}
+          </span>
+        </div>
+        <div className="flex items-center justify-between">
+          <span className="text-muted-foreground">Drain/vent stacks</span>
+          <span>{report.stackCount}</span>
+        </div>
+        {report.drainLength !== null && (
+          <>
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Drain run</span>
+              <span>{report.drainLength} ft</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Supply run (hot + cold)</span>
+              <span>{report.supplyLength} ft</span>
+            </div>
+            <div className="flex items-center justify-between">
+              <span className="text-muted-foreground">Sewer lateral</span>
+              <span>{report.lateralLength} ft</span>
+            </div>
+          </>
+        )}
+      </div>
+
+      {report.fixtures.length > 0 && (
+        <div className="space-y-1 pt-2 border-t max-h-40 overflow-y-auto">
+          {report.fixtures.map((fixture) => (
+            <div key={fixture.id} className="flex items-center gap-2 text-xs">
+              <span className="flex-1 truncate">
+                {fixture.label}
+                {fixture.roomName && <span className="text-muted-foreground"> · {fixture.roomName}</span>}
+              </span>
+              <span className="text-[10px] text-muted-foreground">{fixture.trapSize}</span>
+              <span className="w-10 text-right font-mono text-[10px]">{fixture.dfu} DFU</span>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-1.5">
+        <Button
+          variant={isPlacingSewerConnection ? "default" : "outline"}
+          size="sm"
+          className="flex-1 h-7 text-xs"
+          disabled={!hasLot}
+          onClick={onPlaceSewerConnection}
+        >
+          <MapPin className="h-3 w-3 mr-1.5" />
+          {isPlacingSewerConnection
+            ? "Click the lot to place"
+            : hasSewerConnection ? "Move sewer connection" : "Place sewer connection"}
+        </Button>
+        {hasSewerConnection && (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+            title="Remove sewer connection"
+            onClick={onClearSewerConnection}
+          >
+            <Trash2 className="h-3 w-3" />
+          </Button>
+        )}
+      </div>
+
+      <div className="p-2.5 bg-blue-50 rounded-lg border border-blue-200">
+        <p className="text-xs text-blue-800 leading-relaxed">
+          {hasLot
+            ? "Fixtures on a shared wet wall drain into one stack. Place the sewer connection to estimate pipe runs."
+            : "Add a lot to place the sewer connection and estimate pipe runs."}
+        </p>
+      </div>
+    </Card>
+  );
+}
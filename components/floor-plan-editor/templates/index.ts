@@ -0,0 +1,3 @@
+export { TemplateGallery, SaveTemplateDialog } from "./template-gallery";
+export { instantiateTemplate, createTemplateFromPlan } from "./utils";
+export type { TemplatePlan } from "./utils";
@@ -0,0 +1,223 @@
+"use client";
+
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { LayoutTemplate, PencilRuler, Trash2, BookmarkPlus } from "lucide-react";
+import type { ADUTemplate } from "@/lib/types";
+import { ADU_TEMPLATES } from "@/lib/constants";
+
+interface TemplateGalleryProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  customTemplates: ADUTemplate[];
+  onSelectTemplate: (template: ADUTemplate) => void;
+  onDeleteCustomTemplate?: (templateId: string) => void;
+}
+
+export function TemplateGallery({
+  open,
+  onOpenChange,
+  customTemplates,
+  onSelectTemplate,
+  onDeleteCustomTemplate,
+}: TemplateGalleryProps) {
+  const handleSelect = (template: ADUTemplate) => {
+    onSelectTemplate(template);
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="h-5 w-5" />
+            Start From a Template
+          </DialogTitle>
+          <DialogDescription>
+            Pick a starter layout and customize it, or start with a blank canvas.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          {ADU_TEMPLATES.map((template) => (
+            <TemplateCard key={template.id} template={template} onSelect={handleSelect} />
+          ))}
+        </div>
+
+        {customTemplates.length > 0 && (
+          <div className="space-y-2">
+            <Label className="text-sm font-semibold text-foreground">My Templates</Label>
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+              {customTemplates.map((template) => (
+                <TemplateCard
+                  key={template.id}
+                  template={template}
+                  onSelect={handleSelect}
+                  onDelete={onDeleteCustomTemplate}
+                />
+              ))}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            <PencilRuler className="h-4 w-4 mr-2" />
+            Start From Scratch
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+interface TemplateCardProps {
+  template: ADUTemplate;
+  onSelect: (template: ADUTemplate) => void;
+  onDelete?: (templateId: string) => void;
+}
+
+function TemplateCard({ template, onSelect, onDelete }: TemplateCardProps) {
+  return (
+    <div className="group relative">
+      <button
+        type="button"
+        onClick={() => onSelect(template)}
+        className="flex w-full h-full flex-col gap-2 rounded-lg border p-2 text-left transition-all hover:border-primary hover:shadow-md"
+      >
+        <TemplatePreview template={template} />
+        <div className="min-w-0">
+          <div className="flex items-center gap-1 text-sm font-medium">
+            <span>{template.icon}</span>
+            <span className="truncate">{template.name}</span>
+          </div>
+          <div className="text-xs text-muted-foreground">{template.sqft} sq ft</div>
+          <div className="text-[10px] text-muted-foreground line-clamp-2">{template.description}</div>
+        </div>
+      </button>
+      {onDelete && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="absolute top-1 right-1 h-6 w-6 p-0 opacity-0 group-hover:opacity-100 focus-visible:opacity-100"
+          title="Delete template"
+          onClick={() => onDelete(template.id)}
+        >
+          <Trash2 className="h-3 w-3 text-destructive" />
+        </Button>
+      )}
+    </div>
+  );
+}
+
+// Small schematic of the template's rooms, drawn in template feet
+function TemplatePreview({ template }: { template: ADUTemplate }) {
+  const xs = template.boundary.map(p => p.x);
+  const ys = template.boundary.map(p => p.y);
+  const minX = Math.min(...xs);
+  const minY = Math.min(...ys);
+  const width = Math.max(...xs) - minX;
+  const height = Math.max(...ys) - minY;
+  const padding = 1;
+
+  return (
+    <svg
+      viewBox={`${minX - padding} ${minY - padding} ${width + padding * 2} ${height + padding * 2}`}
+      className="w-full aspect-square rounded bg-muted/40"
+    >
+      <polygon
+        points={template.boundary.map(p => `${p.x},${p.y}`).join(" ")}
+        fill="none"
+        stroke="#9ca3af"
+        strokeWidth={0.3}
+        strokeDasharray="0.8 0.4"
+      />
+      {template.rooms.map((room, index) => (
+        <polygon
+          key={index}
+          points={room.vertices.map(p => `${p.x},${p.y}`).join(" ")}
+          fill={room.color}
+          stroke="#333"
+          strokeWidth={0.25}
+        />
+      ))}
+    </svg>
+  );
+}
+
+interface SaveTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSave: (details: { name: string; description?: string }) => void;
+}
+
+export function SaveTemplateDialog({ open, onOpenChange, onSave }: SaveTemplateDialogProps) {
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+
+  const handleSave = () => {
+    if (!name.trim()) return;
+    onSave({ name: name.trim(), description: description.trim() || undefined });
+    setName("");
+    setDescription("");
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Save as Template</DialogTitle>
+          <DialogDescription>
+            Save this layout so you can start new projects from it.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="grid gap-4 py-4">
+          <div className="grid gap-2">
+            <Label htmlFor="template-name">Template Name</Label>
+            <Input
+              id="template-name"
+              placeholder="e.g., Backyard cottage"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === "Enter") {
+                  handleSave();
+                }
+              }}
+            />
+          </div>
+          <div className="grid gap-2">
+            <Label htmlFor="template-description">Description (optional)</Label>
+            <Input
+              id="template-description"
+              placeholder="e.g., 1 bed with office nook"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} disabled={!name.trim()}>
+            <BookmarkPlus className="h-4 w-4 mr-2" />
+            Save Template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
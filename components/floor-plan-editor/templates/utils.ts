@@ -0,0 +1,158 @@
+import type { ADUTemplate, Room, Door, Window, Point } from "@/lib/types";
+import type { Furniture, FurnitureType, CanvasConfig } from "../types";
+
+export interface TemplatePlan {
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: Furniture[];
+  aduBoundary: Point[];
+}
+
+/**
+ * Turn a template (authored in feet) into editor state in canvas pixels.
+ * The boundary is centered on the canvas and snapped to whole feet so walls land on grid lines.
+ * Every entity gets a fresh id; door/window roomIds stored as room indexes are remapped to the new room ids.
+ */
+export function instantiateTemplate(template: ADUTemplate, config: CanvasConfig): TemplatePlan {
+  const { pixelsPerFoot, extendedGridFeet } = config;
+
+  const xs = template.boundary.map(p => p.x);
+  const ys = template.boundary.map(p => p.y);
+  const widthFeet = Math.max(...xs) - Math.min(...xs);
+  const depthFeet = Math.max(...ys) - Math.min(...ys);
+  const originX = Math.round((extendedGridFeet - widthFeet) / 2) - Math.min(...xs);
+  const originY = Math.round((extendedGridFeet - depthFeet) / 2) - Math.min(...ys);
+
+  const toCanvas = (p: Point): Point => ({
+    x: (p.x + originX) * pixelsPerFoot,
+    y: (p.y + originY) * pixelsPerFoot,
+  });
+
+  const rooms: Room[] = template.rooms.map(room => ({
+    ...room,
+    id: crypto.randomUUID(),
+    vertices: room.vertices.map(toCanvas),
+  }));
+
+  const remapRoomId = (roomId?: string) => {
+    if (roomId === undefined) return undefined;
+    return rooms[Number(roomId)]?.id;
+  };
+
+  const doors: Door[] = template.doors.map(door => ({
+    ...door,
+    id: crypto.randomUUID(),
+    position: toCanvas(door.position),
+    roomId: remapRoomId(door.roomId),
+  }));
+
+  const windows: Window[] = template.windows.map(window => ({
+    ...window,
+    id: crypto.randomUUID(),
+    position: toCanvas(window.position),
+    roomId: remapRoomId(window.roomId),
+  }));
+
+  const furniture: Furniture[] = (template.furniture ?? []).map(item => ({
+    ...item,
+    id: crypto.randomUUID(),
+    type: item.type as FurnitureType,
+    position: toCanvas(item.position),
+  }));
+
+  return {
+    rooms,
+    doors,
+    windows,
+    furniture,
+    aduBoundary: template.boundary.map(toCanvas),
+  };
+}
+
+// Rectangle around the rooms, for plans that have no ADU boundary drawn
+function roomBounds(rooms: Room[]): Point[] {
+  const points = rooms.flatMap(room => room.vertices);
+  if (points.length === 0) return [];
+  const minX = Math.min(...points.map(p => p.x));
+  const minY = Math.min(...points.map(p => p.y));
+  const maxX = Math.max(...points.map(p => p.x));
+  const maxY = Math.max(...points.map(p => p.y));
+  return [
+    { x: minX, y: minY },
+    { x: maxX, y: minY },
+    { x: maxX, y: maxY },
+    { x: minX, y: maxY },
+  ];
+}
+
+/**
+ * Capture the current plan as a reusable custom template.
+ * Coordinates are converted to feet relative to the boundary's top-left corner;
+ * without a boundary, the rectangle around the rooms stands in for it.
+ */
+export function createTemplateFromPlan(
+  plan: TemplatePlan,
+  details: { name: string; description?: string },
+  pixelsPerFoot: number
+): ADUTemplate {
+  const outline = plan.aduBoundary.length >= 3 ? plan.aduBoundary : roomBounds(plan.rooms);
+  const minX = outline.length > 0 ? Math.min(...outline.map(p => p.x)) : 0;
+  const minY = outline.length > 0 ? Math.min(...outline.map(p => p.y)) : 0;
+
+  const toFeet = (p: Point): Point => ({
+    x: Math.round(((p.x - minX) / pixelsPerFoot) * 100) / 100,
+    y: Math.round(((p.y - minY) / pixelsPerFoot) * 100) / 100,
+  });
+
+  // Store room references as indexes since ids are regenerated on instantiation
+  const roomIndex = (roomId?: string) => {
+    if (!roomId) return undefined;
+    const index = plan.rooms.findIndex(r => r.id === roomId);
+    return index >= 0 ? String(index) : undefined;
+  };
+
+  const boundary = outline.map(toFeet);
+  const totalArea = plan.rooms.reduce((sum, room) => sum + room.area, 0);
+
+  return {
+    id: `custom-${crypto.randomUUID()}`,
+    name: details.name,
+    description: details.description || `${plan.rooms.length} rooms`,
+    sqft: String(Math.round(totalArea)),
+    icon: "⭐",
+    rooms: plan.rooms.map(room => ({
+      type: room.type,
+      name: room.name,
+      vertices: room.vertices.map(toFeet),
+      area: room.area,
+      color: room.color,
+      description: room.description,
+    })),
+    doors: plan.doors.map(door => ({
+      type: door.type,
+      position: toFeet(door.position),
+      rotation: door.rotation,
+      width: door.width,
+      roomId: roomIndex(door.roomId),
+    })),
+    windows: plan.windows.map(window => ({
+      type: window.type,
+      position: toFeet(window.position),
+      rotation: window.rotation,
+      width: window.width,
+      height: window.height,
+      roomId: roomIndex(window.roomId),
+    })),
+    furniture: plan.furniture.map(item => ({
+      type: item.type,
+      position: toFeet(item.position),
+      rotation: item.rotation,
+      width: item.width,
+      height: item.height,
+    })),
+    boundary,
+    isCustom: true,
+    createdAt: new Date().toISOString(),
+  };
+}
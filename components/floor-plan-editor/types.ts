@@ -1,39 +1,42 @@
-import type { Point, Room, Door, Window, DoorType, WindowType, RoomType } from "@/lib/types";
+import type {
+  Point,
+  Room,
+  Door,
+  Window,
+  DoorType,
+  WindowType,
+  RoomType,
+  LevelId,
+  Stair,
+  ElectricalDeviceType,
+  Furniture,
+  FurnitureType,
+  LevelContent,
+  LevelSettings,
+  EditorLevel,
+  ImageUnderlaySettings,
+  SavedImageUnderlay,
+} from "@/lib/types";
 import type { LucideIcon } from "lucide-react";
 
-// Furniture types
-export type FurnitureType =
-  | "bed-double" | "bed-single"
-  | "sofa-3seat" | "sofa-2seat" | "armchair"
-  | "table-dining" | "table-coffee"
-  | "toilet" | "sink" | "shower" | "bathtub"
-  | "stove" | "refrigerator" | "dishwasher"
-  | "desk" | "chair";
-
-export interface Furniture {
-  id: string;
-  type: FurnitureType;
-  position: Point;
-  rotation: number; // 0, 90, 180, 270
-  width: number;  // in feet
-  height: number; // in feet (depth)
-}
+// Furniture, level and underlay types (shared with lib/, which can't depend on the editor)
+export type { Furniture, FurnitureType, LevelContent, LevelSettings, EditorLevel, ImageUnderlaySettings, SavedImageUnderlay };
 
 export interface FurnitureConfig {
   name: string;
   width: number;   // feet
   height: number;  // feet (depth)
-  category: "bedroom" | "living" | "bathroom" | "kitchen" | "office";
+  category: "bedroom" | "living" | "bathroom" | "kitchen" | "laundry" | "office";
   icon: LucideIcon;
 }
 
-export type PlacementMode = "select" | "room" | "door" | "window" | "furniture" | "finishes";
+export type PlacementMode = "select" | "room" | "door" | "window" | "furniture" | "electrical" | "plumbing" | "finishes";
 export type DrawMode = "rectangle" | "polygon";
 export type FurnitureSnapMode = "grid" | "half" | "free";
 
 export interface DraggedItem {
-  type: "furniture" | "door" | "window";
-  subType: FurnitureType | DoorType | WindowType;
+  type: "furniture" | "door" | "window" | "electrical";
+  subType: FurnitureType | DoorType | WindowType | ElectricalDeviceType;
 }
 
 export interface DeleteDialogState {
@@ -74,4 +77,4 @@ export interface CanvasConfig {
 }
 
 // Re-export types from lib for convenience
-export type { Point, Room, Door, Window, DoorType, WindowType, RoomType };
+export type { Point, Room, Door, Window, DoorType, WindowType, RoomType, LevelId, Stair };
@@ -0,0 +1,111 @@
+// Named design alternatives ("Option A: 2BR", "Option B: 1BR + office") on the same project
+import type { Finishes, EditorSnapshotData } from "./types";
+import type { Lot } from "./api/client";
+
+export type AlternativePlan = EditorSnapshotData;
+
+// Where an alternative puts the ADU on the lot. Alternatives can share a blueprint (and so its
+// lot record), so each one keeps its own placement and shows it over the lot it is on.
+export type AlternativeLotPlacement = Pick<Lot, "aduOffsetX" | "aduOffsetY" | "aduRotation">;
+
+export interface DesignAlternative {
+  id: string;
+  name: string;
+  createdAt: string;
+  updatedAt: string;
+  // Blueprint versions saved for this alternative, oldest first. A duplicated alternative
+  // starts from the blueprint its source was on, so its first entry may belong to the source.
+  blueprintIds: string[];
+  // Plan, view settings and lot placement as last edited - absent until the alternative is left once
+  working?: AlternativePlan;
+  lotPlacement?: AlternativeLotPlacement;
+  finishes?: Finishes | null;
+}
+
+export interface AlternativesState {
+  projectId: string | null;
+  activeId: string;
+  alternatives: DesignAlternative[];
+}
+
+const NAME_LETTERS = "ABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+/**
+ * First unused "Option X" name (falls back to numbers after Z)
+ */
+export function nextAlternativeName(alternatives: DesignAlternative[]): string {
+  const taken = new Set(alternatives.map(a => a.name.split(":")[0].trim()));
+  const letter = NAME_LETTERS.split("").find(l => !taken.has(`Option ${l}`));
+  return letter ? `Option ${letter}` : `Option ${alternatives.length + 1}`;
+}
+
+export function createAlternative(
+  name: string,
+  from?: Pick<DesignAlternative, "blueprintIds" | "working" | "lotPlacement" | "finishes">
+): DesignAlternative {
+  const now = new Date().toISOString();
+  return {
+    id: crypto.randomUUID(),
+    name,
+    createdAt: now,
+    updatedAt: now,
+    blueprintIds: from?.blueprintIds.slice(-1) ?? [],
+    ...(from?.working && { working: JSON.parse(JSON.stringify(from.working)) }),
+    ...(from?.lotPlacement && { lotPlacement: { ...from.lotPlacement } }),
+    ...(from?.finishes !== undefined && { finishes: from.finishes }),
+  };
+}
+
+/**
+ * Alternatives for a project with nothing split off yet - one option on the current blueprint
+ */
+export function createAlternativesState(projectId: string | null, blueprintId: string | null): AlternativesState {
+  const first = createAlternative(nextAlternativeName([]));
+  if (blueprintId) first.blueprintIds.push(blueprintId);
+  return { projectId, activeId: first.id, alternatives: [first] };
+}
+
+export function latestBlueprintId(alternative: DesignAlternative): string | null {
+  return alternative.blueprintIds[alternative.blueprintIds.length - 1] ?? null;
+}
+
+/**
+ * The alternative a blueprint version was saved for. A duplicate starts from its source's
+ * latest blueprint, so when several alternatives list it the oldest one - the source - made it.
+ */
+export function alternativeForBlueprint(
+  alternatives: DesignAlternative[],
+  blueprintId: string
+): DesignAlternative | null {
+  return alternatives
+    .filter(a => a.blueprintIds.includes(blueprintId))
+    .sort((a, b) => Date.parse(a.createdAt) - Date.parse(b.createdAt))[0] ?? null;
+}
+
+/**
+ * The alternative's own ADU placement - alternatives from before placements were kept
+ * fall back to the lot saved with their plan
+ */
+export function alternativeLotPlacement(alternative: DesignAlternative): AlternativeLotPlacement | null {
+  if (alternative.lotPlacement) return alternative.lotPlacement;
+  const lotData = alternative.working?.lotData;
+  return lotData
+    ? { aduOffsetX: lotData.aduOffsetX, aduOffsetY: lotData.aduOffsetY, aduRotation: lotData.aduRotation }
+    : null;
+}
+
+/**
+ * A plan with nothing drawn that keeps the lot, boundary and view of another plan
+ */
+export function blankAlternativePlan(from: AlternativePlan): AlternativePlan {
+  return {
+    rooms: [],
+    doors: [],
+    windows: [],
+    furniture: [],
+    aduBoundary: JSON.parse(JSON.stringify(from.aduBoundary)),
+    ...(from.editorSettings && { editorSettings: { ...from.editorSettings } }),
+    ...(from.lotData && { lotData: JSON.parse(JSON.stringify(from.lotData)) }),
+    ...(from.ceilingHeight !== undefined && { ceilingHeight: from.ceilingHeight }),
+  };
+}
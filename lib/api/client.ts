@@ -21,6 +21,21 @@ export interface ApiResponse<T> {
   }
 }
 
+// Carries the HTTP status so callers can tell a rejected request from a network failure
+export class ApiError extends Error {
+  status: number
+
+  constructor(message: string, status: number) {
+    super(message)
+    this.name = "ApiError"
+    this.status = status
+  }
+}
+
+// Header the backend uses to ignore replays of a request it has already applied
+const idempotencyHeader = (key?: string): Record<string, string> =>
+  key ? { "Idempotency-Key": key } : {}
+
 async function fetchApi<T>(
   endpoint: string,
   options: RequestInit = {}
@@ -38,7 +53,7 @@ async function fetchApi<T>(
   const data = await response.json()
 
   if (!response.ok) {
-    throw new Error(data.message || "API request failed")
+    throw new ApiError(data.message || "API request failed", response.status)
   }
 
   return data
@@ -151,8 +166,46 @@ export interface FurnitureData {
   rotation?: number
 }
 
+export type LevelKey = "garage-below" | "ground" | "second"
+
+// Additional building level - the top-level rooms/doors/windows/furniture are the ground level
+export interface LevelData {
+  level: LevelKey
+  name: string
+  ceilingHeightFeet: number
+  areaSqFt: number
+  rooms: RoomData[]
+  doors: DoorData[]
+  windows: WindowData[]
+  furniture?: FurnitureData[]
+}
+
+// Straight stair occupying the same footprint on two adjacent levels
+export interface StairData {
+  fromLevel: LevelKey
+  toLevel: LevelKey
+  x: number // center
+  y: number
+  widthFeet: number
+  lengthFeet: number
+  rotation?: number
+}
+
+// Electrical plan device (receptacle, switch, light fixture, smart device or panel)
+export interface ElectricalDeviceData {
+  id: string // kept so switch-to-light links survive the round trip
+  type: string
+  level: LevelKey
+  x: number // center
+  y: number
+  rotation?: number
+  circuit?: string
+  controls?: string[] // switches: ids of the lights they control
+}
+
 export interface SaveBlueprintData {
   projectId: string
+  alternativeId?: string // design alternative whose lineage this version continues
   name?: string
   canvasWidth?: number
   canvasHeight?: number
@@ -165,6 +218,11 @@ export interface SaveBlueprintData {
   doors: DoorData[]
   windows: WindowData[]
   furniture?: FurnitureData[]
+  // Multi-story fields (optional - single-level blueprints omit them)
+  ceilingHeightFeet?: number
+  levels?: LevelData[]
+  stairs?: StairData[]
+  electrical?: ElectricalDeviceData[]
   totalRoomAreaSqFt?: number
   isValid?: boolean
   validationErrors?: string[]
@@ -173,6 +231,7 @@ export interface SaveBlueprintData {
 export interface Blueprint {
   id: string
   projectId: string
+  alternativeId?: string
   version: number
   name?: string
   canvasWidth: number
@@ -203,10 +262,12 @@ export interface SaveBlueprintResponse {
 }
 
 export async function saveBlueprint(
-  data: SaveBlueprintData
+  data: SaveBlueprintData,
+  idempotencyKey?: string
 ): Promise<ApiResponse<SaveBlueprintResponse>> {
   return fetchApi<SaveBlueprintResponse>("/blueprints/save", {
     method: "POST",
+    headers: idempotencyHeader(idempotencyKey),
     body: JSON.stringify(data),
   })
 }
@@ -348,6 +409,7 @@ export interface SessionDetails {
     id: string
     projectId: string
     blueprintId?: string
+    alternativeId?: string // design alternative being edited (missing on sessions from before alternatives)
     status: string
     actionCount: number
     startedAt: string
@@ -376,6 +438,7 @@ export interface SessionDetails {
 export async function startEditorSession(data: {
   projectId: string
   blueprintId?: string
+  alternativeId?: string
 }): Promise<ApiResponse<EditorSession>> {
   return fetchApi<EditorSession>("/actions/sessions", {
     method: "POST",
@@ -415,10 +478,12 @@ export async function logAction(
  * Log multiple actions in batch (more efficient)
  */
 export async function logActionBatch(
-  data: BatchActionData
+  data: BatchActionData,
+  idempotencyKey?: string
 ): Promise<ApiResponse<{ logged: number; sessionId: string }>> {
   return fetchApi("/actions/log-batch", {
     method: "POST",
+    headers: idempotencyHeader(idempotencyKey),
     body: JSON.stringify(data),
   })
 }
@@ -748,6 +813,21 @@ export async function validateADUBoundary(
 
 // ============ Snapshots / Version History API ============
 
+// Raster tracing underlay saved with snapshots (position in ADU canvas pixels)
+export interface SnapshotImageUnderlay {
+  imageId?: string // Key in the browser's underlay image store
+  src?: string // Data URL - only in snapshots from before the image store
+  imageWidth: number
+  imageHeight: number
+  x: number
+  y: number
+  scale: number
+  rotation: number
+  opacity: number
+  locked: boolean
+  visible: boolean
+}
+
 // Editor view settings saved with snapshots
 export interface SnapshotEditorSettings {
   showLotOverlay: boolean
@@ -757,6 +837,8 @@ export interface SnapshotEditorSettings {
   zoom: number
   panOffsetX: number
   panOffsetY: number
+  // Optional for backward compatibility with old snapshots
+  imageUnderlay?: SnapshotImageUnderlay | null
 }
 
 // Lot data saved with snapshots
@@ -780,9 +862,44 @@ export interface SnapshotLotData {
   setbackBackFeet: number
   setbackLeftFeet: number
   setbackRightFeet: number
+  // Optional for backward compatibility with old snapshots
+  existingStructures?: ExistingStructure[]
+  zoningProfileId?: string
+  sewerConnection?: Vertex
   dataSource?: string
 }
 
+// Additional level saved with snapshots (same shape as the top-level snapshot fields)
+export interface SnapshotLevel {
+  id: LevelKey
+  name: string
+  ceilingHeight: number
+  rooms: RoomData[]
+  doors: DoorData[]
+  windows: WindowData[]
+  furniture: FurnitureData[]
+}
+
+export interface SnapshotStair {
+  id: string
+  position: Vertex
+  rotation: number
+  width: number
+  length: number
+  fromLevel: LevelKey
+  toLevel: LevelKey
+}
+
+export interface SnapshotElectricalDevice {
+  id: string
+  type: string
+  position: Vertex
+  rotation: number
+  level: LevelKey
+  circuit?: string
+  controls?: string[]
+}
+
 export interface SnapshotData {
   rooms: RoomData[]
   doors: DoorData[]
@@ -792,6 +909,13 @@ export interface SnapshotData {
   // Optional fields for backward compatibility with old snapshots
   editorSettings?: SnapshotEditorSettings
   lotData?: SnapshotLotData
+  // Multi-story data - top-level rooms/doors/windows/furniture are the ground level
+  ceilingHeight?: number
+  levels?: SnapshotLevel[]
+  stairs?: SnapshotStair[]
+  electrical?: SnapshotElectricalDevice[]
+  // Design alternative the snapshot belongs to (older snapshots belong to the first one)
+  alternativeId?: string
 }
 
 export interface Snapshot {
@@ -810,15 +934,21 @@ export interface Snapshot {
   updatedAt: string
 }
 
-export async function createSnapshot(data: {
+export interface CreateSnapshotData {
   projectId: string
   blueprintId?: string
   type: "auto" | "manual"
   label?: string
   data: SnapshotData
-}): Promise<ApiResponse<{ snapshot: Snapshot }>> {
+}
+
+export async function createSnapshot(
+  data: CreateSnapshotData,
+  idempotencyKey?: string
+): Promise<ApiResponse<{ snapshot: Snapshot }>> {
   return fetchApi("/snapshots", {
     method: "POST",
+    headers: idempotencyHeader(idempotencyKey),
     body: JSON.stringify(data),
   })
 }
@@ -856,6 +986,17 @@ export interface GeoVertex {
   lng: number
 }
 
+export type ExistingStructureType = "primary_dwelling" | "garage" | "shed" | "pool" | "tree"
+
+// Building or feature already on the lot (footprint in feet relative to the lot center, canvas Y down)
+export interface ExistingStructure {
+  id: string
+  type: ExistingStructureType
+  label?: string
+  vertices: Vertex[]
+  stories?: number // buildings only, defaults to 1
+}
+
 export interface LotData {
   blueprintId: string
   parcelNumber?: string
@@ -877,7 +1018,11 @@ export interface LotData {
   setbackBackFeet?: number
   setbackLeftFeet?: number
   setbackRightFeet?: number
-  dataSource?: "orange_county_gis" | "manual" | "nominatim"
+  existingStructures?: ExistingStructure[]
+  zoningProfileId?: string
+  geoProviderId?: string
+  sewerConnection?: Vertex | null // null clears it
+  dataSource?: "orange_county_gis" | "manual" | "nominatim" | "local_geojson"
 }
 
 export interface Lot {
@@ -902,6 +1047,10 @@ export interface Lot {
   setbackBackFeet: number
   setbackLeftFeet: number
   setbackRightFeet: number
+  existingStructures?: ExistingStructure[]
+  zoningProfileId?: string // overrides the profile resolved from the address
+  geoProviderId?: string // address search / parcel lookup provider picked for this lot
+  sewerConnection?: Vertex | null // sewer lateral tie-in, in feet relative to the lot center
   dataSource?: string
   isDeleted: boolean
   createdAt: string
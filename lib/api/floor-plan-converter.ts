@@ -2,7 +2,7 @@
  * Convert floor plan editor data to API format
  */
 
-import type { SaveBlueprintData, RoomData, DoorData, WindowData, FurnitureData } from "./client"
+import type { SaveBlueprintData, RoomData, DoorData, WindowData, FurnitureData, LevelData, StairData, ElectricalDeviceData, LevelKey } from "./client"
 
 // Types matching the floor plan editor
 interface EditorRoom {
@@ -46,6 +46,37 @@ interface EditorFurniture {
   rotation?: number
 }
 
+interface EditorLevel {
+  id: LevelKey
+  name: string
+  ceilingHeight: number
+  rooms: EditorRoom[]
+  doors: EditorDoor[]
+  windows: EditorWindow[]
+  furniture: EditorFurniture[]
+}
+
+interface EditorStair {
+  fromLevel: LevelKey
+  toLevel: LevelKey
+  x: number
+  y: number
+  width: number
+  length: number
+  rotation?: number
+}
+
+interface EditorElectricalDevice {
+  id: string
+  type: string
+  level: LevelKey
+  x: number
+  y: number
+  rotation?: number
+  circuit?: string
+  controls?: string[]
+}
+
 interface EditorData {
   rooms: EditorRoom[]
   doors: EditorDoor[]
@@ -55,6 +86,11 @@ interface EditorData {
   pixelsPerFoot?: number
   canvasWidth?: number
   canvasHeight?: number
+  // Multi-story: top-level rooms/doors/windows/furniture are the ground level
+  ceilingHeight?: number
+  levels?: EditorLevel[]
+  stairs?: EditorStair[]
+  electrical?: EditorElectricalDevice[]
 }
 
 // Pixels per foot (matching the editor)
@@ -189,6 +225,53 @@ function convertFurniture(item: EditorFurniture): FurnitureData {
   }
 }
 
+/**
+ * Convert an additional building level to API format
+ */
+function convertLevel(level: EditorLevel, pixelsPerFoot: number): LevelData {
+  return {
+    level: level.id,
+    name: level.name,
+    ceilingHeightFeet: level.ceilingHeight,
+    areaSqFt: level.rooms.reduce((sum, room) => sum + room.area, 0),
+    rooms: level.rooms.map((r) => convertRoom(r, pixelsPerFoot)),
+    doors: level.doors.map(convertDoor),
+    windows: level.windows.map(convertWindow),
+    furniture: level.furniture.map(convertFurniture),
+  }
+}
+
+/**
+ * Convert editor stair data to API format
+ */
+function convertStair(stair: EditorStair): StairData {
+  return {
+    fromLevel: stair.fromLevel,
+    toLevel: stair.toLevel,
+    x: stair.x,
+    y: stair.y,
+    widthFeet: stair.width,
+    lengthFeet: stair.length,
+    rotation: stair.rotation ?? 0,
+  }
+}
+
+/**
+ * Convert editor electrical device data to API format
+ */
+function convertElectricalDevice(device: EditorElectricalDevice): ElectricalDeviceData {
+  return {
+    id: device.id,
+    type: device.type,
+    level: device.level,
+    x: device.x,
+    y: device.y,
+    rotation: device.rotation ?? 0,
+    circuit: device.circuit || undefined,
+    controls: device.controls?.length ? device.controls : undefined,
+  }
+}
+
 /**
  * Calculate polygon area from vertices (in square pixels)
  */
@@ -241,6 +324,12 @@ export function convertEditorDataToApi(
     doors: editorData.doors.map(convertDoor),
     windows: editorData.windows.map(convertWindow),
     furniture: editorData.furniture.map(convertFurniture),
+    ceilingHeightFeet: editorData.ceilingHeight,
+    levels: editorData.levels?.length
+      ? editorData.levels.map((l) => convertLevel(l, pixelsPerFoot))
+      : undefined,
+    stairs: editorData.stairs?.length ? editorData.stairs.map(convertStair) : undefined,
+    electrical: editorData.electrical?.length ? editorData.electrical.map(convertElectricalDevice) : undefined,
     totalRoomAreaSqFt,
     isValid: options?.isValid,
     validationErrors: options?.validationErrors,
@@ -1,6 +1,6 @@
 "use client"
 
-import { useState, useCallback, useEffect } from "react"
+import { useState, useCallback, useEffect, useMemo } from "react"
 import * as api from "./client"
 import type {
   Project,
@@ -11,6 +11,8 @@ import type {
   GenerateVisualizationResponse,
   Lot,
   LotData,
+  ExistingStructure,
+  Vertex,
   AddressResult,
   ParcelData,
   Finishes,
@@ -22,6 +24,7 @@ import type {
   TierOption,
   TemplateOption,
 } from "./client"
+import { DEFAULT_GEO_PROVIDER_ID, getGeoProvider } from "../geo"
 
 /**
  * Hook for managing the current project
@@ -191,6 +194,7 @@ export function useVisualization() {
 
 /**
  * Hook for managing lot data and parcel lookup
+ * Address search and parcel lookup go through the geo provider saved on the lot
  */
 export function useLot(blueprintId?: string) {
   const [lot, setLot] = useState<Lot | null>(null)
@@ -198,9 +202,13 @@ export function useLot(blueprintId?: string) {
   const [error, setError] = useState<string | null>(null)
   const [addressResults, setAddressResults] = useState<AddressResult[]>([])
   const [parcelData, setParcelData] = useState<ParcelData | null>(null)
+  // Provider picked before the lot exists - saved onto the lot when it is created
+  const [draftGeoProviderId, setDraftGeoProviderId] = useState(DEFAULT_GEO_PROVIDER_ID)
+  const geoProviderId = lot?.geoProviderId ?? draftGeoProviderId
+  const geoProvider = useMemo(() => getGeoProvider(geoProviderId), [geoProviderId])
 
   /**
-   * Search for addresses using Nominatim geocoding
+   * Search for addresses with the geo provider
    */
   const searchAddresses = useCallback(async (query: string) => {
     if (query.length < 3) {
@@ -210,27 +218,27 @@ export function useLot(blueprintId?: string) {
     setLoading(true)
     setError(null)
     try {
-      const response = await api.searchAddress(query)
-      setAddressResults(response.data.results)
-      return response.data.results
+      const results = await geoProvider.searchAddress(query)
+      setAddressResults(results)
+      return results
     } catch (e) {
       setError((e as Error).message)
       return []
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [geoProvider])
 
   /**
-   * Get parcel data from Orange County GIS
+   * Get parcel data for a point from the geo provider
    */
   const fetchParcelData = useCallback(async (lat: number, lng: number) => {
     setLoading(true)
     setError(null)
     try {
-      const response = await api.getParcelData(lat, lng)
-      setParcelData(response.data.parcel)
-      return response.data.parcel
+      const parcel = await geoProvider.getParcel(lat, lng)
+      setParcelData(parcel)
+      return parcel
     } catch (e) {
       setError((e as Error).message)
       setParcelData(null)
@@ -238,7 +246,7 @@ export function useLot(blueprintId?: string) {
     } finally {
       setLoading(false)
     }
-  }, [])
+  }, [geoProvider])
 
   /**
    * Load lot for current blueprint
@@ -281,7 +289,7 @@ export function useLot(blueprintId?: string) {
         return response.data.lot
       } else {
         // Create new lot
-        const response = await api.createLot({ ...data, blueprintId })
+        const response = await api.createLot({ geoProviderId: draftGeoProviderId, ...data, blueprintId })
         setLot(response.data.lot)
         return response.data.lot
       }
@@ -291,7 +299,7 @@ export function useLot(blueprintId?: string) {
     } finally {
       setLoading(false)
     }
-  }, [blueprintId, lot])
+  }, [blueprintId, lot, draftGeoProviderId])
 
   /**
    * Update ADU position on lot (optimistic update for immediate UI feedback)
@@ -470,6 +478,109 @@ export function useLot(blueprintId?: string) {
     }
   }, [lot])
 
+  /**
+   * Switch the lot's zoning profile and apply that jurisdiction's setbacks
+   */
+  const updateZoningProfile = useCallback(async (zoningProfileId: string, setbacks: {
+    front: number
+    back: number
+    left: number
+    right: number
+  }) => {
+    if (!lot) {
+      setError("No lot loaded")
+      throw new Error("No lot loaded")
+    }
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await api.updateLot(lot.id, {
+        zoningProfileId,
+        setbackFrontFeet: setbacks.front,
+        setbackBackFeet: setbacks.back,
+        setbackLeftFeet: setbacks.left,
+        setbackRightFeet: setbacks.right,
+      })
+      setLot(response.data.lot)
+      return response.data.lot
+    } catch (e) {
+      setError((e as Error).message)
+      throw e
+    } finally {
+      setLoading(false)
+    }
+  }, [lot])
+
+  /**
+   * Replace the existing structures on the lot (optimistic update so canvas edits stay smooth)
+   */
+  const updateExistingStructures = useCallback(async (existingStructures: ExistingStructure[]) => {
+    if (!lot) {
+      setError("No lot loaded")
+      throw new Error("No lot loaded")
+    }
+
+    setLot(prev => prev ? { ...prev, existingStructures } : null)
+
+    setError(null)
+    try {
+      const response = await api.updateLot(lot.id, { existingStructures })
+      setLot(response.data.lot)
+      return response.data.lot
+    } catch (e) {
+      // Revert on error
+      setLot(lot)
+      setError((e as Error).message)
+      throw e
+    }
+  }, [lot])
+
+  /**
+   * Move the sewer lateral connection (feet from the lot center), or clear it with null
+   */
+  const updateSewerConnection = useCallback(async (sewerConnection: Vertex | null) => {
+    if (!lot) {
+      setError("No lot loaded")
+      throw new Error("No lot loaded")
+    }
+
+    setLot(prev => prev ? { ...prev, sewerConnection } : null)
+
+    setError(null)
+    try {
+      const response = await api.updateLot(lot.id, { sewerConnection })
+      setLot(response.data.lot)
+      return response.data.lot
+    } catch (e) {
+      // Revert on error
+      setLot(lot)
+      setError((e as Error).message)
+      throw e
+    }
+  }, [lot])
+
+  /**
+   * Switch the address search / parcel lookup provider, saving it on the lot once there is one
+   */
+  const updateGeoProvider = useCallback(async (geoProviderId: string) => {
+    setDraftGeoProviderId(geoProviderId)
+    if (!lot) return null
+
+    setLot(prev => prev ? { ...prev, geoProviderId } : null)
+
+    setError(null)
+    try {
+      const response = await api.updateLot(lot.id, { geoProviderId })
+      setLot(response.data.lot)
+      return response.data.lot
+    } catch (e) {
+      // Revert on error
+      setLot(lot)
+      setError((e as Error).message)
+      throw e
+    }
+  }, [lot])
+
   /**
    * Delete lot
    */
@@ -505,6 +616,7 @@ export function useLot(blueprintId?: string) {
     error,
     addressResults,
     parcelData,
+    geoProvider,
     searchAddresses,
     fetchParcelData,
     loadLot,
@@ -513,6 +625,10 @@ export function useLot(blueprintId?: string) {
     updateSetbacks,
     updateLotDimensions,
     updateLotCustomBoundary,
+    updateExistingStructures,
+    updateSewerConnection,
+    updateGeoProvider,
+    updateZoningProfile,
     removeLot,
     clearAddressResults,
   }
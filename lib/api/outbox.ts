@@ -0,0 +1,379 @@
+/**
+ * Durable outbox for writes to the backend
+ *
+ * Action batches, blueprint saves and snapshots are written to IndexedDB before
+ * they are sent, so a failed or interrupted request survives a reload. Every
+ * entry's id doubles as its idempotency key, which lets the backend ignore a
+ * replay of a request it already applied. Failed entries are retried with
+ * exponential backoff, and the whole outbox is flushed again when the browser
+ * comes back online or the tab becomes visible.
+ */
+
+import * as api from "./client"
+
+export type OutboxKind = "actions" | "blueprint" | "snapshot"
+
+export interface ActionsOutboxPayload {
+  localSessionId: string // groups batches from one editor session, even if it never started on the server
+  projectId: string
+  blueprintId?: string
+  actions: api.BatchActionData["actions"]
+}
+
+interface OutboxPayloads {
+  actions: ActionsOutboxPayload
+  blueprint: api.SaveBlueprintData
+  snapshot: api.CreateSnapshotData
+}
+
+interface OutboxResponses {
+  actions: Awaited<ReturnType<typeof api.logActionBatch>>
+  blueprint: Awaited<ReturnType<typeof api.saveBlueprint>>
+  snapshot: Awaited<ReturnType<typeof api.createSnapshot>>
+}
+
+export interface OutboxEntry<K extends OutboxKind = OutboxKind> {
+  id: string // also sent as the Idempotency-Key header
+  kind: K
+  payload: OutboxPayloads[K]
+  dedupeKey?: string // a newer entry with the same key replaces this one
+  createdAt: number
+  attempts: number
+  nextAttemptAt: number
+  lastError?: string
+}
+
+export type OutboxResult<K extends OutboxKind> =
+  | { status: "sent"; id: string; response: OutboxResponses[K] }
+  | { status: "queued"; id: string }
+  | { status: "rejected"; id: string; error: string }
+
+const DB_NAME = "aduvisualizer-outbox"
+const STORE_NAME = "entries"
+
+const BASE_RETRY_MS = 2000
+const MAX_RETRY_MS = 5 * 60 * 1000
+
+// ============ Storage ============
+
+// Used when IndexedDB is unavailable (server render, some private browsing modes) or a write to it failed
+const memoryStore = new Map<string, OutboxEntry>()
+let dbPromise: Promise<IDBDatabase | null> | null = null
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null)
+        return
+      }
+      const request = indexedDB.open(DB_NAME, 1)
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" })
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => {
+        console.error("[Outbox] Failed to open IndexedDB, falling back to memory:", request.error)
+        resolve(null)
+      }
+    })
+  }
+  return dbPromise
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb()
+  if (!db) throw new Error("IndexedDB unavailable")
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME))
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function readEntries(): Promise<OutboxEntry[]> {
+  const stored = (await openDb())
+    ? await withStore("readonly", (store) => store.getAll() as IDBRequest<OutboxEntry[]>)
+    : []
+  return [...stored, ...memoryStore.values()].sort((a, b) => a.createdAt - b.createdAt)
+}
+
+async function putEntry(entry: OutboxEntry): Promise<void> {
+  if (memoryStore.has(entry.id) || !(await openDb())) {
+    memoryStore.set(entry.id, entry)
+  } else {
+    await withStore("readwrite", (store) => store.put(entry))
+  }
+}
+
+async function deleteEntry(id: string): Promise<void> {
+  memoryStore.delete(id)
+  if (await openDb()) {
+    await withStore("readwrite", (store) => store.delete(id))
+  }
+}
+
+// ============ Listeners ============
+
+type PendingListener = (pending: number) => void
+type DeliveredListener = (entry: OutboxEntry, response: unknown) => void
+
+const pendingListeners = new Set<PendingListener>()
+const deliveredListeners = new Set<DeliveredListener>()
+
+// An action batch counts each of its actions as a change
+const entrySize = (entry: OutboxEntry) =>
+  entry.kind === "actions" ? (entry.payload as ActionsOutboxPayload).actions.length : 1
+
+async function notifyPending(): Promise<void> {
+  try {
+    const pending = (await readEntries()).reduce((sum, entry) => sum + entrySize(entry), 0)
+    pendingListeners.forEach((listener) => listener(pending))
+  } catch (error) {
+    console.error("[Outbox] Failed to count pending entries:", error)
+  }
+}
+
+/**
+ * Subscribe to the number of changes waiting to be synced
+ */
+export function subscribeOutbox(listener: PendingListener): () => void {
+  pendingListeners.add(listener)
+  notifyPending()
+  return () => {
+    pendingListeners.delete(listener)
+  }
+}
+
+/**
+ * Subscribe to entries of one kind that were delivered in the background,
+ * after the code that queued them stopped waiting (e.g. a save made offline)
+ */
+export function onOutboxDelivered<K extends OutboxKind>(
+  kind: K,
+  listener: (response: OutboxResponses[K], entry: OutboxEntry<K>) => void
+): () => void {
+  const wrapped: DeliveredListener = (entry, response) => {
+    if (entry.kind === kind) listener(response as OutboxResponses[K], entry as OutboxEntry<K>)
+  }
+  deliveredListeners.add(wrapped)
+  return () => {
+    deliveredListeners.delete(wrapped)
+  }
+}
+
+// ============ Sending ============
+
+// Server sessions for each editor session, started on demand for batches queued before one existed
+const sessionIds = new Map<string, Promise<string>>()
+
+/**
+ * Tell the outbox which server session an editor session's batches belong to
+ */
+export function bindOutboxSession(localSessionId: string, sessionId: Promise<string>): void {
+  sessionIds.set(localSessionId, sessionId)
+}
+
+function resolveSession(payload: ActionsOutboxPayload): Promise<string> {
+  const known = sessionIds.get(payload.localSessionId)
+  if (known) {
+    return known.catch(() => {
+      sessionIds.delete(payload.localSessionId)
+      return resolveSession(payload)
+    })
+  }
+  const started = api
+    .startEditorSession({ projectId: payload.projectId, blueprintId: payload.blueprintId })
+    .then((response) => response.data.sessionId)
+  sessionIds.set(payload.localSessionId, started)
+  return started
+}
+
+async function send(entry: OutboxEntry): Promise<unknown> {
+  switch (entry.kind) {
+    case "actions": {
+      const payload = entry.payload as ActionsOutboxPayload
+      const sessionId = await resolveSession(payload)
+      return api.logActionBatch({ sessionId, actions: payload.actions }, entry.id)
+    }
+    case "blueprint":
+      return api.saveBlueprint(entry.payload as api.SaveBlueprintData, entry.id)
+    case "snapshot":
+      return api.createSnapshot(entry.payload as api.CreateSnapshotData, entry.id)
+  }
+}
+
+// 4xx responses won't succeed on retry - anything else (network, 5xx, timeouts, rate limits) might
+function isRejected(error: unknown): boolean {
+  return error instanceof api.ApiError &&
+    error.status >= 400 && error.status < 500 &&
+    error.status !== 408 && error.status !== 429
+}
+
+/**
+ * Backoff before the next attempt, doubling per failure with jitter so
+ * several open tabs don't retry in lockstep
+ */
+export function outboxRetryDelay(attempts: number): number {
+  const delay = Math.min(MAX_RETRY_MS, BASE_RETRY_MS * 2 ** Math.max(0, attempts - 1))
+  return delay / 2 + Math.random() * (delay / 2)
+}
+
+// ============ Flushing ============
+
+const waiting = new Set<string>()
+const results = new Map<string, OutboxResult<OutboxKind>>()
+
+let flushing: Promise<void> | null = null
+let flushRequested = false
+let forceRequested = false
+let retryTimer: ReturnType<typeof setTimeout> | null = null
+
+function scheduleRetry(entries: OutboxEntry[]) {
+  if (retryTimer) clearTimeout(retryTimer)
+  retryTimer = null
+  if (entries.length === 0 || typeof window === "undefined") return
+  const next = Math.min(...entries.map((entry) => entry.nextAttemptAt))
+  retryTimer = setTimeout(() => flushOutbox(), Math.max(0, next - Date.now()))
+}
+
+async function flushPass(force: boolean): Promise<void> {
+  // Offline attempts would only burn through the backoff - the online event flushes instead
+  if (typeof navigator !== "undefined" && !navigator.onLine) return
+
+  const entries = await readEntries()
+  // Entries of one kind go out in order, so a waiting or failed entry holds back the ones behind it
+  const blocked = new Set<OutboxKind>()
+
+  for (const entry of entries) {
+    if (blocked.has(entry.kind)) continue
+    if (!force && entry.nextAttemptAt > Date.now()) {
+      blocked.add(entry.kind)
+      continue
+    }
+
+    try {
+      const response = await send(entry)
+      await deleteEntry(entry.id)
+      if (waiting.has(entry.id)) {
+        results.set(entry.id, { status: "sent", id: entry.id, response } as OutboxResult<OutboxKind>)
+      } else {
+        deliveredListeners.forEach((listener) => listener(entry, response))
+      }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      if (isRejected(error)) {
+        console.error(`[Outbox] Server rejected ${entry.kind} ${entry.id}, dropping it:`, error)
+        await deleteEntry(entry.id)
+        if (waiting.has(entry.id)) results.set(entry.id, { status: "rejected", id: entry.id, error: message })
+        continue
+      }
+      const attempts = entry.attempts + 1
+      console.error(`[Outbox] Failed to send ${entry.kind} (attempt ${attempts}):`, error)
+      blocked.add(entry.kind)
+      // A newer save may have replaced this entry while it was in flight
+      if (!(await readEntries()).some((e) => e.id === entry.id)) continue
+      await putEntry({ ...entry, attempts, nextAttemptAt: Date.now() + outboxRetryDelay(attempts), lastError: message })
+    }
+  }
+}
+
+/**
+ * Send every entry that is due. `force` ignores the backoff and retries now.
+ * Concurrent calls share one flush; a call made mid-flush triggers another pass.
+ */
+export function flushOutbox(force = false): Promise<void> {
+  flushRequested = true
+  forceRequested = forceRequested || force
+  if (!flushing) {
+    flushing = (async () => {
+      while (flushRequested) {
+        const forceThisPass = forceRequested
+        flushRequested = false
+        forceRequested = false
+        try {
+          await flushPass(forceThisPass)
+        } catch (error) {
+          console.error("[Outbox] Flush failed:", error)
+        }
+      }
+      const remaining = await readEntries().catch(() => [])
+      scheduleRetry(remaining)
+      await notifyPending()
+    })().finally(() => {
+      flushing = null
+    })
+  }
+  return flushing
+}
+
+/**
+ * Persist a write without waiting for it to be sent
+ */
+export async function enqueueOutbox<K extends OutboxKind>(
+  kind: K,
+  payload: OutboxPayloads[K],
+  options: { dedupeKey?: string } = {}
+): Promise<OutboxEntry<K>> {
+  const now = Date.now()
+  const entry: OutboxEntry<K> = {
+    id: crypto.randomUUID(),
+    kind,
+    payload,
+    dedupeKey: options.dedupeKey,
+    createdAt: now,
+    attempts: 0,
+    nextAttemptAt: now,
+  }
+
+  try {
+    if (options.dedupeKey) {
+      const superseded = (await readEntries()).filter((e) => e.dedupeKey === options.dedupeKey)
+      await Promise.all(superseded.map((e) => deleteEntry(e.id)))
+    }
+    await putEntry(entry)
+  } catch (error) {
+    // Still deliverable this session, just not across a reload
+    console.error("[Outbox] Failed to persist entry, keeping it in memory:", error)
+    memoryStore.set(entry.id, entry)
+  }
+  notifyPending()
+  return entry
+}
+
+/**
+ * Persist a write, try to send it right away and report what happened.
+ * A "queued" result stays in the outbox and is retried in the background.
+ */
+export async function sendViaOutbox<K extends OutboxKind>(
+  kind: K,
+  payload: OutboxPayloads[K],
+  options: { dedupeKey?: string } = {}
+): Promise<OutboxResult<K>> {
+  const entry = await enqueueOutbox(kind, payload, options)
+  waiting.add(entry.id)
+  try {
+    await flushOutbox()
+    return (results.get(entry.id) as OutboxResult<K> | undefined) ?? { status: "queued", id: entry.id }
+  } finally {
+    waiting.delete(entry.id)
+    results.delete(entry.id)
+  }
+}
+
+let started = false
+
+/**
+ * Start flushing on load, when the browser comes back online and when the tab
+ * is shown or hidden (last chance to send before it is closed). Safe to call repeatedly.
+ */
+export function startOutbox(): void {
+  if (started || typeof window === "undefined") return
+  started = true
+  window.addEventListener("online", () => flushOutbox(true))
+  document.addEventListener("visibilitychange", () => flushOutbox(true))
+  flushOutbox()
+}
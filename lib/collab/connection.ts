@@ -0,0 +1,69 @@
+// WebSocket connection to the co-editing relay, reconnecting with backoff
+import type { CollabClientMessage, CollabServerMessage, CollabStatus } from "./types";
+
+// `npm run collab:relay` serves the local stand-in relay here
+export const COLLAB_URL = process.env.NEXT_PUBLIC_COLLAB_URL || "ws://localhost:3002";
+
+const RECONNECT_BASE_MS = 1000;
+const RECONNECT_MAX_MS = 30 * 1000;
+
+export interface CollabConnection {
+  send: (message: CollabClientMessage) => boolean; // false while disconnected
+  close: () => void;
+}
+
+interface CollabConnectionOptions {
+  url?: string;
+  onOpen: () => void; // every (re)connect - the caller joins its room again
+  onMessage: (message: CollabServerMessage) => void;
+  onStatus: (status: CollabStatus) => void;
+}
+
+export function connectCollab({ url = COLLAB_URL, onOpen, onMessage, onStatus }: CollabConnectionOptions): CollabConnection {
+  let socket: WebSocket | null = null;
+  let attempts = 0;
+  let closed = false;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  const open = () => {
+    onStatus(attempts === 0 ? "connecting" : "offline");
+    socket = new WebSocket(url);
+    socket.onopen = () => {
+      attempts = 0;
+      onStatus("live");
+      onOpen();
+    };
+    socket.onmessage = (event) => {
+      try {
+        onMessage(JSON.parse(event.data as string) as CollabServerMessage);
+      } catch (error) {
+        console.error("[Collab] Ignoring malformed message:", error);
+      }
+    };
+    socket.onclose = () => {
+      socket = null;
+      if (closed) return;
+      onStatus("offline");
+      const delay = Math.min(RECONNECT_MAX_MS, RECONNECT_BASE_MS * 2 ** attempts) * (0.5 + Math.random() / 2);
+      attempts += 1;
+      retryTimer = setTimeout(open, delay);
+    };
+  };
+
+  open();
+
+  return {
+    send: (message) => {
+      if (!socket || socket.readyState !== WebSocket.OPEN) return false;
+      socket.send(JSON.stringify(message));
+      return true;
+    },
+    close: () => {
+      closed = true;
+      if (retryTimer) clearTimeout(retryTimer);
+      socket?.close();
+      socket = null;
+      onStatus("off");
+    },
+  };
+}
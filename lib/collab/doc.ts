@@ -0,0 +1,62 @@
+// Shared plan state - a last-writer-wins map of entity ops
+import type { Room, Door, Window, Point, LevelId, Furniture } from "../types";
+import type { CollabEntityRef, CollabOp, CollabPlan } from "./types";
+
+export interface CollabDoc {
+  entries: Map<string, CollabOp>; // latest op per entity, deletions included
+}
+
+export const BOUNDARY_ID = "adu";
+
+export function entityKey(levelId: LevelId, ref: CollabEntityRef): string {
+  return ref.entityType === "boundary" ? `boundary:${BOUNDARY_ID}` : `${levelId}:${ref.entityType}:${ref.entityId}`;
+}
+
+export function createCollabDoc(): CollabDoc {
+  return { entries: new Map() };
+}
+
+// Total order on ops: Lamport clock, then client id to break ties
+export function opWins(op: CollabOp, current: CollabOp | undefined): boolean {
+  if (!current) return true;
+  if (op.clock !== current.clock) return op.clock > current.clock;
+  return op.clientId > current.clientId;
+}
+
+/**
+ * Apply an op if it is newer than what the doc has for its entity. `force`
+ * takes it regardless - for the relay's state after it refused an edit.
+ */
+export function applyOp(doc: CollabDoc, op: CollabOp, force = false): boolean {
+  const key = entityKey(op.levelId, op);
+  if (!force && !opWins(op, doc.entries.get(key))) return false;
+  doc.entries.set(key, op);
+  return true;
+}
+
+export function docOps(doc: CollabDoc): CollabOp[] {
+  return [...doc.entries.values()];
+}
+
+// Whether anyone has edited this level yet (deletions count)
+export function docHasLevel(doc: CollabDoc, levelId: LevelId): boolean {
+  return docOps(doc).some(op => op.entityType !== "boundary" && op.levelId === levelId);
+}
+
+/**
+ * The doc's entities on one level, or null for anything it has no state for.
+ * The boundary is null until someone has shared one.
+ */
+export function docPlan(doc: CollabDoc, levelId: LevelId): Omit<CollabPlan, "aduBoundary"> & { aduBoundary: Point[] | null } {
+  const live = docOps(doc).filter(op => op.state !== null && op.levelId === levelId);
+  const ofType = <T>(type: CollabOp["entityType"]) =>
+    live.filter(op => op.entityType === type).map(op => op.state as T);
+  const boundary = doc.entries.get(`boundary:${BOUNDARY_ID}`);
+  return {
+    rooms: ofType<Room>("room"),
+    doors: ofType<Door>("door"),
+    windows: ofType<Window>("window"),
+    furniture: ofType<Furniture>("furniture"),
+    aduBoundary: boundary?.state ? (boundary.state as Point[]) : null,
+  };
+}
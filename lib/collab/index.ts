@@ -0,0 +1,8 @@
+export * from "./types";
+export { createCollabDoc, applyOp, opWins, docOps, docHasLevel, docPlan, entityKey, BOUNDARY_ID } from "./doc";
+export type { CollabDoc } from "./doc";
+export { diffPlanOps, applyPlanOps } from "./ops";
+export type { CollabOpDraft } from "./ops";
+export { connectCollab, COLLAB_URL } from "./connection";
+export type { CollabConnection } from "./connection";
+export { peerColor, peerInitials, lockedByOthers, PEER_COLORS } from "./presence";
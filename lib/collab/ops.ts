@@ -0,0 +1,113 @@
+// Turning local plan edits into entity ops named like the action logger's
+import type { Room, Door, Window, Point, LevelId, Furniture } from "../types";
+import type { CollabAction, CollabEntityType, CollabOp, CollabPlan, CollabVerb } from "./types";
+import { BOUNDARY_ID } from "./doc";
+
+export type CollabOpDraft = Omit<CollabOp, "id" | "clientId" | "clock">;
+
+type PlacedEntity = Door | Window | Furniture;
+
+const samePoint = (a: Point, b: Point) => a.x === b.x && a.y === b.y;
+
+const sameJson = (a: unknown, b: unknown) => JSON.stringify(a) === JSON.stringify(b);
+
+const action = (entityType: CollabEntityType, verb: CollabVerb) => `${entityType}.${verb}` as CollabAction;
+
+// How a polygon changed: translated as a whole, one vertex dragged, or reshaped
+function polygonVerb(before: Point[], after: Point[]): CollabVerb {
+  if (before.length !== after.length) return "resize";
+  const changed = before.filter((p, i) => !samePoint(p, after[i])).length;
+  if (changed === 0) return "update";
+  if (changed === 1) return "vertex.move";
+  const dx = after[0].x - before[0].x;
+  const dy = after[0].y - before[0].y;
+  return before.every((p, i) => after[i].x - p.x === dx && after[i].y - p.y === dy) ? "move" : "resize";
+}
+
+const roomVerb = (before: Room, after: Room) => polygonVerb(before.vertices, after.vertices);
+
+function placedVerb(before: PlacedEntity, after: PlacedEntity): CollabVerb {
+  const heightA = "height" in before ? before.height : 0;
+  const heightB = "height" in after ? after.height : 0;
+  if (before.width !== after.width || heightA !== heightB) return "resize";
+  if (before.rotation !== after.rotation) return "rotate";
+  if (!samePoint(before.position, after.position)) return "move";
+  return "update";
+}
+
+function diffEntities<T extends Room | PlacedEntity>(
+  entityType: CollabEntityType,
+  before: T[],
+  after: T[],
+  levelId: LevelId,
+  verbOf: (a: T, b: T) => CollabVerb
+): CollabOpDraft[] {
+  const drafts: CollabOpDraft[] = [];
+  const beforeById = new Map(before.map(e => [e.id, e]));
+  const afterIds = new Set(after.map(e => e.id));
+
+  for (const entity of after) {
+    const previous = beforeById.get(entity.id);
+    if (!previous) {
+      drafts.push({ entityType, entityId: entity.id, levelId, action: action(entityType, "create"), state: entity });
+    } else if (previous !== entity && !sameJson(previous, entity)) {
+      drafts.push({ entityType, entityId: entity.id, levelId, action: action(entityType, verbOf(previous, entity)), state: entity });
+    }
+  }
+  for (const entity of before) {
+    if (!afterIds.has(entity.id)) {
+      drafts.push({ entityType, entityId: entity.id, levelId, action: action(entityType, "delete"), state: null });
+    }
+  }
+  return drafts;
+}
+
+/**
+ * Ops for everything that differs between two versions of a level
+ */
+export function diffPlanOps(before: CollabPlan, after: CollabPlan, levelId: LevelId): CollabOpDraft[] {
+  const drafts = [
+    ...diffEntities("room", before.rooms, after.rooms, levelId, roomVerb),
+    ...diffEntities("door", before.doors, after.doors, levelId, placedVerb),
+    ...diffEntities("window", before.windows, after.windows, levelId, placedVerb),
+    ...diffEntities("furniture", before.furniture, after.furniture, levelId, placedVerb),
+  ];
+  if (before.aduBoundary !== after.aduBoundary && !sameJson(before.aduBoundary, after.aduBoundary)) {
+    drafts.push({
+      entityType: "boundary",
+      entityId: BOUNDARY_ID,
+      levelId: "ground",
+      action: action("boundary", before.aduBoundary.length === 0 ? "create" : polygonVerb(before.aduBoundary, after.aduBoundary)),
+      state: after.aduBoundary,
+    });
+  }
+  return drafts;
+}
+
+// Put each op's entity state into a list: replaced in place, appended when new, dropped when deleted
+function applyEntityOps<T extends { id: string }>(entities: T[], drafts: CollabOpDraft[]): T[] {
+  if (drafts.length === 0) return entities;
+  const states = new Map(drafts.map(d => [d.entityId, d.state as T | null]));
+  const existing = new Set(entities.map(e => e.id));
+  return [
+    ...entities.filter(e => states.get(e.id) !== null).map(e => states.get(e.id) ?? e),
+    ...[...states].filter(([id, state]) => state && !existing.has(id)).map(([, state]) => state as T),
+  ];
+}
+
+/**
+ * A version of a level with ops applied on top - e.g. carrying a collaborator's
+ * edits into older versions of it. Ops on other levels are skipped; the
+ * boundary is shared by every level.
+ */
+export function applyPlanOps(plan: CollabPlan, drafts: CollabOpDraft[], levelId: LevelId): CollabPlan {
+  const onLevel = (entityType: CollabEntityType) => drafts.filter(d => d.entityType === entityType && d.levelId === levelId);
+  const boundary = drafts.filter(d => d.entityType === "boundary").pop();
+  return {
+    rooms: applyEntityOps(plan.rooms, onLevel("room")),
+    doors: applyEntityOps(plan.doors, onLevel("door")),
+    windows: applyEntityOps(plan.windows, onLevel("window")),
+    furniture: applyEntityOps(plan.furniture, onLevel("furniture")),
+    aduBoundary: boundary?.state ? (boundary.state as Point[]) : plan.aduBoundary,
+  };
+}
@@ -0,0 +1,31 @@
+// Who else is in the plan - colors and names for their cursors and selections
+import type { CollabLock, CollabPeer } from "./types";
+
+export const PEER_COLORS = ["#e11d48", "#7c3aed", "#0891b2", "#ea580c", "#16a34a", "#db2777", "#2563eb", "#ca8a04"];
+
+export function peerColor(clientId: string): string {
+  let hash = 0;
+  for (const char of clientId) hash = (hash * 31 + char.charCodeAt(0)) >>> 0;
+  return PEER_COLORS[hash % PEER_COLORS.length];
+}
+
+export function peerInitials(name: string): string {
+  const words = name.trim().split(/\s+/).filter(Boolean);
+  return (words.length > 1 ? words[0][0] + words[1][0] : name.slice(0, 2)).toUpperCase();
+}
+
+/**
+ * Entity ids of one type locked by someone other than `clientId`, with who holds them
+ */
+export function lockedByOthers(
+  locks: CollabLock[],
+  peers: CollabPeer[],
+  clientId: string,
+  entityType: CollabLock["entityType"]
+): Map<string, CollabPeer | undefined> {
+  return new Map(
+    locks
+      .filter(lock => lock.entityType === entityType && lock.clientId !== clientId)
+      .map(lock => [lock.entityId, peers.find(peer => peer.clientId === lock.clientId)])
+  );
+}
@@ -0,0 +1,68 @@
+// Real-time co-editing types - the wire protocol shared by the editor and the relay
+import type { Room, Door, Window, Point, LevelId, Furniture, EntityType } from "../types";
+
+export type CollabEntityType = EntityType;
+
+// Verbs the action logger already records; "update" covers edits it has no verb for (renames, type changes)
+export type CollabVerb = "create" | "delete" | "move" | "resize" | "rotate" | "vertex.move" | "update";
+
+export type CollabAction = `${CollabEntityType}.${CollabVerb}`;
+
+export interface CollabEntityRef {
+  entityType: CollabEntityType;
+  entityId: string;
+}
+
+/**
+ * One edit of one entity. Ops carry the entity's whole state afterwards, so
+ * applying them is a last-writer-wins register per entity: the op with the
+ * higher (clock, clientId) wins, whatever order they arrive in.
+ */
+export interface CollabOp extends CollabEntityRef {
+  id: string;
+  clientId: string;
+  clock: number; // Lamport clock
+  action: CollabAction;
+  levelId: LevelId; // the ADU boundary is shared by every level and always uses "ground"
+  state: Room | Door | Window | Furniture | Point[] | null; // null once deleted
+}
+
+// The entities of one level plus the ADU boundary
+export interface CollabPlan {
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: Furniture[];
+  aduBoundary: Point[];
+}
+
+export interface CollabPeer {
+  clientId: string;
+  name: string;
+  color: string;
+  levelId: LevelId;
+  cursor: Point | null; // plan coordinates, null when off the canvas
+  selection: CollabEntityRef[];
+}
+
+export interface CollabLock extends CollabEntityRef {
+  clientId: string;
+}
+
+export type CollabStatus = "off" | "connecting" | "live" | "offline";
+
+export type CollabClientMessage =
+  | { type: "join"; room: string; peer: CollabPeer }
+  | { type: "ops"; ops: CollabOp[] }
+  | { type: "presence"; peer: CollabPeer }
+  | { type: "lock"; ref: CollabEntityRef }
+  | { type: "unlock"; ref: CollabEntityRef };
+
+export type CollabServerMessage =
+  | { type: "welcome"; ops: CollabOp[]; peers: CollabPeer[]; locks: CollabLock[] }
+  | { type: "ops"; ops: CollabOp[] }
+  // Ops on entities someone else has locked, with the relay's state of those entities
+  | { type: "rejected"; ops: CollabOp[]; current: CollabOp[] }
+  | { type: "presence"; peer: CollabPeer }
+  | { type: "left"; clientId: string }
+  | { type: "locks"; locks: CollabLock[] };
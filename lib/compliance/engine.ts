@@ -0,0 +1,91 @@
+// Compliance Engine - runs a jurisdiction's rules over the whole plan
+import { buildWallGraph } from "../wall-graph";
+import type { LevelId } from "../types";
+import type {
+  CompliancePlan,
+  ComplianceContext,
+  ComplianceLevel,
+  ComplianceRule,
+  ComplianceRuleSet,
+  ComplianceIssue,
+  ComplianceResult,
+} from "./types";
+
+const SEVERITY_ORDER = { error: 0, warning: 1, info: 2 } as const;
+
+// Run one rule and tag its issues (idPrefix keeps ids unique when a rule runs per level).
+// A rule that throws is logged and yields nothing.
+function runRule(
+  rule: ComplianceRule,
+  context: ComplianceContext,
+  idPrefix: string,
+  entityLevels: Map<string, LevelId>
+): ComplianceIssue[] {
+  try {
+    return rule.evaluate(context).map((issue, index) => {
+      const levelId = issue.entityId ? entityLevels.get(issue.entityId) : undefined;
+      return {
+        ...issue,
+        id: `${rule.id}:${idPrefix}${issue.entityId ?? "plan"}:${index}`,
+        ruleId: rule.id,
+        ...(levelId && { levelId }),
+      };
+    });
+  } catch (error) {
+    console.error(`[Compliance] Rule "${rule.id}" failed:`, error);
+    return [];
+  }
+}
+
+/**
+ * Evaluate every rule in the rule set and collect the issues, most severe first.
+ * Level rules run on each level that has rooms (and always on the ground level);
+ * plan rules such as the bedroom limit or required rooms see every level at once.
+ * A rule that throws is logged and skipped so one bad rule can't hide the others.
+ */
+export function evaluateCompliance(plan: CompliancePlan, ruleSet: ComplianceRuleSet): ComplianceResult {
+  const { levels: otherLevels = [], ...shared } = plan;
+  const levels: ComplianceLevel[] = [
+    { id: "ground", rooms: plan.rooms, doors: plan.doors, windows: plan.windows, furniture: plan.furniture },
+    ...otherLevels.filter(level => level.rooms.length > 0),
+  ];
+  const levelContexts = levels.map(({ id, ...content }) => ({
+    id,
+    context: { ...shared, ...content, walls: buildWallGraph(content.rooms) },
+  }));
+  // Issues on an entity point at its level so the editor can switch to it
+  const entityLevels = new Map<string, LevelId>(
+    levels.flatMap(level =>
+      [...level.rooms, ...level.doors, ...level.windows, ...level.furniture].map(entity => [entity.id, level.id] as const)
+    )
+  );
+  const planContext: ComplianceContext = {
+    ...plan,
+    rooms: levels.flatMap(level => level.rooms),
+    doors: levels.flatMap(level => level.doors),
+    windows: levels.flatMap(level => level.windows),
+    furniture: levels.flatMap(level => level.furniture),
+    walls: levelContexts.flatMap(({ context }) => context.walls),
+  };
+  const issues: ComplianceIssue[] = [];
+
+  for (const rule of ruleSet.rules) {
+    if (rule.scope === "plan") {
+      issues.push(...runRule(rule, planContext, "", entityLevels));
+    } else {
+      levelContexts.forEach(({ id, context }) => {
+        issues.push(...runRule(rule, context, id === "ground" ? "" : `${id}:`, entityLevels));
+      });
+    }
+  }
+
+  issues.sort((a, b) => SEVERITY_ORDER[a.severity] - SEVERITY_ORDER[b.severity]);
+
+  return {
+    ruleSetId: ruleSet.id,
+    issues,
+    errorCount: issues.filter(i => i.severity === "error").length,
+    warningCount: issues.filter(i => i.severity === "warning").length,
+    infoCount: issues.filter(i => i.severity === "info").length,
+  };
+}
@@ -0,0 +1,147 @@
+// Geometry helpers for compliance rules (all inputs in canvas pixels)
+import type { Point } from "../types";
+
+/**
+ * Polygon area using the Shoelace formula (in square pixels)
+ */
+export function polygonArea(vertices: Point[]): number {
+  if (vertices.length < 3) return 0;
+  let area = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const j = (i + 1) % vertices.length;
+    area += vertices[i].x * vertices[j].y;
+    area -= vertices[j].x * vertices[i].y;
+  }
+  return Math.abs(area) / 2;
+}
+
+/**
+ * Minimum width of a polygon, measured perpendicular to each of its edges.
+ * Exact for convex polygons (including every rectangle), a close estimate otherwise.
+ */
+export function minimumWidth(vertices: Point[]): number {
+  if (vertices.length < 3) return 0;
+  let min = Infinity;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    const length = Math.hypot(b.x - a.x, b.y - a.y);
+    if (length === 0) continue;
+    const nx = -(b.y - a.y) / length;
+    const ny = (b.x - a.x) / length;
+    const projections = vertices.map(v => v.x * nx + v.y * ny);
+    min = Math.min(min, Math.max(...projections) - Math.min(...projections));
+  }
+  return min === Infinity ? 0 : min;
+}
+
+/**
+ * Point-in-polygon test (ray casting). Points within `tolerance` of an edge count as inside.
+ */
+export function isPointInPolygon(point: Point, polygon: Point[], tolerance = 0.5): boolean {
+  for (let i = 0; i < polygon.length; i++) {
+    if (distanceToSegment(point, polygon[i], polygon[(i + 1) % polygon.length]) <= tolerance) {
+      return true;
+    }
+  }
+
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if ((a.y > point.y) !== (b.y > point.y) &&
+      point.x < ((b.x - a.x) * (point.y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+export function distanceToSegment(point: Point, a: Point, b: Point): number {
+  const dx = b.x - a.x;
+  const dy = b.y - a.y;
+  const lengthSq = dx * dx + dy * dy;
+  if (lengthSq === 0) return Math.hypot(point.x - a.x, point.y - a.y);
+  const t = Math.max(0, Math.min(1, ((point.x - a.x) * dx + (point.y - a.y) * dy) / lengthSq));
+  return Math.hypot(point.x - (a.x + t * dx), point.y - (a.y + t * dy));
+}
+
+/**
+ * Unit normal of a polygon edge pointing out of the polygon (from the winding, so concave polygons work too)
+ */
+export function outwardNormal(vertices: Point[], edgeIndex: number): Point {
+  let signedArea = 0;
+  vertices.forEach((v, i) => {
+    const next = vertices[(i + 1) % vertices.length];
+    signedArea += v.x * next.y - next.x * v.y;
+  });
+  const a = vertices[edgeIndex];
+  const b = vertices[(edgeIndex + 1) % vertices.length];
+  const length = Math.hypot(b.x - a.x, b.y - a.y) || 1;
+  const sign = signedArea >= 0 ? 1 : -1;
+  return { x: (sign * (b.y - a.y)) / length, y: (sign * -(b.x - a.x)) / length };
+}
+
+/**
+ * Area of the intersection of two polygons (Sutherland-Hodgman clipping).
+ * The clip polygon is assumed convex, which holds for the rectangular rooms the editor draws.
+ */
+export function intersectionArea(subject: Point[], clip: Point[]): number {
+  if (subject.length < 3 || clip.length < 3) return 0;
+
+  // Orient the clip polygon counter-clockwise (in canvas coords) so "inside" is consistent
+  const signed = clip.reduce((sum, p, i) => {
+    const q = clip[(i + 1) % clip.length];
+    return sum + (p.x * q.y - q.x * p.y);
+  }, 0);
+  const clipPolygon = signed < 0 ? [...clip].reverse() : clip;
+
+  const inside = (p: Point, a: Point, b: Point) =>
+    (b.x - a.x) * (p.y - a.y) - (b.y - a.y) * (p.x - a.x) >= 0;
+
+  const intersect = (p: Point, q: Point, a: Point, b: Point): Point => {
+    const a1 = q.y - p.y;
+    const b1 = p.x - q.x;
+    const c1 = a1 * p.x + b1 * p.y;
+    const a2 = b.y - a.y;
+    const b2 = a.x - b.x;
+    const c2 = a2 * a.x + b2 * a.y;
+    const det = a1 * b2 - a2 * b1;
+    if (det === 0) return q;
+    return { x: (b2 * c1 - b1 * c2) / det, y: (a1 * c2 - a2 * c1) / det };
+  };
+
+  let output = subject;
+  for (let i = 0; i < clipPolygon.length && output.length > 0; i++) {
+    const a = clipPolygon[i];
+    const b = clipPolygon[(i + 1) % clipPolygon.length];
+    const input = output;
+    output = [];
+    for (let j = 0; j < input.length; j++) {
+      const current = input[j];
+      const previous = input[(j + input.length - 1) % input.length];
+      if (inside(current, a, b)) {
+        if (!inside(previous, a, b)) output.push(intersect(previous, current, a, b));
+        output.push(current);
+      } else if (inside(previous, a, b)) {
+        output.push(intersect(previous, current, a, b));
+      }
+    }
+  }
+
+  return polygonArea(output);
+}
+
+/**
+ * Axis-aligned bounding box of a set of points
+ */
+export function boundingBox(points: Point[]) {
+  const xs = points.map(p => p.x);
+  const ys = points.map(p => p.y);
+  return {
+    minX: Math.min(...xs),
+    minY: Math.min(...ys),
+    maxX: Math.max(...xs),
+    maxY: Math.max(...ys),
+  };
+}
@@ -0,0 +1,11 @@
+export * from "./types";
+export * from "./rules";
+export * from "./geometry";
+export { evaluateCompliance } from "./engine";
+export {
+  CALIFORNIA_RULE_SET,
+  DEFAULT_RULE_SET_ID,
+  registerRuleSet,
+  getRuleSet,
+  listRuleSets,
+} from "./rule-sets";
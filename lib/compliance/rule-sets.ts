@@ -0,0 +1,58 @@
+// Compliance Rule Sets - one per jurisdiction
+import { ADU_LIMITS } from "../constants";
+import type { ComplianceRuleSet } from "./types";
+import {
+  createHabitableRoomSizeRule,
+  createRequiredRoomRule,
+  createBedroomEgressRule,
+  createCorridorWidthRule,
+  createBathroomDoorClearanceRule,
+  createRoomOverlapRule,
+  createRoomWithinBoundaryRule,
+  createMaxBedroomsRule,
+} from "./rules";
+
+// California state minimums (CRC R304/R310 room size and egress, Gov. Code 66314 ADU requirements)
+export const CALIFORNIA_RULE_SET: ComplianceRuleSet = {
+  id: "ca-state",
+  name: "California (State)",
+  description: "Statewide ADU requirements and residential code minimums",
+  rules: [
+    createHabitableRoomSizeRule({
+      minArea: ADU_LIMITS.MIN_ROOM_SIZE,
+      minDimension: ADU_LIMITS.MIN_ROOM_DIMENSION,
+    }),
+    createRequiredRoomRule("kitchen", "Kitchen"),
+    createRequiredRoomRule("bathroom", "Full bathroom"),
+    createBedroomEgressRule({ minWidth: 20 / 12, minHeight: 24 / 12, minArea: 5.7 }),
+    createCorridorWidthRule({ minWidth: ADU_LIMITS.MIN_CORRIDOR_WIDTH }),
+    createBathroomDoorClearanceRule({ minDoorWidth: 2 }),
+    createRoomOverlapRule(),
+    createRoomWithinBoundaryRule(),
+    createMaxBedroomsRule(ADU_LIMITS.MAX_BEDROOMS),
+  ],
+};
+
+export const DEFAULT_RULE_SET_ID = CALIFORNIA_RULE_SET.id;
+
+const ruleSets = new Map<string, ComplianceRuleSet>([
+  [CALIFORNIA_RULE_SET.id, CALIFORNIA_RULE_SET],
+]);
+
+/**
+ * Register (or replace) a jurisdiction's rule set
+ */
+export function registerRuleSet(ruleSet: ComplianceRuleSet): void {
+  ruleSets.set(ruleSet.id, ruleSet);
+}
+
+/**
+ * Look up a rule set by id, falling back to the California state rules
+ */
+export function getRuleSet(id?: string): ComplianceRuleSet {
+  return (id && ruleSets.get(id)) || CALIFORNIA_RULE_SET;
+}
+
+export function listRuleSets(): ComplianceRuleSet[] {
+  return Array.from(ruleSets.values());
+}
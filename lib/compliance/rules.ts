@@ -0,0 +1,375 @@
+// Compliance Rules - each factory takes the thresholds a jurisdiction may tighten or relax
+import type { Point, Room, RoomType, EditorFurniture } from "../types";
+import { findNearestWall, openingRoomIds } from "../wall-graph";
+import type { ComplianceContext, ComplianceRule, RuleIssue } from "./types";
+import {
+  polygonArea,
+  minimumWidth,
+  isPointInPolygon,
+  intersectionArea,
+  distanceToSegment,
+} from "./geometry";
+
+const formatFeet = (value: number) => `${Math.round(value * 10) / 10} ft`;
+const formatSqFt = (value: number) => `${Math.round(value)} sq ft`;
+
+function roomAreaSqFt(room: Room, pixelsPerFoot: number): number {
+  return polygonArea(room.vertices) / (pixelsPerFoot * pixelsPerFoot);
+}
+
+function roomWidthFeet(room: Room, pixelsPerFoot: number): number {
+  return minimumWidth(room.vertices) / pixelsPerFoot;
+}
+
+// Openings are only considered "on" a wall when their center sits within the wall thickness
+function openingTolerance(context: ComplianceContext): number {
+  return (context.walls[0]?.thickness ?? 6) / 12 * context.pixelsPerFoot;
+}
+
+function wallForOpening(position: Point, context: ComplianceContext) {
+  return findNearestWall(position, context.walls, openingTolerance(context))?.wall ?? null;
+}
+
+// Merged walls can span several rooms, so match openings against the room's own edges
+function isOpeningOnRoom(position: Point, room: Room, context: ComplianceContext): boolean {
+  const tolerance = openingTolerance(context);
+  return room.vertices.some((v, i) =>
+    distanceToSegment(position, v, room.vertices[(i + 1) % room.vertices.length]) <= tolerance
+  );
+}
+
+// Footprint of a furniture item (position is its center, rotation in 90° steps)
+function furnitureFootprint(item: EditorFurniture, pixelsPerFoot: number): Point[] {
+  const isRotated = item.rotation === 90 || item.rotation === 270;
+  const halfWidth = ((isRotated ? item.height : item.width) * pixelsPerFoot) / 2;
+  const halfHeight = ((isRotated ? item.width : item.height) * pixelsPerFoot) / 2;
+  const { x, y } = item.position;
+  return [
+    { x: x - halfWidth, y: y - halfHeight },
+    { x: x + halfWidth, y: y - halfHeight },
+    { x: x + halfWidth, y: y + halfHeight },
+    { x: x - halfWidth, y: y + halfHeight },
+  ];
+}
+
+/**
+ * Habitable rooms (other than kitchens) need a minimum floor area and a minimum width in every direction
+ */
+export function createHabitableRoomSizeRule(options: {
+  minArea: number; // sq ft
+  minDimension: number; // ft
+  roomTypes?: RoomType[];
+}): ComplianceRule {
+  const roomTypes = options.roomTypes ?? ["bedroom", "living", "dining", "flex"];
+  return {
+    id: "habitable-room-size",
+    label: "Habitable room size",
+    description: `Habitable rooms must be at least ${options.minArea} sq ft and ${options.minDimension} ft wide`,
+    evaluate: ({ rooms, pixelsPerFoot }) => {
+      const issues: RuleIssue[] = [];
+      for (const room of rooms.filter(r => roomTypes.includes(r.type))) {
+        const area = roomAreaSqFt(room, pixelsPerFoot);
+        const width = roomWidthFeet(room, pixelsPerFoot);
+        if (area < options.minArea) {
+          issues.push({
+            severity: "error",
+            message: `${room.name} is ${formatSqFt(area)}; habitable rooms need at least ${options.minArea} sq ft`,
+            entityType: "room",
+            entityId: room.id,
+          });
+        }
+        if (width < options.minDimension) {
+          issues.push({
+            severity: "error",
+            message: `${room.name} is only ${formatFeet(width)} wide; habitable rooms need ${options.minDimension} ft minimum`,
+            entityType: "room",
+            entityId: room.id,
+          });
+        }
+      }
+      return issues;
+    },
+  };
+}
+
+/**
+ * The plan must contain at least one room of the given type (e.g. a kitchen and a full bathroom)
+ */
+export function createRequiredRoomRule(roomType: RoomType, label: string): ComplianceRule {
+  return {
+    id: `required-${roomType}`,
+    label: `Required ${label.toLowerCase()}`,
+    description: `An ADU must include a ${label.toLowerCase()}`,
+    scope: "plan",
+    evaluate: ({ rooms }) => {
+      if (rooms.length === 0 || rooms.some(r => r.type === roomType)) return [];
+      return [{
+        severity: "error",
+        message: `Missing ${label.toLowerCase()}: an ADU must include one`,
+      }];
+    },
+  };
+}
+
+/**
+ * Every bedroom needs an emergency escape window on an exterior wall
+ */
+export function createBedroomEgressRule(options: {
+  minWidth: number; // ft
+  minHeight: number; // ft
+  minArea: number; // sq ft
+}): ComplianceRule {
+  return {
+    id: "bedroom-egress",
+    label: "Bedroom egress",
+    description: "Each bedroom needs an egress window on an exterior wall",
+    evaluate: (context) => {
+      const issues: RuleIssue[] = [];
+      const exteriorWindows = context.windows
+        .map(window => ({ window, wall: wallForOpening(window.position, context) }))
+        .filter(({ wall }) => wall?.kind === "exterior");
+
+      for (const bedroom of context.rooms.filter(r => r.type === "bedroom")) {
+        const candidates = exteriorWindows
+          .map(({ window }) => window)
+          .filter(window => isOpeningOnRoom(window.position, bedroom, context));
+
+        if (candidates.length === 0) {
+          issues.push({
+            severity: "error",
+            message: `${bedroom.name} has no egress window on an exterior wall`,
+            entityType: "room",
+            entityId: bedroom.id,
+          });
+          continue;
+        }
+
+        const meetsSize = candidates.some(w =>
+          w.width >= options.minWidth && w.height >= options.minHeight && w.width * w.height >= options.minArea
+        );
+        if (!meetsSize) {
+          const largest = candidates.reduce((a, b) => (b.width * b.height > a.width * a.height ? b : a));
+          issues.push({
+            severity: "warning",
+            message: `${bedroom.name} egress window may be too small (needs ${options.minArea} sq ft opening, ${Math.round(options.minWidth * 12)}" wide, ${Math.round(options.minHeight * 12)}" tall)`,
+            entityType: "window",
+            entityId: largest.id,
+          });
+        }
+      }
+      return issues;
+    },
+  };
+}
+
+/**
+ * Hallways must meet a minimum clear width
+ */
+export function createCorridorWidthRule(options: { minWidth: number /* ft */ }): ComplianceRule {
+  return {
+    id: "corridor-width",
+    label: "Corridor width",
+    description: `Hallways must be at least ${Math.round(options.minWidth * 12)}" wide`,
+    evaluate: ({ rooms, pixelsPerFoot }) =>
+      rooms
+        .filter(r => r.type === "corridor")
+        .filter(r => roomWidthFeet(r, pixelsPerFoot) < options.minWidth - 0.01)
+        .map(room => ({
+          severity: "error" as const,
+          message: `${room.name} is ${formatFeet(roomWidthFeet(room, pixelsPerFoot))} wide; hallways need ${Math.round(options.minWidth * 12)}" minimum`,
+          entityType: "room" as const,
+          entityId: room.id,
+        })),
+  };
+}
+
+/**
+ * Bathrooms need a door of a usable width whose swing is not blocked by fixtures
+ */
+export function createBathroomDoorClearanceRule(options: {
+  minDoorWidth: number; // ft
+}): ComplianceRule {
+  return {
+    id: "bathroom-door-clearance",
+    label: "Bathroom door clearance",
+    description: `Bathroom doors must be at least ${Math.round(options.minDoorWidth * 12)}" wide with a clear swing`,
+    evaluate: (context) => {
+      const { rooms, doors, furniture, pixelsPerFoot } = context;
+      const issues: RuleIssue[] = [];
+
+      for (const bathroom of rooms.filter(r => r.type === "bathroom" || r.type === "half_bath")) {
+        const bathroomDoors = doors.filter(door =>
+          openingRoomIds(door).includes(bathroom.id) || isOpeningOnRoom(door.position, bathroom, context)
+        );
+
+        if (bathroomDoors.length === 0) {
+          issues.push({
+            severity: "warning",
+            message: `${bathroom.name} has no door`,
+            entityType: "room",
+            entityId: bathroom.id,
+          });
+          continue;
+        }
+
+        for (const door of bathroomDoors) {
+          if (door.width < options.minDoorWidth) {
+            issues.push({
+              severity: "error",
+              message: `${bathroom.name} door is ${Math.round(door.width * 12)}" wide; needs at least ${Math.round(options.minDoorWidth * 12)}"`,
+              entityType: "door",
+              entityId: door.id,
+            });
+          }
+
+          // Sliding doors and cased openings have no swing to obstruct
+          if (door.type === "sliding" || door.type === "opening") continue;
+
+          // Swing zone: a door-width square on the bathroom side of the wall
+          const widthPx = door.width * pixelsPerFoot;
+          const radians = (door.rotation * Math.PI) / 180;
+          const along = { x: Math.cos(radians), y: Math.sin(radians) };
+          let normal = { x: -along.y, y: along.x };
+          const probe = {
+            x: door.position.x + normal.x * widthPx / 2,
+            y: door.position.y + normal.y * widthPx / 2,
+          };
+          if (!isPointInPolygon(probe, bathroom.vertices, 0)) normal = { x: -normal.x, y: -normal.y };
+
+          const { x, y } = door.position;
+          const half = widthPx / 2;
+          const swing = [
+            { x: x - along.x * half, y: y - along.y * half },
+            { x: x + along.x * half, y: y + along.y * half },
+            { x: x + along.x * half + normal.x * widthPx, y: y + along.y * half + normal.y * widthPx },
+            { x: x - along.x * half + normal.x * widthPx, y: y - along.y * half + normal.y * widthPx },
+          ];
+
+          const blocking = furniture.find(item =>
+            intersectionArea(furnitureFootprint(item, pixelsPerFoot), swing) / (pixelsPerFoot * pixelsPerFoot) > 0.25
+          );
+          if (blocking) {
+            issues.push({
+              severity: "warning",
+              message: `${bathroom.name} door swing is blocked by ${blocking.type.replace(/-/g, " ")}`,
+              entityType: "door",
+              entityId: door.id,
+            });
+          }
+        }
+      }
+      return issues;
+    },
+  };
+}
+
+/**
+ * Rooms may share walls but not floor area
+ */
+export function createRoomOverlapRule(options: { tolerance: number /* sq ft */ } = { tolerance: 1 }): ComplianceRule {
+  return {
+    id: "room-overlap",
+    label: "Room overlap",
+    description: "Rooms must not overlap each other",
+    evaluate: ({ rooms, pixelsPerFoot }) => {
+      const issues: RuleIssue[] = [];
+      for (let i = 0; i < rooms.length; i++) {
+        for (let j = i + 1; j < rooms.length; j++) {
+          const overlap = intersectionArea(rooms[j].vertices, rooms[i].vertices) / (pixelsPerFoot * pixelsPerFoot);
+          if (overlap > options.tolerance) {
+            issues.push({
+              severity: "error",
+              message: `${rooms[j].name} overlaps ${rooms[i].name} by ${formatSqFt(overlap)}`,
+              entityType: "room",
+              entityId: rooms[j].id,
+            });
+          }
+        }
+      }
+      return issues;
+    },
+  };
+}
+
+/**
+ * Every room must sit inside the ADU boundary
+ */
+export function createRoomWithinBoundaryRule(): ComplianceRule {
+  return {
+    id: "room-within-boundary",
+    label: "Rooms inside ADU boundary",
+    description: "Rooms must not extend outside the ADU boundary",
+    evaluate: ({ rooms, aduBoundary }) => {
+      if (aduBoundary.length < 3) return [];
+      return rooms
+        .filter(room => room.vertices.some(v => !isPointInPolygon(v, aduBoundary, 1)))
+        .map(room => ({
+          severity: "error" as const,
+          message: `${room.name} extends outside the ADU boundary`,
+          entityType: "room" as const,
+          entityId: room.id,
+        }));
+    },
+  };
+}
+
+/**
+ * Limit on the number of bedrooms
+ */
+export function createMaxBedroomsRule(maxBedrooms: number): ComplianceRule {
+  return {
+    id: "max-bedrooms",
+    label: "Maximum bedrooms",
+    description: `An ADU may have at most ${maxBedrooms} bedrooms`,
+    scope: "plan",
+    evaluate: ({ rooms }) => {
+      const bedrooms = rooms.filter(r => r.type === "bedroom");
+      return bedrooms.slice(maxBedrooms).map(room => ({
+        severity: "error" as const,
+        message: `${room.name} exceeds the ${maxBedrooms}-bedroom limit (${bedrooms.length} bedrooms)`,
+        entityType: "room" as const,
+        entityId: room.id,
+      }));
+    },
+  };
+}
+
+/**
+ * ADU floor area (the ADU boundary) between the minimum and a maximum that can depend
+ * on the bedroom count and lot size
+ */
+export function createAduSizeRule(options: {
+  minArea: number; // sq ft
+  maxArea: (bedrooms: number, lotAreaSqFt?: number) => number; // sq ft
+}): ComplianceRule {
+  return {
+    id: "adu-size",
+    label: "ADU size",
+    description: `An ADU must be at least ${formatSqFt(options.minArea)} and within the size limit for its bedroom count`,
+    scope: "plan",
+    evaluate: ({ rooms, aduBoundary, pixelsPerFoot, lotAreaSqFt, levels = [] }) => {
+      if (aduBoundary.length < 3) return [];
+      // Footprint plus the rooms on the other levels
+      const otherLevelsArea = levels.flatMap(level => level.rooms).reduce((sum, room) => sum + room.area, 0);
+      const area = polygonArea(aduBoundary) / (pixelsPerFoot * pixelsPerFoot) + otherLevelsArea;
+      const bedrooms = rooms.filter(r => r.type === "bedroom").length;
+      const maxArea = options.maxArea(bedrooms, lotAreaSqFt);
+
+      if (area > maxArea + 0.5) {
+        return [{
+          severity: "error",
+          message: `ADU is ${formatSqFt(area)}, over the ${formatSqFt(maxArea)} limit for ${bedrooms} bedroom${bedrooms === 1 ? "" : "s"}`,
+          entityType: "boundary",
+        }];
+      }
+      if (area < options.minArea - 0.5) {
+        return [{
+          severity: "warning",
+          message: `ADU is ${formatSqFt(area)}, under the ${formatSqFt(options.minArea)} minimum`,
+          entityType: "boundary",
+        }];
+      }
+      return [];
+    },
+  };
+}
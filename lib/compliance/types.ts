@@ -0,0 +1,68 @@
+// Compliance Rule Engine Types
+import type { Room, Door, Window, Wall, Point, EditorFurniture, LevelId } from "../types";
+
+export type ComplianceSeverity = "error" | "warning" | "info";
+
+export type ComplianceEntityType = "room" | "door" | "window" | "furniture" | "boundary";
+
+export interface ComplianceIssue {
+  id: string; // unique per evaluation (ruleId + entity)
+  ruleId: string;
+  severity: ComplianceSeverity;
+  message: string;
+  entityType?: ComplianceEntityType; // omitted for plan-wide issues
+  entityId?: string;
+  levelId?: LevelId; // level the entity is on; omitted for plan-wide issues
+}
+
+// Everything a rule can look at. Geometry is in canvas pixels.
+export interface CompliancePlan {
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: EditorFurniture[];
+  aduBoundary: Point[];
+  pixelsPerFoot: number;
+  lotAreaSqFt?: number; // for limits that scale with the lot
+  levels?: ComplianceLevel[]; // other levels - the entities above are the ground level
+}
+
+export interface ComplianceLevel {
+  id: LevelId;
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: EditorFurniture[];
+}
+
+// What a rule is run against: one level, or for plan-scoped rules every level merged
+// (plan-scoped rules also get the other levels on their own in levels)
+export interface ComplianceContext extends CompliancePlan {
+  walls: Wall[];
+}
+
+export type RuleIssue = Omit<ComplianceIssue, "id" | "ruleId">;
+
+export interface ComplianceRule {
+  id: string;
+  label: string;
+  description: string;
+  scope?: "level" | "plan"; // "plan" rules see the rooms of every level at once (default: run per level)
+  evaluate: (context: ComplianceContext) => RuleIssue[];
+}
+
+// A jurisdiction's set of rules (e.g. California state minimums, or a city with stricter limits)
+export interface ComplianceRuleSet {
+  id: string;
+  name: string;
+  description: string;
+  rules: ComplianceRule[];
+}
+
+export interface ComplianceResult {
+  ruleSetId: string;
+  issues: ComplianceIssue[];
+  errorCount: number;
+  warningCount: number;
+  infoCount: number;
+}
@@ -1,10 +1,12 @@
-import type { RoomType, ADUTemplate } from "./types";
+import type { RoomType, ADUTemplate, LevelId, ElectricalDeviceType } from "./types";
 
 // ADU Size Limits (California regulations)
 export const ADU_LIMITS = {
   MIN_AREA: 300, // minimum square feet
   MAX_AREA: 1200, // maximum square feet
   MIN_ROOM_SIZE: 70, // minimum room size in sq ft
+  MIN_ROOM_DIMENSION: 7, // minimum habitable room width in ft
+  MIN_CORRIDOR_WIDTH: 3, // minimum hallway width in ft (36")
   MAX_BEDROOMS: 3,
 } as const;
 
@@ -183,6 +185,63 @@ export const WINDOW_CONFIGS = {
   },
 } as const;
 
+// Building Levels - order is bottom to top, heights are floor-to-ceiling in feet
+export const LEVEL_CONFIGS: Record<LevelId, { label: string; shortLabel: string; order: number; defaultCeilingHeight: number }> = {
+  "garage-below": {
+    label: "Garage (Below)",
+    shortLabel: "G",
+    order: 0,
+    defaultCeilingHeight: 9,
+  },
+  ground: {
+    label: "Ground Floor",
+    shortLabel: "1",
+    order: 1,
+    defaultCeilingHeight: 8.33, // 100 inches (8'4")
+  },
+  second: {
+    label: "Second Story",
+    shortLabel: "2",
+    order: 2,
+    defaultCeilingHeight: 8,
+  },
+};
+
+// Stair Configuration
+export const STAIR_CONFIG = {
+  WIDTH: 3, // feet (36" minimum per CA Residential Code)
+  LENGTH: 10, // feet of horizontal run
+  TREAD_DEPTH: 10 / 12, // feet (10" minimum tread)
+  MAX_RISER: 7.75 / 12, // feet (7-3/4" maximum riser)
+  FLOOR_DEPTH: 1, // feet of floor structure between stacked levels
+} as const;
+
+// Electrical Devices - tag is the text drawn with the symbol (plain graphic symbols have none)
+export const ELECTRICAL_CONFIGS: Record<ElectricalDeviceType, {
+  label: string;
+  tag: string;
+  category: "power" | "switch" | "light" | "smart" | "panel";
+  wallMounted: boolean;
+}> = {
+  receptacle: { label: "Duplex Receptacle", tag: "", category: "power", wallMounted: true },
+  "gfci-receptacle": { label: "GFCI Receptacle", tag: "GFI", category: "power", wallMounted: true },
+  switch: { label: "Single-Pole Switch", tag: "S", category: "switch", wallMounted: true },
+  "three-way-switch": { label: "3-Way Switch", tag: "S3", category: "switch", wallMounted: true },
+  "ceiling-light": { label: "Ceiling Light", tag: "", category: "light", wallMounted: false },
+  "recessed-light": { label: "Recessed Light", tag: "", category: "light", wallMounted: false },
+  "wall-sconce": { label: "Wall Sconce", tag: "", category: "light", wallMounted: true },
+  "smoke-detector": { label: "Smoke / CO Alarm", tag: "SD", category: "smart", wallMounted: false },
+  "smart-hub": { label: "Smart Hub / Access Point", tag: "H", category: "smart", wallMounted: false },
+  thermostat: { label: "Thermostat", tag: "T", category: "smart", wallMounted: true },
+  panel: { label: "Electrical Panel", tag: "EP", category: "panel", wallMounted: true },
+};
+
+export const ELECTRICAL_CONFIG = {
+  RECEPTACLE_SPACING: 12, // feet - no point along a wall more than 6 ft from a receptacle (NEC 210.52(A))
+  MIN_WALL_SPACE: 2, // feet - shorter wall sections don't need a receptacle
+  SYMBOL_SIZE: 0.8, // feet
+} as const;
+
 // Wizard Steps
 export const WIZARD_STEPS = [
   {
@@ -241,6 +300,9 @@ export const STORAGE_KEYS = {
   FLOOR_PLAN: "adu_floor_plan",
   FINISHES: "adu_finishes",
   WIZARD_STATE: "adu_wizard_state",
+  COST_SETTINGS: "adu_cost_settings",
+  ALTERNATIVES: "adu_alternatives",
+  COLLAB_NAME: "adu_collab_name",
 } as const;
 
 // Validation Messages
@@ -343,5 +405,205 @@ export const getSizeComparison = (sqft: number): string => {
   return comparison.label;
 };
 
-// ADU Templates (placeholder for future hand-made templates)
-export const ADU_TEMPLATES: ADUTemplate[] = [];
+// ADU Templates
+// All template coordinates are in feet from the top-left corner of the ADU boundary.
+// Door/window positions are opening centers (rotation 0 = horizontal wall, 90 = vertical wall)
+// and furniture is laid out by its top-left corner, then stored by its center like the editor.
+const templateRoom = (
+  type: RoomType,
+  name: string,
+  x: number,
+  y: number,
+  width: number,
+  depth: number
+): ADUTemplate["rooms"][number] => ({
+  type,
+  name,
+  vertices: [
+    { x, y },
+    { x: x + width, y },
+    { x: x + width, y: y + depth },
+    { x, y: y + depth },
+  ],
+  area: width * depth,
+  color: ROOM_CONFIGS[type].color,
+});
+
+const templateFurniture = (
+  type: string,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): NonNullable<ADUTemplate["furniture"]>[number] => ({
+  type,
+  position: { x: x + width / 2, y: y + height / 2 },
+  rotation: 0,
+  width,
+  height,
+});
+
+const templateBoundary = (width: number, depth: number) => [
+  { x: 0, y: 0 },
+  { x: width, y: 0 },
+  { x: width, y: depth },
+  { x: 0, y: depth },
+];
+
+export const ADU_TEMPLATES: ADUTemplate[] = [
+  {
+    id: "studio",
+    name: "Studio",
+    description: "Open living/sleeping space with a galley kitchen and full bath",
+    sqft: "400",
+    icon: "🏠",
+    boundary: templateBoundary(20, 20),
+    rooms: [
+      templateRoom("living", "Living / Sleeping", 0, 0, 20, 12),
+      templateRoom("kitchen", "Kitchen", 0, 12, 12, 8),
+      templateRoom("bathroom", "Bathroom", 12, 12, 8, 8),
+    ],
+    doors: [
+      { type: "single", position: { x: 10, y: 0 }, rotation: 0, width: 3 },
+      { type: "opening", position: { x: 6, y: 12 }, rotation: 0, width: 4 },
+      { type: "single", position: { x: 16, y: 12 }, rotation: 0, width: 3 },
+    ],
+    windows: [
+      { type: "standard", position: { x: 4, y: 0 }, rotation: 0, width: 3, height: 4 },
+      { type: "picture", position: { x: 0, y: 6 }, rotation: 90, width: 5, height: 5 },
+      { type: "standard", position: { x: 6, y: 20 }, rotation: 0, width: 3, height: 4 },
+      { type: "sliding", position: { x: 20, y: 16 }, rotation: 90, width: 4, height: 3 },
+    ],
+    furniture: [
+      templateFurniture("bed-double", 14, 1, 4.5, 6.5),
+      templateFurniture("sofa-2seat", 2, 8, 5, 3),
+      templateFurniture("stove", 1, 17.5, 2.5, 2),
+      templateFurniture("refrigerator", 8, 17, 3, 2.5),
+      templateFurniture("toilet", 12.5, 17, 1.5, 2.5),
+      templateFurniture("sink", 14.5, 18, 2, 1.5),
+      templateFurniture("shower", 16.5, 16.5, 3, 3),
+    ],
+  },
+  {
+    id: "oneBedroom",
+    name: "1 Bedroom",
+    description: "Living room and kitchen up front, private bedroom, bath and laundry",
+    sqft: "600",
+    icon: "🛏️",
+    boundary: templateBoundary(24, 25),
+    rooms: [
+      templateRoom("living", "Living Room", 0, 0, 14, 14),
+      templateRoom("kitchen", "Kitchen", 14, 0, 10, 14),
+      templateRoom("bedroom", "Bedroom", 0, 14, 14, 11),
+      templateRoom("bathroom", "Bathroom", 14, 14, 10, 6),
+      templateRoom("laundry", "Laundry", 14, 20, 10, 5),
+    ],
+    doors: [
+      { type: "single", position: { x: 7, y: 0 }, rotation: 0, width: 3 },
+      { type: "opening", position: { x: 14, y: 7 }, rotation: 90, width: 4 },
+      { type: "single", position: { x: 7, y: 14 }, rotation: 0, width: 3 },
+      { type: "single", position: { x: 19, y: 14 }, rotation: 0, width: 3 },
+      { type: "single", position: { x: 14, y: 22.5 }, rotation: 90, width: 3 },
+    ],
+    windows: [
+      { type: "standard", position: { x: 11, y: 0 }, rotation: 0, width: 3, height: 4 },
+      { type: "picture", position: { x: 0, y: 7 }, rotation: 90, width: 5, height: 5 },
+      { type: "standard", position: { x: 19, y: 0 }, rotation: 0, width: 3, height: 4 },
+      { type: "standard", position: { x: 0, y: 19.5 }, rotation: 90, width: 3, height: 4 },
+      { type: "standard", position: { x: 7, y: 25 }, rotation: 0, width: 3, height: 4 },
+      { type: "sliding", position: { x: 24, y: 17 }, rotation: 90, width: 4, height: 3 },
+    ],
+    furniture: [
+      templateFurniture("sofa-3seat", 2, 10, 7, 3),
+      templateFurniture("table-coffee", 3.5, 6.5, 4, 2),
+      templateFurniture("stove", 15.5, 1, 2.5, 2),
+      templateFurniture("refrigerator", 20.5, 1, 3, 2.5),
+      templateFurniture("bed-double", 4, 17, 4.5, 6.5),
+      templateFurniture("toilet", 15, 17, 1.5, 2.5),
+      templateFurniture("sink", 17, 18, 2, 1.5),
+      templateFurniture("shower", 20.5, 16.5, 3, 3),
+    ],
+  },
+  {
+    id: "twoBedroom",
+    name: "2 Bedroom",
+    description: "Great room with kitchen, hallway to two bedrooms and a shared bath",
+    sqft: "840",
+    icon: "🏡",
+    boundary: templateBoundary(30, 28),
+    rooms: [
+      templateRoom("living", "Living Room", 0, 0, 18, 14),
+      templateRoom("kitchen", "Kitchen", 18, 0, 12, 14),
+      templateRoom("corridor", "Hallway", 0, 14, 30, 4),
+      templateRoom("bedroom", "Bedroom 1", 0, 18, 12, 10),
+      templateRoom("bathroom", "Bathroom", 12, 18, 7, 10),
+      templateRoom("bedroom", "Bedroom 2", 19, 18, 11, 10),
+    ],
+    doors: [
+      { type: "single", position: { x: 9, y: 0 }, rotation: 0, width: 3 },
+      { type: "opening", position: { x: 18, y: 7 }, rotation: 90, width: 4 },
+      { type: "opening", position: { x: 9, y: 14 }, rotation: 0, width: 4 },
+      { type: "single", position: { x: 6, y: 18 }, rotation: 0, width: 3 },
+      { type: "single", position: { x: 15.5, y: 18 }, rotation: 0, width: 3 },
+      { type: "single", position: { x: 24, y: 18 }, rotation: 0, width: 3 },
+    ],
+    windows: [
+      { type: "standard", position: { x: 4, y: 0 }, rotation: 0, width: 3, height: 4 },
+      { type: "standard", position: { x: 14, y: 0 }, rotation: 0, width: 3, height: 4 },
+      { type: "picture", position: { x: 0, y: 7 }, rotation: 90, width: 5, height: 5 },
+      { type: "standard", position: { x: 24, y: 0 }, rotation: 0, width: 3, height: 4 },
+      { type: "standard", position: { x: 30, y: 7 }, rotation: 90, width: 3, height: 4 },
+      { type: "standard", position: { x: 0, y: 23 }, rotation: 90, width: 3, height: 4 },
+      { type: "standard", position: { x: 6, y: 28 }, rotation: 0, width: 3, height: 4 },
+      { type: "sliding", position: { x: 15.5, y: 28 }, rotation: 0, width: 4, height: 3 },
+      { type: "standard", position: { x: 30, y: 23 }, rotation: 90, width: 3, height: 4 },
+      { type: "standard", position: { x: 24.5, y: 28 }, rotation: 0, width: 3, height: 4 },
+    ],
+    furniture: [
+      templateFurniture("sofa-3seat", 2, 10, 7, 3),
+      templateFurniture("table-dining", 11, 5, 5, 3),
+      templateFurniture("stove", 20, 1, 2.5, 2),
+      templateFurniture("dishwasher", 23, 1, 2, 2),
+      templateFurniture("refrigerator", 26, 1, 3, 2.5),
+      templateFurniture("bed-double", 3.5, 20, 4.5, 6.5),
+      templateFurniture("toilet", 12.5, 21, 1.5, 2.5),
+      templateFurniture("sink", 16.5, 21, 2, 1.5),
+      templateFurniture("bathtub", 13.5, 25, 5, 2.5),
+      templateFurniture("bed-double", 22, 20, 4.5, 6.5),
+    ],
+  },
+  {
+    id: "juniorADU",
+    name: "Junior ADU",
+    description: "Under 500 sq ft conversion with an efficiency kitchen and its own entry",
+    sqft: "320",
+    icon: "🔑",
+    boundary: templateBoundary(16, 20),
+    rooms: [
+      templateRoom("living", "Living / Sleeping", 0, 0, 16, 12),
+      templateRoom("kitchen", "Efficiency Kitchen", 0, 12, 9, 8),
+      templateRoom("bathroom", "Bathroom", 9, 12, 7, 8),
+    ],
+    doors: [
+      { type: "single", position: { x: 4.5, y: 20 }, rotation: 0, width: 3 },
+      { type: "single", position: { x: 16, y: 6 }, rotation: 90, width: 3 },
+      { type: "opening", position: { x: 4.5, y: 12 }, rotation: 0, width: 4 },
+      { type: "single", position: { x: 12.5, y: 12 }, rotation: 0, width: 3 },
+    ],
+    windows: [
+      { type: "standard", position: { x: 5, y: 0 }, rotation: 0, width: 3, height: 4 },
+      { type: "standard", position: { x: 11, y: 0 }, rotation: 0, width: 3, height: 4 },
+      { type: "picture", position: { x: 0, y: 6 }, rotation: 90, width: 5, height: 5 },
+      { type: "sliding", position: { x: 16, y: 16 }, rotation: 90, width: 4, height: 3 },
+    ],
+    furniture: [
+      templateFurniture("bed-double", 10, 1, 4.5, 6.5),
+      templateFurniture("sofa-2seat", 1, 8, 5, 3),
+      templateFurniture("refrigerator", 0.5, 13.5, 3, 2.5),
+      templateFurniture("stove", 6, 17.5, 2.5, 2),
+      templateFurniture("toilet", 9.5, 17, 1.5, 2.5),
+      templateFurniture("sink", 11, 18, 2, 1.5),
+      templateFurniture("shower", 13, 16.5, 3, 3),
+    ],
+  },
+];
@@ -1,11 +1,22 @@
 "use client";
 
 import React, { createContext, useContext, useState, useCallback, useEffect } from "react";
-import type { FloorPlan, Finishes, WizardStep, Point } from "../types";
+import type { FloorPlan, Finishes, WizardStep, Point, Stair, ElectricalDevice, EditorLevel, Furniture } from "../types";
 import { STORAGE_KEYS } from "../constants";
 import * as api from "../api/client";
+import { onOutboxDelivered, sendViaOutbox, startOutbox } from "../api/outbox";
 import { convertEditorDataToApi } from "../api/floor-plan-converter";
-import type { Furniture } from "@/components/floor-plan-editor";
+import { createDefaultCostSettings, restoreCostSettings, type CostSettings } from "../cost";
+import {
+  createAlternative,
+  createAlternativesState,
+  latestBlueprintId,
+  blankAlternativePlan,
+  type AlternativeLotPlacement,
+  type AlternativePlan,
+  type AlternativesState,
+  type DesignAlternative,
+} from "../alternatives";
 
 interface EditorData {
   rooms: FloorPlan["rooms"];
@@ -16,36 +27,104 @@ interface EditorData {
   pixelsPerFoot: number;
   canvasWidth: number;
   canvasHeight: number;
+  // Multi-story: top-level rooms/doors/windows/furniture are the ground level
+  ceilingHeight?: number;
+  levels?: EditorLevel[];
+  stairs?: Stair[];
+  electrical?: ElectricalDevice[];
+}
+
+// Convert one level of editor data to the shape expected by the API converter
+function convertLevelContent(content: Pick<EditorData, "rooms" | "doors" | "windows" | "furniture">) {
+  return {
+    rooms: content.rooms.map((room) => ({
+      id: room.id,
+      name: room.name,
+      type: room.type,
+      color: room.color,
+      vertices: room.vertices,
+      area: room.area,
+      rotation: 0,
+      description: room.description,  // Include description for "other" type rooms
+    })),
+    doors: content.doors.map((door) => ({
+      id: door.id,
+      type: door.type,
+      x: door.position.x,
+      y: door.position.y,
+      width: door.width,
+      rotation: door.rotation,
+    })),
+    windows: content.windows.map((win) => ({
+      id: win.id,
+      type: win.type,
+      x: win.position.x,
+      y: win.position.y,
+      width: win.width,
+      height: win.height,
+      rotation: win.rotation,
+    })),
+    furniture: content.furniture.map((item) => ({
+      id: item.id,
+      type: item.type,
+      x: item.position.x,
+      y: item.position.y,
+      width: item.width,
+      height: item.height,
+      rotation: item.rotation,
+    })),
+  };
 }
 
 interface WizardContextType {
   currentStep: WizardStep;
   floorPlan: FloorPlan | null;
   finishes: Finishes | null;
+  costSettings: CostSettings; // local price book and optional upgrades for the cost estimate
   // Project and Blueprint state
   projectId: string | null;
   blueprintId: string | null;
   projectName: string;
   isSaving: boolean;
-  saveError: string | null;
+  saveError: string | null; // failed saves only - queued ones show through usePendingSync
   lastSavedAt: string | null;
+  // Design alternatives - the editor always works on the active one
+  alternatives: DesignAlternative[];
+  activeAlternativeId: string | null;
   // Methods
   setCurrentStep: (step: WizardStep) => void;
   setFloorPlan: (plan: FloorPlan | null) => void;
   setFinishes: (finishes: Finishes | null) => void;
+  setCostSettings: (settings: CostSettings) => void;
   resetWizard: () => void;
   // Project/Blueprint methods
   setProjectName: (name: string) => void;
   saveToCloud: (editorData: EditorData) => Promise<boolean>;
   setGeoLocation: (lat: number, lng: number, rotation?: number) => Promise<boolean>;
+  // Alternative methods - `current` is the editor's plan, kept on the alternative being left
+  addAlternative: (name: string, current: AlternativePlan, mode: "duplicate" | "blank") => DesignAlternative;
+  switchAlternative: (id: string, current: AlternativePlan) => DesignAlternative | null;
+  renameAlternative: (id: string, name: string) => void;
+  deleteAlternative: (id: string) => void;
+  setAlternativeLotPlacement: (placement: AlternativeLotPlacement) => void;
 }
 
 const WizardContext = createContext<WizardContextType | undefined>(undefined);
 
+// Alternatives carry whole plans, so a full localStorage must not break the edit that changed them
+function persistAlternatives(state: AlternativesState) {
+  try {
+    localStorage.setItem(STORAGE_KEYS.ALTERNATIVES, JSON.stringify(state));
+  } catch (error) {
+    console.error("Error saving design alternatives to localStorage:", error);
+  }
+}
+
 export function WizardProvider({ children }: { children: React.ReactNode }) {
   const [currentStep, setCurrentStepState] = useState<WizardStep>("floorplan");
   const [floorPlan, setFloorPlanState] = useState<FloorPlan | null>(null);
   const [finishes, setFinishesState] = useState<Finishes | null>(null);
+  const [costSettings, setCostSettingsState] = useState<CostSettings>(createDefaultCostSettings);
 
   // Project and Blueprint state
   const [projectId, setProjectId] = useState<string | null>(null);
@@ -54,6 +133,7 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
   const [isSaving, setIsSaving] = useState(false);
   const [saveError, setSaveError] = useState<string | null>(null);
   const [lastSavedAt, setLastSavedAt] = useState<string | null>(null);
+  const [alternativesState, setAlternativesState] = useState<AlternativesState | null>(null);
 
   // Load from localStorage on mount
   useEffect(() => {
@@ -61,9 +141,11 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
       const savedFloorPlan = localStorage.getItem(STORAGE_KEYS.FLOOR_PLAN);
       const savedFinishes = localStorage.getItem(STORAGE_KEYS.FINISHES);
       const savedStep = localStorage.getItem(STORAGE_KEYS.WIZARD_STATE);
+      const savedCostSettings = localStorage.getItem(STORAGE_KEYS.COST_SETTINGS);
       const savedProjectId = localStorage.getItem("aduvisualizer:projectId");
       const savedBlueprintId = localStorage.getItem("aduvisualizer:blueprintId");
       const savedProjectName = localStorage.getItem("aduvisualizer:projectName");
+      const savedAlternatives = localStorage.getItem(STORAGE_KEYS.ALTERNATIVES);
 
       if (savedFloorPlan) {
         setFloorPlanState(JSON.parse(savedFloorPlan));
@@ -71,6 +153,9 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
       if (savedFinishes) {
         setFinishesState(JSON.parse(savedFinishes));
       }
+      if (savedCostSettings) {
+        setCostSettingsState(restoreCostSettings(JSON.parse(savedCostSettings)));
+      }
       if (savedStep) {
         setCurrentStepState(savedStep as WizardStep);
       }
@@ -83,11 +168,61 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
       if (savedProjectName) {
         setProjectNameState(savedProjectName);
       }
+      // Alternatives saved for another project (or none yet) start over with one option
+      const parsedAlternatives = savedAlternatives ? (JSON.parse(savedAlternatives) as AlternativesState) : null;
+      setAlternativesState(parsedAlternatives && parsedAlternatives.projectId === savedProjectId
+        ? parsedAlternatives
+        : createAlternativesState(savedProjectId, savedBlueprintId));
     } catch (error) {
       console.error("Error loading wizard state from localStorage:", error);
     }
   }, []);
 
+  // Every change to the alternatives is written through here, so state updaters stay free of side effects
+  useEffect(() => {
+    if (alternativesState) persistAlternatives(alternativesState);
+  }, [alternativesState]);
+
+  // Add a saved blueprint version to an alternative's lineage
+  const recordBlueprint = useCallback((alternativeId: string | undefined, savedProjectId: string, savedBlueprintId: string) => {
+    setAlternativesState((prev) => {
+      // Alternatives made before the project's first save belong to the project it created
+      const state = prev && (prev.projectId === savedProjectId || !prev.projectId)
+        ? prev
+        : createAlternativesState(savedProjectId, null);
+      const targetId = alternativeId ?? state.activeId;
+      return {
+        ...state,
+        projectId: savedProjectId,
+        alternatives: state.alternatives.map((alt) =>
+          alt.id === targetId && !alt.blueprintIds.includes(savedBlueprintId)
+            ? { ...alt, blueprintIds: [...alt.blueprintIds, savedBlueprintId], updatedAt: new Date().toISOString() }
+            : alt
+        ),
+      };
+    });
+  }, []);
+
+  const activeAlternativeId = alternativesState?.activeId ?? null;
+
+  // Send saves left in the outbox by an earlier visit, and record saves that sync in the background
+  useEffect(() => {
+    const unsubscribe = onOutboxDelivered("blueprint", (response, entry) => {
+      const { blueprint } = response.data;
+      // The wizard may have moved on to another project since the save was queued
+      if (blueprint.projectId !== localStorage.getItem("aduvisualizer:projectId")) return;
+      recordBlueprint(entry.payload.alternativeId, blueprint.projectId, blueprint.id);
+      // A save for an alternative the editor has since left only extends that alternative's lineage
+      if (entry.payload.alternativeId && entry.payload.alternativeId !== activeAlternativeId) return;
+      setBlueprintId(blueprint.id);
+      localStorage.setItem("aduvisualizer:blueprintId", blueprint.id);
+      setLastSavedAt(new Date().toISOString());
+      setSaveError(null);
+    });
+    startOutbox();
+    return unsubscribe;
+  }, [activeAlternativeId, recordBlueprint]);
+
   const setCurrentStep = useCallback((step: WizardStep) => {
     setCurrentStepState(step);
     localStorage.setItem(STORAGE_KEYS.WIZARD_STATE, step);
@@ -111,22 +246,31 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  const setCostSettings = useCallback((settings: CostSettings) => {
+    setCostSettingsState(settings);
+    localStorage.setItem(STORAGE_KEYS.COST_SETTINGS, JSON.stringify(settings));
+  }, []);
+
   const resetWizard = useCallback(() => {
     setCurrentStepState("floorplan");
     setFloorPlanState(null);
     setFinishesState(null);
+    // The price book is local to this browser and outlives the project; optional upgrades do not
+    setCostSettings({ ...createDefaultCostSettings(), priceBook: costSettings.priceBook });
     setProjectId(null);
     setBlueprintId(null);
     setProjectNameState("My ADU Project");
     setLastSavedAt(null);
     setSaveError(null);
+    setAlternativesState(createAlternativesState(null, null));
     localStorage.removeItem(STORAGE_KEYS.FLOOR_PLAN);
     localStorage.removeItem(STORAGE_KEYS.FINISHES);
     localStorage.removeItem(STORAGE_KEYS.WIZARD_STATE);
     localStorage.removeItem("aduvisualizer:projectId");
     localStorage.removeItem("aduvisualizer:blueprintId");
     localStorage.removeItem("aduvisualizer:projectName");
-  }, []);
+    localStorage.removeItem(STORAGE_KEYS.ALTERNATIVES);
+  }, [costSettings.priceBook, setCostSettings]);
 
   const setProjectName = useCallback((name: string) => {
     setProjectNameState(name);
@@ -153,65 +297,65 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
       }
 
       // Convert editor data to API format
-      const convertedRooms = editorData.rooms.map((room) => ({
-        id: room.id,
-        name: room.name,
-        type: room.type,
-        color: room.color,
-        vertices: room.vertices,
-        area: room.area,
-        rotation: 0,
-        description: room.description,  // Include description for "other" type rooms
-      }));
-
-      const convertedDoors = editorData.doors.map((door) => ({
-        id: door.id,
-        type: door.type,
-        x: door.position.x,
-        y: door.position.y,
-        width: door.width,
-        rotation: door.rotation,
-      }));
-
-      const convertedWindows = editorData.windows.map((win) => ({
-        id: win.id,
-        type: win.type,
-        x: win.position.x,
-        y: win.position.y,
-        width: win.width,
-        height: win.height,
-        rotation: win.rotation,
-      }));
-
-      const convertedFurniture = editorData.furniture.map((item) => ({
-        id: item.id,
-        type: item.type,
-        x: item.position.x,
-        y: item.position.y,
-        width: item.width,
-        height: item.height,
-        rotation: item.rotation,
-      }));
-
       const apiData = convertEditorDataToApi(currentProjectId, {
-        rooms: convertedRooms,
-        doors: convertedDoors,
-        windows: convertedWindows,
-        furniture: convertedFurniture,
+        ...convertLevelContent(editorData),
         aduBoundary: editorData.aduBoundary,
         pixelsPerFoot: editorData.pixelsPerFoot,
         canvasWidth: editorData.canvasWidth,
         canvasHeight: editorData.canvasHeight,
+        ceilingHeight: editorData.ceilingHeight,
+        levels: editorData.levels?.map((level) => ({
+          id: level.id,
+          name: level.name,
+          ceilingHeight: level.ceilingHeight,
+          ...convertLevelContent(level),
+        })),
+        stairs: editorData.stairs?.map((stair) => ({
+          fromLevel: stair.fromLevel,
+          toLevel: stair.toLevel,
+          x: stair.position.x,
+          y: stair.position.y,
+          width: stair.width,
+          length: stair.length,
+          rotation: stair.rotation,
+        })),
+        electrical: editorData.electrical?.map((device) => ({
+          id: device.id,
+          type: device.type,
+          level: device.level,
+          x: device.position.x,
+          y: device.position.y,
+          rotation: device.rotation,
+          circuit: device.circuit,
+          controls: device.controls,
+        })),
       }, {
         name: projectName,
         isValid: true,
       });
+      // Versions continue the lineage of the alternative being edited
+      const alternativeId = activeAlternativeId ?? undefined;
+      apiData.alternativeId = alternativeId;
 
-      // Save blueprint
-      const blueprintResponse = await api.saveBlueprint(apiData);
+      // Save blueprint through the outbox; a newer save of the same alternative replaces one still waiting to sync
+      const result = await sendViaOutbox("blueprint", apiData, {
+        dedupeKey: `blueprint:${currentProjectId}:${alternativeId ?? "default"}`,
+      });
+      if (result.status === "rejected") {
+        throw new Error(result.error);
+      }
+      if (result.status === "queued") {
+        // Kept locally and retried in the background - not an error, the pending sync indicator
+        // (usePendingSync) counts it until onOutboxDelivered records the blueprint
+        setSaveError(null);
+        console.warn("Blueprint save queued for sync:", result.id);
+        return true;
+      }
+      const blueprintResponse = result.response;
       const newBlueprintId = blueprintResponse.data.blueprint.id;
       setBlueprintId(newBlueprintId);
       localStorage.setItem("aduvisualizer:blueprintId", newBlueprintId);
+      recordBlueprint(alternativeId, currentProjectId, newBlueprintId);
 
       const now = new Date().toISOString();
       setLastSavedAt(now);
@@ -232,7 +376,80 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
     } finally {
       setIsSaving(false);
     }
-  }, [projectId, projectName]);
+  }, [projectId, projectName, activeAlternativeId, recordBlueprint]);
+
+  // Make an alternative the one being edited, pointing the wizard at its latest blueprint and finishes
+  const activateAlternative = useCallback((state: AlternativesState, target: DesignAlternative) => {
+    setAlternativesState({ ...state, activeId: target.id });
+    const targetBlueprintId = latestBlueprintId(target);
+    setBlueprintId(targetBlueprintId);
+    if (targetBlueprintId) {
+      localStorage.setItem("aduvisualizer:blueprintId", targetBlueprintId);
+    } else {
+      localStorage.removeItem("aduvisualizer:blueprintId");
+    }
+    if (target.finishes !== undefined) {
+      setFinishes(target.finishes);
+    }
+  }, [setFinishes]);
+
+  // Keep the editor's plan and the current finishes on the alternative being left
+  const storeActiveAlternative = useCallback((state: AlternativesState, current: AlternativePlan): AlternativesState => ({
+    ...state,
+    alternatives: state.alternatives.map((alt) =>
+      alt.id === state.activeId
+        ? { ...alt, working: JSON.parse(JSON.stringify(current)), finishes, updatedAt: new Date().toISOString() }
+        : alt
+    ),
+  }), [finishes]);
+
+  const addAlternative = useCallback((name: string, current: AlternativePlan, mode: "duplicate" | "blank") => {
+    const state = storeActiveAlternative(alternativesState ?? createAlternativesState(projectId, blueprintId), current);
+    const source = state.alternatives.find((alt) => alt.id === state.activeId);
+    const alternative = mode === "duplicate" && source
+      ? createAlternative(name, source)
+      : createAlternative(name, { blueprintIds: [], working: blankAlternativePlan(current), finishes: null });
+    activateAlternative({ ...state, alternatives: [...state.alternatives, alternative] }, alternative);
+    return alternative;
+  }, [alternativesState, projectId, blueprintId, storeActiveAlternative, activateAlternative]);
+
+  const switchAlternative = useCallback((id: string, current: AlternativePlan) => {
+    if (!alternativesState || id === alternativesState.activeId) return null;
+    const target = alternativesState.alternatives.find((alt) => alt.id === id);
+    if (!target) return null;
+    activateAlternative(storeActiveAlternative(alternativesState, current), target);
+    return target;
+  }, [alternativesState, storeActiveAlternative, activateAlternative]);
+
+  const renameAlternative = useCallback((id: string, name: string) => {
+    if (!alternativesState || !name.trim()) return;
+    setAlternativesState({
+      ...alternativesState,
+      alternatives: alternativesState.alternatives.map((alt) =>
+        alt.id === id ? { ...alt, name: name.trim(), updatedAt: new Date().toISOString() } : alt
+      ),
+    });
+  }, [alternativesState]);
+
+  // The active alternative can't be deleted - switch away from it first
+  const deleteAlternative = useCallback((id: string) => {
+    if (!alternativesState || id === alternativesState.activeId) return;
+    setAlternativesState({
+      ...alternativesState,
+      alternatives: alternativesState.alternatives.filter((alt) => alt.id !== id),
+    });
+  }, [alternativesState]);
+
+  // Keep where the active alternative puts the ADU, separate from the lot record it may share
+  const setAlternativeLotPlacement = useCallback((placement: AlternativeLotPlacement) => {
+    if (!alternativesState) return;
+    setAlternativesState({
+      ...alternativesState,
+      alternatives: alternativesState.alternatives.map((alt) =>
+        alt.id === alternativesState.activeId ? { ...alt, lotPlacement: placement } : alt
+      ),
+    });
+  }, [alternativesState]);
 
   // Set geo-location for the project
   const setGeoLocation = useCallback(async (lat: number, lng: number, rotation: number = 0): Promise<boolean> => {
@@ -258,19 +475,28 @@ export function WizardProvider({ children }: { children: React.ReactNode }) {
         currentStep,
         floorPlan,
         finishes,
+        costSettings,
         projectId,
         blueprintId,
         projectName,
         isSaving,
         saveError,
         lastSavedAt,
+        alternatives: alternativesState?.alternatives ?? [],
+        activeAlternativeId,
         setCurrentStep,
         setFloorPlan,
         setFinishes,
+        setCostSettings,
         resetWizard,
         setProjectName,
         saveToCloud,
         setGeoLocation,
+        addAlternative,
+        switchAlternative,
+        renameAlternative,
+        deleteAlternative,
+        setAlternativeLotPlacement,
       }}
     >
       {children}
@@ -0,0 +1,153 @@
+// Cost Estimator - prices the plan's quantities against the price book
+import type { TierOption, VibeOption } from "../api/client";
+import type {
+  CostPlan,
+  CostFinishes,
+  CostSettings,
+  CostEstimate,
+  CostEstimateSummary,
+  CostLineItem,
+  PriceItemId,
+  RoomCost,
+  TradeCost,
+  CostTrade,
+} from "./types";
+import { TRADE_LABELS, FINISH_TRADES } from "./price-book";
+import { measurePlan } from "./quantities";
+import { analyzePlumbing, summarizePlumbing } from "../plumbing";
+
+const WET_ROOM_TYPES = new Set(["bathroom", "half_bath", "kitchen", "laundry"]);
+
+const roundCurrency = (value: number) => Math.round(value);
+
+/**
+ * Estimate construction cost for the whole plan.
+ * Room-level items are priced at the room's tier and vibe (falling back to the global tier);
+ * whole-building items such as the foundation and roof use the global tier.
+ */
+export function estimateCost(plan: CostPlan, finishes: CostFinishes, settings: CostSettings): CostEstimate {
+  const { priceBook, optionals } = settings;
+  const globalTier: TierOption = finishes.globalTier ?? "standard";
+  const quantities = measurePlan(plan, priceBook.cabinetRunRatio);
+  const plumbing = summarizePlumbing(analyzePlumbing(plan));
+  const lines: CostLineItem[] = [];
+
+  const addLine = (itemId: PriceItemId, quantity: number, tier: TierOption, vibe?: VibeOption, roomId?: string) => {
+    if (quantity <= 0) return;
+    const item = priceBook.items[itemId];
+    const vibeMultiplier = vibe && FINISH_TRADES.includes(item.trade) ? priceBook.vibeMultipliers[vibe] ?? 1 : 1;
+    const unitPrice = item.prices[tier] * priceBook.locationFactor * vibeMultiplier;
+    lines.push({
+      itemId,
+      label: item.label,
+      trade: item.trade,
+      unit: item.unit,
+      quantity: Math.round(quantity * 10) / 10,
+      unitPrice: Math.round(unitPrice * 100) / 100,
+      total: roundCurrency(quantity * unitPrice),
+      ...(roomId ? { roomId } : {}),
+    });
+  };
+
+  const byRoom: RoomCost[] = quantities.rooms.map(room => {
+    const finish = finishes.roomFinishes?.find(rf => rf.roomId === room.roomId);
+    const tier = finish?.tier ?? globalTier;
+    const vibe = finish?.vibe;
+    const add = (itemId: PriceItemId, quantity: number) => addLine(itemId, quantity, tier, vibe, room.roomId);
+    const firstLine = lines.length;
+
+    add("wallFraming", room.wallFramingArea);
+    add("siding", room.exteriorWallArea);
+    add("drywallPaint", room.finishWallArea);
+    add(WET_ROOM_TYPES.has(room.roomType) ? "flooringWet" : "flooringDry", room.floorArea);
+    add("doorExterior", room.exteriorDoors);
+    add("doorInterior", room.interiorDoors);
+    add("doorPatio", room.patioDoors);
+    add("window", room.glazingArea);
+    add("plumbingFixture", room.plumbingFixtures);
+    add("electrical", room.floorArea);
+    add("hvac", room.floorArea);
+    add("cabinets", room.cabinetRun);
+    add("countertops", room.cabinetRun);
+    if (optionals.customLighting) add("customLighting", room.floorArea);
+
+    return {
+      roomId: room.roomId,
+      roomName: room.roomName,
+      roomType: room.roomType,
+      levelId: room.levelId,
+      tier,
+      ...(vibe && { vibe }),
+      floorArea: Math.round(room.floorArea * 10) / 10,
+      total: lines.slice(firstLine).reduce((sum, line) => sum + line.total, 0),
+    };
+  });
+
+  // Whole-building items
+  const firstBuildingLine = lines.length;
+  addLine("foundation", quantities.footprintArea, globalTier);
+  addLine("roofing", quantities.roofArea, globalTier);
+  addLine("stair", quantities.stairCount, globalTier);
+  // Every wet wall or loose fixture needs its own stack, so shared wet walls keep this low
+  addLine("plumbingStack", plumbing.stackCount, globalTier);
+  addLine("drainPipe", plumbing.drainLength ?? 0, globalTier);
+  addLine("supplyPipe", plumbing.supplyLength ?? 0, globalTier);
+  addLine("sewerLateral", plumbing.lateralLength ?? 0, globalTier);
+  if (optionals.solarPanels) addLine("solarPanels", 1, globalTier);
+  if (optionals.smartHome) addLine("smartHome", 1, globalTier);
+  const buildingTotal = lines.slice(firstBuildingLine).reduce((sum, line) => sum + line.total, 0);
+
+  const tradeTotals = new Map<CostTrade, number>();
+  for (const line of lines) {
+    tradeTotals.set(line.trade, (tradeTotals.get(line.trade) ?? 0) + line.total);
+  }
+  const byTrade: TradeCost[] = (Object.keys(TRADE_LABELS) as CostTrade[])
+    .filter(trade => tradeTotals.has(trade))
+    .map(trade => ({ trade, label: TRADE_LABELS[trade], total: tradeTotals.get(trade)! }));
+
+  const subtotal = lines.reduce((sum, line) => sum + line.total, 0);
+  const contingency = roundCurrency((subtotal * priceBook.contingencyPercent) / 100);
+  const total = subtotal + contingency;
+
+  return {
+    region: priceBook.region,
+    lines,
+    byRoom,
+    byTrade,
+    buildingTotal,
+    subtotal,
+    contingency,
+    total,
+    totalFloorArea: Math.round(quantities.totalFloorArea * 10) / 10,
+    costPerSqFt: quantities.totalFloorArea > 0 ? roundCurrency(total / quantities.totalFloorArea) : 0,
+    plumbing,
+  };
+}
+
+/**
+ * Compact summary of an estimate for the PDF and JSON exports
+ */
+export function summarizeEstimate(estimate: CostEstimate, settings: CostSettings): CostEstimateSummary {
+  return {
+    region: estimate.region,
+    subtotal: estimate.subtotal,
+    contingencyPercent: settings.priceBook.contingencyPercent,
+    contingency: estimate.contingency,
+    total: estimate.total,
+    totalFloorArea: estimate.totalFloorArea,
+    costPerSqFt: estimate.costPerSqFt,
+    byTrade: estimate.byTrade,
+    plumbing: estimate.plumbing,
+    byRoom: estimate.byRoom.map(room => ({
+      name: room.roomName,
+      type: room.roomType,
+      tier: room.tier,
+      floorArea: room.floorArea,
+      total: room.total,
+    })),
+  };
+}
+
+export function formatCurrency(value: number): string {
+  return `$${Math.round(value).toLocaleString("en-US")}`;
+}
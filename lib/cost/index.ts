@@ -0,0 +1,10 @@
+export * from "./types";
+export { measurePlan } from "./quantities";
+export { estimateCost, summarizeEstimate, formatCurrency } from "./estimate";
+export {
+  DEFAULT_PRICE_BOOK,
+  TRADE_LABELS,
+  FINISH_TRADES,
+  createDefaultCostSettings,
+  restoreCostSettings,
+} from "./price-book";
@@ -0,0 +1,85 @@
+// Default price book - statewide California averages for detached ADU construction.
+// Teams override it with local pricing in the finishes step.
+import type { CostTrade, CostSettings, PriceBook } from "./types";
+
+export const TRADE_LABELS: Record<CostTrade, string> = {
+  sitework: "Foundation & Sitework",
+  framing: "Framing",
+  roofing: "Roofing",
+  exterior: "Exterior Siding",
+  drywall: "Drywall & Paint",
+  flooring: "Flooring",
+  openings: "Doors & Windows",
+  plumbing: "Plumbing",
+  electrical: "Electrical",
+  hvac: "HVAC",
+  cabinetry: "Cabinets & Counters",
+  optionals: "Optional Upgrades",
+};
+
+// Trades whose cost follows the look of the room (the vibe multiplier applies)
+export const FINISH_TRADES: CostTrade[] = ["drywall", "flooring", "openings", "plumbing", "cabinetry"];
+
+export const DEFAULT_PRICE_BOOK: PriceBook = {
+  region: "California (statewide average)",
+  locationFactor: 1,
+  contingencyPercent: 10,
+  vibeMultipliers: {
+    modern_minimal: 1,
+    scandinavian: 1,
+    industrial: 0.95,
+    bohemian: 0.95,
+    midcentury: 1.05,
+    coastal: 1.05,
+    farmhouse: 1,
+    luxury: 1.3,
+  },
+  cabinetRunRatio: 0.4,
+  items: {
+    foundation: { label: "Slab foundation", trade: "sitework", unit: "sqft", prices: { budget: 18, standard: 24, premium: 32 } },
+    wallFraming: { label: "Wall framing & insulation", trade: "framing", unit: "sqft", prices: { budget: 9, standard: 12, premium: 16 } },
+    stair: { label: "Interior stair", trade: "framing", unit: "ea", prices: { budget: 4500, standard: 7000, premium: 12000 } },
+    roofing: { label: "Roof framing & roofing", trade: "roofing", unit: "sqft", prices: { budget: 14, standard: 18, premium: 26 } },
+    siding: { label: "Exterior siding", trade: "exterior", unit: "sqft", prices: { budget: 10, standard: 14, premium: 22 } },
+    drywallPaint: { label: "Drywall & paint", trade: "drywall", unit: "sqft", prices: { budget: 5, standard: 6.5, premium: 9 } },
+    flooringDry: { label: "Flooring (dry rooms)", trade: "flooring", unit: "sqft", prices: { budget: 6, standard: 10, premium: 18 } },
+    flooringWet: { label: "Tile flooring (wet rooms)", trade: "flooring", unit: "sqft", prices: { budget: 12, standard: 18, premium: 30 } },
+    doorExterior: { label: "Exterior door", trade: "openings", unit: "ea", prices: { budget: 900, standard: 1500, premium: 3000 } },
+    doorInterior: { label: "Interior door", trade: "openings", unit: "ea", prices: { budget: 350, standard: 550, premium: 1100 } },
+    doorPatio: { label: "Sliding / French door", trade: "openings", unit: "ea", prices: { budget: 2200, standard: 3500, premium: 7000 } },
+    window: { label: "Windows", trade: "openings", unit: "sqft", prices: { budget: 55, standard: 80, premium: 130 } },
+    plumbingFixture: { label: "Plumbing fixture (incl. rough-in)", trade: "plumbing", unit: "ea", prices: { budget: 1200, standard: 1800, premium: 3200 } },
+    plumbingStack: { label: "Drain/vent stack", trade: "plumbing", unit: "ea", prices: { budget: 900, standard: 1300, premium: 1900 } },
+    drainPipe: { label: "Drain & waste piping", trade: "plumbing", unit: "lf", prices: { budget: 28, standard: 38, premium: 55 } },
+    supplyPipe: { label: "Water supply piping", trade: "plumbing", unit: "lf", prices: { budget: 12, standard: 16, premium: 26 } },
+    sewerLateral: { label: "Sewer lateral (trench & pipe)", trade: "sitework", unit: "lf", prices: { budget: 90, standard: 120, premium: 170 } },
+    electrical: { label: "Electrical", trade: "electrical", unit: "sqft", prices: { budget: 12, standard: 15, premium: 20 } },
+    hvac: { label: "Heating & cooling", trade: "hvac", unit: "sqft", prices: { budget: 10, standard: 14, premium: 20 } },
+    cabinets: { label: "Kitchen cabinets", trade: "cabinetry", unit: "lf", prices: { budget: 250, standard: 400, premium: 750 } },
+    countertops: { label: "Countertops", trade: "cabinetry", unit: "lf", prices: { budget: 80, standard: 130, premium: 260 } },
+    solarPanels: { label: "Solar panels", trade: "optionals", unit: "lump", prices: { budget: 12000, standard: 15000, premium: 20000 } },
+    smartHome: { label: "Smart home package", trade: "optionals", unit: "lump", prices: { budget: 2000, standard: 3500, premium: 7000 } },
+    customLighting: { label: "Custom lighting", trade: "optionals", unit: "sqft", prices: { budget: 4, standard: 6, premium: 10 } },
+  },
+};
+
+export function createDefaultCostSettings(): CostSettings {
+  return {
+    priceBook: structuredClone(DEFAULT_PRICE_BOOK),
+    optionals: { smartHome: false, solarPanels: false, customLighting: false },
+  };
+}
+
+// Saved settings are layered over the defaults so price items added later still have prices
+export function restoreCostSettings(saved: Partial<CostSettings>): CostSettings {
+  const defaults = createDefaultCostSettings();
+  return {
+    priceBook: {
+      ...defaults.priceBook,
+      ...saved.priceBook,
+      vibeMultipliers: { ...defaults.priceBook.vibeMultipliers, ...saved.priceBook?.vibeMultipliers },
+      items: { ...defaults.priceBook.items, ...saved.priceBook?.items },
+    },
+    optionals: { ...defaults.optionals, ...saved.optionals },
+  };
+}
@@ -0,0 +1,194 @@
+// Quantity takeoff - measures the plan in the units the price book is written in
+import type { Point, Room, Door, Window, EditorFurniture, Wall, LevelId } from "../types";
+import { LEVEL_CONFIGS } from "../constants";
+import { buildWallGraph, findNearestWall } from "../wall-graph";
+import { polygonArea, isPointInPolygon } from "../compliance/geometry";
+import { PLUMBING_FIXTURE_TYPES } from "../plumbing";
+import type { CostPlan, PlanQuantities, RoomQuantities } from "./types";
+
+const PATIO_DOOR_TYPES = new Set<Door["type"]>(["sliding", "french"]);
+const MIN_CABINET_RUN = 8; // ft - smallest kitchen worth pricing
+
+interface LevelGeometry {
+  id: LevelId;
+  ceilingHeight: number;
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: EditorFurniture[];
+}
+
+function perimeter(vertices: Room["vertices"]): number {
+  let total = 0;
+  for (let i = 0; i < vertices.length; i++) {
+    const a = vertices[i];
+    const b = vertices[(i + 1) % vertices.length];
+    total += Math.hypot(b.x - a.x, b.y - a.y);
+  }
+  return total;
+}
+
+// Length of a room edge that runs along a wall (0 when they are not collinear)
+function overlapLength(a: Point, b: Point, wall: Wall, tolerance: number): number {
+  const dx = wall.end.x - wall.start.x;
+  const dy = wall.end.y - wall.start.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return 0;
+  const ux = dx / length;
+  const uy = dy / length;
+  const offset = (p: Point) => Math.abs((p.x - wall.start.x) * uy - (p.y - wall.start.y) * ux);
+  if (offset(a) > tolerance || offset(b) > tolerance) return 0;
+  const ta = (a.x - wall.start.x) * ux + (a.y - wall.start.y) * uy;
+  const tb = (b.x - wall.start.x) * ux + (b.y - wall.start.y) * uy;
+  return Math.max(0, Math.min(Math.max(ta, tb), length) - Math.max(Math.min(ta, tb), 0));
+}
+
+// Room an opening belongs to (the one it was placed in, else the room whose edge it sits on)
+// and the wall it is set in
+function locateOpening(
+  opening: { position: Point; roomId?: string },
+  rooms: Room[],
+  walls: Wall[],
+  pixelsPerFoot: number
+): { roomId?: string; wall?: Wall } {
+  const nearest = findNearestWall(opening.position, walls, pixelsPerFoot);
+  const roomId = opening.roomId && rooms.some(r => r.id === opening.roomId)
+    ? opening.roomId
+    : rooms.find(r => isPointInPolygon(opening.position, r.vertices, pixelsPerFoot / 2))?.id;
+  return { roomId, wall: nearest?.wall };
+}
+
+function measureLevel(level: LevelGeometry, pixelsPerFoot: number): RoomQuantities[] {
+  const toFeet = (px: number) => px / pixelsPerFoot;
+  const walls = buildWallGraph(level.rooms);
+
+  const quantities = new Map<string, RoomQuantities>(
+    level.rooms.map(room => [room.id, {
+      roomId: room.id,
+      roomName: room.name,
+      roomType: room.type,
+      levelId: level.id,
+      floorArea: polygonArea(room.vertices) / (pixelsPerFoot * pixelsPerFoot),
+      perimeter: toFeet(perimeter(room.vertices)),
+      wallFramingArea: 0,
+      exteriorWallArea: 0,
+      finishWallArea: 0,
+      exteriorDoors: 0,
+      interiorDoors: 0,
+      patioDoors: 0,
+      glazingArea: 0,
+      plumbingFixtures: 0,
+      cabinetRun: 0,
+    }])
+  );
+
+  // Walls: every room edge gets a finished face; interior framing is shared with the room next door
+  for (const room of level.rooms) {
+    const measured = quantities.get(room.id)!;
+    measured.finishWallArea = measured.perimeter * level.ceilingHeight;
+
+    let exteriorLength = 0;
+    let framingLength = 0;
+    room.vertices.forEach((a, i) => {
+      const b = room.vertices[(i + 1) % room.vertices.length];
+      for (const wall of walls) {
+        const overlap = overlapLength(a, b, wall, 1);
+        if (overlap === 0) continue;
+        if (wall.kind === "exterior") {
+          exteriorLength += overlap;
+          framingLength += overlap;
+        } else {
+          framingLength += overlap / Math.max(1, wall.roomIds?.length ?? 1);
+        }
+      }
+    });
+    measured.exteriorWallArea = toFeet(exteriorLength) * level.ceilingHeight;
+    measured.wallFramingArea = toFeet(framingLength) * level.ceilingHeight;
+  }
+
+  for (const door of level.doors) {
+    if (door.type === "opening") continue;
+    const { roomId, wall } = locateOpening(door, level.rooms, walls, pixelsPerFoot);
+    const room = roomId ? quantities.get(roomId) : undefined;
+    if (!room) continue;
+    if (PATIO_DOOR_TYPES.has(door.type)) room.patioDoors += 1;
+    else if (wall?.kind === "exterior") room.exteriorDoors += 1;
+    else room.interiorDoors += 1;
+  }
+
+  for (const window of level.windows) {
+    const { roomId } = locateOpening(window, level.rooms, walls, pixelsPerFoot);
+    const room = roomId ? quantities.get(roomId) : undefined;
+    if (room) room.glazingArea += window.width * window.height;
+  }
+
+  // Fixture types placed in each room
+  const placedFixtures = new Map<string, Set<string>>();
+  for (const item of level.furniture) {
+    if (!PLUMBING_FIXTURE_TYPES.has(item.type)) continue;
+    const room = level.rooms.find(r => isPointInPolygon(item.position, r.vertices));
+    if (!room) continue;
+    quantities.get(room.id)!.plumbingFixtures += 1;
+    placedFixtures.set(room.id, (placedFixtures.get(room.id) ?? new Set()).add(item.type));
+  }
+
+  // A kitchen sink or laundry hookup is implied by the room type until one is placed
+  for (const room of quantities.values()) {
+    const placed = placedFixtures.get(room.roomId);
+    const hasSink = placed?.has("sink") ?? false;
+    if (room.roomType === "kitchen" && !hasSink) room.plumbingFixtures += 1;
+    if (room.roomType === "laundry" && !hasSink && !placed?.has("washer")) room.plumbingFixtures += 1;
+  }
+
+  return Array.from(quantities.values());
+}
+
+/**
+ * Take off quantities for every level of the plan.
+ * The cabinet run of each kitchen is its perimeter times `cabinetRunRatio`.
+ */
+export function measurePlan(plan: CostPlan, cabinetRunRatio: number): PlanQuantities {
+  const ground: LevelGeometry = {
+    id: "ground",
+    ceilingHeight: plan.ceilingHeight ?? LEVEL_CONFIGS.ground.defaultCeilingHeight,
+    rooms: plan.rooms,
+    doors: plan.doors,
+    windows: plan.windows,
+    furniture: plan.furniture,
+  };
+  const levels: LevelGeometry[] = [
+    ground,
+    ...(plan.levels ?? [])
+      .filter(level => level.id !== "ground")
+      .map(level => ({
+        id: level.id,
+        ceilingHeight: level.ceilingHeight,
+        rooms: level.rooms,
+        doors: level.doors,
+        windows: level.windows,
+        furniture: level.furniture ?? [],
+      })),
+  ].sort((a, b) => LEVEL_CONFIGS[a.id].order - LEVEL_CONFIGS[b.id].order);
+
+  const rooms: RoomQuantities[] = [];
+  const levelAreas: number[] = [];
+  for (const level of levels) {
+    const levelRooms = measureLevel(level, plan.pixelsPerFoot);
+    for (const room of levelRooms) {
+      if (room.roomType === "kitchen") {
+        room.cabinetRun = Math.max(MIN_CABINET_RUN, room.perimeter * cabinetRunRatio);
+      }
+    }
+    rooms.push(...levelRooms);
+    levelAreas.push(levelRooms.reduce((sum, room) => sum + room.floorArea, 0));
+  }
+
+  return {
+    rooms,
+    footprintArea: levelAreas.find(area => area > 0) ?? 0,
+    // Upper levels sit on the ones below, so the largest level approximates the roof outline
+    roofArea: Math.max(0, ...levelAreas),
+    totalFloorArea: levelAreas.reduce((sum, area) => sum + area, 0),
+    stairCount: plan.stairs?.length ?? 0,
+  };
+}
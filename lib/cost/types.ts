@@ -0,0 +1,175 @@
+// Cost Estimator Types
+import type { Point, Room, Door, Window, EditorFurniture, FloorLevel, LevelId, Stair, Finishes } from "../types";
+import type { TierOption, VibeOption, RoomFinish } from "../api/client";
+import type { PlumbingSummary } from "../plumbing";
+
+export type CostTrade =
+  | "sitework"
+  | "framing"
+  | "roofing"
+  | "exterior"
+  | "drywall"
+  | "flooring"
+  | "openings"
+  | "plumbing"
+  | "electrical"
+  | "hvac"
+  | "cabinetry"
+  | "optionals";
+
+export type CostUnit = "sqft" | "lf" | "ea" | "lump";
+
+export type PriceItemId =
+  | "foundation"
+  | "wallFraming"
+  | "roofing"
+  | "siding"
+  | "drywallPaint"
+  | "flooringDry"
+  | "flooringWet"
+  | "doorExterior"
+  | "doorInterior"
+  | "doorPatio"
+  | "window"
+  | "plumbingFixture"
+  | "plumbingStack"
+  | "drainPipe"
+  | "supplyPipe"
+  | "sewerLateral"
+  | "electrical"
+  | "hvac"
+  | "cabinets"
+  | "countertops"
+  | "stair"
+  | "solarPanels"
+  | "smartHome"
+  | "customLighting";
+
+export interface PriceBookItem {
+  label: string;
+  trade: CostTrade;
+  unit: CostUnit;
+  prices: Record<TierOption, number>; // dollars per unit
+}
+
+// Editable local unit prices. Finish trades scale with each room's vibe.
+export interface PriceBook {
+  region: string;
+  locationFactor: number; // multiplies every unit price (1 = baseline)
+  contingencyPercent: number;
+  vibeMultipliers: Record<VibeOption, number>;
+  cabinetRunRatio: number; // kitchen cabinet run as a share of the kitchen perimeter
+  items: Record<PriceItemId, PriceBookItem>;
+}
+
+export type CostOptionals = Finishes["optionals"];
+
+export interface CostSettings {
+  priceBook: PriceBook;
+  optionals: CostOptionals;
+}
+
+// A level other than the ground level, as stored on the floor plan or held by the editor
+export type CostLevel = Pick<FloorLevel, "id" | "ceilingHeight" | "rooms" | "doors" | "windows" | "furniture">;
+
+// Everything the estimator looks at. Geometry is in canvas pixels; the top-level
+// rooms/doors/windows/furniture are the ground level.
+export interface CostPlan {
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: EditorFurniture[];
+  pixelsPerFoot: number;
+  ceilingHeight?: number;
+  levels?: CostLevel[];
+  stairs?: Stair[];
+  sewerConnection?: Point | null; // drain and supply runs are priced once it is placed
+}
+
+export interface CostFinishes {
+  globalTier?: TierOption;
+  roomFinishes?: RoomFinish[];
+}
+
+// Quantities taken off a single room
+export interface RoomQuantities {
+  roomId: string;
+  roomName: string;
+  roomType: Room["type"];
+  levelId: LevelId;
+  floorArea: number; // sq ft
+  perimeter: number; // ft
+  wallFramingArea: number; // sq ft of wall attributed to this room (shared walls are split)
+  exteriorWallArea: number; // sq ft
+  finishWallArea: number; // sq ft of wall surface facing into the room
+  exteriorDoors: number;
+  interiorDoors: number; // a door between two rooms counts toward one of them
+  patioDoors: number;
+  glazingArea: number; // sq ft
+  plumbingFixtures: number;
+  cabinetRun: number; // lf
+}
+
+export interface PlanQuantities {
+  rooms: RoomQuantities[];
+  footprintArea: number; // sq ft of the lowest level
+  roofArea: number; // sq ft of the building outline seen from above
+  totalFloorArea: number;
+  stairCount: number;
+}
+
+export interface CostLineItem {
+  itemId: PriceItemId;
+  label: string;
+  trade: CostTrade;
+  unit: CostUnit;
+  quantity: number;
+  unitPrice: number;
+  total: number;
+  roomId?: string; // omitted for whole-building items
+}
+
+export interface RoomCost {
+  roomId: string;
+  roomName: string;
+  roomType: Room["type"];
+  levelId: RoomQuantities["levelId"];
+  tier: TierOption;
+  vibe?: VibeOption;
+  floorArea: number;
+  total: number;
+}
+
+export interface TradeCost {
+  trade: CostTrade;
+  label: string;
+  total: number;
+}
+
+export interface CostEstimate {
+  region: string;
+  lines: CostLineItem[];
+  byRoom: RoomCost[];
+  byTrade: TradeCost[];
+  buildingTotal: number; // items not attributed to a room (foundation, roof, stairs, optionals)
+  subtotal: number;
+  contingency: number;
+  total: number;
+  totalFloorArea: number;
+  costPerSqFt: number;
+  plumbing: PlumbingSummary;
+}
+
+// Compact form included in exports
+export interface CostEstimateSummary {
+  region: string;
+  subtotal: number;
+  contingencyPercent: number;
+  contingency: number;
+  total: number;
+  totalFloorArea: number;
+  costPerSqFt: number;
+  byTrade: TradeCost[];
+  plumbing: PlumbingSummary;
+  byRoom: Array<{ name: string; type: string; tier: TierOption; floorArea: number; total: number }>;
+}
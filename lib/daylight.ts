@@ -0,0 +1,202 @@
+/**
+ * Daylight analysis - relates each room's windows to its floor area.
+ * California Residential Code R303.1: habitable rooms need glazing of at least 8% of the floor area
+ * for natural light, and openable area of at least 4% for natural ventilation.
+ */
+import type { LevelId, Point, Room, RoomType, Window, WindowType } from "./types";
+import { CANVAS_CONFIG } from "./constants";
+import { distanceToSegment, outwardNormal } from "./compliance";
+
+export type Orientation = "N" | "E" | "S" | "W";
+
+export const ORIENTATIONS: Orientation[] = ["N", "E", "S", "W"];
+
+export interface DaylightRequirements {
+  lightRatio: number; // glazing area / floor area
+  ventilationRatio: number; // openable area / floor area
+}
+
+export const CA_DAYLIGHT_REQUIREMENTS: DaylightRequirements = {
+  lightRatio: 0.08,
+  ventilationRatio: 0.04,
+};
+
+// Rooms for living, sleeping, eating or cooking - the ones the light and ventilation minimums apply to
+export const HABITABLE_ROOM_TYPES: RoomType[] = ["bedroom", "living", "dining", "kitchen", "flex"];
+
+// Share of each window type's glazing that opens (hung and sliding sashes open halfway, picture windows are fixed)
+export const OPERABLE_FRACTION: Record<WindowType, number> = {
+  standard: 0.5,
+  bay: 0.5,
+  picture: 0,
+  sliding: 0.5,
+};
+
+export interface RoomDaylight {
+  roomId: string;
+  roomName: string;
+  roomType: RoomType;
+  habitable: boolean;
+  floorArea: number; // sq ft
+  glazingArea: number; // sq ft
+  operableArea: number; // sq ft
+  glazingPercent: number; // glazing as a percentage of floor area
+  ventilationPercent: number; // openable area as a percentage of floor area
+  requiredGlazingArea: number; // sq ft
+  requiredOperableArea: number; // sq ft
+  meetsLight: boolean;
+  meetsVentilation: boolean;
+  glazingByOrientation: Record<Orientation, number>; // sq ft
+  windowIds: string[];
+  levelId?: LevelId; // set in whole-building reports
+}
+
+export interface DaylightReport {
+  rooms: RoomDaylight[];
+  totalFloorArea: number; // sq ft
+  totalGlazingArea: number; // sq ft
+  glazingPercent: number;
+  glazingByOrientation: Record<Orientation, number>; // sq ft
+  shortfalls: number; // habitable rooms missing the light or ventilation minimum
+  requirements: DaylightRequirements;
+}
+
+interface DaylightOptions {
+  rooms: Room[];
+  windows: Window[];
+  pixelsPerFoot: number;
+  northRotation?: number; // degrees clockwise from plan-up to true north
+  requirements?: DaylightRequirements;
+}
+
+interface BuildingDaylightOptions extends Omit<DaylightOptions, "rooms" | "windows"> {
+  levels: Array<{ id: LevelId; rooms: Room[]; windows: Window[] }>;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const emptyBreakdown = (): Record<Orientation, number> => ({ N: 0, E: 0, S: 0, W: 0 });
+
+/**
+ * Compass orientation of a facade from its outward normal (canvas coordinates, y down).
+ * northRotation is the true-north direction in degrees clockwise from plan-up.
+ */
+export function facadeOrientation(normal: Point, northRotation = 0): Orientation {
+  const planBearing = (Math.atan2(normal.x, -normal.y) * 180) / Math.PI;
+  const bearing = (((planBearing - northRotation) % 360) + 360) % 360;
+  return ORIENTATIONS[Math.round(bearing / 90) % 4];
+}
+
+// Index of the room edge a window sits on, or -1 when it is not on the room's outline
+function edgeUnderWindow(room: Room, position: Point, tolerance: number): number {
+  let best = -1;
+  let bestDistance = tolerance;
+  room.vertices.forEach((v, i) => {
+    const distance = distanceToSegment(position, v, room.vertices[(i + 1) % room.vertices.length]);
+    if (distance <= bestDistance) {
+      best = i;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+/**
+ * Per-room glazing, ventilation and orientation report.
+ * Only windows on a room's exterior outline count - a window on a wall shared with another room lets in no daylight.
+ */
+export function analyzeDaylight({
+  rooms,
+  windows,
+  pixelsPerFoot,
+  northRotation = 0,
+  requirements = CA_DAYLIGHT_REQUIREMENTS,
+}: DaylightOptions): DaylightReport {
+  // Openings sit on the wall centerline, so anything within a wall thickness is on the edge
+  const tolerance = (CANVAS_CONFIG.WALL_THICKNESS / 12) * pixelsPerFoot;
+
+  const reports = rooms.map<RoomDaylight>((room) => {
+    const glazingByOrientation = emptyBreakdown();
+    const windowIds: string[] = [];
+    let glazingArea = 0;
+    let operableArea = 0;
+
+    for (const window of windows) {
+      if (window.roomId && window.roomId !== room.id) continue;
+      const edge = edgeUnderWindow(room, window.position, tolerance);
+      if (edge < 0) continue;
+      const isInterior = rooms.some(other =>
+        other.id !== room.id && edgeUnderWindow(other, window.position, tolerance) >= 0
+      );
+      if (isInterior) continue;
+
+      const area = window.width * window.height;
+      glazingArea += area;
+      operableArea += area * OPERABLE_FRACTION[window.type];
+      glazingByOrientation[facadeOrientation(outwardNormal(room.vertices, edge), northRotation)] += area;
+      windowIds.push(window.id);
+    }
+
+    const habitable = HABITABLE_ROOM_TYPES.includes(room.type);
+    const requiredGlazingArea = room.area * requirements.lightRatio;
+    const requiredOperableArea = room.area * requirements.ventilationRatio;
+
+    return {
+      roomId: room.id,
+      roomName: room.name,
+      roomType: room.type,
+      habitable,
+      floorArea: room.area,
+      glazingArea: round1(glazingArea),
+      operableArea: round1(operableArea),
+      glazingPercent: room.area > 0 ? round1((glazingArea / room.area) * 100) : 0,
+      ventilationPercent: room.area > 0 ? round1((operableArea / room.area) * 100) : 0,
+      requiredGlazingArea: round1(requiredGlazingArea),
+      requiredOperableArea: round1(requiredOperableArea),
+      meetsLight: !habitable || glazingArea >= requiredGlazingArea,
+      meetsVentilation: !habitable || operableArea >= requiredOperableArea,
+      glazingByOrientation: {
+        N: round1(glazingByOrientation.N),
+        E: round1(glazingByOrientation.E),
+        S: round1(glazingByOrientation.S),
+        W: round1(glazingByOrientation.W),
+      },
+      windowIds,
+    };
+  });
+
+  return summarizeDaylight(reports, requirements);
+}
+
+/**
+ * Daylight report for every level of the building - each level is analyzed on its own,
+ * so a window only lights rooms on its own floor
+ */
+export function analyzeBuildingDaylight({ levels, ...options }: BuildingDaylightOptions): DaylightReport {
+  const reports = levels.flatMap(level =>
+    analyzeDaylight({ ...options, rooms: level.rooms, windows: level.windows })
+      .rooms.map(room => ({ ...room, levelId: level.id }))
+  );
+  return summarizeDaylight(reports, options.requirements ?? CA_DAYLIGHT_REQUIREMENTS);
+}
+
+function summarizeDaylight(reports: RoomDaylight[], requirements: DaylightRequirements): DaylightReport {
+  const totalFloorArea = reports.reduce((sum, r) => sum + r.floorArea, 0);
+  const totalGlazingArea = reports.reduce((sum, r) => sum + r.glazingArea, 0);
+  const glazingByOrientation = emptyBreakdown();
+  for (const report of reports) {
+    for (const orientation of ORIENTATIONS) {
+      glazingByOrientation[orientation] = round1(glazingByOrientation[orientation] + report.glazingByOrientation[orientation]);
+    }
+  }
+
+  return {
+    rooms: reports,
+    totalFloorArea: round1(totalFloorArea),
+    totalGlazingArea: round1(totalGlazingArea),
+    glazingPercent: totalFloorArea > 0 ? round1((totalGlazingArea / totalFloorArea) * 100) : 0,
+    glazingByOrientation,
+    shortfalls: reports.filter(r => !r.meetsLight || !r.meetsVentilation).length,
+    requirements,
+  };
+}
@@ -0,0 +1,211 @@
+/**
+ * Electrical plan helpers - receptacle layout and the symbol legend.
+ * NEC 210.52(A): along the walls of habitable rooms no point may be more than 6 ft from a receptacle,
+ * so receptacles go at most 12 ft apart. Doorways break the wall line; wall sections under 2 ft are exempt.
+ */
+import type { Door, ElectricalDevice, ElectricalDeviceType, Point, Room, RoomType } from "./types";
+import { ELECTRICAL_CONFIG, ELECTRICAL_CONFIGS } from "./constants";
+import { distanceToSegment, isPointInPolygon, outwardNormal } from "./compliance";
+
+// Rooms where the 12 ft wall spacing rule applies
+export const RECEPTACLE_SPACING_ROOM_TYPES: RoomType[] = ["bedroom", "living", "dining", "kitchen", "flex", "other"];
+
+// Rooms that need at least one GFCI receptacle (NEC 210.8(A) / 210.52(D), (F))
+export const GFCI_ROOM_TYPES: RoomType[] = ["bathroom", "half_bath", "laundry", "kitchen"];
+
+const RECEPTACLE_TYPES: ElectricalDeviceType[] = ["receptacle", "gfci-receptacle"];
+
+export interface ReceptacleSuggestion {
+  type: ElectricalDeviceType;
+  position: Point;
+  rotation: number;
+  roomId: string;
+}
+
+export interface ElectricalLegendEntry {
+  type: ElectricalDeviceType;
+  label: string;
+  tag: string;
+  count: number;
+}
+
+interface SuggestReceptaclesOptions {
+  rooms: Room[];
+  doors: Door[];
+  devices: ElectricalDevice[]; // devices on the same level
+  pixelsPerFoot: number;
+}
+
+interface Interval {
+  start: number;
+  end: number;
+}
+
+// Point on a room outline at distance s along the perimeter, plus the edge it falls on
+function pointAlongPerimeter(vertices: Point[], lengths: number[], s: number) {
+  let remaining = s;
+  for (let i = 0; i < vertices.length; i++) {
+    if (remaining <= lengths[i] || i === vertices.length - 1) {
+      const a = vertices[i];
+      const b = vertices[(i + 1) % vertices.length];
+      const t = lengths[i] > 0 ? Math.min(1, remaining / lengths[i]) : 0;
+      return { point: { x: a.x + (b.x - a.x) * t, y: a.y + (b.y - a.y) * t }, edge: i };
+    }
+    remaining -= lengths[i];
+  }
+  return { point: vertices[0], edge: 0 };
+}
+
+// Distance along the perimeter of the outline point closest to p, and how far p is from the outline
+function projectOntoPerimeter(vertices: Point[], lengths: number[], p: Point) {
+  let best = { s: 0, distance: Infinity };
+  let offset = 0;
+  vertices.forEach((a, i) => {
+    const b = vertices[(i + 1) % vertices.length];
+    const distance = distanceToSegment(p, a, b);
+    if (distance < best.distance) {
+      const t = lengths[i] > 0
+        ? Math.max(0, Math.min(1, ((p.x - a.x) * (b.x - a.x) + (p.y - a.y) * (b.y - a.y)) / (lengths[i] * lengths[i])))
+        : 0;
+      best = { s: offset + t * lengths[i], distance };
+    }
+    offset += lengths[i];
+  });
+  return best;
+}
+
+// First point in [start, end] not inside any coverage interval, or null when the run is fully covered
+function firstUncovered(start: number, end: number, coverage: Interval[]): number | null {
+  let u = start;
+  let advanced = true;
+  while (advanced) {
+    advanced = false;
+    for (const c of coverage) {
+      if (c.start <= u + 1e-6 && c.end > u) {
+        u = c.end;
+        advanced = true;
+      }
+    }
+  }
+  return u >= end - 1e-6 ? null : u;
+}
+
+const wallRotation = (normal: Point) =>
+  ((Math.round((Math.atan2(normal.x, -normal.y) * 180) / Math.PI / 90) * 90) % 360 + 360) % 360;
+
+/**
+ * Receptacles needed to satisfy the wall spacing rule, placed against the walls just inside each room.
+ * Existing receptacles count toward coverage, so accepting the suggestions and asking again returns nothing.
+ */
+export function suggestReceptacles({ rooms, doors, devices, pixelsPerFoot }: SuggestReceptaclesOptions): ReceptacleSuggestion[] {
+  const reach = (ELECTRICAL_CONFIG.RECEPTACLE_SPACING / 2) * pixelsPerFoot;
+  const minRun = ELECTRICAL_CONFIG.MIN_WALL_SPACE * pixelsPerFoot;
+  const inset = (ELECTRICAL_CONFIG.SYMBOL_SIZE / 2) * pixelsPerFoot;
+  const tolerance = pixelsPerFoot; // devices and doors within a foot of the outline sit on it
+  const receptacles = devices.filter(d => RECEPTACLE_TYPES.includes(d.type));
+  const suggestions: ReceptacleSuggestion[] = [];
+
+  for (const room of rooms) {
+    const needsSpacing = RECEPTACLE_SPACING_ROOM_TYPES.includes(room.type);
+    const needsGfci = GFCI_ROOM_TYPES.includes(room.type);
+    if ((!needsSpacing && !needsGfci) || room.vertices.length < 3) continue;
+
+    const { vertices } = room;
+    const lengths = vertices.map((v, i) => {
+      const next = vertices[(i + 1) % vertices.length];
+      return Math.hypot(next.x - v.x, next.y - v.y);
+    });
+    const perimeter = lengths.reduce((sum, l) => sum + l, 0);
+
+    // Doorways cut the wall line into separate runs
+    const blocked: Interval[] = [];
+    for (const door of doors) {
+      const { s, distance } = projectOntoPerimeter(vertices, lengths, door.position);
+      if (distance > tolerance) continue;
+      const half = (door.width / 2) * pixelsPerFoot;
+      blocked.push({ start: s - half, end: s + half });
+    }
+    blocked.sort((a, b) => a.start - b.start);
+
+    // Start the loop just past the first doorway so every run is a plain interval
+    const origin = blocked.length > 0 ? blocked[0].end : 0;
+    const shifted = blocked
+      .map(b => ({ start: b.start - origin, end: b.end - origin }))
+      .map(b => (b.start < 0 ? { start: b.start + perimeter, end: b.end + perimeter } : b))
+      .sort((a, b) => a.start - b.start);
+    const runs: Interval[] = [];
+    let cursor = 0;
+    for (const b of shifted) {
+      if (b.start > cursor) runs.push({ start: cursor, end: b.start });
+      cursor = Math.max(cursor, b.end);
+    }
+    if (cursor < perimeter) runs.push({ start: cursor, end: perimeter });
+
+    // Receptacles already in the room (inside it, or on its outline and outside every other room)
+    const inRoom = receptacles.filter(d =>
+      isPointInPolygon(d.position, vertices, 0) ||
+      (projectOntoPerimeter(vertices, lengths, d.position).distance <= tolerance &&
+        !rooms.some(other => other.id !== room.id && isPointInPolygon(d.position, other.vertices, 0)))
+    );
+    const coverage: Interval[] = [];
+    for (const d of inRoom) {
+      const s = projectOntoPerimeter(vertices, lengths, d.position).s - origin;
+      for (const wrapped of [s - perimeter, s, s + perimeter]) {
+        coverage.push({ start: wrapped - reach, end: wrapped + reach });
+      }
+    }
+
+    const type: ElectricalDeviceType = needsGfci ? "gfci-receptacle" : "receptacle";
+    const place = (s: number) => {
+      const { point, edge } = pointAlongPerimeter(vertices, lengths, (s + origin) % perimeter);
+      const normal = outwardNormal(vertices, edge);
+      suggestions.push({
+        type,
+        position: { x: point.x - normal.x * inset, y: point.y - normal.y * inset },
+        rotation: wallRotation(normal),
+        roomId: room.id,
+      });
+    };
+
+    const usableRuns = runs.filter(r => r.end - r.start >= minRun);
+    if (needsSpacing) {
+      for (const run of usableRuns) {
+        let u = firstUncovered(run.start, run.end, coverage);
+        while (u !== null) {
+          const s = Math.min(u + reach, run.end);
+          place(s);
+          coverage.push({ start: s - reach, end: s + reach });
+          u = firstUncovered(u, run.end, coverage);
+        }
+      }
+    } else if (inRoom.length === 0) {
+      // Wet rooms only need one, centered on the longest wall clear of doorways
+      let best: { s: number; length: number } | null = null;
+      let offset = 0;
+      for (const length of lengths) {
+        const mid = (offset + length / 2 - origin + perimeter) % perimeter;
+        if (usableRuns.some(r => mid >= r.start && mid <= r.end) && (!best || length > best.length)) {
+          best = { s: mid, length };
+        }
+        offset += length;
+      }
+      if (best) place(best.s);
+    }
+  }
+
+  return suggestions;
+}
+
+/**
+ * Symbols used on the plan with their counts, in the order of the device catalog
+ */
+export function electricalLegend(devices: ElectricalDevice[]): ElectricalLegendEntry[] {
+  return (Object.keys(ELECTRICAL_CONFIGS) as ElectricalDeviceType[])
+    .map(type => ({
+      type,
+      label: ELECTRICAL_CONFIGS[type].label,
+      tag: ELECTRICAL_CONFIGS[type].tag,
+      count: devices.filter(d => d.type === type).length,
+    }))
+    .filter(entry => entry.count > 0);
+}
@@ -0,0 +1,45 @@
+// California building climate zones and their prescriptive envelope limits (2022 Title 24, Part 6, Table 150.1-A)
+import type { ClimateZone, PrescriptiveLimits } from "./types";
+
+export const CLIMATE_ZONES: ClimateZone[] = [1, 2, 3, 4, 5, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16];
+
+// Typical zone for each 3-digit ZIP prefix. Zone lines do not follow ZIP boundaries, so this is an estimate -
+// the CEC's ZIP code lookup is authoritative for the permit set.
+const ZIP_PREFIX_ZONES: Record<string, ClimateZone> = {
+  "900": 9, "901": 9, "902": 6, "903": 8, "904": 6, "905": 6, "906": 8, "907": 6, "908": 6,
+  "910": 9, "911": 9, "912": 9, "913": 9, "914": 9, "915": 9, "916": 9, "917": 9, "918": 9,
+  "919": 7, "920": 10, "921": 7, "922": 15, "923": 10, "924": 10, "925": 10,
+  "926": 8, "927": 8, "928": 8,
+  "930": 6, "931": 6, "932": 13, "933": 13, "934": 5, "935": 14, "936": 13, "937": 13, "938": 13, "939": 3,
+  "940": 3, "941": 3, "943": 3, "944": 3, "945": 12, "946": 3, "947": 3, "948": 3, "949": 2,
+  "950": 4, "951": 4, "952": 12, "953": 12, "954": 2, "955": 1, "956": 12, "957": 12, "958": 12, "959": 11,
+  "960": 11, "961": 16,
+};
+
+/**
+ * Estimated climate zone for a California ZIP code, or null outside California / without a ZIP
+ */
+export function climateZoneForZip(zipCode?: string | null): ClimateZone | null {
+  const digits = zipCode?.trim().match(/^\d{5}/)?.[0];
+  if (!digits) return null;
+  return ZIP_PREFIX_ZONES[digits.slice(0, 3)] ?? null;
+}
+
+// Zones where the west-facing glazing cap and SHGC limit apply (mild coastal zones 1, 3 and 5 are exempt)
+const SOLAR_GAIN_ZONES: ClimateZone[] = [2, 4, 6, 7, 8, 9, 10, 11, 12, 13, 14, 15, 16];
+// Zones allowing 2x4 framed walls (U-0.065) instead of U-0.048
+const MILD_WALL_ZONES: ClimateZone[] = [6, 7];
+// Zones allowing R-30 ceiling insulation instead of R-38
+const MILD_CEILING_ZONES: ClimateZone[] = [3, 5, 6, 7];
+
+export function getPrescriptiveLimits(zone: ClimateZone): PrescriptiveLimits {
+  const solarGain = SOLAR_GAIN_ZONES.includes(zone);
+  return {
+    maxFenestrationToFloor: 0.2,
+    maxWestFenestrationToFloor: solarGain ? 0.05 : null,
+    maxFenestrationUFactor: 0.3,
+    maxFenestrationSHGC: solarGain ? 0.23 : null,
+    maxWallUFactor: MILD_WALL_ZONES.includes(zone) ? 0.065 : 0.048,
+    minCeilingInsulation: MILD_CEILING_ZONES.includes(zone) ? 30 : 38,
+  };
+}
@@ -0,0 +1,102 @@
+// Envelope quantities - exterior wall, window and door areas per facing, from the 3D plan geometry
+import { ORIENTATIONS, facadeOrientation, type Orientation } from "../daylight";
+import { isPointInPolygon } from "../compliance/geometry";
+import type { EnvelopeGeometry, EnvelopeQuantities, EnvelopeStorey, FacadeQuantities } from "./types";
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+const round3 = (value: number) => Math.round(value * 1000) / 1000;
+
+interface FacadeTotals {
+  wallLength: number;
+  grossWallArea: number;
+  windowArea: number;
+  doorArea: number;
+}
+
+const emptyTotals = (): FacadeTotals => ({ wallLength: 0, grossWallArea: 0, windowArea: 0, doorArea: 0 });
+
+function toQuantities(totals: FacadeTotals, floorArea: number): FacadeQuantities {
+  return {
+    wallLength: round1(totals.wallLength),
+    grossWallArea: round1(totals.grossWallArea),
+    windowArea: round1(totals.windowArea),
+    doorArea: round1(totals.doorArea),
+    netWallArea: round1(Math.max(0, totals.grossWallArea - totals.windowArea - totals.doorArea)),
+    windowToWallRatio: totals.grossWallArea > 0 ? round3(totals.windowArea / totals.grossWallArea) : 0,
+    windowToFloorRatio: floorArea > 0 ? round3(totals.windowArea / floorArea) : 0,
+  };
+}
+
+// Outward normal of an exterior wall, in plan (canvas) directions: x right, y down
+function outwardNormal(wall: EnvelopeGeometry["wallEdges"][number], geometry: EnvelopeGeometry) {
+  const dx = wall.end.x - wall.start.x;
+  const dz = wall.end.z - wall.start.z;
+  const length = Math.hypot(dx, dz) || 1;
+  let normal = { x: dz / length, z: -dx / length };
+
+  // Step off the wall's midpoint - if that lands inside the room the wall bounds, the normal points inward
+  const room = geometry.rooms3D.find(r => r.id === wall.roomIds[0]);
+  if (room) {
+    const probe = {
+      x: (wall.start.x + wall.end.x) / 2 + normal.x * 0.5,
+      y: (wall.start.z + wall.end.z) / 2 + normal.z * 0.5,
+    };
+    if (isPointInPolygon(probe, room.vertices.map(v => ({ x: v.x, y: v.z })), 0)) {
+      normal = { x: -normal.x, z: -normal.z };
+    }
+  }
+  return { x: normal.x, y: -normal.z };
+}
+
+const floorArea = (geometry: EnvelopeGeometry) => geometry.rooms3D.reduce((sum, room) => sum + room.area, 0);
+
+/**
+ * Envelope takeoff for an energy pre-check, summed over the storeys (listed from the bottom up).
+ * Only exterior walls count; they rise to their own storey's ceiling height. The roof covers whatever
+ * floor area the storey above doesn't. northRotation is the true-north direction in degrees clockwise from plan-up.
+ */
+export function measureEnvelope(storeys: EnvelopeStorey[], northRotation = 0): EnvelopeQuantities {
+  const facades = Object.fromEntries(ORIENTATIONS.map(o => [o, emptyTotals()])) as Record<Orientation, FacadeTotals>;
+  const totals = emptyTotals();
+  let conditionedFloorArea = 0;
+  let volume = 0;
+  let roofArea = 0;
+
+  storeys.forEach(({ geometry, ceilingHeight }, index) => {
+    const area = floorArea(geometry);
+    const above = storeys[index + 1];
+    conditionedFloorArea += area;
+    volume += area * ceilingHeight;
+    roofArea += Math.max(0, area - (above ? floorArea(above.geometry) : 0));
+
+    for (const wall of geometry.wallEdges) {
+      if (!wall.isExterior) continue;
+      const facade = facades[facadeOrientation(outwardNormal(wall, geometry), northRotation)];
+      const windowArea = wall.openings
+        .filter(o => o.type === "window")
+        .reduce((sum, o) => sum + o.width * o.height, 0);
+      const doorArea = wall.openings
+        .filter(o => o.type === "door")
+        .reduce((sum, o) => sum + o.width * o.height, 0);
+
+      for (const target of [facade, totals]) {
+        target.wallLength += wall.length;
+        target.grossWallArea += wall.length * ceilingHeight;
+        target.windowArea += windowArea;
+        target.doorArea += doorArea;
+      }
+    }
+  });
+
+  return {
+    conditionedFloorArea: round1(conditionedFloorArea),
+    ceilingHeights: storeys.map(s => s.ceilingHeight),
+    volume: Math.round(volume),
+    roofArea: round1(roofArea),
+    perimeter: round1(totals.wallLength),
+    facades: Object.fromEntries(
+      ORIENTATIONS.map(o => [o, toQuantities(facades[o], conditionedFloorArea)])
+    ) as Record<Orientation, FacadeQuantities>,
+    totals: toQuantities(totals, conditionedFloorArea),
+  };
+}
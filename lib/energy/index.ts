@@ -0,0 +1,5 @@
+export * from "./types";
+export { CLIMATE_ZONES, climateZoneForZip, getPrescriptiveLimits } from "./climate-zones";
+export { measureEnvelope } from "./envelope";
+export { precheckTitle24 } from "./precheck";
+export { buildTitle24SummaryCsv } from "./summary";
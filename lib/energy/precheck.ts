@@ -0,0 +1,78 @@
+// Title 24 prescriptive pre-check - compares the envelope takeoff against the climate zone's limits
+import { climateZoneForZip, getPrescriptiveLimits } from "./climate-zones";
+import type { ClimateZone, EnvelopeQuantities, PrecheckItem, Title24Precheck } from "./types";
+
+const formatPercent = (ratio: number) => `${Math.round(ratio * 1000) / 10}%`;
+
+interface PrecheckOptions {
+  envelope: EnvelopeQuantities;
+  zipCode?: string | null;
+  climateZone?: ClimateZone | null; // overrides the zone derived from the ZIP code
+}
+
+/**
+ * Early read on prescriptive compliance. Glazing ratios are checked from the plan; window and wall
+ * performance values are listed for the energy consultant to verify against the specified products.
+ */
+export function precheckTitle24({ envelope, zipCode, climateZone }: PrecheckOptions): Title24Precheck {
+  const zone = climateZone ?? climateZoneForZip(zipCode);
+  const limits = zone ? getPrescriptiveLimits(zone) : null;
+  const items: PrecheckItem[] = [];
+
+  if (limits) {
+    const total = envelope.totals.windowToFloorRatio;
+    items.push({
+      id: "fenestration-area",
+      label: "Total fenestration area",
+      status: total <= limits.maxFenestrationToFloor ? "pass" : "fail",
+      value: total,
+      limit: limits.maxFenestrationToFloor,
+      message: `${formatPercent(total)} of conditioned floor area (max ${formatPercent(limits.maxFenestrationToFloor)})`,
+    });
+
+    const west = envelope.facades.W.windowToFloorRatio;
+    if (limits.maxWestFenestrationToFloor !== null) {
+      items.push({
+        id: "west-fenestration-area",
+        label: "West-facing fenestration",
+        status: west <= limits.maxWestFenestrationToFloor ? "pass" : "fail",
+        value: west,
+        limit: limits.maxWestFenestrationToFloor,
+        message: `${formatPercent(west)} of conditioned floor area (max ${formatPercent(limits.maxWestFenestrationToFloor)})`,
+      });
+    }
+
+    items.push({
+      id: "fenestration-performance",
+      label: "Window performance",
+      status: "verify",
+      limit: limits.maxFenestrationUFactor,
+      message: limits.maxFenestrationSHGC !== null
+        ? `Specify U-factor ≤ ${limits.maxFenestrationUFactor} and SHGC ≤ ${limits.maxFenestrationSHGC}`
+        : `Specify U-factor ≤ ${limits.maxFenestrationUFactor} (no SHGC limit in this zone)`,
+    });
+    items.push({
+      id: "wall-insulation",
+      label: "Wall assembly",
+      status: "verify",
+      limit: limits.maxWallUFactor,
+      message: `Framed walls need U-factor ≤ ${limits.maxWallUFactor} (${envelope.totals.netWallArea} sq ft opaque wall)`,
+    });
+    items.push({
+      id: "ceiling-insulation",
+      label: "Ceiling insulation",
+      status: "verify",
+      limit: limits.minCeilingInsulation,
+      message: `R-${limits.minCeilingInsulation} minimum over ${envelope.roofArea} sq ft of ceiling`,
+    });
+  }
+
+  return {
+    zipCode: zipCode ?? undefined,
+    climateZone: zone,
+    climateZoneEstimated: !climateZone && zone !== null,
+    limits,
+    envelope,
+    items,
+  };
+}
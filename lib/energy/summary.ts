@@ -0,0 +1,52 @@
+// Title 24 summary sheet - CSV for the energy consultant's intake
+import { ORIENTATIONS } from "../daylight";
+import type { Title24Precheck } from "./types";
+
+const ORIENTATION_LABELS = { N: "North", E: "East", S: "South", W: "West" } as const;
+
+function csvCell(value: string | number): string {
+  const text = `${value}`;
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+const percent = (ratio: number) => `${Math.round(ratio * 1000) / 10}%`;
+
+/**
+ * Envelope quantities per facing plus the pre-check results, one table after another
+ */
+export function buildTitle24SummaryCsv(precheck: Title24Precheck, projectName = ""): string {
+  const { envelope } = precheck;
+  const rows: Array<Array<string | number>> = [
+    ["Title 24 Pre-check", projectName],
+    ["ZIP code", precheck.zipCode ?? ""],
+    [
+      "Climate zone",
+      precheck.climateZone === null
+        ? "Unknown"
+        : `${precheck.climateZone}${precheck.climateZoneEstimated ? " (estimated from ZIP)" : ""}`,
+    ],
+    ["Conditioned floor area (sq ft)", envelope.conditionedFloorArea],
+    ["Ceiling height (ft)", envelope.ceilingHeights.join(" / ")],
+    ["Volume (cu ft)", envelope.volume],
+    ["Ceiling / roof area (sq ft)", envelope.roofArea],
+    ["Exterior perimeter (ft)", envelope.perimeter],
+    [],
+    ["Facing", "Wall length (ft)", "Gross wall (sq ft)", "Windows (sq ft)", "Doors (sq ft)", "Net wall (sq ft)", "Window-to-wall", "Window-to-floor"],
+    ...[...ORIENTATIONS.map(o => [ORIENTATION_LABELS[o], envelope.facades[o]] as const), ["Total", envelope.totals] as const]
+      .map(([label, facade]) => [
+        label,
+        facade.wallLength,
+        facade.grossWallArea,
+        facade.windowArea,
+        facade.doorArea,
+        facade.netWallArea,
+        percent(facade.windowToWallRatio),
+        percent(facade.windowToFloorRatio),
+      ]),
+    [],
+    ["Check", "Status", "Result"],
+    ...precheck.items.map(item => [item.label, item.status.toUpperCase(), item.message]),
+  ];
+
+  return rows.map(row => row.map(csvCell).join(",")).join("\n");
+}
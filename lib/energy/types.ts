@@ -0,0 +1,77 @@
+// Title 24 pre-check types
+import type { Orientation } from "../daylight";
+
+export type ClimateZone = 1 | 2 | 3 | 4 | 5 | 6 | 7 | 8 | 9 | 10 | 11 | 12 | 13 | 14 | 15 | 16;
+
+// Plan geometry in feet, as produced by the 3D viewer's useFloorPlanGeometry (x = plan right, z = plan up)
+export interface EnvelopeGeometry {
+  rooms3D: Array<{
+    id: string;
+    area: number; // sq ft
+    vertices: Array<{ x: number; z: number }>;
+  }>;
+  wallEdges: Array<{
+    start: { x: number; z: number };
+    end: { x: number; z: number };
+    roomIds: string[];
+    length: number; // ft
+    isExterior: boolean;
+    openings: Array<{ type: "door" | "window"; width: number; height: number }>;
+  }>;
+}
+
+// One level of the building, with the ceiling height its exterior walls rise to
+export interface EnvelopeStorey {
+  geometry: EnvelopeGeometry;
+  ceilingHeight: number; // ft
+}
+
+export interface FacadeQuantities {
+  wallLength: number; // ft
+  grossWallArea: number; // sq ft
+  windowArea: number; // sq ft
+  doorArea: number; // sq ft
+  netWallArea: number; // opaque wall, sq ft
+  windowToWallRatio: number; // 0-1
+  windowToFloorRatio: number; // 0-1, window area over conditioned floor area
+}
+
+export interface EnvelopeQuantities {
+  conditionedFloorArea: number; // sq ft, all levels
+  ceilingHeights: number[]; // ft, each level from the bottom up
+  volume: number; // cu ft
+  roofArea: number; // ceiling below the roof, sq ft
+  perimeter: number; // exterior wall length, ft
+  facades: Record<Orientation, FacadeQuantities>;
+  totals: FacadeQuantities;
+}
+
+// Prescriptive envelope requirements for newly constructed low-rise residential buildings
+export interface PrescriptiveLimits {
+  maxFenestrationToFloor: number; // total window area / CFA
+  maxWestFenestrationToFloor: number | null; // west-facing window area / CFA, null = no limit
+  maxFenestrationUFactor: number;
+  maxFenestrationSHGC: number | null;
+  maxWallUFactor: number; // above-grade framed walls
+  minCeilingInsulation: number; // R-value
+}
+
+export type PrecheckStatus = "pass" | "fail" | "verify";
+
+export interface PrecheckItem {
+  id: string;
+  label: string;
+  status: PrecheckStatus;
+  value?: number; // measured value (ratios as 0-1)
+  limit?: number;
+  message: string;
+}
+
+export interface Title24Precheck {
+  zipCode?: string;
+  climateZone: ClimateZone | null;
+  climateZoneEstimated: boolean; // derived from the ZIP prefix rather than chosen
+  limits: PrescriptiveLimits | null;
+  envelope: EnvelopeQuantities;
+  items: PrecheckItem[];
+}
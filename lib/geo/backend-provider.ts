@@ -0,0 +1,18 @@
+// Backend provider - the API proxies Nominatim geocoding and Orange County GIS parcels
+import * as api from "../api/client";
+import type { GeoProvider } from "./types";
+
+export const BACKEND_GEO_PROVIDER: GeoProvider = {
+  id: "backend",
+  name: "Online (Nominatim + OC GIS)",
+  description: "Address search through Nominatim, parcel boundaries from Orange County GIS",
+  searchAddress: async (query, limit) => {
+    const response = await api.searchAddress(query, limit);
+    return response.data.results;
+  },
+  getParcel: async (lat, lng) => {
+    const response = await api.getParcelData(lat, lng);
+    return response.data.parcel ?? null;
+  },
+  dataSource: { parcel: "orange_county_gis", address: "nominatim" },
+};
@@ -0,0 +1,204 @@
+// Local GeoJSON provider - address search and parcel lookup from a parcel file, no network services.
+// Shapefiles can be converted with `ogr2ogr -f GeoJSON -t_srs EPSG:4326 parcels.geojson parcels.shp`.
+import type { AddressResult, GeoVertex, ParcelData } from "../api/client";
+import { isPointInPolygon, polygonArea } from "../compliance";
+import type {
+  GeoProvider,
+  LocalParcel,
+  ParcelFeature,
+  ParcelFeatureCollection,
+  ParcelFieldMap,
+} from "./types";
+
+const FEET_PER_DEGREE_LAT = 364000;
+
+export const DEFAULT_PARCEL_FIELDS: ParcelFieldMap = {
+  parcelNumber: ["parcelNumber", "APN", "apn", "PARCEL_ID", "PIN", "ASSESSMENT_NO"],
+  address: ["address", "SITUS_ADDR", "SITE_ADDR", "SITUS_ADDRESS", "ADDRESS"],
+  city: ["city", "SITUS_CITY", "CITY"],
+  state: ["state", "SITUS_STATE", "STATE"],
+  zipCode: ["zipCode", "zip", "SITUS_ZIP", "ZIP", "ZIPCODE"],
+  ownerName: ["ownerName", "OWNER", "OWNER_NAME"],
+  areaSqFt: ["areaSqFt", "LOT_SQFT", "SHAPE_Area_SqFt"],
+};
+
+interface GeoJsonProviderOptions {
+  id: string;
+  name: string;
+  description?: string;
+  // URL of a FeatureCollection (same-origin for offline use) or the collection itself
+  source: string | ParcelFeatureCollection;
+  fields?: Partial<ParcelFieldMap>;
+}
+
+function readField(properties: Record<string, unknown>, keys: string[]): string | undefined {
+  for (const key of keys) {
+    const value = properties[key];
+    if (value !== undefined && value !== null && `${value}`.trim() !== "") return `${value}`.trim();
+  }
+  return undefined;
+}
+
+// Outer ring of the polygon (largest part of a multipolygon) as lat/lng vertices, without the closing point
+function outerRing(geometry: ParcelFeature["geometry"]): GeoVertex[] {
+  if (!geometry) return [];
+  const rings = geometry.type === "Polygon"
+    ? [geometry.coordinates[0]]
+    : geometry.coordinates.map(polygon => polygon[0]);
+
+  let best: GeoVertex[] = [];
+  let bestArea = -1;
+  for (const ring of rings) {
+    if (!ring || ring.length < 3) continue;
+    const vertices = ring.map(([lng, lat]) => ({ lat, lng }));
+    const first = vertices[0];
+    const last = vertices[vertices.length - 1];
+    if (first.lat === last.lat && first.lng === last.lng) vertices.pop();
+    const area = polygonArea(vertices.map(v => ({ x: v.lng, y: v.lat })));
+    if (area > bestArea) {
+      best = vertices;
+      bestArea = area;
+    }
+  }
+  return best;
+}
+
+// Parcel area from its lat/lng outline (flat-earth approximation, fine at lot scale)
+function ringAreaSqFt(ring: GeoVertex[], lat: number): number {
+  const feetPerDegreeLng = FEET_PER_DEGREE_LAT * Math.cos((lat * Math.PI) / 180);
+  return polygonArea(ring.map(v => ({ x: v.lng * feetPerDegreeLng, y: v.lat * FEET_PER_DEGREE_LAT })));
+}
+
+/**
+ * Index a parcel FeatureCollection; features without a polygon are skipped
+ */
+export function indexParcels(
+  collection: ParcelFeatureCollection,
+  fields: Partial<ParcelFieldMap> = {}
+): LocalParcel[] {
+  const fieldMap = { ...DEFAULT_PARCEL_FIELDS, ...fields };
+
+  return collection.features.flatMap((feature, index) => {
+    const boundary = outerRing(feature.geometry);
+    if (boundary.length < 3) return [];
+
+    const properties = feature.properties ?? {};
+    const lats = boundary.map(v => v.lat);
+    const lngs = boundary.map(v => v.lng);
+    const bounds = {
+      north: Math.max(...lats),
+      south: Math.min(...lats),
+      east: Math.max(...lngs),
+      west: Math.min(...lngs),
+    };
+    const center = { lat: (bounds.north + bounds.south) / 2, lng: (bounds.east + bounds.west) / 2 };
+    const parcelNumber = readField(properties, fieldMap.parcelNumber) ?? `parcel-${index + 1}`;
+    const address = readField(properties, fieldMap.address);
+    const city = readField(properties, fieldMap.city);
+    const state = readField(properties, fieldMap.state);
+    const zipCode = readField(properties, fieldMap.zipCode);
+    const areaField = Number(readField(properties, fieldMap.areaSqFt));
+
+    return [{
+      parcelNumber,
+      address,
+      city,
+      state,
+      zipCode,
+      ownerName: readField(properties, fieldMap.ownerName),
+      areaSqFt: areaField > 0 ? areaField : ringAreaSqFt(boundary, center.lat),
+      boundary,
+      center,
+      bounds,
+      searchText: [address, city, state, zipCode, parcelNumber].filter(Boolean).join(" ").toLowerCase(),
+    }];
+  });
+}
+
+function toAddressResult(providerId: string, parcel: LocalParcel): AddressResult {
+  const street = parcel.address ?? `Parcel ${parcel.parcelNumber}`;
+  const houseNumber = street.match(/^(\d+[A-Za-z]?)\s+(.*)$/);
+  const { north, south, east, west } = parcel.bounds;
+
+  return {
+    placeId: `${providerId}:${parcel.parcelNumber}`,
+    displayName: [street, parcel.city, [parcel.state, parcel.zipCode].filter(Boolean).join(" ")]
+      .filter(Boolean)
+      .join(", "),
+    lat: parcel.center.lat,
+    lng: parcel.center.lng,
+    boundingBox: [south, north, west, east],
+    addressComponents: {
+      houseNumber: houseNumber?.[1],
+      road: houseNumber?.[2] ?? street,
+      city: parcel.city,
+      state: parcel.state,
+      postcode: parcel.zipCode,
+    },
+  };
+}
+
+function toParcelData(parcel: LocalParcel): ParcelData {
+  return {
+    parcelNumber: parcel.parcelNumber,
+    situsAddress: parcel.address,
+    ownerName: parcel.ownerName,
+    boundaryVertices: parcel.boundary,
+    areaSqFt: parcel.areaSqFt,
+    bounds: parcel.bounds,
+  };
+}
+
+/**
+ * Provider backed by a parcel GeoJSON file. The file is loaded once, on first use.
+ */
+export function createGeoJsonProvider(options: GeoJsonProviderOptions): GeoProvider {
+  let parcelsPromise: Promise<LocalParcel[]> | null = null;
+
+  const loadParcels = () => {
+    if (!parcelsPromise) {
+      parcelsPromise = (typeof options.source === "string"
+        ? fetch(options.source).then(response => {
+            if (!response.ok) throw new Error(`Could not load parcel file ${options.source}`);
+            return response.json() as Promise<ParcelFeatureCollection>;
+          })
+        : Promise.resolve(options.source)
+      )
+        .then(collection => indexParcels(collection, options.fields))
+        .catch(error => {
+          // Allow a retry once the file is available
+          parcelsPromise = null;
+          throw error;
+        });
+    }
+    return parcelsPromise;
+  };
+
+  return {
+    id: options.id,
+    name: options.name,
+    description: options.description,
+    searchAddress: async (query, limit = 5) => {
+      const tokens = query.toLowerCase().split(/[\s,]+/).filter(Boolean);
+      if (tokens.length === 0) return [];
+      const parcels = await loadParcels();
+
+      return parcels
+        .filter(parcel => tokens.every(token => parcel.searchText.includes(token)))
+        // Street address matches from the start rank first
+        .sort((a, b) => Number(b.searchText.startsWith(tokens[0])) - Number(a.searchText.startsWith(tokens[0])))
+        .slice(0, limit)
+        .map(parcel => toAddressResult(options.id, parcel));
+    },
+    getParcel: async (lat, lng) => {
+      const parcels = await loadParcels();
+      const point = { x: lng, y: lat };
+      const parcel = parcels.find(p =>
+        lat <= p.bounds.north && lat >= p.bounds.south && lng <= p.bounds.east && lng >= p.bounds.west &&
+        isPointInPolygon(point, p.boundary.map(v => ({ x: v.lng, y: v.lat })), 0)
+      );
+      return parcel ? toParcelData(parcel) : null;
+    },
+    dataSource: { parcel: "local_geojson", address: "local_geojson" },
+  };
+}
@@ -0,0 +1,11 @@
+export * from "./types";
+export { BACKEND_GEO_PROVIDER } from "./backend-provider";
+export { createGeoJsonProvider, indexParcels, DEFAULT_PARCEL_FIELDS } from "./geojson-provider";
+export {
+  LOCAL_GEOJSON_PROVIDER,
+  LOCAL_PARCELS_URL,
+  DEFAULT_GEO_PROVIDER_ID,
+  registerGeoProvider,
+  getGeoProvider,
+  listGeoProviders,
+} from "./providers";
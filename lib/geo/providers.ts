@@ -0,0 +1,38 @@
+// Geo provider registry - each project picks the provider used for address search and parcel lookup
+import { BACKEND_GEO_PROVIDER } from "./backend-provider";
+import { createGeoJsonProvider } from "./geojson-provider";
+import type { GeoProvider } from "./types";
+
+// Parcel file served with the app; point it at a county export to work without the backend
+export const LOCAL_PARCELS_URL = process.env.NEXT_PUBLIC_PARCELS_GEOJSON_URL || "/parcels/sample.geojson";
+
+export const LOCAL_GEOJSON_PROVIDER = createGeoJsonProvider({
+  id: "local-geojson",
+  name: "Local parcel file (GeoJSON)",
+  description: "Addresses and lot boundaries from a GeoJSON parcel file, works offline",
+  source: LOCAL_PARCELS_URL,
+});
+
+export const DEFAULT_GEO_PROVIDER_ID = BACKEND_GEO_PROVIDER.id;
+
+const providers = new Map<string, GeoProvider>();
+
+/**
+ * Register (or replace) a geocoding/parcel provider
+ */
+export function registerGeoProvider(provider: GeoProvider): void {
+  providers.set(provider.id, provider);
+}
+
+[BACKEND_GEO_PROVIDER, LOCAL_GEOJSON_PROVIDER].forEach(registerGeoProvider);
+
+/**
+ * Look up a provider by id, falling back to the backend provider
+ */
+export function getGeoProvider(id?: string): GeoProvider {
+  return (id && providers.get(id)) || BACKEND_GEO_PROVIDER;
+}
+
+export function listGeoProviders(): GeoProvider[] {
+  return Array.from(providers.values());
+}
@@ -0,0 +1,58 @@
+// Geocoding and parcel lookup providers
+import type { AddressResult, GeoVertex, ParcelData } from "../api/client";
+
+// Where a lot's address and boundary came from (stored on the lot as dataSource)
+export type LotDataSource = "orange_county_gis" | "manual" | "nominatim" | "local_geojson";
+
+export interface GeoProvider {
+  id: string;
+  name: string;
+  description?: string;
+  searchAddress: (query: string, limit?: number) => Promise<AddressResult[]>;
+  // Parcel containing the point, or null when the provider has no parcel there
+  getParcel: (lat: number, lng: number) => Promise<ParcelData | null>;
+  // dataSource recorded on a lot created with / without a parcel from this provider
+  dataSource: { parcel: LotDataSource; address: LotDataSource };
+}
+
+// Minimal GeoJSON shapes for parcel files (coordinates are [lng, lat])
+export interface ParcelFeature {
+  type: "Feature";
+  geometry:
+    | { type: "Polygon"; coordinates: number[][][] }
+    | { type: "MultiPolygon"; coordinates: number[][][][] }
+    | null;
+  properties: Record<string, unknown> | null;
+}
+
+export interface ParcelFeatureCollection {
+  type: "FeatureCollection";
+  features: ParcelFeature[];
+}
+
+// Feature property names to read for each parcel field; the first one present wins.
+// Defaults cover the common county export names (APN, SITUS_ADDR, ...)
+export interface ParcelFieldMap {
+  parcelNumber: string[];
+  address: string[];
+  city: string[];
+  state: string[];
+  zipCode: string[];
+  ownerName: string[];
+  areaSqFt: string[];
+}
+
+// Parcel indexed for search and point lookup
+export interface LocalParcel {
+  parcelNumber: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  ownerName?: string;
+  areaSqFt?: number;
+  boundary: GeoVertex[];
+  center: GeoVertex;
+  bounds: { north: number; south: number; east: number; west: number };
+  searchText: string;
+}
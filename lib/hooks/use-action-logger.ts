@@ -1,13 +1,9 @@
-import { useCallback, useRef, useEffect } from "react"
-import {
-  startEditorSession,
-  endEditorSession,
-  logAction,
-  logActionBatch,
-  type ActionLogData,
-} from "@/lib/api/client"
+import { useCallback, useRef, useEffect, useState } from "react"
+import { startEditorSession, endEditorSession } from "@/lib/api/client"
+import { bindOutboxSession, enqueueOutbox, flushOutbox } from "@/lib/api/outbox"
+import type { EntityType } from "@/lib/types"
 
-type EntityType = "room" | "door" | "window" | "furniture" | "boundary"
+export type { EntityType }
 
 interface ActionQueueItem {
   action: string
@@ -26,6 +22,7 @@ interface ActionQueueItem {
 interface UseActionLoggerOptions {
   projectId: string | null
   blueprintId?: string | null
+  alternativeId?: string | null // sessions are replayed on top of this alternative's snapshots
   enabled?: boolean
   batchInterval?: number // ms between batch flushes
   maxBatchSize?: number
@@ -33,54 +30,76 @@ interface UseActionLoggerOptions {
 
 /**
  * Hook for logging editor actions to the backend
- * Automatically batches actions for efficiency
+ * Automatically batches actions for efficiency. Batches go through the
+ * outbox, so they survive failed requests and reloads, and actions logged
+ * before the session has started are sent once it exists.
  */
 export function useActionLogger({
   projectId,
   blueprintId,
+  alternativeId,
   enabled = true,
   batchInterval = 2000, // Flush every 2 seconds
   maxBatchSize = 50,
 }: UseActionLoggerOptions) {
+  const [sessionId, setSessionId] = useState<string | null>(null)
   const sessionIdRef = useRef<string | null>(null)
+  const localSessionIdRef = useRef<string | null>(null)
   const actionQueueRef = useRef<ActionQueueItem[]>([])
   const flushTimerRef = useRef<NodeJS.Timeout | null>(null)
-  const isFlushingRef = useRef(false)
+
+  // Hand queued actions to the outbox, which persists them and sends them to the session
+  const flushActions = useCallback(async () => {
+    const localSessionId = localSessionIdRef.current
+    if (actionQueueRef.current.length === 0 || !projectId || !localSessionId) return
+
+    const actionsToFlush = actionQueueRef.current
+    actionQueueRef.current = []
+
+    await enqueueOutbox("actions", {
+      localSessionId,
+      projectId,
+      blueprintId: blueprintId || undefined,
+      actions: actionsToFlush.map(({ timestamp, ...action }) => action),
+    })
+    await flushOutbox()
+  }, [projectId, blueprintId])
 
   // Start session when projectId is available
   useEffect(() => {
     if (!enabled || !projectId) return
 
-    const initSession = async () => {
-      try {
-        const response = await startEditorSession({
-          projectId,
-          blueprintId: blueprintId || undefined,
-        })
-        if (response.status === "success") {
-          sessionIdRef.current = response.data.sessionId
-          console.log("[ActionLogger] Session started:", response.data.sessionId)
-        }
-      } catch (error) {
-        console.error("[ActionLogger] Failed to start session:", error)
-      }
-    }
+    const localSessionId = crypto.randomUUID()
+    localSessionIdRef.current = localSessionId
 
-    initSession()
+    const started = startEditorSession({
+      projectId,
+      blueprintId: blueprintId || undefined,
+      alternativeId: alternativeId || undefined,
+    }).then((response) => {
+      sessionIdRef.current = response.data.sessionId
+      setSessionId(response.data.sessionId)
+      console.log("[ActionLogger] Session started:", response.data.sessionId)
+      return response.data.sessionId
+    })
+    started.catch((error) => console.error("[ActionLogger] Failed to start session:", error))
+    // If this fails the outbox starts the session itself when it sends the first batch
+    bindOutboxSession(localSessionId, started)
 
-    // Cleanup: end session on unmount
+    // Cleanup: flush remaining actions, then end the session
     return () => {
-      if (sessionIdRef.current) {
-        // Flush remaining actions
-        flushActions()
-        // End session
-        endEditorSession(sessionIdRef.current).catch((e) =>
+      const sessionId = sessionIdRef.current
+      flushActions().finally(() => {
+        if (!sessionId) return
+        endEditorSession(sessionId).catch((e) =>
           console.error("[ActionLogger] Failed to end session:", e)
         )
-        sessionIdRef.current = null
-      }
+      })
+      sessionIdRef.current = null
+      localSessionIdRef.current = null
+      setSessionId(null)
     }
-  }, [projectId, blueprintId, enabled])
+  }, [projectId, blueprintId, alternativeId, enabled, flushActions])
 
   // Set up periodic flush
   useEffect(() => {
@@ -97,31 +116,7 @@ export function useActionLogger({
         clearInterval(flushTimerRef.current)
       }
     }
-  }, [enabled, batchInterval])
-
-  // Flush queued actions to backend
-  const flushActions = useCallback(async () => {
-    if (isFlushingRef.current || actionQueueRef.current.length === 0) return
-    if (!sessionIdRef.current) return
-
-    isFlushingRef.current = true
-    const actionsToFlush = [...actionQueueRef.current]
-    actionQueueRef.current = []
-
-    try {
-      await logActionBatch({
-        sessionId: sessionIdRef.current,
-        actions: actionsToFlush.map(({ timestamp, ...action }) => action),
-      })
-      console.log(`[ActionLogger] Flushed ${actionsToFlush.length} actions`)
-    } catch (error) {
-      console.error("[ActionLogger] Failed to flush actions:", error)
-      // Re-queue failed actions
-      actionQueueRef.current = [...actionsToFlush, ...actionQueueRef.current]
-    } finally {
-      isFlushingRef.current = false
-    }
-  }, [])
+  }, [enabled, batchInterval, flushActions])
 
   // Log a single action (queued for batching)
   const logEditorAction = useCallback(
@@ -139,7 +134,7 @@ export function useActionLogger({
         rotation?: number
       }
     ) => {
-      if (!enabled || !sessionIdRef.current) return
+      if (!enabled) return
 
       const queueItem: ActionQueueItem = {
         action,
@@ -249,7 +244,7 @@ export function useActionLogger({
   )
 
   return {
-    sessionId: sessionIdRef.current,
+    sessionId,
     logEditorAction,
     logMove,
     logResize,
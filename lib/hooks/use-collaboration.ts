@@ -0,0 +1,244 @@
+import { useCallback, useEffect, useRef, useState } from "react"
+import type { LevelId, Point } from "@/lib/types"
+import {
+  applyOp,
+  connectCollab,
+  createCollabDoc,
+  diffPlanOps,
+  docHasLevel,
+  docPlan,
+  entityKey,
+  peerColor,
+  type CollabConnection,
+  type CollabEntityRef,
+  type CollabLock,
+  type CollabOp,
+  type CollabPeer,
+  type CollabPlan,
+  type CollabServerMessage,
+  type CollabStatus,
+} from "@/lib/collab"
+
+interface UseCollaborationOptions {
+  room: string | null // everyone editing the same project alternative shares a room
+  enabled: boolean
+  name: string
+  levelId: LevelId
+  plan: CollabPlan // the level being edited
+  selection: CollabEntityRef[]
+  onRemotePlan: (plan: CollabPlan) => void // replace the level being edited with the shared state
+}
+
+const EMPTY_PLAN: CollabPlan = { rooms: [], doors: [], windows: [], furniture: [], aduBoundary: [] }
+const CURSOR_INTERVAL_MS = 50
+
+/**
+ * Hook for live co-editing through the collaboration relay
+ * Local edits go out as entity ops, remote ops come back into the plan, and
+ * cursors, selections and drag locks are shared between everyone in the room.
+ * Edits made while the connection is down are sent when it comes back.
+ */
+export function useCollaboration({
+  room,
+  enabled,
+  name,
+  levelId,
+  plan,
+  selection,
+  onRemotePlan,
+}: UseCollaborationOptions) {
+  const [status, setStatus] = useState<CollabStatus>("off")
+  const [peers, setPeers] = useState<CollabPeer[]>([])
+  const [locks, setLocks] = useState<CollabLock[]>([])
+  const [clientId] = useState(() => crypto.randomUUID())
+
+  const connectionRef = useRef<CollabConnection | null>(null)
+  const docRef = useRef(createCollabDoc())
+  const clockRef = useRef(0)
+  const pendingOpsRef = useRef<CollabOp[]>([])
+  // The level as last shared - null until the room has been joined
+  const syncedPlanRef = useRef<CollabPlan | null>(null)
+  const syncedLevelRef = useRef<LevelId | null>(null)
+  const latestRef = useRef({ plan, levelId, onRemotePlan })
+  const selfRef = useRef<CollabPeer>({ clientId, name, color: peerColor(clientId), levelId, cursor: null, selection })
+  const cursorTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null)
+  const lastCursorSentRef = useRef(0)
+
+  const sendOps = useCallback((ops: CollabOp[]) => {
+    if (ops.length === 0) return
+    if (!connectionRef.current?.send({ type: "ops", ops })) {
+      pendingOpsRef.current.push(...ops)
+    }
+  }, [])
+
+  // Share whatever changed on the level since it was last shared
+  const publish = useCallback(() => {
+    const synced = syncedPlanRef.current
+    if (!synced) return
+    const { plan: current, levelId: currentLevel } = latestRef.current
+    const drafts = diffPlanOps(synced, current, currentLevel)
+    syncedPlanRef.current = current
+    const ops = drafts.map((draft) => ({
+      ...draft,
+      id: crypto.randomUUID(),
+      clientId,
+      clock: ++clockRef.current,
+    }))
+    ops.forEach((op) => applyOp(docRef.current, op))
+    sendOps(ops)
+  }, [clientId, sendOps])
+
+  // Show the shared state of the level being edited
+  const showShared = useCallback(() => {
+    const { plan: current, levelId: currentLevel, onRemotePlan: apply } = latestRef.current
+    const shared = docPlan(docRef.current, currentLevel)
+    const next = { ...shared, aduBoundary: shared.aduBoundary ?? current.aduBoundary }
+    syncedPlanRef.current = next
+    apply(next)
+  }, [])
+
+  // Joining a level takes the room's state of it, or shares ours if nobody has edited it yet
+  const enterLevel = useCallback((id: LevelId) => {
+    syncedLevelRef.current = id
+    const doc = docRef.current
+    if (docHasLevel(doc, id)) {
+      showShared()
+      return
+    }
+    const boundary = docPlan(doc, id).aduBoundary
+    syncedPlanRef.current = { ...EMPTY_PLAN, aduBoundary: boundary ?? [] }
+    if (boundary) {
+      // Everything but the room's boundary is still ours to share - the next sync sends it
+      latestRef.current.onRemotePlan({ ...latestRef.current.plan, aduBoundary: boundary })
+    } else {
+      publish()
+    }
+  }, [showShared, publish])
+
+  // Connect while live editing is on; a different room starts over
+  useEffect(() => {
+    if (!enabled || !room) return
+
+    docRef.current = createCollabDoc()
+    pendingOpsRef.current = []
+    syncedPlanRef.current = null
+    syncedLevelRef.current = null
+
+    const handleMessage = (message: CollabServerMessage) => {
+      switch (message.type) {
+        case "welcome": {
+          // Take the room's state, then replay anything edited while disconnected on top
+          const doc = createCollabDoc()
+          const pending = pendingOpsRef.current
+          pendingOpsRef.current = []
+          message.ops.concat(pending).forEach((op) => {
+            clockRef.current = Math.max(clockRef.current, op.clock)
+            applyOp(doc, op)
+          })
+          docRef.current = doc
+          sendOps(pending)
+          setPeers(message.peers.filter((peer) => peer.clientId !== clientId))
+          setLocks(message.locks)
+          enterLevel(latestRef.current.levelId)
+          break
+        }
+        case "ops": {
+          const changed = message.ops.filter((op) => {
+            clockRef.current = Math.max(clockRef.current, op.clock)
+            return applyOp(docRef.current, op)
+          })
+          const currentLevel = latestRef.current.levelId
+          if (changed.some((op) => op.entityType === "boundary" || op.levelId === currentLevel)) {
+            // Anything local not yet shared goes out first so it isn't lost
+            publish()
+            showShared()
+          }
+          break
+        }
+        case "rejected": {
+          // Someone else holds the lock - put back the relay's version of those entities
+          const current = new Map(message.current.map((op) => [entityKey(op.levelId, op), op]))
+          message.ops.forEach((op) => {
+            const restored = current.get(entityKey(op.levelId, op)) ?? { ...op, state: null }
+            applyOp(docRef.current, restored, true)
+          })
+          showShared()
+          break
+        }
+        case "presence":
+          if (message.peer.clientId === clientId) break
+          setPeers((prev) => [...prev.filter((peer) => peer.clientId !== message.peer.clientId), message.peer])
+          break
+        case "left":
+          setPeers((prev) => prev.filter((peer) => peer.clientId !== message.clientId))
+          break
+        case "locks":
+          setLocks(message.locks)
+          break
+      }
+    }
+
+    const connection = connectCollab({
+      onOpen: () => connection.send({ type: "join", room, peer: selfRef.current }),
+      onMessage: handleMessage,
+      onStatus: setStatus,
+    })
+    connectionRef.current = connection
+
+    return () => {
+      connection.close()
+      connectionRef.current = null
+      if (cursorTimerRef.current) clearTimeout(cursorTimerRef.current)
+      cursorTimerRef.current = null
+      syncedPlanRef.current = null
+      setPeers([])
+      setLocks([])
+    }
+  }, [enabled, room, clientId, sendOps, publish, showShared, enterLevel])
+
+  // Share local edits, or join the level when the editor switches to another one
+  useEffect(() => {
+    latestRef.current = { plan, levelId, onRemotePlan }
+    if (syncedLevelRef.current === null) return
+    if (syncedLevelRef.current !== levelId) {
+      enterLevel(levelId)
+      return
+    }
+    publish()
+  }, [plan, levelId, onRemotePlan, enterLevel, publish])
+
+  const sendPresence = useCallback(() => {
+    lastCursorSentRef.current = Date.now()
+    connectionRef.current?.send({ type: "presence", peer: selfRef.current })
+  }, [])
+
+  useEffect(() => {
+    selfRef.current = { ...selfRef.current, name, levelId, selection }
+    sendPresence()
+  }, [name, levelId, selection, sendPresence])
+
+  // Cursor moves are sent at most every CURSOR_INTERVAL_MS, always ending on the latest position
+  const updateCursor = useCallback((cursor: Point | null) => {
+    selfRef.current = { ...selfRef.current, cursor }
+    if (cursorTimerRef.current) return
+    const wait = Math.max(0, lastCursorSentRef.current + CURSOR_INTERVAL_MS - Date.now())
+    cursorTimerRef.current = setTimeout(() => {
+      cursorTimerRef.current = null
+      sendPresence()
+    }, wait)
+  }, [sendPresence])
+
+  // Hold an entity while it is dragged so nobody else moves it at the same time
+  const setDragging = useCallback((ref: CollabEntityRef, dragging: boolean) => {
+    connectionRef.current?.send({ type: dragging ? "lock" : "unlock", ref })
+  }, [])
+
+  return {
+    status,
+    clientId,
+    peers,
+    locks,
+    updateCursor,
+    setDragging,
+  }
+}
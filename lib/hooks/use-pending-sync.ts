@@ -0,0 +1,23 @@
+import { useCallback, useEffect, useState } from "react"
+import { flushOutbox, startOutbox, subscribeOutbox } from "@/lib/api/outbox"
+
+/**
+ * Hook for the number of changes waiting in the outbox to be synced
+ * Starts the outbox's background flushing if nothing has yet
+ */
+export function usePendingSync() {
+  const [pendingCount, setPendingCount] = useState(0)
+
+  useEffect(() => {
+    startOutbox()
+    return subscribeOutbox(setPendingCount)
+  }, [])
+
+  // Retry everything now, ignoring the backoff
+  const retryNow = useCallback(() => flushOutbox(true), [])
+
+  return {
+    pendingCount,
+    retryNow,
+  }
+}
@@ -0,0 +1,389 @@
+/**
+ * Plumbing plan helpers - fixture units, wet walls and rough run lengths.
+ * Drainage fixture units (DFU) follow CPC Table 702.1, water supply fixture units (WSFU) Table A103.1.
+ * Fixtures grouped on one wall share a drain/vent stack, so wet walls shared by two rooms
+ * (back-to-back bathrooms, a bath behind the kitchen) are the cheapest way to plumb a plan.
+ */
+import type { EditorFurniture, FloorLevel, LevelId, Point, Room, Wall } from "./types";
+import { CANVAS_CONFIG, LEVEL_CONFIGS, STAIR_CONFIG } from "./constants";
+import { buildWallGraph, projectOntoWall } from "./wall-graph";
+import { isPointInPolygon } from "./compliance";
+
+// Furniture types that are plumbing fixtures
+export const PLUMBING_FIXTURE_TYPES = new Set(["toilet", "sink", "shower", "bathtub", "dishwasher", "washer"]);
+
+export type PlumbingFixtureKind =
+  | "water-closet" | "lavatory" | "kitchen-sink" | "shower" | "bathtub" | "dishwasher" | "clothes-washer";
+
+export interface PlumbingFixtureSpec {
+  label: string;
+  dfu: number;
+  wsfu: number;
+  trapSize: string; // minimum trap and trap arm size
+  hotWater: boolean;
+}
+
+export const PLUMBING_FIXTURE_SPECS: Record<PlumbingFixtureKind, PlumbingFixtureSpec> = {
+  "water-closet": { label: "Water closet", dfu: 3, wsfu: 2.5, trapSize: "3\"", hotWater: false },
+  lavatory: { label: "Lavatory", dfu: 1, wsfu: 1, trapSize: "1-1/4\"", hotWater: true },
+  "kitchen-sink": { label: "Kitchen sink", dfu: 2, wsfu: 1.5, trapSize: "1-1/2\"", hotWater: true },
+  shower: { label: "Shower", dfu: 2, wsfu: 2, trapSize: "2\"", hotWater: true },
+  bathtub: { label: "Bathtub", dfu: 2, wsfu: 4, trapSize: "1-1/2\"", hotWater: true },
+  dishwasher: { label: "Dishwasher", dfu: 2, wsfu: 1.5, trapSize: "1-1/2\"", hotWater: true },
+  "clothes-washer": { label: "Clothes washer", dfu: 3, wsfu: 4, trapSize: "2\"", hotWater: true },
+};
+
+export interface PlumbingFixture {
+  id: string; // furniture id
+  kind: PlumbingFixtureKind;
+  label: string;
+  levelId: LevelId;
+  roomId?: string;
+  roomName?: string;
+  position: Point;
+  dfu: number;
+  wsfu: number;
+  trapSize: string;
+  hotWater: boolean;
+  wetWallId?: string; // wall the fixture is set against
+}
+
+export interface WetWall {
+  id: string;
+  levelId: LevelId;
+  start: Point;
+  end: Point;
+  length: number; // ft
+  kind: Wall["kind"];
+  roomIds: string[]; // rooms with fixtures on this wall
+  fixtureIds: string[];
+  shared: boolean; // fixtures from two or more rooms (back to back)
+  stackedOn?: string; // wet wall directly below, whose stack this one drains into
+}
+
+export interface PlumbingRunSegment {
+  from: Point;
+  to: Point;
+  levelId: LevelId;
+  kind: "main" | "branch" | "lateral";
+}
+
+export interface PlumbingReport {
+  fixtures: PlumbingFixture[];
+  wetWalls: WetWall[];
+  totalDfu: number;
+  totalWsfu: number;
+  buildingDrainSize: string;
+  sharedWetWalls: number;
+  stackCount: number; // drain/vent stacks - one per wet wall not stacked on another, plus each loose fixture
+  // Rough run lengths in feet, null until a sewer connection is placed
+  drainLength: number | null;
+  supplyLength: number | null;
+  lateralLength: number | null;
+  buildingExit: Point | null;
+  route: PlumbingRunSegment[];
+}
+
+// Compact form included in the cost estimate and exports
+export interface PlumbingSummary {
+  fixtureCount: number;
+  totalDfu: number;
+  totalWsfu: number;
+  buildingDrainSize: string;
+  wetWalls: number;
+  sharedWetWalls: number;
+  stackCount: number;
+  drainLength: number | null;
+  supplyLength: number | null;
+  lateralLength: number | null;
+}
+
+interface PlumbingOptions {
+  rooms: Room[]; // ground level
+  furniture: EditorFurniture[];
+  pixelsPerFoot: number;
+  ceilingHeight?: number;
+  levels?: Array<Pick<FloorLevel, "id" | "ceilingHeight" | "rooms" | "furniture">>;
+  sewerConnection?: Point | null; // in the same coordinates as the rooms
+}
+
+interface PlumbingLevel {
+  id: LevelId;
+  ceilingHeight: number;
+  rooms: Room[];
+  furniture: EditorFurniture[];
+}
+
+// A wet wall or a loose fixture - each gets its own stack and is one node of the main drain
+interface StackGroup {
+  point: Point;
+  levelId: LevelId;
+  fixtures: PlumbingFixture[];
+  stackedOn?: string;
+}
+
+const round1 = (value: number) => Math.round(value * 10) / 10;
+
+const manhattan = (a: Point, b: Point) => Math.abs(a.x - b.x) + Math.abs(a.y - b.y);
+
+// Fixture kind for a furniture item; a sink counts as a kitchen sink inside a kitchen
+function fixtureKind(item: EditorFurniture, room?: Room): PlumbingFixtureKind | null {
+  switch (item.type) {
+    case "toilet": return "water-closet";
+    case "sink": return room?.type === "kitchen" ? "kitchen-sink" : "lavatory";
+    case "shower": return "shower";
+    case "bathtub": return "bathtub";
+    case "dishwasher": return "dishwasher";
+    case "washer": return "clothes-washer";
+    default: return null;
+  }
+}
+
+/**
+ * Minimum building drain size for the plan (CPC Table 703.2 - no more than two water closets on a 3" drain)
+ */
+export function buildingDrainSize(totalDfu: number, waterClosets: number): string {
+  if (waterClosets > 2 || totalDfu > 35) return "4\"";
+  if (waterClosets > 0 || totalDfu > 14) return "3\"";
+  return totalDfu > 8 ? "2-1/2\"" : "2\"";
+}
+
+// Wall a fixture is set against: its footprint edge is within a foot of the wall centerline
+function wallUnderFixture(item: EditorFurniture, walls: Wall[], pixelsPerFoot: number): Wall | null {
+  const turned = item.rotation % 180 !== 0;
+  const halfX = ((turned ? item.height : item.width) / 2) * pixelsPerFoot;
+  const halfY = ((turned ? item.width : item.height) / 2) * pixelsPerFoot;
+  const tolerance = pixelsPerFoot + (CANVAS_CONFIG.WALL_THICKNESS / 24) * pixelsPerFoot;
+
+  let best: { wall: Wall; gap: number } | null = null;
+  for (const wall of walls) {
+    const { distance, length } = projectOntoWall(item.position, wall);
+    if (length === 0) continue;
+    const ux = Math.abs(wall.end.x - wall.start.x) / length;
+    const uy = Math.abs(wall.end.y - wall.start.y) / length;
+    const gap = distance - (uy * halfX + ux * halfY);
+    if (gap <= tolerance && (!best || gap < best.gap)) best = { wall, gap };
+  }
+  return best?.wall ?? null;
+}
+
+// Two wet walls on different levels run along the same line and overlap
+function overlaps(a: WetWall, b: WetWall, tolerance: number): boolean {
+  const dx = a.end.x - a.start.x;
+  const dy = a.end.y - a.start.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return false;
+  const ux = dx / length;
+  const uy = dy / length;
+  const offset = (p: Point) => Math.abs((p.x - a.start.x) * uy - (p.y - a.start.y) * ux);
+  if (offset(b.start) > tolerance || offset(b.end) > tolerance) return false;
+  const ta = (b.start.x - a.start.x) * ux + (b.start.y - a.start.y) * uy;
+  const tb = (b.end.x - a.start.x) * ux + (b.end.y - a.start.y) * uy;
+  return Math.min(Math.max(ta, tb), length) - Math.max(Math.min(ta, tb), 0) > tolerance;
+}
+
+// Manhattan minimum spanning tree from the root (Prim), as parent-child pairs
+function spanningTree(root: Point, nodes: Point[]): Array<[Point, Point]> {
+  const edges: Array<[Point, Point]> = [];
+  const connected: Point[] = [root];
+  const remaining = [...nodes];
+  while (remaining.length > 0) {
+    let best = { from: root, index: 0, distance: Infinity };
+    remaining.forEach((node, index) => {
+      for (const from of connected) {
+        const distance = manhattan(from, node);
+        if (distance < best.distance) best = { from, index, distance };
+      }
+    });
+    const [node] = remaining.splice(best.index, 1);
+    edges.push([best.from, node]);
+    connected.push(node);
+  }
+  return edges;
+}
+
+// Closest point on the exterior walls to p
+function nearestExteriorPoint(walls: Wall[], p: Point): Point | null {
+  let best: { point: Point; distance: number } | null = null;
+  for (const wall of walls) {
+    if (wall.kind !== "exterior") continue;
+    const projection = projectOntoWall(p, wall);
+    const distance = Math.hypot(p.x - projection.point.x, p.y - projection.point.y);
+    if (!best || distance < best.distance) best = { point: projection.point, distance };
+  }
+  return best?.point ?? null;
+}
+
+/**
+ * Fixture units, wet walls and rough drain/supply run lengths for every level of the plan.
+ * The main drain leaves the lowest level at the exterior wall closest to the sewer connection and
+ * branches to each stack along a rectilinear spanning tree; upper-level stacks add their vertical drop.
+ * Supply follows the same routes (cold to every fixture, hot to the fixtures that need it).
+ */
+export function analyzePlumbing({
+  rooms,
+  furniture,
+  pixelsPerFoot,
+  ceilingHeight,
+  levels = [],
+  sewerConnection,
+}: PlumbingOptions): PlumbingReport {
+  const toFeet = (px: number) => px / pixelsPerFoot;
+  const planLevels: PlumbingLevel[] = [
+    { id: "ground" as LevelId, ceilingHeight: ceilingHeight ?? LEVEL_CONFIGS.ground.defaultCeilingHeight, rooms, furniture },
+    ...levels
+      .filter(level => level.id !== "ground")
+      .map(level => ({ id: level.id, ceilingHeight: level.ceilingHeight, rooms: level.rooms, furniture: level.furniture ?? [] })),
+  ]
+    .filter(level => level.rooms.length > 0)
+    .sort((a, b) => LEVEL_CONFIGS[a.id].order - LEVEL_CONFIGS[b.id].order);
+
+  const fixtures: PlumbingFixture[] = [];
+  const wetWalls: WetWall[] = [];
+  const groups: StackGroup[] = [];
+  const wallsByLevel = new Map<LevelId, Wall[]>();
+
+  for (const level of planLevels) {
+    const walls = buildWallGraph(level.rooms);
+    wallsByLevel.set(level.id, walls);
+    const levelWetWalls = new Map<string, { wall: Wall; fixtures: PlumbingFixture[] }>();
+
+    for (const item of level.furniture) {
+      if (!PLUMBING_FIXTURE_TYPES.has(item.type)) continue;
+      const room = level.rooms.find(r => isPointInPolygon(item.position, r.vertices));
+      const kind = fixtureKind(item, room);
+      if (!kind) continue;
+      const spec = PLUMBING_FIXTURE_SPECS[kind];
+      const wall = wallUnderFixture(item, walls, pixelsPerFoot);
+      const fixture: PlumbingFixture = {
+        id: item.id,
+        kind,
+        label: spec.label,
+        levelId: level.id,
+        ...(room && { roomId: room.id, roomName: room.name }),
+        position: item.position,
+        dfu: spec.dfu,
+        wsfu: spec.wsfu,
+        trapSize: spec.trapSize,
+        hotWater: spec.hotWater,
+        ...(wall && { wetWallId: `${level.id}:${wall.id}` }),
+      };
+      fixtures.push(fixture);
+
+      if (wall) {
+        const entry = levelWetWalls.get(wall.id) ?? { wall, fixtures: [] };
+        entry.fixtures.push(fixture);
+        levelWetWalls.set(wall.id, entry);
+      } else {
+        groups.push({ point: fixture.position, levelId: level.id, fixtures: [fixture] });
+      }
+    }
+
+    for (const { wall, fixtures: onWall } of levelWetWalls.values()) {
+      const roomIds = Array.from(new Set(onWall.flatMap(f => (f.roomId ? [f.roomId] : []))));
+      const wetWall: WetWall = {
+        id: `${level.id}:${wall.id}`,
+        levelId: level.id,
+        start: wall.start,
+        end: wall.end,
+        length: round1(toFeet(Math.hypot(wall.end.x - wall.start.x, wall.end.y - wall.start.y))),
+        kind: wall.kind,
+        roomIds,
+        fixtureIds: onWall.map(f => f.id),
+        shared: roomIds.length >= 2,
+      };
+      // Stacking over a wet wall on the level below lets both share one stack
+      const below = wetWalls.filter(w => w.levelId !== level.id).reverse().find(w => overlaps(w, wetWall, pixelsPerFoot));
+      if (below) wetWall.stackedOn = below.id;
+      wetWalls.push(wetWall);
+
+      // The stack sits on the wall behind the middle of its fixtures
+      const along = onWall.map(f => projectOntoWall(f.position, wall).point);
+      groups.push({
+        point: {
+          x: along.reduce((sum, p) => sum + p.x, 0) / along.length,
+          y: along.reduce((sum, p) => sum + p.y, 0) / along.length,
+        },
+        levelId: level.id,
+        fixtures: onWall,
+        stackedOn: wetWall.stackedOn,
+      });
+    }
+  }
+
+  const totalDfu = fixtures.reduce((sum, f) => sum + f.dfu, 0);
+  const totalWsfu = round1(fixtures.reduce((sum, f) => sum + f.wsfu, 0));
+  const waterClosets = fixtures.filter(f => f.kind === "water-closet").length;
+
+  // Runs are only meaningful once the lateral connection is placed
+  const lowest = planLevels[0];
+  const buildingExit = lowest && sewerConnection
+    ? nearestExteriorPoint(wallsByLevel.get(lowest.id) ?? [], sewerConnection)
+    : null;
+
+  const route: PlumbingRunSegment[] = [];
+  let drainLength: number | null = null;
+  let supplyLength: number | null = null;
+  let lateralLength: number | null = null;
+
+  if (lowest && sewerConnection && buildingExit) {
+    const drop = (levelId: LevelId) => planLevels
+      .filter(level => LEVEL_CONFIGS[level.id].order < LEVEL_CONFIGS[levelId].order)
+      .reduce((sum, level) => sum + level.ceilingHeight + STAIR_CONFIG.FLOOR_DEPTH, 0);
+    const branchLength = (group: StackGroup, hotOnly: boolean) => group.fixtures
+      .filter(f => !hotOnly || f.hotWater)
+      .reduce((sum, f) => sum + toFeet(manhattan(f.position, group.point)), 0);
+    const treeLength = (nodes: StackGroup[]) => spanningTree(buildingExit, nodes.map(g => g.point))
+      .reduce((sum, [from, to]) => sum + toFeet(manhattan(from, to)), 0);
+    const runLength = (nodes: StackGroup[], hotOnly: boolean) =>
+      treeLength(nodes) + nodes.reduce((sum, g) => sum + branchLength(g, hotOnly) + drop(g.levelId), 0);
+
+    const hotGroups = groups.filter(g => g.fixtures.some(f => f.hotWater));
+    drainLength = round1(runLength(groups, false));
+    supplyLength = round1(runLength(groups, false) + runLength(hotGroups, true));
+    lateralLength = round1(toFeet(Math.hypot(sewerConnection.x - buildingExit.x, sewerConnection.y - buildingExit.y)));
+
+    route.push({ from: buildingExit, to: sewerConnection, levelId: lowest.id, kind: "lateral" });
+    for (const [from, to] of spanningTree(buildingExit, groups.map(g => g.point))) {
+      route.push({ from, to, levelId: lowest.id, kind: "main" });
+    }
+    for (const group of groups) {
+      for (const fixture of group.fixtures) {
+        route.push({ from: group.point, to: fixture.position, levelId: group.levelId, kind: "branch" });
+      }
+    }
+  }
+
+  return {
+    fixtures,
+    wetWalls,
+    totalDfu,
+    totalWsfu,
+    buildingDrainSize: buildingDrainSize(totalDfu, waterClosets),
+    sharedWetWalls: wetWalls.filter(w => w.shared).length,
+    stackCount: groups.filter(g => !g.stackedOn).length,
+    drainLength,
+    supplyLength,
+    lateralLength,
+    buildingExit,
+    route,
+  };
+}
+
+/**
+ * Compact summary of a plumbing report for the cost estimate and exports
+ */
+export function summarizePlumbing(report: PlumbingReport): PlumbingSummary {
+  return {
+    fixtureCount: report.fixtures.length,
+    totalDfu: report.totalDfu,
+    totalWsfu: report.totalWsfu,
+    buildingDrainSize: report.buildingDrainSize,
+    wetWalls: report.wetWalls.length,
+    sharedWetWalls: report.sharedWetWalls,
+    stackCount: report.stackCount,
+    drainLength: report.drainLength,
+    supplyLength: report.supplyLength,
+    lateralLength: report.lateralLength,
+  };
+}
@@ -0,0 +1,70 @@
+/**
+ * Solar position for a site - sun altitude and compass azimuth at a given instant.
+ * Low-precision astronomical formulas (about 0.1°), plenty for shadow studies.
+ */
+
+export interface SunPosition {
+  altitude: number; // degrees above the horizon (negative at night)
+  azimuth: number; // compass bearing, degrees clockwise from true north
+}
+
+const RAD = Math.PI / 180;
+const DAY_MS = 86400000;
+const J1970 = 2440588;
+const J2000 = 2451545;
+const OBLIQUITY = RAD * 23.4397; // Earth's axial tilt
+
+const toDays = (date: Date) => date.valueOf() / DAY_MS - 0.5 + J1970 - J2000;
+
+/**
+ * Sun altitude/azimuth for a location (degrees lat/lng) at an instant
+ */
+export function getSunPosition(date: Date, lat: number, lng: number): SunPosition {
+  const days = toDays(date);
+  const phi = RAD * lat;
+
+  // Sun's ecliptic longitude -> equatorial coordinates
+  const meanAnomaly = RAD * (357.5291 + 0.98560028 * days);
+  const center = RAD * (1.9148 * Math.sin(meanAnomaly) + 0.02 * Math.sin(2 * meanAnomaly) + 0.0003 * Math.sin(3 * meanAnomaly));
+  const eclipticLongitude = meanAnomaly + center + RAD * 102.9372 + Math.PI;
+  const declination = Math.asin(Math.sin(OBLIQUITY) * Math.sin(eclipticLongitude));
+  const rightAscension = Math.atan2(Math.sin(eclipticLongitude) * Math.cos(OBLIQUITY), Math.cos(eclipticLongitude));
+
+  // Hour angle from local sidereal time
+  const siderealTime = RAD * (280.16 + 360.9856235 * days) + RAD * lng;
+  const hourAngle = siderealTime - rightAscension;
+
+  const altitude = Math.asin(
+    Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  // Measured from south, positive toward west
+  const azimuthFromSouth = Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(phi) - Math.tan(declination) * Math.cos(phi)
+  );
+
+  return {
+    altitude: altitude / RAD,
+    azimuth: (azimuthFromSouth / RAD + 180 + 360) % 360,
+  };
+}
+
+/**
+ * Standard-time UTC offset for a longitude (whole hours, no daylight saving).
+ * The site's clock time is approximated from its longitude so studies don't depend on the viewer's time zone.
+ */
+export function standardTimeOffsetHours(lng: number): number {
+  return Math.round(lng / 15);
+}
+
+/**
+ * Instant for a day of the year (1-366) and a site standard time (minutes after midnight)
+ */
+export function getSiteDate(year: number, dayOfYear: number, minutes: number, lng: number): Date {
+  const utcMinutes = minutes - standardTimeOffsetHours(lng) * 60;
+  return new Date(Date.UTC(year, 0, dayOfYear) + utcMinutes * 60000);
+}
+
+export function getDayOfYear(date: Date): number {
+  return Math.floor((Date.UTC(date.getFullYear(), date.getMonth(), date.getDate()) - Date.UTC(date.getFullYear(), 0, 0)) / DAY_MS);
+}
@@ -1,3 +1,5 @@
+import type { ExistingStructure, Vertex } from "./api/client";
+
 // Floor Plan Types - Aligned with LA ADU and architectural standards
 export type RoomType =
   | "bedroom"     // Bedroom (min 70 sq ft per CA Building Code)
@@ -40,6 +42,8 @@ export interface Door {
   rotation: number; // 0, 90, 180, 270 degrees
   width: number; // in feet (typically 3ft single, 6ft double)
   roomId?: string; // Optional: which room the door belongs to
+  roomIds?: string[]; // Optional: every room the door opens onto (both sides of a shared wall)
+  wallId?: string; // Optional: wall (from the wall graph) the door is snapped to
 }
 
 export interface Window {
@@ -50,13 +54,19 @@ export interface Window {
   width: number; // in feet
   height: number; // in feet
   roomId?: string; // Optional: which room the window belongs to
+  roomIds?: string[]; // Optional: every room the window opens onto (both sides of a shared wall)
+  wallId?: string; // Optional: wall (from the wall graph) the window is snapped to
 }
 
+export type WallKind = "exterior" | "interior";
+
 export interface Wall {
   id: string;
   start: Point;
   end: Point;
-  thickness: number;
+  thickness: number; // in inches
+  kind?: WallKind; // exterior = bounds a single room, interior = shared between rooms
+  roomIds?: string[]; // rooms bordering this wall
 }
 
 export interface FloorPlan {
@@ -75,8 +85,88 @@ export interface FloorPlan {
   pixelsPerFoot?: number;
   canvasWidth?: number;
   canvasHeight?: number;
+  // Multi-story fields - the top-level rooms/walls/doors/windows/furniture are the ground level
+  ceilingHeight?: number; // ground level floor-to-ceiling height in feet
+  levels?: FloorLevel[]; // additional levels (second story, garage below)
+  stairs?: Stair[];
+  electrical?: ElectricalDevice[]; // devices on every level
+  sewerConnection?: Point; // sewer lateral tie-in on the lot, in plan coordinates
+}
+
+// Building levels, listed bottom to top
+export type LevelId = "garage-below" | "ground" | "second";
+
+export interface FloorLevel {
+  id: LevelId;
+  name: string;
+  ceilingHeight: number; // floor-to-ceiling height in feet
+  rooms: Room[];
+  walls: Wall[];
+  doors: Door[];
+  windows: Window[];
+  furniture?: EditorFurniture[];
+  totalArea: number;
+}
+
+// Straight stair run between two adjacent levels.
+// The same footprint is occupied on both levels (stairwell opening on the upper one).
+export interface Stair {
+  id: string;
+  position: Point; // Center position of the stair footprint
+  rotation: number; // 0, 90, 180, 270 degrees - direction of travel going up
+  width: number; // in feet
+  length: number; // in feet (horizontal run)
+  fromLevel: LevelId; // lower level
+  toLevel: LevelId; // upper level
+}
+
+// Electrical plan devices (symbols on the permit set's electrical sheet)
+export type ElectricalDeviceType =
+  | "receptacle"        // Duplex receptacle
+  | "gfci-receptacle"   // GFCI receptacle (kitchen counters, bathrooms, laundry, exterior)
+  | "switch"            // Single-pole switch
+  | "three-way-switch"  // 3-way switch (one of a pair)
+  | "ceiling-light"     // Surface-mounted ceiling fixture
+  | "recessed-light"    // Recessed can / wafer light
+  | "wall-sconce"       // Wall-mounted fixture
+  | "smoke-detector"    // Combination smoke / CO alarm
+  | "smart-hub"         // Smart-home hub or wireless access point
+  | "thermostat"        // Smart thermostat
+  | "panel";            // Electrical panel / subpanel
+
+export interface ElectricalDevice {
+  id: string;
+  type: ElectricalDeviceType;
+  position: Point; // Center of the symbol
+  rotation: number; // 0, 90, 180, 270 degrees - wall devices have their back to the wall at 0 (wall above)
+  level: LevelId;
+  circuit?: string; // Circuit label, e.g. "A3"
+  controls?: string[]; // Switches: ids of the light fixtures they control
+}
+
+// Furniture pieces the editor can place
+export type FurnitureType =
+  | "bed-double" | "bed-single"
+  | "sofa-3seat" | "sofa-2seat" | "armchair"
+  | "table-dining" | "table-coffee"
+  | "toilet" | "sink" | "shower" | "bathtub"
+  | "stove" | "refrigerator" | "dishwasher"
+  | "washer"
+  | "desk" | "chair";
+
+// A furniture piece as the editor holds it
+export interface Furniture {
+  id: string;
+  type: FurnitureType;
+  position: Point;
+  rotation: number; // 0, 90, 180, 270
+  width: number;  // in feet
+  height: number; // in feet (depth)
 }
 
+// What an editor edit (logged action, co-editing op) applies to
+export type EntityType = "room" | "door" | "window" | "furniture" | "boundary";
+
 // Furniture type for floor plan (matches editor)
 export interface EditorFurniture {
   id: string;
@@ -151,10 +241,11 @@ export interface Tool {
 }
 
 // ADU Template Types
-export type TemplateType = "studio" | "oneBedroom" | "twoBedroom" | "blank";
+export type TemplateType = "studio" | "oneBedroom" | "twoBedroom" | "juniorADU" | "blank";
 
+// Template geometry is stored in feet, relative to the top-left corner of the boundary
 export interface ADUTemplate {
-  id: TemplateType;
+  id: TemplateType | `custom-${string}`;
   name: string;
   description: string;
   sqft: string;
@@ -162,5 +253,107 @@ export interface ADUTemplate {
   rooms: Omit<Room, "id">[];
   doors: Omit<Door, "id">[];
   windows: Omit<Window, "id">[];
+  furniture?: Omit<EditorFurniture, "id">[];
   boundary: Point[];
+  isCustom?: boolean; // Saved by the user from an existing plan
+  createdAt?: string;
+}
+
+// Rooms, openings and furniture of one building level (the ADU boundary is shared)
+export interface LevelContent {
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: Furniture[];
+}
+
+export interface LevelSettings {
+  id: LevelId;
+  name: string;
+  ceilingHeight: number; // feet
+}
+
+// A non-active level as saved with blueprints and snapshots
+export interface EditorLevel extends LevelSettings, LevelContent {}
+
+// Raster tracing underlay (photo or scan of a sketch / existing plan)
+export interface ImageUnderlaySettings {
+  imageId: string; // Key of the picture in the local underlay image store
+  src: string; // Data URL from the store, downscaled on upload - empty while the picture isn't stored in this browser
+  imageWidth: number; // px
+  imageHeight: number; // px
+  x: number; // Image center in ADU canvas pixels
+  y: number;
+  scale: number; // Canvas pixels per image pixel (set by calibration)
+  rotation: number; // degrees
+  opacity: number; // 0-1
+  locked: boolean;
+  visible: boolean;
+}
+
+// The underlay as saved with snapshots - the picture is referenced by imageId.
+// Snapshots from before the image store carry the data URL in src instead.
+export type SavedImageUnderlay = Omit<ImageUnderlaySettings, "imageId" | "src"> & {
+  imageId?: string;
+  src?: string;
+};
+
+// Editor view settings that get saved with snapshots
+export interface EditorViewSettings {
+  showLotOverlay: boolean;
+  showSatelliteView: boolean;
+  showLotBoundary: boolean;
+  showGrid: boolean;
+  zoom: number;
+  panOffsetX: number;
+  panOffsetY: number;
+  imageUnderlay?: SavedImageUnderlay | null;
+}
+
+// Lot data that gets saved with snapshots (excluding server-managed fields)
+export interface LotSnapshotData {
+  parcelNumber?: string;
+  address?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  geoLat: number;
+  geoLng: number;
+  geoRotation: number;
+  boundaryVertices?: { lat: number; lng: number }[];
+  lotWidthFeet?: number;
+  lotDepthFeet?: number;
+  lotAreaSqFt?: number;
+  aduOffsetX: number;
+  aduOffsetY: number;
+  aduRotation: number;
+  setbackFrontFeet: number;
+  setbackBackFeet: number;
+  setbackLeftFeet: number;
+  setbackRightFeet: number;
+  existingStructures?: ExistingStructure[];
+  zoningProfileId?: string;
+  geoProviderId?: string;
+  sewerConnection?: Vertex;
+  dataSource?: string;
+}
+
+// The editor's whole plan as kept in version history snapshots and design alternatives
+export interface EditorSnapshotData {
+  rooms: Room[];
+  doors: Door[];
+  windows: Window[];
+  furniture: Furniture[];
+  aduBoundary: Point[];
+  // Editor view settings (optional for backward compatibility with old snapshots)
+  editorSettings?: EditorViewSettings;
+  // Lot data (optional for backward compatibility with old snapshots)
+  lotData?: LotSnapshotData;
+  // Multi-story data - rooms/doors/windows/furniture above are the ground level
+  ceilingHeight?: number;
+  levels?: EditorLevel[];
+  stairs?: Stair[];
+  electrical?: ElectricalDevice[];
+  // Design alternative the snapshot was taken of (missing on snapshots from before alternatives)
+  alternativeId?: string;
 }
@@ -0,0 +1,93 @@
+// Local store for image underlay pictures - snapshots, alternatives and auto-saves reference
+// an image by id instead of carrying its data URL, so each picture is stored once.
+
+interface StoredImage {
+  id: string;
+  src: string; // Data URL
+  storedAt: number;
+}
+
+const DB_NAME = "aduvisualizer-underlays";
+const STORE_NAME = "images";
+
+// Used when IndexedDB is unavailable (server render, some private browsing modes) or a write to it failed
+const memoryStore = new Map<string, string>();
+let dbPromise: Promise<IDBDatabase | null> | null = null;
+
+function openDb(): Promise<IDBDatabase | null> {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve) => {
+      if (typeof indexedDB === "undefined") {
+        resolve(null);
+        return;
+      }
+      const request = indexedDB.open(DB_NAME, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        console.error("[UnderlayImages] Failed to open IndexedDB, falling back to memory:", request.error);
+        resolve(null);
+      };
+    });
+  }
+  return dbPromise;
+}
+
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  run: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDb();
+  if (!db) throw new Error("IndexedDB unavailable");
+  return new Promise((resolve, reject) => {
+    const request = run(db.transaction(STORE_NAME, mode).objectStore(STORE_NAME));
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Content hash, so uploading or migrating the same picture twice keeps one copy
+async function imageId(src: string): Promise<string> {
+  if (typeof crypto === "undefined" || !crypto.subtle) {
+    return `img-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+  }
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(src));
+  return Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("");
+}
+
+/**
+ * Store an underlay picture and return the id that snapshots refer to it by
+ */
+export async function storeUnderlayImage(src: string): Promise<string> {
+  const id = await imageId(src);
+  if (memoryStore.has(id)) return id;
+  try {
+    if (await openDb()) {
+      const image: StoredImage = { id, src, storedAt: Date.now() };
+      await withStore("readwrite", (store) => store.put(image));
+      return id;
+    }
+  } catch (error) {
+    console.error("[UnderlayImages] Failed to store image, keeping it in memory:", error);
+  }
+  memoryStore.set(id, src);
+  return id;
+}
+
+/**
+ * Data URL of a stored picture, or null when it isn't stored in this browser
+ */
+export async function loadUnderlayImage(id: string): Promise<string | null> {
+  const inMemory = memoryStore.get(id);
+  if (inMemory) return inMemory;
+  try {
+    if (!(await openDb())) return null;
+    const image = await withStore("readonly", (store) => store.get(id) as IDBRequest<StoredImage | undefined>);
+    return image?.src ?? null;
+  } catch (error) {
+    console.error("[UnderlayImages] Failed to load image:", error);
+    return null;
+  }
+}
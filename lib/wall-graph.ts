@@ -0,0 +1,283 @@
+// Wall Graph - derives the wall network of a floor plan from its room polygons.
+// Shared by the 2D Konva editor and the 3D viewer so both agree on where walls are.
+import type { Point, Room, Wall, WallKind } from "./types";
+import { CANVAS_CONFIG } from "./constants";
+
+export interface WallGraphOptions {
+  thickness?: number; // in inches (defaults to CANVAS_CONFIG.WALL_THICKNESS)
+  tolerance?: number; // in the same units as the room vertices (pixels in the editor)
+}
+
+// A supporting line shared by one or more collinear room edges
+interface WallLine {
+  direction: Point; // unit vector, canonicalized to point right (or down when vertical)
+  normal: Point;
+  offset: number; // signed distance of the line from the origin along the normal
+  spans: Array<{ start: number; end: number; roomId: string }>;
+}
+
+const dot = (a: Point, b: Point) => a.x * b.x + a.y * b.y;
+
+function canonicalDirection(start: Point, end: Point): Point | null {
+  const dx = end.x - start.x;
+  const dy = end.y - start.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) return null;
+  let dir = { x: dx / length, y: dy / length };
+  if (dir.x < -1e-9 || (Math.abs(dir.x) <= 1e-9 && dir.y < 0)) {
+    dir = { x: -dir.x, y: -dir.y };
+  }
+  return dir;
+}
+
+function wallId(start: Point, end: Point): string {
+  return `wall-${Math.round(start.x)},${Math.round(start.y)}-${Math.round(end.x)},${Math.round(end.y)}`;
+}
+
+/**
+ * Build the wall graph for a set of rooms.
+ * Collinear, overlapping or touching room edges are merged into continuous walls.
+ * Wall sections bordered by a single room are exterior; sections shared by two or more rooms are interior.
+ */
+export function buildWallGraph(rooms: Array<Pick<Room, "id" | "vertices">>, options: WallGraphOptions = {}): Wall[] {
+  const thickness = options.thickness ?? CANVAS_CONFIG.WALL_THICKNESS;
+  const tolerance = options.tolerance ?? 1;
+  const lines: WallLine[] = [];
+
+  // Step 1: Group every room edge onto its supporting line
+  for (const room of rooms) {
+    const vertices = room.vertices;
+    for (let i = 0; i < vertices.length; i++) {
+      const a = vertices[i];
+      const b = vertices[(i + 1) % vertices.length];
+      const direction = canonicalDirection(a, b);
+      if (!direction || Math.hypot(b.x - a.x, b.y - a.y) <= tolerance) continue;
+
+      const normal = { x: -direction.y, y: direction.x };
+      const offset = dot(normal, a);
+
+      let line = lines.find(l =>
+        Math.abs(dot(l.direction, direction) - 1) < 1e-6 && Math.abs(l.offset - offset) <= tolerance
+      );
+      if (!line) {
+        line = { direction, normal, offset, spans: [] };
+        lines.push(line);
+      }
+
+      const t0 = dot(direction, a);
+      const t1 = dot(direction, b);
+      line.spans.push({ start: Math.min(t0, t1), end: Math.max(t0, t1), roomId: room.id });
+    }
+  }
+
+  // Step 2: Split each line at every span endpoint and merge runs of the same kind
+  const walls: Wall[] = [];
+  for (const line of lines) {
+    const breakpoints = line.spans
+      .flatMap(s => [s.start, s.end])
+      .sort((a, b) => a - b)
+      .filter((t, i, arr) => i === 0 || t - arr[i - 1] > tolerance);
+
+    const runs: Array<{ start: number; end: number; kind: WallKind; roomIds: Set<string> }> = [];
+    let previousCovered = false;
+
+    for (let i = 0; i < breakpoints.length - 1; i++) {
+      const from = breakpoints[i];
+      const to = breakpoints[i + 1];
+      const mid = (from + to) / 2;
+      const roomIds = new Set(
+        line.spans
+          .filter(s => s.start - tolerance <= mid && mid <= s.end + tolerance)
+          .map(s => s.roomId)
+      );
+
+      // Gaps between rooms break the wall
+      if (roomIds.size === 0) {
+        previousCovered = false;
+        continue;
+      }
+
+      const kind: WallKind = roomIds.size > 1 ? "interior" : "exterior";
+      const last = runs[runs.length - 1];
+      if (previousCovered && last && last.kind === kind) {
+        last.end = to;
+        roomIds.forEach(id => last.roomIds.add(id));
+      } else {
+        runs.push({ start: from, end: to, kind, roomIds });
+      }
+      previousCovered = true;
+    }
+
+    const toPoint = (t: number): Point => ({
+      x: line.direction.x * t + line.normal.x * line.offset,
+      y: line.direction.y * t + line.normal.y * line.offset,
+    });
+
+    for (const run of runs) {
+      const start = toPoint(run.start);
+      const end = toPoint(run.end);
+      walls.push({
+        id: wallId(start, end),
+        start,
+        end,
+        thickness,
+        kind: run.kind,
+        roomIds: Array.from(run.roomIds),
+      });
+    }
+  }
+
+  return walls;
+}
+
+/**
+ * Project a point onto a wall's centerline.
+ * Returns the distance along the wall from its start, the perpendicular distance, and the projected point.
+ */
+export function projectOntoWall(point: Point, wall: Wall) {
+  const dx = wall.end.x - wall.start.x;
+  const dy = wall.end.y - wall.start.y;
+  const length = Math.hypot(dx, dy);
+  if (length === 0) {
+    return { along: 0, distance: Math.hypot(point.x - wall.start.x, point.y - wall.start.y), point: wall.start, length };
+  }
+  const t = Math.max(0, Math.min(length, ((point.x - wall.start.x) * dx + (point.y - wall.start.y) * dy) / length));
+  const projected = { x: wall.start.x + (dx / length) * t, y: wall.start.y + (dy / length) * t };
+  return {
+    along: t,
+    distance: Math.hypot(point.x - projected.x, point.y - projected.y),
+    point: projected,
+    length,
+  };
+}
+
+/**
+ * Wall angle in degrees, normalized to [0, 180)
+ */
+export function wallAngle(wall: Wall): number {
+  const degrees = (Math.atan2(wall.end.y - wall.start.y, wall.end.x - wall.start.x) * 180) / Math.PI;
+  return ((degrees % 180) + 180) % 180;
+}
+
+// Result of snapping a door or window onto a wall
+export interface OpeningSnap {
+  position: Point;
+  rotation: number;
+  wallId: string;
+  roomId?: string;
+  roomIds?: string[];
+}
+
+/**
+ * Every room an opening belongs to - both sides of a shared wall.
+ * Openings saved before roomIds existed only carry their roomId.
+ */
+export function openingRoomIds(opening: { roomId?: string; roomIds?: string[] }): string[] {
+  if (opening.roomIds && opening.roomIds.length > 0) return opening.roomIds;
+  return opening.roomId ? [opening.roomId] : [];
+}
+
+/**
+ * Find the wall closest to a point, within maxDistance
+ */
+export function findNearestWall(point: Point, walls: Wall[], maxDistance: number) {
+  let best: { wall: Wall; projection: ReturnType<typeof projectOntoWall> } | null = null;
+  for (const wall of walls) {
+    const projection = projectOntoWall(point, wall);
+    if (projection.distance <= maxDistance && (!best || projection.distance < best.projection.distance)) {
+      best = { wall, projection };
+    }
+  }
+  return best;
+}
+
+/**
+ * Snap an opening (door or window) onto the nearest wall.
+ * The opening is centered on the wall line, kept within the wall's length, and rotated to match the wall.
+ * A rotation already parallel to the wall is kept so door swing direction is preserved.
+ * Width and maxDistance are in the same units as the wall coordinates.
+ */
+export function snapOpeningToWall(
+  opening: { position: Point; rotation: number; width: number },
+  walls: Wall[],
+  maxDistance: number
+): OpeningSnap | null {
+  const nearest = findNearestWall(opening.position, walls, maxDistance);
+  if (!nearest) return null;
+
+  const { wall, projection } = nearest;
+  const halfWidth = opening.width / 2;
+  const along = projection.length >= opening.width
+    ? Math.max(halfWidth, Math.min(projection.length - halfWidth, projection.along))
+    : projection.length / 2;
+
+  const ux = projection.length > 0 ? (wall.end.x - wall.start.x) / projection.length : 0;
+  const uy = projection.length > 0 ? (wall.end.y - wall.start.y) / projection.length : 0;
+
+  const angle = Math.round(wallAngle(wall));
+  const isParallel = ((((opening.rotation - angle) % 180) + 180) % 180) === 0;
+
+  return {
+    position: { x: wall.start.x + ux * along, y: wall.start.y + uy * along },
+    rotation: isParallel ? opening.rotation : angle,
+    wallId: wall.id,
+    roomId: wall.roomIds?.[0],
+    roomIds: wall.roomIds,
+  };
+}
+
+/**
+ * Keep openings attached to a room when the room is moved, resized or vertex-edited.
+ * Each attached opening keeps its relative position along the same room edge and turns with that edge.
+ * Openings on a wall shared with another room stay where they are - they still sit in the other
+ * room's wall - and the caller re-reads their rooms from the updated wall graph.
+ * Rooms whose vertex count changed are left alone since edges can no longer be matched.
+ */
+export function moveOpeningsWithRoom<T extends { position: Point; rotation: number; roomId?: string; roomIds?: string[] }>(
+  openings: T[],
+  previousRoom: Room,
+  nextRoom: Room
+): T[] {
+  const before = previousRoom.vertices;
+  const after = nextRoom.vertices;
+  if (before.length !== after.length || before.length < 2) return openings;
+
+  const edgeAngle = (a: Point, b: Point) => (Math.atan2(b.y - a.y, b.x - a.x) * 180) / Math.PI;
+
+  return openings.map(opening => {
+    const roomIds = openingRoomIds(opening);
+    if (!roomIds.includes(previousRoom.id) || roomIds.length > 1) return opening;
+
+    // Find the edge of the previous room the opening sits on
+    let bestIndex = 0;
+    let bestDistance = Infinity;
+    let bestFraction = 0;
+    for (let i = 0; i < before.length; i++) {
+      const a = before[i];
+      const b = before[(i + 1) % before.length];
+      const edge: Wall = { id: "", start: a, end: b, thickness: 0 };
+      const projection = projectOntoWall(opening.position, edge);
+      if (projection.distance < bestDistance) {
+        bestDistance = projection.distance;
+        bestIndex = i;
+        bestFraction = projection.length > 0 ? projection.along / projection.length : 0;
+      }
+    }
+
+    const oldStart = before[bestIndex];
+    const oldEnd = before[(bestIndex + 1) % before.length];
+    const newStart = after[bestIndex];
+    const newEnd = after[(bestIndex + 1) % after.length];
+
+    const turn = Math.round(edgeAngle(newStart, newEnd) - edgeAngle(oldStart, oldEnd));
+
+    return {
+      ...opening,
+      position: {
+        x: newStart.x + (newEnd.x - newStart.x) * bestFraction,
+        y: newStart.y + (newEnd.y - newStart.y) * bestFraction,
+      },
+      rotation: (((opening.rotation + turn) % 360) + 360) % 360,
+    };
+  });
+}
@@ -0,0 +1,11 @@
+export * from "./types";
+export { getMaxAduArea, getMaxHeight, getAduLimits } from "./limits";
+export {
+  CALIFORNIA_ZONING_PROFILE,
+  DEFAULT_ZONING_PROFILE_ID,
+  registerZoningProfile,
+  getZoningProfile,
+  listZoningProfiles,
+  resolveZoningProfile,
+  zoningRuleSetId,
+} from "./profiles";
@@ -0,0 +1,54 @@
+// ADU limits that depend on the plan (bedrooms, stories) and the lot (area)
+import type { AduLimits, ZoningProfile } from "./types";
+
+// Pick the tier with the highest threshold that the value reaches
+function tierFor<T>(tiers: T[] | undefined, threshold: (tier: T) => number, value: number): T | undefined {
+  return [...(tiers ?? [])]
+    .sort((a, b) => threshold(b) - threshold(a))
+    .find(tier => threshold(tier) <= value);
+}
+
+/**
+ * Largest ADU allowed for the bedroom count and lot area (sq ft).
+ * Without a lot area only the bedroom and absolute caps apply.
+ */
+export function getMaxAduArea(
+  profile: ZoningProfile,
+  bedrooms: number,
+  lotAreaSqFt?: number
+): number {
+  const { aduSize } = profile;
+  const caps = [aduSize.maxArea];
+
+  const bedroomTier = tierFor(aduSize.byBedrooms, t => t.minBedrooms, bedrooms);
+  if (bedroomTier) caps.push(bedroomTier.maxArea);
+
+  if (lotAreaSqFt) {
+    const lotTier = tierFor(aduSize.byLotArea, t => t.minLotAreaSqFt, lotAreaSqFt);
+    if (lotTier) caps.push(lotTier.maxArea);
+  }
+
+  return Math.min(...caps);
+}
+
+/**
+ * Height limit for a detached ADU with the given number of stories
+ */
+export function getMaxHeight(profile: ZoningProfile, stories: number): number | null {
+  if (stories <= 1) return profile.height.singleStory;
+  return profile.height.twoStory ?? null;
+}
+
+export function getAduLimits(
+  profile: ZoningProfile,
+  plan: { bedrooms: number; stories?: number; lotAreaSqFt?: number }
+): AduLimits {
+  return {
+    minArea: profile.aduSize.minArea,
+    maxArea: getMaxAduArea(profile, plan.bedrooms, plan.lotAreaSqFt),
+    maxBedrooms: profile.maxBedrooms,
+    maxHeight: getMaxHeight(profile, plan.stories ?? 1),
+    maxLotCoverage: profile.maxLotCoverage,
+    maxFloorAreaRatio: profile.maxFloorAreaRatio,
+  };
+}
@@ -0,0 +1,237 @@
+// Zoning Profiles - ADU ordinances by city/county, with the California state rules as the fallback.
+// Values summarize each ordinance for early design checks; confirm with the planning department.
+import { ADU_LIMITS } from "../constants";
+import {
+  CALIFORNIA_RULE_SET,
+  registerRuleSet,
+  createAduSizeRule,
+  createMaxBedroomsRule,
+} from "../compliance";
+import type { ComplianceRuleSet } from "../compliance";
+import { getMaxAduArea } from "./limits";
+import type { ZoningProfile } from "./types";
+
+const STATE_JADU = {
+  allowed: true,
+  maxArea: 500,
+  ownerOccupancyRequired: true,
+  separateEntranceRequired: true,
+};
+
+// Gov. Code 66321: 850 sq ft (studio/1 bed) or 1,000 sq ft (2+ beds), 4 ft side/rear setbacks
+export const CALIFORNIA_ZONING_PROFILE: ZoningProfile = {
+  id: "ca-state",
+  name: "California (State)",
+  jurisdiction: { state: "CA" },
+  aduSize: {
+    minArea: ADU_LIMITS.MIN_AREA,
+    maxArea: ADU_LIMITS.MAX_AREA,
+    byBedrooms: [
+      { minBedrooms: 0, maxArea: 850 },
+      { minBedrooms: 2, maxArea: 1000 },
+    ],
+  },
+  maxBedrooms: ADU_LIMITS.MAX_BEDROOMS,
+  setbacks: { front: 0, side: 4, rear: 4 },
+  height: { singleStory: 16, twoStory: 18 },
+  jadu: STATE_JADU,
+};
+
+const CITY_PROFILES: ZoningProfile[] = [
+  {
+    id: "los-angeles",
+    name: "City of Los Angeles",
+    jurisdiction: { state: "CA", county: "Los Angeles County", city: "Los Angeles" },
+    aduSize: {
+      minArea: 150,
+      maxArea: 1200,
+      byBedrooms: [{ minBedrooms: 0, maxArea: 1200 }],
+    },
+    maxBedrooms: 3,
+    setbacks: { front: 0, side: 4, rear: 4 },
+    height: { singleStory: 16, twoStory: 25 },
+    maxLotCoverage: 0.45,
+    maxFloorAreaRatio: 0.45,
+    jadu: { ...STATE_JADU, separateEntranceRequired: false },
+  },
+  {
+    id: "irvine",
+    name: "City of Irvine",
+    jurisdiction: { state: "CA", county: "Orange County", city: "Irvine" },
+    aduSize: {
+      minArea: 220,
+      maxArea: 1200,
+      byBedrooms: [
+        { minBedrooms: 0, maxArea: 850 },
+        { minBedrooms: 2, maxArea: 1000 },
+      ],
+      byLotArea: [
+        { minLotAreaSqFt: 0, maxArea: 1000 },
+        { minLotAreaSqFt: 10000, maxArea: 1200 },
+      ],
+    },
+    maxBedrooms: 2,
+    setbacks: { front: 20, side: 4, rear: 4 },
+    height: { singleStory: 16, twoStory: 25 },
+    maxLotCoverage: 0.5,
+    jadu: STATE_JADU,
+  },
+  {
+    id: "anaheim",
+    name: "City of Anaheim",
+    jurisdiction: { state: "CA", county: "Orange County", city: "Anaheim" },
+    aduSize: {
+      minArea: 150,
+      maxArea: 1200,
+      byBedrooms: [
+        { minBedrooms: 0, maxArea: 850 },
+        { minBedrooms: 2, maxArea: 1200 },
+      ],
+    },
+    maxBedrooms: 3,
+    setbacks: { front: 0, side: 4, rear: 4 },
+    height: { singleStory: 16, twoStory: 25 },
+    maxLotCoverage: 0.5,
+    jadu: STATE_JADU,
+  },
+  {
+    id: "santa-ana",
+    name: "City of Santa Ana",
+    jurisdiction: { state: "CA", county: "Orange County", city: "Santa Ana" },
+    aduSize: {
+      minArea: 150,
+      maxArea: 1200,
+      byBedrooms: [
+        { minBedrooms: 0, maxArea: 850 },
+        { minBedrooms: 2, maxArea: 1000 },
+      ],
+      byLotArea: [
+        { minLotAreaSqFt: 0, maxArea: 1000 },
+        { minLotAreaSqFt: 7200, maxArea: 1200 },
+      ],
+    },
+    maxBedrooms: 3,
+    setbacks: { front: 20, side: 4, rear: 4 },
+    height: { singleStory: 16, twoStory: 25 },
+    maxLotCoverage: 0.45,
+    maxFloorAreaRatio: 0.5,
+    jadu: STATE_JADU,
+  },
+  {
+    id: "huntington-beach",
+    name: "City of Huntington Beach",
+    jurisdiction: { state: "CA", county: "Orange County", city: "Huntington Beach" },
+    aduSize: {
+      minArea: 150,
+      maxArea: 1000,
+      byBedrooms: [
+        { minBedrooms: 0, maxArea: 850 },
+        { minBedrooms: 2, maxArea: 1000 },
+      ],
+    },
+    maxBedrooms: 2,
+    setbacks: { front: 15, side: 4, rear: 4 },
+    height: { singleStory: 16 },
+    maxLotCoverage: 0.5,
+    jadu: STATE_JADU,
+  },
+  {
+    id: "orange-county",
+    name: "Orange County (Unincorporated)",
+    jurisdiction: { state: "CA", county: "Orange County" },
+    aduSize: {
+      minArea: 150,
+      maxArea: 1200,
+      byBedrooms: [
+        { minBedrooms: 0, maxArea: 850 },
+        { minBedrooms: 2, maxArea: 1000 },
+      ],
+      byLotArea: [
+        { minLotAreaSqFt: 0, maxArea: 1000 },
+        { minLotAreaSqFt: 20000, maxArea: 1200 },
+      ],
+    },
+    maxBedrooms: 3,
+    setbacks: { front: 0, side: 5, rear: 5 },
+    height: { singleStory: 16, twoStory: 25 },
+    maxLotCoverage: 0.5,
+    jadu: STATE_JADU,
+  },
+];
+
+export const DEFAULT_ZONING_PROFILE_ID = CALIFORNIA_ZONING_PROFILE.id;
+
+// Compliance rule set registered for each profile
+export function zoningRuleSetId(profile: ZoningProfile): string {
+  return `zoning-${profile.id}`;
+}
+
+/**
+ * Compliance rules for a profile: the state room/egress rules with the profile's
+ * bedroom and size limits
+ */
+function createZoningRuleSet(profile: ZoningProfile): ComplianceRuleSet {
+  return {
+    id: zoningRuleSetId(profile),
+    name: profile.name,
+    description: `ADU requirements for ${profile.name}`,
+    rules: [
+      ...CALIFORNIA_RULE_SET.rules.filter(rule => rule.id !== "max-bedrooms"),
+      createMaxBedroomsRule(profile.maxBedrooms),
+      createAduSizeRule({
+        minArea: profile.aduSize.minArea,
+        maxArea: (bedrooms, lotAreaSqFt) => getMaxAduArea(profile, bedrooms, lotAreaSqFt),
+      }),
+    ],
+  };
+}
+
+const profiles = new Map<string, ZoningProfile>();
+
+/**
+ * Register (or replace) a jurisdiction's zoning profile and its compliance rule set
+ */
+export function registerZoningProfile(profile: ZoningProfile): void {
+  profiles.set(profile.id, profile);
+  registerRuleSet(createZoningRuleSet(profile));
+}
+
+[CALIFORNIA_ZONING_PROFILE, ...CITY_PROFILES].forEach(registerZoningProfile);
+
+/**
+ * Look up a profile by id, falling back to the California state profile
+ */
+export function getZoningProfile(id?: string): ZoningProfile {
+  return (id && profiles.get(id)) || CALIFORNIA_ZONING_PROFILE;
+}
+
+export function listZoningProfiles(): ZoningProfile[] {
+  return Array.from(profiles.values());
+}
+
+const normalize = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Pick the profile for an address: a city match first, then the county (unincorporated),
+ * then the state rules. Any of the address parts may name the city or county.
+ */
+export function resolveZoningProfile(location: {
+  city?: string;
+  county?: string;
+  displayName?: string;
+}): ZoningProfile {
+  const parts = new Set(
+    [location.city, location.county, ...(location.displayName?.split(",") ?? [])]
+      .filter((part): part is string => !!part)
+      .map(normalize)
+  );
+
+  const all = listZoningProfiles();
+  const cityMatch = all.find(p => p.jurisdiction.city && parts.has(normalize(p.jurisdiction.city)));
+  if (cityMatch) return cityMatch;
+
+  const countyMatch = all.find(p =>
+    !p.jurisdiction.city && p.jurisdiction.county && parts.has(normalize(p.jurisdiction.county))
+  );
+  return countyMatch ?? CALIFORNIA_ZONING_PROFILE;
+}
@@ -0,0 +1,60 @@
+// Zoning Profile Types - ADU ordinance limits for one jurisdiction
+
+export interface Jurisdiction {
+  state: string;
+  county?: string; // omitted for statewide profiles
+  city?: string; // omitted for county (unincorporated) profiles
+}
+
+// Maximum ADU floor area. Every matching cap applies and the smallest one wins.
+export interface AduSizeLimits {
+  minArea: number; // sq ft
+  maxArea: number; // absolute cap, sq ft
+  // Caps by bedroom count - the tier with the highest minBedrooms not above the plan's count applies
+  byBedrooms: Array<{ minBedrooms: number; maxArea: number }>;
+  // Caps by lot size - the tier with the highest minLotAreaSqFt not above the lot area applies
+  byLotArea?: Array<{ minLotAreaSqFt: number; maxArea: number }>;
+}
+
+export interface ZoningSetbacks {
+  front: number; // ft
+  side: number; // ft, applied to both sides
+  rear: number; // ft
+}
+
+export interface HeightLimits {
+  singleStory: number; // ft
+  twoStory?: number; // ft - omitted where two-story detached ADUs are not allowed
+}
+
+// Junior ADU (inside the existing home)
+export interface JaduRules {
+  allowed: boolean;
+  maxArea: number; // sq ft
+  ownerOccupancyRequired: boolean;
+  separateEntranceRequired: boolean;
+}
+
+export interface ZoningProfile {
+  id: string;
+  name: string;
+  jurisdiction: Jurisdiction;
+  aduSize: AduSizeLimits;
+  maxBedrooms: number;
+  setbacks: ZoningSetbacks;
+  height: HeightLimits;
+  maxLotCoverage?: number; // fraction of lot area covered by all buildings (0-1)
+  maxFloorAreaRatio?: number; // total floor area of all buildings / lot area
+  jadu: JaduRules;
+  notes?: string;
+}
+
+// Limits for a specific plan on a specific lot
+export interface AduLimits {
+  minArea: number;
+  maxArea: number;
+  maxBedrooms: number;
+  maxHeight: number | null; // null when the number of stories is not allowed
+  maxLotCoverage?: number;
+  maxFloorAreaRatio?: number;
+}
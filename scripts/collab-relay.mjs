@@ -0,0 +1,256 @@
+// Local stand-in for the co-editing relay - `npm run collab:relay`, then point
+// NEXT_PUBLIC_COLLAB_URL at it (ws://localhost:3002 by default).
+// Speaks the protocol in lib/collab/types.ts over plain WebSockets with no
+// dependencies. Rooms live in memory and are dropped when their last client leaves.
+import { createServer } from "node:http";
+import { createHash } from "node:crypto";
+
+const PORT = Number(process.env.COLLAB_RELAY_PORT || 3002);
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const PING_INTERVAL_MS = 30 * 1000;
+
+// room name -> { entries: Map<key, op>, clients: Map<clientId, client>, locks: Map<key, lock> }
+const rooms = new Map();
+
+// Same keys and ordering as lib/collab/doc.ts
+const entityKey = (levelId, ref) =>
+  ref.entityType === "boundary" ? "boundary:adu" : `${levelId}:${ref.entityType}:${ref.entityId}`;
+const lockKey = (ref) => `${ref.entityType}:${ref.entityId}`;
+const opWins = (op, current) =>
+  !current || (op.clock !== current.clock ? op.clock > current.clock : op.clientId > current.clientId);
+
+// --- WebSocket framing (RFC 6455, text frames only) ---
+
+function encodeFrame(text, opcode = 0x1) {
+  const payload = Buffer.from(text);
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 65536 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode;
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 65536) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+}
+
+// Pull complete frames off the front of the buffer; returns what is left over
+function decodeFrames(buffer, onFrame) {
+  while (buffer.length >= 2) {
+    const fin = (buffer[0] & 0x80) !== 0;
+    const opcode = buffer[0] & 0x0f;
+    const masked = (buffer[1] & 0x80) !== 0;
+    let length = buffer[1] & 0x7f;
+    let offset = 2;
+    if (length === 126) {
+      if (buffer.length < 4) break;
+      length = buffer.readUInt16BE(2);
+      offset = 4;
+    } else if (length === 127) {
+      if (buffer.length < 10) break;
+      length = Number(buffer.readBigUInt64BE(2));
+      offset = 10;
+    }
+    const maskOffset = offset;
+    if (masked) offset += 4;
+    if (buffer.length < offset + length) break;
+    const payload = Buffer.from(buffer.subarray(offset, offset + length));
+    if (masked) {
+      for (let i = 0; i < payload.length; i++) payload[i] ^= buffer[maskOffset + (i % 4)];
+    }
+    onFrame({ fin, opcode, payload });
+    buffer = buffer.subarray(offset + length);
+  }
+  return buffer;
+}
+
+// --- Rooms ---
+
+function send(client, message) {
+  if (!client.socket.destroyed) client.socket.write(encodeFrame(JSON.stringify(message)));
+}
+
+function broadcast(room, message, except) {
+  for (const client of room.clients.values()) {
+    if (client !== except) send(client, message);
+  }
+}
+
+const lockList = (room) => [...room.locks.values()];
+
+function handleMessage(client, message) {
+  if (message.type === "join") {
+    if (!rooms.has(message.room)) {
+      rooms.set(message.room, { entries: new Map(), clients: new Map(), locks: new Map() });
+    }
+    const room = rooms.get(message.room);
+    // A client that reconnects keeps its id - its old socket no longer speaks for it
+    const previous = room.clients.get(message.peer.clientId);
+    if (previous && previous !== client) {
+      previous.room = null;
+      previous.socket.end(encodeFrame("", 0x8));
+    }
+    client.room = room;
+    client.roomName = message.room;
+    client.peer = message.peer;
+    room.clients.set(message.peer.clientId, client);
+    send(client, {
+      type: "welcome",
+      ops: [...room.entries.values()],
+      peers: [...room.clients.values()].filter((c) => c !== client).map((c) => c.peer),
+      locks: lockList(room),
+    });
+    broadcast(room, { type: "presence", peer: client.peer }, client);
+    console.log(`[CollabRelay] ${message.peer.name} joined ${message.room} (${room.clients.size} in room)`);
+    return;
+  }
+
+  const room = client.room;
+  if (!room) return;
+  const clientId = client.peer.clientId;
+
+  switch (message.type) {
+    case "ops": {
+      const accepted = [];
+      const rejected = [];
+      for (const op of message.ops) {
+        const lock = room.locks.get(lockKey(op));
+        if (lock && lock.clientId !== clientId) {
+          rejected.push(op);
+          continue;
+        }
+        const key = entityKey(op.levelId, op);
+        if (opWins(op, room.entries.get(key))) room.entries.set(key, op);
+        accepted.push(op);
+      }
+      if (accepted.length > 0) broadcast(room, { type: "ops", ops: accepted }, client);
+      if (rejected.length > 0) {
+        const current = rejected
+          .map((op) => room.entries.get(entityKey(op.levelId, op)))
+          .filter(Boolean);
+        send(client, { type: "rejected", ops: rejected, current });
+      }
+      break;
+    }
+    case "presence":
+      client.peer = message.peer;
+      broadcast(room, { type: "presence", peer: message.peer }, client);
+      break;
+    case "lock": {
+      // First come first served - everyone gets the list, so a refused client sees who has it
+      const key = lockKey(message.ref);
+      if (!room.locks.has(key)) room.locks.set(key, { ...message.ref, clientId });
+      broadcast(room, { type: "locks", locks: lockList(room) });
+      break;
+    }
+    case "unlock": {
+      const key = lockKey(message.ref);
+      if (room.locks.get(key)?.clientId === clientId) {
+        room.locks.delete(key);
+        broadcast(room, { type: "locks", locks: lockList(room) });
+      }
+      break;
+    }
+  }
+}
+
+function handleClose(client) {
+  const room = client.room;
+  if (!room || !client.peer) return;
+  client.room = null;
+  const { clientId, name } = client.peer;
+  // Replaced by a newer connection with the same id - its clients entry and locks are that one's
+  if (room.clients.get(clientId) !== client) return;
+  room.clients.delete(clientId);
+  let released = false;
+  for (const [key, lock] of room.locks) {
+    if (lock.clientId === clientId) {
+      room.locks.delete(key);
+      released = true;
+    }
+  }
+  broadcast(room, { type: "left", clientId });
+  if (released) broadcast(room, { type: "locks", locks: lockList(room) });
+  if (room.clients.size === 0) rooms.delete(client.roomName);
+  console.log(`[CollabRelay] ${name} left ${client.roomName}`);
+}
+
+// --- Server ---
+
+const server = createServer((req, res) => {
+  res.writeHead(426, { "Content-Type": "text/plain" });
+  res.end("Co-editing relay - connect with a WebSocket\n");
+});
+
+server.on("upgrade", (req, socket) => {
+  const key = req.headers["sec-websocket-key"];
+  if (req.headers.upgrade?.toLowerCase() !== "websocket" || !key) {
+    socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+    return;
+  }
+  const accept = createHash("sha1").update(key + WS_GUID).digest("base64");
+  socket.write(
+    "HTTP/1.1 101 Switching Protocols\r\n" +
+      "Upgrade: websocket\r\n" +
+      "Connection: Upgrade\r\n" +
+      `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+  );
+  socket.setNoDelay(true);
+
+  const client = { socket, room: null, roomName: null, peer: null, alive: true };
+  let buffer = Buffer.alloc(0);
+  let fragments = [];
+
+  socket.on("data", (chunk) => {
+    buffer = decodeFrames(Buffer.concat([buffer, chunk]), ({ fin, opcode, payload }) => {
+      if (opcode === 0x8) {
+        socket.end(encodeFrame("", 0x8));
+        return;
+      }
+      if (opcode === 0x9) {
+        socket.write(encodeFrame(payload.toString(), 0xa));
+        return;
+      }
+      if (opcode === 0xa) {
+        client.alive = true;
+        return;
+      }
+      fragments.push(payload);
+      if (!fin) return;
+      const text = Buffer.concat(fragments).toString();
+      fragments = [];
+      try {
+        handleMessage(client, JSON.parse(text));
+      } catch (error) {
+        console.error("[CollabRelay] Bad message:", error);
+      }
+    });
+  });
+  // The http server keeps sockets half open, so a peer that ends without a close frame
+  // would otherwise only be noticed by the ping
+  socket.on("end", () => {
+    handleClose(client);
+    socket.end();
+  });
+  socket.on("close", () => handleClose(client));
+  socket.on("error", () => socket.destroy());
+
+  // Drop connections that stop answering pings so their locks are released
+  const ping = setInterval(() => {
+    if (!client.alive) {
+      socket.destroy();
+      return;
+    }
+    client.alive = false;
+    if (!socket.destroyed) socket.write(encodeFrame("", 0x9));
+  }, PING_INTERVAL_MS);
+  socket.on("close", () => clearInterval(ping));
+});
+
+server.listen(PORT, () => {
+  console.log(`[CollabRelay] Listening on ws://localhost:${PORT}`);
+});